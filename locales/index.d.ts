@@ -638,6 +638,10 @@ export interface Locale extends ILocale {
      * 解凍しますか？
      */
     "unsuspendConfirm": string;
+    /**
+     * 凍結の解除予定
+     */
+    "suspendedUntil": string;
     /**
      * リストを選択
      */
@@ -2506,6 +2510,10 @@ export interface Locale extends ILocale {
      * このアカウントは、サーバーの利用規約に違反したなどの理由により、凍結されています。詳細については管理者までお問い合わせください。新しいアカウントを作らないでください。
      */
     "yourAccountSuspendedDescription": string;
+    /**
+     * このアカウントは、サーバーの利用規約に違反したなどの理由により、{date}まで凍結されています。詳細については管理者までお問い合わせください。新しいアカウントを作らないでください。
+     */
+    "yourAccountSuspendedUntilDescription": ParameterizedString<"date">;
     /**
      * トークンが無効です
      */
@@ -4306,6 +4314,14 @@ export interface Locale extends ILocale {
      * リアクションの受け入れ
      */
     "reactionAcceptance": string;
+    /**
+     * 引用の許可
+     */
+    "quotePolicy": string;
+    /**
+     * 新しく投稿するノートを誰が引用できるかを設定します。対応している他のサーバーにも伝えられます。
+     */
+    "quotePolicyDescription": string;
     /**
      * いいねのみ
      */
@@ -5254,6 +5270,132 @@ export interface Locale extends ILocale {
      * このサーバーは連合が無効化されています。他のサーバーのユーザーとやり取りすることはできません。
      */
     "federationDisabled": string;
+    /**
+     * 編集履歴
+     */
+    "editHistory": string;
+    /**
+     * 現在の内容
+     */
+    "currentNoteContent": string;
+    /**
+     * {time}に編集
+     */
+    "editedAt": ParameterizedString<"time">;
+    /**
+     * 予約投稿
+     */
+    "schedulePost": string;
+    /**
+     * 予約した投稿
+     */
+    "scheduledNotes": string;
+    /**
+     * 投稿日時を指定
+     */
+    "setScheduledAt": string;
+    /**
+     * 予約を解除
+     */
+    "clearScheduledAt": string;
+    /**
+     * {date}に投稿されます
+     */
+    "scheduledAtDescription": ParameterizedString<"date">;
+    /**
+     * 投稿を予約しました
+     */
+    "noteScheduled": string;
+    /**
+     * 予約を取り消す
+     */
+    "cancelScheduledNote": string;
+    /**
+     * この投稿の予約を取り消しますか？
+     */
+    "cancelScheduledNoteConfirm": string;
+    /**
+     * 予約した投稿はありません
+     */
+    "noScheduledNotes": string;
+    /**
+     * 投稿日時には未来の日時を指定してください
+     */
+    "scheduledAtMustBeInFuture": string;
+    /**
+     * 下書き
+     */
+    "drafts": string;
+    /**
+     * 下書きを保存
+     */
+    "saveDraft": string;
+    /**
+     * 下書きを保存しました
+     */
+    "draftSaved": string;
+    /**
+     * 下書きを復元
+     */
+    "restoreDraft": string;
+    /**
+     * 下書きはありません
+     */
+    "noDrafts": string;
+    /**
+     * この下書きを削除しますか？
+     */
+    "deleteDraftConfirm": string;
+    /**
+     * from:@ユーザー、has:media、has:poll、in:channel、before:2025-01-01、after:2025-01-01、lang:ja、reply:true/false、-除外する語、"完全一致" で絞り込めます。
+     */
+    "searchSyntaxDescription": string;
+    "_searchOperators": {
+        /**
+         * {user} の投稿
+         */
+        "from": ParameterizedString<"user">;
+        /**
+         * ファイル付き
+         */
+        "hasMedia": string;
+        /**
+         * アンケート付き
+         */
+        "hasPoll": string;
+        /**
+         * チャンネル内
+         */
+        "inChannel": string;
+        /**
+         * {date} より前
+         */
+        "before": ParameterizedString<"date">;
+        /**
+         * {date} より後
+         */
+        "after": ParameterizedString<"date">;
+        /**
+         * 言語: {lang}
+         */
+        "lang": ParameterizedString<"lang">;
+        /**
+         * リプライのみ
+         */
+        "reply": string;
+        /**
+         * リプライを除く
+         */
+        "notReply": string;
+        /**
+         * 「{phrase}」に完全一致
+         */
+        "phrase": ParameterizedString<"phrase">;
+        /**
+         * 「{word}」を含まない
+         */
+        "excluded": ParameterizedString<"word">;
+    };
     "_accountSettings": {
         /**
          * コンテンツの表示にログインを必須にする
@@ -5326,6 +5468,256 @@ export interface Locale extends ILocale {
          * 内容が正当でない通報の場合は「否認」を選択し、否定的にケースが解決されたことをマークします。
          */
         "resolveTutorial": string;
+        /**
+         * 通報元のサーバー
+         */
+        "origin": string;
+        /**
+         * 通報元のサーバーのホスト
+         */
+        "originHost": string;
+        /**
+         * 通報元に返信
+         */
+        "replyToOrigin": string;
+        /**
+         * あなたのアカウントからダイレクト投稿で送信されます。通報がリモートサーバーのシステムアカウントから送られている場合は、そのサーバーの連絡先アカウント宛に送信されます。
+         */
+        "replyToOriginDescription": string;
+        "_forwardStatus": {
+            /**
+             * 配送待ち
+             */
+            "pending": string;
+            /**
+             * 配送済み
+             */
+            "delivered": string;
+            /**
+             * 配送失敗
+             */
+            "failed": string;
+        };
+        /**
+         * カテゴリー
+         */
+        "category": string;
+        /**
+         * 優先度
+         */
+        "priority": string;
+        /**
+         * 添付したノート
+         */
+        "attachedNotes": string;
+        /**
+         * ノートを添付
+         */
+        "attachNote": string;
+        /**
+         * このユーザーのノートではありません
+         */
+        "noteIsNotOfTheUser": string;
+        /**
+         * 自分を担当者にする
+         */
+        "assignToMe": string;
+        /**
+         * 担当者を外す
+         */
+        "unassign": string;
+        /**
+         * 自分が担当
+         */
+        "assignedToMe": string;
+        /**
+         * 通報者に通知
+         */
+        "notifyReporter": string;
+        /**
+         * 通知しない
+         */
+        "doNotNotifyReporter": string;
+        /**
+         * 定型文を使わずに通知
+         */
+        "notifyReporterWithoutTemplate": string;
+        /**
+         * 通報者へのメッセージ
+         */
+        "messageToReporter": string;
+        /**
+         * 定型文
+         */
+        "responseTemplates": string;
+        /**
+         * 通報を解決したときに、通報者への通知に添えるメッセージを登録しておけます。
+         */
+        "responseTemplatesDescription": string;
+        /**
+         * 定型文を作成
+         */
+        "createResponseTemplate": string;
+        /**
+         * {n}件を選択中
+         */
+        "selectedCount": ParameterizedString<"n">;
+        /**
+         * 選択モード
+         */
+        "selectMode": string;
+        /**
+         * すべて選択
+         */
+        "selectAll": string;
+        "_categories": {
+            /**
+             * スパム
+             */
+            "spam": string;
+            /**
+             * 嫌がらせ・誹謗中傷
+             */
+            "harassment": string;
+            /**
+             * センシティブな内容
+             */
+            "sensitive": string;
+            /**
+             * 違法な内容
+             */
+            "illegal": string;
+            /**
+             * なりすまし
+             */
+            "impersonation": string;
+            /**
+             * その他
+             */
+            "other": string;
+        };
+        "_priorities": {
+            /**
+             * 通常
+             */
+            "normal": string;
+            /**
+             * 高
+             */
+            "high": string;
+            /**
+             * 緊急
+             */
+            "critical": string;
+        };
+    };
+    "_userWarning": {
+        /**
+         * 警告
+         */
+        "warn": string;
+        /**
+         * ユーザーに警告
+         */
+        "warnUser": string;
+        /**
+         * 警告
+         */
+        "warnings": string;
+        /**
+         * 理由
+         */
+        "reason": string;
+        /**
+         * ユーザーに表示されます。
+         */
+        "reasonDescription": string;
+        /**
+         * ロールで制限
+         */
+        "restrictWithRole": string;
+        /**
+         * 通報
+         */
+        "report": string;
+        /**
+         * モデレーターから警告を受けました
+         */
+        "youHaveBeenWarned": string;
+        /**
+         * {date}まで利用が制限されます。
+         */
+        "restrictedUntil": ParameterizedString<"date">;
+        /**
+         * 確認しました
+         */
+        "acknowledge": string;
+        /**
+         * 確認済み
+         */
+        "acknowledged": string;
+        /**
+         * 未確認
+         */
+        "notAcknowledged": string;
+        /**
+         * 異議申し立て
+         */
+        "appeal": string;
+        /**
+         * 異議の内容
+         */
+        "appealComment": string;
+        /**
+         * 異議申し立ては1つの警告につき1回までです。
+         */
+        "appealDescription": string;
+        /**
+         * 取り消し
+         */
+        "revoke": string;
+        /**
+         * 取り消し済み
+         */
+        "revoked": string;
+        /**
+         * この警告を取り消しますか？警告と同時に付与されたロールも解除されます。
+         */
+        "revokeConfirm": string;
+        /**
+         * 異議を認める
+         */
+        "acceptAppeal": string;
+        /**
+         * 異議を認め、警告を取り消しますか？
+         */
+        "acceptAppealConfirm": string;
+        /**
+         * 異議を認めない
+         */
+        "rejectAppeal": string;
+        /**
+         * 異議を認めずに処理しますか？
+         */
+        "rejectAppealConfirm": string;
+        /**
+         * 警告はありません
+         */
+        "noWarnings": string;
+        "_appealStatus": {
+            /**
+             * 対応待ち
+             */
+            "pending": string;
+            /**
+             * 認められた
+             */
+            "accepted": string;
+            /**
+             * 認められなかった
+             */
+            "rejected": string;
+        };
     };
     "_delivery": {
         /**
@@ -5359,6 +5751,116 @@ export interface Locale extends ILocale {
             "autoSuspendedForNotResponding": string;
         };
     };
+    "_instancePolicies": {
+        /**
+         * 連合ポリシー
+         */
+        "title": string;
+        /**
+         * このサーバーとの連合について、個別に制限を設定できます。
+         */
+        "description": string;
+        /**
+         * 通報を受け付けない
+         */
+        "rejectReports": string;
+        /**
+         * ノートの添付ファイルを取り込まない
+         */
+        "rejectMedia": string;
+        /**
+         * ノートの添付ファイルをセンシティブにし、CWを付ける
+         */
+        "forceSensitive": string;
+        /**
+         * グローバルタイムラインに表示しない
+         */
+        "hideFromGlobalTimeline": string;
+        /**
+         * ローカルユーザーへのフォローを拒否する
+         */
+        "rejectFollows": string;
+    };
+    "_blocklist": {
+        /**
+         * ブロックリスト
+         */
+        "title": string;
+        /**
+         * Mastodon形式(CSV)のドメインブロックリストをインポート・エクスポートしたり、公開されているリストを購読したりできます。
+         */
+        "description": string;
+        /**
+         * 変更点
+         */
+        "changes": string;
+        /**
+         * 変更はありません
+         */
+        "noChanges": string;
+        /**
+         * 適用
+         */
+        "apply": string;
+        /**
+         * {n}件のサーバーの設定を変更します。よろしいですか？
+         */
+        "applyConfirm": ParameterizedString<"n">;
+        /**
+         * 変更点を確認
+         */
+        "preview": string;
+        /**
+         * 今すぐ取得
+         */
+        "refresh": string;
+        /**
+         * 購読
+         */
+        "subscriptions": string;
+        /**
+         * 購読しているリストは定期的に取得されますが、変更点を確認して適用するまでは反映されません。手動で設定したサーバーの制限が緩められることはありません。
+         */
+        "subscriptionsDescription": string;
+        /**
+         * リストを購読
+         */
+        "addSubscription": string;
+        /**
+         * 購読を解除しますか？適用済みの設定はそのまま残ります。
+         */
+        "deleteSubscriptionConfirm": string;
+        /**
+         * {n}件
+         */
+        "entriesCount": ParameterizedString<"n">;
+        /**
+         * 最終取得
+         */
+        "lastFetchedAt": string;
+        /**
+         * 最終適用
+         */
+        "lastAppliedAt": string;
+        /**
+         * メディアを拒否
+         */
+        "rejectMedia": string;
+        "_severity": {
+            /**
+             * 配信停止
+             */
+            "suspend": string;
+            /**
+             * サイレンス
+             */
+            "silence": string;
+            /**
+             * 制限なし
+             */
+            "noop": string;
+        };
+    };
     "_bubbleGame": {
         /**
          * 遊び方
@@ -5822,6 +6324,18 @@ export interface Locale extends ILocale {
          * 有効にすると、リアクション作成時のパフォーマンスが大幅に向上し、データベースへの負荷を軽減することが可能です。ただし、Redisのメモリ使用量は増加します。
          */
         "reactionsBufferingDescription": string;
+        /**
+         * 検索インデックスを再構築
+         */
+        "rebuildSearchIndex": string;
+        /**
+         * 全文検索のインデックスを作り直します。検索プロバイダーを変更した後や、インデックスが壊れた場合に実行してください。投稿数によっては完了までに時間がかかります。
+         */
+        "rebuildSearchIndexDescription": string;
+        /**
+         * 検索インデックスを再構築しますか？完了するまで検索結果が不完全になることがあります。
+         */
+        "rebuildSearchIndexConfirm": string;
         /**
          * 問い合わせ先URL
          */
@@ -5842,6 +6356,42 @@ export interface Locale extends ILocale {
          * 一定期間モデレーターのアクティビティが検出されなかった場合、スパム防止のためこの設定は自動でオフになります。
          */
         "thisSettingWillAutomaticallyOffWhenModeratorsInactive": string;
+        /**
+         * Authorized fetch (セキュアモード)
+         */
+        "authorizedFetch": string;
+        /**
+         * ActivityPubでのノートやユーザー情報の取得にHTTP Signatureによる署名を要求します。ブロックまたは配信停止しているサーバーからの取得は拒否され、フォロワー限定の投稿はフォロワーからの取得にのみ応答します。
+         */
+        "authorizedFetchDescription": string;
+        /**
+         * 署名せずに取得を行うサーバーとは連合できなくなります。有効にしている間は、このサーバーからの取得にも常に署名します。
+         */
+        "authorizedFetchWarning": string;
+        /**
+         * リモートユーザーの投稿の取り込み
+         */
+        "remoteUserBackfill": string;
+        /**
+         * リモートユーザーを初めて取得したときに、そのユーザーのピン留めされた投稿とoutboxから最近の公開投稿を取り込みます。
+         */
+        "remoteUserBackfillDescription": string;
+        /**
+         * 取り込む投稿の数
+         */
+        "remoteUserBackfillNotesLimit": string;
+        /**
+         * 0にすると取り込みを行いません。
+         */
+        "remoteUserBackfillNotesLimitDescription": string;
+        /**
+         * サーバーごとの取り込み回数の上限 (1時間あたり)
+         */
+        "remoteUserBackfillPerHostLimit": string;
+        /**
+         * 同じサーバーのユーザーを短時間に大量に取得した場合に、相手のサーバーに負荷をかけすぎないようにします。
+         */
+        "remoteUserBackfillPerHostLimitDescription": string;
     };
     "_accountMigration": {
         /**
@@ -7029,10 +7579,26 @@ export interface Locale extends ILocale {
              * ミュートのインポートを許可
              */
             "canImportMuting": string;
+            /**
+             * ノートのインポートを許可
+             */
+            "canImportNotes": string;
             /**
              * リストのインポートを許可
              */
             "canImportUserLists": string;
+            /**
+             * チャットを許可
+             */
+            "canChat": string;
+            /**
+             * チャットルームの作成可能数
+             */
+            "chatRoomLimit": string;
+            /**
+             * チャットルームのメンバー数上限
+             */
+            "chatRoomMemberLimit": string;
         };
         "_condition": {
             /**
@@ -7099,6 +7665,42 @@ export interface Locale extends ILocale {
              * 投稿数が～以上
              */
             "notesMoreThanOrEq": string;
+            /**
+             * サーバーのホストが～に一致
+             */
+            "hostMatches": string;
+            /**
+             * メールアドレスのドメインが～に一致
+             */
+            "emailDomainMatches": string;
+            /**
+             * *をワイルドカードとして使用できます (例: *.example.com)
+             */
+            "wildcardDescription": string;
+            /**
+             * 連続ログイン日数が～以上
+             */
+            "loggedInStreakMoreThanOrEq": string;
+            /**
+             * 実績～を獲得済み
+             */
+            "hasAchievement": string;
+            /**
+             * 二段階認証が有効なユーザー
+             */
+            "isTwoFactorEnabled": string;
+            /**
+             * 応答していないサーバーのユーザー
+             */
+            "isFromNotRespondingInstance": string;
+            /**
+             * 最終アクティブから～以内
+             */
+            "lastActiveLessThan": string;
+            /**
+             * 最終アクティブから～経過
+             */
+            "lastActiveMoreThan": string;
             /**
              * ～かつ～
              */
@@ -8434,6 +9036,10 @@ export interface Locale extends ILocale {
          * ユーザーのドライブの関する情報を見る
          */
         "read:admin:drive": string;
+        /**
+         * ユーザーのノートをモデレーションする
+         */
+        "write:admin:notes": string;
         /**
          * 管理者用のWebsocket APIを使う
          */
@@ -8470,6 +9076,14 @@ export interface Locale extends ILocale {
          * 違反を報告する
          */
         "write:report-abuse": string;
+        /**
+         * チャットを見る
+         */
+        "read:chat": string;
+        /**
+         * チャットを操作する
+         */
+        "write:chat": string;
     };
     "_auth": {
         /**
@@ -8797,6 +9411,20 @@ export interface Locale extends ILocale {
          */
         "remainingSeconds": ParameterizedString<"s">;
     };
+    "_quotePolicy": {
+        /**
+         * 誰でも
+         */
+        "public": string;
+        /**
+         * フォロワーのみ
+         */
+        "followers": string;
+        /**
+         * 自分のみ
+         */
+        "nobody": string;
+    };
     "_visibility": {
         /**
          * パブリック
@@ -8986,6 +9614,14 @@ export interface Locale extends ILocale {
          * インポートした人による返信をTLに含むようにする
          */
         "withReplies": string;
+        /**
+         * インポート元
+         */
+        "noteImportSource": string;
+        /**
+         * Misskeyでエクスポートしたノート、またはMastodonのアーカイブ(outbox.json単体か、メディアを含むzip)を取り込めます。元の投稿日時と、可能な範囲でリプライのつながりが保持されます。
+         */
+        "noteImportDescription": string;
     };
     "_charts": {
         /**
@@ -9480,6 +10116,34 @@ export interface Locale extends ILocale {
          * 心当たりがない場合は「{text}」を通じてアクセストークンを削除してください。
          */
         "createTokenDescription": ParameterizedString<"text">;
+        /**
+         * 通報が処理されました
+         */
+        "abuseReportResolved": string;
+        /**
+         * ご協力ありがとうございました。
+         */
+        "abuseReportResolvedDescription": string;
+        /**
+         * 警告への異議申し立てが処理されました
+         */
+        "userWarningAppealResolved": string;
+        /**
+         * 異議申し立てが認められ、警告は取り消されました。
+         */
+        "userWarningAppealAccepted": string;
+        /**
+         * 異議申し立ては認められませんでした。
+         */
+        "userWarningAppealRejected": string;
+        /**
+         * 予約投稿を投稿できませんでした
+         */
+        "scheduledNotePostFailed": string;
+        /**
+         * 予約は解除され、下書きとして保存されています。
+         */
+        "scheduledNotePostFailedDescription": string;
         "_types": {
             /**
              * すべて
@@ -9541,6 +10205,18 @@ export interface Locale extends ILocale {
              * ログイン
              */
             "login": string;
+            /**
+             * 通報が処理された
+             */
+            "abuseReportResolved": string;
+            /**
+             * 警告への異議申し立てが処理された
+             */
+            "userWarningAppealResolved": string;
+            /**
+             * 予約投稿が投稿できなかった
+             */
+            "scheduledNotePostFailed": string;
             /**
              * 通知のテスト
              */
@@ -9773,6 +10449,34 @@ export interface Locale extends ILocale {
              * メンションされたとき
              */
             "mention": string;
+            /**
+             * ノートを削除したとき
+             */
+            "noteDeleted": string;
+            /**
+             * フォローリクエストを受け取ったとき
+             */
+            "followRequestReceived": string;
+            /**
+             * フォローリクエストが承認されたとき
+             */
+            "followRequestAccepted": string;
+            /**
+             * アンケートが終了したとき
+             */
+            "pollEnded": string;
+            /**
+             * アンテナにノートが流れてきたとき
+             */
+            "antennaMatched": string;
+            /**
+             * 実績を獲得したとき
+             */
+            "achievementEarned": string;
+            /**
+             * 通知を受け取ったとき
+             */
+            "notification": string;
         };
         "_systemEvents": {
             /**
@@ -9795,6 +10499,14 @@ export interface Locale extends ILocale {
              * モデレーターが一定期間非アクティブだったため、システムにより招待制へと変更されたとき
              */
             "inactiveModeratorsInvitationOnlyChanged": string;
+            /**
+             * 連合先のサーバーが応答しなくなったとき
+             */
+            "instanceNotResponding": string;
+            /**
+             * 連合先のサーバーの配信停止状態が変わったとき
+             */
+            "instanceSuspensionStateChanged": string;
         };
         /**
          * Webhookを削除しますか？
@@ -9804,6 +10516,42 @@ export interface Locale extends ILocale {
          * スイッチの右にあるボタンをクリックするとダミーのデータを使用したテスト用Webhookを送信できます。
          */
         "testRemarks": string;
+        /**
+         * 配送ログ
+         */
+        "deliveryLogs": string;
+        /**
+         * 直近7日間の配送の記録です。連続して配送に失敗したWebhookは自動で無効化されます。
+         */
+        "deliveryLogsDescription": string;
+        /**
+         * 配送ログはありません
+         */
+        "noDeliveryLogs": string;
+        /**
+         * イベントID
+         */
+        "eventId": string;
+        /**
+         * 応答時間
+         */
+        "latency": string;
+        /**
+         * 試行回数
+         */
+        "attempt": string;
+        /**
+         * 再送
+         */
+        "redeliver": string;
+        /**
+         * モデレーションログ
+         */
+        "moderationLogEvents": string;
+        /**
+         * モデレーションログに記録される操作が行われたときに送信します
+         */
+        "moderationLogEventsDescription": string;
     };
     "_abuseReport": {
         "_notificationRecipient": {
@@ -9857,6 +10605,44 @@ export interface Locale extends ILocale {
             "deleteConfirm": string;
         };
     };
+    "_noteModeration": {
+        /**
+         * ノートのモデレーション
+         */
+        "title": string;
+        /**
+         * 投稿者以外から非表示にする
+         */
+        "hide": string;
+        /**
+         * 非表示を解除
+         */
+        "unhide": string;
+        /**
+         * CWを設定
+         */
+        "setCw": string;
+        /**
+         * 投稿者が設定したCWより優先して表示されます。空にするとモデレーターが設定したCWを外します。
+         */
+        "setCwDescription": string;
+        /**
+         * 添付ファイルをセンシティブとして扱う
+         */
+        "markSensitive": string;
+        /**
+         * センシティブの扱いを解除
+         */
+        "unmarkSensitive": string;
+        /**
+         * 公開タイムラインとハイライトから除外
+         */
+        "excludeFromPublicTimelines": string;
+        /**
+         * 公開タイムラインとハイライトからの除外を解除
+         */
+        "includeInPublicTimelines": string;
+    };
     "_moderationLogTypes": {
         /**
          * ロールを作成
@@ -9954,6 +10740,10 @@ export interface Locale extends ILocale {
          * リモートサーバーのモデレーションノート更新
          */
         "updateRemoteInstanceNote": string;
+        /**
+         * リモートサーバーの連合ポリシー更新
+         */
+        "updateRemoteInstancePolicies": string;
         /**
          * ファイルをセンシティブ付与
          */
@@ -9970,10 +10760,18 @@ export interface Locale extends ILocale {
          * 通報を転送
          */
         "forwardAbuseReport": string;
+        /**
+         * 通報元に返信
+         */
+        "replyAbuseReport": string;
         /**
          * 通報のモデレーションノート更新
          */
         "updateAbuseReportNote": string;
+        /**
+         * 通報の担当者を変更
+         */
+        "assignAbuseReport": string;
         /**
          * 招待コードを作成
          */
@@ -10034,6 +10832,18 @@ export interface Locale extends ILocale {
          * 通報の通知先を削除
          */
         "deleteAbuseReportNotificationRecipient": string;
+        /**
+         * 通報の定型文を作成
+         */
+        "createAbuseReportResponseTemplate": string;
+        /**
+         * 通報の定型文を更新
+         */
+        "updateAbuseReportResponseTemplate": string;
+        /**
+         * 通報の定型文を削除
+         */
+        "deleteAbuseReportResponseTemplate": string;
         /**
          * アカウントを削除
          */
@@ -10050,6 +10860,74 @@ export interface Locale extends ILocale {
          * ギャラリーの投稿を削除
          */
         "deleteGalleryPost": string;
+        /**
+         * 検索インデックスを再構築
+         */
+        "rebuildSearchIndex": string;
+        /**
+         * ブロックリストを適用
+         */
+        "importBlocklist": string;
+        /**
+         * ブロックリストを購読
+         */
+        "createBlocklistSubscription": string;
+        /**
+         * ブロックリストの購読を更新
+         */
+        "updateBlocklistSubscription": string;
+        /**
+         * ブロックリストの購読を解除
+         */
+        "deleteBlocklistSubscription": string;
+        /**
+         * ノートを非表示
+         */
+        "hideNote": string;
+        /**
+         * ノートの非表示を解除
+         */
+        "unhideNote": string;
+        /**
+         * ノートのCWを設定
+         */
+        "setNoteCw": string;
+        /**
+         * ノートをセンシティブ設定
+         */
+        "markSensitiveNote": string;
+        /**
+         * ノートをセンシティブ解除
+         */
+        "unmarkSensitiveNote": string;
+        /**
+         * ノートを公開タイムラインから除外
+         */
+        "excludeNoteFromPublicTimelines": string;
+        /**
+         * ノートの公開タイムラインからの除外を解除
+         */
+        "includeNoteInPublicTimelines": string;
+        /**
+         * ユーザーに警告
+         */
+        "warnUser": string;
+        /**
+         * ユーザーへの警告を取り消し
+         */
+        "revokeUserWarning": string;
+        /**
+         * 警告への異議申し立てを処理
+         */
+        "resolveUserWarningAppeal": string;
+        /**
+         * ジョブキューをクリア
+         */
+        "clearQueue": string;
+        /**
+         * 遅延しているジョブを再試行
+         */
+        "promoteQueue": string;
     };
     "_fileViewer": {
         /**
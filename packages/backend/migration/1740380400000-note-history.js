@@ -0,0 +1,23 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+export class NoteHistory1740380400000 {
+    name = 'NoteHistory1740380400000'
+
+    async up(queryRunner) {
+        await queryRunner.query(`ALTER TABLE "note" ADD "updatedAt" TIMESTAMP WITH TIME ZONE`);
+        await queryRunner.query(`COMMENT ON COLUMN "note"."updatedAt" IS 'The updated date of the Note.'`);
+        await queryRunner.query(`CREATE TABLE "note_history" ("id" character varying(32) NOT NULL, "noteId" character varying(32) NOT NULL, "text" text, "cw" character varying(512), "fileIds" character varying(32) array NOT NULL DEFAULT '{}', "poll" jsonb, CONSTRAINT "PK_b8603c8aa42b803c7687e52c2c0" PRIMARY KEY ("id")); COMMENT ON COLUMN "note_history"."noteId" IS 'The ID of note.'`);
+        await queryRunner.query(`CREATE INDEX "IDX_1e2492ba7582bf830b750a2962" ON "note_history" ("noteId") `);
+        await queryRunner.query(`ALTER TABLE "note_history" ADD CONSTRAINT "FK_1e2492ba7582bf830b750a29627" FOREIGN KEY ("noteId") REFERENCES "note"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+    }
+
+    async down(queryRunner) {
+        await queryRunner.query(`ALTER TABLE "note_history" DROP CONSTRAINT "FK_1e2492ba7582bf830b750a29627"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_1e2492ba7582bf830b750a2962"`);
+        await queryRunner.query(`DROP TABLE "note_history"`);
+        await queryRunner.query(`ALTER TABLE "note" DROP COLUMN "updatedAt"`);
+    }
+}
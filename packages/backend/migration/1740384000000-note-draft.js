@@ -0,0 +1,30 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+export class NoteDraft1740384000000 {
+    name = 'NoteDraft1740384000000'
+
+    async up(queryRunner) {
+        await queryRunner.query(`CREATE TYPE "public"."note_draft_visibility_enum" AS ENUM('public', 'home', 'followers', 'specified')`);
+        await queryRunner.query(`CREATE TABLE "note_draft" ("id" character varying(32) NOT NULL, "userId" character varying(32) NOT NULL, "scheduledAt" TIMESTAMP WITH TIME ZONE, "replyId" character varying(32), "renoteId" character varying(32), "channelId" character varying(32), "text" text, "cw" character varying(512), "fileIds" character varying(32) array NOT NULL DEFAULT '{}', "poll" jsonb, "visibility" "public"."note_draft_visibility_enum" NOT NULL, "visibleUserIds" character varying(32) array NOT NULL DEFAULT '{}', "localOnly" boolean NOT NULL DEFAULT false, "reactionAcceptance" character varying(64), CONSTRAINT "PK_8335327f9da72a0e6c5082e724c" PRIMARY KEY ("id")); COMMENT ON COLUMN "note_draft"."userId" IS 'The ID of author.'; COMMENT ON COLUMN "note_draft"."scheduledAt" IS 'The date when the draft will be published.'; COMMENT ON COLUMN "note_draft"."replyId" IS 'The ID of reply target.'; COMMENT ON COLUMN "note_draft"."renoteId" IS 'The ID of renote target.'; COMMENT ON COLUMN "note_draft"."channelId" IS 'The ID of target channel.'`);
+        await queryRunner.query(`CREATE INDEX "IDX_e4983f28b4b18b03491536052f" ON "note_draft" ("userId") `);
+        await queryRunner.query(`CREATE INDEX "IDX_fa892376ebabea40977614c637" ON "note_draft" ("scheduledAt") `);
+        await queryRunner.query(`ALTER TABLE "note_draft" ADD CONSTRAINT "FK_e4983f28b4b18b03491536052f5" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+        await queryRunner.query(`ALTER TABLE "note_draft" ADD CONSTRAINT "FK_75c8cfb328004afaeb33749c02e" FOREIGN KEY ("replyId") REFERENCES "note"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+        await queryRunner.query(`ALTER TABLE "note_draft" ADD CONSTRAINT "FK_607bd77c731a5196064a624b889" FOREIGN KEY ("renoteId") REFERENCES "note"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+        await queryRunner.query(`ALTER TABLE "note_draft" ADD CONSTRAINT "FK_908c103a3aae5771f952e8ca560" FOREIGN KEY ("channelId") REFERENCES "channel"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+    }
+
+    async down(queryRunner) {
+        await queryRunner.query(`ALTER TABLE "note_draft" DROP CONSTRAINT "FK_908c103a3aae5771f952e8ca560"`);
+        await queryRunner.query(`ALTER TABLE "note_draft" DROP CONSTRAINT "FK_607bd77c731a5196064a624b889"`);
+        await queryRunner.query(`ALTER TABLE "note_draft" DROP CONSTRAINT "FK_75c8cfb328004afaeb33749c02e"`);
+        await queryRunner.query(`ALTER TABLE "note_draft" DROP CONSTRAINT "FK_e4983f28b4b18b03491536052f5"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_fa892376ebabea40977614c637"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_e4983f28b4b18b03491536052f"`);
+        await queryRunner.query(`DROP TABLE "note_draft"`);
+        await queryRunner.query(`DROP TYPE "public"."note_draft_visibility_enum"`);
+    }
+}
@@ -0,0 +1,17 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+export class NoteLang1740391200000 {
+    name = 'NoteLang1740391200000'
+
+    async up(queryRunner) {
+        await queryRunner.query(`ALTER TABLE "note" ADD "lang" character varying(32)`);
+        await queryRunner.query(`COMMENT ON COLUMN "note"."lang" IS 'The language of the note. (BCP 47)'`);
+    }
+
+    async down(queryRunner) {
+        await queryRunner.query(`ALTER TABLE "note" DROP COLUMN "lang"`);
+    }
+}
@@ -0,0 +1,28 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+export class WebhookDeliveryLog1740394800000 {
+    name = 'WebhookDeliveryLog1740394800000'
+
+    async up(queryRunner) {
+        await queryRunner.query(`CREATE TABLE "webhook_delivery_log" ("id" character varying(32) NOT NULL, "webhookId" character varying(32), "systemWebhookId" character varying(32), "eventId" character varying(36) NOT NULL, "type" character varying(128) NOT NULL, "url" character varying(1024) NOT NULL, "requestBody" jsonb NOT NULL, "statusCode" integer, "latency" integer NOT NULL, "error" character varying(1024), "attempt" smallint NOT NULL DEFAULT 1, "success" boolean NOT NULL, CONSTRAINT "PK_23b6a6709d0e64906e63daaf871" PRIMARY KEY ("id")); COMMENT ON COLUMN "webhook_delivery_log"."webhookId" IS 'The ID of the user webhook.'; COMMENT ON COLUMN "webhook_delivery_log"."systemWebhookId" IS 'The ID of the system webhook.'`);
+        await queryRunner.query(`CREATE INDEX "IDX_6b727d4f9fc6edbc45000c32c7" ON "webhook_delivery_log" ("webhookId") `);
+        await queryRunner.query(`CREATE INDEX "IDX_012f555cc3cad801955422889a" ON "webhook_delivery_log" ("systemWebhookId") `);
+        await queryRunner.query(`ALTER TABLE "webhook_delivery_log" ADD CONSTRAINT "FK_6b727d4f9fc6edbc45000c32c77" FOREIGN KEY ("webhookId") REFERENCES "webhook"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+        await queryRunner.query(`ALTER TABLE "webhook_delivery_log" ADD CONSTRAINT "FK_012f555cc3cad801955422889a5" FOREIGN KEY ("systemWebhookId") REFERENCES "system_webhook"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+        await queryRunner.query(`ALTER TABLE "webhook" ADD "failureCount" integer NOT NULL DEFAULT 0`);
+        await queryRunner.query(`ALTER TABLE "system_webhook" ADD "failureCount" integer NOT NULL DEFAULT 0`);
+    }
+
+    async down(queryRunner) {
+        await queryRunner.query(`ALTER TABLE "system_webhook" DROP COLUMN "failureCount"`);
+        await queryRunner.query(`ALTER TABLE "webhook" DROP COLUMN "failureCount"`);
+        await queryRunner.query(`ALTER TABLE "webhook_delivery_log" DROP CONSTRAINT "FK_012f555cc3cad801955422889a5"`);
+        await queryRunner.query(`ALTER TABLE "webhook_delivery_log" DROP CONSTRAINT "FK_6b727d4f9fc6edbc45000c32c77"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_012f555cc3cad801955422889a"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_6b727d4f9fc6edbc45000c32c7"`);
+        await queryRunner.query(`DROP TABLE "webhook_delivery_log"`);
+    }
+}
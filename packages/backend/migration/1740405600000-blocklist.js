@@ -0,0 +1,24 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+export class Blocklist1740405600000 {
+    name = 'Blocklist1740405600000'
+
+    async up(queryRunner) {
+        await queryRunner.query(`CREATE TABLE "blocklist_subscription" ("id" character varying(32) NOT NULL, "url" character varying(1024) NOT NULL, "isActive" boolean NOT NULL DEFAULT true, "records" jsonb NOT NULL DEFAULT '[]', "lastFetchedAt" TIMESTAMP WITH TIME ZONE, "lastError" character varying(1024), "lastAppliedAt" TIMESTAMP WITH TIME ZONE, CONSTRAINT "PK_53b4d5297932fe157890e01087f" PRIMARY KEY ("id"))`);
+        await queryRunner.query(`CREATE TABLE "blocklist_entry" ("id" character varying(32) NOT NULL, "host" character varying(1024) NOT NULL, "severity" character varying(16) NOT NULL, "rejectMedia" boolean NOT NULL DEFAULT false, "publicComment" character varying(2048) NOT NULL DEFAULT '', "source" character varying(1024) NOT NULL, "subscriptionId" character varying(32), CONSTRAINT "PK_6935015abbb7e311c4851e67ae0" PRIMARY KEY ("id"))`);
+        await queryRunner.query(`CREATE UNIQUE INDEX "IDX_6e1341ae82a38da8e5874c4a6e" ON "blocklist_entry" ("host") `);
+        await queryRunner.query(`CREATE INDEX "IDX_9cc623cd988c6e23db0972f9dc" ON "blocklist_entry" ("subscriptionId") `);
+        await queryRunner.query(`ALTER TABLE "blocklist_entry" ADD CONSTRAINT "FK_9cc623cd988c6e23db0972f9dc9" FOREIGN KEY ("subscriptionId") REFERENCES "blocklist_subscription"("id") ON DELETE SET NULL ON UPDATE NO ACTION`);
+    }
+
+    async down(queryRunner) {
+        await queryRunner.query(`ALTER TABLE "blocklist_entry" DROP CONSTRAINT "FK_9cc623cd988c6e23db0972f9dc9"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_9cc623cd988c6e23db0972f9dc"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_6e1341ae82a38da8e5874c4a6e"`);
+        await queryRunner.query(`DROP TABLE "blocklist_entry"`);
+        await queryRunner.query(`DROP TABLE "blocklist_subscription"`);
+    }
+}
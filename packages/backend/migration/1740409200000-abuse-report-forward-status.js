@@ -0,0 +1,22 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+export class AbuseReportForwardStatus1740409200000 {
+    name = 'AbuseReportForwardStatus1740409200000'
+
+    async up(queryRunner) {
+        await queryRunner.query(`ALTER TABLE "abuse_user_report" ADD "forwardStatus" character varying(16)`);
+        await queryRunner.query(`ALTER TABLE "abuse_user_report" ADD "forwardedAt" TIMESTAMP WITH TIME ZONE`);
+        await queryRunner.query(`ALTER TABLE "abuse_user_report" ADD "forwardError" character varying(512)`);
+        await queryRunner.query(`ALTER TABLE "abuse_user_report" ADD "originUri" character varying(512)`);
+    }
+
+    async down(queryRunner) {
+        await queryRunner.query(`ALTER TABLE "abuse_user_report" DROP COLUMN "originUri"`);
+        await queryRunner.query(`ALTER TABLE "abuse_user_report" DROP COLUMN "forwardError"`);
+        await queryRunner.query(`ALTER TABLE "abuse_user_report" DROP COLUMN "forwardedAt"`);
+        await queryRunner.query(`ALTER TABLE "abuse_user_report" DROP COLUMN "forwardStatus"`);
+    }
+}
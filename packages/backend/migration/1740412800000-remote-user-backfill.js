@@ -0,0 +1,18 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+export class RemoteUserBackfill1740412800000 {
+    name = 'RemoteUserBackfill1740412800000'
+
+    async up(queryRunner) {
+        await queryRunner.query(`ALTER TABLE "meta" ADD "remoteUserBackfillNotesLimit" integer NOT NULL DEFAULT '20'`);
+        await queryRunner.query(`ALTER TABLE "meta" ADD "remoteUserBackfillPerHostLimit" integer NOT NULL DEFAULT '30'`);
+    }
+
+    async down(queryRunner) {
+        await queryRunner.query(`ALTER TABLE "meta" DROP COLUMN "remoteUserBackfillPerHostLimit"`);
+        await queryRunner.query(`ALTER TABLE "meta" DROP COLUMN "remoteUserBackfillNotesLimit"`);
+    }
+}
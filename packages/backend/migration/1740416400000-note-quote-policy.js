@@ -0,0 +1,31 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+export class NoteQuotePolicy1740416400000 {
+    name = 'NoteQuotePolicy1740416400000'
+
+    async up(queryRunner) {
+        await queryRunner.query(`ALTER TABLE "note" ADD "quotePolicy" character varying(16) NOT NULL DEFAULT 'public'`);
+        await queryRunner.query(`ALTER TABLE "note" ADD "quoteAuthorizationUri" character varying(512)`);
+        await queryRunner.query(`COMMENT ON COLUMN "note"."quoteAuthorizationUri" IS 'The URI of the QuoteAuthorization which approves this note to quote the renote.'`);
+        await queryRunner.query(`CREATE TABLE "note_quote_authorization" ("id" character varying(32) NOT NULL, "noteId" character varying(32) NOT NULL, "userId" character varying(32) NOT NULL, "quoteUri" character varying(512) NOT NULL, CONSTRAINT "PK_2da29da70ef5ebf7691934a4294" PRIMARY KEY ("id")); COMMENT ON COLUMN "note_quote_authorization"."noteId" IS 'The ID of the quoted note.'; COMMENT ON COLUMN "note_quote_authorization"."userId" IS 'The ID of the author of the quoting note.'; COMMENT ON COLUMN "note_quote_authorization"."quoteUri" IS 'The URI of the quoting note.'`);
+        await queryRunner.query(`CREATE INDEX "IDX_32da64fae6fc76fed65349600a" ON "note_quote_authorization" ("noteId") `);
+        await queryRunner.query(`CREATE INDEX "IDX_327d57cdd285c5e53894e69286" ON "note_quote_authorization" ("userId") `);
+        await queryRunner.query(`CREATE UNIQUE INDEX "IDX_3def5874d488a2db752d045e9f" ON "note_quote_authorization" ("noteId", "quoteUri") `);
+        await queryRunner.query(`ALTER TABLE "note_quote_authorization" ADD CONSTRAINT "FK_32da64fae6fc76fed65349600a2" FOREIGN KEY ("noteId") REFERENCES "note"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+        await queryRunner.query(`ALTER TABLE "note_quote_authorization" ADD CONSTRAINT "FK_327d57cdd285c5e53894e69286f" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+    }
+
+    async down(queryRunner) {
+        await queryRunner.query(`ALTER TABLE "note_quote_authorization" DROP CONSTRAINT "FK_327d57cdd285c5e53894e69286f"`);
+        await queryRunner.query(`ALTER TABLE "note_quote_authorization" DROP CONSTRAINT "FK_32da64fae6fc76fed65349600a2"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_3def5874d488a2db752d045e9f"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_327d57cdd285c5e53894e69286"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_32da64fae6fc76fed65349600a"`);
+        await queryRunner.query(`DROP TABLE "note_quote_authorization"`);
+        await queryRunner.query(`ALTER TABLE "note" DROP COLUMN "quoteAuthorizationUri"`);
+        await queryRunner.query(`ALTER TABLE "note" DROP COLUMN "quotePolicy"`);
+    }
+}
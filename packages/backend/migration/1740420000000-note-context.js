@@ -0,0 +1,19 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+export class NoteContext1740420000000 {
+    name = 'NoteContext1740420000000'
+
+    async up(queryRunner) {
+        await queryRunner.query(`ALTER TABLE "note" ADD "contextUri" character varying(512)`);
+        await queryRunner.query(`COMMENT ON COLUMN "note"."contextUri" IS 'The URI of the conversation (context) which the note belongs to.'`);
+        await queryRunner.query(`CREATE INDEX "IDX_fb62e3761e52991ae945ae6c07" ON "note" ("contextUri") `);
+    }
+
+    async down(queryRunner) {
+        await queryRunner.query(`DROP INDEX "public"."IDX_fb62e3761e52991ae945ae6c07"`);
+        await queryRunner.query(`ALTER TABLE "note" DROP COLUMN "contextUri"`);
+    }
+}
@@ -0,0 +1,26 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+export class NoteModeration1740423600000 {
+    name = 'NoteModeration1740423600000'
+
+    async up(queryRunner) {
+        await queryRunner.query(`ALTER TABLE "note" ADD "moderatorCw" character varying(512)`);
+        await queryRunner.query(`COMMENT ON COLUMN "note"."moderatorCw" IS 'The CW added by a moderator.'`);
+        await queryRunner.query(`ALTER TABLE "note" ADD "isHiddenByModerator" boolean NOT NULL DEFAULT false`);
+        await queryRunner.query(`COMMENT ON COLUMN "note"."isHiddenByModerator" IS 'Whether the note is hidden from everyone except the author by a moderator.'`);
+        await queryRunner.query(`ALTER TABLE "note" ADD "isSensitiveByModerator" boolean NOT NULL DEFAULT false`);
+        await queryRunner.query(`COMMENT ON COLUMN "note"."isSensitiveByModerator" IS 'Whether the files of the note are marked as sensitive by a moderator.'`);
+        await queryRunner.query(`ALTER TABLE "note" ADD "isExcludedFromPublicTimelines" boolean NOT NULL DEFAULT false`);
+        await queryRunner.query(`COMMENT ON COLUMN "note"."isExcludedFromPublicTimelines" IS 'Whether the note is excluded from the public timelines and featured notes by a moderator.'`);
+    }
+
+    async down(queryRunner) {
+        await queryRunner.query(`ALTER TABLE "note" DROP COLUMN "isExcludedFromPublicTimelines"`);
+        await queryRunner.query(`ALTER TABLE "note" DROP COLUMN "isSensitiveByModerator"`);
+        await queryRunner.query(`ALTER TABLE "note" DROP COLUMN "isHiddenByModerator"`);
+        await queryRunner.query(`ALTER TABLE "note" DROP COLUMN "moderatorCw"`);
+    }
+}
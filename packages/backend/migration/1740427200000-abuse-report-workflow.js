@@ -0,0 +1,24 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+export class AbuseReportWorkflow1740427200000 {
+    name = 'AbuseReportWorkflow1740427200000'
+
+    async up(queryRunner) {
+        await queryRunner.query(`ALTER TABLE "abuse_user_report" ADD "category" character varying(32) NOT NULL DEFAULT 'other'`);
+        await queryRunner.query(`ALTER TABLE "abuse_user_report" ADD "noteIds" character varying(32) array NOT NULL DEFAULT '{}'`);
+        await queryRunner.query(`ALTER TABLE "abuse_user_report" ADD "priority" character varying(16) NOT NULL DEFAULT 'normal'`);
+        await queryRunner.query(`CREATE INDEX "IDX_3041dc65a55a8e3ffa6fa85c3a" ON "abuse_user_report" ("priority") `);
+        await queryRunner.query(`CREATE TABLE "abuse_report_response_template" ("id" character varying(32) NOT NULL, "updatedAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), "name" character varying(256) NOT NULL, "text" character varying(2048) NOT NULL, CONSTRAINT "PK_afd9132fa54d9dacd073d504914" PRIMARY KEY ("id"))`);
+    }
+
+    async down(queryRunner) {
+        await queryRunner.query(`DROP TABLE "abuse_report_response_template"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_3041dc65a55a8e3ffa6fa85c3a"`);
+        await queryRunner.query(`ALTER TABLE "abuse_user_report" DROP COLUMN "priority"`);
+        await queryRunner.query(`ALTER TABLE "abuse_user_report" DROP COLUMN "noteIds"`);
+        await queryRunner.query(`ALTER TABLE "abuse_user_report" DROP COLUMN "category"`);
+    }
+}
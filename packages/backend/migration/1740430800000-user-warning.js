@@ -0,0 +1,30 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+export class UserWarning1740430800000 {
+    name = 'UserWarning1740430800000'
+
+    async up(queryRunner) {
+        await queryRunner.query(`CREATE TABLE "user_warning" ("id" character varying(32) NOT NULL, "userId" character varying(32) NOT NULL, "moderatorId" character varying(32), "reportId" character varying(32), "noteId" character varying(32), "reason" character varying(2048) NOT NULL, "roleId" character varying(32), "roleExpiresAt" TIMESTAMP WITH TIME ZONE, "acknowledgedAt" TIMESTAMP WITH TIME ZONE, "revokedAt" TIMESTAMP WITH TIME ZONE, "appealComment" character varying(2048), "appealedAt" TIMESTAMP WITH TIME ZONE, "appealStatus" character varying(16), CONSTRAINT "PK_b3752273e2149d069961775d787" PRIMARY KEY ("id"))`);
+        await queryRunner.query(`CREATE INDEX "IDX_69eb45d3aa62b9b0e29aa76983" ON "user_warning" ("userId") `);
+        await queryRunner.query(`CREATE INDEX "IDX_74315c9e50b40e70792075f48f" ON "user_warning" ("appealStatus") `);
+        await queryRunner.query(`ALTER TABLE "user_warning" ADD CONSTRAINT "FK_69eb45d3aa62b9b0e29aa76983b" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+        await queryRunner.query(`ALTER TABLE "user_warning" ADD CONSTRAINT "FK_bb0e800ae3f7a31c8127a9f6113" FOREIGN KEY ("moderatorId") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE NO ACTION`);
+        await queryRunner.query(`ALTER TABLE "user_warning" ADD CONSTRAINT "FK_1e4728aadc077755c903d3e905f" FOREIGN KEY ("reportId") REFERENCES "abuse_user_report"("id") ON DELETE SET NULL ON UPDATE NO ACTION`);
+        await queryRunner.query(`ALTER TABLE "user_warning" ADD CONSTRAINT "FK_b40c938d4372a127103d25d9e61" FOREIGN KEY ("noteId") REFERENCES "note"("id") ON DELETE SET NULL ON UPDATE NO ACTION`);
+        await queryRunner.query(`ALTER TABLE "user_warning" ADD CONSTRAINT "FK_daa8afde99cdd56703e6f18c2bd" FOREIGN KEY ("roleId") REFERENCES "role"("id") ON DELETE SET NULL ON UPDATE NO ACTION`);
+    }
+
+    async down(queryRunner) {
+        await queryRunner.query(`ALTER TABLE "user_warning" DROP CONSTRAINT "FK_daa8afde99cdd56703e6f18c2bd"`);
+        await queryRunner.query(`ALTER TABLE "user_warning" DROP CONSTRAINT "FK_b40c938d4372a127103d25d9e61"`);
+        await queryRunner.query(`ALTER TABLE "user_warning" DROP CONSTRAINT "FK_1e4728aadc077755c903d3e905f"`);
+        await queryRunner.query(`ALTER TABLE "user_warning" DROP CONSTRAINT "FK_bb0e800ae3f7a31c8127a9f6113"`);
+        await queryRunner.query(`ALTER TABLE "user_warning" DROP CONSTRAINT "FK_69eb45d3aa62b9b0e29aa76983b"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_74315c9e50b40e70792075f48f"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_69eb45d3aa62b9b0e29aa76983"`);
+        await queryRunner.query(`DROP TABLE "user_warning"`);
+    }
+}
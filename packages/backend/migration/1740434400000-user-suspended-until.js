@@ -0,0 +1,19 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+export class UserSuspendedUntil1740434400000 {
+    name = 'UserSuspendedUntil1740434400000'
+
+    async up(queryRunner) {
+        await queryRunner.query(`ALTER TABLE "user" ADD "suspendedUntil" TIMESTAMP WITH TIME ZONE`);
+        await queryRunner.query(`COMMENT ON COLUMN "user"."suspendedUntil" IS 'The date when the suspension of the User is lifted. Indefinite if null.'`);
+        await queryRunner.query(`CREATE INDEX "IDX_314f1b62642e744faf2707a8ff" ON "user" ("suspendedUntil") `);
+    }
+
+    async down(queryRunner) {
+        await queryRunner.query(`DROP INDEX "public"."IDX_314f1b62642e744faf2707a8ff"`);
+        await queryRunner.query(`ALTER TABLE "user" DROP COLUMN "suspendedUntil"`);
+    }
+}
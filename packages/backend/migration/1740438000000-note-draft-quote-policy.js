@@ -0,0 +1,16 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+export class NoteDraftQuotePolicy1740438000000 {
+    name = 'NoteDraftQuotePolicy1740438000000'
+
+    async up(queryRunner) {
+        await queryRunner.query(`ALTER TABLE "note_draft" ADD "quotePolicy" character varying(16) NOT NULL DEFAULT 'public'`);
+    }
+
+    async down(queryRunner) {
+        await queryRunner.query(`ALTER TABLE "note_draft" DROP COLUMN "quotePolicy"`);
+    }
+}
@@ -52,6 +52,7 @@ type Source = {
 	redisForReactions?: RedisOptionsSource;
 	fulltextSearch?: {
 		provider?: FulltextSearchProvider;
+		tsvectorConfig?: string;
 	};
 	meilisearch?: {
 		host: string;
@@ -61,6 +62,15 @@ type Source = {
 		index: string;
 		scope?: 'local' | 'global' | string[];
 	};
+	opensearch?: {
+		host: string;
+		port: string;
+		user?: string;
+		pass?: string;
+		ssl?: boolean;
+		index: string;
+		scope?: 'local' | 'global' | string[];
+	};
 	sentryForBackend?: { options: Partial<Sentry.NodeOptions>; enableNodeProfiling: boolean; };
 	sentryForFrontend?: { options: Partial<Sentry.NodeOptions> };
 
@@ -136,6 +146,7 @@ export type Config = {
 	}[] | undefined;
 	fulltextSearch?: {
 		provider?: FulltextSearchProvider;
+		tsvectorConfig?: string;
 	};
 	meilisearch: {
 		host: string;
@@ -145,6 +156,15 @@ export type Config = {
 		index: string;
 		scope?: 'local' | 'global' | string[];
 	} | undefined;
+	opensearch: {
+		host: string;
+		port: string;
+		user?: string;
+		pass?: string;
+		ssl?: boolean;
+		index: string;
+		scope?: 'local' | 'global' | string[];
+	} | undefined;
 	proxy: string | undefined;
 	proxySmtp: string | undefined;
 	proxyBypassHosts: string[] | undefined;
@@ -203,7 +223,7 @@ export type Config = {
 	pidFile: string;
 };
 
-export type FulltextSearchProvider = 'sqlLike' | 'sqlPgroonga' | 'meilisearch';
+export type FulltextSearchProvider = 'sqlLike' | 'sqlPgroonga' | 'sqlTsvector' | 'meilisearch' | 'opensearch';
 
 const _filename = fileURLToPath(import.meta.url);
 const _dirname = dirname(_filename);
@@ -275,6 +295,7 @@ export function loadConfig(): Config {
 		dbSlaves: config.dbSlaves,
 		fulltextSearch: config.fulltextSearch,
 		meilisearch: config.meilisearch,
+		opensearch: config.opensearch,
 		redis,
 		redisForPubsub: config.redisForPubsub ? convertRedisOptions(config.redisForPubsub, host) : redis,
 		redisForJobQueue: config.redisForJobQueue ? convertRedisOptions(config.redisForJobQueue, host) : redis,
@@ -10,6 +10,9 @@ export const USER_ACTIVE_THRESHOLD = 1000 * 60 * 60 * 24 * 3; // 3days
 
 export const PER_NOTE_REACTION_USER_PAIR_CACHE_MAX = 16;
 
+export const MAX_NOTE_DRAFTS_PER_USER = 100;
+export const MAX_SCHEDULED_NOTES_PER_USER = 100;
+
 //#region hard limits
 // If you change DB_* values, you must also change the DB schema.
 
@@ -7,14 +7,38 @@ import { Inject, Injectable } from '@nestjs/common';
 import { In } from 'typeorm';
 import { DI } from '@/di-symbols.js';
 import { bindThis } from '@/decorators.js';
-import type { AbuseUserReportsRepository, MiAbuseUserReport, MiUser, UsersRepository } from '@/models/_.js';
+import type {
+	AbuseReportResponseTemplatesRepository,
+	AbuseUserReportsRepository,
+	MiAbuseReportResponseTemplate,
+	MiAbuseUserReport,
+	MiUser,
+	NotesRepository,
+	UsersRepository,
+} from '@/models/_.js';
+import type { MiLocalUser, MiRemoteUser } from '@/models/User.js';
 import { AbuseReportNotificationService } from '@/core/AbuseReportNotificationService.js';
 import { QueueService } from '@/core/QueueService.js';
 import { InstanceActorService } from '@/core/InstanceActorService.js';
 import { ApRendererService } from '@/core/activitypub/ApRendererService.js';
 import { ModerationLogService } from '@/core/ModerationLogService.js';
+import { NoteCreateService } from '@/core/NoteCreateService.js';
+import { NotificationService } from '@/core/NotificationService.js';
+import { HttpRequestService } from '@/core/HttpRequestService.js';
+import { RemoteUserResolveService } from '@/core/RemoteUserResolveService.js';
+import { IdentifiableError } from '@/misc/identifiable-error.js';
+import { abuseReportPriorities } from '@/models/AbuseUserReport.js';
+import type { AbuseReportForwardStatus, AbuseReportPriority } from '@/models/AbuseUserReport.js';
 import { IdService } from './IdService.js';
 
+/**
+ * 同じユーザーに対する未解決の通報がこの人数から寄せられたら優先度を引き上げる
+ */
+const ESCALATION_THRESHOLDS = [
+	['critical', 5],
+	['high', 3],
+] as const satisfies [AbuseReportPriority, number][];
+
 @Injectable()
 export class AbuseReportService {
 	constructor(
@@ -24,12 +48,22 @@ export class AbuseReportService {
 		@Inject(DI.usersRepository)
 		private usersRepository: UsersRepository,
 
+		@Inject(DI.notesRepository)
+		private notesRepository: NotesRepository,
+
+		@Inject(DI.abuseReportResponseTemplatesRepository)
+		private abuseReportResponseTemplatesRepository: AbuseReportResponseTemplatesRepository,
+
 		private idService: IdService,
 		private abuseReportNotificationService: AbuseReportNotificationService,
 		private queueService: QueueService,
 		private instanceActorService: InstanceActorService,
 		private apRendererService: ApRendererService,
 		private moderationLogService: ModerationLogService,
+		private noteCreateService: NoteCreateService,
+		private notificationService: NotificationService,
+		private httpRequestService: HttpRequestService,
+		private remoteUserResolveService: RemoteUserResolveService,
 	) {
 	}
 
@@ -39,6 +73,8 @@ export class AbuseReportService {
 	 * - EMail（モデレータ権限所有者ユーザ＋metaテーブルに設定されているメールアドレス）
 	 * - SystemWebhook
 	 *
+	 * 同じユーザーへの未解決の通報が重なっている場合は、それらの優先度も引き上げる.
+	 *
 	 * @param params 通報内容. もし複数件の通報に対応した時のために、あらかじめ複数件を処理できる前提で考える
 	 * @see AbuseReportNotificationService.notify
 	 */
@@ -49,6 +85,9 @@ export class AbuseReportService {
 		reporterId: MiAbuseUserReport['reporterId'],
 		reporterHost: MiAbuseUserReport['reporterHost'],
 		comment: string,
+		category?: MiAbuseUserReport['category'],
+		noteIds?: MiAbuseUserReport['noteIds'],
+		originUri?: MiAbuseUserReport['originUri'],
 	}[]) {
 		const entities = params.map(param => {
 			return {
@@ -58,15 +97,24 @@ export class AbuseReportService {
 				reporterId: param.reporterId,
 				reporterHost: param.reporterHost,
 				comment: param.comment,
+				category: param.category ?? 'other',
+				noteIds: param.noteIds ?? [],
+				originUri: param.originUri ?? null,
 			};
 		});
 
-		const reports = Array.of<MiAbuseUserReport>();
 		for (const entity of entities) {
-			const report = await this.abuseUserReportsRepository.insertOne(entity);
-			reports.push(report);
+			await this.abuseUserReportsRepository.insert(entity);
+		}
+
+		for (const targetUserId of new Set(entities.map(it => it.targetUserId))) {
+			await this.escalate(targetUserId);
 		}
 
+		const reports = await this.abuseUserReportsRepository.findBy({
+			id: In(entities.map(it => it.id)),
+		});
+
 		return Promise.all([
 			this.abuseReportNotificationService.notifyAdminStream(reports),
 			this.abuseReportNotificationService.notifySystemWebhook(reports, 'abuseReport'),
@@ -78,6 +126,8 @@ export class AbuseReportService {
 	 * 通報を解決し、その内容を下記の手段で管理者各位に通知する.
 	 * - SystemWebhook
 	 *
+	 * notifyReporterが指定された場合は、ローカルの通報者にも通知で知らせる.
+	 *
 	 * @param params 通報内容. もし複数件の通報に対応した時のために、あらかじめ複数件を処理できる前提で考える
 	 * @param moderator 通報を処理したユーザ
 	 * @see AbuseReportNotificationService.notify
@@ -87,6 +137,8 @@ export class AbuseReportService {
 		params: {
 			reportId: string;
 			resolvedAs: MiAbuseUserReport['resolvedAs'];
+			notifyReporter?: boolean;
+			message?: string | null;
 		}[],
 		moderator: MiUser,
 	) {
@@ -111,12 +163,50 @@ export class AbuseReportService {
 					report: report,
 					resolvedAs: ps.resolvedAs,
 				});
+
+			if (ps.notifyReporter && report.reporterHost == null) {
+				this.notificationService.createNotification(report.reporterId, 'abuseReportResolved', {
+					reportId: report.id,
+					resolvedAs: ps.resolvedAs,
+					message: ps.message ?? null,
+				});
+			}
 		}
 
 		return this.abuseUserReportsRepository.findBy({ id: In(reports.map(it => it.id)) })
 			.then(reports => this.abuseReportNotificationService.notifySystemWebhook(reports, 'abuseReportResolved'));
 	}
 
+	/**
+	 * 通報の担当者を設定する. nullの場合は担当者を外す
+	 */
+	@bindThis
+	public async assign(
+		reportIds: MiAbuseUserReport['id'][],
+		assigneeId: MiUser['id'] | null,
+		moderator: MiUser,
+	) {
+		const reports = await this.abuseUserReportsRepository.findBy({
+			id: In(reportIds),
+		});
+
+		for (const report of reports) {
+			if (report.assigneeId === assigneeId) continue;
+
+			await this.abuseUserReportsRepository.update(report.id, {
+				assigneeId,
+			});
+
+			this.moderationLogService
+				.log(moderator, 'assignAbuseReport', {
+					reportId: report.id,
+					report: report,
+					before: report.assigneeId,
+					after: assigneeId,
+				});
+		}
+	}
+
 	@bindThis
 	public async forward(
 		reportId: MiAbuseUserReport['id'],
@@ -134,14 +224,24 @@ export class AbuseReportService {
 
 		await this.abuseUserReportsRepository.update(report.id, {
 			forwarded: true,
+			forwardStatus: 'pending',
+			forwardedAt: new Date(),
+			forwardError: null,
 		});
 
 		const actor = await this.instanceActorService.getInstanceActor();
 		const targetUser = await this.usersRepository.findOneByOrFail({ id: report.targetUserId });
 
-		const flag = this.apRendererService.renderFlag(actor, targetUser.uri!, report.comment);
+		// 添付されたノートのうち、対象ユーザーのサーバーが知っているものだけを含める
+		const notes = report.noteIds.length > 0 ? await this.notesRepository.findBy({
+			id: In(report.noteIds),
+			userId: report.targetUserId,
+		}) : [];
+		const noteUris = notes.map(note => note.uri).filter(x => x != null);
+
+		const flag = this.apRendererService.renderFlag(actor, noteUris.length > 0 ? [targetUser.uri!, ...noteUris] : targetUser.uri!, report.comment);
 		const contextAssignedFlag = this.apRendererService.addContext(flag);
-		this.queueService.deliver(actor, contextAssignedFlag, targetUser.inbox, false);
+		this.queueService.deliver(actor, contextAssignedFlag, targetUser.inbox, false, { abuseReportId: report.id });
 
 		this.moderationLogService
 			.log(moderator, 'forwardAbuseReport', {
@@ -150,6 +250,64 @@ export class AbuseReportService {
 			});
 	}
 
+	/**
+	 * 転送したFlagアクティビティの配送結果を記録する
+	 * @see DeliverProcessorService
+	 */
+	@bindThis
+	public async recordForwardResult(
+		reportId: MiAbuseUserReport['id'],
+		status: Exclude<AbuseReportForwardStatus, 'pending'>,
+		error: string | null,
+	) {
+		await this.abuseUserReportsRepository.update(reportId, {
+			forwardStatus: status,
+			forwardError: error?.substring(0, 512) ?? null,
+		});
+	}
+
+	/**
+	 * リモートサーバーから受け取った通報に対し、通報元のアカウント宛にダイレクト投稿で返信する.
+	 * ActivityPubには通報への返信を表すアクティビティが無いため、モデレーターのアカウントから投稿する.
+	 * 多くのサーバーは通報をインスタンスアクターから送ってくるので、その場合はサーバーの連絡先アカウント宛にする
+	 */
+	@bindThis
+	public async replyToOrigin(
+		reportId: MiAbuseUserReport['id'],
+		text: string,
+		moderator: MiLocalUser,
+	) {
+		const report = await this.abuseUserReportsRepository.findOneByOrFail({ id: reportId });
+
+		if (report.reporterHost == null) {
+			throw new Error('The report is not from a remote server.');
+		}
+
+		const reporter = await this.usersRepository.findOneByOrFail({ id: report.reporterId }) as MiRemoteUser;
+		const recipient = reporter.isBot ? await this.fetchContactAccount(reporter.host) : reporter;
+
+		if (recipient == null) {
+			throw new IdentifiableError('0b9e3c4f-6e1a-4d2b-8f5c-7a3d9e1b2c4f', 'The server that sent the report has no contact account.');
+		}
+
+		const note = await this.noteCreateService.create(moderator, {
+			text: `@${recipient.username}@${recipient.host} ${text}`,
+			visibility: 'specified',
+			visibleUsers: [recipient],
+			localOnly: false,
+		});
+
+		this.moderationLogService
+			.log(moderator, 'replyAbuseReport', {
+				reportId: report.id,
+				report: report,
+				noteId: note.id,
+				text,
+			});
+
+		return note;
+	}
+
 	@bindThis
 	public async update(
 		reportId: MiAbuseUserReport['id'],
@@ -173,4 +331,111 @@ export class AbuseReportService {
 			});
 		}
 	}
+
+	/**
+	 * Mastodon互換のAPIからサーバーの連絡先アカウントを取得する
+	 */
+	@bindThis
+	private async fetchContactAccount(host: string): Promise<MiLocalUser | MiRemoteUser | null> {
+		const instance = await this.httpRequestService.getJson<{ contact?: { account?: { username?: unknown } | null } }>(`https://${host}/api/v2/instance`)
+			.catch(() => null);
+		const username = instance?.contact?.account?.username;
+
+		if (typeof username !== 'string') return null;
+
+		return await this.remoteUserResolveService.resolveUser(username, host).catch(() => null);
+	}
+
+	/**
+	 * 同じユーザーへの未解決の通報を寄せた人数に応じて、それらの通報の優先度を引き上げる.
+	 * 優先度を下げることはしない
+	 */
+	@bindThis
+	private async escalate(targetUserId: MiUser['id']) {
+		const reportersCount = await this.abuseUserReportsRepository.createQueryBuilder('report')
+			.select('COUNT(DISTINCT report.reporterId)', 'count')
+			.where('report.targetUserId = :targetUserId', { targetUserId })
+			.andWhere('report.resolved = FALSE')
+			.getRawOne<{ count: string }>()
+			.then(it => parseInt(it?.count ?? '0', 10));
+
+		const priority = ESCALATION_THRESHOLDS.find(([, threshold]) => reportersCount >= threshold)?.[0];
+		if (priority == null) return;
+
+		await this.abuseUserReportsRepository.update({
+			targetUserId,
+			resolved: false,
+			priority: In(abuseReportPriorities.slice(0, abuseReportPriorities.indexOf(priority))),
+		}, {
+			priority,
+		});
+	}
+
+	@bindThis
+	public async createResponseTemplate(
+		params: {
+			name: MiAbuseReportResponseTemplate['name'];
+			text: MiAbuseReportResponseTemplate['text'];
+		},
+		moderator: MiUser,
+	): Promise<MiAbuseReportResponseTemplate> {
+		const template = await this.abuseReportResponseTemplatesRepository.insertOne({
+			id: this.idService.gen(),
+			name: params.name,
+			text: params.text,
+		});
+
+		this.moderationLogService
+			.log(moderator, 'createAbuseReportResponseTemplate', {
+				templateId: template.id,
+				template,
+			});
+
+		return template;
+	}
+
+	@bindThis
+	public async updateResponseTemplate(
+		id: MiAbuseReportResponseTemplate['id'],
+		params: {
+			name?: MiAbuseReportResponseTemplate['name'];
+			text?: MiAbuseReportResponseTemplate['text'];
+		},
+		moderator: MiUser,
+	): Promise<MiAbuseReportResponseTemplate> {
+		const before = await this.abuseReportResponseTemplatesRepository.findOneByOrFail({ id });
+
+		await this.abuseReportResponseTemplatesRepository.update(id, {
+			updatedAt: new Date(),
+			name: params.name,
+			text: params.text,
+		});
+
+		const after = await this.abuseReportResponseTemplatesRepository.findOneByOrFail({ id });
+
+		this.moderationLogService
+			.log(moderator, 'updateAbuseReportResponseTemplate', {
+				templateId: id,
+				before,
+				after,
+			});
+
+		return after;
+	}
+
+	@bindThis
+	public async deleteResponseTemplate(
+		id: MiAbuseReportResponseTemplate['id'],
+		moderator: MiUser,
+	) {
+		const template = await this.abuseReportResponseTemplatesRepository.findOneByOrFail({ id });
+
+		await this.abuseReportResponseTemplatesRepository.delete(id);
+
+		this.moderationLogService
+			.log(moderator, 'deleteAbuseReportResponseTemplate', {
+				templateId: id,
+				template,
+			});
+	}
 }
@@ -9,6 +9,7 @@ import type { MiUser } from '@/models/User.js';
 import { DI } from '@/di-symbols.js';
 import { bindThis } from '@/decorators.js';
 import { NotificationService } from '@/core/NotificationService.js';
+import { UserWebhookService } from '@/core/UserWebhookService.js';
 
 export const ACHIEVEMENT_TYPES = [
 	'notes1',
@@ -98,6 +99,7 @@ export class AchievementService {
 		private userProfilesRepository: UserProfilesRepository,
 
 		private notificationService: NotificationService,
+		private webhookService: UserWebhookService,
 	) {
 	}
 
@@ -124,5 +126,10 @@ export class AchievementService {
 		this.notificationService.createNotification(userId, 'achievementEarned', {
 			achievement: type,
 		});
+
+		this.webhookService.enqueueUserWebhook(userId, 'achievementEarned', {
+			achievement: type,
+			unlockedAt: date,
+		});
 	}
 }
@@ -17,6 +17,9 @@ import { UtilityService } from '@/core/UtilityService.js';
 import { bindThis } from '@/decorators.js';
 import type { GlobalEvents } from '@/core/GlobalEventService.js';
 import { FanoutTimelineService } from '@/core/FanoutTimelineService.js';
+import { UserWebhookService } from '@/core/UserWebhookService.js';
+import { NoteEntityService } from '@/core/entities/NoteEntityService.js';
+import { AntennaEntityService } from '@/core/entities/AntennaEntityService.js';
 import type { OnApplicationShutdown } from '@nestjs/common';
 
 @Injectable()
@@ -40,6 +43,9 @@ export class AntennaService implements OnApplicationShutdown {
 		private utilityService: UtilityService,
 		private globalEventService: GlobalEventService,
 		private fanoutTimelineService: FanoutTimelineService,
+		private webhookService: UserWebhookService,
+		private noteEntityService: NoteEntityService,
+		private antennaEntityService: AntennaEntityService,
 	) {
 		this.antennasFetched = false;
 		this.antennas = [];
@@ -105,6 +111,17 @@ export class AntennaService implements OnApplicationShutdown {
 		}
 
 		redisPipeline.exec();
+
+		for (const antenna of matchedAntennas) {
+			if (!await this.webhookService.hasActiveWebhook(antenna.userId, 'antennaMatched')) continue;
+
+			Promise.all([
+				this.antennaEntityService.pack(antenna),
+				this.noteEntityService.pack(note, { id: antenna.userId }),
+			]).then(([packedAntenna, packedNote]) => {
+				this.webhookService.enqueueUserWebhook(antenna.userId, 'antennaMatched', { antenna: packedAntenna, note: packedNote });
+			});
+		}
 	}
 
 	// NOTE: フォローしているユーザーのノート、リストのユーザーのノート、グループのユーザーのノート指定はパフォーマンス上の理由で無効になっている
@@ -0,0 +1,335 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { createHash } from 'node:crypto';
+import { Inject, Injectable } from '@nestjs/common';
+import { In } from 'typeorm';
+import { DI } from '@/di-symbols.js';
+import type { BlocklistEntriesRepository, BlocklistSubscriptionsRepository, MiBlocklistEntry, MiBlocklistSubscription, MiUser } from '@/models/_.js';
+import type { MiMeta } from '@/models/Meta.js';
+import { bindThis } from '@/decorators.js';
+import { MetaService } from '@/core/MetaService.js';
+import { IdService } from '@/core/IdService.js';
+import { HttpRequestService } from '@/core/HttpRequestService.js';
+import { ModerationLogService } from '@/core/ModerationLogService.js';
+import { parseBlocklistCsv, serializeBlocklistCsv } from '@/misc/blocklist-csv.js';
+import type { BlocklistRecord, BlocklistSeverity } from '@/misc/blocklist-csv.js';
+
+export type BlocklistHostState = {
+	severity: BlocklistSeverity;
+	rejectMedia: boolean;
+};
+
+export type BlocklistChange = {
+	host: string;
+	before: BlocklistHostState;
+	after: BlocklistHostState;
+	publicComment: string;
+};
+
+const SEVERITY_ORDER: BlocklistSeverity[] = ['noop', 'silence', 'suspend'];
+
+function isSameState(a: BlocklistHostState, b: BlocklistHostState): boolean {
+	return a.severity === b.severity && a.rejectMedia === b.rejectMedia;
+}
+
+function isRestricted(state: BlocklistHostState): boolean {
+	return state.severity !== 'noop' || state.rejectMedia;
+}
+
+/**
+ * 停止されているホストのメディア拒否は意味を持たないため落とす
+ */
+function normalizeState(state: BlocklistHostState): BlocklistHostState {
+	return {
+		severity: state.severity,
+		rejectMedia: state.severity !== 'suspend' && state.rejectMedia,
+	};
+}
+
+@Injectable()
+export class BlocklistService {
+	constructor(
+		@Inject(DI.blocklistSubscriptionsRepository)
+		private blocklistSubscriptionsRepository: BlocklistSubscriptionsRepository,
+
+		@Inject(DI.blocklistEntriesRepository)
+		private blocklistEntriesRepository: BlocklistEntriesRepository,
+
+		private metaService: MetaService,
+		private idService: IdService,
+		private httpRequestService: HttpRequestService,
+		private moderationLogService: ModerationLogService,
+	) {
+	}
+
+	/**
+	 * blockedHosts / silencedHosts / mediaSilencedHosts から、ホストの現在の状態を返す.
+	 * サブドメインへの前方一致は考慮せず、リストに完全一致するもののみを見る
+	 */
+	private getHostState(meta: MiMeta, host: string): BlocklistHostState {
+		const has = (list: string[]) => list.some(x => x.toLowerCase() === host);
+		return normalizeState({
+			severity: has(meta.blockedHosts) ? 'suspend' : has(meta.silencedHosts) ? 'silence' : 'noop',
+			rejectMedia: has(meta.mediaSilencedHosts),
+		});
+	}
+
+	/**
+	 * ブロックリストを適用した場合の変更点を計算する.
+	 *
+	 * - 手動で設定されたホスト(インポートの記録が無いもの)は、より厳しくする方向にのみ変更する
+	 * - 購読からの場合、他の購読やファイルからインポートされたホストも同様に緩めない
+	 * - 購読からの場合、その購読から適用されたがリストから消えたホストは制限を解除する
+	 */
+	@bindThis
+	public async computeChanges(records: BlocklistRecord[], subscription: MiBlocklistSubscription | null): Promise<BlocklistChange[]> {
+		const meta = await this.metaService.fetch(true);
+		const entries = new Map((await this.blocklistEntriesRepository.find()).map(x => [x.host, x]));
+
+		const changes: BlocklistChange[] = [];
+		const listed = new Set<string>();
+
+		for (const record of records) {
+			listed.add(record.host);
+
+			const before = this.getHostState(meta, record.host);
+			const entry = entries.get(record.host);
+
+			const isOwned = entry != null && (subscription == null || entry.subscriptionId === subscription.id);
+			const canLoosen = isOwned || !isRestricted(before);
+
+			const after = normalizeState(canLoosen ? {
+				severity: record.severity,
+				rejectMedia: record.rejectMedia,
+			} : {
+				severity: SEVERITY_ORDER[Math.max(SEVERITY_ORDER.indexOf(before.severity), SEVERITY_ORDER.indexOf(record.severity))],
+				rejectMedia: before.rejectMedia || record.rejectMedia,
+			});
+
+			if (isSameState(before, after)) {
+				// 状態は変わらないがコメントが更新された場合は記録だけ更新する
+				if (!(isOwned && entry.publicComment !== record.publicComment)) continue;
+			}
+
+			changes.push({ host: record.host, before, after, publicComment: record.publicComment });
+		}
+
+		if (subscription != null) {
+			for (const entry of entries.values()) {
+				if (entry.subscriptionId !== subscription.id || listed.has(entry.host)) continue;
+
+				const before = this.getHostState(meta, entry.host);
+				const after: BlocklistHostState = { severity: 'noop', rejectMedia: false };
+				if (isSameState(before, after)) continue;
+
+				changes.push({ host: entry.host, before, after, publicComment: '' });
+			}
+		}
+
+		return changes;
+	}
+
+	/**
+	 * 変更をサーバー設定に反映し、各ホストがどこからインポートされたかを記録する
+	 */
+	@bindThis
+	public async applyChanges(
+		changes: BlocklistChange[],
+		source: { source: string; subscriptionId: MiBlocklistSubscription['id'] | null; },
+		moderator: MiUser,
+	): Promise<void> {
+		if (changes.length > 0) {
+			const meta = await this.metaService.fetch(true);
+			const changed = new Map(changes.map(x => [x.host, x.after]));
+			const keep = (list: string[]) => list.filter(x => !changed.has(x.toLowerCase()));
+
+			const blockedHosts = keep(meta.blockedHosts);
+			const silencedHosts = keep(meta.silencedHosts);
+			const mediaSilencedHosts = keep(meta.mediaSilencedHosts);
+
+			for (const [host, state] of changed) {
+				if (state.severity === 'suspend') blockedHosts.push(host);
+				if (state.severity === 'silence') silencedHosts.push(host);
+				if (state.rejectMedia) mediaSilencedHosts.push(host);
+			}
+
+			await this.metaService.update({
+				blockedHosts: blockedHosts.sort(),
+				silencedHosts: silencedHosts.sort(),
+				mediaSilencedHosts: mediaSilencedHosts.sort(),
+			});
+
+			const entries = new Map((await this.blocklistEntriesRepository.findBy({
+				host: In(changes.map(x => x.host)),
+			})).map(x => [x.host, x]));
+
+			for (const change of changes) {
+				const entry = entries.get(change.host);
+
+				if (!isRestricted(change.after)) {
+					if (entry) await this.blocklistEntriesRepository.delete(entry.id);
+					continue;
+				}
+
+				const values: Partial<MiBlocklistEntry> = {
+					severity: change.after.severity,
+					rejectMedia: change.after.rejectMedia,
+					publicComment: change.publicComment.substring(0, 2048),
+					source: source.source.substring(0, 1024),
+					subscriptionId: source.subscriptionId,
+				};
+
+				if (entry) {
+					await this.blocklistEntriesRepository.update(entry.id, values);
+				} else {
+					await this.blocklistEntriesRepository.insert({
+						id: this.idService.gen(),
+						host: change.host,
+						...values,
+					});
+				}
+			}
+
+			this.moderationLogService.log(moderator, 'importBlocklist', {
+				source: source.source,
+				subscriptionId: source.subscriptionId,
+				changes: changes.map(x => ({ host: x.host, before: x.before, after: x.after })),
+			});
+		}
+
+		if (source.subscriptionId != null) {
+			await this.blocklistSubscriptionsRepository.update(source.subscriptionId, {
+				lastAppliedAt: new Date(),
+			});
+		}
+	}
+
+	/**
+	 * 現在のサーバー設定をMastodon形式のCSVとして書き出す
+	 */
+	@bindThis
+	public async exportCsv(): Promise<string> {
+		const meta = await this.metaService.fetch(true);
+		const entries = new Map((await this.blocklistEntriesRepository.find()).map(x => [x.host, x]));
+
+		const hosts = new Set([...meta.blockedHosts, ...meta.silencedHosts, ...meta.mediaSilencedHosts].map(x => x.toLowerCase()));
+
+		const records: BlocklistRecord[] = [...hosts].sort().map(host => ({
+			host,
+			...this.getHostState(meta, host),
+			rejectReports: false,
+			publicComment: entries.get(host)?.publicComment ?? '',
+		}));
+
+		return serializeBlocklistCsv(records);
+	}
+
+	/**
+	 * 購読で最後に取得したリストの内容を識別する値.
+	 * プレビューしてから適用するまでの間にリストが更新されていないか確認するのに使う
+	 */
+	@bindThis
+	public getRecordsHash(records: BlocklistRecord[]): string {
+		return createHash('sha256').update(JSON.stringify(records)).digest('hex');
+	}
+
+	/**
+	 * 購読しているリストを取得し、内容を保存する. この時点ではサーバー設定には反映しない
+	 */
+	@bindThis
+	public async refreshSubscription(subscription: MiBlocklistSubscription): Promise<MiBlocklistSubscription> {
+		try {
+			const res = await this.httpRequestService.send(subscription.url, {
+				headers: {
+					Accept: 'text/csv, text/plain, */*',
+				},
+				timeout: 30 * 1000,
+				size: 10 * 1024 * 1024,
+			});
+			// 配布元での並び順が変わっただけでは内容が変わったとみなさないよう、ホスト順に揃えて保存する
+			const records = parseBlocklistCsv(await res.text()).sort((a, b) => a.host < b.host ? -1 : a.host > b.host ? 1 : 0);
+
+			await this.blocklistSubscriptionsRepository.update(subscription.id, {
+				records,
+				lastFetchedAt: new Date(),
+				lastError: null,
+			});
+		} catch (err) {
+			await this.blocklistSubscriptionsRepository.update(subscription.id, {
+				lastFetchedAt: new Date(),
+				lastError: (err instanceof Error ? err.message : String(err)).substring(0, 1024),
+			});
+		}
+
+		return await this.blocklistSubscriptionsRepository.findOneByOrFail({ id: subscription.id });
+	}
+
+	@bindThis
+	public async createSubscription(
+		params: {
+			url: MiBlocklistSubscription['url'];
+			isActive: MiBlocklistSubscription['isActive'];
+		},
+		moderator: MiUser,
+	): Promise<MiBlocklistSubscription> {
+		const id = this.idService.gen();
+		await this.blocklistSubscriptionsRepository.insert({
+			...params,
+			id,
+		});
+
+		const subscription = await this.refreshSubscription(await this.blocklistSubscriptionsRepository.findOneByOrFail({ id }));
+		this.moderationLogService.log(moderator, 'createBlocklistSubscription', {
+			subscriptionId: subscription.id,
+			subscription,
+		});
+
+		return subscription;
+	}
+
+	@bindThis
+	public async updateSubscription(
+		params: {
+			id: MiBlocklistSubscription['id'];
+			url?: MiBlocklistSubscription['url'];
+			isActive?: MiBlocklistSubscription['isActive'];
+		},
+		moderator: MiUser,
+	): Promise<MiBlocklistSubscription> {
+		const before = await this.blocklistSubscriptionsRepository.findOneByOrFail({ id: params.id });
+		await this.blocklistSubscriptionsRepository.update(before.id, {
+			url: params.url,
+			isActive: params.isActive,
+		});
+
+		let after = await this.blocklistSubscriptionsRepository.findOneByOrFail({ id: before.id });
+		if (after.url !== before.url) {
+			after = await this.refreshSubscription(after);
+		}
+
+		this.moderationLogService.log(moderator, 'updateBlocklistSubscription', {
+			subscriptionId: before.id,
+			before,
+			after,
+		});
+
+		return after;
+	}
+
+	/**
+	 * 購読を削除する. 適用済みのホストはそのまま残し、記録上は購読との紐づけだけが外れる
+	 */
+	@bindThis
+	public async deleteSubscription(id: MiBlocklistSubscription['id'], moderator: MiUser): Promise<void> {
+		const subscription = await this.blocklistSubscriptionsRepository.findOneByOrFail({ id });
+		await this.blocklistSubscriptionsRepository.delete(id);
+
+		this.moderationLogService.log(moderator, 'deleteBlocklistSubscription', {
+			subscriptionId: subscription.id,
+			subscription,
+		});
+	}
+}
@@ -0,0 +1,388 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { Inject, Injectable } from '@nestjs/common';
+import { Brackets, IsNull } from 'typeorm';
+import { DI } from '@/di-symbols.js';
+import type {
+	ChatMessagesRepository,
+	ChatRoomMembershipsRepository,
+	ChatRoomsRepository,
+	DriveFilesRepository,
+	MiChatMessage,
+	MiChatRoom,
+	MiChatRoomMembership,
+	MiDriveFile,
+	UsersRepository,
+} from '@/models/_.js';
+import type { MiLocalUser, MiUser } from '@/models/User.js';
+import type { Packed } from '@/misc/json-schema.js';
+import { bindThis } from '@/decorators.js';
+import { IdService } from '@/core/IdService.js';
+import { RoleService } from '@/core/RoleService.js';
+import { CacheService } from '@/core/CacheService.js';
+import { GlobalEventService } from '@/core/GlobalEventService.js';
+import { UserBlockingService } from '@/core/UserBlockingService.js';
+import { ChatEntityService } from '@/core/entities/ChatEntityService.js';
+
+@Injectable()
+export class ChatService {
+	public static NoSuchUserError = class extends Error {};
+	public static NoSuchRoomError = class extends Error {};
+	public static NoSuchMessageError = class extends Error {};
+	public static NoSuchFileError = class extends Error {};
+	public static BlockedError = class extends Error {};
+	public static RecipientCannotChatError = class extends Error {};
+	public static TooManyRoomsError = class extends Error {};
+	public static TooManyMembersError = class extends Error {};
+	public static AlreadyJoinedError = class extends Error {};
+	public static OwnerCannotLeaveError = class extends Error {};
+
+	constructor(
+		@Inject(DI.usersRepository)
+		private usersRepository: UsersRepository,
+
+		@Inject(DI.driveFilesRepository)
+		private driveFilesRepository: DriveFilesRepository,
+
+		@Inject(DI.chatMessagesRepository)
+		private chatMessagesRepository: ChatMessagesRepository,
+
+		@Inject(DI.chatRoomsRepository)
+		private chatRoomsRepository: ChatRoomsRepository,
+
+		@Inject(DI.chatRoomMembershipsRepository)
+		private chatRoomMembershipsRepository: ChatRoomMembershipsRepository,
+
+		private idService: IdService,
+		private roleService: RoleService,
+		private cacheService: CacheService,
+		private globalEventService: GlobalEventService,
+		private userBlockingService: UserBlockingService,
+		private chatEntityService: ChatEntityService,
+	) {
+	}
+
+	@bindThis
+	public async createMessageToUser(me: MiLocalUser, toUserId: MiUser['id'], params: {
+		text: string | null;
+		fileId: MiDriveFile['id'] | null;
+	}): Promise<Packed<'ChatMessage'>> {
+		if (toUserId === me.id) throw new ChatService.NoSuchUserError();
+
+		// チャットはローカルユーザー間でのみ行える
+		const toUser = await this.usersRepository.findOneBy({ id: toUserId, host: IsNull() });
+		if (toUser == null) throw new ChatService.NoSuchUserError();
+
+		if (await this.userBlockingService.checkBlocked(toUser.id, me.id) || await this.userBlockingService.checkBlocked(me.id, toUser.id)) {
+			throw new ChatService.BlockedError();
+		}
+
+		if (!(await this.roleService.getUserPolicies(toUser.id)).canChat) {
+			throw new ChatService.RecipientCannotChatError();
+		}
+
+		const file = await this.getFile(me, params.fileId);
+
+		const message = await this.chatMessagesRepository.insertOne({
+			id: this.idService.gen(),
+			fromUserId: me.id,
+			toUserId: toUser.id,
+			toRoomId: null,
+			text: params.text,
+			fileId: file?.id ?? null,
+			reads: [],
+		});
+
+		const packed = await this.chatEntityService.packMessage(message);
+
+		this.globalEventService.publishChatUserStream(me.id, toUser.id, 'message', packed);
+		this.globalEventService.publishChatUserStream(toUser.id, me.id, 'message', packed);
+
+		// ミュートしている相手からのメッセージは通知しない
+		const mutings = await this.cacheService.userMutingsCache.fetch(toUser.id);
+		if (!mutings.has(me.id)) {
+			this.globalEventService.publishMainStream(toUser.id, 'newChatMessage', packed);
+		}
+
+		return packed;
+	}
+
+	@bindThis
+	public async createMessageToRoom(me: MiLocalUser, roomId: MiChatRoom['id'], params: {
+		text: string | null;
+		fileId: MiDriveFile['id'] | null;
+	}): Promise<Packed<'ChatMessage'>> {
+		const room = await this.chatRoomsRepository.findOneBy({ id: roomId });
+		if (room == null) throw new ChatService.NoSuchRoomError();
+
+		const memberships = await this.chatRoomMembershipsRepository.findBy({ roomId: room.id });
+		if (!memberships.some(x => x.userId === me.id)) throw new ChatService.NoSuchRoomError();
+
+		const file = await this.getFile(me, params.fileId);
+
+		const message = await this.chatMessagesRepository.insertOne({
+			id: this.idService.gen(),
+			fromUserId: me.id,
+			toUserId: null,
+			toRoomId: room.id,
+			text: params.text,
+			fileId: file?.id ?? null,
+			reads: [],
+		});
+
+		const packed = await this.chatEntityService.packMessage(message);
+
+		this.globalEventService.publishChatRoomStream(room.id, 'message', packed);
+
+		for (const membership of memberships) {
+			if (membership.userId === me.id) continue;
+
+			// ミュート・ブロックしている相手からのメッセージは通知しない
+			const [mutings, blockings] = await Promise.all([
+				this.cacheService.userMutingsCache.fetch(membership.userId),
+				this.cacheService.userBlockingCache.fetch(membership.userId),
+			]);
+			if (mutings.has(me.id) || blockings.has(me.id)) continue;
+
+			this.globalEventService.publishMainStream(membership.userId, 'newChatMessage', packed);
+		}
+
+		return packed;
+	}
+
+	@bindThis
+	public async deleteMessage(me: MiLocalUser, messageId: MiChatMessage['id']): Promise<void> {
+		const message = await this.chatMessagesRepository.findOneBy({ id: messageId, fromUserId: me.id });
+		if (message == null) throw new ChatService.NoSuchMessageError();
+
+		await this.chatMessagesRepository.delete(message.id);
+
+		if (message.toUserId) {
+			this.globalEventService.publishChatUserStream(message.fromUserId, message.toUserId, 'deleted', message.id);
+			this.globalEventService.publishChatUserStream(message.toUserId, message.fromUserId, 'deleted', message.id);
+		} else if (message.toRoomId) {
+			this.globalEventService.publishChatRoomStream(message.toRoomId, 'deleted', message.id);
+		}
+	}
+
+	/**
+	 * 相手から自分宛てのメッセージをすべて既読にします
+	 */
+	@bindThis
+	public async readUserMessages(me: { id: MiUser['id'] }, otherId: MiUser['id']): Promise<void> {
+		await this.chatMessagesRepository.createQueryBuilder().update()
+			.set({ reads: () => 'array_append("reads", :meId)' })
+			.where('"fromUserId" = :otherId')
+			.andWhere('"toUserId" = :meId')
+			.andWhere('NOT (:meId = ANY("reads"))')
+			.setParameters({ meId: me.id, otherId })
+			.execute();
+
+		this.globalEventService.publishChatUserStream(otherId, me.id, 'read', { userId: me.id });
+	}
+
+	/**
+	 * ルーム内の他人のメッセージをすべて既読にします
+	 */
+	@bindThis
+	public async readRoomMessages(me: { id: MiUser['id'] }, roomId: MiChatRoom['id']): Promise<void> {
+		const isMember = await this.chatRoomMembershipsRepository.exists({ where: { roomId, userId: me.id } });
+		if (!isMember) throw new ChatService.NoSuchRoomError();
+
+		await this.chatMessagesRepository.createQueryBuilder().update()
+			.set({ reads: () => 'array_append("reads", :meId)' })
+			.where('"toRoomId" = :roomId')
+			.andWhere('"fromUserId" != :meId')
+			.andWhere('NOT (:meId = ANY("reads"))')
+			.setParameters({ meId: me.id, roomId })
+			.execute();
+
+		this.globalEventService.publishChatRoomStream(roomId, 'read', { userId: me.id });
+	}
+
+	/**
+	 * 会話ごとの最新のメッセージを新しい順に取得します
+	 */
+	@bindThis
+	public async history(me: MiLocalUser, type: 'user' | 'room', limit: number): Promise<MiChatMessage[]> {
+		const query = this.chatMessagesRepository.createQueryBuilder('message')
+			.select('MAX(message.id)', 'id');
+
+		if (type === 'user') {
+			query
+				.where(new Brackets(qb => {
+					qb
+						.where('message.fromUserId = :meId')
+						.orWhere('message.toUserId = :meId');
+				}))
+				.andWhere('message.toRoomId IS NULL')
+				.groupBy('LEAST(message.fromUserId, message.toUserId)')
+				.addGroupBy('GREATEST(message.fromUserId, message.toUserId)');
+
+			const mutings = await this.cacheService.userMutingsCache.fetch(me.id);
+			if (mutings.size > 0) {
+				query
+					.andWhere('message.fromUserId NOT IN (:...muteeIds)')
+					.andWhere('message.toUserId NOT IN (:...muteeIds)')
+					.setParameters({ muteeIds: Array.from(mutings) });
+			}
+		} else {
+			const membershipQuery = this.chatRoomMembershipsRepository.createQueryBuilder('membership')
+				.select('membership.roomId')
+				.where('membership.userId = :meId');
+
+			query
+				.where(`message.toRoomId IN (${membershipQuery.getQuery()})`)
+				.groupBy('message.toRoomId');
+		}
+
+		const rows = await query
+			.orderBy('MAX(message.id)', 'DESC')
+			.limit(limit)
+			.setParameters({ meId: me.id })
+			.getRawMany<{ id: MiChatMessage['id'] }>();
+
+		if (rows.length === 0) return [];
+
+		const messages = await this.chatMessagesRepository.find({
+			where: rows.map(row => ({ id: row.id })),
+			order: { id: 'DESC' },
+		});
+
+		return messages;
+	}
+
+	@bindThis
+	public async createRoom(me: MiLocalUser, params: {
+		name: string;
+		description: string;
+	}): Promise<MiChatRoom> {
+		const currentCount = await this.chatRoomsRepository.countBy({
+			ownerId: me.id,
+		});
+		if (currentCount >= (await this.roleService.getUserPolicies(me.id)).chatRoomLimit) {
+			throw new ChatService.TooManyRoomsError();
+		}
+
+		const room = await this.chatRoomsRepository.insertOne({
+			id: this.idService.gen(),
+			ownerId: me.id,
+			name: params.name,
+			description: params.description,
+		});
+
+		// オーナーもメンバーとして扱う
+		await this.chatRoomMembershipsRepository.insert({
+			id: this.idService.gen(),
+			userId: me.id,
+			roomId: room.id,
+		});
+
+		return room;
+	}
+
+	@bindThis
+	public async updateRoom(me: MiLocalUser, roomId: MiChatRoom['id'], params: {
+		name?: string;
+		description?: string;
+	}): Promise<MiChatRoom> {
+		const room = await this.chatRoomsRepository.findOneBy({ id: roomId, ownerId: me.id });
+		if (room == null) throw new ChatService.NoSuchRoomError();
+
+		await this.chatRoomsRepository.update(room.id, {
+			name: params.name,
+			description: params.description,
+		});
+
+		return await this.chatRoomsRepository.findOneByOrFail({ id: room.id });
+	}
+
+	@bindThis
+	public async deleteRoom(me: MiLocalUser, roomId: MiChatRoom['id']): Promise<void> {
+		const room = await this.chatRoomsRepository.findOneBy({ id: roomId, ownerId: me.id });
+		if (room == null) throw new ChatService.NoSuchRoomError();
+
+		await this.chatRoomsRepository.delete(room.id);
+
+		this.globalEventService.publishChatRoomStream(room.id, 'roomDeleted');
+	}
+
+	@bindThis
+	public async addRoomMember(me: MiLocalUser, roomId: MiChatRoom['id'], userId: MiUser['id']): Promise<MiChatRoomMembership> {
+		const room = await this.chatRoomsRepository.findOneBy({ id: roomId, ownerId: me.id });
+		if (room == null) throw new ChatService.NoSuchRoomError();
+
+		const user = await this.usersRepository.findOneBy({ id: userId, host: IsNull() });
+		if (user == null) throw new ChatService.NoSuchUserError();
+
+		if (await this.userBlockingService.checkBlocked(user.id, me.id) || await this.userBlockingService.checkBlocked(me.id, user.id)) {
+			throw new ChatService.BlockedError();
+		}
+
+		if (!(await this.roleService.getUserPolicies(user.id)).canChat) {
+			throw new ChatService.RecipientCannotChatError();
+		}
+
+		const exists = await this.chatRoomMembershipsRepository.exists({ where: { roomId: room.id, userId: user.id } });
+		if (exists) throw new ChatService.AlreadyJoinedError();
+
+		const currentCount = await this.chatRoomMembershipsRepository.countBy({ roomId: room.id });
+		if (currentCount >= (await this.roleService.getUserPolicies(me.id)).chatRoomMemberLimit) {
+			throw new ChatService.TooManyMembersError();
+		}
+
+		return await this.chatRoomMembershipsRepository.insertOne({
+			id: this.idService.gen(),
+			userId: user.id,
+			roomId: room.id,
+		});
+	}
+
+	@bindThis
+	public async removeRoomMember(me: MiLocalUser, roomId: MiChatRoom['id'], userId: MiUser['id']): Promise<void> {
+		const room = await this.chatRoomsRepository.findOneBy({ id: roomId, ownerId: me.id });
+		if (room == null) throw new ChatService.NoSuchRoomError();
+
+		if (userId === room.ownerId) throw new ChatService.OwnerCannotLeaveError();
+
+		const membership = await this.chatRoomMembershipsRepository.findOneBy({ roomId: room.id, userId });
+		if (membership == null) throw new ChatService.NoSuchUserError();
+
+		await this.chatRoomMembershipsRepository.delete(membership.id);
+
+		this.globalEventService.publishChatRoomStream(room.id, 'memberLeft', { userId });
+	}
+
+	@bindThis
+	public async leaveRoom(me: MiLocalUser, roomId: MiChatRoom['id']): Promise<void> {
+		const membership = await this.chatRoomMembershipsRepository.findOne({
+			where: { roomId, userId: me.id },
+			relations: ['room'],
+		});
+		if (membership == null) throw new ChatService.NoSuchRoomError();
+
+		if (membership.room!.ownerId === me.id) throw new ChatService.OwnerCannotLeaveError();
+
+		await this.chatRoomMembershipsRepository.delete(membership.id);
+
+		this.globalEventService.publishChatRoomStream(roomId, 'memberLeft', { userId: me.id });
+	}
+
+	@bindThis
+	public async isRoomMember(user: { id: MiUser['id'] }, roomId: MiChatRoom['id']): Promise<boolean> {
+		return await this.chatRoomMembershipsRepository.exists({ where: { roomId, userId: user.id } });
+	}
+
+	@bindThis
+	private async getFile(me: MiLocalUser, fileId: MiDriveFile['id'] | null): Promise<MiDriveFile | null> {
+		if (fileId == null) return null;
+
+		const file = await this.driveFilesRepository.findOneBy({ id: fileId, userId: me.id });
+		if (file == null) throw new ChatService.NoSuchFileError();
+
+		return file;
+	}
+}
@@ -7,6 +7,8 @@ import { Module } from '@nestjs/common';
 import { FanoutTimelineEndpointService } from '@/core/FanoutTimelineEndpointService.js';
 import { AbuseReportService } from '@/core/AbuseReportService.js';
 import { SystemWebhookEntityService } from '@/core/entities/SystemWebhookEntityService.js';
+import { WebhookDeliveryLogEntityService } from '@/core/entities/WebhookDeliveryLogEntityService.js';
+import { BlocklistEntityService } from '@/core/entities/BlocklistEntityService.js';
 import {
 	AbuseReportNotificationRecipientEntityService,
 } from '@/core/entities/AbuseReportNotificationRecipientEntityService.js';
@@ -14,6 +16,8 @@ import { AbuseReportNotificationService } from '@/core/AbuseReportNotificationSe
 import { SystemWebhookService } from '@/core/SystemWebhookService.js';
 import { UserSearchService } from '@/core/UserSearchService.js';
 import { WebhookTestService } from '@/core/WebhookTestService.js';
+import { WebhookDeliveryService } from '@/core/WebhookDeliveryService.js';
+import { BlocklistService } from '@/core/BlocklistService.js';
 import { FlashService } from '@/core/FlashService.js';
 import { AccountMoveService } from './AccountMoveService.js';
 import { AccountUpdateService } from './AccountUpdateService.js';
@@ -44,7 +48,13 @@ import { MfmService } from './MfmService.js';
 import { ModerationLogService } from './ModerationLogService.js';
 import { NoteCreateService } from './NoteCreateService.js';
 import { NoteDeleteService } from './NoteDeleteService.js';
+import { NoteUpdateService } from './NoteUpdateService.js';
+import { NoteModerationService } from './NoteModerationService.js';
+import { UserWarningService } from './UserWarningService.js';
+import { NoteDraftService } from './NoteDraftService.js';
+import { ChatService } from './ChatService.js';
 import { NotePiningService } from './NotePiningService.js';
+import { NoteQuoteService } from './NoteQuoteService.js';
 import { NoteReadService } from './NoteReadService.js';
 import { NotificationService } from './NotificationService.js';
 import { PollService } from './PollService.js';
@@ -73,6 +83,10 @@ import { ProxyAccountService } from './ProxyAccountService.js';
 import { UtilityService } from './UtilityService.js';
 import { FileInfoService } from './FileInfoService.js';
 import { SearchService } from './SearchService.js';
+import { SqlLikeNoteSearchProvider } from './search/SqlLikeNoteSearchProvider.js';
+import { SqlTsvectorNoteSearchProvider } from './search/SqlTsvectorNoteSearchProvider.js';
+import { MeilisearchNoteSearchProvider } from './search/MeilisearchNoteSearchProvider.js';
+import { OpenSearchNoteSearchProvider } from './search/OpenSearchNoteSearchProvider.js';
 import { ClipService } from './ClipService.js';
 import { FeaturedService } from './FeaturedService.js';
 import { FanoutTimelineService } from './FanoutTimelineService.js';
@@ -96,6 +110,8 @@ import ApRequestChart from './chart/charts/ap-request.js';
 import { ChartManagementService } from './chart/ChartManagementService.js';
 
 import { AbuseUserReportEntityService } from './entities/AbuseUserReportEntityService.js';
+import { AbuseReportResponseTemplateEntityService } from './entities/AbuseReportResponseTemplateEntityService.js';
+import { UserWarningEntityService } from './entities/UserWarningEntityService.js';
 import { AnnouncementEntityService } from './entities/AnnouncementEntityService.js';
 import { AntennaEntityService } from './entities/AntennaEntityService.js';
 import { AppEntityService } from './entities/AppEntityService.js';
@@ -118,6 +134,9 @@ import { MutingEntityService } from './entities/MutingEntityService.js';
 import { RenoteMutingEntityService } from './entities/RenoteMutingEntityService.js';
 import { NoteEntityService } from './entities/NoteEntityService.js';
 import { NoteFavoriteEntityService } from './entities/NoteFavoriteEntityService.js';
+import { NoteHistoryEntityService } from './entities/NoteHistoryEntityService.js';
+import { NoteDraftEntityService } from './entities/NoteDraftEntityService.js';
+import { ChatEntityService } from './entities/ChatEntityService.js';
 import { NoteReactionEntityService } from './entities/NoteReactionEntityService.js';
 import { NotificationEntityService } from './entities/NotificationEntityService.js';
 import { PageEntityService } from './entities/PageEntityService.js';
@@ -147,6 +166,7 @@ import { WebfingerService } from './WebfingerService.js';
 import { ApImageService } from './activitypub/models/ApImageService.js';
 import { ApMentionService } from './activitypub/models/ApMentionService.js';
 import { ApNoteService } from './activitypub/models/ApNoteService.js';
+import { ApBackfillService } from './activitypub/ApBackfillService.js';
 import { ApPersonService } from './activitypub/models/ApPersonService.js';
 import { ApQuestionService } from './activitypub/models/ApQuestionService.js';
 import { QueueModule } from './QueueModule.js';
@@ -187,7 +207,13 @@ const $MfmService: Provider = { provide: 'MfmService', useExisting: MfmService }
 const $ModerationLogService: Provider = { provide: 'ModerationLogService', useExisting: ModerationLogService };
 const $NoteCreateService: Provider = { provide: 'NoteCreateService', useExisting: NoteCreateService };
 const $NoteDeleteService: Provider = { provide: 'NoteDeleteService', useExisting: NoteDeleteService };
+const $NoteUpdateService: Provider = { provide: 'NoteUpdateService', useExisting: NoteUpdateService };
+const $NoteModerationService: Provider = { provide: 'NoteModerationService', useExisting: NoteModerationService };
+const $UserWarningService: Provider = { provide: 'UserWarningService', useExisting: UserWarningService };
+const $NoteDraftService: Provider = { provide: 'NoteDraftService', useExisting: NoteDraftService };
+const $ChatService: Provider = { provide: 'ChatService', useExisting: ChatService };
 const $NotePiningService: Provider = { provide: 'NotePiningService', useExisting: NotePiningService };
+const $NoteQuoteService: Provider = { provide: 'NoteQuoteService', useExisting: NoteQuoteService };
 const $NoteReadService: Provider = { provide: 'NoteReadService', useExisting: NoteReadService };
 const $NotificationService: Provider = { provide: 'NotificationService', useExisting: NotificationService };
 const $PollService: Provider = { provide: 'PollService', useExisting: PollService };
@@ -216,10 +242,16 @@ const $VideoProcessingService: Provider = { provide: 'VideoProcessingService', u
 const $UserWebhookService: Provider = { provide: 'UserWebhookService', useExisting: UserWebhookService };
 const $SystemWebhookService: Provider = { provide: 'SystemWebhookService', useExisting: SystemWebhookService };
 const $WebhookTestService: Provider = { provide: 'WebhookTestService', useExisting: WebhookTestService };
+const $WebhookDeliveryService: Provider = { provide: 'WebhookDeliveryService', useExisting: WebhookDeliveryService };
+const $BlocklistService: Provider = { provide: 'BlocklistService', useExisting: BlocklistService };
 const $UtilityService: Provider = { provide: 'UtilityService', useExisting: UtilityService };
 const $FileInfoService: Provider = { provide: 'FileInfoService', useExisting: FileInfoService };
 const $FlashService: Provider = { provide: 'FlashService', useExisting: FlashService };
 const $SearchService: Provider = { provide: 'SearchService', useExisting: SearchService };
+const $SqlLikeNoteSearchProvider: Provider = { provide: 'SqlLikeNoteSearchProvider', useExisting: SqlLikeNoteSearchProvider };
+const $SqlTsvectorNoteSearchProvider: Provider = { provide: 'SqlTsvectorNoteSearchProvider', useExisting: SqlTsvectorNoteSearchProvider };
+const $MeilisearchNoteSearchProvider: Provider = { provide: 'MeilisearchNoteSearchProvider', useExisting: MeilisearchNoteSearchProvider };
+const $OpenSearchNoteSearchProvider: Provider = { provide: 'OpenSearchNoteSearchProvider', useExisting: OpenSearchNoteSearchProvider };
 const $ClipService: Provider = { provide: 'ClipService', useExisting: ClipService };
 const $FeaturedService: Provider = { provide: 'FeaturedService', useExisting: FeaturedService };
 const $FanoutTimelineService: Provider = { provide: 'FanoutTimelineService', useExisting: FanoutTimelineService };
@@ -244,6 +276,8 @@ const $ApRequestChart: Provider = { provide: 'ApRequestChart', useExisting: ApRe
 const $ChartManagementService: Provider = { provide: 'ChartManagementService', useExisting: ChartManagementService };
 
 const $AbuseUserReportEntityService: Provider = { provide: 'AbuseUserReportEntityService', useExisting: AbuseUserReportEntityService };
+const $AbuseReportResponseTemplateEntityService: Provider = { provide: 'AbuseReportResponseTemplateEntityService', useExisting: AbuseReportResponseTemplateEntityService };
+const $UserWarningEntityService: Provider = { provide: 'UserWarningEntityService', useExisting: UserWarningEntityService };
 const $AnnouncementEntityService: Provider = { provide: 'AnnouncementEntityService', useExisting: AnnouncementEntityService };
 const $AbuseReportNotificationRecipientEntityService: Provider = { provide: 'AbuseReportNotificationRecipientEntityService', useExisting: AbuseReportNotificationRecipientEntityService };
 const $AntennaEntityService: Provider = { provide: 'AntennaEntityService', useExisting: AntennaEntityService };
@@ -267,6 +301,9 @@ const $MutingEntityService: Provider = { provide: 'MutingEntityService', useExis
 const $RenoteMutingEntityService: Provider = { provide: 'RenoteMutingEntityService', useExisting: RenoteMutingEntityService };
 const $NoteEntityService: Provider = { provide: 'NoteEntityService', useExisting: NoteEntityService };
 const $NoteFavoriteEntityService: Provider = { provide: 'NoteFavoriteEntityService', useExisting: NoteFavoriteEntityService };
+const $NoteHistoryEntityService: Provider = { provide: 'NoteHistoryEntityService', useExisting: NoteHistoryEntityService };
+const $NoteDraftEntityService: Provider = { provide: 'NoteDraftEntityService', useExisting: NoteDraftEntityService };
+const $ChatEntityService: Provider = { provide: 'ChatEntityService', useExisting: ChatEntityService };
 const $NoteReactionEntityService: Provider = { provide: 'NoteReactionEntityService', useExisting: NoteReactionEntityService };
 const $NotificationEntityService: Provider = { provide: 'NotificationEntityService', useExisting: NotificationEntityService };
 const $PageEntityService: Provider = { provide: 'PageEntityService', useExisting: PageEntityService };
@@ -280,6 +317,8 @@ const $RoleEntityService: Provider = { provide: 'RoleEntityService', useExisting
 const $ReversiGameEntityService: Provider = { provide: 'ReversiGameEntityService', useExisting: ReversiGameEntityService };
 const $MetaEntityService: Provider = { provide: 'MetaEntityService', useExisting: MetaEntityService };
 const $SystemWebhookEntityService: Provider = { provide: 'SystemWebhookEntityService', useExisting: SystemWebhookEntityService };
+const $WebhookDeliveryLogEntityService: Provider = { provide: 'WebhookDeliveryLogEntityService', useExisting: WebhookDeliveryLogEntityService };
+const $BlocklistEntityService: Provider = { provide: 'BlocklistEntityService', useExisting: BlocklistEntityService };
 
 const $ApAudienceService: Provider = { provide: 'ApAudienceService', useExisting: ApAudienceService };
 const $ApDbResolverService: Provider = { provide: 'ApDbResolverService', useExisting: ApDbResolverService };
@@ -297,6 +336,7 @@ const $WebfingerService: Provider = { provide: 'WebfingerService', useExisting:
 const $ApImageService: Provider = { provide: 'ApImageService', useExisting: ApImageService };
 const $ApMentionService: Provider = { provide: 'ApMentionService', useExisting: ApMentionService };
 const $ApNoteService: Provider = { provide: 'ApNoteService', useExisting: ApNoteService };
+const $ApBackfillService: Provider = { provide: 'ApBackfillService', useExisting: ApBackfillService };
 const $ApPersonService: Provider = { provide: 'ApPersonService', useExisting: ApPersonService };
 const $ApQuestionService: Provider = { provide: 'ApQuestionService', useExisting: ApQuestionService };
 //#endregion
@@ -338,7 +378,13 @@ const $ApQuestionService: Provider = { provide: 'ApQuestionService', useExisting
 		ModerationLogService,
 		NoteCreateService,
 		NoteDeleteService,
+		NoteUpdateService,
+		NoteModerationService,
+		UserWarningService,
+		NoteDraftService,
+		ChatService,
 		NotePiningService,
+		NoteQuoteService,
 		NoteReadService,
 		NotificationService,
 		PollService,
@@ -367,10 +413,16 @@ const $ApQuestionService: Provider = { provide: 'ApQuestionService', useExisting
 		UserWebhookService,
 		SystemWebhookService,
 		WebhookTestService,
+		WebhookDeliveryService,
+		BlocklistService,
 		UtilityService,
 		FileInfoService,
 		FlashService,
 		SearchService,
+		SqlLikeNoteSearchProvider,
+		SqlTsvectorNoteSearchProvider,
+		MeilisearchNoteSearchProvider,
+		OpenSearchNoteSearchProvider,
 		ClipService,
 		FeaturedService,
 		FanoutTimelineService,
@@ -395,6 +447,8 @@ const $ApQuestionService: Provider = { provide: 'ApQuestionService', useExisting
 		ChartManagementService,
 
 		AbuseUserReportEntityService,
+		AbuseReportResponseTemplateEntityService,
+		UserWarningEntityService,
 		AnnouncementEntityService,
 		AbuseReportNotificationRecipientEntityService,
 		AntennaEntityService,
@@ -418,6 +472,9 @@ const $ApQuestionService: Provider = { provide: 'ApQuestionService', useExisting
 		RenoteMutingEntityService,
 		NoteEntityService,
 		NoteFavoriteEntityService,
+		NoteHistoryEntityService,
+		NoteDraftEntityService,
+		ChatEntityService,
 		NoteReactionEntityService,
 		NotificationEntityService,
 		PageEntityService,
@@ -431,6 +488,8 @@ const $ApQuestionService: Provider = { provide: 'ApQuestionService', useExisting
 		ReversiGameEntityService,
 		MetaEntityService,
 		SystemWebhookEntityService,
+		WebhookDeliveryLogEntityService,
+		BlocklistEntityService,
 
 		ApAudienceService,
 		ApDbResolverService,
@@ -448,6 +507,7 @@ const $ApQuestionService: Provider = { provide: 'ApQuestionService', useExisting
 		ApImageService,
 		ApMentionService,
 		ApNoteService,
+		ApBackfillService,
 		ApPersonService,
 		ApQuestionService,
 		QueueService,
@@ -485,7 +545,13 @@ const $ApQuestionService: Provider = { provide: 'ApQuestionService', useExisting
 		$ModerationLogService,
 		$NoteCreateService,
 		$NoteDeleteService,
+		$NoteUpdateService,
+		$NoteModerationService,
+		$UserWarningService,
+		$NoteDraftService,
+		$ChatService,
 		$NotePiningService,
+		$NoteQuoteService,
 		$NoteReadService,
 		$NotificationService,
 		$PollService,
@@ -514,10 +580,16 @@ const $ApQuestionService: Provider = { provide: 'ApQuestionService', useExisting
 		$UserWebhookService,
 		$SystemWebhookService,
 		$WebhookTestService,
+		$WebhookDeliveryService,
+		$BlocklistService,
 		$UtilityService,
 		$FileInfoService,
 		$FlashService,
 		$SearchService,
+		$SqlLikeNoteSearchProvider,
+		$SqlTsvectorNoteSearchProvider,
+		$MeilisearchNoteSearchProvider,
+		$OpenSearchNoteSearchProvider,
 		$ClipService,
 		$FeaturedService,
 		$FanoutTimelineService,
@@ -542,6 +614,8 @@ const $ApQuestionService: Provider = { provide: 'ApQuestionService', useExisting
 		$ChartManagementService,
 
 		$AbuseUserReportEntityService,
+		$AbuseReportResponseTemplateEntityService,
+		$UserWarningEntityService,
 		$AnnouncementEntityService,
 		$AbuseReportNotificationRecipientEntityService,
 		$AntennaEntityService,
@@ -565,6 +639,9 @@ const $ApQuestionService: Provider = { provide: 'ApQuestionService', useExisting
 		$RenoteMutingEntityService,
 		$NoteEntityService,
 		$NoteFavoriteEntityService,
+		$NoteHistoryEntityService,
+		$NoteDraftEntityService,
+		$ChatEntityService,
 		$NoteReactionEntityService,
 		$NotificationEntityService,
 		$PageEntityService,
@@ -578,6 +655,8 @@ const $ApQuestionService: Provider = { provide: 'ApQuestionService', useExisting
 		$ReversiGameEntityService,
 		$MetaEntityService,
 		$SystemWebhookEntityService,
+		$WebhookDeliveryLogEntityService,
+		$BlocklistEntityService,
 
 		$ApAudienceService,
 		$ApDbResolverService,
@@ -595,6 +674,7 @@ const $ApQuestionService: Provider = { provide: 'ApQuestionService', useExisting
 		$ApImageService,
 		$ApMentionService,
 		$ApNoteService,
+		$ApBackfillService,
 		$ApPersonService,
 		$ApQuestionService,
 		//#endregion
@@ -633,7 +713,13 @@ const $ApQuestionService: Provider = { provide: 'ApQuestionService', useExisting
 		ModerationLogService,
 		NoteCreateService,
 		NoteDeleteService,
+		NoteUpdateService,
+		NoteModerationService,
+		UserWarningService,
+		NoteDraftService,
+		ChatService,
 		NotePiningService,
+		NoteQuoteService,
 		NoteReadService,
 		NotificationService,
 		PollService,
@@ -662,10 +748,16 @@ const $ApQuestionService: Provider = { provide: 'ApQuestionService', useExisting
 		UserWebhookService,
 		SystemWebhookService,
 		WebhookTestService,
+		WebhookDeliveryService,
+		BlocklistService,
 		UtilityService,
 		FileInfoService,
 		FlashService,
 		SearchService,
+		SqlLikeNoteSearchProvider,
+		SqlTsvectorNoteSearchProvider,
+		MeilisearchNoteSearchProvider,
+		OpenSearchNoteSearchProvider,
 		ClipService,
 		FeaturedService,
 		FanoutTimelineService,
@@ -689,6 +781,8 @@ const $ApQuestionService: Provider = { provide: 'ApQuestionService', useExisting
 		ChartManagementService,
 
 		AbuseUserReportEntityService,
+		AbuseReportResponseTemplateEntityService,
+		UserWarningEntityService,
 		AnnouncementEntityService,
 		AbuseReportNotificationRecipientEntityService,
 		AntennaEntityService,
@@ -712,6 +806,9 @@ const $ApQuestionService: Provider = { provide: 'ApQuestionService', useExisting
 		RenoteMutingEntityService,
 		NoteEntityService,
 		NoteFavoriteEntityService,
+		NoteHistoryEntityService,
+		NoteDraftEntityService,
+		ChatEntityService,
 		NoteReactionEntityService,
 		NotificationEntityService,
 		PageEntityService,
@@ -725,6 +822,8 @@ const $ApQuestionService: Provider = { provide: 'ApQuestionService', useExisting
 		ReversiGameEntityService,
 		MetaEntityService,
 		SystemWebhookEntityService,
+		WebhookDeliveryLogEntityService,
+		BlocklistEntityService,
 
 		ApAudienceService,
 		ApDbResolverService,
@@ -742,6 +841,7 @@ const $ApQuestionService: Provider = { provide: 'ApQuestionService', useExisting
 		ApImageService,
 		ApMentionService,
 		ApNoteService,
+		ApBackfillService,
 		ApPersonService,
 		ApQuestionService,
 		QueueService,
@@ -779,7 +879,13 @@ const $ApQuestionService: Provider = { provide: 'ApQuestionService', useExisting
 		$ModerationLogService,
 		$NoteCreateService,
 		$NoteDeleteService,
+		$NoteUpdateService,
+		$NoteModerationService,
+		$UserWarningService,
+		$NoteDraftService,
+		$ChatService,
 		$NotePiningService,
+		$NoteQuoteService,
 		$NoteReadService,
 		$NotificationService,
 		$PollService,
@@ -808,9 +914,15 @@ const $ApQuestionService: Provider = { provide: 'ApQuestionService', useExisting
 		$UserWebhookService,
 		$SystemWebhookService,
 		$WebhookTestService,
+		$WebhookDeliveryService,
+		$BlocklistService,
 		$UtilityService,
 		$FileInfoService,
 		$SearchService,
+		$SqlLikeNoteSearchProvider,
+		$SqlTsvectorNoteSearchProvider,
+		$MeilisearchNoteSearchProvider,
+		$OpenSearchNoteSearchProvider,
 		$ClipService,
 		$FeaturedService,
 		$FanoutTimelineService,
@@ -834,6 +946,8 @@ const $ApQuestionService: Provider = { provide: 'ApQuestionService', useExisting
 		$ChartManagementService,
 
 		$AbuseUserReportEntityService,
+		$AbuseReportResponseTemplateEntityService,
+		$UserWarningEntityService,
 		$AnnouncementEntityService,
 		$AbuseReportNotificationRecipientEntityService,
 		$AntennaEntityService,
@@ -857,6 +971,9 @@ const $ApQuestionService: Provider = { provide: 'ApQuestionService', useExisting
 		$RenoteMutingEntityService,
 		$NoteEntityService,
 		$NoteFavoriteEntityService,
+		$NoteHistoryEntityService,
+		$NoteDraftEntityService,
+		$ChatEntityService,
 		$NoteReactionEntityService,
 		$NotificationEntityService,
 		$PageEntityService,
@@ -870,6 +987,8 @@ const $ApQuestionService: Provider = { provide: 'ApQuestionService', useExisting
 		$ReversiGameEntityService,
 		$MetaEntityService,
 		$SystemWebhookEntityService,
+		$WebhookDeliveryLogEntityService,
+		$BlocklistEntityService,
 
 		$ApAudienceService,
 		$ApDbResolverService,
@@ -887,6 +1006,7 @@ const $ApQuestionService: Provider = { provide: 'ApQuestionService', useExisting
 		$ApImageService,
 		$ApMentionService,
 		$ApNoteService,
+		$ApBackfillService,
 		$ApPersonService,
 		$ApQuestionService,
 		//#endregion
@@ -71,7 +71,10 @@ export class FanoutTimelineEndpointService {
 		const shouldFallbackToDb = noteIds.length === 0 || ps.sinceId != null && ps.sinceId < oldestNoteId;
 
 		if (!shouldFallbackToDb) {
-			let filter = ps.noteFilter ?? (_note => true);
+			const noteFilter = ps.noteFilter ?? (_note => true);
+
+			// モデレーターによって非表示にされたノートは投稿者以外には含めない
+			let filter = (note: MiNote) => (!note.isHiddenByModerator || note.userId === ps.me?.id) && noteFilter(note);
 
 			if (ps.alwaysIncludeMyNotes && ps.me) {
 				const me = ps.me;
@@ -6,16 +6,21 @@
 import { Inject, Injectable, OnApplicationShutdown } from '@nestjs/common';
 import * as Redis from 'ioredis';
 import type { InstancesRepository } from '@/models/_.js';
-import type { MiInstance } from '@/models/Instance.js';
+import type { InstancePolicy, MiInstance } from '@/models/Instance.js';
 import { MemoryKVCache, RedisKVCache } from '@/misc/cache.js';
 import { IdService } from '@/core/IdService.js';
 import { DI } from '@/di-symbols.js';
 import { UtilityService } from '@/core/UtilityService.js';
+import { SystemWebhookService } from '@/core/SystemWebhookService.js';
+import type { InstancePayload } from '@/core/SystemWebhookService.js';
+import { LoggerService } from '@/core/LoggerService.js';
+import type Logger from '@/logger.js';
 import { bindThis } from '@/decorators.js';
 
 @Injectable()
 export class FederatedInstanceService implements OnApplicationShutdown {
 	public federatedInstanceCache: RedisKVCache<MiInstance | null>;
+	private logger: Logger;
 
 	constructor(
 		@Inject(DI.redis)
@@ -26,7 +31,10 @@ export class FederatedInstanceService implements OnApplicationShutdown {
 
 		private utilityService: UtilityService,
 		private idService: IdService,
+		private systemWebhookService: SystemWebhookService,
+		private loggerService: LoggerService,
 	) {
+		this.logger = this.loggerService.getLogger('federated-instance');
 		this.federatedInstanceCache = new RedisKVCache<MiInstance | null>(this.redisClient, 'federatedInstance', {
 			lifetime: 1000 * 60 * 30, // 30m
 			memoryCacheLifetime: 1000 * 60 * 3, // 3m
@@ -41,6 +49,7 @@ export class FederatedInstanceService implements OnApplicationShutdown {
 					latestRequestReceivedAt: parsed.latestRequestReceivedAt ? new Date(parsed.latestRequestReceivedAt) : null,
 					infoUpdatedAt: parsed.infoUpdatedAt ? new Date(parsed.infoUpdatedAt) : null,
 					notRespondingSince: parsed.notRespondingSince ? new Date(parsed.notRespondingSince) : null,
+					policies: parsed.policies ?? [],
 				};
 			},
 		});
@@ -88,9 +97,28 @@ export class FederatedInstanceService implements OnApplicationShutdown {
 		}
 	}
 
+	/**
+	 * ホストに連合ポリシーが設定されているかどうか.
+	 * blockedHosts などと同じく、親ドメインに設定されたポリシーはサブドメインにも適用する
+	 */
+	@bindThis
+	public async hasPolicy(host: string | null, policy: InstancePolicy): Promise<boolean> {
+		if (host == null) return false;
+
+		const labels = this.utilityService.toPuny(host).split('.');
+		const instances = await Promise.all(labels.map((_, i) => this.federatedInstanceCache.fetch(labels.slice(i).join('.'))));
+
+		return instances.some(instance => instance != null && instance.policies.includes(policy));
+	}
+
 	@bindThis
 	public async update(id: MiInstance['id'], data: Partial<MiInstance>): Promise<void> {
-		const result = await this.instancesRepository.createQueryBuilder().update()
+		// 状態の変化をSystemWebhookで通知するため、関係する項目を更新する場合は更新前の値を取っておく
+		const before = data.isNotResponding !== undefined || data.suspensionState !== undefined
+			? await this.instancesRepository.findOneBy({ id })
+			: null;
+
+		const result: MiInstance = await this.instancesRepository.createQueryBuilder().update()
 			.set(data)
 			.where('id = :id', { id })
 			.returning('*')
@@ -100,6 +128,32 @@ export class FederatedInstanceService implements OnApplicationShutdown {
 			});
 
 		this.federatedInstanceCache.set(result.host, result);
+
+		if (before != null) {
+			if (!before.isNotResponding && result.isNotResponding) {
+				this.systemWebhookService.enqueueSystemWebhook('instanceNotResponding', this.toWebhookPayload(result))
+					.catch(err => this.logger.error(err));
+			}
+
+			if (before.suspensionState !== result.suspensionState) {
+				this.systemWebhookService.enqueueSystemWebhook('instanceSuspensionStateChanged', {
+					instance: this.toWebhookPayload(result),
+					before: before.suspensionState,
+					after: result.suspensionState,
+				}).catch(err => this.logger.error(err));
+			}
+		}
+	}
+
+	@bindThis
+	private toWebhookPayload(instance: MiInstance): InstancePayload {
+		return {
+			id: instance.id,
+			host: instance.host,
+			isNotResponding: instance.isNotResponding,
+			notRespondingSince: instance.notRespondingSince ? new Date(instance.notRespondingSince).toISOString() : null,
+			suspensionState: instance.suspensionState,
+		};
 	}
 
 	@bindThis
@@ -3,32 +3,57 @@
  * SPDX-License-Identifier: AGPL-3.0-only
  */
 
-import { Inject, Injectable } from '@nestjs/common';
+import { Inject, Injectable, OnModuleInit } from '@nestjs/common';
+import { ModuleRef } from '@nestjs/core';
 import { DI } from '@/di-symbols.js';
 import type { ModerationLogsRepository } from '@/models/_.js';
 import type { MiUser } from '@/models/User.js';
 import { IdService } from '@/core/IdService.js';
+import { LoggerService } from '@/core/LoggerService.js';
+import type Logger from '@/logger.js';
+import type { ModerationLogPayload, SystemWebhookService } from '@/core/SystemWebhookService.js';
 import { bindThis } from '@/decorators.js';
 import type { ModerationLogPayloads } from '@/types.js';
 import { moderationLogTypes } from '@/types.js';
 
 @Injectable()
-export class ModerationLogService {
+export class ModerationLogService implements OnModuleInit {
+	private systemWebhookService: SystemWebhookService;
+	private logger: Logger;
+
 	constructor(
+		private moduleRef: ModuleRef,
+
 		@Inject(DI.moderationLogsRepository)
 		private moderationLogsRepository: ModerationLogsRepository,
 
 		private idService: IdService,
+		private loggerService: LoggerService,
 	) {
+		this.logger = this.loggerService.getLogger('moderation-log');
+	}
+
+	onModuleInit() {
+		this.systemWebhookService = this.moduleRef.get('SystemWebhookService');
 	}
 
 	@bindThis
 	public async log<T extends typeof moderationLogTypes[number]>(moderator: { id: MiUser['id'] }, type: T, info?: ModerationLogPayloads[T]) {
+		const id = this.idService.gen();
 		await this.moderationLogsRepository.insert({
-			id: this.idService.gen(),
+			id,
 			userId: moderator.id,
 			type: type,
 			info: (info as any) ?? {},
 		});
+
+		const payload: ModerationLogPayload<T> = {
+			id,
+			createdAt: this.idService.parse(id).date.toISOString(),
+			moderatorId: moderator.id,
+			info: info ?? {},
+		};
+		this.systemWebhookService.enqueueSystemWebhook(type, payload)
+			.catch(err => this.logger.error(err));
 	}
 }
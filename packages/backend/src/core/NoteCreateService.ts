@@ -57,6 +57,7 @@ import { trackPromise } from '@/misc/promise-tracker.js';
 import { IdentifiableError } from '@/misc/identifiable-error.js';
 import { CollapsedQueue } from '@/misc/collapsed-queue.js';
 import { CacheService } from '@/core/CacheService.js';
+import { NoteQuoteService } from '@/core/NoteQuoteService.js';
 
 type NotificationType = 'reply' | 'renote' | 'quote' | 'mention';
 
@@ -133,6 +134,10 @@ type Option = {
 	poll?: IPoll | null;
 	localOnly?: boolean | null;
 	reactionAcceptance?: MiNote['reactionAcceptance'];
+	quotePolicy?: MiNote['quotePolicy'];
+	quoteAuthorizationUri?: string | null;
+	threadId?: string | null;
+	contextUri?: string | null;
 	cw?: string | null;
 	visibility?: string;
 	visibleUsers?: MinimumUser[] | null;
@@ -140,6 +145,7 @@ type Option = {
 	apMentions?: MinimumUser[] | null;
 	apHashtags?: string[] | null;
 	apEmojis?: string[] | null;
+	lang?: string | null;
 	uri?: string | null;
 	url?: string | null;
 	app?: MiApp | null;
@@ -219,6 +225,7 @@ export class NoteCreateService implements OnApplicationShutdown {
 		private utilityService: UtilityService,
 		private userBlockingService: UserBlockingService,
 		private cacheService: CacheService,
+		private noteQuoteService: NoteQuoteService,
 	) {
 		this.updateNotesCountQueue = new CollapsedQueue(process.env.NODE_ENV !== 'test' ? 60 * 1000 * 5 : 0, this.collapseNotesCount, this.performUpdateNotesCount);
 	}
@@ -231,6 +238,32 @@ export class NoteCreateService implements OnApplicationShutdown {
 		isBot: MiUser['isBot'];
 		isCat: MiUser['isCat'];
 	}, data: Option, silent = false): Promise<MiNote> {
+		return await this.createNote(user, data, silent, false);
+	}
+
+	/**
+	 * エクスポートされたノートを取り込む.
+	 * 過去の投稿なので、タイムラインやアンテナへの配信、ハッシュタグの更新、フォロワーへの通知は行わない
+	 */
+	@bindThis
+	public async import(user: {
+		id: MiUser['id'];
+		username: MiUser['username'];
+		host: MiUser['host'];
+		isBot: MiUser['isBot'];
+		isCat: MiUser['isCat'];
+	}, data: Option): Promise<MiNote> {
+		return await this.createNote(user, data, true, true);
+	}
+
+	@bindThis
+	private async createNote(user: {
+		id: MiUser['id'];
+		username: MiUser['username'];
+		host: MiUser['host'];
+		isBot: MiUser['isBot'];
+		isCat: MiUser['isCat'];
+	}, data: Option, silent: boolean, imported: boolean): Promise<MiNote> {
 		// チャンネル外にリプライしたら対象のスコープに合わせる
 		// (クライアントサイドでやっても良い処理だと思うけどとりあえずサーバーサイドで)
 		if (data.reply && data.channel && data.reply.channelId !== data.channel.id) {
@@ -249,6 +282,10 @@ export class NoteCreateService implements OnApplicationShutdown {
 
 		if (data.createdAt == null) data.createdAt = new Date();
 		if (data.visibility == null) data.visibility = 'public';
+		if (data.lang === undefined && user.host == null) {
+			// ローカルの投稿はとりあえず投稿者の設定言語とみなす
+			data.lang = (await this.cacheService.userProfileCache.fetch(user.id)).lang;
+		}
 		if (data.localOnly == null) data.localOnly = false;
 		if (data.channel != null) data.visibility = 'public';
 		if (data.channel != null) data.visibleUsers = [];
@@ -395,7 +432,7 @@ export class NoteCreateService implements OnApplicationShutdown {
 		const note = await this.insertNote(user, data, tags, emojis, mentionedUsers);
 
 		setImmediate('post created', { signal: this.#shutdownController.signal }).then(
-			() => this.postNoteCreated(note, user, data, silent, tags!, mentionedUsers!),
+			() => this.postNoteCreated(note, user, data, silent, imported, tags!, mentionedUsers!),
 			() => { /* aborted, ignore this */ },
 		);
 
@@ -414,16 +451,20 @@ export class NoteCreateService implements OnApplicationShutdown {
 				? data.reply.threadId
 					? data.reply.threadId
 					: data.reply.id
-				: null,
+				: data.threadId ?? null,
+			contextUri: data.contextUri ?? data.reply?.contextUri ?? null,
 			name: data.name,
 			text: data.text,
 			hasPoll: data.poll != null,
+			lang: data.lang ? data.lang.toLowerCase() : null,
 			cw: data.cw ?? null,
 			tags: tags.map(tag => normalizeForSearch(tag)),
 			emojis,
 			userId: user.id,
 			localOnly: data.localOnly!,
 			reactionAcceptance: data.reactionAcceptance,
+			quotePolicy: data.quotePolicy ?? 'public',
+			quoteAuthorizationUri: data.quoteAuthorizationUri ?? null,
 			visibility: data.visibility as any,
 			visibleUserIds: data.visibility === 'specified'
 				? data.visibleUsers
@@ -447,17 +488,7 @@ export class NoteCreateService implements OnApplicationShutdown {
 		// Append mentions data
 		if (mentionedUsers.length > 0) {
 			insert.mentions = mentionedUsers.map(u => u.id);
-			const profiles = await this.userProfilesRepository.findBy({ userId: In(insert.mentions) });
-			insert.mentionedRemoteUsers = JSON.stringify(mentionedUsers.filter(u => this.userEntityService.isRemoteUser(u)).map(u => {
-				const profile = profiles.find(p => p.userId === u.id);
-				const url = profile != null ? profile.url : null;
-				return {
-					uri: u.uri,
-					url: url ?? undefined,
-					username: u.username,
-					host: u.host,
-				} as IMentionedRemoteUsers[0];
-			}));
+			insert.mentionedRemoteUsers = await this.renderMentionedRemoteUsers(mentionedUsers);
 		}
 
 		// 投稿を作成
@@ -506,7 +537,7 @@ export class NoteCreateService implements OnApplicationShutdown {
 		username: MiUser['username'];
 		host: MiUser['host'];
 		isBot: MiUser['isBot'];
-	}, data: Option, silent: boolean, tags: string[], mentionedUsers: MinimumUser[]) {
+	}, data: Option, silent: boolean, imported: boolean, tags: string[], mentionedUsers: MinimumUser[]) {
 		this.notesChart.update(note, true);
 		if (note.visibility !== 'specified' && (this.meta.enableChartsForRemoteUser || (user.host == null))) {
 			this.perUserNotesChart.update(user, note, true);
@@ -525,22 +556,24 @@ export class NoteCreateService implements OnApplicationShutdown {
 		}
 
 		// ハッシュタグ更新
-		if (data.visibility === 'public' || data.visibility === 'home') {
+		if (!imported && (data.visibility === 'public' || data.visibility === 'home')) {
 			this.hashtagService.updateHashtags(user, tags);
 		}
 
 		// Increment notes count (user)
 		this.incNotesCountOfUser(user);
 
-		this.pushToTl(note, user);
+		if (!imported) {
+			this.pushToTl(note, user);
 
-		this.antennaService.addNoteToAntennas(note, user);
+			this.antennaService.addNoteToAntennas(note, user);
+		}
 
 		if (data.reply) {
 			this.saveReply(data.reply, note);
 		}
 
-		if (data.reply == null) {
+		if (data.reply == null && !imported) {
 			// TODO: キャッシュ
 			this.followingsRepository.findBy({
 				followeeId: user.id,
@@ -660,6 +693,11 @@ export class NoteCreateService implements OnApplicationShutdown {
 			//#region AP deliver
 			if (!data.localOnly && this.userEntityService.isLocalUser(user)) {
 				(async () => {
+					// 他人の投稿を引用した場合は、配送の前に引用の承認を得ておく
+					if (this.isRenote(data) && this.isQuote(data)) {
+						await this.noteQuoteService.onQuoted(note, data.renote, user);
+					}
+
 					const noteActivity = await this.renderNoteOrRenoteActivity(data, note);
 					const dm = this.apDeliverManagerService.createDeliverManager(user, noteActivity);
 
@@ -818,8 +856,26 @@ export class NoteCreateService implements OnApplicationShutdown {
 			.execute();
 	}
 
+	/**
+	 * メンションされたユーザーのうち、リモートユーザーの情報を投稿の mentionedRemoteUsers の形式にします
+	 */
+	@bindThis
+	public async renderMentionedRemoteUsers(mentionedUsers: MinimumUser[]): Promise<string> {
+		const profiles = await this.userProfilesRepository.findBy({ userId: In(mentionedUsers.map(u => u.id)) });
+		return JSON.stringify(mentionedUsers.filter(u => this.userEntityService.isRemoteUser(u)).map(u => {
+			const profile = profiles.find(p => p.userId === u.id);
+			const url = profile != null ? profile.url : null;
+			return {
+				uri: u.uri,
+				url: url ?? undefined,
+				username: u.username,
+				host: u.host,
+			} as IMentionedRemoteUsers[0];
+		}));
+	}
+
 	@bindThis
-	private async extractMentionedUsers(user: { host: MiUser['host']; }, tokens: mfm.MfmNode[]): Promise<MiUser[]> {
+	public async extractMentionedUsers(user: { host: MiUser['host']; }, tokens: mfm.MfmNode[]): Promise<MiUser[]> {
 		if (tokens == null) return [];
 
 		const mentions = extractMentions(tokens);
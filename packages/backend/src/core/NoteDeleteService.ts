@@ -19,6 +19,8 @@ import { GlobalEventService } from '@/core/GlobalEventService.js';
 import { ApRendererService } from '@/core/activitypub/ApRendererService.js';
 import { ApDeliverManagerService } from '@/core/activitypub/ApDeliverManagerService.js';
 import { UserEntityService } from '@/core/entities/UserEntityService.js';
+import { NoteEntityService } from '@/core/entities/NoteEntityService.js';
+import { UserWebhookService } from '@/core/UserWebhookService.js';
 import { bindThis } from '@/decorators.js';
 import { SearchService } from '@/core/SearchService.js';
 import { ModerationLogService } from '@/core/ModerationLogService.js';
@@ -43,6 +45,8 @@ export class NoteDeleteService {
 		private instancesRepository: InstancesRepository,
 
 		private userEntityService: UserEntityService,
+		private noteEntityService: NoteEntityService,
+		private webhookService: UserWebhookService,
 		private globalEventService: GlobalEventService,
 		private relayService: RelayService,
 		private federatedInstanceService: FederatedInstanceService,
@@ -73,6 +77,12 @@ export class NoteDeleteService {
 				deletedAt: deletedAt,
 			});
 
+			// 削除すると投票などの関連データも消えるので、先にパックしておく
+			if (this.userEntityService.isLocalUser(user) && await this.webhookService.hasActiveWebhook(user.id, 'noteDeleted')) {
+				const packed = await this.noteEntityService.pack(note, null, { skipHide: true });
+				this.webhookService.enqueueUserWebhook(user.id, 'noteDeleted', { note: packed });
+			}
+
 			//#region ローカルの投稿なら削除アクティビティを配送
 			if (this.userEntityService.isLocalUser(user) && !note.localOnly) {
 				let renote: MiNote | null = null;
@@ -0,0 +1,350 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { In, IsNull, Not } from 'typeorm';
+import { Inject, Injectable } from '@nestjs/common';
+import type { MiMeta, BlockingsRepository, ChannelsRepository, DriveFilesRepository, NoteDraftsRepository, NotesRepository, UsersRepository } from '@/models/_.js';
+import type { MiLocalUser, MiUser } from '@/models/User.js';
+import type { MiDriveFile } from '@/models/DriveFile.js';
+import type { MiNote } from '@/models/Note.js';
+import type { MiChannel } from '@/models/Channel.js';
+import { MiNoteDraft } from '@/models/NoteDraft.js';
+import { MAX_NOTE_DRAFTS_PER_USER, MAX_SCHEDULED_NOTES_PER_USER } from '@/const.js';
+import { IdService } from '@/core/IdService.js';
+import { QueueService } from '@/core/QueueService.js';
+import { NoteCreateService } from '@/core/NoteCreateService.js';
+import { NoteEntityService } from '@/core/entities/NoteEntityService.js';
+import { DI } from '@/di-symbols.js';
+import { bindThis } from '@/decorators.js';
+import { isQuote, isRenote } from '@/misc/is-renote.js';
+import { IdentifiableError } from '@/misc/identifiable-error.js';
+
+export type NoteDraftOption = {
+	text: MiNoteDraft['text'];
+	cw: MiNoteDraft['cw'];
+	fileIds: MiNoteDraft['fileIds'];
+	poll: MiNoteDraft['poll'];
+	visibility: MiNoteDraft['visibility'];
+	visibleUserIds: MiNoteDraft['visibleUserIds'];
+	localOnly: MiNoteDraft['localOnly'];
+	reactionAcceptance: MiNoteDraft['reactionAcceptance'];
+	quotePolicy: MiNoteDraft['quotePolicy'];
+	replyId: MiNoteDraft['replyId'];
+	renoteId: MiNoteDraft['renoteId'];
+	channelId: MiNoteDraft['channelId'];
+	scheduledAt: MiNoteDraft['scheduledAt'];
+};
+
+type ResolvedTargets = {
+	files: MiDriveFile[];
+	reply: MiNote | null;
+	renote: MiNote | null;
+	channel: MiChannel | null;
+	visibleUsers: MiUser[];
+};
+
+@Injectable()
+export class NoteDraftService {
+	constructor(
+		@Inject(DI.meta)
+		private meta: MiMeta,
+
+		@Inject(DI.noteDraftsRepository)
+		private noteDraftsRepository: NoteDraftsRepository,
+
+		@Inject(DI.usersRepository)
+		private usersRepository: UsersRepository,
+
+		@Inject(DI.notesRepository)
+		private notesRepository: NotesRepository,
+
+		@Inject(DI.blockingsRepository)
+		private blockingsRepository: BlockingsRepository,
+
+		@Inject(DI.driveFilesRepository)
+		private driveFilesRepository: DriveFilesRepository,
+
+		@Inject(DI.channelsRepository)
+		private channelsRepository: ChannelsRepository,
+
+		private idService: IdService,
+		private queueService: QueueService,
+		private noteCreateService: NoteCreateService,
+		private noteEntityService: NoteEntityService,
+	) {
+	}
+
+	/**
+	 * 下書きを作成します。
+	 * scheduledAt が指定されている場合はその日時に投稿されるように予約します。
+	 */
+	@bindThis
+	public async create(me: MiLocalUser, data: NoteDraftOption): Promise<MiNoteDraft> {
+		if (data.scheduledAt != null) {
+			this.validateScheduled(data, data.scheduledAt);
+		}
+
+		await this.checkLimit(me, data.scheduledAt != null);
+
+		await this.resolveTargets(me, data);
+
+		const draft = await this.noteDraftsRepository.insertOne(new MiNoteDraft({
+			id: this.idService.gen(),
+			userId: me.id,
+			...data,
+		}));
+
+		if (draft.scheduledAt != null) {
+			await this.enqueue(draft.id, draft.scheduledAt);
+		}
+
+		return draft;
+	}
+
+	/**
+	 * 下書きの内容を置き換えます。予約されている場合は予約日時を更新します。
+	 */
+	@bindThis
+	public async update(me: MiLocalUser, draft: MiNoteDraft, data: NoteDraftOption): Promise<MiNoteDraft> {
+		if (draft.userId !== me.id) {
+			throw new Error('Draft is not owned by the user');
+		}
+
+		if (data.scheduledAt != null) {
+			this.validateScheduled(data, data.scheduledAt);
+		}
+
+		// 下書きと予約投稿の間で移るときは移る先の上限を確かめる
+		const scheduled = data.scheduledAt != null;
+		if (scheduled !== (draft.scheduledAt != null)) {
+			await this.checkLimit(me, scheduled);
+		}
+
+		await this.resolveTargets(me, data);
+
+		await this.noteDraftsRepository.update(draft.id, data);
+
+		const updated = new MiNoteDraft({ ...draft, ...data });
+
+		await this.queueService.scheduledNotePublishQueue.remove(draft.id);
+		if (updated.scheduledAt != null) {
+			await this.enqueue(updated.id, updated.scheduledAt);
+		}
+
+		return updated;
+	}
+
+	@bindThis
+	public async delete(me: MiLocalUser, draft: MiNoteDraft): Promise<void> {
+		if (draft.userId !== me.id) {
+			throw new Error('Draft is not owned by the user');
+		}
+
+		await this.queueService.scheduledNotePublishQueue.remove(draft.id);
+		await this.noteDraftsRepository.delete(draft.id);
+	}
+
+	/**
+	 * 予約された下書きを投稿します。
+	 * 予約した後に投稿できない状態になっていた場合は IdentifiableError を投げます。
+	 */
+	@bindThis
+	public async publish(draft: MiNoteDraft): Promise<MiNote> {
+		const user = await this.usersRepository.findOneByOrFail({ id: draft.userId }) as MiLocalUser;
+
+		if (user.isSuspended || user.isDeleted) {
+			throw new IdentifiableError('eabfba3b-09d7-4fda-b78d-22c9bdfb4f7a', 'The author can not post notes');
+		}
+
+		// 予約してから投稿されるまでの間に削除されたファイルは無視する
+		const fileIds = draft.fileIds.length > 0 ? (await this.driveFilesRepository.find({
+			select: ['id'],
+			where: { id: In(draft.fileIds), userId: user.id },
+		})).map(file => file.id) : [];
+
+		const { files, reply, renote, channel, visibleUsers } = await this.resolveTargets(user, {
+			...draft,
+			fileIds: draft.fileIds.filter(id => fileIds.includes(id)),
+		});
+
+		const note = await this.noteCreateService.create(user, {
+			createdAt: new Date(),
+			files,
+			poll: draft.poll ? {
+				choices: draft.poll.choices,
+				multiple: draft.poll.multiple,
+				expiresAt: draft.poll.expiredAfter != null
+					? new Date(Date.now() + draft.poll.expiredAfter)
+					: draft.poll.expiresAt != null ? new Date(draft.poll.expiresAt) : null,
+			} : undefined,
+			text: draft.text ?? undefined,
+			reply,
+			renote,
+			cw: draft.cw,
+			localOnly: draft.localOnly,
+			reactionAcceptance: draft.reactionAcceptance,
+			quotePolicy: draft.quotePolicy,
+			visibility: draft.visibility,
+			visibleUsers,
+			channel,
+		});
+
+		await this.noteDraftsRepository.delete(draft.id);
+
+		return note;
+	}
+
+	@bindThis
+	private async checkLimit(me: MiLocalUser, scheduled: boolean) {
+		if (scheduled) {
+			const count = await this.noteDraftsRepository.countBy({
+				userId: me.id,
+				scheduledAt: Not(IsNull()),
+			});
+			if (count >= MAX_SCHEDULED_NOTES_PER_USER) {
+				throw new IdentifiableError('22a8062c-11da-466c-974d-e30e8fa57f62', 'Too many scheduled notes');
+			}
+		} else {
+			const count = await this.noteDraftsRepository.countBy({
+				userId: me.id,
+				scheduledAt: IsNull(),
+			});
+			if (count >= MAX_NOTE_DRAFTS_PER_USER) {
+				throw new IdentifiableError('34d5cd13-5e6a-487f-b1d0-60cb0f23b03a', 'Too many drafts');
+			}
+		}
+	}
+
+	@bindThis
+	private validateScheduled(data: NoteDraftOption, scheduledAt: Date) {
+		if (scheduledAt.getTime() <= Date.now()) {
+			throw new IdentifiableError('890843f4-c941-488a-98b8-fe4c002d7bcb', 'scheduledAt must be in the future');
+		}
+
+		// 投稿時に弾かれることが無いように予約の時点で確かめておく
+		const hasProhibitedWords = this.noteCreateService.checkProhibitedWordsContain({
+			cw: data.cw,
+			text: data.text,
+			pollChoices: data.poll?.choices,
+		}, this.meta.prohibitedWords);
+
+		if (hasProhibitedWords) {
+			throw new IdentifiableError('689ee33f-f97c-479a-ac49-1b9f8140af99', 'Note contains prohibited words');
+		}
+	}
+
+	@bindThis
+	private async enqueue(draftId: MiNoteDraft['id'], scheduledAt: Date) {
+		await this.queueService.scheduledNotePublishQueue.add(draftId, {
+			noteDraftId: draftId,
+		}, {
+			jobId: draftId,
+			delay: Math.max(0, scheduledAt.getTime() - Date.now()),
+			// 一時的な障害で失敗したときのために何度か再試行する
+			attempts: 3,
+			backoff: {
+				type: 'exponential',
+				delay: 60 * 1000,
+			},
+			removeOnComplete: true,
+			removeOnFail: true,
+		});
+	}
+
+	/**
+	 * 下書きが参照しているファイルやノートなどを取得し、notes/create と同じ条件で投稿可能か確かめます。
+	 */
+	@bindThis
+	private async resolveTargets(me: MiLocalUser, data: Pick<NoteDraftOption, 'fileIds' | 'replyId' | 'renoteId' | 'channelId' | 'visibility' | 'visibleUserIds' | 'poll'>): Promise<ResolvedTargets> {
+		let files: MiDriveFile[] = [];
+		if (data.fileIds.length > 0) {
+			files = await this.driveFilesRepository.createQueryBuilder('file')
+				.where('file.userId = :userId AND file.id IN (:...fileIds)', {
+					userId: me.id,
+					fileIds: data.fileIds,
+				})
+				.orderBy('array_position(ARRAY[:...fileIds], "id"::text)')
+				.setParameters({ fileIds: data.fileIds })
+				.getMany();
+
+			if (files.length !== data.fileIds.length) {
+				throw new IdentifiableError('521bb244-086b-4545-9909-04830afbd000', 'No such file');
+			}
+		}
+
+		let renote: MiNote | null = null;
+		if (data.renoteId != null) {
+			renote = await this.notesRepository.findOneBy({ id: data.renoteId });
+
+			if (renote == null) {
+				throw new IdentifiableError('83fdd92c-371a-4291-9624-fa5d8b1a8e0b', 'No such renote target');
+			} else if (isRenote(renote) && !isQuote(renote)) {
+				throw new IdentifiableError('c5a33af0-1906-47b0-81f7-770ff091d6fb', 'Cannot renote a pure renote');
+			}
+
+			if (renote.userId !== me.id && await this.isBlocked(renote.userId, me.id)) {
+				throw new IdentifiableError('0160d4ea-d2b6-4cef-94b1-b1fa945ccec2', 'You have been blocked by the user');
+			}
+
+			if ((renote.visibility === 'followers' && renote.userId !== me.id) || renote.visibility === 'specified') {
+				throw new IdentifiableError('c02483eb-d9c9-4527-b538-ee510caecec0', 'Cannot renote due to target visibility');
+			}
+
+			if (renote.channelId && renote.channelId !== data.channelId) {
+				const renoteChannel = await this.channelsRepository.findOneBy({ id: renote.channelId });
+				if (renoteChannel == null) {
+					throw new IdentifiableError('272e27b7-611a-4f51-a28f-b1a3b2333156', 'No such channel');
+				} else if (!renoteChannel.allowRenoteToExternal) {
+					throw new IdentifiableError('68eda691-d32d-4299-a930-87fe191f503d', 'Cannot renote outside of channel');
+				}
+			}
+		}
+
+		let reply: MiNote | null = null;
+		if (data.replyId != null) {
+			reply = await this.notesRepository.findOneBy({ id: data.replyId });
+
+			if (reply == null) {
+				throw new IdentifiableError('532c53c8-ccc9-4bc7-bb37-5b597d2e0677', 'No such reply target');
+			} else if (isRenote(reply) && !isQuote(reply)) {
+				throw new IdentifiableError('42d6337f-8a26-4963-8f73-b8a35a822858', 'Cannot reply to a pure renote');
+			} else if (!await this.noteEntityService.isVisibleForMe(reply, me.id)) {
+				throw new IdentifiableError('4c473193-0ed1-4600-bec7-583b56ef9522', 'Cannot reply to an invisible note');
+			} else if (reply.visibility === 'specified' && data.visibility !== 'specified') {
+				throw new IdentifiableError('87a231d0-2ea4-46f0-abc7-14c08bfcf4c9', 'Cannot reply to a specified visibility note with extended visibility');
+			}
+
+			if (reply.userId !== me.id && await this.isBlocked(reply.userId, me.id)) {
+				throw new IdentifiableError('0160d4ea-d2b6-4cef-94b1-b1fa945ccec2', 'You have been blocked by the user');
+			}
+		}
+
+		if (data.poll?.expiresAt != null && new Date(data.poll.expiresAt).getTime() < Date.now()) {
+			throw new IdentifiableError('fced1452-5189-4227-ad59-1a77e8569ba1', 'Poll is already expired');
+		}
+
+		let channel: MiChannel | null = null;
+		if (data.channelId != null) {
+			channel = await this.channelsRepository.findOneBy({ id: data.channelId, isArchived: false });
+
+			if (channel == null) {
+				throw new IdentifiableError('272e27b7-611a-4f51-a28f-b1a3b2333156', 'No such channel');
+			}
+		}
+
+		const visibleUsers = data.visibleUserIds.length > 0 ? await this.usersRepository.findBy({
+			id: In(data.visibleUserIds),
+		}) : [];
+
+		return { files, reply, renote, channel, visibleUsers };
+	}
+
+	@bindThis
+	private isBlocked(blockerId: MiUser['id'], blockeeId: MiUser['id']): Promise<boolean> {
+		return this.blockingsRepository.exists({
+			where: { blockerId, blockeeId },
+		});
+	}
+}
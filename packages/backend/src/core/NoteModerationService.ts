@@ -0,0 +1,140 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { Inject, Injectable } from '@nestjs/common';
+import type { NotesRepository } from '@/models/_.js';
+import type { MiNote } from '@/models/Note.js';
+import type { MiUser } from '@/models/User.js';
+import { DI } from '@/di-symbols.js';
+import { CacheService } from '@/core/CacheService.js';
+import { GlobalEventService } from '@/core/GlobalEventService.js';
+import { ModerationLogService } from '@/core/ModerationLogService.js';
+import { NoteUpdateService } from '@/core/NoteUpdateService.js';
+import { bindThis } from '@/decorators.js';
+import { trackPromise } from '@/misc/promise-tracker.js';
+
+/**
+ * 削除やユーザーの凍結に至らないノート単位のモデレーション
+ */
+@Injectable()
+export class NoteModerationService {
+	constructor(
+		@Inject(DI.notesRepository)
+		private notesRepository: NotesRepository,
+
+		private cacheService: CacheService,
+		private globalEventService: GlobalEventService,
+		private moderationLogService: ModerationLogService,
+		private noteUpdateService: NoteUpdateService,
+	) {
+	}
+
+	/**
+	 * 投稿者以外から非表示にする
+	 */
+	@bindThis
+	public async hide(note: MiNote, moderator: MiUser): Promise<void> {
+		if (note.isHiddenByModerator) return;
+
+		await this.update(note, { isHiddenByModerator: true }, false);
+
+		this.moderationLogService.log(moderator, 'hideNote', await this.getLogPayload(note));
+	}
+
+	@bindThis
+	public async unhide(note: MiNote, moderator: MiUser): Promise<void> {
+		if (!note.isHiddenByModerator) return;
+
+		await this.update(note, { isHiddenByModerator: false }, false);
+
+		this.moderationLogService.log(moderator, 'unhideNote', await this.getLogPayload(note));
+	}
+
+	/**
+	 * CWを付ける. nullの場合はモデレーターが付けたCWを外す
+	 */
+	@bindThis
+	public async setCw(note: MiNote, cw: string | null, moderator: MiUser): Promise<void> {
+		if (note.moderatorCw === cw) return;
+
+		await this.update(note, { moderatorCw: cw }, true);
+
+		this.moderationLogService.log(moderator, 'setNoteCw', {
+			...await this.getLogPayload(note),
+			before: note.moderatorCw,
+			after: cw,
+		});
+	}
+
+	/**
+	 * 添付ファイルをセンシティブとして扱う
+	 */
+	@bindThis
+	public async markSensitive(note: MiNote, moderator: MiUser): Promise<void> {
+		if (note.isSensitiveByModerator) return;
+
+		await this.update(note, { isSensitiveByModerator: true }, true);
+
+		this.moderationLogService.log(moderator, 'markSensitiveNote', await this.getLogPayload(note));
+	}
+
+	@bindThis
+	public async unmarkSensitive(note: MiNote, moderator: MiUser): Promise<void> {
+		if (!note.isSensitiveByModerator) return;
+
+		await this.update(note, { isSensitiveByModerator: false }, true);
+
+		this.moderationLogService.log(moderator, 'unmarkSensitiveNote', await this.getLogPayload(note));
+	}
+
+	/**
+	 * LTL・GTL・ハイライトから除外する. プロフィールなどには引き続き表示される
+	 */
+	@bindThis
+	public async excludeFromPublicTimelines(note: MiNote, moderator: MiUser): Promise<void> {
+		if (note.isExcludedFromPublicTimelines) return;
+
+		await this.update(note, { isExcludedFromPublicTimelines: true }, false);
+
+		this.moderationLogService.log(moderator, 'excludeNoteFromPublicTimelines', await this.getLogPayload(note));
+	}
+
+	@bindThis
+	public async includeInPublicTimelines(note: MiNote, moderator: MiUser): Promise<void> {
+		if (!note.isExcludedFromPublicTimelines) return;
+
+		await this.update(note, { isExcludedFromPublicTimelines: false }, false);
+
+		this.moderationLogService.log(moderator, 'includeNoteInPublicTimelines', await this.getLogPayload(note));
+	}
+
+	/**
+	 * @param federate 表示内容が変わるため、ローカルのノートであればUpdateを配送するか
+	 */
+	@bindThis
+	private async update(note: MiNote, values: Partial<MiNote>, federate: boolean): Promise<void> {
+		await this.notesRepository.update(note.id, values);
+
+		this.globalEventService.publishNoteStream(note.id, 'updated', {
+			updatedAt: note.updatedAt ?? new Date(),
+		});
+
+		if (federate && note.userHost == null && !note.localOnly) {
+			trackPromise(this.noteUpdateService.deliverUpdate({ id: note.userId, host: null }, { ...note, ...values }));
+		}
+	}
+
+	@bindThis
+	private async getLogPayload(note: MiNote) {
+		const user = await this.cacheService.findUserById(note.userId);
+
+		return {
+			noteId: note.id,
+			noteUserId: note.userId,
+			noteUserUsername: user.username,
+			noteUserHost: user.host,
+		};
+	}
+}
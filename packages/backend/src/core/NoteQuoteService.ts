@@ -0,0 +1,138 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { Inject, Injectable } from '@nestjs/common';
+import { DI } from '@/di-symbols.js';
+import type { Config } from '@/config.js';
+import type { FollowingsRepository, NoteQuoteAuthorizationsRepository, NotesRepository, UsersRepository } from '@/models/_.js';
+import type { MiNote } from '@/models/Note.js';
+import type { MiLocalUser, MiUser } from '@/models/User.js';
+import { IdService } from '@/core/IdService.js';
+import { QueueService } from '@/core/QueueService.js';
+import { UserEntityService } from '@/core/entities/UserEntityService.js';
+import { ApRendererService } from '@/core/activitypub/ApRendererService.js';
+import { bindThis } from '@/decorators.js';
+
+/**
+ * 引用ポリシーと、他のサーバーとの引用の承認 (FEP-044f) を扱う
+ */
+@Injectable()
+export class NoteQuoteService {
+	constructor(
+		@Inject(DI.config)
+		private config: Config,
+
+		@Inject(DI.usersRepository)
+		private usersRepository: UsersRepository,
+
+		@Inject(DI.notesRepository)
+		private notesRepository: NotesRepository,
+
+		@Inject(DI.followingsRepository)
+		private followingsRepository: FollowingsRepository,
+
+		@Inject(DI.noteQuoteAuthorizationsRepository)
+		private noteQuoteAuthorizationsRepository: NoteQuoteAuthorizationsRepository,
+
+		private idService: IdService,
+		private queueService: QueueService,
+		private userEntityService: UserEntityService,
+		private apRendererService: ApRendererService,
+	) {
+	}
+
+	/**
+	 * 投稿の引用ポリシーに照らして、ユーザーがその投稿を引用できるかどうか
+	 */
+	@bindThis
+	public async canQuote(note: MiNote, user: { id: MiUser['id'] }): Promise<boolean> {
+		if (note.userId === user.id) return true;
+
+		switch (note.quotePolicy) {
+			case 'public':
+				return true;
+			case 'followers':
+				return await this.followingsRepository.exists({
+					where: {
+						followerId: user.id,
+						followeeId: note.userId,
+					},
+				});
+			default:
+				return false;
+		}
+	}
+
+	/**
+	 * ローカルの投稿を引用することを承認し、QuoteAuthorizationのURIを返す
+	 * @param note 引用されるローカルの投稿
+	 * @param user 引用している投稿の投稿者
+	 * @param quoteUri 引用している投稿のURI
+	 */
+	@bindThis
+	public async authorize(note: MiNote, user: { id: MiUser['id'] }, quoteUri: string): Promise<string> {
+		let authorization = await this.noteQuoteAuthorizationsRepository.findOneBy({
+			noteId: note.id,
+			quoteUri,
+		});
+
+		if (authorization == null) {
+			authorization = await this.noteQuoteAuthorizationsRepository.insertOne({
+				id: this.idService.gen(),
+				noteId: note.id,
+				userId: user.id,
+				quoteUri,
+			});
+		}
+
+		return `${this.config.url}/quote_authorizations/${authorization.id}`;
+	}
+
+	/**
+	 * QuoteAuthorizationのURIが、このサーバーがその引用について発行したものかどうか
+	 * @param uri QuoteAuthorizationのURI
+	 * @param note 引用されたローカルの投稿
+	 * @param quoteUri 引用している投稿のURI
+	 */
+	@bindThis
+	public async verifyAuthorization(uri: string | null | undefined, note: MiNote, quoteUri: string): Promise<boolean> {
+		const prefix = `${this.config.url}/quote_authorizations/`;
+		if (uri == null || !uri.startsWith(prefix)) return false;
+
+		return await this.noteQuoteAuthorizationsRepository.exists({
+			where: {
+				id: uri.slice(prefix.length),
+				noteId: note.id,
+				quoteUri,
+			},
+		});
+	}
+
+	/**
+	 * ローカルのユーザーが他人の投稿を引用したとき、引用の承認を記録する.
+	 * 引用先がローカルの投稿であればその場で承認し、リモートの投稿であれば相手のサーバーに承認を求める
+	 * @param note 引用している投稿
+	 * @param quoted 引用された投稿
+	 */
+	@bindThis
+	public async onQuoted(note: MiNote, quoted: MiNote, user: { id: MiLocalUser['id'] }): Promise<void> {
+		if (quoted.userId === user.id) return;
+
+		if (quoted.userHost === null) {
+			const uri = await this.authorize(quoted, user, `${this.config.url}/notes/${note.id}`);
+			note.quoteAuthorizationUri = uri;
+			await this.notesRepository.update(note.id, { quoteAuthorizationUri: uri });
+			return;
+		}
+
+		if (quoted.uri == null) return;
+
+		const quotedUser = await this.usersRepository.findOneBy({ id: quoted.userId });
+		if (quotedUser == null || !this.userEntityService.isRemoteUser(quotedUser)) return;
+
+		const content = this.apRendererService.addContext(this.apRendererService.renderQuoteRequest(note, quoted.uri));
+		this.queueService.deliver(user, content, quotedUser.inbox, false);
+	}
+}
@@ -0,0 +1,385 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import * as mfm from 'mfm-js';
+import { DataSource, In } from 'typeorm';
+import type { FindOptionsWhere } from 'typeorm';
+import { Inject, Injectable } from '@nestjs/common';
+import { extractCustomEmojisFromMfm } from '@/misc/extract-custom-emojis-from-mfm.js';
+import { extractHashtags } from '@/misc/extract-hashtags.js';
+import { MiNote } from '@/models/Note.js';
+import type { IMentionedRemoteUsers } from '@/models/Note.js';
+import type { MiMeta, NoteThreadMutingsRepository, UsersRepository } from '@/models/_.js';
+import type { MiDriveFile } from '@/models/DriveFile.js';
+import type { MiUser, MiLocalUser, MiRemoteUser } from '@/models/User.js';
+import type { IPoll } from '@/models/Poll.js';
+import { MiPoll } from '@/models/Poll.js';
+import { MiPollVote } from '@/models/PollVote.js';
+import { MiNoteHistory } from '@/models/NoteHistory.js';
+import { concat } from '@/misc/prelude/array.js';
+import { normalizeForSearch } from '@/misc/normalize-for-search.js';
+import { IdService } from '@/core/IdService.js';
+import { RelayService } from '@/core/RelayService.js';
+import { DI } from '@/di-symbols.js';
+import { GlobalEventService } from '@/core/GlobalEventService.js';
+import { HashtagService } from '@/core/HashtagService.js';
+import { QueueService } from '@/core/QueueService.js';
+import { UserEntityService } from '@/core/entities/UserEntityService.js';
+import { NoteEntityService } from '@/core/entities/NoteEntityService.js';
+import { ApRendererService } from '@/core/activitypub/ApRendererService.js';
+import { ApDeliverManagerService } from '@/core/activitypub/ApDeliverManagerService.js';
+import { NoteCreateService } from '@/core/NoteCreateService.js';
+import { SearchService } from '@/core/SearchService.js';
+import { UtilityService } from '@/core/UtilityService.js';
+import { NoteReadService } from '@/core/NoteReadService.js';
+import { NotificationService } from '@/core/NotificationService.js';
+import { UserWebhookService } from '@/core/UserWebhookService.js';
+import { RoleService } from '@/core/RoleService.js';
+import { bindThis } from '@/decorators.js';
+import { DB_MAX_NOTE_TEXT_LENGTH } from '@/const.js';
+import { isQuote, isRenote } from '@/misc/is-renote.js';
+import { trackPromise } from '@/misc/promise-tracker.js';
+import { IdentifiableError } from '@/misc/identifiable-error.js';
+
+type MinimumUser = {
+	id: MiUser['id'];
+	host: MiUser['host'];
+	username: MiUser['username'];
+	uri: MiUser['uri'];
+};
+
+type Option = {
+	text?: string | null;
+	cw?: string | null;
+	files?: MiDriveFile[] | null;
+	poll?: IPoll | null;
+	apMentions?: MinimumUser[] | null;
+	apHashtags?: string[] | null;
+	apEmojis?: string[] | null;
+	updatedAt?: Date | null;
+};
+
+@Injectable()
+export class NoteUpdateService {
+	constructor(
+		@Inject(DI.meta)
+		private meta: MiMeta,
+
+		@Inject(DI.db)
+		private db: DataSource,
+
+		@Inject(DI.usersRepository)
+		private usersRepository: UsersRepository,
+
+		@Inject(DI.noteThreadMutingsRepository)
+		private noteThreadMutingsRepository: NoteThreadMutingsRepository,
+
+		private userEntityService: UserEntityService,
+		private noteEntityService: NoteEntityService,
+		private idService: IdService,
+		private globalEventService: GlobalEventService,
+		private queueService: QueueService,
+		private relayService: RelayService,
+		private hashtagService: HashtagService,
+		private apRendererService: ApRendererService,
+		private apDeliverManagerService: ApDeliverManagerService,
+		private noteCreateService: NoteCreateService,
+		private searchService: SearchService,
+		private utilityService: UtilityService,
+		private noteReadService: NoteReadService,
+		private notificationService: NotificationService,
+		private webhookService: UserWebhookService,
+		private roleService: RoleService,
+	) {}
+
+	/**
+	 * 投稿を編集します。
+	 * 本文・CW・添付ファイル・アンケートを置き換え、編集前の内容を履歴として保存します。
+	 * 内容に変更が無ければ何もせずに元の投稿を返します。
+	 * @param user 投稿者
+	 * @param note 投稿
+	 * @param data 編集後の内容
+	 */
+	@bindThis
+	public async update(user: {
+		id: MiUser['id'];
+		username: MiUser['username'];
+		host: MiUser['host'];
+	}, note: MiNote, data: Option): Promise<MiNote> {
+		if (note.userId !== user.id) {
+			throw new Error('Note is not owned by the user');
+		}
+
+		if (isRenote(note) && !isQuote(note)) {
+			throw new IdentifiableError('ba29f7b2-1bad-4a59-8efc-0bb5a4c4b1b2', 'Cannot edit a pure renote');
+		}
+
+		const hasProhibitedWords = this.noteCreateService.checkProhibitedWordsContain({
+			cw: data.cw,
+			text: data.text,
+			pollChoices: data.poll?.choices,
+		}, this.meta.prohibitedWords);
+
+		if (hasProhibitedWords) {
+			throw new IdentifiableError('689ee33f-f97c-479a-ac49-1b9f8140af99', 'Note contains prohibited words');
+		}
+
+		let text: string | null = null;
+		if (data.text) {
+			text = data.text.length > DB_MAX_NOTE_TEXT_LENGTH ? data.text.slice(0, DB_MAX_NOTE_TEXT_LENGTH) : data.text;
+			text = text.trim();
+			if (text === '') text = null;
+		}
+		const cw = data.cw ?? null;
+		const files = data.files ?? [];
+		const poll = data.poll ?? null;
+
+		const oldPoll = note.hasPoll ? await this.db.getRepository(MiPoll).findOneBy({ noteId: note.id }) : null;
+
+		const pollChanged = (oldPoll == null) !== (poll == null) || (oldPoll != null && poll != null && (
+			oldPoll.multiple !== poll.multiple ||
+			oldPoll.choices.length !== poll.choices.length ||
+			oldPoll.choices.some((choice, i) => choice !== poll.choices[i])
+		));
+		const pollExpiresAtChanged = oldPoll != null && poll != null &&
+			(oldPoll.expiresAt?.getTime() ?? null) !== (poll.expiresAt?.getTime() ?? null);
+
+		const changed = note.text !== text ||
+			note.cw !== cw ||
+			note.fileIds.length !== files.length ||
+			note.fileIds.some((id, i) => id !== files[i].id) ||
+			pollChanged ||
+			pollExpiresAtChanged;
+
+		if (!changed) return note;
+
+		let tags = data.apHashtags;
+		let emojis = data.apEmojis;
+		let mentionedUsers = data.apMentions;
+
+		if (!tags || !emojis || !mentionedUsers) {
+			const tokens = text ? mfm.parse(text)! : [];
+			const cwTokens = cw ? mfm.parse(cw)! : [];
+			const choiceTokens = poll
+				? concat(poll.choices.map(choice => mfm.parse(choice)!))
+				: [];
+
+			const combinedTokens = tokens.concat(cwTokens).concat(choiceTokens);
+
+			tags = data.apHashtags ?? extractHashtags(combinedTokens);
+			emojis = data.apEmojis ?? extractCustomEmojisFromMfm(combinedTokens);
+			mentionedUsers = data.apMentions ?? await this.noteCreateService.extractMentionedUsers(user, combinedTokens);
+		}
+
+		// if the host is media-silenced, custom emojis are not allowed
+		if (this.utilityService.isMediaSilencedHost(this.meta.mediaSilencedHosts, user.host)) emojis = [];
+
+		tags = tags.filter(tag => Array.from(tag).length <= 128).splice(0, 32).map(tag => normalizeForSearch(tag));
+
+		// 返信先や指名した宛先は本文から消えてもメンションとして残す
+		if (note.replyUserId != null && note.replyUserId !== user.id && !mentionedUsers.some(u => u.id === note.replyUserId)) {
+			mentionedUsers.push(await this.usersRepository.findOneByOrFail({ id: note.replyUserId }));
+		}
+
+		if (note.visibility === 'specified' && note.visibleUserIds.length > 0) {
+			for (const u of await this.usersRepository.findBy({ id: In(note.visibleUserIds) })) {
+				if (!mentionedUsers.some(x => x.id === u.id)) {
+					mentionedUsers.push(u);
+				}
+			}
+		}
+
+		if (mentionedUsers.length > 0 && mentionedUsers.length > (await this.roleService.getUserPolicies(user.id)).mentionLimit) {
+			throw new IdentifiableError('9f466dab-c856-48cd-9e65-ff90ff750580', 'Note contains too many mentions');
+		}
+
+		const updatedAt = data.updatedAt ?? new Date();
+
+		const values = {
+			text,
+			cw,
+			fileIds: files.map(file => file.id),
+			attachedFileTypes: files.map(file => file.type),
+			hasPoll: poll != null,
+			mentions: mentionedUsers.map(u => u.id),
+			mentionedRemoteUsers: mentionedUsers.length > 0 ? await this.noteCreateService.renderMentionedRemoteUsers(mentionedUsers) : '[]',
+			tags,
+			emojis,
+			updatedAt,
+		} satisfies Partial<MiNote>;
+
+		await this.db.transaction(async transactionalEntityManager => {
+			await transactionalEntityManager.insert(MiNoteHistory, new MiNoteHistory({
+				// 編集前の内容が書かれた日時をIDにする
+				id: this.idService.gen((note.updatedAt ?? this.idService.parse(note.id).date).getTime()),
+				noteId: note.id,
+				text: note.text,
+				cw: note.cw,
+				fileIds: note.fileIds,
+				poll: oldPoll ? {
+					choices: oldPoll.choices,
+					multiple: oldPoll.multiple,
+					expiresAt: oldPoll.expiresAt?.toISOString() ?? null,
+				} : null,
+			}));
+
+			if (pollChanged) {
+				// 選択肢が変わった場合は投票をリセットする
+				if (oldPoll) {
+					await transactionalEntityManager.delete(MiPollVote, { noteId: note.id });
+					await transactionalEntityManager.delete(MiPoll, { noteId: note.id });
+				}
+
+				if (poll) {
+					await transactionalEntityManager.insert(MiPoll, new MiPoll({
+						noteId: note.id,
+						choices: poll.choices,
+						expiresAt: poll.expiresAt,
+						multiple: poll.multiple,
+						votes: poll.votes ?? new Array(poll.choices.length).fill(0),
+						noteVisibility: note.visibility,
+						userId: note.userId,
+						userHost: note.userHost,
+						channelId: note.channelId,
+					}));
+				}
+			} else if (pollExpiresAtChanged) {
+				await transactionalEntityManager.update(MiPoll, { noteId: note.id }, {
+					expiresAt: poll!.expiresAt,
+				});
+			}
+
+			await transactionalEntityManager.update(MiNote, { id: note.id }, values);
+		});
+
+		const updated = new MiNote({ ...note, ...values });
+
+		if ((pollChanged || pollExpiresAtChanged) && poll?.expiresAt) {
+			const delay = Math.max(0, poll.expiresAt.getTime() - Date.now());
+			this.queueService.endedPollNotificationQueue.add(note.id, {
+				noteId: note.id,
+			}, {
+				delay,
+				removeOnComplete: true,
+			});
+		}
+
+		this.globalEventService.publishNoteStream(note.id, 'updated', {
+			updatedAt,
+		});
+
+		// 編集で新たにメンションされたユーザーに通知
+		const newlyMentionedUsers = mentionedUsers.filter(u => !note.mentions.includes(u.id));
+		if (newlyMentionedUsers.length > 0) {
+			trackPromise(this.createMentionedEvents(newlyMentionedUsers, updated));
+		}
+
+		// ハッシュタグ更新
+		if (note.visibility === 'public' || note.visibility === 'home') {
+			this.hashtagService.updateHashtags(user, tags.filter(tag => !note.tags.includes(tag)));
+		}
+
+		if (updated.text == null && updated.cw == null) {
+			this.searchService.unindexNote(updated);
+		} else {
+			this.searchService.indexNote(updated);
+		}
+
+		//#region AP deliver
+		if (this.userEntityService.isLocalUser(user) && !note.localOnly) {
+			trackPromise(this.deliverUpdate(user, updated));
+		}
+		//#endregion
+
+		return updated;
+	}
+
+	@bindThis
+	private async createMentionedEvents(mentionedUsers: MinimumUser[], note: MiNote) {
+		for (const u of mentionedUsers.filter(u => this.userEntityService.isLocalUser(u))) {
+			// 自分自身へは通知しない
+			if (u.id === note.userId) continue;
+
+			const isThreadMuted = await this.noteThreadMutingsRepository.exists({
+				where: {
+					userId: u.id,
+					threadId: note.threadId ?? note.id,
+				},
+			});
+
+			if (isThreadMuted) {
+				continue;
+			}
+
+			if (note.visibility !== 'specified') {
+				this.noteReadService.insertNoteUnread(u.id, note, {
+					isSpecified: false,
+					isMentioned: true,
+				});
+			}
+
+			const detailPackedNote = await this.noteEntityService.pack(note, u, {
+				detail: true,
+			});
+
+			this.globalEventService.publishMainStream(u.id, 'mention', detailPackedNote);
+			this.webhookService.enqueueUserWebhook(u.id, 'mention', { note: detailPackedNote });
+			this.notificationService.createNotification(u.id, 'mention', {
+				noteId: note.id,
+			}, note.userId);
+		}
+	}
+
+	@bindThis
+	public async deliverUpdate(user: { id: MiLocalUser['id']; host: null; }, note: MiNote) {
+		const object = await this.apRendererService.renderNote(note, false);
+		const content = this.apRendererService.addContext({
+			...this.apRendererService.renderUpdate(object, user),
+			// 公開範囲は投稿に合わせる
+			to: object.to,
+			cc: object.cc,
+		});
+		const dm = this.apDeliverManagerService.createDeliverManager(user, content);
+
+		// メンション・リプライ・引用先のリモートユーザーに配送
+		for (const u of await this.getConcernedRemoteUsers(note)) {
+			dm.addDirectRecipe(u);
+		}
+
+		// フォロワーに配送
+		if (['public', 'home', 'followers'].includes(note.visibility)) {
+			dm.addFollowersRecipe();
+		}
+
+		if (['public'].includes(note.visibility)) {
+			this.relayService.deliverToRelays(user, content);
+		}
+
+		await dm.execute();
+	}
+
+	@bindThis
+	private async getConcernedRemoteUsers(note: MiNote): Promise<MiRemoteUser[]> {
+		const where: FindOptionsWhere<MiUser>[] = [];
+
+		const uris = (JSON.parse(note.mentionedRemoteUsers) as IMentionedRemoteUsers).map(x => x.uri);
+		if (uris.length > 0) {
+			where.push({ uri: In(uris) });
+		}
+
+		if (note.replyUserHost != null && note.replyUserId != null) {
+			where.push({ id: note.replyUserId });
+		}
+
+		if (note.renoteUserHost != null && note.renoteUserId != null) {
+			where.push({ id: note.renoteUserId });
+		}
+
+		if (where.length === 0) return [];
+
+		const users = await this.usersRepository.find({ where });
+		return users.filter(u => this.userEntityService.isRemoteUser(u)) as MiRemoteUser[];
+	}
+}
@@ -19,6 +19,7 @@ import { IdService } from '@/core/IdService.js';
 import { CacheService } from '@/core/CacheService.js';
 import type { Config } from '@/config.js';
 import { UserListService } from '@/core/UserListService.js';
+import { UserWebhookService } from '@/core/UserWebhookService.js';
 import type { FilterUnionByProperty } from '@/types.js';
 import { trackPromise } from '@/misc/promise-tracker.js';
 
@@ -42,6 +43,7 @@ export class NotificationService implements OnApplicationShutdown {
 		private pushNotificationService: PushNotificationService,
 		private cacheService: CacheService,
 		private userListService: UserListService,
+		private webhookService: UserWebhookService,
 	) {
 	}
 
@@ -167,6 +169,7 @@ export class NotificationService implements OnApplicationShutdown {
 
 		// Publish notification event
 		this.globalEventService.publishMainStream(notifieeId, 'notification', packed);
+		this.webhookService.enqueueUserWebhook(notifieeId, 'notification', { notification: packed });
 
 		// 2秒経っても(今回作成した)通知が既読にならなかったら「未読の通知がありますよ」イベントを発行する
 		// テスト通知の場合は即時発行
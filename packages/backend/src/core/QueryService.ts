@@ -196,6 +196,8 @@ export class QueryService {
 					.where('note.visibility = \'public\'')
 					.orWhere('note.visibility = \'home\'');
 			}));
+			// モデレーターによって非表示にされていない
+			q.andWhere('note.isHiddenByModerator = FALSE');
 		} else {
 			const followingQuery = this.followingsRepository.createQueryBuilder('following')
 				.select('following.followeeId')
@@ -228,6 +230,9 @@ export class QueryService {
 					}));
 			}));
 
+			// モデレーターによって非表示にされていない、または自分自身
+			q.andWhere('(note.isHiddenByModerator = FALSE OR note.userId = :meId)');
+
 			q.setParameters({ meId: me.id, meIdAsList: [me.id] });
 		}
 	}
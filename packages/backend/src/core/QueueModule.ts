@@ -12,6 +12,7 @@ import { allSettled } from '@/misc/promise-tracker.js';
 import {
 	DeliverJobData,
 	EndedPollNotificationJobData,
+	ScheduledNotePublishJobData,
 	InboxJobData,
 	RelationshipJobData,
 	UserWebhookDeliverJobData,
@@ -21,6 +22,7 @@ import type { Provider } from '@nestjs/common';
 
 export type SystemQueue = Bull.Queue<Record<string, unknown>>;
 export type EndedPollNotificationQueue = Bull.Queue<EndedPollNotificationJobData>;
+export type ScheduledNotePublishQueue = Bull.Queue<ScheduledNotePublishJobData>;
 export type DeliverQueue = Bull.Queue<DeliverJobData>;
 export type InboxQueue = Bull.Queue<InboxJobData>;
 export type DbQueue = Bull.Queue;
@@ -41,6 +43,12 @@ const $endedPollNotification: Provider = {
 	inject: [DI.config],
 };
 
+const $scheduledNotePublish: Provider = {
+	provide: 'queue:scheduledNotePublish',
+	useFactory: (config: Config) => new Bull.Queue(QUEUE.SCHEDULED_NOTE_PUBLISH, baseQueueOptions(config, QUEUE.SCHEDULED_NOTE_PUBLISH)),
+	inject: [DI.config],
+};
+
 const $deliver: Provider = {
 	provide: 'queue:deliver',
 	useFactory: (config: Config) => new Bull.Queue(QUEUE.DELIVER, baseQueueOptions(config, QUEUE.DELIVER)),
@@ -89,6 +97,7 @@ const $systemWebhookDeliver: Provider = {
 	providers: [
 		$system,
 		$endedPollNotification,
+		$scheduledNotePublish,
 		$deliver,
 		$inbox,
 		$db,
@@ -100,6 +109,7 @@ const $systemWebhookDeliver: Provider = {
 	exports: [
 		$system,
 		$endedPollNotification,
+		$scheduledNotePublish,
 		$deliver,
 		$inbox,
 		$db,
@@ -113,6 +123,7 @@ export class QueueModule implements OnApplicationShutdown {
 	constructor(
 		@Inject('queue:system') public systemQueue: SystemQueue,
 		@Inject('queue:endedPollNotification') public endedPollNotificationQueue: EndedPollNotificationQueue,
+		@Inject('queue:scheduledNotePublish') public scheduledNotePublishQueue: ScheduledNotePublishQueue,
 		@Inject('queue:deliver') public deliverQueue: DeliverQueue,
 		@Inject('queue:inbox') public inboxQueue: InboxQueue,
 		@Inject('queue:db') public dbQueue: DbQueue,
@@ -129,6 +140,7 @@ export class QueueModule implements OnApplicationShutdown {
 		await Promise.all([
 			this.systemQueue.close(),
 			this.endedPollNotificationQueue.close(),
+			this.scheduledNotePublishQueue.close(),
 			this.deliverQueue.close(),
 			this.inboxQueue.close(),
 			this.dbQueue.close(),
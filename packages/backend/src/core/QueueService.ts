@@ -5,8 +5,9 @@
 
 import { randomUUID } from 'node:crypto';
 import { Inject, Injectable } from '@nestjs/common';
-import type { IActivity } from '@/core/activitypub/type.js';
+import type { IActivity, IFlag } from '@/core/activitypub/type.js';
 import type { MiDriveFile } from '@/models/DriveFile.js';
+import type { MiNote } from '@/models/Note.js';
 import type { MiWebhook, WebhookEventTypes } from '@/models/Webhook.js';
 import type { MiSystemWebhook, SystemWebhookEventType } from '@/models/SystemWebhook.js';
 import type { Config } from '@/config.js';
@@ -31,11 +32,12 @@ import type {
 	InboxQueue,
 	ObjectStorageQueue,
 	RelationshipQueue,
+	ScheduledNotePublishQueue,
 	SystemQueue,
 	SystemWebhookDeliverQueue,
 	UserWebhookDeliverQueue,
 } from './QueueModule.js';
-import type httpSignature from '@peertube/http-signature';
+import type { ParsedHttpSignature } from '@/core/activitypub/misc/http-message-signature.js';
 import type * as Bull from 'bullmq';
 
 @Injectable()
@@ -46,6 +48,7 @@ export class QueueService {
 
 		@Inject('queue:system') public systemQueue: SystemQueue,
 		@Inject('queue:endedPollNotification') public endedPollNotificationQueue: EndedPollNotificationQueue,
+		@Inject('queue:scheduledNotePublish') public scheduledNotePublishQueue: ScheduledNotePublishQueue,
 		@Inject('queue:deliver') public deliverQueue: DeliverQueue,
 		@Inject('queue:inbox') public inboxQueue: InboxQueue,
 		@Inject('queue:db') public dbQueue: DbQueue,
@@ -90,6 +93,12 @@ export class QueueService {
 			removeOnComplete: true,
 		});
 
+		this.systemQueue.add('checkExpiredSuspensions', {
+		}, {
+			repeat: { pattern: '*/5 * * * *' },
+			removeOnComplete: true,
+		});
+
 		this.systemQueue.add('bakeBufferedReactions', {
 		}, {
 			repeat: { pattern: '0 0 * * *' },
@@ -102,10 +111,17 @@ export class QueueService {
 			repeat: { pattern: '30 * * * *' },
 			removeOnComplete: true,
 		});
+
+		this.systemQueue.add('refreshBlocklistSubscriptions', {
+		}, {
+			// 6時間ごと(45分)に起動
+			repeat: { pattern: '45 */6 * * *' },
+			removeOnComplete: true,
+		});
 	}
 
 	@bindThis
-	public deliver(user: ThinUser, content: IActivity | null, to: string | null, isSharedInbox: boolean) {
+	public deliver(user: ThinUser, content: IActivity | IFlag | null, to: string | null, isSharedInbox: boolean, opts?: { abuseReportId?: DeliverJobData['abuseReportId'] }) {
 		if (content == null) return null;
 		if (to == null) return null;
 
@@ -120,6 +136,7 @@ export class QueueService {
 			digest,
 			to,
 			isSharedInbox,
+			abuseReportId: opts?.abuseReportId,
 		};
 
 		return this.deliverQueue.add(to, data, {
@@ -170,7 +187,7 @@ export class QueueService {
 	}
 
 	@bindThis
-	public inbox(activity: IActivity, signature: httpSignature.IParsedSignature) {
+	public inbox(activity: IActivity, signature: ParsedHttpSignature) {
 		const data = {
 			activity: activity,
 			signature,
@@ -350,6 +367,18 @@ export class QueueService {
 		};
 	}
 
+	@bindThis
+	public createImportNotesJob(user: ThinUser, fileId: MiDriveFile['id'], type: 'Misskey' | 'Mastodon') {
+		return this.dbQueue.add('importNotes', {
+			user: { id: user.id },
+			fileId: fileId,
+			type,
+		}, {
+			removeOnComplete: true,
+			removeOnFail: true,
+		});
+	}
+
 	@bindThis
 	public createImportUserListsJob(user: ThinUser, fileId: MiDriveFile['id']) {
 		return this.dbQueue.add('importUserLists', {
@@ -383,6 +412,34 @@ export class QueueService {
 		});
 	}
 
+	@bindThis
+	public createRebuildSearchIndexJob() {
+		return this.dbQueue.add('rebuildSearchIndex', {}, {
+			removeOnComplete: true,
+			removeOnFail: true,
+		});
+	}
+
+	@bindThis
+	public createBackfillUserNotesJob(user: ThinUser) {
+		return this.dbQueue.add('backfillUserNotes', {
+			user: { id: user.id },
+		}, {
+			removeOnComplete: true,
+			removeOnFail: true,
+		});
+	}
+
+	@bindThis
+	public createBackfillRepliesJob(note: { id: MiNote['id'] }) {
+		return this.dbQueue.add('backfillReplies', {
+			noteId: note.id,
+		}, {
+			removeOnComplete: true,
+			removeOnFail: true,
+		});
+	}
+
 	@bindThis
 	public createDeleteAccountJob(user: ThinUser, opts: { soft?: boolean; } = {}) {
 		return this.dbQueue.add('deleteAccount', {
@@ -474,7 +531,7 @@ export class QueueService {
 		webhook: MiWebhook,
 		type: T,
 		content: UserWebhookPayload<T>,
-		opts?: { attempts?: number },
+		opts?: { attempts?: number; eventId?: string; createdAt?: number },
 	) {
 		const data: UserWebhookDeliverJobData = {
 			type,
@@ -483,8 +540,9 @@ export class QueueService {
 			userId: webhook.userId,
 			to: webhook.url,
 			secret: webhook.secret,
-			createdAt: Date.now(),
-			eventId: randomUUID(),
+			// 再送の場合は元のイベントと同じ値を使う
+			createdAt: opts?.createdAt ?? Date.now(),
+			eventId: opts?.eventId ?? randomUUID(),
 		};
 
 		return this.userWebhookDeliverQueue.add(webhook.id, data, {
@@ -506,7 +564,7 @@ export class QueueService {
 		webhook: MiSystemWebhook,
 		type: T,
 		content: SystemWebhookPayload<T>,
-		opts?: { attempts?: number },
+		opts?: { attempts?: number; eventId?: string; createdAt?: number },
 	) {
 		const data: SystemWebhookDeliverJobData = {
 			type,
@@ -514,8 +572,9 @@ export class QueueService {
 			webhookId: webhook.id,
 			to: webhook.url,
 			secret: webhook.secret,
-			createdAt: Date.now(),
-			eventId: randomUUID(),
+			// 再送の場合は元のイベントと同じ値を使う
+			createdAt: opts?.createdAt ?? Date.now(),
+			eventId: opts?.eventId ?? randomUUID(),
 		};
 
 		return this.systemWebhookDeliverQueue.add(webhook.id, data, {
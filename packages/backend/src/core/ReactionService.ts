@@ -20,6 +20,7 @@ import { ApDeliverManagerService } from '@/core/activitypub/ApDeliverManagerServ
 import { NoteEntityService } from '@/core/entities/NoteEntityService.js';
 import { UserEntityService } from '@/core/entities/UserEntityService.js';
 import { ApRendererService } from '@/core/activitypub/ApRendererService.js';
+import { EMOJI_REACT_SOFTWARE_NAMES } from '@/core/activitypub/misc/reaction.js';
 import { bindThis } from '@/decorators.js';
 import { UtilityService } from '@/core/UtilityService.js';
 import { UserBlockingService } from '@/core/UserBlockingService.js';
@@ -266,6 +267,9 @@ export class ReactionService {
 		if (this.userEntityService.isLocalUser(user) && !note.localOnly) {
 			const content = this.apRendererService.addContext(await this.apRendererService.renderLike(record, note));
 			const dm = this.apDeliverManagerService.createDeliverManager(user, content);
+			if (reaction !== FALLBACK) {
+				dm.addActivityVariant(EMOJI_REACT_SOFTWARE_NAMES, this.apRendererService.addContext(await this.apRendererService.renderEmojiReact(record, note)));
+			}
 			if (note.userHost !== null) {
 				const reactee = await this.usersRepository.findOneBy({ id: note.userId });
 				dm.addDirectRecipe(reactee as MiRemoteUser);
@@ -327,6 +331,9 @@ export class ReactionService {
 		if (this.userEntityService.isLocalUser(user) && !note.localOnly) {
 			const content = this.apRendererService.addContext(this.apRendererService.renderUndo(await this.apRendererService.renderLike(exist, note), user));
 			const dm = this.apDeliverManagerService.createDeliverManager(user, content);
+			if (exist.reaction !== FALLBACK) {
+				dm.addActivityVariant(EMOJI_REACT_SOFTWARE_NAMES, this.apRendererService.addContext(this.apRendererService.renderUndo(await this.apRendererService.renderEmojiReact(exist, note), user)));
+			}
 			if (note.userHost !== null) {
 				const reactee = await this.usersRepository.findOneBy({ id: note.userId });
 				dm.addDirectRecipe(reactee as MiRemoteUser);
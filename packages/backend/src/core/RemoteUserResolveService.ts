@@ -4,7 +4,8 @@
  */
 
 import { URL } from 'node:url';
-import { Inject, Injectable } from '@nestjs/common';
+import { Inject, Injectable, OnModuleInit } from '@nestjs/common';
+import { ModuleRef } from '@nestjs/core';
 import chalk from 'chalk';
 import { IsNull } from 'typeorm';
 import { DI } from '@/di-symbols.js';
@@ -18,12 +19,16 @@ import { RemoteLoggerService } from '@/core/RemoteLoggerService.js';
 import { ApDbResolverService } from '@/core/activitypub/ApDbResolverService.js';
 import { ApPersonService } from '@/core/activitypub/models/ApPersonService.js';
 import { bindThis } from '@/decorators.js';
+import type { ApBackfillService } from '@/core/activitypub/ApBackfillService.js';
 
 @Injectable()
-export class RemoteUserResolveService {
+export class RemoteUserResolveService implements OnModuleInit {
 	private logger: Logger;
+	private apBackfillService: ApBackfillService;
 
 	constructor(
+		private moduleRef: ModuleRef,
+
 		@Inject(DI.config)
 		private config: Config,
 
@@ -39,6 +44,10 @@ export class RemoteUserResolveService {
 		this.logger = this.remoteLoggerService.logger.createSubLogger('resolve-user');
 	}
 
+	onModuleInit() {
+		this.apBackfillService = this.moduleRef.get('ApBackfillService');
+	}
+
 	@bindThis
 	public async resolveUser(username: string, host: string | null): Promise<MiLocalUser | MiRemoteUser> {
 		const usernameLower = username.toLowerCase();
@@ -91,7 +100,14 @@ export class RemoteUserResolveService {
 			}
 
 			this.logger.succ(`return new remote user: ${chalk.magenta(acctLower)}`);
-			return await this.apPersonService.createPerson(self.href);
+			const created = await this.apPersonService.createPerson(self.href);
+
+			// 初めて取得したユーザーのプロフィールが空にならないよう、最近の投稿を取り込んでおく
+			await this.apBackfillService.scheduleUserNotesBackfill(created).catch(err => {
+				this.logger.warn(`Failed to schedule backfill of ${acctLower}: ${err}`);
+			});
+
+			return created;
 		}
 
 		// ユーザー情報が古い場合は、WebFingerからやりなおして返す
@@ -17,6 +17,8 @@ import type {
 } from '@/models/_.js';
 import { MemoryKVCache, MemorySingleCache } from '@/misc/cache.js';
 import type { MiUser } from '@/models/User.js';
+import type { MiUserProfile } from '@/models/UserProfile.js';
+import type { MiInstance } from '@/models/Instance.js';
 import { DI } from '@/di-symbols.js';
 import { bindThis } from '@/decorators.js';
 import { CacheService } from '@/core/CacheService.js';
@@ -29,6 +31,7 @@ import { ModerationLogService } from '@/core/ModerationLogService.js';
 import type { Packed } from '@/misc/json-schema.js';
 import { FanoutTimelineService } from '@/core/FanoutTimelineService.js';
 import { NotificationService } from '@/core/NotificationService.js';
+import { FederatedInstanceService } from '@/core/FederatedInstanceService.js';
 import type { OnApplicationShutdown, OnModuleInit } from '@nestjs/common';
 
 export type RolePolicies = {
@@ -62,7 +65,11 @@ export type RolePolicies = {
 	canImportBlocking: boolean;
 	canImportFollowing: boolean;
 	canImportMuting: boolean;
+	canImportNotes: boolean;
 	canImportUserLists: boolean;
+	canChat: boolean;
+	chatRoomLimit: number;
+	chatRoomMemberLimit: number;
 };
 
 export const DEFAULT_POLICIES: RolePolicies = {
@@ -96,9 +103,23 @@ export const DEFAULT_POLICIES: RolePolicies = {
 	canImportBlocking: true,
 	canImportFollowing: true,
 	canImportMuting: true,
+	canImportNotes: true,
 	canImportUserLists: true,
+	canChat: true,
+	chatRoomLimit: 10,
+	chatRoomMemberLimit: 30,
 };
 
+/**
+ * ユーザー以外に条件の評価に必要な情報. 条件式で使われている場合のみ取得する
+ */
+type RoleCondContext = {
+	profile: MiUserProfile | null;
+	instance: MiInstance | null;
+};
+
+const PROFILE_COND_TYPES: RoleCondFormulaValue['type'][] = ['emailDomainMatches', 'loggedInStreakMoreThanOrEq', 'hasAchievement', 'isTwoFactorEnabled'];
+
 @Injectable()
 export class RoleService implements OnApplicationShutdown, OnModuleInit {
 	private rootUserIdCache: MemorySingleCache<MiUser['id']>;
@@ -136,6 +157,7 @@ export class RoleService implements OnApplicationShutdown, OnModuleInit {
 		private idService: IdService,
 		private moderationLogService: ModerationLogService,
 		private fanoutTimelineService: FanoutTimelineService,
+		private federatedInstanceService: FederatedInstanceService,
 	) {
 		this.rootUserIdCache = new MemorySingleCache<MiUser['id']>(1000 * 60 * 60 * 24 * 7); // 1week. rootユーザのIDは不変なので長めに
 		this.rolesCache = new MemorySingleCache<MiRole[]>(1000 * 60 * 60); // 1h
@@ -213,20 +235,68 @@ export class RoleService implements OnApplicationShutdown, OnModuleInit {
 	}
 
 	@bindThis
-	private evalCond(user: MiUser, roles: MiRole[], value: RoleCondFormulaValue): boolean {
+	private async fetchCondContext(user: MiUser, formulas: RoleCondFormulaValue[]): Promise<RoleCondContext> {
+		const types = new Set<RoleCondFormulaValue['type']>();
+		const collect = (value: RoleCondFormulaValue) => {
+			types.add(value.type);
+			if (value.type === 'and' || value.type === 'or') value.values.forEach(collect);
+			if (value.type === 'not') collect(value.value);
+		};
+		formulas.forEach(collect);
+
+		const host = user.host;
+		const [profile, instance] = await Promise.all([
+			PROFILE_COND_TYPES.some(t => types.has(t)) ? this.cacheService.userProfileCache.fetch(user.id) : null,
+			host != null && types.has('isFromNotRespondingInstance') ? this.federatedInstanceService.fetch(host) : null,
+		]);
+
+		return { profile, instance };
+	}
+
+	/**
+	 * `*` をワイルドカードとして、大文字小文字を区別せずに比較する
+	 */
+	@bindThis
+	private matchWildcard(pattern: string, target: string): boolean {
+		const source = pattern.trim().toLowerCase().split('*').map(x => x.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+		return new RegExp(`^${source}$`).test(target.toLowerCase());
+	}
+
+	/**
+	 * 今日 (まだログインしていなければ昨日) まで何日連続でログインしているか
+	 */
+	@bindThis
+	private calcLoggedInStreak(loggedInDates: string[]): number {
+		const dates = new Set(loggedInDates);
+		const toKey = (date: Date) => `${date.getFullYear()}/${date.getMonth() + 1}/${date.getDate()}`;
+
+		const date = new Date();
+		if (!dates.has(toKey(date))) date.setDate(date.getDate() - 1);
+
+		let streak = 0;
+		while (dates.has(toKey(date))) {
+			streak++;
+			date.setDate(date.getDate() - 1);
+		}
+
+		return streak;
+	}
+
+	@bindThis
+	private evalCond(user: MiUser, roles: MiRole[], value: RoleCondFormulaValue, context: RoleCondContext): boolean {
 		try {
 			switch (value.type) {
 				// ～かつ～
 				case 'and': {
-					return value.values.every(v => this.evalCond(user, roles, v));
+					return value.values.every(v => this.evalCond(user, roles, v, context));
 				}
 				// ～または～
 				case 'or': {
-					return value.values.some(v => this.evalCond(user, roles, v));
+					return value.values.some(v => this.evalCond(user, roles, v, context));
 				}
 				// ～ではない
 				case 'not': {
-					return !this.evalCond(user, roles, value.value);
+					return !this.evalCond(user, roles, value.value, context);
 				}
 				// マニュアルロールがアサインされている
 				case 'roleAssignedTo': {
@@ -292,6 +362,39 @@ export class RoleService implements OnApplicationShutdown, OnModuleInit {
 				case 'notesMoreThanOrEq': {
 					return user.notesCount >= value.value;
 				}
+				// リモートユーザーのサーバーのホストが一致
+				case 'hostMatches': {
+					return user.host != null && this.matchWildcard(value.host, user.host);
+				}
+				// 確認済みのメールアドレスのドメインが一致
+				case 'emailDomainMatches': {
+					const email = context.profile?.emailVerified ? context.profile.email : null;
+					return email != null && this.matchWildcard(value.domain, email.split('@').at(-1)!);
+				}
+				// 連続ログイン日数が指定値以上
+				case 'loggedInStreakMoreThanOrEq': {
+					return context.profile != null && this.calcLoggedInStreak(context.profile.loggedInDates) >= value.value;
+				}
+				// 実績を獲得している
+				case 'hasAchievement': {
+					return context.profile?.achievements.some(a => a.name === value.achievement) ?? false;
+				}
+				// 二段階認証が有効
+				case 'isTwoFactorEnabled': {
+					return context.profile?.twoFactorEnabled ?? false;
+				}
+				// 応答していないサーバーのユーザー
+				case 'isFromNotRespondingInstance': {
+					return context.instance?.isNotResponding ?? false;
+				}
+				// 最終アクティブから指定期間経っていない
+				case 'lastActiveLessThan': {
+					return user.lastActiveDate != null && new Date(user.lastActiveDate).getTime() > (Date.now() - (value.sec * 1000));
+				}
+				// 最終アクティブから指定期間経過した
+				case 'lastActiveMoreThan': {
+					return user.lastActiveDate == null || new Date(user.lastActiveDate).getTime() < (Date.now() - (value.sec * 1000));
+				}
 				default:
 					return false;
 			}
@@ -321,8 +424,10 @@ export class RoleService implements OnApplicationShutdown, OnModuleInit {
 		const roles = await this.rolesCache.fetch(() => this.rolesRepository.findBy({}));
 		const assigns = await this.getUserAssigns(userId);
 		const assignedRoles = roles.filter(r => assigns.map(x => x.roleId).includes(r.id));
-		const user = roles.some(r => r.target === 'conditional') ? await this.cacheService.findUserById(userId) : null;
-		const matchedCondRoles = roles.filter(r => r.target === 'conditional' && this.evalCond(user!, assignedRoles, r.condFormula));
+		const condRoles = roles.filter(r => r.target === 'conditional');
+		const user = condRoles.length > 0 ? await this.cacheService.findUserById(userId) : null;
+		const context = user != null ? await this.fetchCondContext(user, condRoles.map(r => r.condFormula)) : null;
+		const matchedCondRoles = condRoles.filter(r => this.evalCond(user!, assignedRoles, r.condFormula, context!));
 		return [...assignedRoles, ...matchedCondRoles];
 	}
 
@@ -341,7 +446,8 @@ export class RoleService implements OnApplicationShutdown, OnModuleInit {
 		const badgeCondRoles = roles.filter(r => r.asBadge && (r.target === 'conditional'));
 		if (badgeCondRoles.length > 0) {
 			const user = roles.some(r => r.target === 'conditional') ? await this.cacheService.findUserById(userId) : null;
-			const matchedBadgeCondRoles = badgeCondRoles.filter(r => this.evalCond(user!, assignedRoles, r.condFormula));
+			const context = await this.fetchCondContext(user!, badgeCondRoles.map(r => r.condFormula));
+			const matchedBadgeCondRoles = badgeCondRoles.filter(r => this.evalCond(user!, assignedRoles, r.condFormula, context));
 			return [...assignedBadgeRoles, ...matchedBadgeCondRoles];
 		} else {
 			return assignedBadgeRoles;
@@ -401,7 +507,11 @@ export class RoleService implements OnApplicationShutdown, OnModuleInit {
 			canImportBlocking: calc('canImportBlocking', vs => vs.some(v => v === true)),
 			canImportFollowing: calc('canImportFollowing', vs => vs.some(v => v === true)),
 			canImportMuting: calc('canImportMuting', vs => vs.some(v => v === true)),
+			canImportNotes: calc('canImportNotes', vs => vs.some(v => v === true)),
 			canImportUserLists: calc('canImportUserLists', vs => vs.some(v => v === true)),
+			canChat: calc('canChat', vs => vs.some(v => v === true)),
+			chatRoomLimit: calc('chatRoomLimit', vs => Math.max(...vs)),
+			chatRoomMemberLimit: calc('chatRoomMemberLimit', vs => Math.max(...vs)),
 		};
 	}
 
@@ -4,305 +4,141 @@
  */
 
 import { Inject, Injectable } from '@nestjs/common';
-import { In } from 'typeorm';
+import { IsNull } from 'typeorm';
+import { searchQuery } from 'misskey-js';
 import { DI } from '@/di-symbols.js';
-import { type Config, FulltextSearchProvider } from '@/config.js';
+import type { Config, FulltextSearchProvider } from '@/config.js';
 import { bindThis } from '@/decorators.js';
 import { MiNote } from '@/models/Note.js';
-import type { NotesRepository } from '@/models/_.js';
 import { MiUser } from '@/models/_.js';
-import { sqlLikeEscape } from '@/misc/sql-like-escape.js';
-import { isUserRelated } from '@/misc/is-user-related.js';
-import { CacheService } from '@/core/CacheService.js';
-import { QueryService } from '@/core/QueryService.js';
-import { IdService } from '@/core/IdService.js';
+import type { UsersRepository } from '@/models/_.js';
 import { LoggerService } from '@/core/LoggerService.js';
-import type { Index, MeiliSearch } from 'meilisearch';
+import { UtilityService } from '@/core/UtilityService.js';
+import { SqlLikeNoteSearchProvider } from '@/core/search/SqlLikeNoteSearchProvider.js';
+import { SqlTsvectorNoteSearchProvider } from '@/core/search/SqlTsvectorNoteSearchProvider.js';
+import { MeilisearchNoteSearchProvider } from '@/core/search/MeilisearchNoteSearchProvider.js';
+import { OpenSearchNoteSearchProvider } from '@/core/search/OpenSearchNoteSearchProvider.js';
+import type { NoteSearchProvider, SearchOpts, SearchPagination } from '@/core/search/NoteSearchProvider.js';
 
-type K = string;
-type V = string | number | boolean;
-type Q =
-	{ op: '=', k: K, v: V } |
-	{ op: '!=', k: K, v: V } |
-	{ op: '>', k: K, v: number } |
-	{ op: '<', k: K, v: number } |
-	{ op: '>=', k: K, v: number } |
-	{ op: '<=', k: K, v: number } |
-	{ op: 'is null', k: K } |
-	{ op: 'is not null', k: K } |
-	{ op: 'and', qs: Q[] } |
-	{ op: 'or', qs: Q[] } |
-	{ op: 'not', q: Q };
-
-export type SearchOpts = {
-	userId?: MiNote['userId'] | null;
-	channelId?: MiNote['channelId'] | null;
-	host?: string | null;
-};
-
-export type SearchPagination = {
-	untilId?: MiNote['id'];
-	sinceId?: MiNote['id'];
-	limit: number;
-};
-
-function compileValue(value: V): string {
-	if (typeof value === 'string') {
-		return `'${value}'`; // TODO: escape
-	} else if (typeof value === 'number') {
-		return value.toString();
-	} else if (typeof value === 'boolean') {
-		return value.toString();
-	}
-	throw new Error('unrecognized value');
-}
-
-function compileQuery(q: Q): string {
-	switch (q.op) {
-		case '=': return `(${q.k} = ${compileValue(q.v)})`;
-		case '!=': return `(${q.k} != ${compileValue(q.v)})`;
-		case '>': return `(${q.k} > ${compileValue(q.v)})`;
-		case '<': return `(${q.k} < ${compileValue(q.v)})`;
-		case '>=': return `(${q.k} >= ${compileValue(q.v)})`;
-		case '<=': return `(${q.k} <= ${compileValue(q.v)})`;
-		case 'and': return q.qs.length === 0 ? '' : `(${ q.qs.map(_q => compileQuery(_q)).join(' AND ') })`;
-		case 'or': return q.qs.length === 0 ? '' : `(${ q.qs.map(_q => compileQuery(_q)).join(' OR ') })`;
-		case 'is null': return `(${q.k} IS NULL)`;
-		case 'is not null': return `(${q.k} IS NOT NULL)`;
-		case 'not': return `(NOT ${compileQuery(q.q)})`;
-		default: throw new Error('unrecognized query operator');
-	}
-}
+export type { SearchOpts, SearchPagination } from '@/core/search/NoteSearchProvider.js';
 
 @Injectable()
 export class SearchService {
-	private readonly meilisearchIndexScope: 'local' | 'global' | string[] = 'local';
-	private readonly meilisearchNoteIndex: Index | null = null;
-	private readonly provider: FulltextSearchProvider;
+	private readonly providerName: FulltextSearchProvider;
+	private readonly provider: NoteSearchProvider;
 
 	constructor(
 		@Inject(DI.config)
 		private config: Config,
 
-		@Inject(DI.meilisearch)
-		private meilisearch: MeiliSearch | null,
+		@Inject(DI.usersRepository)
+		private usersRepository: UsersRepository,
 
-		@Inject(DI.notesRepository)
-		private notesRepository: NotesRepository,
-
-		private cacheService: CacheService,
-		private queryService: QueryService,
-		private idService: IdService,
+		private utilityService: UtilityService,
+		private sqlLikeNoteSearchProvider: SqlLikeNoteSearchProvider,
+		private sqlTsvectorNoteSearchProvider: SqlTsvectorNoteSearchProvider,
+		private meilisearchNoteSearchProvider: MeilisearchNoteSearchProvider,
+		private openSearchNoteSearchProvider: OpenSearchNoteSearchProvider,
 		private loggerService: LoggerService,
 	) {
-		if (meilisearch) {
-			this.meilisearchNoteIndex = meilisearch.index(`${config.meilisearch!.index}---notes`);
-			this.meilisearchNoteIndex.updateSettings({
-				searchableAttributes: [
-					'text',
-					'cw',
-				],
-				sortableAttributes: [
-					'createdAt',
-				],
-				filterableAttributes: [
-					'createdAt',
-					'userId',
-					'userHost',
-					'channelId',
-					'tags',
-				],
-				typoTolerance: {
-					enabled: false,
-				},
-				pagination: {
-					maxTotalHits: 10000,
-				},
-			});
-		}
-
-		if (config.meilisearch?.scope) {
-			this.meilisearchIndexScope = config.meilisearch.scope;
-		}
-
-		this.provider = config.fulltextSearch?.provider ?? 'sqlLike';
-		this.loggerService.getLogger('SearchService').info(`-- Provider: ${this.provider}`);
+		this.providerName = config.fulltextSearch?.provider ?? 'sqlLike';
+		this.provider = this.getProvider(this.providerName);
+		this.loggerService.getLogger('SearchService').info(`-- Provider: ${this.providerName}`);
 	}
 
 	@bindThis
-	public async indexNote(note: MiNote): Promise<void> {
-		if (!this.meilisearch) return;
-		if (note.text == null && note.cw == null) return;
-		if (!['home', 'public'].includes(note.visibility)) return;
-
-		switch (this.meilisearchIndexScope) {
-			case 'global':
-				break;
-
-			case 'local':
-				if (note.userHost == null) break;
-				return;
-
+	private getProvider(name: FulltextSearchProvider): NoteSearchProvider {
+		switch (name) {
+			case 'sqlLike':
+			case 'sqlPgroonga':
+				return this.sqlLikeNoteSearchProvider;
+			case 'sqlTsvector':
+				return this.sqlTsvectorNoteSearchProvider;
+			case 'meilisearch':
+				return this.meilisearchNoteSearchProvider;
+			case 'opensearch':
+				return this.openSearchNoteSearchProvider;
 			default: {
-				if (note.userHost == null) break;
-				if (this.meilisearchIndexScope.includes(note.userHost)) break;
-				return;
+				// eslint-disable-next-line @typescript-eslint/no-unused-vars
+				const typeCheck: never = name;
+				throw new Error(`Unknown fulltext search provider: ${name}`);
 			}
 		}
-
-		await this.meilisearchNoteIndex?.addDocuments([{
-			id: note.id,
-			createdAt: this.idService.parse(note.id).date.getTime(),
-			userId: note.userId,
-			userHost: note.userHost,
-			channelId: note.channelId,
-			cw: note.cw,
-			text: note.text,
-			tags: note.tags,
-		}], {
-			primaryKey: 'id',
-		});
 	}
 
 	@bindThis
-	public async unindexNote(note: MiNote): Promise<void> {
-		if (!this.meilisearch) return;
-		if (!['home', 'public'].includes(note.visibility)) return;
-
-		await this.meilisearchNoteIndex?.deleteDocument(note.id);
+	public async indexNote(note: MiNote): Promise<void> {
+		await this.provider.indexNote(note);
 	}
 
 	@bindThis
-	public async searchNote(
-		q: string,
-		me: MiUser | null,
-		opts: SearchOpts,
-		pagination: SearchPagination,
-	): Promise<MiNote[]> {
-		switch (this.provider) {
-			case 'sqlLike':
-			case 'sqlPgroonga': {
-				// ほとんど内容に差がないのでsqlLikeとsqlPgroongaを同じ処理にしている.
-				// 今後の拡張で差が出る用であれば関数を分ける.
-				return this.searchNoteByLike(q, me, opts, pagination);
-			}
-			case 'meilisearch': {
-				return this.searchNoteByMeiliSearch(q, me, opts, pagination);
-			}
-			default: {
-				// eslint-disable-next-line @typescript-eslint/no-unused-vars
-				const typeCheck: never = this.provider;
-				return [];
-			}
-		}
+	public async unindexNote(note: MiNote): Promise<void> {
+		await this.provider.unindexNote(note);
 	}
 
 	@bindThis
-	private async searchNoteByLike(
+	public async searchNote(
 		q: string,
 		me: MiUser | null,
 		opts: SearchOpts,
 		pagination: SearchPagination,
 	): Promise<MiNote[]> {
-		const query = this.queryService.makePaginationQuery(this.notesRepository.createQueryBuilder('note'), pagination.sinceId, pagination.untilId);
-
-		if (opts.userId) {
-			query.andWhere('note.userId = :userId', { userId: opts.userId });
-		} else if (opts.channelId) {
-			query.andWhere('note.channelId = :channelId', { channelId: opts.channelId });
-		}
-
-		query
-			.innerJoinAndSelect('note.user', 'user')
-			.leftJoinAndSelect('note.reply', 'reply')
-			.leftJoinAndSelect('note.renote', 'renote')
-			.leftJoinAndSelect('reply.user', 'replyUser')
-			.leftJoinAndSelect('renote.user', 'renoteUser');
-
-		if (this.config.fulltextSearch?.provider === 'sqlPgroonga') {
-			query.andWhere('note.text &@ :q', { q });
-		} else {
-			query.andWhere('LOWER(note.text) LIKE :q', { q: `%${ sqlLikeEscape(q.toLowerCase()) }%` });
-		}
-
-		if (opts.host) {
-			if (opts.host === '.') {
-				query.andWhere('user.host IS NULL');
-			} else {
-				query.andWhere('user.host = :host', { host: opts.host });
+		const query = searchQuery.parse(q);
+		const filters: SearchOpts = { ...opts };
+
+		for (const operator of query.operators) {
+			switch (operator.type) {
+				case 'from': {
+					const host = operator.acct.host;
+					const user = await this.usersRepository.findOneBy({
+						usernameLower: operator.acct.username.toLowerCase(),
+						host: host == null || this.utilityService.isSelfHost(host) ? IsNull() : this.utilityService.toPuny(host),
+					});
+					// 存在しないユーザーや、パラメータで別のユーザーが指定されている場合は何もヒットしない
+					if (user == null || (filters.userId != null && filters.userId !== user.id)) return [];
+					filters.userId = user.id;
+					break;
+				}
+				case 'has': {
+					if (operator.value === 'media') filters.hasFile = true;
+					if (operator.value === 'poll') filters.hasPoll = true;
+					break;
+				}
+				case 'in': {
+					filters.inChannel = true;
+					break;
+				}
+				case 'before': {
+					// その日の0時(UTC)より前
+					filters.untilDate = Date.parse(operator.date);
+					break;
+				}
+				case 'after': {
+					// その日の終わり(UTC)より後
+					filters.sinceDate = Date.parse(operator.date) + 1000 * 60 * 60 * 24;
+					break;
+				}
+				case 'lang': {
+					filters.lang = operator.value;
+					break;
+				}
+				case 'reply': {
+					filters.reply = operator.value;
+					break;
+				}
 			}
 		}
 
-		this.queryService.generateVisibilityQuery(query, me);
-		if (me) this.queryService.generateMutedUserQuery(query, me);
-		if (me) this.queryService.generateBlockedUserQuery(query, me);
-
-		return query.limit(pagination.limit).getMany();
+		return this.provider.searchNote({
+			words: query.words,
+			phrases: query.phrases,
+			excludedWords: query.excludedWords,
+		}, me, filters, pagination);
 	}
 
 	@bindThis
-	private async searchNoteByMeiliSearch(
-		q: string,
-		me: MiUser | null,
-		opts: SearchOpts,
-		pagination: SearchPagination,
-	): Promise<MiNote[]> {
-		if (!this.meilisearch || !this.meilisearchNoteIndex) {
-			throw new Error('MeiliSearch is not available');
-		}
-
-		const filter: Q = {
-			op: 'and',
-			qs: [],
-		};
-		if (pagination.untilId) filter.qs.push({
-			op: '<',
-			k: 'createdAt',
-			v: this.idService.parse(pagination.untilId).date.getTime(),
-		});
-		if (pagination.sinceId) filter.qs.push({
-			op: '>',
-			k: 'createdAt',
-			v: this.idService.parse(pagination.sinceId).date.getTime(),
-		});
-		if (opts.userId) filter.qs.push({ op: '=', k: 'userId', v: opts.userId });
-		if (opts.channelId) filter.qs.push({ op: '=', k: 'channelId', v: opts.channelId });
-		if (opts.host) {
-			if (opts.host === '.') {
-				filter.qs.push({ op: 'is null', k: 'userHost' });
-			} else {
-				filter.qs.push({ op: '=', k: 'userHost', v: opts.host });
-			}
-		}
-
-		const res = await this.meilisearchNoteIndex.search(q, {
-			sort: ['createdAt:desc'],
-			matchingStrategy: 'all',
-			attributesToRetrieve: ['id', 'createdAt'],
-			filter: compileQuery(filter),
-			limit: pagination.limit,
-		});
-		if (res.hits.length === 0) {
-			return [];
-		}
-
-		const [
-			userIdsWhoMeMuting,
-			userIdsWhoBlockingMe,
-		] = me
-			? await Promise.all([
-				this.cacheService.userMutingsCache.fetch(me.id),
-				this.cacheService.userBlockedCache.fetch(me.id),
-			])
-			: [new Set<string>(), new Set<string>()];
-		const notes = (await this.notesRepository.findBy({
-			id: In(res.hits.map(x => x.id)),
-		})).filter(note => {
-			if (me && isUserRelated(note, userIdsWhoBlockingMe)) return false;
-			if (me && isUserRelated(note, userIdsWhoMeMuting)) return false;
-			return true;
-		});
-
-		return notes.sort((a, b) => a.id > b.id ? -1 : 1);
+	public async rebuildIndex(onProgress: (progress: number) => void = () => {}): Promise<void> {
+		this.loggerService.getLogger('SearchService').info(`Rebuilding search index (${this.providerName}) ...`);
+		await this.provider.rebuildIndex(onProgress);
 	}
 }
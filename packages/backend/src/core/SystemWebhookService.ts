@@ -5,7 +5,7 @@
 
 import { Inject, Injectable } from '@nestjs/common';
 import * as Redis from 'ioredis';
-import type { MiUser, SystemWebhooksRepository } from '@/models/_.js';
+import type { MiUser, MiWebhookDeliveryLog, SystemWebhooksRepository } from '@/models/_.js';
 import { DI } from '@/di-symbols.js';
 import { bindThis } from '@/decorators.js';
 import { GlobalEvents, GlobalEventService } from '@/core/GlobalEventService.js';
@@ -17,7 +17,11 @@ import { LoggerService } from '@/core/LoggerService.js';
 import Logger from '@/logger.js';
 import { Packed } from '@/misc/json-schema.js';
 import { AbuseReportResolveType } from '@/models/AbuseUserReport.js';
+import type { MiInstance } from '@/models/Instance.js';
+import type { ModerationLogPayloads, moderationLogTypes } from '@/types.js';
 import { ModeratorInactivityRemainingTime } from '@/queue/processors/CheckModeratorsActivityProcessorService.js';
+import { WEBHOOK_AUTO_DISABLE_THRESHOLD } from '@/core/WebhookDeliveryService.js';
+import type { WebhookDeliveryResult } from '@/core/WebhookDeliveryService.js';
 import type { OnApplicationShutdown } from '@nestjs/common';
 
 export type AbuseReportPayload = {
@@ -41,11 +45,35 @@ export type InactiveModeratorsWarningPayload = {
 	remainingTime: ModeratorInactivityRemainingTime;
 };
 
+export type InstancePayload = {
+	id: string;
+	host: string;
+	isNotResponding: boolean;
+	notRespondingSince: string | null;
+	suspensionState: MiInstance['suspensionState'];
+};
+
+export type InstanceSuspensionStateChangedPayload = {
+	instance: InstancePayload;
+	before: MiInstance['suspensionState'];
+	after: MiInstance['suspensionState'];
+};
+
+export type ModerationLogPayload<T extends typeof moderationLogTypes[number]> = {
+	id: string;
+	createdAt: string;
+	moderatorId: string;
+	info: ModerationLogPayloads[T] | Record<string, never>;
+};
+
 export type SystemWebhookPayload<T extends SystemWebhookEventType> =
 	T extends 'abuseReport' | 'abuseReportResolved' ? AbuseReportPayload :
 	T extends 'userCreated' ? Packed<'UserLite'> :
 	T extends 'inactiveModeratorsWarning' ? InactiveModeratorsWarningPayload :
 	T extends 'inactiveModeratorsInvitationOnlyChanged' ? Record<string, never> :
+	T extends 'instanceNotResponding' ? InstancePayload :
+	T extends 'instanceSuspensionStateChanged' ? InstanceSuspensionStateChangedPayload :
+	T extends typeof moderationLogTypes[number] ? ModerationLogPayload<T> :
 		never;
 
 @Injectable()
@@ -191,25 +219,73 @@ export class SystemWebhookService implements OnApplicationShutdown {
 	 * SystemWebhook をWebhook配送キューに追加する
 	 * @see QueueService.systemWebhookDeliver
 	 */
-	@bindThis
-	public async enqueueSystemWebhook<T extends SystemWebhookEventType>(
+	public enqueueSystemWebhook<T extends typeof moderationLogTypes[number]>(
+		type: T,
+		content: ModerationLogPayload<T>,
+		opts?: {
+			excludes?: MiSystemWebhook['id'][];
+		},
+	): Promise<void>;
+	public enqueueSystemWebhook<T extends SystemWebhookEventType>(
 		type: T,
 		content: SystemWebhookPayload<T>,
 		opts?: {
 			excludes?: MiSystemWebhook['id'][];
 		},
-	) {
+	): Promise<void>;
+	@bindThis
+	public async enqueueSystemWebhook(
+		type: SystemWebhookEventType,
+		content: SystemWebhookPayload<SystemWebhookEventType>,
+		opts?: {
+			excludes?: MiSystemWebhook['id'][];
+		},
+	): Promise<void> {
 		const webhooks = await this.fetchActiveSystemWebhooks()
 			.then(webhooks => {
 				return webhooks.filter(webhook => !opts?.excludes?.includes(webhook.id) && webhook.on.includes(type));
 			});
-		return Promise.all(
+		await Promise.all(
 			webhooks.map(webhook => {
 				return this.queueService.systemWebhookDeliver(webhook, type, content);
 			}),
 		);
 	}
 
+	/**
+	 * 配送ログの内容を同じイベントとして再送する.
+	 * 送信先やシークレットは現在のWebhookの設定を使う.
+	 */
+	@bindThis
+	public async redeliver(webhook: MiSystemWebhook, log: MiWebhookDeliveryLog) {
+		const request = log.requestBody as { createdAt: number; body: SystemWebhookPayload<SystemWebhookEventType> };
+		return this.queueService.systemWebhookDeliver(webhook, log.type as SystemWebhookEventType, request.body, {
+			eventId: log.eventId,
+			createdAt: request.createdAt,
+		});
+	}
+
+	/**
+	 * 配送結果をSystemWebhookに記録する.
+	 * 連続して配送に失敗した回数がしきい値に達したSystemWebhookは自動で無効化する.
+	 */
+	@bindThis
+	public async recordDeliveryResult(webhookId: MiSystemWebhook['id'], status: number, result: WebhookDeliveryResult): Promise<void> {
+		await this.systemWebhooksRepository.update(webhookId, {
+			latestSentAt: new Date(),
+			latestStatus: status,
+			...(result === 'success' ? { failureCount: 0 } : {}),
+			...(result === 'failure' ? { failureCount: () => '"failureCount" + 1' } : {}),
+		});
+		if (result !== 'failure') return;
+
+		const webhook = await this.systemWebhooksRepository.findOneBy({ id: webhookId });
+		if (webhook == null || !webhook.isActive || webhook.failureCount < WEBHOOK_AUTO_DISABLE_THRESHOLD) return;
+
+		await this.systemWebhooksRepository.update(webhookId, { isActive: false, updatedAt: new Date() });
+		this.globalEventService.publishInternalEvent('systemWebhookUpdated', { ...webhook, isActive: false });
+	}
+
 	@bindThis
 	private async onMessage(_: string, data: string): Promise<void> {
 		const obj = JSON.parse(data);
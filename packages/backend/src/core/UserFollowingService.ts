@@ -288,6 +288,12 @@ export class UserFollowingService implements OnModuleInit {
 			}, followee.id);
 		}
 
+		if (requestExist && this.userEntityService.isLocalUser(follower)) {
+			this.userEntityService.pack(followee.id, follower).then(packed => {
+				this.webhookService.enqueueUserWebhook(follower.id, 'followRequestAccepted', { user: packed });
+			});
+		}
+
 		this.globalEventService.publishInternalEvent('follow', { followerId: follower.id, followeeId: followee.id });
 
 		const [followeeUser, followerUser] = await Promise.all([
@@ -524,7 +530,10 @@ export class UserFollowingService implements OnModuleInit {
 
 		// Publish receiveRequest event
 		if (this.userEntityService.isLocalUser(followee)) {
-			this.userEntityService.pack(follower.id, followee).then(packed => this.globalEventService.publishMainStream(followee.id, 'receiveFollowRequest', packed));
+			this.userEntityService.pack(follower.id, followee).then(packed => {
+				this.globalEventService.publishMainStream(followee.id, 'receiveFollowRequest', packed);
+				this.webhookService.enqueueUserWebhook(followee.id, 'followRequestReceived', { user: packed });
+			});
 
 			this.userEntityService.pack(followee.id, followee, {
 				schema: 'MeDetailed',
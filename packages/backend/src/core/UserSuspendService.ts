@@ -4,7 +4,7 @@
  */
 
 import { Inject, Injectable } from '@nestjs/common';
-import { Not, IsNull } from 'typeorm';
+import { Not, IsNull, LessThanOrEqual } from 'typeorm';
 import type { FollowingsRepository, FollowRequestsRepository, UsersRepository } from '@/models/_.js';
 import type { MiUser } from '@/models/User.js';
 import { QueueService } from '@/core/QueueService.js';
@@ -15,6 +15,7 @@ import { UserEntityService } from '@/core/entities/UserEntityService.js';
 import { bindThis } from '@/decorators.js';
 import { RelationshipJobData } from '@/queue/types.js';
 import { ModerationLogService } from '@/core/ModerationLogService.js';
+import { AccountUpdateService } from '@/core/AccountUpdateService.js';
 
 @Injectable()
 export class UserSuspendService {
@@ -33,24 +34,34 @@ export class UserSuspendService {
 		private globalEventService: GlobalEventService,
 		private apRendererService: ApRendererService,
 		private moderationLogService: ModerationLogService,
+		private accountUpdateService: AccountUpdateService,
 	) {
 	}
 
+	/**
+	 * @param expiresAt この日時に凍結を自動で解除する. nullの場合は無期限
+	 */
 	@bindThis
-	public async suspend(user: MiUser, moderator: MiUser): Promise<void> {
+	public async suspend(user: MiUser, moderator: MiUser, expiresAt: Date | null = null): Promise<void> {
 		await this.usersRepository.update(user.id, {
 			isSuspended: true,
+			suspendedUntil: expiresAt,
 		});
 
 		this.moderationLogService.log(moderator, 'suspend', {
 			userId: user.id,
 			userUsername: user.username,
 			userHost: user.host,
+			expiresAt: expiresAt?.toISOString() ?? null,
 		});
 
 		(async () => {
 			await this.postSuspend(user).catch(e => {});
-			await this.unFollowAll(user).catch(e => {});
+
+			// 期限付きの凍結では、解除時に元の状態に戻せるようフォローは解除しない
+			if (expiresAt == null) {
+				await this.unFollowAll(user).catch(e => {});
+			}
 		})();
 	}
 
@@ -58,6 +69,7 @@ export class UserSuspendService {
 	public async unsuspend(user: MiUser, moderator: MiUser): Promise<void> {
 		await this.usersRepository.update(user.id, {
 			isSuspended: false,
+			suspendedUntil: null,
 		});
 
 		this.moderationLogService.log(moderator, 'unsuspend', {
@@ -71,6 +83,25 @@ export class UserSuspendService {
 		})();
 	}
 
+	/**
+	 * 期限が過ぎた凍結を解除する
+	 */
+	@bindThis
+	public async unsuspendExpired(user: MiUser): Promise<void> {
+		// 期限を確認している間に凍結し直された場合は解除しない
+		const result = await this.usersRepository.update({
+			id: user.id,
+			isSuspended: true,
+			suspendedUntil: LessThanOrEqual(new Date()),
+		}, {
+			isSuspended: false,
+			suspendedUntil: null,
+		});
+		if (result.affected !== 1) return;
+
+		await this.postUnsuspend(user).catch(e => {});
+	}
+
 	@bindThis
 	private async postSuspend(user: { id: MiUser['id']; host: MiUser['host'] }): Promise<void> {
 		this.globalEventService.publishInternalEvent('userChangeSuspendedState', { id: user.id, isSuspended: true });
@@ -135,6 +166,9 @@ export class UserSuspendService {
 			for (const inbox of queue) {
 				this.queueService.deliver(user as any, content, inbox, true);
 			}
+
+			// 凍結中に残していたフォロワーにアカウントの情報を改めて配信する
+			await this.accountUpdateService.publishToFollowers(user.id);
 		}
 	}
 
@@ -0,0 +1,207 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { Inject, Injectable } from '@nestjs/common';
+import { IsNull } from 'typeorm';
+import type { RoleAssignmentsRepository, RolesRepository, UserWarningsRepository } from '@/models/_.js';
+import type { MiUser } from '@/models/User.js';
+import type { MiUserWarning } from '@/models/UserWarning.js';
+import type { MiAbuseUserReport } from '@/models/AbuseUserReport.js';
+import type { MiNote } from '@/models/Note.js';
+import type { MiRole } from '@/models/Role.js';
+import { DI } from '@/di-symbols.js';
+import { IdService } from '@/core/IdService.js';
+import { RoleService } from '@/core/RoleService.js';
+import { GlobalEventService } from '@/core/GlobalEventService.js';
+import { NotificationService } from '@/core/NotificationService.js';
+import { ModerationLogService } from '@/core/ModerationLogService.js';
+import { UserWarningEntityService } from '@/core/entities/UserWarningEntityService.js';
+import { bindThis } from '@/decorators.js';
+
+@Injectable()
+export class UserWarningService {
+	constructor(
+		@Inject(DI.userWarningsRepository)
+		private userWarningsRepository: UserWarningsRepository,
+
+		@Inject(DI.rolesRepository)
+		private rolesRepository: RolesRepository,
+
+		@Inject(DI.roleAssignmentsRepository)
+		private roleAssignmentsRepository: RoleAssignmentsRepository,
+
+		private idService: IdService,
+		private roleService: RoleService,
+		private globalEventService: GlobalEventService,
+		private notificationService: NotificationService,
+		private moderationLogService: ModerationLogService,
+		private userWarningEntityService: UserWarningEntityService,
+	) {
+	}
+
+	/**
+	 * ユーザーに警告する. ロールが指定されていれば、期限付きでアサインする
+	 */
+	@bindThis
+	public async warn(
+		user: MiUser,
+		params: {
+			reason: string;
+			reportId?: MiAbuseUserReport['id'] | null;
+			noteId?: MiNote['id'] | null;
+			roleId?: MiRole['id'] | null;
+			roleExpiresAt?: Date | null;
+		},
+		moderator: MiUser,
+	): Promise<MiUserWarning> {
+		const role = params.roleId ? await this.rolesRepository.findOneByOrFail({ id: params.roleId }) : null;
+
+		let assigned = false;
+		if (role) {
+			try {
+				await this.roleService.assign(user.id, role.id, params.roleExpiresAt ?? null, moderator);
+				assigned = true;
+			} catch (err) {
+				// 既にアサインされている場合は、警告によるアサインとして扱わない
+				if (!(err instanceof RoleService.AlreadyAssignedError)) throw err;
+			}
+		}
+
+		const warning = await this.userWarningsRepository.insertOne({
+			id: this.idService.gen(),
+			userId: user.id,
+			moderatorId: moderator.id,
+			reportId: params.reportId ?? null,
+			noteId: params.noteId ?? null,
+			reason: params.reason,
+			roleId: assigned ? role!.id : null,
+			roleExpiresAt: assigned ? params.roleExpiresAt ?? null : null,
+		});
+
+		this.globalEventService.publishMainStream(user.id, 'warningIssued', await this.userWarningEntityService.pack(warning, user));
+
+		this.moderationLogService.log(moderator, 'warnUser', {
+			warningId: warning.id,
+			userId: user.id,
+			userUsername: user.username,
+			userHost: user.host,
+			reason: warning.reason,
+			reportId: warning.reportId,
+			noteId: warning.noteId,
+			roleId: warning.roleId,
+			roleName: assigned ? role!.name : null,
+			roleExpiresAt: warning.roleExpiresAt?.toISOString() ?? null,
+		});
+
+		return warning;
+	}
+
+	@bindThis
+	public async revoke(warning: MiUserWarning, user: MiUser, moderator: MiUser): Promise<void> {
+		if (warning.revokedAt != null) return;
+
+		await this.userWarningsRepository.update(warning.id, {
+			revokedAt: new Date(),
+		});
+
+		await this.unassignRole(warning, moderator);
+
+		this.moderationLogService.log(moderator, 'revokeUserWarning', {
+			warningId: warning.id,
+			userId: user.id,
+			userUsername: user.username,
+			userHost: user.host,
+			reason: warning.reason,
+		});
+	}
+
+	/**
+	 * ユーザーが警告を確認した
+	 */
+	@bindThis
+	public async acknowledge(warning: MiUserWarning): Promise<void> {
+		await this.userWarningsRepository.update({
+			id: warning.id,
+			acknowledgedAt: IsNull(),
+		}, {
+			acknowledgedAt: new Date(),
+		});
+	}
+
+	/**
+	 * ユーザーが警告に異議を申し立てる. 異議申し立ては1つの警告につき1回まで
+	 */
+	@bindThis
+	public async appeal(warning: MiUserWarning, comment: string): Promise<void> {
+		const now = new Date();
+
+		await this.userWarningsRepository.update({
+			id: warning.id,
+			appealStatus: IsNull(),
+		}, {
+			appealComment: comment,
+			appealedAt: now,
+			appealStatus: 'pending',
+			// 異議を申し立てる時点で警告は確認済み
+			acknowledgedAt: warning.acknowledgedAt ?? now,
+		});
+	}
+
+	/**
+	 * 異議申し立てを処理する. 認める場合は警告を取り消す
+	 */
+	@bindThis
+	public async resolveAppeal(warning: MiUserWarning, user: MiUser, accept: boolean, moderator: MiUser): Promise<void> {
+		const appealStatus = accept ? 'accepted' : 'rejected';
+
+		await this.userWarningsRepository.update(warning.id, {
+			appealStatus,
+			...(accept && warning.revokedAt == null ? { revokedAt: new Date() } : {}),
+		});
+
+		if (accept) {
+			await this.unassignRole(warning, moderator);
+		}
+
+		if (user.host == null) {
+			this.notificationService.createNotification(user.id, 'userWarningAppealResolved', {
+				userWarningId: warning.id,
+				appealStatus,
+			});
+		}
+
+		this.moderationLogService.log(moderator, 'resolveUserWarningAppeal', {
+			warningId: warning.id,
+			userId: user.id,
+			userUsername: user.username,
+			userHost: user.host,
+			reason: warning.reason,
+			appealComment: warning.appealComment,
+			appealStatus,
+		});
+	}
+
+	/**
+	 * 警告と同時にアサインしたロールを外す. その後に別途アサインし直されている場合はそのままにする
+	 */
+	@bindThis
+	private async unassignRole(warning: MiUserWarning, moderator: MiUser): Promise<void> {
+		if (warning.roleId == null) return;
+
+		const assignment = await this.roleAssignmentsRepository.findOneBy({
+			userId: warning.userId,
+			roleId: warning.roleId,
+		});
+		if (assignment == null) return;
+		if (assignment.expiresAt?.getTime() !== warning.roleExpiresAt?.getTime()) return;
+
+		try {
+			await this.roleService.unassign(warning.userId, warning.roleId, moderator);
+		} catch (err) {
+			// 期限切れで既に外れている
+			if (!(err instanceof RoleService.NotAssignedError)) throw err;
+		}
+	}
+}
@@ -6,23 +6,39 @@
 import { Inject, Injectable } from '@nestjs/common';
 import * as Redis from 'ioredis';
 import { MiUser, type WebhooksRepository } from '@/models/_.js';
-import { MiWebhook, WebhookEventTypes } from '@/models/Webhook.js';
+import type { MiWebhookDeliveryLog } from '@/models/_.js';
+import { MiWebhook } from '@/models/Webhook.js';
+import type { WebhookEventTypes } from '@/models/Webhook.js';
 import { DI } from '@/di-symbols.js';
 import { bindThis } from '@/decorators.js';
-import { GlobalEvents } from '@/core/GlobalEventService.js';
+import { GlobalEvents, GlobalEventService } from '@/core/GlobalEventService.js';
 import type { Packed } from '@/misc/json-schema.js';
 import { QueueService } from '@/core/QueueService.js';
+import type { ACHIEVEMENT_TYPES } from '@/core/AchievementService.js';
+import { WEBHOOK_AUTO_DISABLE_THRESHOLD } from '@/core/WebhookDeliveryService.js';
+import type { WebhookDeliveryResult } from '@/core/WebhookDeliveryService.js';
 import type { OnApplicationShutdown } from '@nestjs/common';
 
 export type UserWebhookPayload<T extends WebhookEventTypes> =
-	T extends 'note' | 'reply' | 'renote' |'mention' ? {
+	T extends 'note' | 'reply' | 'renote' | 'mention' | 'noteDeleted' | 'pollEnded' ? {
 		note: Packed<'Note'>,
 	} :
 	T extends 'follow' | 'unfollow' ? {
 		user: Packed<'UserDetailedNotMe'>,
 	} :
-	T extends 'followed' ? {
+	T extends 'followed' | 'followRequestReceived' | 'followRequestAccepted' ? {
 		user: Packed<'UserLite'>,
+	} :
+	T extends 'antennaMatched' ? {
+		antenna: Packed<'Antenna'>,
+		note: Packed<'Note'>,
+	} :
+	T extends 'achievementEarned' ? {
+		achievement: typeof ACHIEVEMENT_TYPES[number],
+		unlockedAt: number,
+	} :
+	T extends 'notification' ? {
+		notification: Packed<'Notification'>,
 	} : never;
 
 @Injectable()
@@ -36,6 +52,7 @@ export class UserWebhookService implements OnApplicationShutdown {
 		@Inject(DI.webhooksRepository)
 		private webhooksRepository: WebhooksRepository,
 		private queueService: QueueService,
+		private globalEventService: GlobalEventService,
 	) {
 		this.redisForSub.on('message', this.onMessage);
 	}
@@ -52,6 +69,16 @@ export class UserWebhookService implements OnApplicationShutdown {
 		return this.activeWebhooks;
 	}
 
+	/**
+	 * 指定したイベントを受け取る有効なUserWebhookがあるかどうか.
+	 * ペイロードの生成にコストがかかる場合に、事前に確認するために使う.
+	 */
+	@bindThis
+	public async hasActiveWebhook(userId: MiUser['id'], type: WebhookEventTypes): Promise<boolean> {
+		const webhooks = await this.getActiveWebhooks();
+		return webhooks.some(webhook => webhook.userId === userId && webhook.on.includes(type));
+	}
+
 	/**
 	 * UserWebhook の一覧を取得する.
 	 */
@@ -96,6 +123,40 @@ export class UserWebhookService implements OnApplicationShutdown {
 		);
 	}
 
+	/**
+	 * 配送ログの内容を同じイベントとして再送する.
+	 * 送信先やシークレットは現在のWebhookの設定を使う.
+	 */
+	@bindThis
+	public async redeliver(webhook: MiWebhook, log: MiWebhookDeliveryLog) {
+		const request = log.requestBody as { createdAt: number; body: UserWebhookPayload<WebhookEventTypes> };
+		return this.queueService.userWebhookDeliver(webhook, log.type as WebhookEventTypes, request.body, {
+			eventId: log.eventId,
+			createdAt: request.createdAt,
+		});
+	}
+
+	/**
+	 * 配送結果をWebhookに記録する.
+	 * 連続して配送に失敗した回数がしきい値に達したWebhookは自動で無効化する.
+	 */
+	@bindThis
+	public async recordDeliveryResult(webhookId: MiWebhook['id'], status: number, result: WebhookDeliveryResult): Promise<void> {
+		await this.webhooksRepository.update(webhookId, {
+			latestSentAt: new Date(),
+			latestStatus: status,
+			...(result === 'success' ? { failureCount: 0 } : {}),
+			...(result === 'failure' ? { failureCount: () => '"failureCount" + 1' } : {}),
+		});
+		if (result !== 'failure') return;
+
+		const webhook = await this.webhooksRepository.findOneBy({ id: webhookId });
+		if (webhook == null || !webhook.active || webhook.failureCount < WEBHOOK_AUTO_DISABLE_THRESHOLD) return;
+
+		await this.webhooksRepository.update(webhookId, { active: false });
+		this.globalEventService.publishInternalEvent('webhookUpdated', { ...webhook, active: false });
+	}
+
 	@bindThis
 	private async onMessage(_: string, data: string): Promise<void> {
 		const obj = JSON.parse(data);
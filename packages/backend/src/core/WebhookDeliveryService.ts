@@ -0,0 +1,123 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { Inject, Injectable } from '@nestjs/common';
+import { DI } from '@/di-symbols.js';
+import type { Config } from '@/config.js';
+import type { MiSystemWebhook, MiWebhook, WebhookDeliveryLogsRepository } from '@/models/_.js';
+import { bindThis } from '@/decorators.js';
+import { HttpRequestService } from '@/core/HttpRequestService.js';
+import { IdService } from '@/core/IdService.js';
+import { StatusError } from '@/misc/status-error.js';
+import { signWebhookPayload } from '@/misc/webhook-signature.js';
+import type { Response } from 'node-fetch';
+
+/**
+ * 連続してこの回数だけ配送に失敗した(リトライを使い切った)Webhookは自動で無効化する
+ */
+export const WEBHOOK_AUTO_DISABLE_THRESHOLD = 10;
+
+/**
+ * 配送結果.
+ * retry は失敗したが再試行が残っているもの
+ */
+export type WebhookDeliveryResult = 'success' | 'retry' | 'failure';
+
+/**
+ * 配送ログの保持期間
+ */
+const LOG_RETENTION = 1000 * 60 * 60 * 24 * 7;
+
+@Injectable()
+export class WebhookDeliveryService {
+	constructor(
+		@Inject(DI.config)
+		private config: Config,
+
+		@Inject(DI.webhookDeliveryLogsRepository)
+		private webhookDeliveryLogsRepository: WebhookDeliveryLogsRepository,
+
+		private httpRequestService: HttpRequestService,
+		private idService: IdService,
+	) {
+	}
+
+	/**
+	 * 署名を付けてWebhookを送信し、結果を配送ログに記録する.
+	 * 送信に失敗した場合は、記録した後に例外をそのまま投げる.
+	 */
+	@bindThis
+	public async deliver(
+		target: { webhookId: MiWebhook['id'] } | { systemWebhookId: MiSystemWebhook['id'] },
+		params: {
+			url: string;
+			secret: string;
+			eventId: string;
+			type: string;
+			body: Record<string, any>;
+			attempt: number;
+		},
+	): Promise<Response> {
+		const hookId = 'webhookId' in target ? target.webhookId : target.systemWebhookId;
+		const body = JSON.stringify(params.body);
+		const timestamp = Math.floor(Date.now() / 1000);
+		const startedAt = performance.now();
+
+		const log = (statusCode: number | null, error: string | null) => this.webhookDeliveryLogsRepository.insert({
+			id: this.idService.gen(),
+			webhookId: 'webhookId' in target ? target.webhookId : null,
+			systemWebhookId: 'systemWebhookId' in target ? target.systemWebhookId : null,
+			eventId: params.eventId,
+			type: params.type,
+			url: params.url,
+			requestBody: params.body,
+			statusCode,
+			latency: Math.round(performance.now() - startedAt),
+			error: error?.substring(0, 1024) ?? null,
+			attempt: params.attempt,
+			success: error == null,
+		}).catch(() => {
+			// 送信中にWebhookが削除された場合など. ログが残せなくても配送の結果には影響させない
+		});
+
+		try {
+			const res = await this.httpRequestService.send(params.url, {
+				method: 'POST',
+				headers: {
+					'User-Agent': 'Misskey-Hooks',
+					'X-Misskey-Host': this.config.host,
+					'X-Misskey-Hook-Id': hookId,
+					// 後方互換性のため、署名とは別にシークレットそのものも送る
+					'X-Misskey-Hook-Secret': params.secret,
+					'X-Misskey-Hook-Timestamp': timestamp.toString(),
+					'X-Misskey-Hook-Signature': `sha256=${signWebhookPayload(params.secret, timestamp, body)}`,
+					'Content-Type': 'application/json',
+				},
+				body,
+			});
+
+			await log(res.status, null);
+			return res;
+		} catch (err) {
+			if (err instanceof StatusError) {
+				await log(err.statusCode, `${err.statusCode} ${err.statusMessage}`);
+			} else {
+				await log(null, err instanceof Error ? err.message : String(err));
+			}
+			throw err;
+		}
+	}
+
+	/**
+	 * 保持期間を過ぎた配送ログを削除する
+	 */
+	@bindThis
+	public async cleanOldLogs(): Promise<void> {
+		await this.webhookDeliveryLogsRepository.createQueryBuilder()
+			.delete()
+			.where('id < :id', { id: this.idService.gen(Date.now() - LOG_RETENTION) })
+			.execute();
+	}
+}
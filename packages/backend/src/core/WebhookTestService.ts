@@ -7,15 +7,31 @@ import { Injectable } from '@nestjs/common';
 import { MiAbuseUserReport, MiNote, MiUser, MiWebhook } from '@/models/_.js';
 import { bindThis } from '@/decorators.js';
 import { MiSystemWebhook, type SystemWebhookEventType } from '@/models/SystemWebhook.js';
-import { AbuseReportPayload, SystemWebhookPayload, SystemWebhookService } from '@/core/SystemWebhookService.js';
+import { AbuseReportPayload, InstancePayload, SystemWebhookPayload, SystemWebhookService } from '@/core/SystemWebhookService.js';
 import { Packed } from '@/misc/json-schema.js';
 import { type WebhookEventTypes } from '@/models/Webhook.js';
 import { type UserWebhookPayload, UserWebhookService } from '@/core/UserWebhookService.js';
 import { QueueService } from '@/core/QueueService.js';
 import { ModeratorInactivityRemainingTime } from '@/queue/processors/CheckModeratorsActivityProcessorService.js';
+import { moderationLogTypes } from '@/types.js';
 
 const oneDayMillis = 24 * 60 * 60 * 1000;
 
+function isModerationLogType(type: SystemWebhookEventType): type is typeof moderationLogTypes[number] {
+	return (moderationLogTypes as readonly string[]).includes(type);
+}
+
+function generateDummyInstance(override?: Partial<InstancePayload>): InstancePayload {
+	return {
+		id: 'dummy-instance-1',
+		host: 'example.com',
+		isNotResponding: false,
+		notRespondingSince: null,
+		suspensionState: 'none',
+		...override,
+	};
+}
+
 function generateAbuseReport(override?: Partial<MiAbuseUserReport>): AbuseReportPayload {
 	const result: MiAbuseUserReport = {
 		id: 'dummy-abuse-report1',
@@ -27,7 +43,14 @@ function generateAbuseReport(override?: Partial<MiAbuseUserReport>): AbuseReport
 		assignee: null,
 		resolved: false,
 		forwarded: false,
+		forwardStatus: null,
+		forwardedAt: null,
+		forwardError: null,
+		originUri: null,
 		comment: 'This is a dummy report for testing purposes.',
+		category: 'other',
+		noteIds: [],
+		priority: 'normal',
 		targetUserHost: null,
 		reporterHost: null,
 		resolvedAs: null,
@@ -70,6 +93,7 @@ function generateDummyUser(override?: Partial<MiUser>): MiUser {
 		avatarDecorations: [],
 		tags: [],
 		isSuspended: false,
+		suspendedUntil: null,
 		isLocked: false,
 		isBot: false,
 		isCat: true,
@@ -101,13 +125,21 @@ function generateDummyNote(override?: Partial<MiNote>): MiNote {
 		renoteId: null,
 		renote: null,
 		threadId: null,
+		contextUri: null,
+		moderatorCw: null,
+		isHiddenByModerator: false,
+		isSensitiveByModerator: false,
+		isExcludedFromPublicTimelines: false,
 		text: 'This is a dummy note for testing purposes.',
 		name: null,
 		cw: null,
+		updatedAt: null,
 		userId: 'dummy-user-1',
 		user: null,
 		localOnly: true,
 		reactionAcceptance: 'likeOnly',
+		quotePolicy: 'public',
+		quoteAuthorizationUri: null,
 		renoteCount: 10,
 		repliesCount: 5,
 		clippedCount: 0,
@@ -124,6 +156,7 @@ function generateDummyNote(override?: Partial<MiNote>): MiNote {
 		emojis: [],
 		tags: [],
 		hasPoll: false,
+		lang: null,
 		channelId: null,
 		channel: null,
 		userHost: null,
@@ -159,6 +192,7 @@ function toPackedNote(note: MiNote, detail = true, override?: Packed<'Note'>): P
 		channel: note.channel,
 		localOnly: note.localOnly,
 		reactionAcceptance: note.reactionAcceptance,
+		quotePolicy: note.quotePolicy,
 		reactionEmojis: {},
 		reactions: {},
 		reactionCount: 0,
@@ -345,6 +379,14 @@ export class WebhookTestService {
 			user: dummyUser2,
 			text: null,
 		});
+		const dummyPoll1 = generateDummyNote({
+			id: 'dummy-poll-1',
+			userId: dummyUser1.id,
+			user: dummyUser1,
+			text: 'This is a dummy poll.',
+			hasPoll: true,
+		});
+
 		const dummyMention1 = generateDummyNote({
 			id: 'dummy-mention-1',
 			userId: dummyUser1.id,
@@ -382,6 +424,75 @@ export class WebhookTestService {
 				send('unfollow', { user: toPackedUserDetailedNotMe(dummyUser3) });
 				break;
 			}
+			case 'noteDeleted': {
+				send('noteDeleted', { note: toPackedNote(dummyNote1) });
+				break;
+			}
+			case 'followRequestReceived': {
+				send('followRequestReceived', { user: toPackedUserLite(dummyUser2) });
+				break;
+			}
+			case 'followRequestAccepted': {
+				send('followRequestAccepted', { user: toPackedUserLite(dummyUser3) });
+				break;
+			}
+			case 'pollEnded': {
+				send('pollEnded', {
+					note: {
+						...toPackedNote(dummyPoll1),
+						poll: {
+							expiresAt: new Date().toISOString(),
+							multiple: false,
+							choices: [
+								{ text: 'Choice A', votes: 10, isVoted: true },
+								{ text: 'Choice B', votes: 3, isVoted: false },
+							],
+						},
+					},
+				});
+				break;
+			}
+			case 'antennaMatched': {
+				send('antennaMatched', {
+					antenna: {
+						id: 'dummy-antenna-1',
+						createdAt: new Date().toISOString(),
+						name: 'DummyAntenna1',
+						keywords: [['dummy']],
+						excludeKeywords: [],
+						src: 'all',
+						userListId: null,
+						users: [],
+						caseSensitive: false,
+						localOnly: false,
+						excludeBots: false,
+						withReplies: false,
+						withFile: false,
+						isActive: true,
+						hasUnreadNote: false,
+						notify: false,
+					},
+					note: toPackedNote(dummyNote1),
+				});
+				break;
+			}
+			case 'achievementEarned': {
+				send('achievementEarned', { achievement: 'notes1', unlockedAt: Date.now() });
+				break;
+			}
+			case 'notification': {
+				send('notification', {
+					notification: {
+						id: 'dummy-notification-1',
+						createdAt: new Date().toISOString(),
+						type: 'mention',
+						userId: dummyUser1.id,
+						user: toPackedUserLite(dummyUser1),
+						note: toPackedNote(dummyMention1),
+					},
+				});
+				break;
+			}
 			// まだ実装されていない (#9485)
 			case 'reaction':
 				return;
@@ -468,7 +579,37 @@ export class WebhookTestService {
 				send('inactiveModeratorsInvitationOnlyChanged', {});
 				break;
 			}
+			case 'instanceNotResponding': {
+				send('instanceNotResponding', generateDummyInstance({
+					isNotResponding: true,
+					notRespondingSince: new Date().toISOString(),
+				}));
+				break;
+			}
+			case 'instanceSuspensionStateChanged': {
+				send('instanceSuspensionStateChanged', {
+					instance: generateDummyInstance({
+						isNotResponding: true,
+						notRespondingSince: new Date(Date.now() - oneDayMillis * 7).toISOString(),
+						suspensionState: 'autoSuspendedForNotResponding',
+					}),
+					before: 'none',
+					after: 'autoSuspendedForNotResponding',
+				});
+				break;
+			}
 			default: {
+				// モデレーションログのイベントは種別ごとに内容が異なるため、共通部分だけを送る
+				if (isModerationLogType(params.type)) {
+					send(params.type, {
+						id: 'dummy-moderation-log-1',
+						createdAt: new Date().toISOString(),
+						moderatorId: dummyUser1.id,
+						info: {},
+					} as SystemWebhookPayload<typeof params.type>);
+					break;
+				}
+
 				// eslint-disable-next-line @typescript-eslint/no-unused-vars
 				const _exhaustiveAssertion: never = params.type;
 				return;
@@ -97,7 +97,7 @@ export class ApAudienceService {
 	}
 
 	@bindThis
-	private isPublic(id: string): boolean {
+	public isPublic(id: string): boolean {
 		return [
 			'https://www.w3.org/ns/activitystreams#Public',
 			'as:Public',
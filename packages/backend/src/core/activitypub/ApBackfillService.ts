@@ -0,0 +1,235 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { Inject, Injectable } from '@nestjs/common';
+import * as Redis from 'ioredis';
+import { DI } from '@/di-symbols.js';
+import type { MiMeta } from '@/models/_.js';
+import type { MiNote } from '@/models/Note.js';
+import type { MiRemoteUser } from '@/models/User.js';
+import type Logger from '@/logger.js';
+import { UtilityService } from '@/core/UtilityService.js';
+import { QueueService } from '@/core/QueueService.js';
+import { bindThis } from '@/decorators.js';
+import { getApIds, isActor, isCreate } from './type.js';
+import { ApLoggerService } from './ApLoggerService.js';
+import { ApResolverService } from './ApResolverService.js';
+import { ApAudienceService } from './ApAudienceService.js';
+import { ApNoteService } from './models/ApNoteService.js';
+import type { Resolver } from './ApResolverService.js';
+import type { IObject } from './type.js';
+
+/**
+ * 同じ投稿のリプライを再び取得するまでの間隔(秒)
+ */
+const REPLIES_BACKFILL_INTERVAL = 60 * 10;
+
+/**
+ * 一度に取り込むリプライの上限
+ */
+const REPLIES_BACKFILL_MAX_NOTES = 30;
+
+/**
+ * 一つのコレクションについてたどるページ数の上限
+ */
+const REPLIES_BACKFILL_MAX_PAGES = 5;
+
+/**
+ * ユーザーのoutboxについてたどるページ数の上限
+ */
+const USER_BACKFILL_MAX_PAGES = 10;
+
+@Injectable()
+export class ApBackfillService {
+	private logger: Logger;
+
+	constructor(
+		@Inject(DI.meta)
+		private meta: MiMeta,
+
+		@Inject(DI.redis)
+		private redisClient: Redis.Redis,
+
+		private utilityService: UtilityService,
+		private queueService: QueueService,
+		private apResolverService: ApResolverService,
+		private apAudienceService: ApAudienceService,
+		private apNoteService: ApNoteService,
+		private apLoggerService: ApLoggerService,
+	) {
+		this.logger = this.apLoggerService.logger.createSubLogger('backfill');
+	}
+
+	/**
+	 * リモートの投稿のリプライを取り込むジョブを追加する.
+	 * 同じ投稿に対しては一定時間に一度だけ行う
+	 * @returns ジョブを追加したか
+	 */
+	@bindThis
+	public async scheduleRepliesBackfill(note: MiNote): Promise<boolean> {
+		if (note.uri == null || note.userHost == null) return false;
+		if (!this.utilityService.isFederationAllowedUri(note.uri)) return false;
+
+		const acquired = await this.redisClient.set(`apBackfill:replies:${note.id}`, '1', 'EX', REPLIES_BACKFILL_INTERVAL, 'NX');
+		if (acquired == null) return false;
+
+		await this.queueService.createBackfillRepliesJob(note);
+		return true;
+	}
+
+	/**
+	 * リモートの投稿の replies と context のコレクションをたどり、まだこのサーバーに無い投稿を取り込む.
+	 * 取得元のサーバーに他のサーバーの投稿を取り込ませられないよう、元の投稿と同じオリジンの投稿のみを対象にする
+	 * @returns 新たに取り込んだ投稿の数
+	 */
+	@bindThis
+	public async backfillReplies(note: MiNote): Promise<number> {
+		if (note.uri == null || note.userHost == null) return 0;
+		if (!this.utilityService.isFederationAllowedUri(note.uri)) return 0;
+
+		const resolver = this.apResolverService.createResolver();
+
+		let object: IObject;
+		try {
+			object = await resolver.resolve(note.uri);
+		} catch (err) {
+			this.logger.warn(`Failed to resolve ${note.uri}: ${err}`);
+			return 0;
+		}
+
+		const uris = new Set<string>();
+		for (const collection of [object.replies, object.context]) {
+			if (collection == null) continue;
+			// context はコレクションではなく会話を識別するだけのURI(tag:など)であることもある
+			if (typeof collection === 'string' && !/^https?:/.test(collection)) continue;
+
+			await this.collectIds(resolver, collection, new URL(note.uri).origin, uris);
+		}
+		uris.delete(note.uri);
+
+		let imported = 0;
+		for (const uri of uris) {
+			if (await this.apNoteService.fetchNote(uri) != null) continue;
+
+			try {
+				// リプライ先の解決で履歴が埋まらないよう、投稿ごとにResolverを分ける
+				const created = await this.apNoteService.resolveNote(uri, { resolver: this.apResolverService.createResolver() });
+				if (created != null) imported++;
+			} catch (err) {
+				this.logger.warn(`Failed to backfill ${uri}: ${err}`);
+			}
+		}
+
+		return imported;
+	}
+
+	/**
+	 * リモートユーザーの最近の投稿を取り込むジョブを追加する.
+	 * サーバーごとに1時間あたりの回数を制限し、上限を超えた場合は何もしない
+	 */
+	@bindThis
+	public async scheduleUserNotesBackfill(user: MiRemoteUser): Promise<void> {
+		if (this.meta.remoteUserBackfillNotesLimit <= 0) return;
+
+		const key = `apBackfill:userHost:${user.host}`;
+		const count = await this.redisClient.incr(key);
+		await this.redisClient.expire(key, 60 * 60, 'NX');
+
+		if (count > this.meta.remoteUserBackfillPerHostLimit) {
+			this.logger.info(`Skip backfilling notes of ${user.uri}: too many users of ${user.host} in the last hour`);
+			return;
+		}
+
+		await this.queueService.createBackfillUserNotesJob(user);
+	}
+
+	/**
+	 * リモートユーザーの featured と outbox のコレクションをたどり、最近の公開投稿を取り込む
+	 * @returns 新たに取り込んだ投稿の数
+	 */
+	@bindThis
+	public async backfillUserNotes(user: MiRemoteUser): Promise<number> {
+		const limit = this.meta.remoteUserBackfillNotesLimit;
+		if (limit <= 0) return 0;
+		if (!this.utilityService.isFederationAllowedUri(user.uri)) return 0;
+
+		const resolver = this.apResolverService.createResolver();
+
+		const person = await resolver.resolve(user.uri);
+		if (!isActor(person)) throw new Error(`Object is not an actor: ${user.uri}`);
+
+		const posts = new Map<string, string | IObject>();
+		const add = (post: string | IObject) => {
+			const id = typeof post === 'string' ? post : post.id;
+			if (typeof id === 'string' && /^https?:/.test(id)) posts.set(id, post);
+		};
+
+		if (person.featured != null) {
+			try {
+				for await (const item of resolver.iterateCollection(person.featured, USER_BACKFILL_MAX_PAGES)) {
+					if (posts.size >= limit) break;
+					if (typeof item === 'string' || this.isPublic(item)) add(item);
+				}
+			} catch (err) {
+				this.logger.warn(`Failed to fetch featured of ${user.uri}: ${err}`);
+			}
+		}
+
+		try {
+			for await (const item of resolver.iterateCollection(person.outbox, USER_BACKFILL_MAX_PAGES)) {
+				if (posts.size >= limit) break;
+
+				const activity = typeof item === 'string' ? await resolver.resolve(item).catch(() => null) : item;
+				// Announceなど、本人の投稿でないものは対象外
+				if (activity == null || !isCreate(activity) || !this.isPublic(activity)) continue;
+
+				const object = activity.object;
+				if (typeof object === 'string' || this.isPublic(object)) add(object);
+			}
+		} catch (err) {
+			this.logger.warn(`Failed to fetch outbox of ${user.uri}: ${err}`);
+		}
+
+		let imported = 0;
+		for (const [uri, post] of posts) {
+			if (await this.apNoteService.fetchNote(uri) != null) continue;
+
+			try {
+				// outboxに埋め込まれている投稿は、ユーザーと同じオリジンであればそのまま使う
+				const created = await this.apNoteService.resolveNote(post, {
+					resolver: this.apResolverService.createResolver(),
+					sentFrom: new URL(user.uri),
+				});
+				if (created != null) imported++;
+			} catch (err) {
+				this.logger.warn(`Failed to backfill ${uri}: ${err}`);
+			}
+		}
+
+		return imported;
+	}
+
+	/**
+	 * 公開または未収載で投稿されたものか
+	 */
+	@bindThis
+	private isPublic(object: IObject): boolean {
+		return [...getApIds(object.to), ...getApIds(object.cc)].some(id => this.apAudienceService.isPublic(id));
+	}
+
+	@bindThis
+	private async collectIds(resolver: Resolver, collection: string | IObject, origin: string, ids: Set<string>): Promise<void> {
+		try {
+			for await (const item of resolver.iterateCollection(collection, REPLIES_BACKFILL_MAX_PAGES)) {
+				if (ids.size >= REPLIES_BACKFILL_MAX_NOTES) break;
+
+				const id = typeof item === 'string' ? item : item.id;
+				if (typeof id === 'string' && /^https?:/.test(id) && new URL(id).origin === origin) ids.add(id);
+			}
+		} catch (err) {
+			this.logger.warn(`Failed to fetch collection ${typeof collection === 'string' ? collection : collection.id}: ${err}`);
+		}
+	}
+}
@@ -4,9 +4,9 @@
  */
 
 import { Inject, Injectable } from '@nestjs/common';
-import { IsNull, Not } from 'typeorm';
+import { In, IsNull, Not } from 'typeorm';
 import { DI } from '@/di-symbols.js';
-import type { FollowingsRepository } from '@/models/_.js';
+import type { FollowingsRepository, InstancesRepository } from '@/models/_.js';
 import type { MiLocalUser, MiRemoteUser, MiUser } from '@/models/User.js';
 import { QueueService } from '@/core/QueueService.js';
 import { UserEntityService } from '@/core/entities/UserEntityService.js';
@@ -33,15 +33,22 @@ const isFollowers = (recipe: IRecipe): recipe is IFollowersRecipe =>
 const isDirect = (recipe: IRecipe): recipe is IDirectRecipe =>
 	recipe.type === 'Direct';
 
+interface IActivityVariant {
+	softwareNames: string[];
+	activity: IActivity;
+}
+
 class DeliverManager {
 	private actor: ThinUser;
 	private activity: IActivity | null;
 	private recipes: IRecipe[] = [];
+	private variants: IActivityVariant[] = [];
 
 	/**
 	 * Constructor
 	 * @param userEntityService
 	 * @param followingsRepository
+	 * @param instancesRepository
 	 * @param queueService
 	 * @param actor Actor
 	 * @param activity Activity to deliver
@@ -49,6 +56,7 @@ class DeliverManager {
 	constructor(
 		private userEntityService: UserEntityService,
 		private followingsRepository: FollowingsRepository,
+		private instancesRepository: InstancesRepository,
 		private queueService: QueueService,
 
 		actor: { id: MiUser['id']; host: null; },
@@ -100,6 +108,16 @@ class DeliverManager {
 		this.recipes.push(recipe);
 	}
 
+	/**
+	 * 特定のソフトウェアのサーバーには、代わりに別のアクティビティを配送する
+	 * @param softwareNames 対象のソフトウェア名 (nodeinfoのsoftware.name)
+	 * @param activity Activity to deliver
+	 */
+	@bindThis
+	public addActivityVariant(softwareNames: string[], activity: IActivity): void {
+		this.variants.push({ softwareNames, activity });
+	}
+
 	/**
 	 * Execute delivers
 	 */
@@ -143,9 +161,49 @@ class DeliverManager {
 			inboxes.set(recipe.to.inbox, false);
 		}
 
+		if (this.variants.length > 0 && inboxes.size > 0) {
+			await this.deliverVariants(inboxes);
+		}
+
 		// deliver
 		await this.queueService.deliverMany(this.actor, this.activity, inboxes);
 	}
+
+	/**
+	 * 別のアクティビティを配送するサーバーのinboxに配送し、inboxesから取り除く
+	 */
+	@bindThis
+	private async deliverVariants(inboxes: Map<string, boolean>): Promise<void> {
+		const instances = await this.instancesRepository.find({
+			where: {
+				host: In([...new Set([...inboxes.keys()].map(inbox => new URL(inbox).host))]),
+				softwareName: In(this.variants.flatMap(x => x.softwareNames)),
+			},
+			select: {
+				host: true,
+				softwareName: true,
+			},
+		});
+		if (instances.length === 0) return;
+
+		const softwareNames = new Map(instances.map(x => [x.host, x.softwareName]));
+
+		for (const variant of this.variants) {
+			const variantInboxes = new Map<string, boolean>();
+
+			for (const [inbox, isSharedInbox] of inboxes) {
+				const softwareName = softwareNames.get(new URL(inbox).host);
+				if (softwareName == null || !variant.softwareNames.includes(softwareName)) continue;
+
+				variantInboxes.set(inbox, isSharedInbox);
+				inboxes.delete(inbox);
+			}
+
+			if (variantInboxes.size > 0) {
+				await this.queueService.deliverMany(this.actor, variant.activity, variantInboxes);
+			}
+		}
+	}
 }
 
 @Injectable()
@@ -154,6 +212,9 @@ export class ApDeliverManagerService {
 		@Inject(DI.followingsRepository)
 		private followingsRepository: FollowingsRepository,
 
+		@Inject(DI.instancesRepository)
+		private instancesRepository: InstancesRepository,
+
 		private userEntityService: UserEntityService,
 		private queueService: QueueService,
 	) {
@@ -169,6 +230,7 @@ export class ApDeliverManagerService {
 		const manager = new DeliverManager(
 			this.userEntityService,
 			this.followingsRepository,
+			this.instancesRepository,
 			this.queueService,
 			actor,
 			activity,
@@ -188,6 +250,7 @@ export class ApDeliverManagerService {
 		const manager = new DeliverManager(
 			this.userEntityService,
 			this.followingsRepository,
+			this.instancesRepository,
 			this.queueService,
 			actor,
 			activity,
@@ -201,6 +264,7 @@ export class ApDeliverManagerService {
 		return new DeliverManager(
 			this.userEntityService,
 			this.followingsRepository,
+			this.instancesRepository,
 			this.queueService,
 
 			actor,
@@ -14,6 +14,8 @@ import { NotePiningService } from '@/core/NotePiningService.js';
 import { UserBlockingService } from '@/core/UserBlockingService.js';
 import { NoteDeleteService } from '@/core/NoteDeleteService.js';
 import { NoteCreateService } from '@/core/NoteCreateService.js';
+import { NoteUpdateService } from '@/core/NoteUpdateService.js';
+import { NoteQuoteService } from '@/core/NoteQuoteService.js';
 import { concat, toArray, toSingle, unique } from '@/misc/prelude/array.js';
 import { AppLockService } from '@/core/AppLockService.js';
 import type Logger from '@/logger.js';
@@ -26,19 +28,24 @@ import { QueueService } from '@/core/QueueService.js';
 import type { UsersRepository, NotesRepository, FollowingsRepository, AbuseUserReportsRepository, FollowRequestsRepository, MiMeta } from '@/models/_.js';
 import { bindThis } from '@/decorators.js';
 import type { MiRemoteUser } from '@/models/User.js';
+import type { MiNote } from '@/models/Note.js';
+import { trackPromise } from '@/misc/promise-tracker.js';
 import { GlobalEventService } from '@/core/GlobalEventService.js';
 import { AbuseReportService } from '@/core/AbuseReportService.js';
+import { FederatedInstanceService } from '@/core/FederatedInstanceService.js';
 import { IdentifiableError } from '@/misc/identifiable-error.js';
-import { getApHrefNullable, getApId, getApIds, getApType, isAccept, isActor, isAdd, isAnnounce, isBlock, isCollection, isCollectionOrOrderedCollection, isCreate, isDelete, isFlag, isFollow, isLike, isMove, isPost, isReject, isRemove, isTombstone, isUndo, isUpdate, validActor, validPost } from './type.js';
+import { getApHrefNullable, getApId, getApIds, getApType, isAccept, isActor, isAdd, isAnnounce, isBlock, isCollection, isCollectionOrOrderedCollection, isCreate, isDelete, isFlag, isFollow, isLike, isMove, isPost, isQuoteRequest, isReject, isRemove, isTombstone, isUndo, isUpdate, validActor, validPost } from './type.js';
 import { ApNoteService } from './models/ApNoteService.js';
 import { ApLoggerService } from './ApLoggerService.js';
 import { ApDbResolverService } from './ApDbResolverService.js';
 import { ApResolverService } from './ApResolverService.js';
+import { ApRendererService } from './ApRendererService.js';
 import { ApAudienceService } from './ApAudienceService.js';
 import { ApPersonService } from './models/ApPersonService.js';
 import { ApQuestionService } from './models/ApQuestionService.js';
+import { parseApReaction } from './misc/reaction.js';
 import type { Resolver } from './ApResolverService.js';
-import type { IAccept, IAdd, IAnnounce, IBlock, ICreate, IDelete, IFlag, IFollow, ILike, IObject, IReject, IRemove, IUndo, IUpdate, IMove, IPost } from './type.js';
+import type { IAccept, IAdd, IAnnounce, IBlock, ICreate, IDelete, IFlag, IFollow, ILike, IObject, IReject, IRemove, IUndo, IUpdate, IMove, IPost, IQuoteRequest } from './type.js';
 
 @Injectable()
 export class ApInboxService {
@@ -76,6 +83,8 @@ export class ApInboxService {
 		private userBlockingService: UserBlockingService,
 		private noteCreateService: NoteCreateService,
 		private noteDeleteService: NoteDeleteService,
+		private noteUpdateService: NoteUpdateService,
+		private noteQuoteService: NoteQuoteService,
 		private appLockService: AppLockService,
 		private apResolverService: ApResolverService,
 		private apDbResolverService: ApDbResolverService,
@@ -85,6 +94,8 @@ export class ApInboxService {
 		private apQuestionService: ApQuestionService,
 		private queueService: QueueService,
 		private globalEventService: GlobalEventService,
+		private federatedInstanceService: FederatedInstanceService,
+		private apRendererService: ApRendererService,
 	) {
 		this.logger = this.apLoggerService.logger;
 	}
@@ -171,6 +182,8 @@ export class ApInboxService {
 			return await this.flag(actor, activity);
 		} else if (isMove(activity)) {
 			return await this.move(actor, activity, resolver);
+		} else if (isQuoteRequest(activity)) {
+			return await this.quoteRequest(actor, activity);
 		} else {
 			return `unrecognized activity type: ${activity.type}`;
 		}
@@ -188,6 +201,13 @@ export class ApInboxService {
 			return 'skip: フォローしようとしているユーザーはローカルユーザーではありません';
 		}
 
+		if (await this.federatedInstanceService.hasPolicy(actor.host, 'rejectFollows')) {
+			// フォローを拒否するポリシーが設定されているサーバーからは、Rejectを送り返しておしまい
+			const content = this.apRendererService.addContext(this.apRendererService.renderReject(this.apRendererService.renderFollow(actor, followee, activity.id), followee));
+			this.queueService.deliver(followee, content, actor.inbox, false);
+			return 'skip: follows from this host are rejected';
+		}
+
 		// don't queue because the sender may attempt again when timeout
 		await this.userFollowingService.follow(actor, followee, { requestId: activity.id });
 		return 'ok';
@@ -200,10 +220,15 @@ export class ApInboxService {
 		const note = await this.apNoteService.fetchNote(targetUri);
 		if (!note) return `skip: target note not found ${targetUri}`;
 
-		await this.apNoteService.extractEmojis(activity.tag ?? [], actor.host).catch(() => null);
+		// Like, EmojiReact など実装ごとの違いを吸収する
+		const { reaction, emoji } = parseApReaction(activity);
+
+		if (emoji != null) {
+			await this.apNoteService.extractEmojis(emoji, actor.host).catch(() => null);
+		}
 
 		try {
-			await this.reactionService.create(actor, note, activity._misskey_reaction ?? activity.content ?? activity.name);
+			await this.reactionService.create(actor, note, reaction);
 			return 'ok';
 		} catch (err) {
 			if (err instanceof IdentifiableError && err.id === '51c42bb4-931a-456b-bff7-e5a8a70dd298') {
@@ -229,6 +254,7 @@ export class ApInboxService {
 		});
 
 		if (isFollow(object)) return await this.acceptFollow(actor, object);
+		if (isQuoteRequest(object)) return await this.acceptQuoteRequest(actor, activity, object);
 
 		return `skip: Unknown Accept type: ${getApType(object)}`;
 	}
@@ -257,6 +283,63 @@ export class ApInboxService {
 		return 'ok';
 	}
 
+	/**
+	 * こちらから投げた引用の承認要求が承認された
+	 */
+	@bindThis
+	private async acceptQuoteRequest(actor: MiRemoteUser, activity: IAccept, request: IQuoteRequest): Promise<string> {
+		const note = await this.getQuotingLocalNote(actor, request);
+		if (typeof note === 'string') return note;
+
+		if (activity.result == null) {
+			return 'skip: QuoteAuthorization is not specified';
+		}
+
+		const authorizationUri = getApId(activity.result);
+
+		// 承認は引用された投稿のサーバーが発行したものである必要がある
+		if (this.utilityService.extractDbHost(authorizationUri) !== actor.host) {
+			return 'skip: QuoteAuthorization is not issued by the actor';
+		}
+
+		await this.notesRepository.update(note.id, { quoteAuthorizationUri: authorizationUri });
+		note.quoteAuthorizationUri = authorizationUri;
+
+		// 承認を含めた投稿を改めて配送する
+		const user = await this.usersRepository.findOneByOrFail({ id: note.userId });
+		if (this.userEntityService.isLocalUser(user) && !note.localOnly) {
+			trackPromise(this.noteUpdateService.deliverUpdate(user, note));
+		}
+
+		return 'ok';
+	}
+
+	/**
+	 * 引用の承認要求の対象となった、ローカルの引用投稿を取得する
+	 * @returns 投稿、または対象外の場合はその理由
+	 */
+	@bindThis
+	private async getQuotingLocalNote(actor: MiRemoteUser, request: IQuoteRequest): Promise<MiNote | string> {
+		// ※ requestはこっちから投げた承認要求なので、instrumentは存在するローカルの投稿である必要がある
+		if (request.instrument == null) return 'skip: instrument is not specified';
+
+		const note = await this.apDbResolverService.getNoteFromApId(request.instrument);
+		if (note == null || note.userHost !== null) {
+			return 'skip: quoting note not found';
+		}
+
+		if (note.renoteId == null) {
+			return 'skip: the note is not a quote';
+		}
+
+		const quoted = await this.notesRepository.findOneBy({ id: note.renoteId });
+		if (quoted == null || quoted.userId !== actor.id) {
+			return 'skip: actor is not the author of the quoted note';
+		}
+
+		return note;
+	}
+
 	@bindThis
 	private async add(actor: MiRemoteUser, activity: IAdd, resolver?: Resolver): Promise<string | void> {
 		if (actor.uri !== activity.actor) {
@@ -494,6 +577,8 @@ export class ApInboxService {
 			return await this.deleteNote(actor, uri);
 		} else if (validActor.includes(formerType)) {
 			return await this.deleteActor(actor, uri);
+		} else if (formerType === 'QuoteAuthorization') {
+			return await this.deleteQuoteAuthorization(actor, uri);
 		} else {
 			return `Unknown type ${formerType}`;
 		}
@@ -549,10 +634,42 @@ export class ApInboxService {
 		}
 	}
 
+	/**
+	 * 引用の承認が取り消された
+	 */
+	@bindThis
+	private async deleteQuoteAuthorization(actor: MiRemoteUser, uri: string): Promise<string> {
+		if (this.utilityService.extractDbHost(uri) !== actor.host) {
+			return 'skip: QuoteAuthorization is not issued by the actor';
+		}
+
+		const notes = await this.notesRepository.findBy({ quoteAuthorizationUri: uri });
+		if (notes.length === 0) return 'skip: no notes with the QuoteAuthorization';
+
+		await this.notesRepository.update({ quoteAuthorizationUri: uri }, { quoteAuthorizationUri: null });
+
+		// ローカルの投稿は承認が無くなったことを配送する
+		for (const note of notes) {
+			if (note.userHost !== null || note.localOnly) continue;
+			const user = await this.usersRepository.findOneBy({ id: note.userId });
+			if (user == null || !this.userEntityService.isLocalUser(user)) continue;
+
+			note.quoteAuthorizationUri = null;
+			trackPromise(this.noteUpdateService.deliverUpdate(user, note));
+		}
+
+		return 'ok: QuoteAuthorization deleted';
+	}
+
 	@bindThis
 	private async flag(actor: MiRemoteUser, activity: IFlag): Promise<string> {
+		if (await this.federatedInstanceService.hasPolicy(actor.host, 'rejectReports')) {
+			return 'skip: reports from this host are rejected';
+		}
+
 		// objectは `(User|Note) | (User|Note)[]` だけど、全パターンDBスキーマと対応させられないので
 		// 対象ユーザーは一番最初のユーザー として あとはコメントとして格納する
+		// ノートのうち対象ユーザーのものは添付されたノートとしても記録する
 		const uris = getApIds(activity.object);
 
 		const userIds = uris
@@ -564,12 +681,26 @@ export class ApInboxService {
 		});
 		if (users.length < 1) return 'skip';
 
+		const noteIds = uris
+			.filter(uri => uri.startsWith(this.config.url + '/notes/'))
+			.map(uri => uri.split('/').at(-1))
+			.filter(x => x != null);
+		const notes = noteIds.length > 0 ? await this.notesRepository.find({
+			select: ['id'],
+			where: {
+				id: In(noteIds),
+				userId: users[0].id,
+			},
+		}) : [];
+
 		await this.abuseReportService.report([{
 			targetUserId: users[0].id,
 			targetUserHost: users[0].host,
 			reporterId: actor.id,
 			reporterHost: actor.host,
 			comment: `${activity.content}\n${JSON.stringify(uris, null, 2)}`,
+			noteIds: notes.map(note => note.id),
+			originUri: activity.id ?? null,
 		}]);
 
 		return 'ok';
@@ -590,6 +721,7 @@ export class ApInboxService {
 		});
 
 		if (isFollow(object)) return await this.rejectFollow(actor, object);
+		if (isQuoteRequest(object)) return await this.rejectQuoteRequest(actor, object);
 
 		return `skip: Unknown Reject type: ${getApType(object)}`;
 	}
@@ -618,6 +750,62 @@ export class ApInboxService {
 		return 'ok';
 	}
 
+	/**
+	 * こちらから投げた引用の承認要求が拒否された
+	 */
+	@bindThis
+	private async rejectQuoteRequest(actor: MiRemoteUser, request: IQuoteRequest): Promise<string> {
+		const note = await this.getQuotingLocalNote(actor, request);
+		if (typeof note === 'string') return note;
+
+		await this.notesRepository.update(note.id, { quoteAuthorizationUri: null });
+		return 'ok';
+	}
+
+	/**
+	 * リモートの投稿がローカルの投稿を引用することの承認を求められた
+	 */
+	@bindThis
+	private async quoteRequest(actor: MiRemoteUser, activity: IQuoteRequest): Promise<string> {
+		if (activity.instrument == null) {
+			return 'skip: instrument is not specified';
+		}
+
+		const quoteUri = getApId(activity.instrument);
+		if (this.utilityService.extractDbHost(quoteUri) !== actor.host) {
+			return 'skip: quoting note is not on the actor\'s server';
+		}
+
+		const note = await this.apDbResolverService.getNoteFromApId(activity.object);
+		if (note == null || note.userHost !== null) {
+			return 'skip: target note not found';
+		}
+
+		const author = await this.usersRepository.findOneByOrFail({ id: note.userId });
+		if (!this.userEntityService.isLocalUser(author)) {
+			return 'skip: target note is not a local note';
+		}
+
+		const canQuote = ['public', 'home'].includes(note.visibility) &&
+			!await this.userBlockingService.checkBlocked(note.userId, actor.id) &&
+			await this.noteQuoteService.canQuote(note, actor);
+
+		if (!canQuote) {
+			const content = this.apRendererService.addContext(this.apRendererService.renderReject(activity, author));
+			this.queueService.deliver(author, content, actor.inbox, false);
+			return 'ok: rejected';
+		}
+
+		const authorizationUri = await this.noteQuoteService.authorize(note, actor, quoteUri);
+
+		const content = this.apRendererService.addContext({
+			...this.apRendererService.renderAccept(activity, author),
+			result: authorizationUri,
+		});
+		this.queueService.deliver(author, content, actor.inbox, false);
+		return 'ok: accepted';
+	}
+
 	@bindThis
 	private async remove(actor: MiRemoteUser, activity: IRemove, resolver?: Resolver): Promise<string | void> {
 		if (actor.uri !== activity.actor) {
@@ -791,9 +979,17 @@ export class ApInboxService {
 		if (isActor(object)) {
 			await this.apPersonService.updatePerson(actor.uri, resolver, object);
 			return 'ok: Person updated';
-		} else if (getApType(object) === 'Question') {
+		} else if (getApType(object) === 'Question' && object.updated == null) {
+			// 投票数の更新のみ
 			await this.apQuestionService.updateQuestion(object, actor, resolver).catch(err => console.error(err));
 			return 'ok: Question updated';
+		} else if (isPost(object)) {
+			const note = await this.apNoteService.updateNote(object, actor, resolver);
+			if (note == null) return 'skip: target note not found';
+			if (getApType(object) === 'Question') {
+				await this.apQuestionService.updateQuestion(object, actor, resolver).catch(err => console.error(err));
+			}
+			return 'ok: Note updated';
 		} else {
 			return `skip: Unknown type: ${getApType(object)}`;
 		}
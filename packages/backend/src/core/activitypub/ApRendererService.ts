@@ -18,6 +18,7 @@ import type { MiNoteReaction } from '@/models/NoteReaction.js';
 import type { MiEmoji } from '@/models/Emoji.js';
 import type { MiPoll } from '@/models/Poll.js';
 import type { MiPollVote } from '@/models/PollVote.js';
+import type { MiNoteQuoteAuthorization } from '@/models/NoteQuoteAuthorization.js';
 import { UserKeypairService } from '@/core/UserKeypairService.js';
 import { MfmService } from '@/core/MfmService.js';
 import { UserEntityService } from '@/core/entities/UserEntityService.js';
@@ -30,7 +31,7 @@ import { IdService } from '@/core/IdService.js';
 import { JsonLdService } from './JsonLdService.js';
 import { ApMfmService } from './ApMfmService.js';
 import { CONTEXT } from './misc/contexts.js';
-import type { IAccept, IActivity, IAdd, IAnnounce, IApDocument, IApEmoji, IApHashtag, IApImage, IApMention, IBlock, ICreate, IDelete, IFlag, IFollow, IKey, ILike, IMove, IObject, IPost, IQuestion, IReject, IRemove, ITombstone, IUndo, IUpdate } from './type.js';
+import type { IAccept, IActivity, IAdd, IAnnounce, IApDocument, IApEmoji, IApHashtag, IApImage, IApMention, IApObjectLink, IBlock, ICreate, IDelete, IFlag, IFollow, IKey, ILike, IMove, IObject, IPost, IQuestion, IQuoteAuthorization, IQuoteRequest, IReject, IRemove, ITombstone, IUndo, IUpdate } from './type.js';
 
 @Injectable()
 export class ApRendererService {
@@ -191,7 +192,7 @@ export class ApRendererService {
 
 	// to anonymise reporters, the reporting actor must be a system user
 	@bindThis
-	public renderFlag(user: MiLocalUser, object: IObject | string, content: string): IFlag {
+	public renderFlag(user: MiLocalUser, object: IFlag['object'], content: string): IFlag {
 		return {
 			type: 'Flag',
 			actor: this.userEntityService.genLocalUserUri(user.id),
@@ -243,6 +244,19 @@ export class ApRendererService {
 		};
 	}
 
+	/**
+	 * 引用先の投稿を指すFEP-e232のLink
+	 */
+	@bindThis
+	public renderQuoteLink(uri: string): IApObjectLink {
+		return {
+			type: 'Link',
+			mediaType: 'application/ld+json; profile="https://www.w3.org/ns/activitystreams"',
+			href: uri,
+			name: `RE: ${uri}`,
+		};
+	}
+
 	@bindThis
 	public renderImage(file: MiDriveFile): IApImage {
 		return {
@@ -289,6 +303,19 @@ export class ApRendererService {
 		return object;
 	}
 
+	/**
+	 * Pleroma / Akkoma などに向けた、Likeの代わりのEmojiReact
+	 */
+	@bindThis
+	public async renderEmojiReact(noteReaction: MiNoteReaction, note: { uri: string | null }): Promise<ILike> {
+		const { _misskey_reaction, ...like } = await this.renderLike(noteReaction, note);
+
+		return {
+			...like,
+			type: 'EmojiReact',
+		};
+	}
+
 	@bindThis
 	public renderMention(mention: MiPartialLocalUser | MiPartialRemoteUser): IApMention {
 		return {
@@ -399,7 +426,9 @@ export class ApRendererService {
 			apAppend += `\n\nRE: ${quote}`;
 		}
 
-		const summary = note.cw === '' ? String.fromCharCode(0x200B) : note.cw;
+		// モデレーターが付けたCWを優先する
+		const cw = note.moderatorCw ?? note.cw;
+		const summary = cw === '' ? String.fromCharCode(0x200B) : cw;
 
 		const { content, noMisskeyContent } = this.apMfmService.getNoteHtml(note, apAppend);
 
@@ -410,8 +439,16 @@ export class ApRendererService {
 			...hashtagTags,
 			...mentionTags,
 			...apemojis,
+			...(quote ? [this.renderQuoteLink(quote)] : []),
 		];
 
+		// 引用を自動で承認する相手 (FEP-044f)
+		const canQuote = note.quotePolicy === 'public'
+			? ['https://www.w3.org/ns/activitystreams#Public']
+			: note.quotePolicy === 'followers'
+				? [`${attributedTo}/followers`]
+				: [attributedTo];
+
 		const asPoll = poll ? {
 			type: 'Question',
 			[poll.expiresAt && poll.expiresAt < new Date() ? 'closed' : 'endTime']: poll.expiresAt,
@@ -440,17 +477,47 @@ export class ApRendererService {
 			}),
 			_misskey_quote: quote,
 			quoteUrl: quote,
+			quoteUri: quote,
+			quote,
+			quoteAuthorization: quote ? note.quoteAuthorizationUri ?? undefined : undefined,
+			interactionPolicy: {
+				canQuote: {
+					automaticApproval: canQuote,
+				},
+			},
 			published: this.idService.parse(note.id).date.toISOString(),
+			updated: note.updatedAt?.toISOString() ?? undefined,
 			to,
 			cc,
 			inReplyTo,
-			attachment: files.map(x => this.renderDocument(x)),
-			sensitive: note.cw != null || files.some(file => file.isSensitive),
+			context: note.contextUri ?? `${this.config.url}/notes/${note.threadId ?? note.id}/context`,
+			attachment: files.map(x => note.isSensitiveByModerator ? { ...this.renderDocument(x), sensitive: true } : this.renderDocument(x)),
+			sensitive: cw != null || note.isSensitiveByModerator || files.some(file => file.isSensitive),
 			tag,
 			...asPoll,
 		};
 	}
 
+	/**
+	 * 署名の検証に必要な項目だけを含むActor.
+	 * Authorized fetchが有効なときに、署名の無いリクエストに対して返す
+	 */
+	@bindThis
+	public async renderMinimalPerson(user: MiLocalUser) {
+		const id = this.userEntityService.genLocalUserUri(user.id);
+		const isSystem = user.username.includes('.');
+		const keypair = await this.userKeypairService.getUserKeypair(user.id);
+
+		return {
+			type: isSystem ? 'Application' : user.isBot ? 'Service' : 'Person',
+			id,
+			inbox: `${id}/inbox`,
+			endpoints: { sharedInbox: `${this.config.url}/inbox` },
+			preferredUsername: user.username,
+			publicKey: this.renderKey(user, keypair, '#main-key'),
+		};
+	}
+
 	@bindThis
 	public async renderPerson(user: MiLocalUser) {
 		const id = this.userEntityService.genLocalUserUri(user.id);
@@ -548,6 +615,38 @@ export class ApRendererService {
 		};
 	}
 
+	/**
+	 * ローカルの投稿がリモートの投稿を引用することについて、承認を求める (FEP-044f)
+	 * @param note 引用している投稿
+	 * @param quoteUri 引用先の投稿のURI
+	 */
+	@bindThis
+	public renderQuoteRequest(note: MiNote, quoteUri: string): IQuoteRequest {
+		return {
+			id: `${this.config.url}/notes/${note.id}/quote_request`,
+			type: 'QuoteRequest',
+			actor: this.userEntityService.genLocalUserUri(note.userId),
+			object: quoteUri,
+			instrument: `${this.config.url}/notes/${note.id}`,
+		};
+	}
+
+	/**
+	 * ローカルの投稿を引用することを承認した証明 (FEP-044f)
+	 * @param authorization 承認
+	 * @param note 引用された投稿
+	 */
+	@bindThis
+	public renderQuoteAuthorization(authorization: MiNoteQuoteAuthorization, note: MiNote): IQuoteAuthorization {
+		return {
+			id: `${this.config.url}/quote_authorizations/${authorization.id}`,
+			type: 'QuoteAuthorization',
+			attributedTo: this.userEntityService.genLocalUserUri(note.userId),
+			interactingObject: authorization.quoteUri,
+			interactionTarget: `${this.config.url}/notes/${note.id}`,
+		};
+	}
+
 	@bindThis
 	public renderReject(object: string | IObject, user: { id: MiUser['id'] }): IReject {
 		return {
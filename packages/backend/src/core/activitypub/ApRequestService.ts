@@ -5,7 +5,8 @@
 
 import * as crypto from 'node:crypto';
 import { URL } from 'node:url';
-import { Inject, Injectable } from '@nestjs/common';
+import { Inject, Injectable, OnApplicationShutdown } from '@nestjs/common';
+import * as Redis from 'ioredis';
 import { Window } from 'happy-dom';
 import { DI } from '@/di-symbols.js';
 import type { Config } from '@/config.js';
@@ -18,6 +19,9 @@ import { bindThis } from '@/decorators.js';
 import type Logger from '@/logger.js';
 import { validateContentTypeSetAsActivityPub } from '@/core/activitypub/misc/validator.js';
 import { assertActivityMatchesUrls } from '@/core/activitypub/misc/check-against-url.js';
+import { createContentDigest, signHttpMessage } from '@/core/activitypub/misc/http-message-signature.js';
+import { RedisKVCache } from '@/misc/cache.js';
+import { StatusError } from '@/misc/status-error.js';
 import type { IObject } from './type.js';
 
 type Request = {
@@ -38,6 +42,12 @@ type PrivateKey = {
 	keyId: string;
 };
 
+/**
+ * 送信時に使う署名方式.
+ * cavage は draft-cavage-http-signatures, rfc9421 は RFC 9421 HTTP Message Signatures
+ */
+export type HttpSignatureScheme = 'cavage' | 'rfc9421';
+
 export class ApRequestCreator {
 	static createSignedPost(args: { key: PrivateKey, url: string, body: string, digest?: string, additionalHeaders: Record<string, string> }): Signed {
 		const u = new URL(args.url);
@@ -64,6 +74,37 @@ export class ApRequestCreator {
 		};
 	}
 
+	/**
+	 * RFC 9421 HTTP Message Signatures で署名したPOSTリクエストを作成する
+	 */
+	static createSignedPostRfc9421(args: { key: PrivateKey, url: string, body: string, digest?: string, additionalHeaders: Record<string, string> }): Signed {
+		const u = new URL(args.url);
+
+		const request: Request = {
+			url: u.href,
+			method: 'POST',
+			headers: this.#objectAssignWithLcKey({
+				'Date': new Date().toUTCString(),
+				'Content-Type': 'application/activity+json',
+				'Content-Digest': args.digest != null ? this.#toContentDigest(args.digest) : createContentDigest(args.body),
+			}, args.additionalHeaders),
+		};
+
+		const result = signHttpMessage(request, args.key, ['@method', '@target-uri', 'content-type', 'content-digest']);
+
+		request.headers = this.#objectAssignWithLcKey(request.headers, {
+			'Signature-Input': result.signatureInputHeader,
+			'Signature': result.signatureHeader,
+		});
+
+		return {
+			request,
+			signingString: result.signatureBase,
+			signature: result.signature,
+			signatureHeader: result.signatureHeader,
+		};
+	}
+
 	static createDigest(body: string) {
 		return `SHA-256=${crypto.createHash('sha256').update(body).digest('base64')}`;
 	}
@@ -126,6 +167,13 @@ export class ApRequestCreator {
 		return results.join('\n');
 	}
 
+	/**
+	 * Digest ヘッダーの値 (SHA-256=base64) を Content-Digest ヘッダーの値に変換する
+	 */
+	static #toContentDigest(digest: string): string {
+		return `sha-256=:${digest.replace(/^SHA-256=/i, '')}:`;
+	}
+
 	static #lcObjectKey(src: Record<string, string>): Record<string, string> {
 		const dst: Record<string, string> = {};
 		for (const key of Object.keys(src).filter(x => x !== '__proto__' && typeof src[x] === 'string')) dst[key.toLowerCase()] = src[key];
@@ -138,13 +186,21 @@ export class ApRequestCreator {
 }
 
 @Injectable()
-export class ApRequestService {
+export class ApRequestService implements OnApplicationShutdown {
 	private logger: Logger;
 
+	/**
+	 * ホストごとに、配送が受け入れられた署名方式を覚えておく
+	 */
+	private signatureSchemeCache: RedisKVCache<HttpSignatureScheme>;
+
 	constructor(
 		@Inject(DI.config)
 		private config: Config,
 
+		@Inject(DI.redis)
+		private redisClient: Redis.Redis,
+
 		private userKeypairService: UserKeypairService,
 		private httpRequestService: HttpRequestService,
 		private loggerService: LoggerService,
@@ -152,15 +208,29 @@ export class ApRequestService {
 	) {
 		// eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
 		this.logger = this.loggerService?.getLogger('ap-request'); // なぜか TypeError: Cannot read properties of undefined (reading 'getLogger') と言われる
+
+		this.signatureSchemeCache = new RedisKVCache<HttpSignatureScheme>(this.redisClient, 'apSignatureScheme', {
+			lifetime: 1000 * 60 * 60 * 24 * 7, // 7d
+			memoryCacheLifetime: 1000 * 60 * 60, // 1h
+			fetcher: () => Promise.resolve('rfc9421'), // 未使用
+			toRedisConverter: (value) => value,
+			fromRedisConverter: (value) => value === 'cavage' || value === 'rfc9421' ? value : undefined,
+		});
 	}
 
+	/**
+	 * 署名付きでPOSTする.
+	 * 相手がどちらの署名方式に対応しているかわからない場合は、RFC 9421で送ってみて
+	 * 署名を理由に拒否されたらdraft-cavageで送り直し(double-knocking)、受け入れられた方式を覚えておく.
+	 * 覚えている方式が拒否された場合も、相手が対応を変えたかもしれないので忘れてもう一方で送り直す
+	 */
 	@bindThis
 	public async signedPost(user: { id: MiUser['id'] }, url: string, object: unknown, digest?: string): Promise<void> {
 		const body = typeof object === 'string' ? object : JSON.stringify(object);
 
 		const keypair = await this.userKeypairService.getUserKeypair(user.id);
 
-		const req = ApRequestCreator.createSignedPost({
+		const args = {
 			key: {
 				privateKeyPem: keypair.privateKey,
 				keyId: `${this.config.url}/users/${user.id}#main-key`,
@@ -170,13 +240,42 @@ export class ApRequestService {
 			digest,
 			additionalHeaders: {
 			},
-		});
+		};
 
-		await this.httpRequestService.send(url, {
-			method: req.request.method,
-			headers: req.request.headers,
-			body,
-		});
+		const host = this.utilityService.punyHost(url);
+		const knownScheme = await this.signatureSchemeCache.get(host);
+		const schemes: HttpSignatureScheme[] = knownScheme === 'cavage' ? ['cavage', 'rfc9421'] : ['rfc9421', 'cavage'];
+
+		for (const [i, scheme] of schemes.entries()) {
+			const req = scheme === 'rfc9421'
+				? ApRequestCreator.createSignedPostRfc9421(args)
+				: ApRequestCreator.createSignedPost(args);
+
+			try {
+				await this.httpRequestService.send(url, {
+					method: req.request.method,
+					headers: req.request.headers,
+					body,
+				});
+			} catch (err) {
+				const isLast = i === schemes.length - 1;
+				// 覚えている方式で送った場合の400は署名以外が理由であることが多いので、401のときだけ送り直す
+				const isSignatureRejected = err instanceof StatusError && (err.statusCode === 401 || (knownScheme == null && err.statusCode === 400));
+				if (!isLast && isSignatureRejected) {
+					this.logger.debug(`${host} rejected ${scheme} signature (${err.statusCode}), retrying with another scheme`);
+					if (scheme === knownScheme) {
+						await this.signatureSchemeCache.delete(host);
+					}
+					continue;
+				}
+				throw err;
+			}
+
+			if (scheme !== knownScheme) {
+				await this.signatureSchemeCache.set(host, scheme);
+			}
+			return;
+		}
 	}
 
 	/**
@@ -262,4 +361,14 @@ export class ApRequestService {
 
 		return activity;
 	}
+
+	@bindThis
+	public dispose(): void {
+		this.signatureSchemeCache.dispose();
+	}
+
+	@bindThis
+	public onApplicationShutdown(signal?: string | undefined): void {
+		this.dispose();
+	}
 }
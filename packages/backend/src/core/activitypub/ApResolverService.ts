@@ -15,12 +15,13 @@ import { UtilityService } from '@/core/UtilityService.js';
 import { bindThis } from '@/decorators.js';
 import { LoggerService } from '@/core/LoggerService.js';
 import type Logger from '@/logger.js';
-import { isCollectionOrOrderedCollection } from './type.js';
+import { isCollection, isCollectionOrOrderedCollection, isCollectionPage, isOrderedCollectionPage } from './type.js';
 import { ApDbResolverService } from './ApDbResolverService.js';
 import { ApRendererService } from './ApRendererService.js';
 import { ApRequestService } from './ApRequestService.js';
 import type { IObject, ICollection, IOrderedCollection } from './type.js';
 import { IdentifiableError } from '@/misc/identifiable-error.js';
+import { toArray } from '@/misc/prelude/array.js';
 
 export class Resolver {
 	private history: Set<string>;
@@ -71,6 +72,28 @@ export class Resolver {
 		}
 	}
 
+	/**
+	 * Collection / OrderedCollection の要素を、first から next をたどってページごとに取得しながら返す.
+	 * 要素そのものは解決しない
+	 * @param maxPages 取得するページ数の上限
+	 */
+	@bindThis
+	public async *iterateCollection(value: string | IObject, maxPages = 10): AsyncGenerator<string | IObject> {
+		const collection = await this.resolveCollection(value);
+
+		yield* toArray(isCollection(collection) ? collection.items : collection.orderedItems);
+
+		let next = collection.first;
+		for (let i = 0; next != null && i < maxPages; i++) {
+			const page = await this.resolve(next);
+			if (!isCollectionPage(page) && !isOrderedCollectionPage(page)) break;
+
+			yield* toArray(isCollectionPage(page) ? page.items : page.orderedItems);
+
+			next = page.next;
+		}
+	}
+
 	@bindThis
 	public async resolve(value: string | IObject): Promise<IObject> {
 		if (typeof value !== 'string') {
@@ -103,7 +126,8 @@ export class Resolver {
 			throw new IdentifiableError('09d79f9e-64f1-4316-9cfa-e75c4d091574', 'Instance is blocked');
 		}
 
-		if (this.config.signToActivityPubGet && !this.user) {
+		// Authorized fetchを有効にしているサーバー同士でも取得できるよう、自身が有効な場合は常に署名する
+		if ((this.config.signToActivityPubGet || this.meta.enableAuthorizedFetch) && !this.user) {
 			this.user = await this.instanceActorService.getInstanceActor();
 		}
 
@@ -146,6 +170,11 @@ export class Resolver {
 						if (parsed.rest === 'activity') {
 							// this refers to the create activity and not the note itself
 							return this.apRendererService.addContext(this.apRendererService.renderCreate(await this.apRendererService.renderNote(note), note));
+						} else if (parsed.rest === 'quote_request') {
+							// 引用の承認要求 (FEP-044f)
+							const quoted = note.renoteId ? await this.notesRepository.findOneBy({ id: note.renoteId }) : null;
+							if (quoted?.uri == null) throw new IdentifiableError('4f8e2a5d-3c1b-4e7a-9d6f-2b8c0e1a7f53', 'resolveLocal: the note is not a quote of a remote note');
+							return this.apRendererService.addContext(this.apRendererService.renderQuoteRequest(note, quoted.uri));
 						} else {
 							return this.apRendererService.renderNote(note);
 						}
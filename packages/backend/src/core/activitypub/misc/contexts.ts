@@ -538,6 +538,46 @@ const extension_context_definition = {
 	sensitive: 'as:sensitive',
 	Hashtag: 'as:Hashtag',
 	quoteUrl: 'as:quoteUrl',
+	// FEP-044f
+	quote: {
+		'@id': 'https://w3id.org/fep/044f#quote',
+		'@type': '@id',
+	},
+	quoteAuthorization: {
+		'@id': 'https://w3id.org/fep/044f#quoteAuthorization',
+		'@type': '@id',
+	},
+	QuoteAuthorization: 'https://w3id.org/fep/044f#QuoteAuthorization',
+	QuoteRequest: 'https://w3id.org/fep/044f#QuoteRequest',
+	// Fedibird
+	fedibird: 'http://fedibird.com/ns#',
+	quoteUri: 'fedibird:quoteUri',
+	// GoToSocial
+	gts: 'https://gotosocial.org/ns#',
+	interactionPolicy: {
+		'@id': 'gts:interactionPolicy',
+		'@type': '@id',
+	},
+	canQuote: {
+		'@id': 'gts:canQuote',
+		'@type': '@id',
+	},
+	automaticApproval: {
+		'@id': 'gts:automaticApproval',
+		'@type': '@id',
+	},
+	manualApproval: {
+		'@id': 'gts:manualApproval',
+		'@type': '@id',
+	},
+	interactingObject: {
+		'@id': 'gts:interactingObject',
+		'@type': '@id',
+	},
+	interactionTarget: {
+		'@id': 'gts:interactionTarget',
+		'@type': '@id',
+	},
 	// Mastodon
 	toot: 'http://joinmastodon.org/ns#',
 	Emoji: 'toot:Emoji',
@@ -0,0 +1,269 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import * as crypto from 'node:crypto';
+import httpSignature from '@peertube/http-signature';
+import {
+	isSfInnerList,
+	parseSfDictionary,
+	serializeSfInnerList,
+	serializeSfItem,
+} from '@/misc/structured-fields.js';
+import type { SfInnerList, SfItem } from '@/misc/structured-fields.js';
+
+/**
+ * RFC 9421 HTTP Message Signatures
+ */
+
+export type HttpMessage = {
+	method: string;
+	/** 署名対象のURL. @target-uri にはこの文字列がそのまま使われる */
+	url: string;
+	headers: Record<string, string | string[] | number | undefined>;
+};
+
+/**
+ * 検証のためにパースしたRFC 9421の署名.
+ * 受信時点でリクエストから署名ベースを組み立てておき、鍵の取得を待つジョブに渡せるようにする
+ */
+export type ParsedHttpMessageSignature = {
+	scheme: 'rfc9421';
+	label: string;
+	keyId: string;
+	algorithm: string | null;
+	created: number;
+	components: string[];
+	signatureBase: string;
+	/** base64 */
+	signature: string;
+};
+
+/**
+ * draft-cavage-http-signatures (@peertube/http-signature) とRFC 9421のどちらか
+ */
+export type ParsedHttpSignature = httpSignature.IParsedSignature | ParsedHttpMessageSignature;
+
+export const SIGNATURE_LABEL = 'sig1';
+
+/**
+ * 許容する時計のずれ(秒). @peertube/http-signature のデフォルトに合わせる
+ */
+const CLOCK_SKEW = 300;
+
+function getComponentValue(message: HttpMessage, component: SfItem): string {
+	if (typeof component.value !== 'string') throw new Error('Invalid component identifier');
+	const name = component.value;
+
+	// sf, bs, key, req, tr などのパラメータには対応しない
+	if (component.params.size > 0) throw new Error(`Unsupported component parameter: ${name}`);
+
+	if (name.startsWith('@')) {
+		const url = new URL(message.url);
+		switch (name) {
+			case '@method': return message.method.toUpperCase();
+			case '@target-uri': return message.url;
+			case '@authority': return url.host.toLowerCase();
+			case '@scheme': return url.protocol.replace(/:$/, '').toLowerCase();
+			case '@request-target': return `${url.pathname}${url.search}`;
+			case '@path': return url.pathname || '/';
+			case '@query': return url.search || '?';
+			default: throw new Error(`Unsupported derived component: ${name}`);
+		}
+	}
+
+	if (name !== name.toLowerCase()) throw new Error(`Invalid component identifier: ${name}`);
+
+	const value = Object.entries(message.headers).find(([k]) => k.toLowerCase() === name)?.[1];
+	if (value == null) throw new Error(`Missing header: ${name}`);
+
+	return (Array.isArray(value) ? value : [value.toString()]).map(v => v.trim()).join(', ');
+}
+
+/**
+ * 署名ベース(署名対象の文字列)を組み立てる
+ */
+export function createSignatureBase(message: HttpMessage, signatureParams: SfInnerList): string {
+	const lines: string[] = [];
+	const seen = new Set<string>();
+
+	for (const component of signatureParams.items) {
+		const id = serializeSfItem(component);
+		if (seen.has(id)) throw new Error(`Duplicate component: ${id}`);
+		seen.add(id);
+
+		lines.push(`${id}: ${getComponentValue(message, component)}`);
+	}
+
+	lines.push(`"@signature-params": ${serializeSfInnerList(signatureParams)}`);
+
+	return lines.join('\n');
+}
+
+/**
+ * Content-Digest ヘッダーの値を生成する
+ */
+export function createContentDigest(body: string | Buffer): string {
+	return `sha-256=:${crypto.createHash('sha256').update(body).digest('base64')}:`;
+}
+
+/**
+ * Content-Digest ヘッダーを検証する.
+ * 対応しているアルゴリズムが一つも無い場合は失敗とする
+ */
+export function verifyContentDigest(header: string | string[] | undefined, body: string | Buffer): boolean {
+	if (header == null) return false;
+
+	let digests;
+	try {
+		digests = parseSfDictionary(Array.isArray(header) ? header.join(', ') : header);
+	} catch {
+		return false;
+	}
+
+	let verified = false;
+	for (const [algorithm, member] of digests) {
+		if (algorithm !== 'sha-256' && algorithm !== 'sha-512') continue;
+		if (isSfInnerList(member) || !Buffer.isBuffer(member.value)) return false;
+
+		const hash = crypto.createHash(algorithm === 'sha-256' ? 'sha256' : 'sha512').update(body).digest();
+		if (hash.length !== member.value.length || !crypto.timingSafeEqual(hash, member.value)) return false;
+		verified = true;
+	}
+
+	return verified;
+}
+
+/**
+ * リクエストにRFC 9421の署名を付ける.
+ * 現状送信時の鍵はRSAのみなので、アルゴリズムは rsa-v1_5-sha256 固定
+ */
+export function signHttpMessage(message: HttpMessage, key: { keyId: string; privateKeyPem: string; }, components: string[]) {
+	const signatureParams: SfInnerList = {
+		items: components.map(c => ({ value: c, params: new Map() })),
+		params: new Map<string, string | number>([
+			['created', Math.floor(Date.now() / 1000)],
+			['keyid', key.keyId],
+			['alg', 'rsa-v1_5-sha256'],
+		]),
+	};
+
+	const signatureBase = createSignatureBase(message, signatureParams);
+	const signature = crypto.sign('sha256', Buffer.from(signatureBase), key.privateKeyPem).toString('base64');
+
+	return {
+		signatureBase,
+		signature,
+		signatureInputHeader: `${SIGNATURE_LABEL}=${serializeSfInnerList(signatureParams)}`,
+		signatureHeader: `${SIGNATURE_LABEL}=:${signature}:`,
+	};
+}
+
+/**
+ * リクエストのSignature-InputとSignatureヘッダーをパースし、検証に必要な情報を取り出す.
+ * 複数の署名がある場合は、要件を満たす最初のものを使う.
+ * 要件を満たす署名が無い場合は例外を投げる
+ */
+export function parseHttpMessageSignature(message: HttpMessage, opts: { requireContentDigest: boolean; }): ParsedHttpMessageSignature {
+	const signatureInputHeader = message.headers['signature-input'];
+	const signatureHeader = message.headers['signature'];
+	if (typeof signatureInputHeader !== 'string' || typeof signatureHeader !== 'string') {
+		throw new Error('Missing Signature-Input or Signature header');
+	}
+
+	const inputs = parseSfDictionary(signatureInputHeader);
+	const signatures = parseSfDictionary(signatureHeader);
+	const now = Math.floor(Date.now() / 1000);
+
+	for (const [label, input] of inputs) {
+		const signature = signatures.get(label);
+		if (signature == null || isSfInnerList(signature) || !Buffer.isBuffer(signature.value)) continue;
+		if (!isSfInnerList(input)) continue;
+
+		const keyId = input.params.get('keyid');
+		const created = input.params.get('created');
+		const expires = input.params.get('expires');
+		const algorithm = input.params.get('alg');
+		if (typeof keyId !== 'string' || typeof created !== 'number') continue;
+		if (algorithm != null && typeof algorithm !== 'string') continue;
+
+		if (Math.abs(now - created) > CLOCK_SKEW) continue;
+		if (expires != null && (typeof expires !== 'number' || expires < now)) continue;
+
+		const components = input.items.map(x => x.value);
+		const covers = (c: string) => components.includes(c);
+
+		// 少なくともメソッドと宛先(ホストを含む)は署名されている必要がある
+		if (!covers('@method')) continue;
+		if (!covers('@target-uri') && !(covers('@authority') && (covers('@path') || covers('@request-target')))) continue;
+		if (opts.requireContentDigest && !covers('content-digest')) continue;
+
+		let signatureBase;
+		try {
+			signatureBase = createSignatureBase(message, input);
+		} catch {
+			continue;
+		}
+
+		return {
+			scheme: 'rfc9421',
+			label,
+			keyId,
+			algorithm: algorithm ?? null,
+			created,
+			components: components.filter((x): x is string => typeof x === 'string'),
+			signatureBase,
+			signature: signature.value.toString('base64'),
+		};
+	}
+
+	throw new Error('No acceptable signature found');
+}
+
+/**
+ * RFC 9421の署名を公開鍵で検証する.
+ * alg パラメータが無い場合は鍵の種類から判断する
+ */
+export function verifyHttpMessageSignature(signature: ParsedHttpMessageSignature, publicKeyPem: string): boolean {
+	try {
+		const key = crypto.createPublicKey(publicKeyPem);
+		const data = Buffer.from(signature.signatureBase);
+		const sig = Buffer.from(signature.signature, 'base64');
+
+		const algorithm = signature.algorithm ?? (
+			key.asymmetricKeyType === 'rsa' ? 'rsa-v1_5-sha256' :
+			key.asymmetricKeyType === 'rsa-pss' ? 'rsa-pss-sha512' :
+			key.asymmetricKeyType === 'ed25519' ? 'ed25519' :
+			key.asymmetricKeyType === 'ec' ? 'ecdsa-p256-sha256' :
+			null
+		);
+
+		switch (algorithm) {
+			case 'rsa-v1_5-sha256':
+				return crypto.verify('sha256', data, key, sig);
+			case 'rsa-pss-sha512':
+				return crypto.verify('sha512', data, { key, padding: crypto.constants.RSA_PKCS1_PSS_PADDING, saltLength: 64 }, sig);
+			case 'ecdsa-p256-sha256':
+				return crypto.verify('sha256', data, { key, dsaEncoding: 'ieee-p1363' }, sig);
+			case 'ecdsa-p384-sha384':
+				return crypto.verify('sha384', data, { key, dsaEncoding: 'ieee-p1363' }, sig);
+			case 'ed25519':
+				return crypto.verify(null, data, key, sig);
+			default:
+				return false;
+		}
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * draft-cavageとRFC 9421のどちらの署名でも検証する
+ */
+export function verifyHttpSignature(signature: ParsedHttpSignature, publicKeyPem: string): boolean {
+	if ('signatureBase' in signature) {
+		return verifyHttpMessageSignature(signature, publicKeyPem);
+	}
+	return httpSignature.verifySignature(signature, publicKeyPem);
+}
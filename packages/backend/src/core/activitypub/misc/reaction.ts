@@ -0,0 +1,63 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+/**
+ * Like / EmojiReact によるリアクションの相互運用
+ *
+ * | 実装                  | アクティビティ        | リアクション                          |
+ * | --------------------- | --------------------- | ------------------------------------- |
+ * | Misskey系             | Like                  | `_misskey_reaction` (`content`も同じ) |
+ * | Pleroma / Akkoma      | EmojiReact            | `content` (カスタム絵文字は`tag`)      |
+ * | Fedibird              | EmojiReact            | `content` (カスタム絵文字は`tag`)      |
+ * | 旧Fedibird            | EmojiReaction         | `content`                             |
+ * | Mastodon など         | Like                  | なし (いいね)                          |
+ */
+
+import { toArray } from '@/misc/prelude/array.js';
+import { isEmoji } from '../type.js';
+import type { IApEmoji, ILike } from '../type.js';
+
+/**
+ * リアクションを Like ではなく EmojiReact で送るソフトウェア
+ */
+export const EMOJI_REACT_SOFTWARE_NAMES = ['pleroma', 'akkoma'];
+
+export type ApReaction = {
+	/**
+	 * Unicode絵文字か`:name:`. いいねの場合はnull
+	 */
+	reaction: string | null;
+
+	/**
+	 * カスタム絵文字の場合はそのEmojiタグ. nameは`:name:`に正規化される
+	 */
+	emoji: IApEmoji | null;
+};
+
+const customEmojiRegexp = /^:([\w+-]+)(?:@[\w.-]+)?:$/;
+
+/**
+ * Like / EmojiReact アクティビティからリアクションを取り出す.
+ * 他のサーバーの絵文字でリアクションされた場合 (`:name@host:`) も、送信元のサーバーの絵文字として扱う
+ */
+export function parseApReaction(activity: ILike): ApReaction {
+	const raw = activity._misskey_reaction ?? activity.content ?? activity.name;
+	const text = typeof raw === 'string' ? raw.trim() : '';
+	if (text === '') return { reaction: null, emoji: null };
+
+	const custom = text.match(customEmojiRegexp);
+	if (custom == null) return { reaction: text, emoji: null };
+
+	const name = custom[1];
+	const tag = toArray(activity.tag ?? []).filter(x => x.icon != null).filter(isEmoji).find(x => {
+		const match = x.name.trim().match(customEmojiRegexp) ?? x.name.trim().match(/^([\w+-]+)(?:@[\w.-]+)?$/);
+		return match != null && match[1] === name;
+	});
+
+	return {
+		reaction: `:${name}:`,
+		emoji: tag ? { ...tag, name: `:${name}:` } : null,
+	};
+}
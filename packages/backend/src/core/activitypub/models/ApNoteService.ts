@@ -6,7 +6,7 @@
 import { forwardRef, Inject, Injectable } from '@nestjs/common';
 import { In } from 'typeorm';
 import { DI } from '@/di-symbols.js';
-import type { PollsRepository, EmojisRepository, MiMeta } from '@/models/_.js';
+import type { PollsRepository, EmojisRepository, NotesRepository, MiMeta } from '@/models/_.js';
 import type { Config } from '@/config.js';
 import type { MiRemoteUser } from '@/models/User.js';
 import type { MiNote } from '@/models/Note.js';
@@ -15,15 +15,18 @@ import type { MiEmoji } from '@/models/Emoji.js';
 import { AppLockService } from '@/core/AppLockService.js';
 import type { MiDriveFile } from '@/models/DriveFile.js';
 import { NoteCreateService } from '@/core/NoteCreateService.js';
+import { NoteUpdateService } from '@/core/NoteUpdateService.js';
+import { NoteQuoteService } from '@/core/NoteQuoteService.js';
 import type Logger from '@/logger.js';
 import { IdService } from '@/core/IdService.js';
 import { PollService } from '@/core/PollService.js';
 import { StatusError } from '@/misc/status-error.js';
 import { UtilityService } from '@/core/UtilityService.js';
+import { FederatedInstanceService } from '@/core/FederatedInstanceService.js';
 import { bindThis } from '@/decorators.js';
 import { checkHttps } from '@/misc/check-https.js';
 import { IdentifiableError } from '@/misc/identifiable-error.js';
-import { getOneApId, getApId, getOneApHrefNullable, validPost, isEmoji, getApType } from '../type.js';
+import { getOneApId, getApId, getApIds, getOneApHrefNullable, validPost, isEmoji, isObjectLink, getApType } from '../type.js';
 import { ApLoggerService } from '../ApLoggerService.js';
 import { ApMfmService } from '../ApMfmService.js';
 import { ApDbResolverService } from '../ApDbResolverService.js';
@@ -54,6 +57,9 @@ export class ApNoteService {
 		@Inject(DI.emojisRepository)
 		private emojisRepository: EmojisRepository,
 
+		@Inject(DI.notesRepository)
+		private notesRepository: NotesRepository,
+
 		private idService: IdService,
 		private apMfmService: ApMfmService,
 		private apResolverService: ApResolverService,
@@ -70,8 +76,11 @@ export class ApNoteService {
 		private appLockService: AppLockService,
 		private pollService: PollService,
 		private noteCreateService: NoteCreateService,
+		private noteUpdateService: NoteUpdateService,
+		private noteQuoteService: NoteQuoteService,
 		private apDbResolverService: ApDbResolverService,
 		private apLoggerService: ApLoggerService,
+		private federatedInstanceService: FederatedInstanceService,
 	) {
 		this.logger = this.apLoggerService.logger;
 	}
@@ -191,6 +200,9 @@ export class ApNoteService {
 
 		const poll = await this.apQuestionService.extractPollFromQuestion(note, resolver).catch(() => undefined);
 
+		// contentMapのキーを投稿の言語とみなす
+		const lang = Object.keys(note.contentMap ?? {}).find(key => key.length <= 32 && /^[a-zA-Z]{2,3}(-[a-zA-Z0-9]{1,8})*$/.test(key)) ?? null;
+
 		//#region Contents Check
 		// 添付ファイルとユーザーをこのサーバーで登録する前に内容をチェックする
 		/**
@@ -222,11 +234,17 @@ export class ApNoteService {
 			}
 		}
 
+		// サーバーごとの連合ポリシー
+		const [rejectMedia, forceSensitive] = await Promise.all([
+			this.federatedInstanceService.hasPolicy(actor.host, 'rejectMedia'),
+			this.federatedInstanceService.hasPolicy(actor.host, 'forceSensitive'),
+		]);
+
 		// 添付ファイル
 		const files: MiDriveFile[] = [];
 
-		for (const attach of toArray(note.attachment)) {
-			attach.sensitive ??= note.sensitive;
+		for (const attach of rejectMedia ? [] : toArray(note.attachment)) {
+			attach.sensitive = forceSensitive || (attach.sensitive ?? note.sensitive);
 			const file = await this.apImageService.resolveImage(actor, attach);
 			if (file) files.push(file);
 		}
@@ -248,10 +266,27 @@ export class ApNoteService {
 				})
 			: null;
 
+		// 会話
+		// 他のサーバーのスレッドに割り込めないよう、投稿者と同じオリジンの context のみ受け入れる
+		const contextUri = note.context != null ? getApId(note.context) : null;
+		const validContextUri = contextUri != null && contextUri.length <= 512 && this.isSameOrigin(contextUri, uri) ? contextUri : null;
+		const threadId = reply == null && validContextUri != null
+			? await this.findThreadIdByContext(validContextUri)
+			: null;
+
 		// 引用
 		let quote: MiNote | undefined | null = null;
 
-		if (note._misskey_quote ?? note.quoteUrl) {
+		// FEP-e232 のLinkタグによる引用も含め、引用先として指定されている候補
+		const quoteUris = unique([
+			note.quote,
+			note._misskey_quote,
+			note.quoteUrl,
+			note.quoteUri,
+			...toArray(note.tag).filter(isObjectLink).map(x => x.href),
+		].filter(x => x != null));
+
+		if (quoteUris.length > 0) {
 			const tryResolveNote = async (uri: string): Promise<
 				| { status: 'ok'; res: MiNote }
 				| { status: 'permerror' | 'temperror' }
@@ -268,8 +303,7 @@ export class ApNoteService {
 				}
 			};
 
-			const uris = unique([note._misskey_quote, note.quoteUrl].filter(x => x != null));
-			const results = await Promise.all(uris.map(tryResolveNote));
+			const results = await Promise.all(quoteUris.map(tryResolveNote));
 
 			quote = results.filter((x): x is { status: 'ok', res: MiNote } => x.status === 'ok').map(x => x.res).at(0);
 			if (!quote) {
@@ -279,6 +313,14 @@ export class ApNoteService {
 			}
 		}
 
+		// このサーバーの投稿の引用は、引用ポリシーで許可されているか、引用の承認を得ている場合のみ受け入れる
+		if (quote && quote.userHost === null && !await this.noteQuoteService.canQuote(quote, actor)) {
+			if (!await this.noteQuoteService.verifyAuthorization(note.quoteAuthorization, quote, note.id)) {
+				this.logger.info(`Quote of ${quote.id} in ${note.id} is not allowed by its quote policy, ignoring`);
+				quote = null;
+			}
+		}
+
 		// vote
 		if (reply && reply.hasPoll) {
 			const poll = await this.pollsRepository.findOneByOrFail({ noteId: reply.id });
@@ -314,8 +356,12 @@ export class ApNoteService {
 				files,
 				reply,
 				renote: quote,
+				quotePolicy: this.parseQuotePolicy(note, actor),
+				quoteAuthorizationUri: quote ? note.quoteAuthorization ?? null : null,
+				threadId,
+				contextUri: validContextUri,
 				name: note.name,
-				cw,
+				cw: forceSensitive ? cw ?? '' : cw,
 				text,
 				localOnly: false,
 				visibility,
@@ -324,6 +370,7 @@ export class ApNoteService {
 				apHashtags,
 				apEmojis,
 				poll,
+				lang,
 				uri: note.id,
 				url: url,
 			}, silent);
@@ -340,6 +387,131 @@ export class ApNoteService {
 		}
 	}
 
+	/**
+	 * context が同じ既存の投稿からスレッドを探す.
+	 * リプライ先を取得できない投稿も、同じ会話の投稿としてまとめるため
+	 */
+	@bindThis
+	private async findThreadIdByContext(contextUri: string): Promise<string | null> {
+		const note = await this.notesRepository.findOne({
+			where: { contextUri },
+			order: { id: 'ASC' },
+		});
+
+		return note ? note.threadId ?? note.id : null;
+	}
+
+	@bindThis
+	private isSameOrigin(a: string, b: string): boolean {
+		try {
+			return new URL(a).origin === new URL(b).origin;
+		} catch {
+			return false;
+		}
+	}
+
+	/**
+	 * interactionPolicy.canQuote (GoToSocial, FEP-044f) を引用ポリシーに変換する.
+	 * 指定が無い場合は誰でも引用できるものとみなす
+	 */
+	@bindThis
+	private parseQuotePolicy(note: IPost, actor: MiRemoteUser): MiNote['quotePolicy'] {
+		const canQuote = note.interactionPolicy?.canQuote;
+		if (canQuote == null) return 'public';
+
+		const ids = [...getApIds(canQuote.automaticApproval), ...getApIds(canQuote.manualApproval)];
+		if (ids.some(id => this.apAudienceService.isPublic(id))) return 'public';
+		if (actor.followersUri != null && ids.includes(actor.followersUri)) return 'followers';
+		return 'nobody';
+	}
+
+	/**
+	 * Noteを更新します。
+	 *
+	 * Misskeyに対象のNoteが登録されていなければ何もせずnullを返します。
+	 */
+	@bindThis
+	public async updateNote(value: string | IObject, actor: MiRemoteUser, resolver?: Resolver): Promise<MiNote | null> {
+		// eslint-disable-next-line no-param-reassign
+		if (resolver == null) resolver = this.apResolverService.createResolver();
+
+		const object = await resolver.resolve(value);
+
+		const entryUri = getApId(value);
+		const err = this.validateNote(object, entryUri, actor);
+		if (err) {
+			this.logger.error(err.message, {
+				resolver: { history: resolver.getHistory() },
+				value,
+				object,
+			});
+			throw err;
+		}
+
+		const note = object as IPost;
+
+		const exist = await this.fetchNote(note);
+		if (exist == null) return null;
+
+		if (exist.userId !== actor.id) {
+			throw new IdentifiableError('5f2b9c8e-1d4a-4e7b-9a3c-6b8d2e0f7a15', 'actor is not the author of the note');
+		}
+
+		this.logger.info(`Updating the Note: ${note.id}`);
+
+		const apMentions = await this.apMentionService.extractApMentions(note.tag, resolver);
+		const apHashtags = extractApHashtags(note.tag);
+
+		const cw = note.summary === '' ? null : note.summary;
+
+		// テキストのパース
+		let text: string | null = null;
+		if (note.source?.mediaType === 'text/x.misskeymarkdown' && typeof note.source.content === 'string') {
+			text = note.source.content;
+		} else if (typeof note._misskey_content !== 'undefined') {
+			text = note._misskey_content;
+		} else if (typeof note.content === 'string') {
+			text = this.apMfmService.htmlToMfm(note.content, note.tag);
+		}
+
+		const poll = await this.apQuestionService.extractPollFromQuestion(note, resolver).catch(() => undefined);
+
+		// サーバーごとの連合ポリシー
+		const [rejectMedia, forceSensitive] = await Promise.all([
+			this.federatedInstanceService.hasPolicy(actor.host, 'rejectMedia'),
+			this.federatedInstanceService.hasPolicy(actor.host, 'forceSensitive'),
+		]);
+
+		// 添付ファイル
+		const files: MiDriveFile[] = [];
+
+		for (const attach of rejectMedia ? [] : toArray(note.attachment)) {
+			attach.sensitive = forceSensitive || (attach.sensitive ?? note.sensitive);
+			const file = await this.apImageService.resolveImage(actor, attach);
+			if (file) files.push(file);
+		}
+
+		const emojis = await this.extractEmojis(note.tag ?? [], actor.host).catch(e => {
+			this.logger.info(`extractEmojis: ${e}`);
+			return [];
+		});
+
+		const apEmojis = emojis.map(emoji => emoji.name);
+
+		const updatedAt = note.updated && this.idService.isSafeT(new Date(note.updated).valueOf()) ? new Date(note.updated) : null;
+
+		return await this.noteUpdateService.update(actor, exist, {
+			text,
+			cw: forceSensitive ? cw ?? '' : cw,
+			files,
+			poll,
+			apMentions,
+			apHashtags,
+			apEmojis,
+			updatedAt,
+		});
+	}
+
 	/**
 	 * Noteを解決します。
 	 *
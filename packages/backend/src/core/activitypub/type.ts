@@ -18,12 +18,14 @@ export interface IObject {
 	_misskey_makeNotesFollowersOnlyBefore?: number | null;
 	_misskey_makeNotesHiddenBefore?: number | null;
 	published?: string;
+	updated?: string;
 	cc?: ApObject;
 	to?: ApObject;
 	attributedTo?: ApObject;
 	attachment?: any[];
 	inReplyTo?: any;
-	replies?: ICollection;
+	replies?: string | ICollection | IOrderedCollection;
+	context?: string | IObject;
 	content?: string | null;
 	startTime?: Date;
 	endTime?: Date;
@@ -115,6 +117,20 @@ export interface IOrderedCollection extends IObject {
 	orderedItems?: ApObject;
 }
 
+export interface ICollectionPage extends IObject {
+	type: 'CollectionPage';
+	partOf?: string;
+	next?: IObject | string;
+	items?: ApObject;
+}
+
+export interface IOrderedCollectionPage extends IObject {
+	type: 'OrderedCollectionPage';
+	partOf?: string;
+	next?: IObject | string;
+	orderedItems?: ApObject;
+}
+
 export const validPost = ['Note', 'Question', 'Article', 'Audio', 'Document', 'Image', 'Page', 'Video', 'Event'];
 
 export const isPost = (object: IObject): object is IPost => {
@@ -131,6 +147,19 @@ export interface IPost extends IObject {
 	_misskey_quote?: string;
 	_misskey_content?: string;
 	quoteUrl?: string;
+	/** Fedibird */
+	quoteUri?: string;
+	/** FEP-044f */
+	quote?: string;
+	/** FEP-044f */
+	quoteAuthorization?: string;
+	interactionPolicy?: {
+		canQuote?: {
+			automaticApproval?: ApObject;
+			manualApproval?: ApObject;
+		};
+	};
+	contentMap?: Record<string, string> | null;
 }
 
 export interface IQuestion extends IObject {
@@ -206,6 +235,12 @@ export const isOrderedCollection = (object: IObject): object is IOrderedCollecti
 export const isCollectionOrOrderedCollection = (object: IObject): object is ICollection | IOrderedCollection =>
 	isCollection(object) || isOrderedCollection(object);
 
+export const isCollectionPage = (object: IObject): object is ICollectionPage =>
+	getApType(object) === 'CollectionPage';
+
+export const isOrderedCollectionPage = (object: IObject): object is IOrderedCollectionPage =>
+	getApType(object) === 'OrderedCollectionPage';
+
 export interface IApPropertyValue extends IObject {
 	type: 'PropertyValue';
 	identifier: IApPropertyValue;
@@ -252,6 +287,21 @@ export interface IApEmoji extends IObject {
 export const isEmoji = (object: IObject): object is IApEmoji =>
 	getApType(object) === 'Emoji' && !Array.isArray(object.icon) && object.icon.url != null;
 
+/**
+ * FEP-e232 Object Links
+ */
+export interface IApObjectLink extends IObject {
+	type: 'Link';
+	mediaType: string;
+	href: string;
+}
+
+export const isObjectLink = (object: IObject): object is IApObjectLink =>
+	getApType(object) === 'Link' &&
+	typeof object.href === 'string' &&
+	typeof object.mediaType === 'string' &&
+	['application/activity+json', 'application/ld+json;profile="https://www.w3.org/ns/activitystreams"'].includes(object.mediaType.replace(/\s/g, ''));
+
 export interface IKey extends IObject {
 	type: 'Key';
 	owner: string;
@@ -299,6 +349,7 @@ export interface IFollow extends IActivity {
 
 export interface IAccept extends IActivity {
 	type: 'Accept';
+	result?: IObject | string;
 }
 
 export interface IReject extends IActivity {
@@ -326,8 +377,10 @@ export interface IBlock extends IActivity {
 	type: 'Block';
 }
 
-export interface IFlag extends IActivity {
+export interface IFlag extends Omit<IActivity, 'object'> {
 	type: 'Flag';
+	/** 対象のユーザーと、その根拠となるノート */
+	object: IObject | string | (IObject | string)[];
 }
 
 export interface IMove extends IActivity {
@@ -335,6 +388,26 @@ export interface IMove extends IActivity {
 	target: IObject | string;
 }
 
+/**
+ * FEP-044f
+ */
+export interface IQuoteAuthorization extends IObject {
+	type: 'QuoteAuthorization';
+	/** 引用している投稿 */
+	interactingObject: string;
+	/** 引用された投稿 */
+	interactionTarget: string;
+}
+
+/**
+ * FEP-044f
+ */
+export interface IQuoteRequest extends IActivity {
+	type: 'QuoteRequest';
+	/** 引用している投稿 */
+	instrument?: IObject | string;
+}
+
 export const isCreate = (object: IObject): object is ICreate => getApType(object) === 'Create';
 export const isDelete = (object: IObject): object is IDelete => getApType(object) === 'Delete';
 export const isUpdate = (object: IObject): object is IUpdate => getApType(object) === 'Update';
@@ -353,4 +426,5 @@ export const isAnnounce = (object: IObject): object is IAnnounce => getApType(ob
 export const isBlock = (object: IObject): object is IBlock => getApType(object) === 'Block';
 export const isFlag = (object: IObject): object is IFlag => getApType(object) === 'Flag';
 export const isMove = (object: IObject): object is IMove => getApType(object) === 'Move';
+export const isQuoteRequest = (object: IObject): object is IQuoteRequest => getApType(object) === 'QuoteRequest';
 export const isNote = (object: IObject): object is IPost => getApType(object) === 'Note';
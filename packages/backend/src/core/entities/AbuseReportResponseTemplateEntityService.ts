@@ -0,0 +1,42 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { Inject, Injectable } from '@nestjs/common';
+import { DI } from '@/di-symbols.js';
+import type { AbuseReportResponseTemplatesRepository, MiAbuseReportResponseTemplate } from '@/models/_.js';
+import { bindThis } from '@/decorators.js';
+import type { Packed } from '@/misc/json-schema.js';
+
+@Injectable()
+export class AbuseReportResponseTemplateEntityService {
+	constructor(
+		@Inject(DI.abuseReportResponseTemplatesRepository)
+		private abuseReportResponseTemplatesRepository: AbuseReportResponseTemplatesRepository,
+	) {
+	}
+
+	@bindThis
+	public async pack(
+		src: MiAbuseReportResponseTemplate['id'] | MiAbuseReportResponseTemplate,
+	): Promise<Packed<'AbuseReportResponseTemplate'>> {
+		const template = typeof src === 'object'
+			? src
+			: await this.abuseReportResponseTemplatesRepository.findOneByOrFail({ id: src });
+
+		return {
+			id: template.id,
+			updatedAt: template.updatedAt.toISOString(),
+			name: template.name,
+			text: template.text,
+		};
+	}
+
+	@bindThis
+	public packMany(
+		templates: MiAbuseReportResponseTemplate[],
+	): Promise<Packed<'AbuseReportResponseTemplate'>[]> {
+		return Promise.all(templates.map(it => this.pack(it)));
+	}
+}
@@ -4,14 +4,16 @@
  */
 
 import { Inject, Injectable } from '@nestjs/common';
+import { In } from 'typeorm';
 import { DI } from '@/di-symbols.js';
-import type { AbuseUserReportsRepository } from '@/models/_.js';
+import type { AbuseUserReportsRepository, NotesRepository } from '@/models/_.js';
 import { awaitAll } from '@/misc/prelude/await-all.js';
 import type { MiAbuseUserReport } from '@/models/AbuseUserReport.js';
 import { bindThis } from '@/decorators.js';
 import { IdService } from '@/core/IdService.js';
 import type { Packed } from '@/misc/json-schema.js';
 import { UserEntityService } from './UserEntityService.js';
+import { NoteEntityService } from './NoteEntityService.js';
 
 @Injectable()
 export class AbuseUserReportEntityService {
@@ -19,7 +21,11 @@ export class AbuseUserReportEntityService {
 		@Inject(DI.abuseUserReportsRepository)
 		private abuseUserReportsRepository: AbuseUserReportsRepository,
 
+		@Inject(DI.notesRepository)
+		private notesRepository: NotesRepository,
+
 		private userEntityService: UserEntityService,
+		private noteEntityService: NoteEntityService,
 		private idService: IdService,
 	) {
 	}
@@ -31,6 +37,7 @@ export class AbuseUserReportEntityService {
 			packedReporter?: Packed<'UserDetailedNotMe'>,
 			packedTargetUser?: Packed<'UserDetailedNotMe'>,
 			packedAssignee?: Packed<'UserDetailedNotMe'>,
+			packedNotes?: Map<string, Packed<'Note'>>,
 		},
 	) {
 		const report = typeof src === 'object' ? src : await this.abuseUserReportsRepository.findOneByOrFail({ id: src });
@@ -39,6 +46,12 @@ export class AbuseUserReportEntityService {
 			id: report.id,
 			createdAt: this.idService.parse(report.id).date.toISOString(),
 			comment: report.comment,
+			category: report.category,
+			priority: report.priority,
+			noteIds: report.noteIds,
+			notes: hint?.packedNotes
+				? report.noteIds.map(id => hint.packedNotes?.get(id)).filter(x => x != null)
+				: this.packNotes(report.noteIds).then(notes => [...notes.values()]),
 			resolved: report.resolved,
 			reporterId: report.reporterId,
 			targetUserId: report.targetUserId,
@@ -53,6 +66,10 @@ export class AbuseUserReportEntityService {
 				schema: 'UserDetailedNotMe',
 			}) : null,
 			forwarded: report.forwarded,
+			forwardStatus: report.forwardStatus,
+			forwardedAt: report.forwardedAt?.toISOString() ?? null,
+			forwardError: report.forwardError,
+			originUri: report.originUri,
 			resolvedAs: report.resolvedAs,
 			moderationNote: report.moderationNote,
 		});
@@ -70,13 +87,27 @@ export class AbuseUserReportEntityService {
 			null,
 			{ schema: 'UserDetailedNotMe' },
 		).then(users => new Map(users.map(u => [u.id, u])));
+		const _noteMap = await this.packNotes(reports.flatMap(report => report.noteIds));
 		return Promise.all(
 			reports.map(report => {
 				const packedReporter = _userMap.get(report.reporterId);
 				const packedTargetUser = _userMap.get(report.targetUserId);
 				const packedAssignee = report.assigneeId != null ? _userMap.get(report.assigneeId) : undefined;
-				return this.pack(report, { packedReporter, packedTargetUser, packedAssignee });
+				return this.pack(report, { packedReporter, packedTargetUser, packedAssignee, packedNotes: _noteMap });
 			}),
 		);
 	}
+
+	/**
+	 * 通報に添付されたノートをモデレーター向けに非表示を解除してpackする. 削除済みのノートは含まれない
+	 */
+	@bindThis
+	private async packNotes(noteIds: MiAbuseUserReport['noteIds']): Promise<Map<string, Packed<'Note'>>> {
+		if (noteIds.length === 0) return new Map();
+
+		const notes = await this.notesRepository.findBy({ id: In(noteIds) });
+		const packed = await this.noteEntityService.packMany(notes, null, { skipHide: true });
+
+		return new Map(packed.map(note => [note.id, note]));
+	}
 }
@@ -0,0 +1,64 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { Injectable } from '@nestjs/common';
+import type { MiBlocklistEntry, MiBlocklistSubscription } from '@/models/_.js';
+import { bindThis } from '@/decorators.js';
+import { IdService } from '@/core/IdService.js';
+import type { Packed } from '@/misc/json-schema.js';
+
+@Injectable()
+export class BlocklistEntityService {
+	constructor(
+		private idService: IdService,
+	) {
+	}
+
+	@bindThis
+	public packSubscription(
+		src: MiBlocklistSubscription,
+	): Packed<'BlocklistSubscription'> {
+		return {
+			id: src.id,
+			createdAt: this.idService.parse(src.id).date.toISOString(),
+			url: src.url,
+			isActive: src.isActive,
+			recordsCount: src.records.length,
+			lastFetchedAt: src.lastFetchedAt?.toISOString() ?? null,
+			lastError: src.lastError,
+			lastAppliedAt: src.lastAppliedAt?.toISOString() ?? null,
+		};
+	}
+
+	@bindThis
+	public packSubscriptionMany(
+		src: MiBlocklistSubscription[],
+	): Packed<'BlocklistSubscription'>[] {
+		return src.map(x => this.packSubscription(x));
+	}
+
+	@bindThis
+	public packEntry(
+		src: MiBlocklistEntry,
+	): Packed<'BlocklistEntry'> {
+		return {
+			id: src.id,
+			createdAt: this.idService.parse(src.id).date.toISOString(),
+			host: src.host,
+			severity: src.severity,
+			rejectMedia: src.rejectMedia,
+			publicComment: src.publicComment,
+			source: src.source,
+			subscriptionId: src.subscriptionId,
+		};
+	}
+
+	@bindThis
+	public packEntryMany(
+		src: MiBlocklistEntry[],
+	): Packed<'BlocklistEntry'>[] {
+		return src.map(x => this.packEntry(x));
+	}
+}
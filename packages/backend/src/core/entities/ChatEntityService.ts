@@ -0,0 +1,127 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { Inject, Injectable } from '@nestjs/common';
+import { DI } from '@/di-symbols.js';
+import type { ChatMessagesRepository, ChatRoomMembershipsRepository, ChatRoomsRepository, MiUser } from '@/models/_.js';
+import type { MiChatMessage } from '@/models/ChatMessage.js';
+import type { MiChatRoom } from '@/models/ChatRoom.js';
+import type { MiChatRoomMembership } from '@/models/ChatRoomMembership.js';
+import { awaitAll } from '@/misc/prelude/await-all.js';
+import type { Packed } from '@/misc/json-schema.js';
+import { bindThis } from '@/decorators.js';
+import { IdService } from '@/core/IdService.js';
+import { UserEntityService } from './UserEntityService.js';
+import { DriveFileEntityService } from './DriveFileEntityService.js';
+
+@Injectable()
+export class ChatEntityService {
+	constructor(
+		@Inject(DI.chatMessagesRepository)
+		private chatMessagesRepository: ChatMessagesRepository,
+
+		@Inject(DI.chatRoomsRepository)
+		private chatRoomsRepository: ChatRoomsRepository,
+
+		@Inject(DI.chatRoomMembershipsRepository)
+		private chatRoomMembershipsRepository: ChatRoomMembershipsRepository,
+
+		private userEntityService: UserEntityService,
+		private driveFileEntityService: DriveFileEntityService,
+		private idService: IdService,
+	) {
+	}
+
+	@bindThis
+	public async packMessage(
+		src: MiChatMessage['id'] | MiChatMessage,
+		me?: { id: MiUser['id'] } | null | undefined,
+		options?: {
+			populateRoom?: boolean;
+		},
+		hint?: {
+			packedUsers?: Map<MiUser['id'], Packed<'UserLite'>>;
+		},
+	): Promise<Packed<'ChatMessage'>> {
+		const message = typeof src === 'object' ? src : await this.chatMessagesRepository.findOneByOrFail({ id: src });
+
+		return await awaitAll({
+			id: message.id,
+			createdAt: this.idService.parse(message.id).date.toISOString(),
+			fromUserId: message.fromUserId,
+			fromUser: hint?.packedUsers?.get(message.fromUserId) ?? this.userEntityService.pack(message.fromUser ?? message.fromUserId, me),
+			toUserId: message.toUserId,
+			toUser: message.toUserId ? hint?.packedUsers?.get(message.toUserId) ?? this.userEntityService.pack(message.toUser ?? message.toUserId, me) : null,
+			toRoomId: message.toRoomId,
+			toRoom: options?.populateRoom && message.toRoomId ? this.packRoom(message.toRoom ?? message.toRoomId, me) : undefined,
+			text: message.text,
+			fileId: message.fileId,
+			file: message.fileId ? this.driveFileEntityService.packNullable(message.fileId) : null,
+			reads: message.reads,
+		});
+	}
+
+	@bindThis
+	public async packMessages(
+		messages: MiChatMessage[],
+		me?: { id: MiUser['id'] } | null | undefined,
+		options?: {
+			populateRoom?: boolean;
+		},
+	): Promise<Packed<'ChatMessage'>[]> {
+		const _userIds = new Set(messages.flatMap(m => m.toUserId ? [m.fromUserId, m.toUserId] : [m.fromUserId]));
+		const packedUsers = await this.userEntityService.packMany(Array.from(_userIds), me)
+			.then(users => new Map(users.map(u => [u.id, u])));
+		return Promise.all(messages.map(m => this.packMessage(m, me, options, { packedUsers })));
+	}
+
+	@bindThis
+	public async packRoom(
+		src: MiChatRoom['id'] | MiChatRoom,
+		me?: { id: MiUser['id'] } | null | undefined,
+	): Promise<Packed<'ChatRoom'>> {
+		const room = typeof src === 'object' ? src : await this.chatRoomsRepository.findOneByOrFail({ id: src });
+
+		return await awaitAll({
+			id: room.id,
+			createdAt: this.idService.parse(room.id).date.toISOString(),
+			ownerId: room.ownerId,
+			owner: this.userEntityService.pack(room.owner ?? room.ownerId, me),
+			name: room.name,
+			description: room.description,
+			isJoined: me ? this.chatRoomMembershipsRepository.exists({ where: { roomId: room.id, userId: me.id } }) : undefined,
+		});
+	}
+
+	@bindThis
+	public async packRooms(
+		rooms: MiChatRoom[],
+		me?: { id: MiUser['id'] } | null | undefined,
+	): Promise<Packed<'ChatRoom'>[]> {
+		return Promise.all(rooms.map(room => this.packRoom(room, me)));
+	}
+
+	@bindThis
+	public async packRoomMembership(
+		membership: MiChatRoomMembership,
+		me?: { id: MiUser['id'] } | null | undefined,
+	): Promise<Packed<'ChatRoomMembership'>> {
+		return await awaitAll({
+			id: membership.id,
+			createdAt: this.idService.parse(membership.id).date.toISOString(),
+			userId: membership.userId,
+			user: this.userEntityService.pack(membership.user ?? membership.userId, me),
+			roomId: membership.roomId,
+		});
+	}
+
+	@bindThis
+	public async packRoomMemberships(
+		memberships: MiChatRoomMembership[],
+		me?: { id: MiUser['id'] } | null | undefined,
+	): Promise<Packed<'ChatRoomMembership'>[]> {
+		return Promise.all(memberships.map(x => this.packRoomMembership(x, me)));
+	}
+}
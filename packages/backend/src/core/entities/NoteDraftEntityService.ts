@@ -0,0 +1,74 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { Inject, Injectable } from '@nestjs/common';
+import { DI } from '@/di-symbols.js';
+import type { ChannelsRepository, NoteDraftsRepository } from '@/models/_.js';
+import type { MiNoteDraft } from '@/models/NoteDraft.js';
+import type { MiUser } from '@/models/User.js';
+import type { Packed } from '@/misc/json-schema.js';
+import { bindThis } from '@/decorators.js';
+import { IdService } from '@/core/IdService.js';
+import { DriveFileEntityService } from './DriveFileEntityService.js';
+import { NoteEntityService } from './NoteEntityService.js';
+
+@Injectable()
+export class NoteDraftEntityService {
+	constructor(
+		@Inject(DI.noteDraftsRepository)
+		private noteDraftsRepository: NoteDraftsRepository,
+
+		@Inject(DI.channelsRepository)
+		private channelsRepository: ChannelsRepository,
+
+		private driveFileEntityService: DriveFileEntityService,
+		private noteEntityService: NoteEntityService,
+		private idService: IdService,
+	) {
+	}
+
+	@bindThis
+	public async pack(
+		src: MiNoteDraft['id'] | MiNoteDraft,
+		me: { id: MiUser['id'] },
+	): Promise<Packed<'NoteDraft'>> {
+		const draft = typeof src === 'object' ? src : await this.noteDraftsRepository.findOneByOrFail({ id: src });
+
+		const channel = draft.channelId ? draft.channel ?? await this.channelsRepository.findOneBy({ id: draft.channelId }) : null;
+
+		return {
+			id: draft.id,
+			createdAt: this.idService.parse(draft.id).date.toISOString(),
+			scheduledAt: draft.scheduledAt?.toISOString() ?? null,
+			text: draft.text,
+			cw: draft.cw,
+			fileIds: draft.fileIds,
+			files: await this.driveFileEntityService.packManyByIds(draft.fileIds),
+			poll: draft.poll,
+			visibility: draft.visibility,
+			visibleUserIds: draft.visibleUserIds,
+			localOnly: draft.localOnly,
+			reactionAcceptance: draft.reactionAcceptance,
+			quotePolicy: draft.quotePolicy,
+			replyId: draft.replyId,
+			reply: draft.replyId ? await this.noteEntityService.pack(draft.reply ?? draft.replyId, me).catch(() => null) : undefined,
+			renoteId: draft.renoteId,
+			renote: draft.renoteId ? await this.noteEntityService.pack(draft.renote ?? draft.renoteId, me).catch(() => null) : undefined,
+			channelId: draft.channelId,
+			channel: channel ? {
+				id: channel.id,
+				name: channel.name,
+			} : undefined,
+		};
+	}
+
+	@bindThis
+	public packMany(
+		drafts: MiNoteDraft[],
+		me: { id: MiUser['id'] },
+	) {
+		return Promise.all(drafts.map(x => this.pack(x, me)));
+	}
+}
@@ -124,6 +124,11 @@ export class NoteEntityService implements OnModuleInit {
 		// TODO: isVisibleForMe を使うようにしても良さそう(型違うけど)
 		let hide = false;
 
+		// モデレーターによって非表示にされている
+		if (packedNote.isHiddenByModerator) {
+			hide = true;
+		}
+
 		if (packedNote.user.requireSigninToViewContents && meId == null) {
 			hide = true;
 		}
@@ -277,6 +282,11 @@ export class NoteEntityService implements OnModuleInit {
 	@bindThis
 	public async isVisibleForMe(note: MiNote, meId: MiUser['id'] | null): Promise<boolean> {
 		// This code must always be synchronized with the checks in generateVisibilityQuery.
+		// モデレーターによって非表示にされていたら投稿者以外には非表示
+		if (note.isHiddenByModerator) {
+			return meId === note.userId;
+		}
+
 		// visibility が specified かつ自分が指定されていなかったら非表示
 		if (note.visibility === 'specified') {
 			if (meId == null) {
@@ -399,13 +409,15 @@ export class NoteEntityService implements OnModuleInit {
 		const packed: Packed<'Note'> = await awaitAll({
 			id: note.id,
 			createdAt: this.idService.parse(note.id).date.toISOString(),
+			updatedAt: note.updatedAt?.toISOString() ?? undefined,
 			userId: note.userId,
 			user: packedUsers?.get(note.userId) ?? this.userEntityService.pack(note.user ?? note.userId, me),
 			text: text,
-			cw: note.cw,
+			cw: note.moderatorCw ?? note.cw,
 			visibility: note.visibility,
 			localOnly: note.localOnly,
 			reactionAcceptance: note.reactionAcceptance,
+			quotePolicy: note.quotePolicy,
 			visibleUserIds: note.visibility === 'specified' ? note.visibleUserIds : undefined,
 			renoteCount: note.renoteCount,
 			repliesCount: note.repliesCount,
@@ -416,7 +428,8 @@ export class NoteEntityService implements OnModuleInit {
 			emojis: host != null ? this.customEmojiService.populateEmojis(note.emojis, host) : undefined,
 			tags: note.tags.length > 0 ? note.tags : undefined,
 			fileIds: note.fileIds,
-			files: packedFiles != null ? this.packAttachedFiles(note.fileIds, packedFiles) : this.driveFileEntityService.packManyByIds(note.fileIds),
+			files: (packedFiles != null ? this.packAttachedFiles(note.fileIds, packedFiles) : this.driveFileEntityService.packManyByIds(note.fileIds))
+				.then(files => note.isSensitiveByModerator ? files.map(file => ({ ...file, isSensitive: true })) : files),
 			replyId: note.replyId,
 			renoteId: note.renoteId,
 			channelId: note.channelId ?? undefined,
@@ -431,6 +444,10 @@ export class NoteEntityService implements OnModuleInit {
 			mentions: note.mentions.length > 0 ? note.mentions : undefined,
 			uri: note.uri ?? undefined,
 			url: note.url ?? undefined,
+			moderatorCw: note.moderatorCw ?? undefined,
+			isHiddenByModerator: note.isHiddenByModerator || undefined,
+			isSensitiveByModerator: note.isSensitiveByModerator || undefined,
+			isExcludedFromPublicTimelines: note.isExcludedFromPublicTimelines || undefined,
 
 			...(opts.detail ? {
 				clippedCount: note.clippedCount,
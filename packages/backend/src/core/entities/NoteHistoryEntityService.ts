@@ -0,0 +1,50 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { Inject, Injectable } from '@nestjs/common';
+import { DI } from '@/di-symbols.js';
+import type { NoteHistoriesRepository } from '@/models/_.js';
+import type { MiNoteHistory } from '@/models/NoteHistory.js';
+import type { Packed } from '@/misc/json-schema.js';
+import { bindThis } from '@/decorators.js';
+import { IdService } from '@/core/IdService.js';
+import { DriveFileEntityService } from './DriveFileEntityService.js';
+
+@Injectable()
+export class NoteHistoryEntityService {
+	constructor(
+		@Inject(DI.noteHistoriesRepository)
+		private noteHistoriesRepository: NoteHistoriesRepository,
+
+		private driveFileEntityService: DriveFileEntityService,
+		private idService: IdService,
+	) {
+	}
+
+	@bindThis
+	public async pack(
+		src: MiNoteHistory['id'] | MiNoteHistory,
+	): Promise<Packed<'NoteHistory'>> {
+		const history = typeof src === 'object' ? src : await this.noteHistoriesRepository.findOneByOrFail({ id: src });
+
+		return {
+			id: history.id,
+			createdAt: this.idService.parse(history.id).date.toISOString(),
+			noteId: history.noteId,
+			text: history.text,
+			cw: history.cw,
+			fileIds: history.fileIds,
+			files: await this.driveFileEntityService.packManyByIds(history.fileIds),
+			poll: history.poll,
+		};
+	}
+
+	@bindThis
+	public packMany(
+		histories: MiNoteHistory[],
+	) {
+		return Promise.all(histories.map(x => this.pack(x)));
+	}
+}
@@ -169,6 +169,18 @@ export class NotificationEntityService implements OnModuleInit {
 				exportedEntity: notification.exportedEntity,
 				fileId: notification.fileId,
 			} : {}),
+			...(notification.type === 'abuseReportResolved' ? {
+				reportId: notification.reportId,
+				resolvedAs: notification.resolvedAs,
+				message: notification.message,
+			} : {}),
+			...(notification.type === 'userWarningAppealResolved' ? {
+				userWarningId: notification.userWarningId,
+				appealStatus: notification.appealStatus,
+			} : {}),
+			...(notification.type === 'scheduledNotePostFailed' ? {
+				noteDraftId: notification.noteDraftId,
+			} : {}),
 			...(notification.type === 'app' ? {
 				body: notification.customBody,
 				header: notification.customHeader,
@@ -0,0 +1,98 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { Inject, Injectable } from '@nestjs/common';
+import { DI } from '@/di-symbols.js';
+import type { RolesRepository, UserWarningsRepository } from '@/models/_.js';
+import type { MiUserWarning } from '@/models/UserWarning.js';
+import type { MiUser } from '@/models/User.js';
+import { awaitAll } from '@/misc/prelude/await-all.js';
+import { bindThis } from '@/decorators.js';
+import { IdService } from '@/core/IdService.js';
+import type { Packed } from '@/misc/json-schema.js';
+import { UserEntityService } from './UserEntityService.js';
+import { NoteEntityService } from './NoteEntityService.js';
+
+@Injectable()
+export class UserWarningEntityService {
+	constructor(
+		@Inject(DI.userWarningsRepository)
+		private userWarningsRepository: UserWarningsRepository,
+
+		@Inject(DI.rolesRepository)
+		private rolesRepository: RolesRepository,
+
+		private userEntityService: UserEntityService,
+		private noteEntityService: NoteEntityService,
+		private idService: IdService,
+	) {
+	}
+
+	/**
+	 * @param opts.detail モデレーター向けに、警告したモデレーターや通報などを含める
+	 */
+	@bindThis
+	public async pack(
+		src: MiUserWarning['id'] | MiUserWarning,
+		me: { id: MiUser['id'] } | null | undefined,
+		opts?: {
+			detail?: boolean;
+		},
+	): Promise<Packed<'UserWarning'>> {
+		const warning = typeof src === 'object' ? src : await this.userWarningsRepository.findOneByOrFail({ id: src });
+
+		return await awaitAll({
+			id: warning.id,
+			createdAt: this.idService.parse(warning.id).date.toISOString(),
+			userId: warning.userId,
+			reason: warning.reason,
+			noteId: warning.noteId,
+			// 警告の対象になったノートはモデレーターによって非表示にされていることがある
+			note: warning.noteId ? this.noteEntityService.pack(warning.note ?? warning.noteId, me, { skipHide: true }).catch(() => null) : null,
+			roleExpiresAt: warning.roleExpiresAt?.toISOString() ?? null,
+			acknowledgedAt: warning.acknowledgedAt?.toISOString() ?? null,
+			revokedAt: warning.revokedAt?.toISOString() ?? null,
+			appealComment: warning.appealComment,
+			appealedAt: warning.appealedAt?.toISOString() ?? null,
+			appealStatus: warning.appealStatus,
+			...(opts?.detail ? {
+				user: this.userEntityService.pack(warning.user ?? warning.userId, me),
+				moderatorId: warning.moderatorId,
+				moderator: warning.moderatorId ? this.userEntityService.pack(warning.moderator ?? warning.moderatorId, me) : null,
+				reportId: warning.reportId,
+				roleId: warning.roleId,
+				role: warning.roleId ? this.packRole(warning.roleId) : null,
+			} : {}),
+		});
+	}
+
+	@bindThis
+	public packMany(
+		warnings: MiUserWarning[],
+		me: { id: MiUser['id'] } | null | undefined,
+		opts?: {
+			detail?: boolean;
+		},
+	): Promise<Packed<'UserWarning'>[]> {
+		return Promise.all(warnings.map(warning => this.pack(warning, me, opts)));
+	}
+
+	@bindThis
+	private async packRole(roleId: NonNullable<MiUserWarning['roleId']>): Promise<Packed<'RoleLite'> | null> {
+		const role = await this.rolesRepository.findOneBy({ id: roleId });
+		if (role == null) return null;
+
+		return {
+			id: role.id,
+			name: role.name,
+			color: role.color,
+			iconUrl: role.iconUrl,
+			description: role.description,
+			isModerator: role.isModerator,
+			isAdministrator: role.isAdministrator,
+			displayOrder: role.displayOrder,
+		};
+	}
+}
@@ -0,0 +1,44 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { Injectable } from '@nestjs/common';
+import type { MiWebhookDeliveryLog } from '@/models/_.js';
+import { bindThis } from '@/decorators.js';
+import { IdService } from '@/core/IdService.js';
+import type { Packed } from '@/misc/json-schema.js';
+
+@Injectable()
+export class WebhookDeliveryLogEntityService {
+	constructor(
+		private idService: IdService,
+	) {
+	}
+
+	@bindThis
+	public pack(
+		src: MiWebhookDeliveryLog,
+	): Packed<'WebhookDeliveryLog'> {
+		return {
+			id: src.id,
+			createdAt: this.idService.parse(src.id).date.toISOString(),
+			eventId: src.eventId,
+			type: src.type,
+			url: src.url,
+			requestBody: src.requestBody,
+			statusCode: src.statusCode,
+			latency: src.latency,
+			error: src.error,
+			attempt: src.attempt,
+			success: src.success,
+		};
+	}
+
+	@bindThis
+	public packMany(
+		src: MiWebhookDeliveryLog[],
+	): Packed<'WebhookDeliveryLog'>[] {
+		return src.map(x => this.pack(x));
+	}
+}
@@ -0,0 +1,253 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { Inject, Injectable } from '@nestjs/common';
+import { In } from 'typeorm';
+import { DI } from '@/di-symbols.js';
+import type { Config } from '@/config.js';
+import { bindThis } from '@/decorators.js';
+import type { MiNote } from '@/models/Note.js';
+import type { NotesRepository } from '@/models/_.js';
+import type { MiUser } from '@/models/_.js';
+import { isUserRelated } from '@/misc/is-user-related.js';
+import { CacheService } from '@/core/CacheService.js';
+import { IdService } from '@/core/IdService.js';
+import { expandLang, isInIndexScope, iterateNotesForIndex } from './NoteSearchProvider.js';
+import type { NoteSearchProvider, SearchIndexScope, SearchOpts, SearchPagination, SearchTerms } from './NoteSearchProvider.js';
+import type { Index, MeiliSearch } from 'meilisearch';
+
+type K = string;
+type V = string | number | boolean;
+type Q =
+	{ op: '=', k: K, v: V } |
+	{ op: '!=', k: K, v: V } |
+	{ op: '>', k: K, v: number } |
+	{ op: '<', k: K, v: number } |
+	{ op: '>=', k: K, v: number } |
+	{ op: '<=', k: K, v: number } |
+	{ op: 'is null', k: K } |
+	{ op: 'is not null', k: K } |
+	{ op: 'and', qs: Q[] } |
+	{ op: 'or', qs: Q[] } |
+	{ op: 'not', q: Q };
+
+function compileValue(value: V): string {
+	if (typeof value === 'string') {
+		return `'${value}'`; // TODO: escape
+	} else if (typeof value === 'number') {
+		return value.toString();
+	} else if (typeof value === 'boolean') {
+		return value.toString();
+	}
+	throw new Error('unrecognized value');
+}
+
+function compileQuery(q: Q): string {
+	switch (q.op) {
+		case '=': return `(${q.k} = ${compileValue(q.v)})`;
+		case '!=': return `(${q.k} != ${compileValue(q.v)})`;
+		case '>': return `(${q.k} > ${compileValue(q.v)})`;
+		case '<': return `(${q.k} < ${compileValue(q.v)})`;
+		case '>=': return `(${q.k} >= ${compileValue(q.v)})`;
+		case '<=': return `(${q.k} <= ${compileValue(q.v)})`;
+		case 'and': return q.qs.length === 0 ? '' : `(${ q.qs.map(_q => compileQuery(_q)).join(' AND ') })`;
+		case 'or': return q.qs.length === 0 ? '' : `(${ q.qs.map(_q => compileQuery(_q)).join(' OR ') })`;
+		case 'is null': return `(${q.k} IS NULL)`;
+		case 'is not null': return `(${q.k} IS NOT NULL)`;
+		case 'not': return `(NOT ${compileQuery(q.q)})`;
+		default: throw new Error('unrecognized query operator');
+	}
+}
+
+@Injectable()
+export class MeilisearchNoteSearchProvider implements NoteSearchProvider {
+	private readonly meilisearchIndexScope: SearchIndexScope = 'local';
+	private readonly meilisearchNoteIndex: Index | null = null;
+
+	constructor(
+		@Inject(DI.config)
+		private config: Config,
+
+		@Inject(DI.meilisearch)
+		private meilisearch: MeiliSearch | null,
+
+		@Inject(DI.notesRepository)
+		private notesRepository: NotesRepository,
+
+		private cacheService: CacheService,
+		private idService: IdService,
+	) {
+		if (meilisearch) {
+			this.meilisearchNoteIndex = meilisearch.index(`${config.meilisearch!.index}---notes`);
+			this.meilisearchNoteIndex.updateSettings({
+				searchableAttributes: [
+					'text',
+					'cw',
+				],
+				sortableAttributes: [
+					'createdAt',
+				],
+				filterableAttributes: [
+					'createdAt',
+					'userId',
+					'userHost',
+					'channelId',
+					'tags',
+					'hasFile',
+					'hasPoll',
+					'replyId',
+					'lang',
+				],
+				typoTolerance: {
+					enabled: false,
+				},
+				pagination: {
+					maxTotalHits: 10000,
+				},
+			});
+		}
+
+		if (config.meilisearch?.scope) {
+			this.meilisearchIndexScope = config.meilisearch.scope;
+		}
+	}
+
+	@bindThis
+	private isIndexable(note: MiNote): boolean {
+		if (note.text == null && note.cw == null) return false;
+		if (!['home', 'public'].includes(note.visibility)) return false;
+		return isInIndexScope(this.meilisearchIndexScope, note.userHost);
+	}
+
+	@bindThis
+	private toDocument(note: MiNote) {
+		return {
+			id: note.id,
+			createdAt: this.idService.parse(note.id).date.getTime(),
+			userId: note.userId,
+			userHost: note.userHost,
+			channelId: note.channelId,
+			cw: note.cw,
+			text: note.text,
+			tags: note.tags,
+		};
+	}
+
+	@bindThis
+	public async indexNote(note: MiNote): Promise<void> {
+		if (!this.meilisearch) return;
+		if (!this.isIndexable(note)) return;
+
+		await this.meilisearchNoteIndex?.addDocuments([this.toDocument(note)], {
+			primaryKey: 'id',
+		});
+	}
+
+	@bindThis
+	public async unindexNote(note: MiNote): Promise<void> {
+		if (!this.meilisearch) return;
+		if (!['home', 'public'].includes(note.visibility)) return;
+
+		await this.meilisearchNoteIndex?.deleteDocument(note.id);
+	}
+
+	@bindThis
+	public async searchNote(
+		terms: SearchTerms,
+		me: MiUser | null,
+		opts: SearchOpts,
+		pagination: SearchPagination,
+	): Promise<MiNote[]> {
+		if (!this.meilisearch || !this.meilisearchNoteIndex) {
+			throw new Error('MeiliSearch is not available');
+		}
+
+		const filter: Q = {
+			op: 'and',
+			qs: [],
+		};
+		if (pagination.untilId) filter.qs.push({
+			op: '<',
+			k: 'createdAt',
+			v: this.idService.parse(pagination.untilId).date.getTime(),
+		});
+		if (pagination.sinceId) filter.qs.push({
+			op: '>',
+			k: 'createdAt',
+			v: this.idService.parse(pagination.sinceId).date.getTime(),
+		});
+		if (opts.userId) filter.qs.push({ op: '=', k: 'userId', v: opts.userId });
+		if (opts.channelId) filter.qs.push({ op: '=', k: 'channelId', v: opts.channelId });
+		if (opts.host) {
+			if (opts.host === '.') {
+				filter.qs.push({ op: 'is null', k: 'userHost' });
+			} else {
+				filter.qs.push({ op: '=', k: 'userHost', v: opts.host });
+			}
+		}
+
+		if (opts.hasFile) filter.qs.push({ op: '=', k: 'hasFile', v: true });
+		if (opts.hasPoll) filter.qs.push({ op: '=', k: 'hasPoll', v: true });
+		if (opts.inChannel) filter.qs.push({ op: 'is not null', k: 'channelId' });
+		if (opts.sinceDate) filter.qs.push({ op: '>', k: 'createdAt', v: opts.sinceDate });
+		if (opts.untilDate) filter.qs.push({ op: '<', k: 'createdAt', v: opts.untilDate });
+		if (opts.lang) filter.qs.push({ op: '=', k: 'lang', v: opts.lang });
+		if (opts.reply === true) filter.qs.push({ op: 'is not null', k: 'replyId' });
+		if (opts.reply === false) filter.qs.push({ op: 'is null', k: 'replyId' });
+
+		// 除外する語はMeilisearchのバージョンによって挙動が異なるため、DBから取得した後に取り除く
+		const q = [...terms.words, ...terms.phrases.map(phrase => `"${phrase}"`)].join(' ');
+		const excludedWords = terms.excludedWords.map(word => word.toLowerCase());
+
+		const res = await this.meilisearchNoteIndex.search(q, {
+			sort: ['createdAt:desc'],
+			matchingStrategy: 'all',
+			attributesToRetrieve: ['id', 'createdAt'],
+			filter: compileQuery(filter),
+			limit: pagination.limit,
+		});
+		if (res.hits.length === 0) {
+			return [];
+		}
+
+		const [
+			userIdsWhoMeMuting,
+			userIdsWhoBlockingMe,
+		] = me
+			? await Promise.all([
+				this.cacheService.userMutingsCache.fetch(me.id),
+				this.cacheService.userBlockedCache.fetch(me.id),
+			])
+			: [new Set<string>(), new Set<string>()];
+		const notes = (await this.notesRepository.findBy({
+			id: In(res.hits.map(x => x.id)),
+		})).filter(note => {
+			if (me && isUserRelated(note, userIdsWhoBlockingMe)) return false;
+			if (me && isUserRelated(note, userIdsWhoMeMuting)) return false;
+			if (excludedWords.some(word => note.text?.toLowerCase().includes(word))) return false;
+			return true;
+		});
+
+		return notes.sort((a, b) => a.id > b.id ? -1 : 1);
+	}
+
+	@bindThis
+	public async rebuildIndex(onProgress: (progress: number) => void): Promise<void> {
+		if (!this.meilisearch || !this.meilisearchNoteIndex) {
+			throw new Error('MeiliSearch is not available');
+		}
+
+		await this.meilisearchNoteIndex.deleteAllDocuments();
+
+		for await (const notes of iterateNotesForIndex(this.notesRepository, this.meilisearchIndexScope, onProgress)) {
+			const documents = notes.filter(this.isIndexable).map(this.toDocument);
+			if (documents.length === 0) continue;
+
+			await this.meilisearchNoteIndex.addDocuments(documents, {
+				primaryKey: 'id',
+			});
+		}
+	}
+}
@@ -0,0 +1,127 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { Brackets } from 'typeorm';
+import type { NotesRepository } from '@/models/_.js';
+import type { MiNote } from '@/models/Note.js';
+import type { MiUser } from '@/models/User.js';
+
+/**
+ * 検索クエリのうち全文検索にかける部分
+ */
+export type SearchTerms = {
+	words: string[];
+	phrases: string[];
+	excludedWords: string[];
+};
+
+export type SearchOpts = {
+	userId?: MiNote['userId'] | null;
+	channelId?: MiNote['channelId'] | null;
+	host?: string | null;
+
+	// 以下は検索構文で指定される条件
+	hasFile?: boolean;
+	hasPoll?: boolean;
+	inChannel?: boolean;
+	sinceDate?: number | null;
+	untilDate?: number | null;
+	lang?: string | null;
+	/** trueならリプライのみ、falseならリプライ以外 */
+	reply?: boolean | null;
+};
+
+export type SearchPagination = {
+	untilId?: MiNote['id'];
+	sinceId?: MiNote['id'];
+	limit: number;
+};
+
+/**
+ * 外部の検索エンジンに投稿を登録する範囲
+ */
+export type SearchIndexScope = 'local' | 'global' | string[];
+
+export interface NoteSearchProvider {
+	indexNote(note: MiNote): Promise<void>;
+
+	unindexNote(note: MiNote): Promise<void>;
+
+	searchNote(
+		terms: SearchTerms,
+		me: MiUser | null,
+		opts: SearchOpts,
+		pagination: SearchPagination,
+	): Promise<MiNote[]>;
+
+	/**
+	 * インデックスを作り直す
+	 * @param onProgress 進捗(0-100)を受け取るコールバック
+	 */
+	rebuildIndex(onProgress: (progress: number) => void): Promise<void>;
+}
+
+/**
+ * 言語タグを、検索エンジン向けに自身とその主言語タグの配列にする (例: zh-tw → zh-tw, zh)
+ */
+export function expandLang(lang: MiNote['lang']): string[] {
+	if (lang == null) return [];
+	const primary = lang.split('-')[0];
+	return primary === lang ? [lang] : [lang, primary];
+}
+
+export function isInIndexScope(scope: SearchIndexScope, userHost: MiNote['userHost']): boolean {
+	switch (scope) {
+		case 'global': return true;
+		case 'local': return userHost == null;
+		default: return userHost == null || scope.includes(userHost);
+	}
+}
+
+/**
+ * インデックスの再構築のために、範囲内の投稿を古い順に少しずつ取得する
+ */
+export async function* iterateNotesForIndex(
+	notesRepository: NotesRepository,
+	scope: SearchIndexScope,
+	onProgress: (progress: number) => void,
+	batchSize = 1000,
+): AsyncGenerator<MiNote[]> {
+	const makeQuery = () => {
+		const query = notesRepository.createQueryBuilder('note')
+			.where(new Brackets(qb => {
+				qb.where('note.text IS NOT NULL').orWhere('note.cw IS NOT NULL');
+			}));
+
+		if (scope === 'local') {
+			query.andWhere('note.userHost IS NULL');
+		} else if (Array.isArray(scope)) {
+			query.andWhere(new Brackets(qb => {
+				qb.where('note.userHost IS NULL').orWhere('note.userHost IN (:...hosts)', { hosts: scope });
+			}));
+		}
+
+		return query;
+	};
+
+	const total = await makeQuery().getCount();
+	let processed = 0;
+	let cursor: MiNote['id'] | null = null;
+
+	while (true) {
+		const query = makeQuery();
+		if (cursor) query.andWhere('note.id > :cursor', { cursor });
+		const notes = await query.orderBy('note.id', 'ASC').limit(batchSize).getMany();
+		if (notes.length === 0) break;
+
+		yield notes;
+
+		cursor = notes.at(-1)!.id;
+		processed += notes.length;
+		onProgress(total === 0 ? 100 : Math.min(processed / total * 100, 100));
+	}
+
+	onProgress(100);
+}
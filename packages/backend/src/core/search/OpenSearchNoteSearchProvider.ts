@@ -0,0 +1,229 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { Inject, Injectable } from '@nestjs/common';
+import { DI } from '@/di-symbols.js';
+import type { Config } from '@/config.js';
+import { bindThis } from '@/decorators.js';
+import type { MiNote } from '@/models/Note.js';
+import type { NotesRepository } from '@/models/_.js';
+import type { MiUser } from '@/models/_.js';
+import { HttpRequestService } from '@/core/HttpRequestService.js';
+import { QueryService } from '@/core/QueryService.js';
+import { IdService } from '@/core/IdService.js';
+import { StatusError } from '@/misc/status-error.js';
+import { expandLang, isInIndexScope, iterateNotesForIndex } from './NoteSearchProvider.js';
+import type { NoteSearchProvider, SearchIndexScope, SearchOpts, SearchPagination, SearchTerms } from './NoteSearchProvider.js';
+
+/**
+ * OpenSearch / Elasticsearch互換のREST APIを使う
+ */
+@Injectable()
+export class OpenSearchNoteSearchProvider implements NoteSearchProvider {
+	private readonly indexScope: SearchIndexScope = 'local';
+
+	constructor(
+		@Inject(DI.config)
+		private config: Config,
+
+		@Inject(DI.notesRepository)
+		private notesRepository: NotesRepository,
+
+		private httpRequestService: HttpRequestService,
+		private queryService: QueryService,
+		private idService: IdService,
+	) {
+		if (config.opensearch?.scope) {
+			this.indexScope = config.opensearch.scope;
+		}
+	}
+
+	@bindThis
+	private async request(method: string, path: string, body?: unknown, options: { ignoreNotFound?: boolean } = {}): Promise<any> {
+		const opensearch = this.config.opensearch;
+		if (!opensearch) {
+			throw new Error('OpenSearch is not configured');
+		}
+
+		const headers: Record<string, string> = {
+			'Content-Type': typeof body === 'string' ? 'application/x-ndjson' : 'application/json',
+		};
+		if (opensearch.user) {
+			headers['Authorization'] = `Basic ${Buffer.from(`${opensearch.user}:${opensearch.pass ?? ''}`).toString('base64')}`;
+		}
+
+		try {
+			const res = await this.httpRequestService.send(`${opensearch.ssl ? 'https' : 'http'}://${opensearch.host}:${opensearch.port}${path}`, {
+				method,
+				headers,
+				body: body == null ? undefined : typeof body === 'string' ? body : JSON.stringify(body),
+				timeout: 30 * 1000,
+				isLocalAddressAllowed: true,
+			});
+			return await res.json();
+		} catch (err) {
+			if (options.ignoreNotFound && err instanceof StatusError && err.statusCode === 404) return null;
+			throw err;
+		}
+	}
+
+	private get indexName(): string {
+		return `${this.config.opensearch?.index}---notes`;
+	}
+
+	@bindThis
+	private isIndexable(note: MiNote): boolean {
+		if (note.text == null && note.cw == null) return false;
+		return isInIndexScope(this.indexScope, note.userHost);
+	}
+
+	@bindThis
+	private toDocument(note: MiNote) {
+		return {
+			createdAt: this.idService.parse(note.id).date.getTime(),
+			userId: note.userId,
+			userHost: note.userHost,
+			channelId: note.channelId,
+			replyId: note.replyId,
+			hasFile: note.fileIds.length > 0,
+			hasPoll: note.hasPoll,
+			lang: expandLang(note.lang),
+			visibility: note.visibility,
+			cw: note.cw,
+			text: note.text,
+			tags: note.tags,
+		};
+	}
+
+	@bindThis
+	public async indexNote(note: MiNote): Promise<void> {
+		if (!this.isIndexable(note)) return;
+
+		await this.request('PUT', `/${this.indexName}/_doc/${note.id}`, this.toDocument(note));
+	}
+
+	@bindThis
+	public async unindexNote(note: MiNote): Promise<void> {
+		await this.request('DELETE', `/${this.indexName}/_doc/${note.id}`, undefined, { ignoreNotFound: true });
+	}
+
+	@bindThis
+	public async searchNote(
+		terms: SearchTerms,
+		me: MiUser | null,
+		opts: SearchOpts,
+		pagination: SearchPagination,
+	): Promise<MiNote[]> {
+		const filter: unknown[] = [];
+
+		if (pagination.untilId || pagination.sinceId) {
+			filter.push({
+				range: {
+					createdAt: {
+						...(pagination.untilId ? { lt: this.idService.parse(pagination.untilId).date.getTime() } : {}),
+						...(pagination.sinceId ? { gt: this.idService.parse(pagination.sinceId).date.getTime() } : {}),
+					},
+				},
+			});
+		}
+		if (opts.sinceDate || opts.untilDate) {
+			filter.push({
+				range: {
+					createdAt: {
+						...(opts.untilDate ? { lt: opts.untilDate } : {}),
+						...(opts.sinceDate ? { gt: opts.sinceDate } : {}),
+					},
+				},
+			});
+		}
+		if (opts.userId) filter.push({ term: { userId: opts.userId } });
+		if (opts.channelId) filter.push({ term: { channelId: opts.channelId } });
+		if (opts.host) {
+			if (opts.host === '.') {
+				filter.push({ bool: { must_not: { exists: { field: 'userHost' } } } });
+			} else {
+				filter.push({ term: { userHost: opts.host } });
+			}
+		}
+		if (opts.hasFile) filter.push({ term: { hasFile: true } });
+		if (opts.hasPoll) filter.push({ term: { hasPoll: true } });
+		if (opts.inChannel) filter.push({ exists: { field: 'channelId' } });
+		if (opts.lang) filter.push({ term: { lang: opts.lang } });
+		if (opts.reply === true) filter.push({ exists: { field: 'replyId' } });
+		if (opts.reply === false) filter.push({ bool: { must_not: { exists: { field: 'replyId' } } } });
+		// 非ログイン時は公開範囲で絞り込めるものだけを返す
+		// それ以外の公開範囲の判定はDBから取得する際に行う
+		if (me == null) filter.push({ terms: { visibility: ['public', 'home'] } });
+
+		const res = await this.request('POST', `/${this.indexName}/_search`, {
+			size: pagination.limit,
+			sort: [{ createdAt: 'desc' }],
+			_source: false,
+			query: {
+				bool: {
+					must: [
+						...terms.words.map(word => ({ multi_match: { query: word, fields: ['text', 'cw'], operator: 'and' } })),
+						...terms.phrases.map(phrase => ({ multi_match: { query: phrase, fields: ['text', 'cw'], type: 'phrase' } })),
+					],
+					must_not: terms.excludedWords.map(word => ({ multi_match: { query: word, fields: ['text', 'cw'], type: 'phrase' } })),
+					filter,
+				},
+			},
+		});
+
+		const ids = ((res?.hits?.hits ?? []) as { _id: string }[]).map(hit => hit._id);
+		if (ids.length === 0) {
+			return [];
+		}
+
+		const query = this.notesRepository.createQueryBuilder('note')
+			.where('note.id IN (:...ids)', { ids })
+			.innerJoinAndSelect('note.user', 'user')
+			.leftJoinAndSelect('note.reply', 'reply')
+			.leftJoinAndSelect('note.renote', 'renote')
+			.leftJoinAndSelect('reply.user', 'replyUser')
+			.leftJoinAndSelect('renote.user', 'renoteUser');
+
+		this.queryService.generateVisibilityQuery(query, me);
+		if (me) this.queryService.generateMutedUserQuery(query, me);
+		if (me) this.queryService.generateBlockedUserQuery(query, me);
+
+		return query.orderBy('note.id', 'DESC').getMany();
+	}
+
+	@bindThis
+	public async rebuildIndex(onProgress: (progress: number) => void): Promise<void> {
+		await this.request('DELETE', `/${this.indexName}`, undefined, { ignoreNotFound: true });
+		await this.request('PUT', `/${this.indexName}`, {
+			mappings: {
+				properties: {
+					createdAt: { type: 'date', format: 'epoch_millis' },
+					userId: { type: 'keyword' },
+					userHost: { type: 'keyword' },
+					channelId: { type: 'keyword' },
+					replyId: { type: 'keyword' },
+					hasFile: { type: 'boolean' },
+					hasPoll: { type: 'boolean' },
+					lang: { type: 'keyword' },
+					visibility: { type: 'keyword' },
+					tags: { type: 'keyword' },
+					cw: { type: 'text' },
+					text: { type: 'text' },
+				},
+			},
+		});
+
+		for await (const notes of iterateNotesForIndex(this.notesRepository, this.indexScope, onProgress)) {
+			const lines = notes.filter(this.isIndexable).flatMap(note => [
+				JSON.stringify({ index: { _index: this.indexName, _id: note.id } }),
+				JSON.stringify(this.toDocument(note)),
+			]);
+			if (lines.length === 0) continue;
+
+			// bulk APIは末尾の改行が必須
+			await this.request('POST', '/_bulk', lines.join('\n') + '\n');
+		}
+	}
+}
@@ -0,0 +1,65 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { Inject, Injectable } from '@nestjs/common';
+import type { SelectQueryBuilder } from 'typeorm';
+import { DI } from '@/di-symbols.js';
+import type { Config } from '@/config.js';
+import type { NotesRepository } from '@/models/_.js';
+import type { MiNote } from '@/models/Note.js';
+import { sqlLikeEscape } from '@/misc/sql-like-escape.js';
+import { QueryService } from '@/core/QueryService.js';
+import { bindThis } from '@/decorators.js';
+import { IdService } from '@/core/IdService.js';
+import { SqlNoteSearchProvider } from './SqlNoteSearchProvider.js';
+import type { SearchTerms } from './NoteSearchProvider.js';
+
+/**
+ * sqlLike / sqlPgroonga
+ * ほとんど内容に差がないのでsqlLikeとsqlPgroongaを同じ処理にしている.
+ */
+@Injectable()
+export class SqlLikeNoteSearchProvider extends SqlNoteSearchProvider {
+	constructor(
+		@Inject(DI.config)
+		private config: Config,
+
+		@Inject(DI.notesRepository)
+		notesRepository: NotesRepository,
+
+		queryService: QueryService,
+		idService: IdService,
+	) {
+		super(notesRepository, queryService, idService);
+	}
+
+	@bindThis
+	protected applyMatchQuery(query: SelectQueryBuilder<MiNote>, terms: SearchTerms): void {
+		const isPgroonga = this.config.fulltextSearch?.provider === 'sqlPgroonga';
+
+		// 語とフレーズの区別はpgroongaでもLIKEでも部分一致なので同じように扱う
+		[...terms.words, ...terms.phrases].forEach((term, i) => {
+			if (isPgroonga) {
+				query.andWhere(`note.text &@ :q${i}`, { [`q${i}`]: term });
+			} else {
+				query.andWhere(`LOWER(note.text) LIKE :q${i}`, { [`q${i}`]: `%${ sqlLikeEscape(term.toLowerCase()) }%` });
+			}
+		});
+
+		terms.excludedWords.forEach((term, i) => {
+			if (isPgroonga) {
+				query.andWhere(`(note.text IS NULL OR NOT (note.text &@ :excluded${i}))`, { [`excluded${i}`]: term });
+			} else {
+				query.andWhere(`(note.text IS NULL OR LOWER(note.text) NOT LIKE :excluded${i})`, { [`excluded${i}`]: `%${ sqlLikeEscape(term.toLowerCase()) }%` });
+			}
+		});
+	}
+
+	@bindThis
+	public async rebuildIndex(onProgress: (progress: number) => void): Promise<void> {
+		// sqlLikeはインデックスを使わず、pgroongaのインデックスは管理者が作成するため何もしない
+		onProgress(100);
+	}
+}
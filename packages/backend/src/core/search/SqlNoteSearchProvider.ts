@@ -0,0 +1,101 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { Brackets } from 'typeorm';
+import type { SelectQueryBuilder } from 'typeorm';
+import type { NotesRepository } from '@/models/_.js';
+import type { MiNote } from '@/models/Note.js';
+import type { MiUser } from '@/models/User.js';
+import type { QueryService } from '@/core/QueryService.js';
+import type { IdService } from '@/core/IdService.js';
+import { bindThis } from '@/decorators.js';
+import { sqlLikeEscape } from '@/misc/sql-like-escape.js';
+import type { NoteSearchProvider, SearchOpts, SearchPagination, SearchTerms } from './NoteSearchProvider.js';
+
+/**
+ * noteテーブルを直接検索するプロバイダの共通部分
+ */
+export abstract class SqlNoteSearchProvider implements NoteSearchProvider {
+	constructor(
+		protected notesRepository: NotesRepository,
+		protected queryService: QueryService,
+		protected idService: IdService,
+	) {
+	}
+
+	/**
+	 * 全文検索の条件を追加する
+	 */
+	protected abstract applyMatchQuery(query: SelectQueryBuilder<MiNote>, terms: SearchTerms): void;
+
+	public abstract rebuildIndex(onProgress: (progress: number) => void): Promise<void>;
+
+	@bindThis
+	public async indexNote(): Promise<void> {
+		// noteテーブルそのものを検索するので何もしない
+	}
+
+	@bindThis
+	public async unindexNote(): Promise<void> {
+		// noteテーブルそのものを検索するので何もしない
+	}
+
+	@bindThis
+	private applyFilterQuery(query: SelectQueryBuilder<MiNote>, opts: SearchOpts): void {
+		if (opts.hasFile) query.andWhere('note.fileIds != \'{}\'');
+		if (opts.hasPoll) query.andWhere('note.hasPoll = TRUE');
+		if (opts.inChannel) query.andWhere('note.channelId IS NOT NULL');
+		if (opts.sinceDate) query.andWhere('note.id > :sinceDateId', { sinceDateId: this.idService.gen(opts.sinceDate) });
+		if (opts.untilDate) query.andWhere('note.id < :untilDateId', { untilDateId: this.idService.gen(opts.untilDate) });
+		if (opts.lang) {
+			query.andWhere(new Brackets(qb => {
+				qb.where('note.lang = :lang', { lang: opts.lang })
+					.orWhere('note.lang LIKE :langPrefix', { langPrefix: `${sqlLikeEscape(opts.lang!)}-%` });
+			}));
+		}
+		if (opts.reply === true) query.andWhere('note.replyId IS NOT NULL');
+		if (opts.reply === false) query.andWhere('note.replyId IS NULL');
+	}
+
+	@bindThis
+	public async searchNote(
+		terms: SearchTerms,
+		me: MiUser | null,
+		opts: SearchOpts,
+		pagination: SearchPagination,
+	): Promise<MiNote[]> {
+		const query = this.queryService.makePaginationQuery(this.notesRepository.createQueryBuilder('note'), pagination.sinceId, pagination.untilId);
+
+		if (opts.userId) {
+			query.andWhere('note.userId = :userId', { userId: opts.userId });
+		} else if (opts.channelId) {
+			query.andWhere('note.channelId = :channelId', { channelId: opts.channelId });
+		}
+
+		query
+			.innerJoinAndSelect('note.user', 'user')
+			.leftJoinAndSelect('note.reply', 'reply')
+			.leftJoinAndSelect('note.renote', 'renote')
+			.leftJoinAndSelect('reply.user', 'replyUser')
+			.leftJoinAndSelect('renote.user', 'renoteUser');
+
+		this.applyMatchQuery(query, terms);
+		this.applyFilterQuery(query, opts);
+
+		if (opts.host) {
+			if (opts.host === '.') {
+				query.andWhere('user.host IS NULL');
+			} else {
+				query.andWhere('user.host = :host', { host: opts.host });
+			}
+		}
+
+		this.queryService.generateVisibilityQuery(query, me);
+		if (me) this.queryService.generateMutedUserQuery(query, me);
+		if (me) this.queryService.generateBlockedUserQuery(query, me);
+
+		return query.limit(pagination.limit).getMany();
+	}
+}
@@ -0,0 +1,79 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { Inject, Injectable } from '@nestjs/common';
+import { DataSource } from 'typeorm';
+import type { SelectQueryBuilder } from 'typeorm';
+import { DI } from '@/di-symbols.js';
+import type { Config } from '@/config.js';
+import type { NotesRepository } from '@/models/_.js';
+import type { MiNote } from '@/models/Note.js';
+import { QueryService } from '@/core/QueryService.js';
+import { bindThis } from '@/decorators.js';
+import { IdService } from '@/core/IdService.js';
+import { SqlNoteSearchProvider } from './SqlNoteSearchProvider.js';
+import type { SearchTerms } from './NoteSearchProvider.js';
+
+const INDEX_NAME = 'IDX_note_tsvector';
+
+/**
+ * PostgreSQL標準の全文検索(tsvector)を使う
+ * インデックスは式インデックスなので、検索時の式とインデックスの式を必ず一致させること
+ */
+@Injectable()
+export class SqlTsvectorNoteSearchProvider extends SqlNoteSearchProvider {
+	private readonly tsConfig: string;
+
+	constructor(
+		@Inject(DI.config)
+		config: Config,
+
+		@Inject(DI.db)
+		private db: DataSource,
+
+		@Inject(DI.notesRepository)
+		notesRepository: NotesRepository,
+
+		queryService: QueryService,
+		idService: IdService,
+	) {
+		super(notesRepository, queryService, idService);
+
+		// 式に直接埋め込むので識別子として妥当なものだけを許可する
+		const tsConfig = config.fulltextSearch?.tsvectorConfig ?? 'simple';
+		if (!/^[a-z_][a-z0-9_]*$/.test(tsConfig)) {
+			throw new Error(`Invalid fulltextSearch.tsvectorConfig: ${tsConfig}`);
+		}
+		this.tsConfig = tsConfig;
+	}
+
+	@bindThis
+	private vectorExpression(alias?: string): string {
+		const prefix = alias ? `${alias}.` : '';
+		return `to_tsvector('${this.tsConfig}', COALESCE(${prefix}"cw", '') || ' ' || COALESCE(${prefix}"text", ''))`;
+	}
+
+	@bindThis
+	protected applyMatchQuery(query: SelectQueryBuilder<MiNote>, terms: SearchTerms): void {
+		// websearch_to_tsquery自体がフレーズと除外の構文に対応しているので組み立て直して渡す
+		const q = [
+			...terms.words,
+			...terms.phrases.map(phrase => `"${phrase}"`),
+			...terms.excludedWords.map(word => `-"${word}"`),
+		].join(' ');
+		if (q === '') return;
+
+		query.andWhere(`${this.vectorExpression('note')} @@ websearch_to_tsquery('${this.tsConfig}', :q)`, { q });
+	}
+
+	@bindThis
+	public async rebuildIndex(onProgress: (progress: number) => void): Promise<void> {
+		// 作成中も検索や投稿ができるようにCONCURRENTLYで作り直す
+		await this.db.query(`DROP INDEX CONCURRENTLY IF EXISTS "${INDEX_NAME}"`);
+		onProgress(10);
+		await this.db.query(`CREATE INDEX CONCURRENTLY "${INDEX_NAME}" ON "note" USING gin (${this.vectorExpression()})`);
+		onProgress(100);
+	}
+}
@@ -84,5 +84,16 @@ export const DI = {
 	userMemosRepository: Symbol('userMemosRepository'),
 	bubbleGameRecordsRepository: Symbol('bubbleGameRecordsRepository'),
 	reversiGamesRepository: Symbol('reversiGamesRepository'),
+	noteHistoriesRepository: Symbol('noteHistoriesRepository'),
+	noteDraftsRepository: Symbol('noteDraftsRepository'),
+	chatRoomsRepository: Symbol('chatRoomsRepository'),
+	chatRoomMembershipsRepository: Symbol('chatRoomMembershipsRepository'),
+	chatMessagesRepository: Symbol('chatMessagesRepository'),
+	webhookDeliveryLogsRepository: Symbol('webhookDeliveryLogsRepository'),
+	blocklistSubscriptionsRepository: Symbol('blocklistSubscriptionsRepository'),
+	blocklistEntriesRepository: Symbol('blocklistEntriesRepository'),
+	noteQuoteAuthorizationsRepository: Symbol('noteQuoteAuthorizationsRepository'),
+	abuseReportResponseTemplatesRepository: Symbol('abuseReportResponseTemplatesRepository'),
+	userWarningsRepository: Symbol('userWarningsRepository'),
 	//#endregion
 };
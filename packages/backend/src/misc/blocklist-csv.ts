@@ -0,0 +1,134 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+/**
+ * Mastodonのドメインブロックリスト(CSV)の読み書き
+ *
+ * #domain,#severity,#reject_media,#reject_reports,#public_comment,#obfuscate
+ */
+
+export const blocklistSeverities = ['suspend', 'silence', 'noop'] as const;
+export type BlocklistSeverity = typeof blocklistSeverities[number];
+
+export type BlocklistRecord = {
+	host: string;
+	severity: BlocklistSeverity;
+	rejectMedia: boolean;
+	rejectReports: boolean;
+	publicComment: string;
+};
+
+const COLUMNS = ['domain', 'severity', 'reject_media', 'reject_reports', 'public_comment', 'obfuscate'] as const;
+
+function parseCsvRows(csv: string): string[][] {
+	const rows: string[][] = [];
+	let row: string[] = [];
+	let field = '';
+	let quoted = false;
+
+	for (let i = 0; i < csv.length; i++) {
+		const c = csv[i];
+		if (quoted) {
+			if (c === '"') {
+				if (csv[i + 1] === '"') {
+					field += '"';
+					i++;
+				} else {
+					quoted = false;
+				}
+			} else {
+				field += c;
+			}
+		} else if (c === '"') {
+			quoted = true;
+		} else if (c === ',') {
+			row.push(field);
+			field = '';
+		} else if (c === '\n' || c === '\r') {
+			if (c === '\r' && csv[i + 1] === '\n') i++;
+			row.push(field);
+			rows.push(row);
+			row = [];
+			field = '';
+		} else {
+			field += c;
+		}
+	}
+
+	if (field !== '' || row.length > 0) {
+		row.push(field);
+		rows.push(row);
+	}
+
+	return rows.filter(r => r.some(x => x.trim() !== ''));
+}
+
+function parseBoolean(value: string | undefined): boolean {
+	return value != null && ['true', '1', 'yes'].includes(value.trim().toLowerCase());
+}
+
+/**
+ * CSVをパースする.
+ * ヘッダー行が無い場合は、Mastodonのエクスポートと同じ列順とみなす(ドメインのみの行はsuspend扱い).
+ * 伏せ字になっているドメインや不正なドメインは読み飛ばす
+ */
+export function parseBlocklistCsv(csv: string): BlocklistRecord[] {
+	const rows = parseCsvRows(csv.replace(/^\uFEFF/, ''));
+	if (rows.length === 0) return [];
+
+	let columns: string[] = [...COLUMNS];
+	const header = rows[0].map(x => x.trim().toLowerCase().replace(/^#/, ''));
+	if (header.includes('domain')) {
+		columns = header;
+		rows.shift();
+	}
+
+	const records = new Map<string, BlocklistRecord>();
+
+	for (const row of rows) {
+		const get = (name: typeof COLUMNS[number]) => {
+			const index = columns.indexOf(name);
+			return index === -1 ? undefined : row[index];
+		};
+
+		const host = get('domain')?.trim().toLowerCase();
+		if (host == null || host === '' || host.includes('*') || !/^[a-z0-9.\-_:\[\]\p{L}\p{N}]+$/u.test(host)) continue;
+
+		const severity = get('severity')?.trim().toLowerCase() || 'suspend';
+		if (!(blocklistSeverities as readonly string[]).includes(severity)) continue;
+
+		// 同じドメインが複数回現れた場合は後のものを優先する
+		records.set(host, {
+			host,
+			severity: severity as BlocklistSeverity,
+			rejectMedia: parseBoolean(get('reject_media')),
+			rejectReports: parseBoolean(get('reject_reports')),
+			publicComment: (get('public_comment') ?? '').trim(),
+		});
+	}
+
+	return [...records.values()];
+}
+
+function escapeCsvField(value: string): string {
+	return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function serializeBlocklistCsv(records: BlocklistRecord[]): string {
+	const lines = [COLUMNS.map(x => `#${x}`).join(',')];
+
+	for (const record of records) {
+		lines.push([
+			record.host,
+			record.severity,
+			record.rejectMedia.toString(),
+			record.rejectReports.toString(),
+			record.publicComment,
+			'false',
+		].map(escapeCsvField).join(','));
+	}
+
+	return lines.join('\n') + '\n';
+}
@@ -27,6 +27,8 @@ import { packedHashtagSchema } from '@/models/json-schema/hashtag.js';
 import { packedInviteCodeSchema } from '@/models/json-schema/invite-code.js';
 import { packedPageBlockSchema, packedPageSchema } from '@/models/json-schema/page.js';
 import { packedNoteFavoriteSchema } from '@/models/json-schema/note-favorite.js';
+import { packedNoteHistorySchema } from '@/models/json-schema/note-history.js';
+import { packedNoteDraftSchema } from '@/models/json-schema/note-draft.js';
 import { packedChannelSchema } from '@/models/json-schema/channel.js';
 import { packedAntennaSchema } from '@/models/json-schema/antenna.js';
 import { packedClipSchema } from '@/models/json-schema/clip.js';
@@ -44,8 +46,11 @@ import { packedSigninSchema } from '@/models/json-schema/signin.js';
 import {
 	packedRoleCondFormulaFollowersOrFollowingOrNotesSchema,
 	packedRoleCondFormulaLogicsSchema,
+	packedRoleCondFormulaValueAchievementSchema,
 	packedRoleCondFormulaValueAssignedRoleSchema,
 	packedRoleCondFormulaValueCreatedSchema,
+	packedRoleCondFormulaValueEmailDomainSchema,
+	packedRoleCondFormulaValueHostSchema,
 	packedRoleCondFormulaValueIsLocalOrRemoteSchema,
 	packedRoleCondFormulaValueNot,
 	packedRoleCondFormulaValueSchema,
@@ -56,13 +61,23 @@ import {
 } from '@/models/json-schema/role.js';
 import { packedAdSchema } from '@/models/json-schema/ad.js';
 import { packedReversiGameDetailedSchema, packedReversiGameLiteSchema } from '@/models/json-schema/reversi-game.js';
+import { packedChatMessageSchema } from '@/models/json-schema/chat-message.js';
+import { packedChatRoomMembershipSchema, packedChatRoomSchema } from '@/models/json-schema/chat-room.js';
 import {
 	packedMetaDetailedOnlySchema,
 	packedMetaDetailedSchema,
 	packedMetaLiteSchema,
 } from '@/models/json-schema/meta.js';
 import { packedSystemWebhookSchema } from '@/models/json-schema/system-webhook.js';
+import { packedWebhookDeliveryLogSchema } from '@/models/json-schema/webhook-delivery-log.js';
 import { packedAbuseReportNotificationRecipientSchema } from '@/models/json-schema/abuse-report-notification-recipient.js';
+import { packedAbuseReportResponseTemplateSchema } from '@/models/json-schema/abuse-report-response-template.js';
+import { packedUserWarningSchema } from '@/models/json-schema/user-warning.js';
+import {
+	packedBlocklistChangeSchema,
+	packedBlocklistEntrySchema,
+	packedBlocklistSubscriptionSchema,
+} from '@/models/json-schema/blocklist.js';
 
 export const refs = {
 	UserLite: packedUserLiteSchema,
@@ -80,6 +95,8 @@ export const refs = {
 	Note: packedNoteSchema,
 	NoteReaction: packedNoteReactionSchema,
 	NoteFavorite: packedNoteFavoriteSchema,
+	NoteHistory: packedNoteHistorySchema,
+	NoteDraft: packedNoteDraftSchema,
 	Notification: packedNotificationSchema,
 	DriveFile: packedDriveFileSchema,
 	DriveFolder: packedDriveFolderSchema,
@@ -109,17 +126,29 @@ export const refs = {
 	RoleCondFormulaValueAssignedRole: packedRoleCondFormulaValueAssignedRoleSchema,
 	RoleCondFormulaValueCreated: packedRoleCondFormulaValueCreatedSchema,
 	RoleCondFormulaFollowersOrFollowingOrNotes: packedRoleCondFormulaFollowersOrFollowingOrNotesSchema,
+	RoleCondFormulaValueHost: packedRoleCondFormulaValueHostSchema,
+	RoleCondFormulaValueEmailDomain: packedRoleCondFormulaValueEmailDomainSchema,
+	RoleCondFormulaValueAchievement: packedRoleCondFormulaValueAchievementSchema,
 	RoleCondFormulaValue: packedRoleCondFormulaValueSchema,
 	RoleLite: packedRoleLiteSchema,
 	Role: packedRoleSchema,
 	RolePolicies: packedRolePoliciesSchema,
 	ReversiGameLite: packedReversiGameLiteSchema,
 	ReversiGameDetailed: packedReversiGameDetailedSchema,
+	ChatMessage: packedChatMessageSchema,
+	ChatRoom: packedChatRoomSchema,
+	ChatRoomMembership: packedChatRoomMembershipSchema,
 	MetaLite: packedMetaLiteSchema,
 	MetaDetailedOnly: packedMetaDetailedOnlySchema,
 	MetaDetailed: packedMetaDetailedSchema,
 	SystemWebhook: packedSystemWebhookSchema,
+	WebhookDeliveryLog: packedWebhookDeliveryLogSchema,
 	AbuseReportNotificationRecipient: packedAbuseReportNotificationRecipientSchema,
+	AbuseReportResponseTemplate: packedAbuseReportResponseTemplateSchema,
+	UserWarning: packedUserWarningSchema,
+	BlocklistSubscription: packedBlocklistSubscriptionSchema,
+	BlocklistEntry: packedBlocklistEntrySchema,
+	BlocklistChange: packedBlocklistChangeSchema,
 };
 
 export type Packed<x extends keyof typeof refs> = SchemaType<typeof refs[x]>;
@@ -0,0 +1,116 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+/**
+ * ノートのインポートで読み込む、Misskeyのノートのエクスポートと、Mastodonのアーカイブの outbox.json の解釈
+ */
+
+import _Ajv from 'ajv';
+import { getApIds, isCreate, isPost } from '@/core/activitypub/type.js';
+import type { IObject, IPost } from '@/core/activitypub/type.js';
+import type { MiNote } from '@/models/Note.js';
+
+const Ajv = _Ajv.default;
+
+const validateMisskeyNote = new Ajv().compile({
+	type: 'object',
+	properties: {
+		id: { type: 'string' },
+		text: { type: 'string', nullable: true },
+		createdAt: { type: 'string' },
+		files: {
+			type: 'array',
+			items: {
+				type: 'object',
+				properties: {
+					url: { type: 'string' },
+					name: { type: 'string' },
+					comment: { type: 'string', nullable: true },
+					isSensitive: { type: 'boolean' },
+				},
+				required: ['url'],
+			},
+		},
+		replyId: { type: 'string', nullable: true },
+		renoteId: { type: 'string', nullable: true },
+		cw: { type: 'string', nullable: true },
+		visibility: { type: 'string', enum: ['public', 'home', 'followers', 'specified'] },
+		localOnly: { type: 'boolean' },
+		reactionAcceptance: { type: 'string', nullable: true, enum: [null, 'likeOnly', 'likeOnlyForRemote', 'nonSensitiveOnly', 'nonSensitiveOnlyForLocalLikeOnlyForRemote'] },
+	},
+	required: ['id', 'createdAt'],
+});
+
+export type MisskeyExportedNote = {
+	id: string;
+	text?: string | null;
+	createdAt: string;
+	files?: {
+		url: string;
+		name?: string;
+		comment?: string | null;
+		isSensitive?: boolean;
+	}[];
+	replyId?: string | null;
+	renoteId?: string | null;
+	cw?: string | null;
+	visibility?: 'public' | 'home' | 'followers' | 'specified';
+	localOnly?: boolean;
+	reactionAcceptance?: MiNote['reactionAcceptance'];
+};
+
+export type MastodonExportedPost = {
+	post: IPost & { id: string; published: string };
+	visibility: 'public' | 'home' | 'followers';
+};
+
+const PUBLIC_AUDIENCES = ['https://www.w3.org/ns/activitystreams#Public', 'as:Public', 'Public'];
+
+/**
+ * 不正な日時や未来の日時は現在時刻として扱う
+ */
+export function parseExportedDate(value: string, now = new Date()): Date {
+	const date = new Date(value);
+	return isNaN(date.getTime()) || date > now ? now : date;
+}
+
+/**
+ * Misskeyのエクスポートからノートを取り出す.
+ * 形式が正しくないものと、宛先を復元できないダイレクト投稿は除く
+ * @returns ノートの配列でなければnull
+ */
+export function parseMisskeyExportedNotes(data: unknown): MisskeyExportedNote[] | null {
+	if (!Array.isArray(data)) return null;
+
+	return data.filter((record): record is MisskeyExportedNote => validateMisskeyNote(record) && (record as MisskeyExportedNote).visibility !== 'specified');
+}
+
+export function getMastodonVisibility(post: IObject): MastodonExportedPost['visibility'] | null {
+	const to = getApIds(post.to);
+	const cc = getApIds(post.cc);
+
+	if (to.some(x => PUBLIC_AUDIENCES.includes(x))) return 'public';
+	if (cc.some(x => PUBLIC_AUDIENCES.includes(x))) return 'home';
+	if (to.some(x => x.endsWith('/followers'))) return 'followers';
+	return null;
+}
+
+/**
+ * Mastodonの outbox.json から、本人の投稿を古い順に取り出す.
+ * ブーストと、宛先を復元できないダイレクト投稿は除く
+ */
+export function parseMastodonOutbox(data: unknown): MastodonExportedPost[] {
+	const orderedItems = typeof data === 'object' && data != null ? (data as { orderedItems?: unknown }).orderedItems : null;
+	const items = (Array.isArray(orderedItems) ? orderedItems : []) as IObject[];
+
+	return items
+		.flatMap(item => isCreate(item) && typeof item.object === 'object' && isPost(item.object) ? [item.object] : [])
+		.filter((post): post is MastodonExportedPost['post'] => typeof post.id === 'string' && typeof post.published === 'string')
+		.sort((a, b) => parseExportedDate(a.published).getTime() - parseExportedDate(b.published).getTime())
+		.flatMap(post => {
+			const visibility = getMastodonVisibility(post);
+			return visibility != null ? [{ post, visibility }] : [];
+		});
+}
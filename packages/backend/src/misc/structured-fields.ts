@@ -0,0 +1,227 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+/**
+ * RFC 8941 Structured Field Values のうち、HTTP Message Signatures (RFC 9421) で必要な範囲のパーサーとシリアライザー
+ */
+
+export class SfToken {
+	constructor(public readonly value: string) {}
+}
+
+export type SfBareItem = string | number | boolean | SfToken | Buffer;
+export type SfParameters = Map<string, SfBareItem>;
+
+export type SfItem = {
+	value: SfBareItem;
+	params: SfParameters;
+};
+
+export type SfInnerList = {
+	items: SfItem[];
+	params: SfParameters;
+};
+
+export type SfDictionary = Map<string, SfItem | SfInnerList>;
+
+export function isSfInnerList(member: SfItem | SfInnerList): member is SfInnerList {
+	return 'items' in member;
+}
+
+class Parser {
+	private pos = 0;
+
+	constructor(private readonly input: string) {}
+
+	private peek(): string {
+		return this.input[this.pos] ?? '';
+	}
+
+	private get eof(): boolean {
+		return this.pos >= this.input.length;
+	}
+
+	private skipSP() {
+		while (this.peek() === ' ') this.pos++;
+	}
+
+	private skipOWS() {
+		while (this.peek() === ' ' || this.peek() === '\t') this.pos++;
+	}
+
+	private fail(message: string): never {
+		throw new Error(`Invalid structured field: ${message} at ${this.pos}`);
+	}
+
+	public parseDictionary(): SfDictionary {
+		const dict: SfDictionary = new Map();
+
+		this.skipSP();
+		while (!this.eof) {
+			const key = this.parseKey();
+			let member: SfItem | SfInnerList;
+			if (this.peek() === '=') {
+				this.pos++;
+				member = this.parseItemOrInnerList();
+			} else {
+				member = { value: true, params: this.parseParameters() };
+			}
+			dict.set(key, member);
+
+			this.skipOWS();
+			if (this.eof) break;
+			if (this.peek() !== ',') this.fail('expected ","');
+			this.pos++;
+			this.skipOWS();
+			if (this.eof) this.fail('trailing ","');
+		}
+
+		return dict;
+	}
+
+	private parseItemOrInnerList(): SfItem | SfInnerList {
+		return this.peek() === '(' ? this.parseInnerList() : this.parseItem();
+	}
+
+	private parseInnerList(): SfInnerList {
+		this.pos++; // (
+		const items: SfItem[] = [];
+
+		while (!this.eof) {
+			this.skipSP();
+			if (this.peek() === ')') {
+				this.pos++;
+				return { items, params: this.parseParameters() };
+			}
+			items.push(this.parseItem());
+			if (this.peek() !== ' ' && this.peek() !== ')') this.fail('expected " " or ")"');
+		}
+
+		return this.fail('unterminated inner list');
+	}
+
+	private parseItem(): SfItem {
+		const value = this.parseBareItem();
+		return { value, params: this.parseParameters() };
+	}
+
+	private parseParameters(): SfParameters {
+		const params: SfParameters = new Map();
+
+		while (this.peek() === ';') {
+			this.pos++;
+			this.skipSP();
+			const key = this.parseKey();
+			let value: SfBareItem = true;
+			if (this.peek() === '=') {
+				this.pos++;
+				value = this.parseBareItem();
+			}
+			params.set(key, value);
+		}
+
+		return params;
+	}
+
+	private parseKey(): string {
+		const match = /^[a-z*][a-z0-9_\-.*]*/.exec(this.input.slice(this.pos));
+		if (match == null) this.fail('invalid key');
+		this.pos += match[0].length;
+		return match[0];
+	}
+
+	private parseBareItem(): SfBareItem {
+		const c = this.peek();
+		if (c === '-' || /[0-9]/.test(c)) return this.parseNumber();
+		if (c === '"') return this.parseString();
+		if (c === '*' || /[a-zA-Z]/.test(c)) return this.parseToken();
+		if (c === ':') return this.parseBinary();
+		if (c === '?') return this.parseBoolean();
+		return this.fail('invalid bare item');
+	}
+
+	private parseNumber(): number {
+		const match = /^-?[0-9]{1,15}(\.[0-9]{1,3})?/.exec(this.input.slice(this.pos));
+		if (match == null) this.fail('invalid number');
+		this.pos += match[0].length;
+		return Number(match[0]);
+	}
+
+	private parseString(): string {
+		this.pos++; // "
+		let value = '';
+
+		while (!this.eof) {
+			const c = this.input[this.pos++];
+			if (c === '\\') {
+				const next = this.input[this.pos++];
+				if (next !== '"' && next !== '\\') this.fail('invalid escape');
+				value += next;
+			} else if (c === '"') {
+				return value;
+			} else if (c < ' ' || c > '~') {
+				this.fail('invalid character in string');
+			} else {
+				value += c;
+			}
+		}
+
+		return this.fail('unterminated string');
+	}
+
+	private parseToken(): SfToken {
+		const match = /^[a-zA-Z*][!#$%&'*+\-.^_`|~0-9a-zA-Z:/]*/.exec(this.input.slice(this.pos));
+		if (match == null) this.fail('invalid token');
+		this.pos += match[0].length;
+		return new SfToken(match[0]);
+	}
+
+	private parseBinary(): Buffer {
+		const match = /^:([A-Za-z0-9+/=]*):/.exec(this.input.slice(this.pos));
+		if (match == null) this.fail('invalid byte sequence');
+		this.pos += match[0].length;
+		return Buffer.from(match[1], 'base64');
+	}
+
+	private parseBoolean(): boolean {
+		const match = /^\?[01]/.exec(this.input.slice(this.pos));
+		if (match == null) this.fail('invalid boolean');
+		this.pos += match[0].length;
+		return match[0] === '?1';
+	}
+}
+
+export function parseSfDictionary(input: string): SfDictionary {
+	return new Parser(input).parseDictionary();
+}
+
+export function serializeSfBareItem(value: SfBareItem): string {
+	if (typeof value === 'number') {
+		return Number.isInteger(value) ? value.toString() : value.toFixed(3).replace(/0{1,2}$/, '');
+	}
+	if (typeof value === 'string') {
+		if (/[^\x20-\x7e]/.test(value)) throw new Error('Invalid structured field: string contains non-printable characters');
+		return `"${value.replace(/[\\"]/g, c => `\\${c}`)}"`;
+	}
+	if (typeof value === 'boolean') return value ? '?1' : '?0';
+	if (value instanceof SfToken) return value.value;
+	return `:${value.toString('base64')}:`;
+}
+
+export function serializeSfParameters(params: SfParameters): string {
+	let result = '';
+	for (const [key, value] of params) {
+		result += value === true ? `;${key}` : `;${key}=${serializeSfBareItem(value)}`;
+	}
+	return result;
+}
+
+export function serializeSfItem(item: SfItem): string {
+	return serializeSfBareItem(item.value) + serializeSfParameters(item.params);
+}
+
+export function serializeSfInnerList(list: SfInnerList): string {
+	return `(${list.items.map(serializeSfItem).join(' ')})${serializeSfParameters(list.params)}`;
+}
@@ -0,0 +1,16 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { createHmac } from 'node:crypto';
+
+/**
+ * Webhookのリクエストボディに対する署名を生成する.
+ * 受信側は `${timestamp}.${body}` のHMAC-SHA256を同じシークレットで計算して比較し、
+ * タイムスタンプが古すぎるリクエストを拒否することでリプレイ攻撃を防げる.
+ * @param timestamp UNIX時間(秒)
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+	return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
@@ -0,0 +1,40 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { Column, Entity, PrimaryColumn } from 'typeorm';
+import { id } from './util/id.js';
+
+/**
+ * 通報を解決したときに通報者へ送る定型文.
+ */
+@Entity('abuse_report_response_template')
+export class MiAbuseReportResponseTemplate {
+	@PrimaryColumn(id())
+	public id: string;
+
+	/**
+	 * 更新日時.
+	 */
+	@Column('timestamp with time zone', {
+		default: () => 'CURRENT_TIMESTAMP',
+	})
+	public updatedAt: Date;
+
+	/**
+	 * 定型文の名前. モデレーターが選ぶときに表示される.
+	 */
+	@Column('varchar', {
+		length: 256,
+	})
+	public name: string;
+
+	/**
+	 * 通報者への通知に添える本文.
+	 */
+	@Column('varchar', {
+		length: 2048,
+	})
+	public text: string;
+}
@@ -6,9 +6,19 @@
 import { PrimaryColumn, Entity, Index, JoinColumn, Column, ManyToOne } from 'typeorm';
 import { id } from './util/id.js';
 import { MiUser } from './User.js';
+import type { MiNote } from './Note.js';
 
 export type AbuseReportResolveType = 'accept' | 'reject';
 
+export const abuseReportForwardStatuses = ['pending', 'delivered', 'failed'] as const;
+export type AbuseReportForwardStatus = typeof abuseReportForwardStatuses[number];
+
+export const abuseReportCategories = ['spam', 'harassment', 'sensitive', 'illegal', 'impersonation', 'other'] as const;
+export type AbuseReportCategory = typeof abuseReportCategories[number];
+
+export const abuseReportPriorities = ['normal', 'high', 'critical'] as const;
+export type AbuseReportPriority = typeof abuseReportPriorities[number];
+
 @Entity('abuse_user_report')
 export class MiAbuseUserReport {
 	@PrimaryColumn(id())
@@ -60,11 +70,66 @@ export class MiAbuseUserReport {
 	})
 	public forwarded: boolean;
 
+	/**
+	 * 転送したFlagアクティビティの配送状況. 転送していない場合はnull
+	 * pending ... 配送待ち(再試行中を含む)
+	 * delivered ... 相手のサーバーが受け付けた
+	 * failed ... 再試行を使い切ったか、配送できない相手だった
+	 */
+	@Column('varchar', {
+		length: 16, nullable: true,
+	})
+	public forwardStatus: AbuseReportForwardStatus | null;
+
+	@Column('timestamp with time zone', {
+		nullable: true,
+	})
+	public forwardedAt: Date | null;
+
+	/**
+	 * 最後に配送に失敗したときのエラー
+	 */
+	@Column('varchar', {
+		length: 512, nullable: true,
+	})
+	public forwardError: string | null;
+
+	/**
+	 * リモートサーバーから受け取った通報の場合、そのFlagアクティビティのURI
+	 */
+	@Column('varchar', {
+		length: 512, nullable: true,
+	})
+	public originUri: string | null;
+
 	@Column('varchar', {
 		length: 2048,
 	})
 	public comment: string;
 
+	@Column('varchar', {
+		length: 32, default: 'other',
+	})
+	public category: AbuseReportCategory;
+
+	/**
+	 * 通報者が添付した対象ユーザーのノート
+	 */
+	@Column({
+		...id(),
+		array: true, default: '{}',
+	})
+	public noteIds: MiNote['id'][];
+
+	/**
+	 * 同じユーザーへの未解決の通報が重なると引き上げられる
+	 */
+	@Index()
+	@Column('varchar', {
+		length: 16, default: 'normal',
+	})
+	public priority: AbuseReportPriority;
+
 	@Column('varchar', {
 		length: 8192, default: '',
 	})
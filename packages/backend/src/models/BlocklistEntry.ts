@@ -0,0 +1,67 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { Column, Entity, Index, JoinColumn, ManyToOne, PrimaryColumn } from 'typeorm';
+import type { BlocklistSeverity } from '@/misc/blocklist-csv.js';
+import { id } from './util/id.js';
+import { MiBlocklistSubscription } from './BlocklistSubscription.js';
+
+/**
+ * ブロックリストのインポートや購読によって設定されたホスト.
+ * 手動で設定されたホストにはレコードが存在しない
+ */
+@Entity('blocklist_entry')
+export class MiBlocklistEntry {
+	/**
+	 * インポートされた日時を元に生成される
+	 */
+	@PrimaryColumn(id())
+	public id: string;
+
+	@Index({ unique: true })
+	@Column('varchar', {
+		length: 1024,
+	})
+	public host: string;
+
+	@Column('varchar', {
+		length: 16,
+	})
+	public severity: BlocklistSeverity;
+
+	@Column('boolean', {
+		default: false,
+	})
+	public rejectMedia: boolean;
+
+	@Column('varchar', {
+		length: 2048, default: '',
+	})
+	public publicComment: string;
+
+	/**
+	 * どこからインポートされたか. ファイル名または購読しているリストのURL
+	 */
+	@Column('varchar', {
+		length: 1024,
+	})
+	public source: string;
+
+	/**
+	 * 購読しているリストから適用された場合はその購読のID
+	 */
+	@Index()
+	@Column({
+		...id(),
+		nullable: true,
+	})
+	public subscriptionId: MiBlocklistSubscription['id'] | null;
+
+	@ManyToOne(type => MiBlocklistSubscription, {
+		onDelete: 'SET NULL',
+	})
+	@JoinColumn()
+	public subscription: MiBlocklistSubscription | null;
+}
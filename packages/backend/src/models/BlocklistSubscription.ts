@@ -0,0 +1,57 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { Column, Entity, PrimaryColumn } from 'typeorm';
+import type { BlocklistRecord } from '@/misc/blocklist-csv.js';
+import { id } from './util/id.js';
+
+/**
+ * 購読しているドメインブロックリスト.
+ * 定期的に取得し、変更点を確認した上で適用する
+ */
+@Entity('blocklist_subscription')
+export class MiBlocklistSubscription {
+	@PrimaryColumn(id())
+	public id: string;
+
+	@Column('varchar', {
+		length: 1024,
+	})
+	public url: string;
+
+	/**
+	 * 無効な場合は定期的な取得を行わない
+	 */
+	@Column('boolean', {
+		default: true,
+	})
+	public isActive: boolean;
+
+	/**
+	 * 最後に取得したリストの内容. 適用するまでは現在の状態と異なる場合がある
+	 */
+	@Column('jsonb', {
+		default: [],
+	})
+	public records: BlocklistRecord[];
+
+	@Column('timestamp with time zone', {
+		nullable: true,
+	})
+	public lastFetchedAt: Date | null;
+
+	/**
+	 * 最後の取得に失敗した場合のエラー. 成功した場合はnull
+	 */
+	@Column('varchar', {
+		length: 1024, nullable: true,
+	})
+	public lastError: string | null;
+
+	@Column('timestamp with time zone', {
+		nullable: true,
+	})
+	public lastAppliedAt: Date | null;
+}
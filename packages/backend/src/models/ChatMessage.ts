@@ -0,0 +1,85 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { PrimaryColumn, Entity, Index, JoinColumn, Column, ManyToOne } from 'typeorm';
+import { id } from './util/id.js';
+import { MiUser } from './User.js';
+import { MiChatRoom } from './ChatRoom.js';
+import { MiDriveFile } from './DriveFile.js';
+
+/**
+ * チャットのメッセージ
+ * toUserId と toRoomId のどちらか一方のみが設定される
+ */
+@Entity('chat_message')
+export class MiChatMessage {
+	@PrimaryColumn(id())
+	public id: string;
+
+	@Index()
+	@Column({
+		...id(),
+		comment: 'The sender user ID.',
+	})
+	public fromUserId: MiUser['id'];
+
+	@ManyToOne(type => MiUser, {
+		onDelete: 'CASCADE',
+	})
+	@JoinColumn()
+	public fromUser: MiUser | null;
+
+	@Index()
+	@Column({
+		...id(),
+		nullable: true,
+		comment: 'The recipient user ID.',
+	})
+	public toUserId: MiUser['id'] | null;
+
+	@ManyToOne(type => MiUser, {
+		onDelete: 'CASCADE',
+	})
+	@JoinColumn()
+	public toUser: MiUser | null;
+
+	@Index()
+	@Column({
+		...id(),
+		nullable: true,
+		comment: 'The recipient room ID.',
+	})
+	public toRoomId: MiChatRoom['id'] | null;
+
+	@ManyToOne(type => MiChatRoom, {
+		onDelete: 'CASCADE',
+	})
+	@JoinColumn()
+	public toRoom: MiChatRoom | null;
+
+	@Column('varchar', {
+		length: 4096, nullable: true,
+	})
+	public text: string | null;
+
+	@Column({
+		...id(),
+		nullable: true,
+	})
+	public fileId: MiDriveFile['id'] | null;
+
+	@ManyToOne(type => MiDriveFile, {
+		onDelete: 'SET NULL',
+	})
+	@JoinColumn()
+	public file: MiDriveFile | null;
+
+	@Column({
+		...id(),
+		array: true, default: '{}',
+		comment: 'The IDs of users who have read this message.',
+	})
+	public reads: MiUser['id'][];
+}
@@ -0,0 +1,40 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { PrimaryColumn, Entity, Index, JoinColumn, Column, ManyToOne } from 'typeorm';
+import { id } from './util/id.js';
+import { MiUser } from './User.js';
+
+@Entity('chat_room')
+export class MiChatRoom {
+	@PrimaryColumn(id())
+	public id: string;
+
+	@Index()
+	@Column({
+		...id(),
+		comment: 'The owner ID.',
+	})
+	public ownerId: MiUser['id'];
+
+	@ManyToOne(type => MiUser, {
+		onDelete: 'CASCADE',
+	})
+	@JoinColumn()
+	public owner: MiUser | null;
+
+	@Column('varchar', {
+		length: 256,
+		comment: 'The name of the Chat room.',
+	})
+	public name: string;
+
+	@Column('varchar', {
+		length: 2048,
+		default: '',
+		comment: 'The description of the Chat room.',
+	})
+	public description: string;
+}
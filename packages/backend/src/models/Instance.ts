@@ -6,6 +6,17 @@
 import { Entity, PrimaryColumn, Index, Column } from 'typeorm';
 import { id } from './util/id.js';
 
+/**
+ * サーバーごとに設定できる連合ポリシー
+ * - rejectReports: 通報を受け付けない
+ * - rejectMedia: ノートの添付ファイルを取り込まない
+ * - forceSensitive: ノートの添付ファイルをセンシティブにし、CWを付ける
+ * - hideFromGlobalTimeline: グローバルタイムラインに表示しない
+ * - rejectFollows: ローカルユーザーへのフォローを拒否する
+ */
+export const instancePolicies = ['rejectReports', 'rejectMedia', 'forceSensitive', 'hideFromGlobalTimeline', 'rejectFollows'] as const;
+export type InstancePolicy = typeof instancePolicies[number];
+
 @Entity('instance')
 export class MiInstance {
 	@PrimaryColumn(id())
@@ -158,4 +169,9 @@ export class MiInstance {
 		length: 16384, default: '',
 	})
 	public moderationNote: string;
+
+	@Column('varchar', {
+		length: 64, array: true, default: '{}',
+	})
+	public policies: InstancePolicy[];
 }
@@ -658,4 +658,28 @@ export class MiMeta {
 		default: '{}',
 	})
 	public federationHosts: string[];
+
+	/**
+	 * ActivityPubのGETリクエストにHTTP Signatureを要求するかどうか
+	 */
+	@Column('boolean', {
+		default: false,
+	})
+	public enableAuthorizedFetch: boolean;
+
+	/**
+	 * リモートユーザーを初めて取得したときに、outboxから取り込む公開投稿の数. 0の場合は取り込まない
+	 */
+	@Column('integer', {
+		default: 20,
+	})
+	public remoteUserBackfillNotesLimit: number;
+
+	/**
+	 * 同じサーバーのユーザーについて、1時間あたりに投稿を取り込む回数の上限
+	 */
+	@Column('integer', {
+		default: 30,
+	})
+	public remoteUserBackfillPerHostLimit: number;
 }
@@ -4,7 +4,7 @@
  */
 
 import { Entity, Index, JoinColumn, Column, PrimaryColumn, ManyToOne } from 'typeorm';
-import { noteVisibilities } from '@/types.js';
+import { noteQuotePolicies, noteVisibilities } from '@/types.js';
 import { id } from './util/id.js';
 import { MiUser } from './User.js';
 import { MiChannel } from './Channel.js';
@@ -49,6 +49,16 @@ export class MiNote {
 	})
 	public threadId: string | null;
 
+	/**
+	 * 会話 (ActivityPubのcontext) のURI. ローカルのスレッドから始まった会話ではnull
+	 */
+	@Index()
+	@Column('varchar', {
+		length: 512, nullable: true,
+		comment: 'The URI of the conversation (context) which the note belongs to.',
+	})
+	public contextUri: string | null;
+
 	// TODO: varcharにしたい
 	@Column('text', {
 		nullable: true,
@@ -65,6 +75,48 @@ export class MiNote {
 	})
 	public cw: string | null;
 
+	/**
+	 * モデレーターが付けたCW. 投稿者が付けたCWより優先して表示される
+	 */
+	@Column('varchar', {
+		length: 512, nullable: true,
+		comment: 'The CW added by a moderator.',
+	})
+	public moderatorCw: string | null;
+
+	/**
+	 * モデレーターによって投稿者以外から非表示にされているか
+	 */
+	@Column('boolean', {
+		default: false,
+		comment: 'Whether the note is hidden from everyone except the author by a moderator.',
+	})
+	public isHiddenByModerator: boolean;
+
+	/**
+	 * モデレーターによって添付ファイルがセンシティブとしてマークされているか
+	 */
+	@Column('boolean', {
+		default: false,
+		comment: 'Whether the files of the note are marked as sensitive by a moderator.',
+	})
+	public isSensitiveByModerator: boolean;
+
+	/**
+	 * モデレーターによってLTL・GTL・ハイライトから除外されているか
+	 */
+	@Column('boolean', {
+		default: false,
+		comment: 'Whether the note is excluded from the public timelines and featured notes by a moderator.',
+	})
+	public isExcludedFromPublicTimelines: boolean;
+
+	@Column('timestamp with time zone', {
+		nullable: true,
+		comment: 'The updated date of the Note.',
+	})
+	public updatedAt: Date | null;
+
 	@Index()
 	@Column({
 		...id(),
@@ -88,6 +140,23 @@ export class MiNote {
 	})
 	public reactionAcceptance: 'likeOnly' | 'likeOnlyForRemote' | 'nonSensitiveOnly' | 'nonSensitiveOnlyForLocalLikeOnlyForRemote' | null;
 
+	/**
+	 * 引用できるユーザー
+	 * public ... 誰でも
+	 * followers ... 投稿者のフォロワーのみ
+	 * nobody ... 投稿者本人のみ
+	 */
+	@Column('varchar', {
+		length: 16, default: 'public',
+	})
+	public quotePolicy: typeof noteQuotePolicies[number];
+
+	@Column('varchar', {
+		length: 512, nullable: true,
+		comment: 'The URI of the QuoteAuthorization which approves this note to quote the renote.',
+	})
+	public quoteAuthorizationUri: string | null;
+
 	@Column('smallint', {
 		default: 0,
 	})
@@ -182,6 +251,12 @@ export class MiNote {
 	})
 	public hasPoll: boolean;
 
+	@Column('varchar', {
+		length: 32, nullable: true,
+		comment: 'The language of the note. (BCP 47)',
+	})
+	public lang: string | null;
+
 	@Index()
 	@Column({
 		...id(),
@@ -0,0 +1,139 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { Entity, Index, JoinColumn, Column, PrimaryColumn, ManyToOne } from 'typeorm';
+import { noteQuotePolicies, noteVisibilities } from '@/types.js';
+import { id } from './util/id.js';
+import { MiUser } from './User.js';
+import { MiNote } from './Note.js';
+import { MiChannel } from './Channel.js';
+import type { MiDriveFile } from './DriveFile.js';
+
+/**
+ * まだ投稿されていないノート
+ * scheduledAt が設定されている場合はその日時に自動で投稿される
+ */
+@Entity('note_draft')
+export class MiNoteDraft {
+	@PrimaryColumn(id())
+	public id: string;
+
+	@Index()
+	@Column({
+		...id(),
+		comment: 'The ID of author.',
+	})
+	public userId: MiUser['id'];
+
+	@ManyToOne(type => MiUser, {
+		onDelete: 'CASCADE',
+	})
+	@JoinColumn()
+	public user: MiUser | null;
+
+	@Index()
+	@Column('timestamp with time zone', {
+		nullable: true,
+		comment: 'The date when the draft will be published.',
+	})
+	public scheduledAt: Date | null;
+
+	@Column({
+		...id(),
+		nullable: true,
+		comment: 'The ID of reply target.',
+	})
+	public replyId: MiNote['id'] | null;
+
+	@ManyToOne(type => MiNote, {
+		onDelete: 'CASCADE',
+	})
+	@JoinColumn()
+	public reply: MiNote | null;
+
+	@Column({
+		...id(),
+		nullable: true,
+		comment: 'The ID of renote target.',
+	})
+	public renoteId: MiNote['id'] | null;
+
+	@ManyToOne(type => MiNote, {
+		onDelete: 'CASCADE',
+	})
+	@JoinColumn()
+	public renote: MiNote | null;
+
+	@Column({
+		...id(),
+		nullable: true,
+		comment: 'The ID of target channel.',
+	})
+	public channelId: MiChannel['id'] | null;
+
+	@ManyToOne(type => MiChannel, {
+		onDelete: 'CASCADE',
+	})
+	@JoinColumn()
+	public channel: MiChannel | null;
+
+	@Column('text', {
+		nullable: true,
+	})
+	public text: string | null;
+
+	@Column('varchar', {
+		length: 512, nullable: true,
+	})
+	public cw: string | null;
+
+	@Column({
+		...id(),
+		array: true, default: '{}',
+	})
+	public fileIds: MiDriveFile['id'][];
+
+	@Column('jsonb', {
+		nullable: true, default: null,
+	})
+	public poll: {
+		choices: string[];
+		multiple: boolean;
+		expiresAt: string | null;
+		expiredAfter: number | null;
+	} | null;
+
+	@Column('enum', { enum: noteVisibilities })
+	public visibility: typeof noteVisibilities[number];
+
+	@Column({
+		...id(),
+		array: true, default: '{}',
+	})
+	public visibleUserIds: MiUser['id'][];
+
+	@Column('boolean', {
+		default: false,
+	})
+	public localOnly: boolean;
+
+	@Column('varchar', {
+		length: 64, nullable: true,
+	})
+	public reactionAcceptance: 'likeOnly' | 'likeOnlyForRemote' | 'nonSensitiveOnly' | 'nonSensitiveOnlyForLocalLikeOnlyForRemote' | null;
+
+	@Column('varchar', {
+		length: 16, default: 'public',
+	})
+	public quotePolicy: typeof noteQuotePolicies[number];
+
+	constructor(data: Partial<MiNoteDraft>) {
+		if (data == null) return;
+
+		for (const [k, v] of Object.entries(data)) {
+			(this as any)[k] = v;
+		}
+	}
+}
@@ -0,0 +1,67 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { Entity, Index, JoinColumn, Column, PrimaryColumn, ManyToOne } from 'typeorm';
+import { id } from './util/id.js';
+import { MiNote } from './Note.js';
+import type { MiDriveFile } from './DriveFile.js';
+
+/**
+ * ノートの編集前の版
+ */
+@Entity('note_history')
+export class MiNoteHistory {
+	/**
+	 * この版が作成された日時を元に生成される
+	 */
+	@PrimaryColumn(id())
+	public id: string;
+
+	@Index()
+	@Column({
+		...id(),
+		comment: 'The ID of note.',
+	})
+	public noteId: MiNote['id'];
+
+	@ManyToOne(type => MiNote, {
+		onDelete: 'CASCADE',
+	})
+	@JoinColumn()
+	public note: MiNote | null;
+
+	@Column('text', {
+		nullable: true,
+	})
+	public text: string | null;
+
+	@Column('varchar', {
+		length: 512, nullable: true,
+	})
+	public cw: string | null;
+
+	@Column({
+		...id(),
+		array: true, default: '{}',
+	})
+	public fileIds: MiDriveFile['id'][];
+
+	@Column('jsonb', {
+		nullable: true, default: null,
+	})
+	public poll: {
+		choices: string[];
+		multiple: boolean;
+		expiresAt: string | null;
+	} | null;
+
+	constructor(data: Partial<MiNoteHistory>) {
+		if (data == null) return;
+
+		for (const [k, v] of Object.entries(data)) {
+			(this as any)[k] = v;
+		}
+	}
+}
@@ -0,0 +1,51 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { PrimaryColumn, Entity, Index, JoinColumn, Column, ManyToOne } from 'typeorm';
+import { id } from './util/id.js';
+import { MiNote } from './Note.js';
+import { MiUser } from './User.js';
+
+/**
+ * ローカルの投稿を他のサーバーの投稿が引用することを承認した記録 (FEP-044f の QuoteAuthorization)
+ */
+@Entity('note_quote_authorization')
+@Index(['noteId', 'quoteUri'], { unique: true })
+export class MiNoteQuoteAuthorization {
+	@PrimaryColumn(id())
+	public id: string;
+
+	@Index()
+	@Column({
+		...id(),
+		comment: 'The ID of the quoted note.',
+	})
+	public noteId: MiNote['id'];
+
+	@ManyToOne(type => MiNote, {
+		onDelete: 'CASCADE',
+	})
+	@JoinColumn()
+	public note: MiNote | null;
+
+	@Index()
+	@Column({
+		...id(),
+		comment: 'The ID of the author of the quoting note.',
+	})
+	public userId: MiUser['id'];
+
+	@ManyToOne(type => MiUser, {
+		onDelete: 'CASCADE',
+	})
+	@JoinColumn()
+	public user: MiUser | null;
+
+	@Column('varchar', {
+		length: 512,
+		comment: 'The URI of the quoting note.',
+	})
+	public quoteUri: string;
+}
@@ -9,6 +9,10 @@ import { MiNote } from './Note.js';
 import { MiAccessToken } from './AccessToken.js';
 import { MiRole } from './Role.js';
 import { MiDriveFile } from './DriveFile.js';
+import { MiAbuseUserReport } from './AbuseUserReport.js';
+import type { AbuseReportResolveType } from './AbuseUserReport.js';
+import { MiUserWarning } from './UserWarning.js';
+import { MiNoteDraft } from './NoteDraft.js';
 
 export type MiNotification = {
 	type: 'note';
@@ -94,6 +98,28 @@ export type MiNotification = {
 	type: 'createToken';
 	id: string;
 	createdAt: string;
+} | {
+	type: 'abuseReportResolved';
+	id: string;
+	createdAt: string;
+	reportId: MiAbuseUserReport['id'];
+	resolvedAs: AbuseReportResolveType | null;
+
+	/**
+	 * モデレーターから通報者へのメッセージ
+	 */
+	message: string | null;
+} | {
+	type: 'userWarningAppealResolved';
+	id: string;
+	createdAt: string;
+	userWarningId: MiUserWarning['id'];
+	appealStatus: 'accepted' | 'rejected';
+} | {
+	type: 'scheduledNotePostFailed';
+	id: string;
+	createdAt: string;
+	noteDraftId: MiNoteDraft['id'];
 } | {
 	type: 'app';
 	id: string;
@@ -8,6 +8,7 @@ import { Module } from '@nestjs/common';
 import { DI } from '@/di-symbols.js';
 import {
 	MiAbuseReportNotificationRecipient,
+	MiAbuseReportResponseTemplate,
 	MiAbuseUserReport,
 	MiAccessToken,
 	MiAd,
@@ -18,10 +19,15 @@ import {
 	MiAuthSession,
 	MiAvatarDecoration,
 	MiBlocking,
+	MiBlocklistEntry,
+	MiBlocklistSubscription,
 	MiBubbleGameRecord,
 	MiChannel,
 	MiChannelFavorite,
 	MiChannelFollowing,
+	MiChatMessage,
+	MiChatRoom,
+	MiChatRoomMembership,
 	MiClip,
 	MiClipFavorite,
 	MiClipNote,
@@ -40,7 +46,10 @@ import {
 	MiModerationLog,
 	MiMuting,
 	MiNote,
+	MiNoteDraft,
 	MiNoteFavorite,
+	MiNoteHistory,
+	MiNoteQuoteAuthorization,
 	MiNoteReaction,
 	MiNoteThreadMuting,
 	MiNoteUnread,
@@ -77,7 +86,9 @@ import {
 	MiUserProfile,
 	MiUserPublickey,
 	MiUserSecurityKey,
-	MiWebhook
+	MiUserWarning,
+	MiWebhook,
+	MiWebhookDeliveryLog
 } from './_.js';
 import type { DataSource } from 'typeorm';
 
@@ -495,6 +506,72 @@ const $reversiGamesRepository: Provider = {
 	inject: [DI.db],
 };
 
+const $noteHistoriesRepository: Provider = {
+	provide: DI.noteHistoriesRepository,
+	useFactory: (db: DataSource) => db.getRepository(MiNoteHistory).extend(miRepository as MiRepository<MiNoteHistory>),
+	inject: [DI.db],
+};
+
+const $noteDraftsRepository: Provider = {
+	provide: DI.noteDraftsRepository,
+	useFactory: (db: DataSource) => db.getRepository(MiNoteDraft).extend(miRepository as MiRepository<MiNoteDraft>),
+	inject: [DI.db],
+};
+
+const $chatRoomsRepository: Provider = {
+	provide: DI.chatRoomsRepository,
+	useFactory: (db: DataSource) => db.getRepository(MiChatRoom).extend(miRepository as MiRepository<MiChatRoom>),
+	inject: [DI.db],
+};
+
+const $chatRoomMembershipsRepository: Provider = {
+	provide: DI.chatRoomMembershipsRepository,
+	useFactory: (db: DataSource) => db.getRepository(MiChatRoomMembership).extend(miRepository as MiRepository<MiChatRoomMembership>),
+	inject: [DI.db],
+};
+
+const $chatMessagesRepository: Provider = {
+	provide: DI.chatMessagesRepository,
+	useFactory: (db: DataSource) => db.getRepository(MiChatMessage).extend(miRepository as MiRepository<MiChatMessage>),
+	inject: [DI.db],
+};
+
+const $webhookDeliveryLogsRepository: Provider = {
+	provide: DI.webhookDeliveryLogsRepository,
+	useFactory: (db: DataSource) => db.getRepository(MiWebhookDeliveryLog).extend(miRepository as MiRepository<MiWebhookDeliveryLog>),
+	inject: [DI.db],
+};
+
+const $blocklistSubscriptionsRepository: Provider = {
+	provide: DI.blocklistSubscriptionsRepository,
+	useFactory: (db: DataSource) => db.getRepository(MiBlocklistSubscription).extend(miRepository as MiRepository<MiBlocklistSubscription>),
+	inject: [DI.db],
+};
+
+const $blocklistEntriesRepository: Provider = {
+	provide: DI.blocklistEntriesRepository,
+	useFactory: (db: DataSource) => db.getRepository(MiBlocklistEntry).extend(miRepository as MiRepository<MiBlocklistEntry>),
+	inject: [DI.db],
+};
+
+const $noteQuoteAuthorizationsRepository: Provider = {
+	provide: DI.noteQuoteAuthorizationsRepository,
+	useFactory: (db: DataSource) => db.getRepository(MiNoteQuoteAuthorization).extend(miRepository as MiRepository<MiNoteQuoteAuthorization>),
+	inject: [DI.db],
+};
+
+const $abuseReportResponseTemplatesRepository: Provider = {
+	provide: DI.abuseReportResponseTemplatesRepository,
+	useFactory: (db: DataSource) => db.getRepository(MiAbuseReportResponseTemplate).extend(miRepository as MiRepository<MiAbuseReportResponseTemplate>),
+	inject: [DI.db],
+};
+
+const $userWarningsRepository: Provider = {
+	provide: DI.userWarningsRepository,
+	useFactory: (db: DataSource) => db.getRepository(MiUserWarning).extend(miRepository as MiRepository<MiUserWarning>),
+	inject: [DI.db],
+};
+
 @Module({
 	imports: [],
 	providers: [
@@ -567,6 +644,17 @@ const $reversiGamesRepository: Provider = {
 		$userMemosRepository,
 		$bubbleGameRecordsRepository,
 		$reversiGamesRepository,
+		$noteHistoriesRepository,
+		$noteDraftsRepository,
+		$chatRoomsRepository,
+		$chatRoomMembershipsRepository,
+		$chatMessagesRepository,
+		$webhookDeliveryLogsRepository,
+		$blocklistSubscriptionsRepository,
+		$blocklistEntriesRepository,
+		$noteQuoteAuthorizationsRepository,
+		$abuseReportResponseTemplatesRepository,
+		$userWarningsRepository,
 	],
 	exports: [
 		$usersRepository,
@@ -638,6 +726,17 @@ const $reversiGamesRepository: Provider = {
 		$userMemosRepository,
 		$bubbleGameRecordsRepository,
 		$reversiGamesRepository,
+		$noteHistoriesRepository,
+		$noteDraftsRepository,
+		$chatRoomsRepository,
+		$chatRoomMembershipsRepository,
+		$chatMessagesRepository,
+		$webhookDeliveryLogsRepository,
+		$blocklistSubscriptionsRepository,
+		$blocklistEntriesRepository,
+		$noteQuoteAuthorizationsRepository,
+		$abuseReportResponseTemplatesRepository,
+		$userWarningsRepository,
 	],
 })
 export class RepositoryModule {
@@ -154,6 +154,71 @@ type CondFormulaValueNotesMoreThanOrEq = {
 	value: number;
 };
 
+/**
+ * リモートユーザーのサーバーのホストが指定値に一致する場合のみ成立とする.
+ * `*` はワイルドカードとして扱う (例: `*.example.com`)
+ */
+type CondFormulaValueHostMatches = {
+	type: 'hostMatches';
+	host: string;
+};
+
+/**
+ * 確認済みのメールアドレスのドメインが指定値に一致する場合のみ成立とする.
+ * `*` はワイルドカードとして扱う
+ */
+type CondFormulaValueEmailDomainMatches = {
+	type: 'emailDomainMatches';
+	domain: string;
+};
+
+/**
+ * 連続ログイン日数が指定値以上の場合のみ成立とする
+ */
+type CondFormulaValueLoggedInStreakMoreThanOrEq = {
+	type: 'loggedInStreakMoreThanOrEq';
+	value: number;
+};
+
+/**
+ * 指定の実績を獲得している場合のみ成立とする
+ */
+type CondFormulaValueHasAchievement = {
+	type: 'hasAchievement';
+	achievement: string;
+};
+
+/**
+ * 二段階認証が有効なアカウントの場合のみ成立とする
+ */
+type CondFormulaValueIsTwoFactorEnabled = {
+	type: 'isTwoFactorEnabled';
+};
+
+/**
+ * 応答していないサーバーのユーザーの場合のみ成立とする
+ */
+type CondFormulaValueIsFromNotRespondingInstance = {
+	type: 'isFromNotRespondingInstance';
+};
+
+/**
+ * 最終アクティブから指定期間経っていない場合のみ成立とする
+ */
+type CondFormulaValueLastActiveLessThan = {
+	type: 'lastActiveLessThan';
+	sec: number;
+};
+
+/**
+ * 最終アクティブから指定期間経過した場合のみ成立とする.
+ * 一度もアクティブになっていないユーザーも成立とする
+ */
+type CondFormulaValueLastActiveMoreThan = {
+	type: 'lastActiveMoreThan';
+	sec: number;
+};
+
 export type RoleCondFormulaValue = { id: string } & (
 	CondFormulaValueAnd |
 	CondFormulaValueOr |
@@ -173,7 +238,15 @@ export type RoleCondFormulaValue = { id: string } & (
 	CondFormulaValueFollowingLessThanOrEq |
 	CondFormulaValueFollowingMoreThanOrEq |
 	CondFormulaValueNotesLessThanOrEq |
-	CondFormulaValueNotesMoreThanOrEq
+	CondFormulaValueNotesMoreThanOrEq |
+	CondFormulaValueHostMatches |
+	CondFormulaValueEmailDomainMatches |
+	CondFormulaValueLoggedInStreakMoreThanOrEq |
+	CondFormulaValueHasAchievement |
+	CondFormulaValueIsTwoFactorEnabled |
+	CondFormulaValueIsFromNotRespondingInstance |
+	CondFormulaValueLastActiveLessThan |
+	CondFormulaValueLastActiveMoreThan
 );
 
 @Entity('role')
@@ -4,7 +4,7 @@
  */
 
 import { Column, Entity, Index, PrimaryColumn } from 'typeorm';
-import { Serialized } from '@/types.js';
+import { moderationLogTypes, Serialized } from '@/types.js';
 import { id } from './util/id.js';
 
 export const systemWebhookEventTypes = [
@@ -18,6 +18,12 @@ export const systemWebhookEventTypes = [
 	'inactiveModeratorsWarning',
 	// モデレータが一定期間不在のためシステムにより招待制へと変更された
 	'inactiveModeratorsInvitationOnlyChanged',
+	// 連合先のサーバーが応答しなくなったとき
+	'instanceNotResponding',
+	// 連合先のサーバーの配信停止状態が変わったとき
+	'instanceSuspensionStateChanged',
+	// モデレーションログに記録される操作が行われたとき. イベント名はモデレーションログの種別と同じ
+	...moderationLogTypes,
 ] as const;
 export type SystemWebhookEventType = typeof systemWebhookEventTypes[number];
 
@@ -59,6 +65,14 @@ export class MiSystemWebhook {
 	})
 	public latestStatus: number | null;
 
+	/**
+	 * 連続して配送に失敗した回数. 一定回数を超えると自動で無効化される
+	 */
+	@Column('integer', {
+		default: 0,
+	})
+	public failureCount: number;
+
 	/**
 	 * 通知設定名.
 	 */
@@ -166,6 +166,13 @@ export class MiUser {
 	})
 	public isSuspended: boolean;
 
+	@Index()
+	@Column('timestamp with time zone', {
+		nullable: true,
+		comment: 'The date when the suspension of the User is lifted. Indefinite if null.',
+	})
+	public suspendedUntil: Date | null;
+
 	@Column('boolean', {
 		default: false,
 		comment: 'Whether the User is locked.',
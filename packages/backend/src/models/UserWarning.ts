@@ -0,0 +1,138 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { PrimaryColumn, Entity, Index, JoinColumn, Column, ManyToOne } from 'typeorm';
+import { id } from './util/id.js';
+import { MiUser } from './User.js';
+import { MiNote } from './Note.js';
+import { MiAbuseUserReport } from './AbuseUserReport.js';
+import { MiRole } from './Role.js';
+
+export const userWarningAppealStatuses = ['pending', 'accepted', 'rejected'] as const;
+export type UserWarningAppealStatus = typeof userWarningAppealStatuses[number];
+
+/**
+ * モデレーターからユーザーへの警告.
+ */
+@Entity('user_warning')
+export class MiUserWarning {
+	@PrimaryColumn(id())
+	public id: string;
+
+	@Index()
+	@Column(id())
+	public userId: MiUser['id'];
+
+	@ManyToOne(type => MiUser, {
+		onDelete: 'CASCADE',
+	})
+	@JoinColumn()
+	public user: MiUser | null;
+
+	@Column({
+		...id(),
+		nullable: true,
+	})
+	public moderatorId: MiUser['id'] | null;
+
+	@ManyToOne(type => MiUser, {
+		onDelete: 'SET NULL',
+	})
+	@JoinColumn()
+	public moderator: MiUser | null;
+
+	/**
+	 * 警告のきっかけになった通報
+	 */
+	@Column({
+		...id(),
+		nullable: true,
+	})
+	public reportId: MiAbuseUserReport['id'] | null;
+
+	@ManyToOne(type => MiAbuseUserReport, {
+		onDelete: 'SET NULL',
+	})
+	@JoinColumn()
+	public report: MiAbuseUserReport | null;
+
+	/**
+	 * 警告の対象になったノート
+	 */
+	@Column({
+		...id(),
+		nullable: true,
+	})
+	public noteId: MiNote['id'] | null;
+
+	@ManyToOne(type => MiNote, {
+		onDelete: 'SET NULL',
+	})
+	@JoinColumn()
+	public note: MiNote | null;
+
+	@Column('varchar', {
+		length: 2048,
+	})
+	public reason: string;
+
+	/**
+	 * 警告と同時に期限付きでアサインしたロール
+	 */
+	@Column({
+		...id(),
+		nullable: true,
+	})
+	public roleId: MiRole['id'] | null;
+
+	@ManyToOne(type => MiRole, {
+		onDelete: 'SET NULL',
+	})
+	@JoinColumn()
+	public role: MiRole | null;
+
+	@Column('timestamp with time zone', {
+		nullable: true,
+	})
+	public roleExpiresAt: Date | null;
+
+	/**
+	 * ユーザーが警告を確認した日時. 確認するまでログイン時にダイアログが表示される
+	 */
+	@Column('timestamp with time zone', {
+		nullable: true,
+	})
+	public acknowledgedAt: Date | null;
+
+	/**
+	 * 取り消された日時. 異議申し立てが認められた場合も取り消される
+	 */
+	@Column('timestamp with time zone', {
+		nullable: true,
+	})
+	public revokedAt: Date | null;
+
+	@Column('varchar', {
+		length: 2048, nullable: true,
+	})
+	public appealComment: string | null;
+
+	@Column('timestamp with time zone', {
+		nullable: true,
+	})
+	public appealedAt: Date | null;
+
+	/**
+	 * pending ... 異議申し立てが未対応
+	 * accepted ... 異議申し立てが認められ、警告が取り消された
+	 * rejected ... 異議申し立てが退けられた
+	 * null ... 異議申し立てされていない
+	 */
+	@Index()
+	@Column('varchar', {
+		length: 16, nullable: true,
+	})
+	public appealStatus: UserWarningAppealStatus | null;
+}
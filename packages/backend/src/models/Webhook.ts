@@ -7,7 +7,7 @@ import { PrimaryColumn, Entity, Index, JoinColumn, Column, ManyToOne } from 'typ
 import { id } from './util/id.js';
 import { MiUser } from './User.js';
 
-export const webhookEventTypes = ['mention', 'unfollow', 'follow', 'followed', 'note', 'reply', 'renote', 'reaction'] as const;
+export const webhookEventTypes = ['mention', 'unfollow', 'follow', 'followed', 'note', 'reply', 'renote', 'reaction', 'noteDeleted', 'followRequestReceived', 'followRequestAccepted', 'pollEnded', 'antennaMatched', 'achievementEarned', 'notification'] as const;
 export type WebhookEventTypes = typeof webhookEventTypes[number];
 
 @Entity('webhook')
@@ -71,4 +71,12 @@ export class MiWebhook {
 		nullable: true,
 	})
 	public latestStatus: number | null;
+
+	/**
+	 * 連続して配送に失敗した回数. 一定回数を超えると自動で無効化される
+	 */
+	@Column('integer', {
+		default: 0,
+	})
+	public failureCount: number;
 }
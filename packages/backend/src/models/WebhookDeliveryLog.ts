@@ -0,0 +1,104 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { Entity, Index, JoinColumn, Column, PrimaryColumn, ManyToOne } from 'typeorm';
+import { id } from './util/id.js';
+import { MiWebhook } from './Webhook.js';
+import { MiSystemWebhook } from './SystemWebhook.js';
+
+/**
+ * Webhookの配送ごとの記録.
+ * UserWebhookとSystemWebhookのどちらか一方に紐づく.
+ */
+@Entity('webhook_delivery_log')
+export class MiWebhookDeliveryLog {
+	/**
+	 * 配送を試みた日時を元に生成される
+	 */
+	@PrimaryColumn(id())
+	public id: string;
+
+	@Index()
+	@Column({
+		...id(),
+		nullable: true,
+		comment: 'The ID of the user webhook.',
+	})
+	public webhookId: MiWebhook['id'] | null;
+
+	@ManyToOne(type => MiWebhook, {
+		onDelete: 'CASCADE',
+	})
+	@JoinColumn()
+	public webhook: MiWebhook | null;
+
+	@Index()
+	@Column({
+		...id(),
+		nullable: true,
+		comment: 'The ID of the system webhook.',
+	})
+	public systemWebhookId: MiSystemWebhook['id'] | null;
+
+	@ManyToOne(type => MiSystemWebhook, {
+		onDelete: 'CASCADE',
+	})
+	@JoinColumn()
+	public systemWebhook: MiSystemWebhook | null;
+
+	/**
+	 * 再送しても変わらない、イベントごとのID
+	 */
+	@Column('varchar', {
+		length: 36,
+	})
+	public eventId: string;
+
+	@Column('varchar', {
+		length: 128,
+	})
+	public type: string;
+
+	@Column('varchar', {
+		length: 1024,
+	})
+	public url: string;
+
+	/**
+	 * 送信したリクエストボディ. 再送にも使う
+	 */
+	@Column('jsonb')
+	public requestBody: Record<string, any>;
+
+	/**
+	 * 応答のステータスコード. 応答が得られなかった場合はnull
+	 */
+	@Column('integer', {
+		nullable: true,
+	})
+	public statusCode: number | null;
+
+	/**
+	 * 応答が得られるまで(または失敗するまで)のミリ秒
+	 */
+	@Column('integer')
+	public latency: number;
+
+	@Column('varchar', {
+		length: 1024, nullable: true,
+	})
+	public error: string | null;
+
+	/**
+	 * 何回目の試行か(1始まり)
+	 */
+	@Column('smallint', {
+		default: 1,
+	})
+	public attempt: number;
+
+	@Column('boolean')
+	public success: boolean;
+}
@@ -79,6 +79,17 @@ import { MiFlashLike } from '@/models/FlashLike.js';
 import { MiUserListFavorite } from '@/models/UserListFavorite.js';
 import { MiBubbleGameRecord } from '@/models/BubbleGameRecord.js';
 import { MiReversiGame } from '@/models/ReversiGame.js';
+import { MiNoteHistory } from '@/models/NoteHistory.js';
+import { MiNoteDraft } from '@/models/NoteDraft.js';
+import { MiChatRoom } from '@/models/ChatRoom.js';
+import { MiChatRoomMembership } from '@/models/ChatRoomMembership.js';
+import { MiChatMessage } from '@/models/ChatMessage.js';
+import { MiWebhookDeliveryLog } from '@/models/WebhookDeliveryLog.js';
+import { MiBlocklistSubscription } from '@/models/BlocklistSubscription.js';
+import { MiBlocklistEntry } from '@/models/BlocklistEntry.js';
+import { MiNoteQuoteAuthorization } from '@/models/NoteQuoteAuthorization.js';
+import { MiAbuseReportResponseTemplate } from '@/models/AbuseReportResponseTemplate.js';
+import { MiUserWarning } from '@/models/UserWarning.js';
 import type { QueryDeepPartialEntity } from 'typeorm/query-builder/QueryPartialEntity.js';
 
 export interface MiRepository<T extends ObjectLiteral> {
@@ -194,6 +205,17 @@ export {
 	MiUserMemo,
 	MiBubbleGameRecord,
 	MiReversiGame,
+	MiNoteHistory,
+	MiNoteDraft,
+	MiChatRoom,
+	MiChatRoomMembership,
+	MiChatMessage,
+	MiWebhookDeliveryLog,
+	MiBlocklistSubscription,
+	MiBlocklistEntry,
+	MiNoteQuoteAuthorization,
+	MiAbuseReportResponseTemplate,
+	MiUserWarning,
 };
 
 export type AbuseUserReportsRepository = Repository<MiAbuseUserReport> & MiRepository<MiAbuseUserReport>;
@@ -265,3 +287,14 @@ export type FlashLikesRepository = Repository<MiFlashLike> & MiRepository<MiFlas
 export type UserMemoRepository = Repository<MiUserMemo> & MiRepository<MiUserMemo>;
 export type BubbleGameRecordsRepository = Repository<MiBubbleGameRecord> & MiRepository<MiBubbleGameRecord>;
 export type ReversiGamesRepository = Repository<MiReversiGame> & MiRepository<MiReversiGame>;
+export type NoteHistoriesRepository = Repository<MiNoteHistory> & MiRepository<MiNoteHistory>;
+export type NoteDraftsRepository = Repository<MiNoteDraft> & MiRepository<MiNoteDraft>;
+export type ChatRoomsRepository = Repository<MiChatRoom> & MiRepository<MiChatRoom>;
+export type ChatRoomMembershipsRepository = Repository<MiChatRoomMembership> & MiRepository<MiChatRoomMembership>;
+export type ChatMessagesRepository = Repository<MiChatMessage> & MiRepository<MiChatMessage>;
+export type WebhookDeliveryLogsRepository = Repository<MiWebhookDeliveryLog> & MiRepository<MiWebhookDeliveryLog>;
+export type BlocklistSubscriptionsRepository = Repository<MiBlocklistSubscription> & MiRepository<MiBlocklistSubscription>;
+export type BlocklistEntriesRepository = Repository<MiBlocklistEntry> & MiRepository<MiBlocklistEntry>;
+export type NoteQuoteAuthorizationsRepository = Repository<MiNoteQuoteAuthorization> & MiRepository<MiNoteQuoteAuthorization>;
+export type AbuseReportResponseTemplatesRepository = Repository<MiAbuseReportResponseTemplate> & MiRepository<MiAbuseReportResponseTemplate>;
+export type UserWarningsRepository = Repository<MiUserWarning> & MiRepository<MiUserWarning>;
@@ -0,0 +1,122 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { blocklistSeverities } from '@/misc/blocklist-csv.js';
+
+const hostStateSchema = {
+	type: 'object',
+	optional: false, nullable: false,
+	properties: {
+		severity: {
+			type: 'string',
+			optional: false, nullable: false,
+			enum: blocklistSeverities,
+		},
+		rejectMedia: {
+			type: 'boolean',
+			optional: false, nullable: false,
+		},
+	},
+} as const;
+
+export const packedBlocklistSubscriptionSchema = {
+	type: 'object',
+	properties: {
+		id: {
+			type: 'string',
+			optional: false, nullable: false,
+			format: 'id',
+		},
+		createdAt: {
+			type: 'string',
+			optional: false, nullable: false,
+			format: 'date-time',
+		},
+		url: {
+			type: 'string',
+			optional: false, nullable: false,
+		},
+		isActive: {
+			type: 'boolean',
+			optional: false, nullable: false,
+		},
+		recordsCount: {
+			type: 'number',
+			optional: false, nullable: false,
+		},
+		lastFetchedAt: {
+			type: 'string',
+			optional: false, nullable: true,
+			format: 'date-time',
+		},
+		lastError: {
+			type: 'string',
+			optional: false, nullable: true,
+		},
+		lastAppliedAt: {
+			type: 'string',
+			optional: false, nullable: true,
+			format: 'date-time',
+		},
+	},
+} as const;
+
+export const packedBlocklistEntrySchema = {
+	type: 'object',
+	properties: {
+		id: {
+			type: 'string',
+			optional: false, nullable: false,
+			format: 'id',
+		},
+		createdAt: {
+			type: 'string',
+			optional: false, nullable: false,
+			format: 'date-time',
+		},
+		host: {
+			type: 'string',
+			optional: false, nullable: false,
+		},
+		severity: {
+			type: 'string',
+			optional: false, nullable: false,
+			enum: blocklistSeverities,
+		},
+		rejectMedia: {
+			type: 'boolean',
+			optional: false, nullable: false,
+		},
+		publicComment: {
+			type: 'string',
+			optional: false, nullable: false,
+		},
+		source: {
+			type: 'string',
+			optional: false, nullable: false,
+		},
+		subscriptionId: {
+			type: 'string',
+			optional: false, nullable: true,
+			format: 'id',
+		},
+	},
+} as const;
+
+export const packedBlocklistChangeSchema = {
+	type: 'object',
+	properties: {
+		host: {
+			type: 'string',
+			optional: false, nullable: false,
+		},
+		before: hostStateSchema,
+		after: hostStateSchema,
+		publicComment: {
+			type: 'string',
+			optional: false, nullable: false,
+		},
+	},
+} as const;
@@ -0,0 +1,74 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+export const packedChatMessageSchema = {
+	type: 'object',
+	properties: {
+		id: {
+			type: 'string',
+			optional: false, nullable: false,
+			format: 'id',
+			example: 'xxxxxxxxxx',
+		},
+		createdAt: {
+			type: 'string',
+			optional: false, nullable: false,
+			format: 'date-time',
+		},
+		fromUserId: {
+			type: 'string',
+			optional: false, nullable: false,
+			format: 'id',
+		},
+		fromUser: {
+			type: 'object',
+			ref: 'UserLite',
+			optional: false, nullable: false,
+		},
+		toUserId: {
+			type: 'string',
+			optional: false, nullable: true,
+			format: 'id',
+		},
+		toUser: {
+			type: 'object',
+			ref: 'UserLite',
+			optional: true, nullable: true,
+		},
+		toRoomId: {
+			type: 'string',
+			optional: false, nullable: true,
+			format: 'id',
+		},
+		toRoom: {
+			type: 'object',
+			ref: 'ChatRoom',
+			optional: true, nullable: true,
+		},
+		text: {
+			type: 'string',
+			optional: false, nullable: true,
+		},
+		fileId: {
+			type: 'string',
+			optional: false, nullable: true,
+			format: 'id',
+		},
+		file: {
+			type: 'object',
+			ref: 'DriveFile',
+			optional: false, nullable: true,
+		},
+		reads: {
+			type: 'array',
+			optional: false, nullable: false,
+			items: {
+				type: 'string',
+				optional: false, nullable: false,
+				format: 'id',
+			},
+		},
+	},
+} as const;
@@ -3,6 +3,8 @@
  * SPDX-License-Identifier: AGPL-3.0-only
  */
 
+import { instancePolicies } from '@/models/Instance.js';
+
 export const packedFederationInstanceSchema = {
 	type: 'object',
 	properties: {
@@ -120,5 +122,14 @@ export const packedFederationInstanceSchema = {
 			type: 'string',
 			optional: true, nullable: true,
 		},
+		policies: {
+			type: 'array',
+			optional: true, nullable: true,
+			items: {
+				type: 'string',
+				optional: false, nullable: false,
+				enum: instancePolicies,
+			},
+		},
 	},
 } as const;
@@ -3,6 +3,8 @@
  * SPDX-License-Identifier: AGPL-3.0-only
  */
 
+import { noteQuotePolicies } from '@/types.js';
+
 export const packedNoteSchema = {
 	type: 'object',
 	properties: {
@@ -22,6 +24,11 @@ export const packedNoteSchema = {
 			optional: true, nullable: true,
 			format: 'date-time',
 		},
+		updatedAt: {
+			type: 'string',
+			optional: true, nullable: true,
+			format: 'date-time',
+		},
 		text: {
 			type: 'string',
 			optional: false, nullable: true,
@@ -206,6 +213,11 @@ export const packedNoteSchema = {
 			optional: false, nullable: true,
 			enum: ['likeOnly', 'likeOnlyForRemote', 'nonSensitiveOnly', 'nonSensitiveOnlyForLocalLikeOnlyForRemote', null],
 		},
+		quotePolicy: {
+			type: 'string',
+			optional: false, nullable: false,
+			enum: noteQuotePolicies,
+		},
 		reactionEmojis: {
 			type: 'object',
 			optional: false, nullable: false,
@@ -244,6 +256,22 @@ export const packedNoteSchema = {
 			type: 'string',
 			optional: true, nullable: false,
 		},
+		moderatorCw: {
+			type: 'string',
+			optional: true, nullable: false,
+		},
+		isHiddenByModerator: {
+			type: 'boolean',
+			optional: true, nullable: false,
+		},
+		isSensitiveByModerator: {
+			type: 'boolean',
+			optional: true, nullable: false,
+		},
+		isExcludedFromPublicTimelines: {
+			type: 'boolean',
+			optional: true, nullable: false,
+		},
 		reactionAndUserPairCache: {
 			type: 'array',
 			optional: true, nullable: false,
@@ -342,6 +342,65 @@ export const packedNotificationSchema = {
 				enum: ['createToken'],
 			},
 		},
+	}, {
+		type: 'object',
+		properties: {
+			...baseSchema.properties,
+			type: {
+				type: 'string',
+				optional: false, nullable: false,
+				enum: ['abuseReportResolved'],
+			},
+			reportId: {
+				type: 'string',
+				optional: false, nullable: false,
+				format: 'id',
+			},
+			resolvedAs: {
+				type: 'string',
+				optional: false, nullable: true,
+				enum: ['accept', 'reject', null],
+			},
+			message: {
+				type: 'string',
+				optional: false, nullable: true,
+			},
+		},
+	}, {
+		type: 'object',
+		properties: {
+			...baseSchema.properties,
+			type: {
+				type: 'string',
+				optional: false, nullable: false,
+				enum: ['userWarningAppealResolved'],
+			},
+			userWarningId: {
+				type: 'string',
+				optional: false, nullable: false,
+				format: 'id',
+			},
+			appealStatus: {
+				type: 'string',
+				optional: false, nullable: false,
+				enum: ['accepted', 'rejected'],
+			},
+		},
+	}, {
+		type: 'object',
+		properties: {
+			...baseSchema.properties,
+			type: {
+				type: 'string',
+				optional: false, nullable: false,
+				enum: ['scheduledNotePostFailed'],
+			},
+			noteDraftId: {
+				type: 'string',
+				optional: false, nullable: false,
+				format: 'id',
+			},
+		},
 	}, {
 		type: 'object',
 		properties: {
@@ -52,7 +52,7 @@ export const packedRoleCondFormulaValueIsLocalOrRemoteSchema = {
 		type: {
 			type: 'string',
 			nullable: false, optional: false,
-			enum: ['isLocal', 'isRemote'],
+			enum: ['isLocal', 'isRemote', 'isFromNotRespondingInstance'],
 		},
 	},
 } as const;
@@ -66,7 +66,7 @@ export const packedRoleCondFormulaValueUserSettingBooleanSchema = {
 		type: {
 			type: 'string',
 			nullable: false, optional: false,
-			enum: ['isSuspended', 'isLocked', 'isBot', 'isCat', 'isExplorable'],
+			enum: ['isSuspended', 'isLocked', 'isBot', 'isCat', 'isExplorable', 'isTwoFactorEnabled'],
 		},
 	},
 } as const;
@@ -103,6 +103,8 @@ export const packedRoleCondFormulaValueCreatedSchema = {
 			enum: [
 				'createdLessThan',
 				'createdMoreThan',
+				'lastActiveLessThan',
+				'lastActiveMoreThan',
 			],
 		},
 		sec: {
@@ -128,6 +130,7 @@ export const packedRoleCondFormulaFollowersOrFollowingOrNotesSchema = {
 				'followingMoreThanOrEq',
 				'notesLessThanOrEq',
 				'notesMoreThanOrEq',
+				'loggedInStreakMoreThanOrEq',
 			],
 		},
 		value: {
@@ -137,6 +140,62 @@ export const packedRoleCondFormulaFollowersOrFollowingOrNotesSchema = {
 	},
 } as const;
 
+export const packedRoleCondFormulaValueHostSchema = {
+	type: 'object',
+	properties: {
+		id: {
+			type: 'string', optional: false,
+		},
+		type: {
+			type: 'string',
+			nullable: false, optional: false,
+			enum: ['hostMatches'],
+		},
+		host: {
+			type: 'string',
+			nullable: false, optional: false,
+			example: '*.example.com',
+		},
+	},
+} as const;
+
+export const packedRoleCondFormulaValueEmailDomainSchema = {
+	type: 'object',
+	properties: {
+		id: {
+			type: 'string', optional: false,
+		},
+		type: {
+			type: 'string',
+			nullable: false, optional: false,
+			enum: ['emailDomainMatches'],
+		},
+		domain: {
+			type: 'string',
+			nullable: false, optional: false,
+			example: 'example.com',
+		},
+	},
+} as const;
+
+export const packedRoleCondFormulaValueAchievementSchema = {
+	type: 'object',
+	properties: {
+		id: {
+			type: 'string', optional: false,
+		},
+		type: {
+			type: 'string',
+			nullable: false, optional: false,
+			enum: ['hasAchievement'],
+		},
+		achievement: {
+			type: 'string',
+			nullable: false, optional: false,
+		},
+	},
+} as const;
+
 export const packedRoleCondFormulaValueSchema = {
 	type: 'object',
 	oneOf: [
@@ -161,6 +220,15 @@ export const packedRoleCondFormulaValueSchema = {
 		{
 			ref: 'RoleCondFormulaFollowersOrFollowingOrNotes',
 		},
+		{
+			ref: 'RoleCondFormulaValueHost',
+		},
+		{
+			ref: 'RoleCondFormulaValueEmailDomain',
+		},
+		{
+			ref: 'RoleCondFormulaValueAchievement',
+		},
 	],
 } as const;
 
@@ -288,10 +356,26 @@ export const packedRolePoliciesSchema = {
 			type: 'boolean',
 			optional: false, nullable: false,
 		},
+		canImportNotes: {
+			type: 'boolean',
+			optional: false, nullable: false,
+		},
 		canImportUserLists: {
 			type: 'boolean',
 			optional: false, nullable: false,
 		},
+		canChat: {
+			type: 'boolean',
+			optional: false, nullable: false,
+		},
+		chatRoomLimit: {
+			type: 'integer',
+			optional: false, nullable: false,
+		},
+		chatRoomMemberLimit: {
+			type: 'integer',
+			optional: false, nullable: false,
+		},
 	},
 } as const;
 
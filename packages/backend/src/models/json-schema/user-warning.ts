@@ -0,0 +1,101 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { userWarningAppealStatuses } from '@/models/UserWarning.js';
+
+export const packedUserWarningSchema = {
+	type: 'object',
+	properties: {
+		id: {
+			type: 'string',
+			optional: false, nullable: false,
+			format: 'id',
+		},
+		createdAt: {
+			type: 'string',
+			optional: false, nullable: false,
+			format: 'date-time',
+		},
+		userId: {
+			type: 'string',
+			optional: false, nullable: false,
+			format: 'id',
+		},
+		reason: {
+			type: 'string',
+			optional: false, nullable: false,
+		},
+		noteId: {
+			type: 'string',
+			optional: false, nullable: true,
+			format: 'id',
+		},
+		note: {
+			type: 'object',
+			optional: true, nullable: true,
+			ref: 'Note',
+		},
+		roleExpiresAt: {
+			type: 'string',
+			optional: false, nullable: true,
+			format: 'date-time',
+		},
+		acknowledgedAt: {
+			type: 'string',
+			optional: false, nullable: true,
+			format: 'date-time',
+		},
+		revokedAt: {
+			type: 'string',
+			optional: false, nullable: true,
+			format: 'date-time',
+		},
+		appealComment: {
+			type: 'string',
+			optional: false, nullable: true,
+		},
+		appealedAt: {
+			type: 'string',
+			optional: false, nullable: true,
+			format: 'date-time',
+		},
+		appealStatus: {
+			type: 'string',
+			optional: false, nullable: true,
+			enum: [...userWarningAppealStatuses, null],
+		},
+		// 以下はモデレーターにのみ返す
+		user: {
+			type: 'object',
+			optional: true, nullable: false,
+			ref: 'UserLite',
+		},
+		moderatorId: {
+			type: 'string',
+			optional: true, nullable: true,
+			format: 'id',
+		},
+		moderator: {
+			type: 'object',
+			optional: true, nullable: true,
+			ref: 'UserLite',
+		},
+		reportId: {
+			type: 'string',
+			optional: true, nullable: true,
+			format: 'id',
+		},
+		roleId: {
+			type: 'string',
+			optional: true, nullable: true,
+			format: 'id',
+		},
+		role: {
+			type: 'object',
+			optional: true, nullable: true,
+			ref: 'RoleLite',
+		},
+	},
+} as const;
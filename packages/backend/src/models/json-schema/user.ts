@@ -532,6 +532,15 @@ export const packedMeDetailedOnlySchema = {
 				ref: 'Announcement',
 			},
 		},
+		unacknowledgedWarnings: {
+			type: 'array',
+			nullable: false, optional: false,
+			items: {
+				type: 'object',
+				nullable: false, optional: false,
+				ref: 'UserWarning',
+			},
+		},
 		hasUnreadAntenna: {
 			type: 'boolean',
 			nullable: false, optional: false,
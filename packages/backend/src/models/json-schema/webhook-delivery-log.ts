@@ -0,0 +1,56 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+export const packedWebhookDeliveryLogSchema = {
+	type: 'object',
+	properties: {
+		id: {
+			type: 'string',
+			optional: false, nullable: false,
+			format: 'id',
+		},
+		createdAt: {
+			type: 'string',
+			optional: false, nullable: false,
+			format: 'date-time',
+		},
+		eventId: {
+			type: 'string',
+			optional: false, nullable: false,
+		},
+		type: {
+			type: 'string',
+			optional: false, nullable: false,
+		},
+		url: {
+			type: 'string',
+			optional: false, nullable: false,
+		},
+		requestBody: {
+			type: 'object',
+			optional: false, nullable: false,
+		},
+		statusCode: {
+			type: 'integer',
+			optional: false, nullable: true,
+		},
+		latency: {
+			type: 'integer',
+			optional: false, nullable: false,
+		},
+		error: {
+			type: 'string',
+			optional: false, nullable: true,
+		},
+		attempt: {
+			type: 'integer',
+			optional: false, nullable: false,
+		},
+		success: {
+			type: 'boolean',
+			optional: false, nullable: false,
+		},
+	},
+} as const;
@@ -78,6 +78,17 @@ import { MiFlashLike } from '@/models/FlashLike.js';
 import { MiUserMemo } from '@/models/UserMemo.js';
 import { MiBubbleGameRecord } from '@/models/BubbleGameRecord.js';
 import { MiReversiGame } from '@/models/ReversiGame.js';
+import { MiNoteHistory } from '@/models/NoteHistory.js';
+import { MiNoteDraft } from '@/models/NoteDraft.js';
+import { MiChatRoom } from '@/models/ChatRoom.js';
+import { MiChatRoomMembership } from '@/models/ChatRoomMembership.js';
+import { MiChatMessage } from '@/models/ChatMessage.js';
+import { MiWebhookDeliveryLog } from '@/models/WebhookDeliveryLog.js';
+import { MiBlocklistSubscription } from '@/models/BlocklistSubscription.js';
+import { MiBlocklistEntry } from '@/models/BlocklistEntry.js';
+import { MiNoteQuoteAuthorization } from '@/models/NoteQuoteAuthorization.js';
+import { MiAbuseReportResponseTemplate } from '@/models/AbuseReportResponseTemplate.js';
+import { MiUserWarning } from '@/models/UserWarning.js';
 
 import { Config } from '@/config.js';
 import MisskeyLogger from '@/logger.js';
@@ -236,6 +247,17 @@ export const entities = [
 	MiUserMemo,
 	MiBubbleGameRecord,
 	MiReversiGame,
+	MiNoteHistory,
+	MiNoteDraft,
+	MiChatRoom,
+	MiChatRoomMembership,
+	MiChatMessage,
+	MiWebhookDeliveryLog,
+	MiBlocklistSubscription,
+	MiBlocklistEntry,
+	MiNoteQuoteAuthorization,
+	MiAbuseReportResponseTemplate,
+	MiUserWarning,
 	...charts,
 ];
 
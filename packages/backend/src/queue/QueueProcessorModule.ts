@@ -11,15 +11,21 @@ import { QueueLoggerService } from './QueueLoggerService.js';
 import { QueueProcessorService } from './QueueProcessorService.js';
 import { DeliverProcessorService } from './processors/DeliverProcessorService.js';
 import { EndedPollNotificationProcessorService } from './processors/EndedPollNotificationProcessorService.js';
+import { ScheduledNotePublishProcessorService } from './processors/ScheduledNotePublishProcessorService.js';
 import { InboxProcessorService } from './processors/InboxProcessorService.js';
 import { UserWebhookDeliverProcessorService } from './processors/UserWebhookDeliverProcessorService.js';
 import { SystemWebhookDeliverProcessorService } from './processors/SystemWebhookDeliverProcessorService.js';
 import { CheckExpiredMutingsProcessorService } from './processors/CheckExpiredMutingsProcessorService.js';
+import { CheckExpiredSuspensionsProcessorService } from './processors/CheckExpiredSuspensionsProcessorService.js';
+import { RefreshBlocklistSubscriptionsProcessorService } from './processors/RefreshBlocklistSubscriptionsProcessorService.js';
 import { BakeBufferedReactionsProcessorService } from './processors/BakeBufferedReactionsProcessorService.js';
 import { CleanChartsProcessorService } from './processors/CleanChartsProcessorService.js';
 import { CleanProcessorService } from './processors/CleanProcessorService.js';
 import { CleanRemoteFilesProcessorService } from './processors/CleanRemoteFilesProcessorService.js';
 import { DeleteAccountProcessorService } from './processors/DeleteAccountProcessorService.js';
+import { RebuildSearchIndexProcessorService } from './processors/RebuildSearchIndexProcessorService.js';
+import { BackfillUserNotesProcessorService } from './processors/BackfillUserNotesProcessorService.js';
+import { BackfillRepliesProcessorService } from './processors/BackfillRepliesProcessorService.js';
 import { DeleteDriveFilesProcessorService } from './processors/DeleteDriveFilesProcessorService.js';
 import { DeleteFileProcessorService } from './processors/DeleteFileProcessorService.js';
 import { ExportBlockingProcessorService } from './processors/ExportBlockingProcessorService.js';
@@ -34,6 +40,7 @@ import { ImportBlockingProcessorService } from './processors/ImportBlockingProce
 import { ImportCustomEmojisProcessorService } from './processors/ImportCustomEmojisProcessorService.js';
 import { ImportFollowingProcessorService } from './processors/ImportFollowingProcessorService.js';
 import { ImportMutingProcessorService } from './processors/ImportMutingProcessorService.js';
+import { ImportNotesProcessorService } from './processors/ImportNotesProcessorService.js';
 import { ImportUserListsProcessorService } from './processors/ImportUserListsProcessorService.js';
 import { ImportAntennasProcessorService } from './processors/ImportAntennasProcessorService.js';
 import { ResyncChartsProcessorService } from './processors/ResyncChartsProcessorService.js';
@@ -68,21 +75,28 @@ import { RelationshipProcessorService } from './processors/RelationshipProcessor
 		ImportFollowingProcessorService,
 		ImportMutingProcessorService,
 		ImportBlockingProcessorService,
+		ImportNotesProcessorService,
 		ImportUserListsProcessorService,
 		ImportCustomEmojisProcessorService,
 		ImportAntennasProcessorService,
 		DeleteAccountProcessorService,
+		RebuildSearchIndexProcessorService,
+		BackfillUserNotesProcessorService,
+		BackfillRepliesProcessorService,
 		DeleteFileProcessorService,
 		CleanRemoteFilesProcessorService,
 		RelationshipProcessorService,
 		UserWebhookDeliverProcessorService,
 		SystemWebhookDeliverProcessorService,
 		EndedPollNotificationProcessorService,
+		ScheduledNotePublishProcessorService,
 		DeliverProcessorService,
 		InboxProcessorService,
 		AggregateRetentionProcessorService,
 		CheckExpiredMutingsProcessorService,
+		CheckExpiredSuspensionsProcessorService,
 		CheckModeratorsActivityProcessorService,
+		RefreshBlocklistSubscriptionsProcessorService,
 		QueueProcessorService,
 	],
 	exports: [
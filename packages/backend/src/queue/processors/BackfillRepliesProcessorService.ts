@@ -0,0 +1,43 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { Inject, Injectable } from '@nestjs/common';
+import { DI } from '@/di-symbols.js';
+import type { NotesRepository } from '@/models/_.js';
+import type Logger from '@/logger.js';
+import { ApBackfillService } from '@/core/activitypub/ApBackfillService.js';
+import { bindThis } from '@/decorators.js';
+import { QueueLoggerService } from '../QueueLoggerService.js';
+import type * as Bull from 'bullmq';
+import type { DbBackfillRepliesJobData } from '../types.js';
+
+@Injectable()
+export class BackfillRepliesProcessorService {
+	private logger: Logger;
+
+	constructor(
+		@Inject(DI.notesRepository)
+		private notesRepository: NotesRepository,
+
+		private apBackfillService: ApBackfillService,
+		private queueLoggerService: QueueLoggerService,
+	) {
+		this.logger = this.queueLoggerService.logger.createSubLogger('backfill-replies');
+	}
+
+	@bindThis
+	public async process(job: Bull.Job<DbBackfillRepliesJobData>): Promise<void> {
+		const note = await this.notesRepository.findOneBy({ id: job.data.noteId });
+		if (note == null || note.uri == null) {
+			return;
+		}
+
+		this.logger.info(`Backfilling replies of ${note.uri} ...`);
+
+		const imported = await this.apBackfillService.backfillReplies(note);
+
+		this.logger.succ(`Backfilled ${imported} notes in the thread of ${note.uri}`);
+	}
+}
@@ -0,0 +1,45 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { Inject, Injectable } from '@nestjs/common';
+import { DI } from '@/di-symbols.js';
+import type { UsersRepository } from '@/models/_.js';
+import type Logger from '@/logger.js';
+import { UserEntityService } from '@/core/entities/UserEntityService.js';
+import { ApBackfillService } from '@/core/activitypub/ApBackfillService.js';
+import { bindThis } from '@/decorators.js';
+import { QueueLoggerService } from '../QueueLoggerService.js';
+import type * as Bull from 'bullmq';
+import type { DbJobDataWithUser } from '../types.js';
+
+@Injectable()
+export class BackfillUserNotesProcessorService {
+	private logger: Logger;
+
+	constructor(
+		@Inject(DI.usersRepository)
+		private usersRepository: UsersRepository,
+
+		private userEntityService: UserEntityService,
+		private apBackfillService: ApBackfillService,
+		private queueLoggerService: QueueLoggerService,
+	) {
+		this.logger = this.queueLoggerService.logger.createSubLogger('backfill-user-notes');
+	}
+
+	@bindThis
+	public async process(job: Bull.Job<DbJobDataWithUser>): Promise<void> {
+		const user = await this.usersRepository.findOneBy({ id: job.data.user.id });
+		if (user == null || !this.userEntityService.isRemoteUser(user) || user.isSuspended) {
+			return;
+		}
+
+		this.logger.info(`Backfilling notes of ${user.uri} ...`);
+
+		const imported = await this.apBackfillService.backfillUserNotes(user);
+
+		this.logger.succ(`Backfilled ${imported} notes of ${user.uri}`);
+	}
+}
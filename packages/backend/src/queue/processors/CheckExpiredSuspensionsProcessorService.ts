@@ -0,0 +1,44 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { Inject, Injectable } from '@nestjs/common';
+import { DI } from '@/di-symbols.js';
+import type { UsersRepository } from '@/models/_.js';
+import type Logger from '@/logger.js';
+import { bindThis } from '@/decorators.js';
+import { UserSuspendService } from '@/core/UserSuspendService.js';
+import { QueueLoggerService } from '../QueueLoggerService.js';
+
+@Injectable()
+export class CheckExpiredSuspensionsProcessorService {
+	private logger: Logger;
+
+	constructor(
+		@Inject(DI.usersRepository)
+		private usersRepository: UsersRepository,
+
+		private userSuspendService: UserSuspendService,
+		private queueLoggerService: QueueLoggerService,
+	) {
+		this.logger = this.queueLoggerService.logger.createSubLogger('check-expired-suspensions');
+	}
+
+	@bindThis
+	public async process(): Promise<void> {
+		this.logger.info('Checking expired suspensions...');
+
+		const expired = await this.usersRepository.createQueryBuilder('user')
+			.where('user.isSuspended = TRUE')
+			.andWhere('user.suspendedUntil IS NOT NULL')
+			.andWhere('user.suspendedUntil < :now', { now: new Date() })
+			.getMany();
+
+		for (const user of expired) {
+			await this.userSuspendService.unsuspendExpired(user);
+		}
+
+		this.logger.succ(`${expired.length} expired suspensions lifted.`);
+	}
+}
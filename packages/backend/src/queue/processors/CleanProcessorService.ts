@@ -12,6 +12,7 @@ import { bindThis } from '@/decorators.js';
 import { IdService } from '@/core/IdService.js';
 import type { Config } from '@/config.js';
 import { ReversiService } from '@/core/ReversiService.js';
+import { WebhookDeliveryService } from '@/core/WebhookDeliveryService.js';
 import { QueueLoggerService } from '../QueueLoggerService.js';
 import type * as Bull from 'bullmq';
 
@@ -34,6 +35,7 @@ export class CleanProcessorService {
 
 		private queueLoggerService: QueueLoggerService,
 		private reversiService: ReversiService,
+		private webhookDeliveryService: WebhookDeliveryService,
 		private idService: IdService,
 	) {
 		this.logger = this.queueLoggerService.logger.createSubLogger('clean');
@@ -69,6 +71,8 @@ export class CleanProcessorService {
 
 		this.reversiService.cleanOutdatedGames();
 
+		this.webhookDeliveryService.cleanOldLogs();
+
 		this.logger.succ('Cleaned.');
 	}
 }
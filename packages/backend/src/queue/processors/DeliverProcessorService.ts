@@ -19,6 +19,7 @@ import ApRequestChart from '@/core/chart/charts/ap-request.js';
 import FederationChart from '@/core/chart/charts/federation.js';
 import { StatusError } from '@/misc/status-error.js';
 import { UtilityService } from '@/core/UtilityService.js';
+import { AbuseReportService } from '@/core/AbuseReportService.js';
 import { bindThis } from '@/decorators.js';
 import { QueueLoggerService } from '../QueueLoggerService.js';
 import type { DeliverJobData } from '../types.js';
@@ -37,6 +38,7 @@ export class DeliverProcessorService {
 		private instancesRepository: InstancesRepository,
 
 		private utilityService: UtilityService,
+		private abuseReportService: AbuseReportService,
 		private federatedInstanceService: FederatedInstanceService,
 		private fetchInstanceMetadataService: FetchInstanceMetadataService,
 		private apRequestService: ApRequestService,
@@ -54,6 +56,7 @@ export class DeliverProcessorService {
 		const { host } = new URL(job.data.to);
 
 		if (!this.utilityService.isFederationAllowedUri(job.data.to)) {
+			await this.recordAbuseReportForwardResult(job, 'failed', 'blocked');
 			return 'skip (blocked)';
 		}
 
@@ -68,6 +71,7 @@ export class DeliverProcessorService {
 			this.suspendedHostsCache.set(suspendedHosts);
 		}
 		if (suspendedHosts.map(x => x.host).includes(this.utilityService.toPuny(host))) {
+			await this.recordAbuseReportForwardResult(job, 'failed', 'suspended');
 			return 'skip (suspended)';
 		}
 
@@ -77,6 +81,8 @@ export class DeliverProcessorService {
 			this.apRequestChart.deliverSucc();
 			this.federationChart.deliverd(host, true);
 
+			await this.recordAbuseReportForwardResult(job, 'delivered', null);
+
 			// Update instance stats
 			process.nextTick(async () => {
 				const i = await (this.meta.enableStatsForFederatedInstances
@@ -133,6 +139,11 @@ export class DeliverProcessorService {
 				}
 			});
 
+			// リトライを使い切った場合と、リトライしても意味がない場合だけを失敗とする
+			if ((res instanceof StatusError && !res.isRetryable) || job.attemptsMade + 1 >= (job.opts.attempts ?? 1)) {
+				await this.recordAbuseReportForwardResult(job, 'failed', res instanceof StatusError ? `${res.statusCode} ${res.statusMessage}` : String(res));
+			}
+
 			if (res instanceof StatusError) {
 				// 4xx
 				if (!res.isRetryable) {
@@ -156,4 +167,14 @@ export class DeliverProcessorService {
 			}
 		}
 	}
+
+	@bindThis
+	private async recordAbuseReportForwardResult(job: Bull.Job<DeliverJobData>, status: 'delivered' | 'failed', error: string | null): Promise<void> {
+		if (job.data.abuseReportId == null) return;
+
+		await this.abuseReportService.recordForwardResult(job.data.abuseReportId, status, error).catch(err => {
+			// 配送の結果には影響させない
+			this.logger.error(`Failed to record forward result of abuse report ${job.data.abuseReportId}`, { err });
+		});
+	}
 }
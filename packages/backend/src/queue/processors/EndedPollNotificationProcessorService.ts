@@ -9,6 +9,8 @@ import type { PollVotesRepository, NotesRepository } from '@/models/_.js';
 import type Logger from '@/logger.js';
 import { CacheService } from '@/core/CacheService.js';
 import { NotificationService } from '@/core/NotificationService.js';
+import { NoteEntityService } from '@/core/entities/NoteEntityService.js';
+import { UserWebhookService } from '@/core/UserWebhookService.js';
 import { bindThis } from '@/decorators.js';
 import { QueueLoggerService } from '../QueueLoggerService.js';
 import type * as Bull from 'bullmq';
@@ -27,6 +29,8 @@ export class EndedPollNotificationProcessorService {
 
 		private cacheService: CacheService,
 		private notificationService: NotificationService,
+		private noteEntityService: NoteEntityService,
+		private webhookService: UserWebhookService,
 		private queueLoggerService: QueueLoggerService,
 	) {
 		this.logger = this.queueLoggerService.logger.createSubLogger('ended-poll-notification');
@@ -54,6 +58,11 @@ export class EndedPollNotificationProcessorService {
 				this.notificationService.createNotification(userId, 'pollEnded', {
 					noteId: note.id,
 				});
+
+				if (await this.webhookService.hasActiveWebhook(userId, 'pollEnded')) {
+					const packed = await this.noteEntityService.pack(note, { id: userId });
+					this.webhookService.enqueueUserWebhook(userId, 'pollEnded', { note: packed });
+				}
 			}
 		}
 	}
@@ -0,0 +1,232 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import * as fs from 'node:fs';
+import * as nodePath from 'node:path';
+import { Inject, Injectable } from '@nestjs/common';
+import { ZipReader } from 'slacc';
+import { IsNull } from 'typeorm';
+import { DI } from '@/di-symbols.js';
+import type { Config } from '@/config.js';
+import type { DriveFilesRepository, MiDriveFile, MiNote, NotesRepository, UsersRepository } from '@/models/_.js';
+import type { MiLocalUser } from '@/models/User.js';
+import type Logger from '@/logger.js';
+import { NoteCreateService } from '@/core/NoteCreateService.js';
+import { DriveService } from '@/core/DriveService.js';
+import { DownloadService } from '@/core/DownloadService.js';
+import { ApMfmService } from '@/core/activitypub/ApMfmService.js';
+import { getApId } from '@/core/activitypub/type.js';
+import type { IObject } from '@/core/activitypub/type.js';
+import { parseExportedDate, parseMastodonOutbox, parseMisskeyExportedNotes } from '@/misc/note-export.js';
+import { createTempDir } from '@/misc/create-temp.js';
+import { bindThis } from '@/decorators.js';
+import { QueueLoggerService } from '../QueueLoggerService.js';
+import type * as Bull from 'bullmq';
+import type { DbNoteImportJobData } from '../types.js';
+
+@Injectable()
+export class ImportNotesProcessorService {
+	private logger: Logger;
+
+	constructor(
+		@Inject(DI.config)
+		private config: Config,
+
+		@Inject(DI.usersRepository)
+		private usersRepository: UsersRepository,
+
+		@Inject(DI.driveFilesRepository)
+		private driveFilesRepository: DriveFilesRepository,
+
+		@Inject(DI.notesRepository)
+		private notesRepository: NotesRepository,
+
+		private noteCreateService: NoteCreateService,
+		private driveService: DriveService,
+		private downloadService: DownloadService,
+		private apMfmService: ApMfmService,
+		private queueLoggerService: QueueLoggerService,
+	) {
+		this.logger = this.queueLoggerService.logger.createSubLogger('import-notes');
+	}
+
+	@bindThis
+	public async process(job: Bull.Job<DbNoteImportJobData>): Promise<void> {
+		this.logger.info(`Importing notes of ${job.data.user.id} (${job.data.type}) ...`);
+
+		const user = await this.usersRepository.findOneBy({ id: job.data.user.id, host: IsNull() }) as MiLocalUser | null;
+		if (user == null) {
+			return;
+		}
+
+		const file = await this.driveFilesRepository.findOneBy({
+			id: job.data.fileId,
+		});
+		if (file == null) {
+			return;
+		}
+
+		switch (job.data.type) {
+			case 'Misskey': await this.importMisskeyNotes(job, user, file); break;
+			case 'Mastodon': await this.importMastodonOutbox(job, user, file); break;
+		}
+
+		this.logger.succ('Imported');
+	}
+
+	@bindThis
+	private async importMisskeyNotes(job: Bull.Job<DbNoteImportJobData>, user: MiLocalUser, file: MiDriveFile): Promise<void> {
+		const notes = parseMisskeyExportedNotes(JSON.parse(await this.downloadService.downloadTextFile(file.url)));
+		if (notes == null) {
+			this.logger.warn('Not an array of notes');
+			return;
+		}
+
+		// エクスポート元でのID => インポートしたノート
+		const imported = new Map<string, MiNote>();
+
+		for (let i = 0; i < notes.length; i++) {
+			const note = notes[i];
+			job.updateProgress(i / notes.length * 100);
+
+			const renote = note.renoteId ? imported.get(note.renoteId) ?? null : null;
+			const hasContent = note.text != null || (note.files ?? []).length > 0;
+
+			// Renote先が見つからない純粋なRenoteは取り込まない
+			if (!hasContent && renote == null) continue;
+
+			try {
+				const files: MiDriveFile[] = [];
+				for (const f of note.files ?? []) {
+					const driveFile = await this.uploadFile(user, f.url, f.comment ?? null, f.isSensitive ?? false);
+					if (driveFile) files.push(driveFile);
+				}
+
+				const created = await this.noteCreateService.import(user, {
+					createdAt: parseExportedDate(note.createdAt),
+					text: note.text ?? null,
+					cw: note.cw ?? null,
+					files,
+					reply: note.replyId ? imported.get(note.replyId) ?? null : null,
+					renote,
+					visibility: note.visibility,
+					localOnly: note.localOnly ?? false,
+					reactionAcceptance: note.reactionAcceptance ?? null,
+				});
+
+				imported.set(note.id, created);
+			} catch (e) {
+				this.logger.warn(`Error importing note ${note.id}: ${e}`);
+			}
+		}
+	}
+
+	@bindThis
+	private async importMastodonOutbox(job: Bull.Job<DbNoteImportJobData>, user: MiLocalUser, file: MiDriveFile): Promise<void> {
+		const [path, cleanup] = await createTempDir();
+
+		this.logger.info(`Temp dir is ${path}`);
+
+		try {
+			// アーカイブ(zip)であれば展開してメディアをローカルから取り込み、outbox.json単体であればURLから取り込む
+			const destPath = nodePath.join(path, 'import');
+			await this.downloadService.downloadUrl(file.url, destPath);
+
+			let outboxPath = destPath;
+			let mediaDir: string | null = null;
+
+			if (file.type === 'application/zip') {
+				mediaDir = nodePath.join(path, 'archive');
+				ZipReader.withDestinationPath(mediaDir).viaBuffer(await fs.promises.readFile(destPath));
+				outboxPath = nodePath.join(mediaDir, 'outbox.json');
+			}
+
+			const posts = parseMastodonOutbox(JSON.parse(await fs.promises.readFile(outboxPath, 'utf-8')));
+
+			// エクスポート元でのURI => インポートしたノート
+			const imported = new Map<string, MiNote>();
+
+			for (let i = 0; i < posts.length; i++) {
+				const { post, visibility } = posts[i];
+				job.updateProgress(i / posts.length * 100);
+
+				try {
+					const files: MiDriveFile[] = [];
+					for (const attachment of (post.attachment ?? []) as IObject[]) {
+						if (typeof attachment.url !== 'string') continue;
+
+						const driveFile = mediaDir != null
+							? await this.addArchivedFile(user, mediaDir, attachment.url, attachment.name ?? null, post.sensitive ?? false)
+							: await this.uploadFile(user, attachment.url, attachment.name ?? null, post.sensitive ?? false);
+						if (driveFile) files.push(driveFile);
+					}
+
+					const text = post.content ? this.apMfmService.htmlToMfm(post.content, post.tag) : null;
+					if (!text && files.length === 0) continue;
+
+					const created = await this.noteCreateService.import(user, {
+						createdAt: parseExportedDate(post.published),
+						text: text || null,
+						cw: post.summary || null,
+						files,
+						reply: post.inReplyTo ? await this.findReplyTarget(getApId(post.inReplyTo), imported) : null,
+						visibility,
+					});
+
+					imported.set(post.id, created);
+				} catch (e) {
+					this.logger.warn(`Error importing note ${post.id}: ${e}`);
+				}
+			}
+		} finally {
+			cleanup();
+		}
+	}
+
+	/**
+	 * リプライ先を、今回インポートしたノートかこのサーバーが既に知っているノートから探す
+	 */
+	@bindThis
+	private async findReplyTarget(uri: string, imported: Map<string, MiNote>): Promise<MiNote | null> {
+		const importedNote = imported.get(uri);
+		if (importedNote) return importedNote;
+
+		const localPrefix = `${this.config.url}/notes/`;
+		if (uri.startsWith(localPrefix)) {
+			return await this.notesRepository.findOneBy({ id: uri.slice(localPrefix.length) });
+		}
+
+		return await this.notesRepository.findOneBy({ uri });
+	}
+
+	@bindThis
+	private async uploadFile(user: MiLocalUser, url: string, comment: string | null, sensitive: boolean): Promise<MiDriveFile | null> {
+		if (!/^https?:\/\//.test(url)) return null;
+
+		try {
+			return await this.driveService.uploadFromUrl({ url, user, comment, sensitive });
+		} catch (e) {
+			this.logger.warn(`Failed to upload file ${url}: ${e}`);
+			return null;
+		}
+	}
+
+	@bindThis
+	private async addArchivedFile(user: MiLocalUser, mediaDir: string, url: string, comment: string | null, sensitive: boolean): Promise<MiDriveFile | null> {
+		const filePath = nodePath.join(mediaDir, url);
+
+		// アーカイブの外を指すパスは無視する
+		if (!filePath.startsWith(mediaDir + nodePath.sep) || !fs.existsSync(filePath)) {
+			return await this.uploadFile(user, url, comment, sensitive);
+		}
+
+		try {
+			return await this.driveService.addFile({ user, path: filePath, name: nodePath.basename(filePath), comment, sensitive });
+		} catch (e) {
+			this.logger.warn(`Failed to add file ${url}: ${e}`);
+			return null;
+		}
+	}
+}
@@ -0,0 +1,34 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { Injectable } from '@nestjs/common';
+import type Logger from '@/logger.js';
+import { SearchService } from '@/core/SearchService.js';
+import { bindThis } from '@/decorators.js';
+import { QueueLoggerService } from '../QueueLoggerService.js';
+import type * as Bull from 'bullmq';
+
+@Injectable()
+export class RebuildSearchIndexProcessorService {
+	private logger: Logger;
+
+	constructor(
+		private searchService: SearchService,
+		private queueLoggerService: QueueLoggerService,
+	) {
+		this.logger = this.queueLoggerService.logger.createSubLogger('rebuild-search-index');
+	}
+
+	@bindThis
+	public async process(job: Bull.Job<Record<string, never>>): Promise<void> {
+		this.logger.info('Rebuilding search index ...');
+
+		await this.searchService.rebuildIndex(progress => {
+			job.updateProgress(progress);
+		});
+
+		this.logger.succ('Search index rebuilt');
+	}
+}
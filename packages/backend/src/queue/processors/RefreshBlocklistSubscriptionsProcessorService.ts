@@ -0,0 +1,47 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { Inject, Injectable } from '@nestjs/common';
+import { DI } from '@/di-symbols.js';
+import type { BlocklistSubscriptionsRepository } from '@/models/_.js';
+import type Logger from '@/logger.js';
+import { bindThis } from '@/decorators.js';
+import { BlocklistService } from '@/core/BlocklistService.js';
+import { QueueLoggerService } from '../QueueLoggerService.js';
+
+/**
+ * 購読しているブロックリストを取得し直す.
+ * 取得した内容は管理者が変更点を確認してから適用するため、ここではサーバー設定には反映しない
+ */
+@Injectable()
+export class RefreshBlocklistSubscriptionsProcessorService {
+	private logger: Logger;
+
+	constructor(
+		@Inject(DI.blocklistSubscriptionsRepository)
+		private blocklistSubscriptionsRepository: BlocklistSubscriptionsRepository,
+
+		private blocklistService: BlocklistService,
+		private queueLoggerService: QueueLoggerService,
+	) {
+		this.logger = this.queueLoggerService.logger.createSubLogger('refresh-blocklist-subscriptions');
+	}
+
+	@bindThis
+	public async process(): Promise<void> {
+		this.logger.info('Refreshing blocklist subscriptions...');
+
+		const subscriptions = await this.blocklistSubscriptionsRepository.findBy({ isActive: true });
+
+		for (const subscription of subscriptions) {
+			const refreshed = await this.blocklistService.refreshSubscription(subscription);
+			if (refreshed.lastError != null) {
+				this.logger.warn(`Failed to refresh ${subscription.url}: ${refreshed.lastError}`);
+			}
+		}
+
+		this.logger.succ(`Refreshed ${subscriptions.length} blocklist subscriptions.`);
+	}
+}
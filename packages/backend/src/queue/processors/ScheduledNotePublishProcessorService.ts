@@ -0,0 +1,70 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { Inject, Injectable } from '@nestjs/common';
+import { DI } from '@/di-symbols.js';
+import type { NoteDraftsRepository } from '@/models/_.js';
+import type Logger from '@/logger.js';
+import { NoteDraftService } from '@/core/NoteDraftService.js';
+import { NotificationService } from '@/core/NotificationService.js';
+import type { MiNoteDraft } from '@/models/NoteDraft.js';
+import { IdentifiableError } from '@/misc/identifiable-error.js';
+import { bindThis } from '@/decorators.js';
+import { QueueLoggerService } from '../QueueLoggerService.js';
+import type * as Bull from 'bullmq';
+import type { ScheduledNotePublishJobData } from '../types.js';
+
+@Injectable()
+export class ScheduledNotePublishProcessorService {
+	private logger: Logger;
+
+	constructor(
+		@Inject(DI.noteDraftsRepository)
+		private noteDraftsRepository: NoteDraftsRepository,
+
+		private noteDraftService: NoteDraftService,
+		private notificationService: NotificationService,
+		private queueLoggerService: QueueLoggerService,
+	) {
+		this.logger = this.queueLoggerService.logger.createSubLogger('scheduled-note-publish');
+	}
+
+	@bindThis
+	public async process(job: Bull.Job<ScheduledNotePublishJobData>): Promise<string> {
+		const draft = await this.noteDraftsRepository.findOneBy({ id: job.data.noteDraftId });
+		if (draft == null || draft.scheduledAt == null) {
+			return 'skip: draft not found';
+		}
+
+		try {
+			const note = await this.noteDraftService.publish(draft);
+			return `ok: published ${note.id}`;
+		} catch (e) {
+			if (e instanceof IdentifiableError) {
+				this.logger.warn(`Scheduled note ${draft.id} could not be published: ${e.message}`);
+				await this.unschedule(draft);
+				return `skip: ${e.message}`;
+			}
+
+			// 再試行しても投稿できなかった場合は失敗したジョブと共に予約が消えてしまわないようにする
+			if (job.attemptsMade + 1 >= (job.opts.attempts ?? 1)) {
+				this.logger.error(`Scheduled note ${draft.id} could not be published`, { e });
+				await this.unschedule(draft);
+			}
+			throw e;
+		}
+	}
+
+	/**
+	 * 投稿できなかった予約投稿を内容が失われないように下書きに戻し、ユーザーに知らせる
+	 */
+	@bindThis
+	private async unschedule(draft: MiNoteDraft): Promise<void> {
+		await this.noteDraftsRepository.update(draft.id, { scheduledAt: null });
+		this.notificationService.createNotification(draft.userId, 'scheduledNotePostFailed', {
+			noteDraftId: draft.id,
+		});
+	}
+}
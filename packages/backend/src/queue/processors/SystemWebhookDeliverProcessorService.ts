@@ -6,10 +6,10 @@
 import { Inject, Injectable } from '@nestjs/common';
 import * as Bull from 'bullmq';
 import { DI } from '@/di-symbols.js';
-import type { SystemWebhooksRepository } from '@/models/_.js';
 import type { Config } from '@/config.js';
 import type Logger from '@/logger.js';
-import { HttpRequestService } from '@/core/HttpRequestService.js';
+import { SystemWebhookService } from '@/core/SystemWebhookService.js';
+import { WebhookDeliveryService } from '@/core/WebhookDeliveryService.js';
 import { StatusError } from '@/misc/status-error.js';
 import { bindThis } from '@/decorators.js';
 import { QueueLoggerService } from '../QueueLoggerService.js';
@@ -23,10 +23,8 @@ export class SystemWebhookDeliverProcessorService {
 		@Inject(DI.config)
 		private config: Config,
 
-		@Inject(DI.systemWebhooksRepository)
-		private systemWebhooksRepository: SystemWebhooksRepository,
-
-		private httpRequestService: HttpRequestService,
+		private systemWebhookService: SystemWebhookService,
+		private webhookDeliveryService: WebhookDeliveryService,
 		private queueLoggerService: QueueLoggerService,
 	) {
 		this.logger = this.queueLoggerService.logger.createSubLogger('webhook');
@@ -37,38 +35,35 @@ export class SystemWebhookDeliverProcessorService {
 		try {
 			this.logger.debug(`delivering ${job.data.webhookId}`);
 
-			const res = await this.httpRequestService.send(job.data.to, {
-				method: 'POST',
-				headers: {
-					'User-Agent': 'Misskey-Hooks',
-					'X-Misskey-Host': this.config.host,
-					'X-Misskey-Hook-Id': job.data.webhookId,
-					'X-Misskey-Hook-Secret': job.data.secret,
-					'Content-Type': 'application/json',
-				},
-				body: JSON.stringify({
+			const res = await this.webhookDeliveryService.deliver({ systemWebhookId: job.data.webhookId }, {
+				url: job.data.to,
+				secret: job.data.secret,
+				eventId: job.data.eventId,
+				type: job.data.type,
+				body: {
 					server: this.config.url,
 					hookId: job.data.webhookId,
 					eventId: job.data.eventId,
 					createdAt: job.data.createdAt,
 					type: job.data.type,
 					body: job.data.content,
-				}),
+				},
+				attempt: job.attemptsMade + 1,
 			});
 
-			this.systemWebhooksRepository.update({ id: job.data.webhookId }, {
-				latestSentAt: new Date(),
-				latestStatus: res.status,
-			});
+			await this.systemWebhookService.recordDeliveryResult(job.data.webhookId, res.status, 'success');
 
 			return 'Success';
 		} catch (res) {
 			this.logger.error(res as Error);
 
-			this.systemWebhooksRepository.update({ id: job.data.webhookId }, {
-				latestSentAt: new Date(),
-				latestStatus: res instanceof StatusError ? res.statusCode : 1,
-			});
+			// リトライを使い切った場合と、リトライしても意味がない場合だけを失敗として数える
+			const isFinal = (res instanceof StatusError && !res.isRetryable) || job.attemptsMade + 1 >= (job.opts.attempts ?? 1);
+			await this.systemWebhookService.recordDeliveryResult(
+				job.data.webhookId,
+				res instanceof StatusError ? res.statusCode : 1,
+				isFinal ? 'failure' : 'retry',
+			);
 
 			if (res instanceof StatusError) {
 				// 4xx
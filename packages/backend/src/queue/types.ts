@@ -4,15 +4,17 @@
  */
 
 import type { Antenna } from '@/server/api/endpoints/i/import-antennas.js';
+import type { MiAbuseUserReport } from '@/models/AbuseUserReport.js';
 import type { MiDriveFile } from '@/models/DriveFile.js';
 import type { MiNote } from '@/models/Note.js';
+import type { MiNoteDraft } from '@/models/NoteDraft.js';
 import type { SystemWebhookEventType } from '@/models/SystemWebhook.js';
 import type { MiUser } from '@/models/User.js';
 import type { MiWebhook, WebhookEventTypes } from '@/models/Webhook.js';
 import type { IActivity } from '@/core/activitypub/type.js';
 import type { SystemWebhookPayload } from '@/core/SystemWebhookService.js';
 import type { UserWebhookPayload } from '@/core/UserWebhookService.js';
-import type httpSignature from '@peertube/http-signature';
+import type { ParsedHttpSignature } from '@/core/activitypub/misc/http-message-signature.js';
 
 export type DeliverJobData = {
 	/** Actor */
@@ -25,11 +27,13 @@ export type DeliverJobData = {
 	to: string;
 	/** whether it is sharedInbox */
 	isSharedInbox: boolean;
+	/** 転送した通報のFlagの場合、その通報のID. 配送結果を通報に記録する */
+	abuseReportId?: MiAbuseUserReport['id'];
 };
 
 export type InboxJobData = {
 	activity: IActivity;
-	signature: httpSignature.IParsedSignature;
+	signature: ParsedHttpSignature;
 };
 
 export type RelationshipJobData = {
@@ -58,9 +62,13 @@ export type DbJobMap = {
 	importMuting: DbUserImportJobData;
 	importBlocking: DbUserImportJobData;
 	importBlockingToDb: DbUserImportToDbJobData;
+	importNotes: DbNoteImportJobData;
 	importUserLists: DbUserImportJobData;
 	importCustomEmojis: DbUserImportJobData;
 	deleteAccount: DbUserDeleteJobData;
+	rebuildSearchIndex: Record<string, never>;
+	backfillUserNotes: DbJobDataWithUser;
+	backfillReplies: DbBackfillRepliesJobData;
 }
 
 export type DbJobDataWithUser = {
@@ -88,6 +96,16 @@ export type DbUserImportJobData = {
 	withReplies?: boolean;
 };
 
+export type DbNoteImportJobData = {
+	user: ThinUser;
+	fileId: MiDriveFile['id'];
+	type: 'Misskey' | 'Mastodon';
+};
+
+export type DbBackfillRepliesJobData = {
+	noteId: MiNote['id'];
+};
+
 export type DBAntennaImportJobData = {
 	user: ThinUser,
 	antenna: Antenna
@@ -109,6 +127,10 @@ export type EndedPollNotificationJobData = {
 	noteId: MiNote['id'];
 };
 
+export type ScheduledNotePublishJobData = {
+	noteDraftId: MiNoteDraft['id'];
+};
+
 export type SystemWebhookDeliverJobData<T extends SystemWebhookEventType = SystemWebhookEventType> = {
 	type: T;
 	content: SystemWebhookPayload<T>;
@@ -13,7 +13,7 @@ import accepts from 'accepts';
 import vary from 'vary';
 import secureJson from 'secure-json-parse';
 import { DI } from '@/di-symbols.js';
-import type { FollowingsRepository, NotesRepository, EmojisRepository, NoteReactionsRepository, UserProfilesRepository, UserNotePiningsRepository, UsersRepository, FollowRequestsRepository } from '@/models/_.js';
+import type { FollowingsRepository, NotesRepository, EmojisRepository, NoteReactionsRepository, UserProfilesRepository, UserNotePiningsRepository, UsersRepository, FollowRequestsRepository, NoteQuoteAuthorizationsRepository, MiMeta } from '@/models/_.js';
 import * as url from '@/misc/prelude/url.js';
 import type { Config } from '@/config.js';
 import { ApRendererService } from '@/core/activitypub/ApRendererService.js';
@@ -26,8 +26,13 @@ import type { MiNote } from '@/models/Note.js';
 import { QueryService } from '@/core/QueryService.js';
 import { UtilityService } from '@/core/UtilityService.js';
 import { UserEntityService } from '@/core/entities/UserEntityService.js';
+import { ApDbResolverService } from '@/core/activitypub/ApDbResolverService.js';
+import { FederatedInstanceService } from '@/core/FederatedInstanceService.js';
+import { InstanceActorService } from '@/core/InstanceActorService.js';
 import { bindThis } from '@/decorators.js';
 import { IActivity } from '@/core/activitypub/type.js';
+import { parseHttpMessageSignature, verifyContentDigest, verifyHttpSignature } from '@/core/activitypub/misc/http-message-signature.js';
+import type { HttpMessage, ParsedHttpSignature } from '@/core/activitypub/misc/http-message-signature.js';
 import { isQuote, isRenote } from '@/misc/is-renote.js';
 import * as Acct from '@/misc/acct.js';
 import type { FastifyInstance, FastifyRequest, FastifyReply, FastifyPluginOptions, FastifyBodyParser } from 'fastify';
@@ -42,6 +47,9 @@ export class ActivityPubServerService {
 		@Inject(DI.config)
 		private config: Config,
 
+		@Inject(DI.meta)
+		private meta: MiMeta,
+
 		@Inject(DI.usersRepository)
 		private usersRepository: UsersRepository,
 
@@ -66,16 +74,103 @@ export class ActivityPubServerService {
 		@Inject(DI.followRequestsRepository)
 		private followRequestsRepository: FollowRequestsRepository,
 
+		@Inject(DI.noteQuoteAuthorizationsRepository)
+		private noteQuoteAuthorizationsRepository: NoteQuoteAuthorizationsRepository,
+
 		private utilityService: UtilityService,
 		private userEntityService: UserEntityService,
 		private apRendererService: ApRendererService,
 		private queueService: QueueService,
 		private userKeypairService: UserKeypairService,
 		private queryService: QueryService,
+		private apDbResolverService: ApDbResolverService,
+		private federatedInstanceService: FederatedInstanceService,
+		private instanceActorService: InstanceActorService,
 	) {
 		//this.createServer = this.createServer.bind(this);
 	}
 
+	/**
+	 * Authorized fetchが有効な場合に、GETリクエストのHTTP Signatureを検証する.
+	 * 検証できた場合は署名したユーザーを、Authorized fetchが無効な場合はnullを返す.
+	 * 検証に失敗した場合はレスポンスのステータスを設定してfalseを返す.
+	 */
+	@bindThis
+	private async verifyFetchSignature(request: FastifyRequest, reply: FastifyReply): Promise<MiRemoteUser | null | false> {
+		if (!this.meta.enableAuthorizedFetch) return null;
+
+		let signature: ParsedHttpSignature;
+		let keyIdUrl: URL;
+
+		try {
+			signature = request.headers['signature-input'] != null
+				? parseHttpMessageSignature(this.toHttpMessage(request), { requireContentDigest: false })
+				: httpSignature.parseRequest(request.raw, { 'headers': ['(request-target)', 'host', 'date'], authorizationHeaderName: 'signature' });
+			keyIdUrl = new URL(signature.keyId);
+		} catch (e) {
+			reply.code(401);
+			return false;
+		}
+
+		if (request.headers.host !== this.config.host) {
+			// Host not match.
+			reply.code(401);
+			return false;
+		}
+
+		const keyIdLower = signature.keyId.toLowerCase();
+		if (keyIdLower.startsWith('acct:')) {
+			// Old keyId is no longer supported.
+			reply.code(401);
+			return false;
+		}
+
+		const host = this.utilityService.toPuny(keyIdUrl.hostname);
+		if (!this.utilityService.isFederationAllowedHost(host)) {
+			reply.code(403);
+			return false;
+		}
+
+		// keyIdでわからなければ、keyIdのフラグメントを除いたものをActorとしてリモートから取得
+		const authUser = await this.apDbResolverService.getAuthUserFromKeyId(signature.keyId)
+			?? await this.apDbResolverService.getAuthUserFromApId(signature.keyId.replace(/#.*/, '')).catch(() => null);
+
+		if (authUser?.key == null || !verifyHttpSignature(signature, authUser.key.keyPem)) {
+			reply.code(401);
+			return false;
+		}
+
+		if (authUser.user.isSuspended) {
+			reply.code(403);
+			return false;
+		}
+
+		const instance = await this.federatedInstanceService.fetch(authUser.user.host);
+		if (instance != null && instance.suspensionState !== 'none') {
+			reply.code(403);
+			return false;
+		}
+
+		return authUser.user;
+	}
+
+	@bindThis
+	private hasSignature(request: FastifyRequest): boolean {
+		return request.headers['signature'] != null || request.headers['signature-input'] != null;
+	}
+
+	@bindThis
+	private async isFollower(signer: MiRemoteUser | null, followeeId: MiUser['id']): Promise<boolean> {
+		if (signer == null) return false;
+
+		return await this.followingsRepository.exists({
+			where: {
+				followerId: signer.id,
+				followeeId,
+			},
+		});
+	}
+
 	@bindThis
 	private setResponseType(request: FastifyRequest, reply: FastifyReply): void {
 		const accept = request.accepts().type([ACTIVITY_JSON, LD_JSON]);
@@ -100,8 +195,23 @@ export class ActivityPubServerService {
 		return this.apRendererService.renderCreate(await this.apRendererService.renderNote(note, false), note);
 	}
 
+	@bindThis
+	private toHttpMessage(request: FastifyRequest): HttpMessage {
+		return {
+			method: request.method,
+			url: `${this.config.url}${request.url}`,
+			headers: request.headers,
+		};
+	}
+
 	@bindThis
 	private inbox(request: FastifyRequest, reply: FastifyReply) {
+		// RFC 9421 HTTP Message Signatures
+		if (request.headers['signature-input'] != null) {
+			this.inboxWithMessageSignature(request, reply);
+			return;
+		}
+
 		let signature;
 
 		try {
@@ -168,10 +278,45 @@ export class ActivityPubServerService {
 		reply.code(202);
 	}
 
+	@bindThis
+	private inboxWithMessageSignature(request: FastifyRequest, reply: FastifyReply) {
+		let signature;
+
+		try {
+			signature = parseHttpMessageSignature(this.toHttpMessage(request), { requireContentDigest: true });
+		} catch (e) {
+			reply.code(401);
+			return;
+		}
+
+		if (request.headers.host !== this.config.host) {
+			// Host not match.
+			reply.code(401);
+			return;
+		}
+
+		if (request.rawBody == null) {
+			// Bad request
+			reply.code(400);
+			return;
+		}
+
+		if (!verifyContentDigest(request.headers['content-digest'], request.rawBody)) {
+			// Invalid digest
+			reply.code(401);
+			return;
+		}
+
+		this.queueService.inbox(request.body as IActivity, signature);
+
+		reply.code(202);
+	}
+
 	@bindThis
 	private async followers(
 		request: FastifyRequest<{ Params: { user: string; }; Querystring: { cursor?: string; page?: string; }; }>,
 		reply: FastifyReply,
+		signer: MiRemoteUser | null,
 	) {
 		const userId = request.params.user;
 
@@ -200,7 +345,7 @@ export class ActivityPubServerService {
 			reply.code(403);
 			reply.header('Cache-Control', 'public, max-age=30');
 			return;
-		} else if (profile.followersVisibility === 'followers') {
+		} else if (profile.followersVisibility === 'followers' && !await this.isFollower(signer, user.id)) {
 			reply.code(403);
 			reply.header('Cache-Control', 'public, max-age=30');
 			return;
@@ -264,6 +409,7 @@ export class ActivityPubServerService {
 	private async following(
 		request: FastifyRequest<{ Params: { user: string; }; Querystring: { cursor?: string; page?: string; }; }>,
 		reply: FastifyReply,
+		signer: MiRemoteUser | null,
 	) {
 		const userId = request.params.user;
 
@@ -292,7 +438,7 @@ export class ActivityPubServerService {
 			reply.code(403);
 			reply.header('Cache-Control', 'public, max-age=30');
 			return;
-		} else if (profile.followingVisibility === 'followers') {
+		} else if (profile.followingVisibility === 'followers' && !await this.isFollower(signer, user.id)) {
 			reply.code(403);
 			reply.header('Cache-Control', 'public, max-age=30');
 			return;
@@ -397,6 +543,7 @@ export class ActivityPubServerService {
 			Querystring: { since_id?: string; until_id?: string; page?: string; };
 		}>,
 		reply: FastifyReply,
+		signer: MiRemoteUser | null,
 	) {
 		const userId = request.params.user;
 
@@ -433,14 +580,21 @@ export class ActivityPubServerService {
 		const partOf = `${this.config.url}/users/${userId}/outbox`;
 
 		if (page) {
+			// フォロワーからの署名付きリクエストにはフォロワー限定のノートも含める
+			const includeFollowers = await this.isFollower(signer, user.id);
+
 			const query = this.queryService.makePaginationQuery(this.notesRepository.createQueryBuilder('note'), sinceId, untilId)
 				.andWhere('note.userId = :userId', { userId: user.id })
 				.andWhere(new Brackets(qb => {
 					qb
 						.where('note.visibility = \'public\'')
 						.orWhere('note.visibility = \'home\'');
+					if (includeFollowers) {
+						qb.orWhere('note.visibility = \'followers\'');
+					}
 				}))
-				.andWhere('note.localOnly = FALSE');
+				.andWhere('note.localOnly = FALSE')
+				.andWhere('note.isHiddenByModerator = FALSE');
 
 			const notes = await query.limit(limit).getMany();
 
@@ -480,6 +634,91 @@ export class ActivityPubServerService {
 		}
 	}
 
+	@bindThis
+	private async context(
+		request: FastifyRequest<{
+			Params: { note: string; };
+			Querystring: { since_id?: string; page?: string; };
+		}>,
+		reply: FastifyReply,
+	) {
+		const sinceId = request.query.since_id;
+		if (sinceId != null && typeof sinceId !== 'string') {
+			reply.code(400);
+			return;
+		}
+
+		const page = request.query.page === 'true';
+
+		// スレッドの途中の投稿が指定された場合もスレッド全体を返す
+		const note = await this.notesRepository.findOne({
+			where: { id: request.params.note },
+			select: ['id', 'threadId'],
+		});
+		const threadId = note?.threadId ?? request.params.note;
+
+		const query = this.notesRepository.createQueryBuilder('note')
+			.where(new Brackets(qb => {
+				qb
+					.where('note.id = :threadId', { threadId })
+					.orWhere('note.threadId = :threadId', { threadId });
+			}))
+			.andWhere('note.visibility IN (:...visibilities)', { visibilities: ['public', 'home'] })
+			.andWhere('note.localOnly = FALSE')
+			.andWhere('note.isHiddenByModerator = FALSE');
+
+		const totalItems = await query.getCount();
+
+		if (totalItems === 0) {
+			reply.code(404);
+			return;
+		}
+
+		const limit = 40;
+		const partOf = `${this.config.url}/notes/${threadId}/context`;
+
+		if (page) {
+			if (sinceId != null) {
+				query.andWhere('note.id > :sinceId', { sinceId });
+			}
+
+			const notes = await query
+				.select(['note.id', 'note.uri'])
+				.orderBy('note.id', 'ASC')
+				.limit(limit)
+				.getMany();
+
+			const rendered = this.apRendererService.renderOrderedCollectionPage(
+				`${partOf}?${url.query({
+					page: 'true',
+					since_id: sinceId,
+				})}`,
+				totalItems,
+				notes.map(note => note.uri ?? `${this.config.url}/notes/${note.id}`),
+				partOf,
+				undefined,
+				notes.length === limit ? `${partOf}?${url.query({
+					page: 'true',
+					since_id: notes.at(-1)!.id,
+				})}` : undefined,
+			);
+
+			reply.header('Cache-Control', 'public, max-age=180');
+			this.setResponseType(request, reply);
+			return (this.apRendererService.addContext(rendered));
+		} else {
+			// index page
+			const rendered = this.apRendererService.renderOrderedCollection(
+				partOf,
+				totalItems,
+				`${partOf}?page=true`,
+			);
+			reply.header('Cache-Control', 'public, max-age=180');
+			this.setResponseType(request, reply);
+			return (this.apRendererService.addContext(rendered));
+		}
+	}
+
 	@bindThis
 	private async userInfo(request: FastifyRequest, reply: FastifyReply, user: MiUser | null) {
 		if (user == null) {
@@ -487,6 +726,19 @@ export class ActivityPubServerService {
 			return;
 		}
 
+		// インスタンスアクターは署名の検証のために取得されるので、署名を要求しない
+		const instanceActor = await this.instanceActorService.getInstanceActor();
+		if (user.id !== instanceActor.id) {
+			// 署名の無いリクエストには、相手が署名を検証できるよう公開鍵を含む最小限のActorを返す (Mastodonと同様)
+			if (this.meta.enableAuthorizedFetch && this.userEntityService.isLocalUser(user) && !this.hasSignature(request)) {
+				reply.header('Cache-Control', 'public, max-age=180');
+				this.setResponseType(request, reply);
+				return (this.apRendererService.addContext(await this.apRendererService.renderMinimalPerson(user)));
+			}
+
+			if (await this.verifyFetchSignature(request, reply) === false) return;
+		}
+
 		// リモートだったらリダイレクト
 		if (user.host != null) {
 			if (user.uri == null || this.utilityService.isSelfHost(user.host)) {
@@ -555,6 +807,16 @@ export class ActivityPubServerService {
 			done();
 		});
 
+		// Authorized fetchが有効な場合、レスポンスは署名者ごとに異なりうるので共有キャッシュさせない
+		fastify.addHook('onSend', (request, reply, payload, done) => {
+			const cacheControl = reply.getHeader('Cache-Control');
+			if (this.meta.enableAuthorizedFetch && typeof cacheControl === 'string' && cacheControl.startsWith('public')) {
+				reply.header('Cache-Control', cacheControl.replace('public', 'private'));
+				vary(reply.raw, ['Signature', 'Signature-Input']);
+			}
+			done(null, payload);
+		});
+
 		//#region Routing
 		// inbox (limit: 64kb)
 		fastify.post('/inbox', { config: { rawBody: true }, bodyLimit: 1024 * 64 }, async (request, reply) => await this.inbox(request, reply));
@@ -564,13 +826,17 @@ export class ActivityPubServerService {
 		fastify.get<{ Params: { note: string; } }>('/notes/:note', { constraints: { apOrHtml: 'ap' } }, async (request, reply) => {
 			vary(reply.raw, 'Accept');
 
+			const signer = await this.verifyFetchSignature(request, reply);
+			if (signer === false) return;
+
 			const note = await this.notesRepository.findOneBy({
 				id: request.params.note,
-				visibility: In(['public', 'home']),
+				visibility: In(['public', 'home', 'followers']),
 				localOnly: false,
+				isHiddenByModerator: false,
 			});
 
-			if (note == null) {
+			if (note == null || (note.visibility === 'followers' && (note.userHost != null || !await this.isFollower(signer, note.userId)))) {
 				reply.code(404);
 				return;
 			}
@@ -594,14 +860,18 @@ export class ActivityPubServerService {
 		fastify.get<{ Params: { note: string; } }>('/notes/:note/activity', async (request, reply) => {
 			vary(reply.raw, 'Accept');
 
+			const signer = await this.verifyFetchSignature(request, reply);
+			if (signer === false) return;
+
 			const note = await this.notesRepository.findOneBy({
 				id: request.params.note,
 				userHost: IsNull(),
-				visibility: In(['public', 'home']),
+				visibility: In(['public', 'home', 'followers']),
 				localOnly: false,
+				isHiddenByModerator: false,
 			});
 
-			if (note == null) {
+			if (note == null || (note.visibility === 'followers' && !await this.isFollower(signer, note.userId))) {
 				reply.code(404);
 				return;
 			}
@@ -611,26 +881,50 @@ export class ActivityPubServerService {
 			return (this.apRendererService.addContext(await this.packActivity(note)));
 		});
 
+		// note context
+		fastify.get<{
+			Params: { note: string; };
+			Querystring: { since_id?: string; page?: string; };
+		}>('/notes/:note/context', async (request, reply) => {
+			if (await this.verifyFetchSignature(request, reply) === false) return;
+			return await this.context(request, reply);
+		});
+
 		// outbox
 		fastify.get<{
 			Params: { user: string; };
 			Querystring: { since_id?: string; until_id?: string; page?: string; };
-		}>('/users/:user/outbox', async (request, reply) => await this.outbox(request, reply));
+		}>('/users/:user/outbox', async (request, reply) => {
+			const signer = await this.verifyFetchSignature(request, reply);
+			if (signer === false) return;
+			return await this.outbox(request, reply, signer);
+		});
 
 		// followers
 		fastify.get<{
 			Params: { user: string; };
 			Querystring: { cursor?: string; page?: string; };
-		}>('/users/:user/followers', async (request, reply) => await this.followers(request, reply));
+		}>('/users/:user/followers', async (request, reply) => {
+			const signer = await this.verifyFetchSignature(request, reply);
+			if (signer === false) return;
+			return await this.followers(request, reply, signer);
+		});
 
 		// following
 		fastify.get<{
 			Params: { user: string; };
 			Querystring: { cursor?: string; page?: string; };
-		}>('/users/:user/following', async (request, reply) => await this.following(request, reply));
+		}>('/users/:user/following', async (request, reply) => {
+			const signer = await this.verifyFetchSignature(request, reply);
+			if (signer === false) return;
+			return await this.following(request, reply, signer);
+		});
 
 		// featured
-		fastify.get<{ Params: { user: string; }; }>('/users/:user/collections/featured', async (request, reply) => await this.featured(request, reply));
+		fastify.get<{ Params: { user: string; }; }>('/users/:user/collections/featured', async (request, reply) => {
+			if (await this.verifyFetchSignature(request, reply) === false) return;
+			return await this.featured(request, reply);
+		});
 
 		// publickey
 		fastify.get<{ Params: { user: string; } }>('/users/:user/publickey', async (request, reply) => {
@@ -688,6 +982,8 @@ export class ActivityPubServerService {
 
 		// emoji
 		fastify.get<{ Params: { emoji: string; } }>('/emojis/:emoji', async (request, reply) => {
+			if (await this.verifyFetchSignature(request, reply) === false) return;
+
 			const emoji = await this.emojisRepository.findOneBy({
 				host: IsNull(),
 				name: request.params.emoji,
@@ -705,6 +1001,8 @@ export class ActivityPubServerService {
 
 		// like
 		fastify.get<{ Params: { like: string; } }>('/likes/:like', async (request, reply) => {
+			if (await this.verifyFetchSignature(request, reply) === false) return;
+
 			const reaction = await this.noteReactionsRepository.findOneBy({ id: request.params.like });
 
 			if (reaction == null) {
@@ -724,8 +1022,38 @@ export class ActivityPubServerService {
 			return (this.apRendererService.addContext(await this.apRendererService.renderLike(reaction, note)));
 		});
 
+		// quote authorization
+		fastify.get<{ Params: { authorization: string; } }>('/quote_authorizations/:authorization', async (request, reply) => {
+			if (await this.verifyFetchSignature(request, reply) === false) return;
+
+			const authorization = await this.noteQuoteAuthorizationsRepository.findOneBy({ id: request.params.authorization });
+
+			if (authorization == null) {
+				reply.code(404);
+				return;
+			}
+
+			const note = await this.notesRepository.findOneBy({
+				id: authorization.noteId,
+				userHost: IsNull(),
+				visibility: In(['public', 'home']),
+				localOnly: false,
+			});
+
+			if (note == null) {
+				reply.code(404);
+				return;
+			}
+
+			reply.header('Cache-Control', 'public, max-age=180');
+			this.setResponseType(request, reply);
+			return (this.apRendererService.addContext(this.apRendererService.renderQuoteAuthorization(authorization, note)));
+		});
+
 		// follow
 		fastify.get<{ Params: { follower: string; followee: string; } }>('/follows/:follower/:followee', async (request, reply) => {
+			if (await this.verifyFetchSignature(request, reply) === false) return;
+
 			// This may be used before the follow is completed, so we do not
 			// check if the following exists.
 
@@ -752,6 +1080,8 @@ export class ActivityPubServerService {
 
 		// follow
 		fastify.get<{ Params: { followRequestId: string ; } }>('/follows/:followRequestId', async (request, reply) => {
+			if (await this.verifyFetchSignature(request, reply) === false) return;
+
 			// This may be used before the follow is completed, so we do not
 			// check if the following exists and only check if the follow request exists.
 
@@ -84,7 +84,7 @@ export class SigninApiService {
 		const password = body['password'];
 		const token = body['token'];
 
-		function error(status: number, error: { id: string }) {
+		function error(status: number, error: { id: string; info?: Record<string, unknown> }) {
 			reply.code(status);
 			return { error };
 		}
@@ -128,6 +128,9 @@ export class SigninApiService {
 		if (user.isSuspended) {
 			return error(403, {
 				id: 'e03a5f46-d309-4865-9b69-56282d94e1eb',
+				info: {
+					suspendedUntil: user.suspendedUntil?.toISOString() ?? null,
+				},
 			});
 		}
 
@@ -10,11 +10,17 @@
  * This file is used to generate API documentation and EndpointsModule.
  */
 
+export * as 'admin/abuse-report/assign' from './endpoints/admin/abuse-report/assign.js';
+export * as 'admin/abuse-report/bulk-resolve' from './endpoints/admin/abuse-report/bulk-resolve.js';
 export * as 'admin/abuse-report/notification-recipient/create' from './endpoints/admin/abuse-report/notification-recipient/create.js';
 export * as 'admin/abuse-report/notification-recipient/delete' from './endpoints/admin/abuse-report/notification-recipient/delete.js';
 export * as 'admin/abuse-report/notification-recipient/list' from './endpoints/admin/abuse-report/notification-recipient/list.js';
 export * as 'admin/abuse-report/notification-recipient/show' from './endpoints/admin/abuse-report/notification-recipient/show.js';
 export * as 'admin/abuse-report/notification-recipient/update' from './endpoints/admin/abuse-report/notification-recipient/update.js';
+export * as 'admin/abuse-report/response-template/create' from './endpoints/admin/abuse-report/response-template/create.js';
+export * as 'admin/abuse-report/response-template/delete' from './endpoints/admin/abuse-report/response-template/delete.js';
+export * as 'admin/abuse-report/response-template/list' from './endpoints/admin/abuse-report/response-template/list.js';
+export * as 'admin/abuse-report/response-template/update' from './endpoints/admin/abuse-report/response-template/update.js';
 export * as 'admin/abuse-user-reports' from './endpoints/admin/abuse-user-reports.js';
 export * as 'admin/accounts/create' from './endpoints/admin/accounts/create.js';
 export * as 'admin/accounts/delete' from './endpoints/admin/accounts/delete.js';
@@ -31,6 +37,16 @@ export * as 'admin/avatar-decorations/create' from './endpoints/admin/avatar-dec
 export * as 'admin/avatar-decorations/delete' from './endpoints/admin/avatar-decorations/delete.js';
 export * as 'admin/avatar-decorations/list' from './endpoints/admin/avatar-decorations/list.js';
 export * as 'admin/avatar-decorations/update' from './endpoints/admin/avatar-decorations/update.js';
+export * as 'admin/blocklist/entries' from './endpoints/admin/blocklist/entries.js';
+export * as 'admin/blocklist/export' from './endpoints/admin/blocklist/export.js';
+export * as 'admin/blocklist/import' from './endpoints/admin/blocklist/import.js';
+export * as 'admin/blocklist/subscription/apply' from './endpoints/admin/blocklist/subscription/apply.js';
+export * as 'admin/blocklist/subscription/create' from './endpoints/admin/blocklist/subscription/create.js';
+export * as 'admin/blocklist/subscription/delete' from './endpoints/admin/blocklist/subscription/delete.js';
+export * as 'admin/blocklist/subscription/list' from './endpoints/admin/blocklist/subscription/list.js';
+export * as 'admin/blocklist/subscription/preview' from './endpoints/admin/blocklist/subscription/preview.js';
+export * as 'admin/blocklist/subscription/refresh' from './endpoints/admin/blocklist/subscription/refresh.js';
+export * as 'admin/blocklist/subscription/update' from './endpoints/admin/blocklist/subscription/update.js';
 export * as 'admin/captcha/current' from './endpoints/admin/captcha/current.js';
 export * as 'admin/captcha/save' from './endpoints/admin/captcha/save.js';
 export * as 'admin/delete-account' from './endpoints/admin/delete-account.js';
@@ -63,6 +79,13 @@ export * as 'admin/get-user-ips' from './endpoints/admin/get-user-ips.js';
 export * as 'admin/invite/create' from './endpoints/admin/invite/create.js';
 export * as 'admin/invite/list' from './endpoints/admin/invite/list.js';
 export * as 'admin/meta' from './endpoints/admin/meta.js';
+export * as 'admin/notes/exclude-from-public-timelines' from './endpoints/admin/notes/exclude-from-public-timelines.js';
+export * as 'admin/notes/hide' from './endpoints/admin/notes/hide.js';
+export * as 'admin/notes/include-in-public-timelines' from './endpoints/admin/notes/include-in-public-timelines.js';
+export * as 'admin/notes/mark-sensitive' from './endpoints/admin/notes/mark-sensitive.js';
+export * as 'admin/notes/set-cw' from './endpoints/admin/notes/set-cw.js';
+export * as 'admin/notes/unhide' from './endpoints/admin/notes/unhide.js';
+export * as 'admin/notes/unmark-sensitive' from './endpoints/admin/notes/unmark-sensitive.js';
 export * as 'admin/promo/create' from './endpoints/admin/promo/create.js';
 export * as 'admin/queue/clear' from './endpoints/admin/queue/clear.js';
 export * as 'admin/queue/deliver-delayed' from './endpoints/admin/queue/deliver-delayed.js';
@@ -72,8 +95,11 @@ export * as 'admin/queue/stats' from './endpoints/admin/queue/stats.js';
 export * as 'admin/relays/add' from './endpoints/admin/relays/add.js';
 export * as 'admin/relays/list' from './endpoints/admin/relays/list.js';
 export * as 'admin/relays/remove' from './endpoints/admin/relays/remove.js';
+export * as 'admin/reply-abuse-user-report' from './endpoints/admin/reply-abuse-user-report.js';
 export * as 'admin/reset-password' from './endpoints/admin/reset-password.js';
 export * as 'admin/resolve-abuse-user-report' from './endpoints/admin/resolve-abuse-user-report.js';
+export * as 'admin/resolve-user-warning-appeal' from './endpoints/admin/resolve-user-warning-appeal.js';
+export * as 'admin/revoke-user-warning' from './endpoints/admin/revoke-user-warning.js';
 export * as 'admin/roles/assign' from './endpoints/admin/roles/assign.js';
 export * as 'admin/roles/create' from './endpoints/admin/roles/create.js';
 export * as 'admin/roles/delete' from './endpoints/admin/roles/delete.js';
@@ -83,6 +109,7 @@ export * as 'admin/roles/unassign' from './endpoints/admin/roles/unassign.js';
 export * as 'admin/roles/update' from './endpoints/admin/roles/update.js';
 export * as 'admin/roles/update-default-policies' from './endpoints/admin/roles/update-default-policies.js';
 export * as 'admin/roles/users' from './endpoints/admin/roles/users.js';
+export * as 'admin/search/rebuild-index' from './endpoints/admin/search/rebuild-index.js';
 export * as 'admin/send-email' from './endpoints/admin/send-email.js';
 export * as 'admin/server-info' from './endpoints/admin/server-info.js';
 export * as 'admin/show-moderation-logs' from './endpoints/admin/show-moderation-logs.js';
@@ -91,7 +118,9 @@ export * as 'admin/show-users' from './endpoints/admin/show-users.js';
 export * as 'admin/suspend-user' from './endpoints/admin/suspend-user.js';
 export * as 'admin/system-webhook/create' from './endpoints/admin/system-webhook/create.js';
 export * as 'admin/system-webhook/delete' from './endpoints/admin/system-webhook/delete.js';
+export * as 'admin/system-webhook/delivery-logs' from './endpoints/admin/system-webhook/delivery-logs.js';
 export * as 'admin/system-webhook/list' from './endpoints/admin/system-webhook/list.js';
+export * as 'admin/system-webhook/redeliver' from './endpoints/admin/system-webhook/redeliver.js';
 export * as 'admin/system-webhook/show' from './endpoints/admin/system-webhook/show.js';
 export * as 'admin/system-webhook/test' from './endpoints/admin/system-webhook/test.js';
 export * as 'admin/system-webhook/update' from './endpoints/admin/system-webhook/update.js';
@@ -101,6 +130,8 @@ export * as 'admin/unsuspend-user' from './endpoints/admin/unsuspend-user.js';
 export * as 'admin/update-abuse-user-report' from './endpoints/admin/update-abuse-user-report.js';
 export * as 'admin/update-meta' from './endpoints/admin/update-meta.js';
 export * as 'admin/update-user-note' from './endpoints/admin/update-user-note.js';
+export * as 'admin/user-warnings' from './endpoints/admin/user-warnings.js';
+export * as 'admin/warn-user' from './endpoints/admin/warn-user.js';
 export * as 'announcements' from './endpoints/announcements.js';
 export * as 'announcements/show' from './endpoints/announcements/show.js';
 export * as 'antennas/create' from './endpoints/antennas/create.js';
@@ -147,6 +178,24 @@ export * as 'charts/user/notes' from './endpoints/charts/user/notes.js';
 export * as 'charts/user/pv' from './endpoints/charts/user/pv.js';
 export * as 'charts/user/reactions' from './endpoints/charts/user/reactions.js';
 export * as 'charts/users' from './endpoints/charts/users.js';
+export * as 'chat/history' from './endpoints/chat/history.js';
+export * as 'chat/messages/create-to-room' from './endpoints/chat/messages/create-to-room.js';
+export * as 'chat/messages/create-to-user' from './endpoints/chat/messages/create-to-user.js';
+export * as 'chat/messages/delete' from './endpoints/chat/messages/delete.js';
+export * as 'chat/messages/room-timeline' from './endpoints/chat/messages/room-timeline.js';
+export * as 'chat/messages/user-timeline' from './endpoints/chat/messages/user-timeline.js';
+export * as 'chat/read-room' from './endpoints/chat/read-room.js';
+export * as 'chat/read-user' from './endpoints/chat/read-user.js';
+export * as 'chat/rooms/add-member' from './endpoints/chat/rooms/add-member.js';
+export * as 'chat/rooms/create' from './endpoints/chat/rooms/create.js';
+export * as 'chat/rooms/delete' from './endpoints/chat/rooms/delete.js';
+export * as 'chat/rooms/joining' from './endpoints/chat/rooms/joining.js';
+export * as 'chat/rooms/leave' from './endpoints/chat/rooms/leave.js';
+export * as 'chat/rooms/members' from './endpoints/chat/rooms/members.js';
+export * as 'chat/rooms/owned' from './endpoints/chat/rooms/owned.js';
+export * as 'chat/rooms/remove-member' from './endpoints/chat/rooms/remove-member.js';
+export * as 'chat/rooms/show' from './endpoints/chat/rooms/show.js';
+export * as 'chat/rooms/update' from './endpoints/chat/rooms/update.js';
 export * as 'clips/add-note' from './endpoints/clips/add-note.js';
 export * as 'clips/create' from './endpoints/clips/create.js';
 export * as 'clips/delete' from './endpoints/clips/delete.js';
@@ -235,6 +284,8 @@ export * as 'i/2fa/register-key' from './endpoints/i/2fa/register-key.js';
 export * as 'i/2fa/remove-key' from './endpoints/i/2fa/remove-key.js';
 export * as 'i/2fa/unregister' from './endpoints/i/2fa/unregister.js';
 export * as 'i/2fa/update-key' from './endpoints/i/2fa/update-key.js';
+export * as 'i/acknowledge-warning' from './endpoints/i/acknowledge-warning.js';
+export * as 'i/appeal-warning' from './endpoints/i/appeal-warning.js';
 export * as 'i/apps' from './endpoints/i/apps.js';
 export * as 'i/authorized-apps' from './endpoints/i/authorized-apps.js';
 export * as 'i/change-password' from './endpoints/i/change-password.js';
@@ -255,6 +306,7 @@ export * as 'i/import-antennas' from './endpoints/i/import-antennas.js';
 export * as 'i/import-blocking' from './endpoints/i/import-blocking.js';
 export * as 'i/import-following' from './endpoints/i/import-following.js';
 export * as 'i/import-muting' from './endpoints/i/import-muting.js';
+export * as 'i/import-notes' from './endpoints/i/import-notes.js';
 export * as 'i/import-user-lists' from './endpoints/i/import-user-lists.js';
 export * as 'i/move' from './endpoints/i/move.js';
 export * as 'i/notifications' from './endpoints/i/notifications.js';
@@ -278,9 +330,12 @@ export * as 'i/signin-history' from './endpoints/i/signin-history.js';
 export * as 'i/unpin' from './endpoints/i/unpin.js';
 export * as 'i/update' from './endpoints/i/update.js';
 export * as 'i/update-email' from './endpoints/i/update-email.js';
+export * as 'i/warnings' from './endpoints/i/warnings.js';
 export * as 'i/webhooks/create' from './endpoints/i/webhooks/create.js';
 export * as 'i/webhooks/delete' from './endpoints/i/webhooks/delete.js';
+export * as 'i/webhooks/delivery-logs' from './endpoints/i/webhooks/delivery-logs.js';
 export * as 'i/webhooks/list' from './endpoints/i/webhooks/list.js';
+export * as 'i/webhooks/redeliver' from './endpoints/i/webhooks/redeliver.js';
 export * as 'i/webhooks/show' from './endpoints/i/webhooks/show.js';
 export * as 'i/webhooks/test' from './endpoints/i/webhooks/test.js';
 export * as 'i/webhooks/update' from './endpoints/i/webhooks/update.js';
@@ -300,10 +355,17 @@ export * as 'notes/clips' from './endpoints/notes/clips.js';
 export * as 'notes/conversation' from './endpoints/notes/conversation.js';
 export * as 'notes/create' from './endpoints/notes/create.js';
 export * as 'notes/delete' from './endpoints/notes/delete.js';
+export * as 'notes/drafts/create' from './endpoints/notes/drafts/create.js';
+export * as 'notes/drafts/delete' from './endpoints/notes/drafts/delete.js';
+export * as 'notes/drafts/list' from './endpoints/notes/drafts/list.js';
+export * as 'notes/drafts/show' from './endpoints/notes/drafts/show.js';
+export * as 'notes/drafts/update' from './endpoints/notes/drafts/update.js';
 export * as 'notes/favorites/create' from './endpoints/notes/favorites/create.js';
 export * as 'notes/favorites/delete' from './endpoints/notes/favorites/delete.js';
 export * as 'notes/featured' from './endpoints/notes/featured.js';
+export * as 'notes/fetch-replies' from './endpoints/notes/fetch-replies.js';
 export * as 'notes/global-timeline' from './endpoints/notes/global-timeline.js';
+export * as 'notes/history' from './endpoints/notes/history.js';
 export * as 'notes/hybrid-timeline' from './endpoints/notes/hybrid-timeline.js';
 export * as 'notes/local-timeline' from './endpoints/notes/local-timeline.js';
 export * as 'notes/mentions' from './endpoints/notes/mentions.js';
@@ -314,6 +376,10 @@ export * as 'notes/reactions/create' from './endpoints/notes/reactions/create.js
 export * as 'notes/reactions/delete' from './endpoints/notes/reactions/delete.js';
 export * as 'notes/renotes' from './endpoints/notes/renotes.js';
 export * as 'notes/replies' from './endpoints/notes/replies.js';
+export * as 'notes/scheduled/create' from './endpoints/notes/scheduled/create.js';
+export * as 'notes/scheduled/delete' from './endpoints/notes/scheduled/delete.js';
+export * as 'notes/scheduled/list' from './endpoints/notes/scheduled/list.js';
+export * as 'notes/scheduled/update' from './endpoints/notes/scheduled/update.js';
 export * as 'notes/search' from './endpoints/notes/search.js';
 export * as 'notes/search-by-tag' from './endpoints/notes/search-by-tag.js';
 export * as 'notes/show' from './endpoints/notes/show.js';
@@ -323,6 +389,7 @@ export * as 'notes/thread-muting/delete' from './endpoints/notes/thread-muting/d
 export * as 'notes/timeline' from './endpoints/notes/timeline.js';
 export * as 'notes/translate' from './endpoints/notes/translate.js';
 export * as 'notes/unrenote' from './endpoints/notes/unrenote.js';
+export * as 'notes/update' from './endpoints/notes/update.js';
 export * as 'notes/user-list-timeline' from './endpoints/notes/user-list-timeline.js';
 export * as 'notifications/create' from './endpoints/notifications/create.js';
 export * as 'notifications/flush' from './endpoints/notifications/flush.js';
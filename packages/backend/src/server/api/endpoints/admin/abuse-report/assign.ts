@@ -0,0 +1,65 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { Injectable } from '@nestjs/common';
+import { Endpoint } from '@/server/api/endpoint-base.js';
+import { ApiError } from '@/server/api/error.js';
+import { AbuseReportService } from '@/core/AbuseReportService.js';
+import { RoleService } from '@/core/RoleService.js';
+import { CacheService } from '@/core/CacheService.js';
+
+export const meta = {
+	tags: ['admin', 'abuse-report'],
+
+	requireCredential: true,
+	requireModerator: true,
+	kind: 'write:admin:resolve-abuse-user-report',
+
+	description: 'Assign abuse reports to a moderator. Reports that do not exist are ignored.',
+
+	errors: {
+		assigneeIsNotModerator: {
+			message: 'The assignee is not a moderator.',
+			code: 'ASSIGNEE_IS_NOT_MODERATOR',
+			id: '4b8e2d71-0c9a-4f3e-a6d5-7e1f3b9c2a84',
+			httpStatusCode: 400,
+		},
+	},
+} as const;
+
+export const paramDef = {
+	type: 'object',
+	properties: {
+		reportIds: {
+			type: 'array',
+			uniqueItems: true,
+			minItems: 1,
+			maxItems: 100,
+			items: { type: 'string', format: 'misskey:id' },
+		},
+		assigneeId: { type: 'string', format: 'misskey:id', nullable: true, description: 'Unassign the reports if null.' },
+	},
+	required: ['reportIds', 'assigneeId'],
+} as const;
+
+@Injectable()
+export default class extends Endpoint<typeof meta, typeof paramDef> { // eslint-disable-line import/no-default-export
+	constructor(
+		private abuseReportService: AbuseReportService,
+		private roleService: RoleService,
+		private cacheService: CacheService,
+	) {
+		super(meta, paramDef, async (ps, me) => {
+			if (ps.assigneeId != null) {
+				const assignee = await this.cacheService.findUserById(ps.assigneeId).catch(() => null);
+				if (!await this.roleService.isModerator(assignee)) {
+					throw new ApiError(meta.errors.assigneeIsNotModerator);
+				}
+			}
+
+			await this.abuseReportService.assign(ps.reportIds, ps.assigneeId, me);
+		});
+	}
+}
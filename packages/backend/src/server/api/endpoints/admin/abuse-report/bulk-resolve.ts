@@ -0,0 +1,51 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { Injectable } from '@nestjs/common';
+import { Endpoint } from '@/server/api/endpoint-base.js';
+import { AbuseReportService } from '@/core/AbuseReportService.js';
+
+export const meta = {
+	tags: ['admin', 'abuse-report'],
+
+	requireCredential: true,
+	requireModerator: true,
+	kind: 'write:admin:resolve-abuse-user-report',
+
+	description: 'Resolve multiple abuse reports at once. Reports that do not exist are ignored.',
+} as const;
+
+export const paramDef = {
+	type: 'object',
+	properties: {
+		reportIds: {
+			type: 'array',
+			uniqueItems: true,
+			minItems: 1,
+			maxItems: 100,
+			items: { type: 'string', format: 'misskey:id' },
+		},
+		resolvedAs: { type: 'string', enum: ['accept', 'reject', null], nullable: true },
+		notifyReporter: { type: 'boolean', default: false, description: 'Notify the local reporters that the reports have been resolved.' },
+		message: { type: 'string', nullable: true, maxLength: 2048, description: 'The message to the reporters, such as a canned response.' },
+	},
+	required: ['reportIds'],
+} as const;
+
+@Injectable()
+export default class extends Endpoint<typeof meta, typeof paramDef> { // eslint-disable-line import/no-default-export
+	constructor(
+		private abuseReportService: AbuseReportService,
+	) {
+		super(meta, paramDef, async (ps, me) => {
+			await this.abuseReportService.resolve(ps.reportIds.map(reportId => ({
+				reportId,
+				resolvedAs: ps.resolvedAs ?? null,
+				notifyReporter: ps.notifyReporter,
+				message: ps.message,
+			})), me);
+		});
+	}
+}
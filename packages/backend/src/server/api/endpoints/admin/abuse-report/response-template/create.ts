@@ -0,0 +1,48 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { Injectable } from '@nestjs/common';
+import { Endpoint } from '@/server/api/endpoint-base.js';
+import { AbuseReportService } from '@/core/AbuseReportService.js';
+import { AbuseReportResponseTemplateEntityService } from '@/core/entities/AbuseReportResponseTemplateEntityService.js';
+
+export const meta = {
+	tags: ['admin', 'abuse-report'],
+
+	requireCredential: true,
+	requireModerator: true,
+	kind: 'write:admin:resolve-abuse-user-report',
+
+	res: {
+		type: 'object',
+		ref: 'AbuseReportResponseTemplate',
+	},
+} as const;
+
+export const paramDef = {
+	type: 'object',
+	properties: {
+		name: { type: 'string', minLength: 1, maxLength: 256 },
+		text: { type: 'string', minLength: 1, maxLength: 2048 },
+	},
+	required: ['name', 'text'],
+} as const;
+
+@Injectable()
+export default class extends Endpoint<typeof meta, typeof paramDef> { // eslint-disable-line import/no-default-export
+	constructor(
+		private abuseReportService: AbuseReportService,
+		private abuseReportResponseTemplateEntityService: AbuseReportResponseTemplateEntityService,
+	) {
+		super(meta, paramDef, async (ps, me) => {
+			const template = await this.abuseReportService.createResponseTemplate({
+				name: ps.name,
+				text: ps.text,
+			}, me);
+
+			return this.abuseReportResponseTemplateEntityService.pack(template);
+		});
+	}
+}
@@ -0,0 +1,54 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { Inject, Injectable } from '@nestjs/common';
+import { Endpoint } from '@/server/api/endpoint-base.js';
+import { ApiError } from '@/server/api/error.js';
+import { AbuseReportService } from '@/core/AbuseReportService.js';
+import { DI } from '@/di-symbols.js';
+import type { AbuseReportResponseTemplatesRepository } from '@/models/_.js';
+
+export const meta = {
+	tags: ['admin', 'abuse-report'],
+
+	requireCredential: true,
+	requireModerator: true,
+	kind: 'write:admin:resolve-abuse-user-report',
+
+	errors: {
+		noSuchTemplate: {
+			message: 'No such response template.',
+			code: 'NO_SUCH_TEMPLATE',
+			id: '1f6b9d3e-72a4-4c0f-8e5b-a3d7c9f2e041',
+			httpStatusCode: 404,
+		},
+	},
+} as const;
+
+export const paramDef = {
+	type: 'object',
+	properties: {
+		id: { type: 'string', format: 'misskey:id' },
+	},
+	required: ['id'],
+} as const;
+
+@Injectable()
+export default class extends Endpoint<typeof meta, typeof paramDef> { // eslint-disable-line import/no-default-export
+	constructor(
+		@Inject(DI.abuseReportResponseTemplatesRepository)
+		private abuseReportResponseTemplatesRepository: AbuseReportResponseTemplatesRepository,
+
+		private abuseReportService: AbuseReportService,
+	) {
+		super(meta, paramDef, async (ps, me) => {
+			if (!await this.abuseReportResponseTemplatesRepository.existsBy({ id: ps.id })) {
+				throw new ApiError(meta.errors.noSuchTemplate);
+			}
+
+			await this.abuseReportService.deleteResponseTemplate(ps.id, me);
+		});
+	}
+}
@@ -0,0 +1,50 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { Inject, Injectable } from '@nestjs/common';
+import { Endpoint } from '@/server/api/endpoint-base.js';
+import { AbuseReportResponseTemplateEntityService } from '@/core/entities/AbuseReportResponseTemplateEntityService.js';
+import { DI } from '@/di-symbols.js';
+import type { AbuseReportResponseTemplatesRepository } from '@/models/_.js';
+
+export const meta = {
+	tags: ['admin', 'abuse-report'],
+
+	requireCredential: true,
+	requireModerator: true,
+	kind: 'read:admin:abuse-user-reports',
+
+	res: {
+		type: 'array',
+		items: {
+			type: 'object',
+			ref: 'AbuseReportResponseTemplate',
+		},
+	},
+} as const;
+
+export const paramDef = {
+	type: 'object',
+	properties: {},
+	required: [],
+} as const;
+
+@Injectable()
+export default class extends Endpoint<typeof meta, typeof paramDef> { // eslint-disable-line import/no-default-export
+	constructor(
+		@Inject(DI.abuseReportResponseTemplatesRepository)
+		private abuseReportResponseTemplatesRepository: AbuseReportResponseTemplatesRepository,
+
+		private abuseReportResponseTemplateEntityService: AbuseReportResponseTemplateEntityService,
+	) {
+		super(meta, paramDef, async () => {
+			const templates = await this.abuseReportResponseTemplatesRepository.find({
+				order: { id: 'ASC' },
+			});
+
+			return this.abuseReportResponseTemplateEntityService.packMany(templates);
+		});
+	}
+}
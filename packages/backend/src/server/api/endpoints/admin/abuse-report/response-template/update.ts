@@ -0,0 +1,68 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { Inject, Injectable } from '@nestjs/common';
+import { Endpoint } from '@/server/api/endpoint-base.js';
+import { ApiError } from '@/server/api/error.js';
+import { AbuseReportService } from '@/core/AbuseReportService.js';
+import { AbuseReportResponseTemplateEntityService } from '@/core/entities/AbuseReportResponseTemplateEntityService.js';
+import { DI } from '@/di-symbols.js';
+import type { AbuseReportResponseTemplatesRepository } from '@/models/_.js';
+
+export const meta = {
+	tags: ['admin', 'abuse-report'],
+
+	requireCredential: true,
+	requireModerator: true,
+	kind: 'write:admin:resolve-abuse-user-report',
+
+	res: {
+		type: 'object',
+		ref: 'AbuseReportResponseTemplate',
+	},
+
+	errors: {
+		noSuchTemplate: {
+			message: 'No such response template.',
+			code: 'NO_SUCH_TEMPLATE',
+			id: 'c5a2f0e4-8d1b-4a6e-b3f7-9e0d2c4a6b18',
+			httpStatusCode: 404,
+		},
+	},
+} as const;
+
+export const paramDef = {
+	type: 'object',
+	properties: {
+		id: { type: 'string', format: 'misskey:id' },
+		name: { type: 'string', minLength: 1, maxLength: 256 },
+		text: { type: 'string', minLength: 1, maxLength: 2048 },
+	},
+	required: ['id'],
+} as const;
+
+@Injectable()
+export default class extends Endpoint<typeof meta, typeof paramDef> { // eslint-disable-line import/no-default-export
+	constructor(
+		@Inject(DI.abuseReportResponseTemplatesRepository)
+		private abuseReportResponseTemplatesRepository: AbuseReportResponseTemplatesRepository,
+
+		private abuseReportService: AbuseReportService,
+		private abuseReportResponseTemplateEntityService: AbuseReportResponseTemplateEntityService,
+	) {
+		super(meta, paramDef, async (ps, me) => {
+			if (!await this.abuseReportResponseTemplatesRepository.existsBy({ id: ps.id })) {
+				throw new ApiError(meta.errors.noSuchTemplate);
+			}
+
+			const template = await this.abuseReportService.updateResponseTemplate(ps.id, {
+				name: ps.name,
+				text: ps.text,
+			}, me);
+
+			return this.abuseReportResponseTemplateEntityService.pack(template);
+		});
+	}
+}
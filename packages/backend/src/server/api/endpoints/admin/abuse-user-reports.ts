@@ -9,6 +9,8 @@ import type { AbuseUserReportsRepository } from '@/models/_.js';
 import { QueryService } from '@/core/QueryService.js';
 import { DI } from '@/di-symbols.js';
 import { AbuseUserReportEntityService } from '@/core/entities/AbuseUserReportEntityService.js';
+import { UtilityService } from '@/core/UtilityService.js';
+import { abuseReportCategories, abuseReportForwardStatuses, abuseReportPriorities } from '@/models/AbuseUserReport.js';
 
 export const meta = {
 	tags: ['admin'],
@@ -39,6 +41,34 @@ export const meta = {
 					type: 'string',
 					nullable: false, optional: false,
 				},
+				category: {
+					type: 'string',
+					nullable: false, optional: false,
+					enum: abuseReportCategories,
+				},
+				priority: {
+					type: 'string',
+					nullable: false, optional: false,
+					enum: abuseReportPriorities,
+				},
+				noteIds: {
+					type: 'array',
+					nullable: false, optional: false,
+					items: {
+						type: 'string',
+						nullable: false, optional: false,
+						format: 'id',
+					},
+				},
+				notes: {
+					type: 'array',
+					nullable: false, optional: false,
+					items: {
+						type: 'object',
+						nullable: false, optional: false,
+						ref: 'Note',
+					},
+				},
 				resolved: {
 					type: 'boolean',
 					nullable: false, optional: false,
@@ -78,6 +108,24 @@ export const meta = {
 					type: 'boolean',
 					nullable: false, optional: false,
 				},
+				forwardStatus: {
+					type: 'string',
+					nullable: true, optional: false,
+					enum: abuseReportForwardStatuses,
+				},
+				forwardedAt: {
+					type: 'string',
+					nullable: true, optional: false,
+					format: 'date-time',
+				},
+				forwardError: {
+					type: 'string',
+					nullable: true, optional: false,
+				},
+				originUri: {
+					type: 'string',
+					nullable: true, optional: false,
+				},
 				resolvedAs: {
 					type: 'string',
 					nullable: true, optional: false,
@@ -101,6 +149,10 @@ export const paramDef = {
 		state: { type: 'string', nullable: true, default: null },
 		reporterOrigin: { type: 'string', enum: ['combined', 'local', 'remote'], default: 'combined' },
 		targetUserOrigin: { type: 'string', enum: ['combined', 'local', 'remote'], default: 'combined' },
+		reporterHost: { type: 'string', nullable: true, description: 'Filter reports received from the specified remote server.' },
+		category: { type: 'string', enum: abuseReportCategories, nullable: true },
+		priority: { type: 'string', enum: abuseReportPriorities, nullable: true },
+		assigneeId: { type: 'string', format: 'misskey:id', nullable: true, description: 'Filter reports assigned to the specified moderator.' },
 	},
 	required: [],
 } as const;
@@ -113,6 +165,7 @@ export default class extends Endpoint<typeof meta, typeof paramDef> { // eslint-
 
 		private abuseUserReportEntityService: AbuseUserReportEntityService,
 		private queryService: QueryService,
+		private utilityService: UtilityService,
 	) {
 		super(meta, paramDef, async (ps, me) => {
 			const query = this.queryService.makePaginationQuery(this.abuseUserReportsRepository.createQueryBuilder('report'), ps.sinceId, ps.untilId);
@@ -127,11 +180,27 @@ export default class extends Endpoint<typeof meta, typeof paramDef> { // eslint-
 				case 'remote': query.andWhere('report.reporterHost IS NOT NULL'); break;
 			}
 
+			if (ps.reporterHost) {
+				query.andWhere('report.reporterHost = :reporterHost', { reporterHost: this.utilityService.toPuny(ps.reporterHost) });
+			}
+
 			switch (ps.targetUserOrigin) {
 				case 'local': query.andWhere('report.targetUserHost IS NULL'); break;
 				case 'remote': query.andWhere('report.targetUserHost IS NOT NULL'); break;
 			}
 
+			if (ps.category) {
+				query.andWhere('report.category = :category', { category: ps.category });
+			}
+
+			if (ps.priority) {
+				query.andWhere('report.priority = :priority', { priority: ps.priority });
+			}
+
+			if (ps.assigneeId) {
+				query.andWhere('report.assigneeId = :assigneeId', { assigneeId: ps.assigneeId });
+			}
+
 			const reports = await query.limit(ps.limit).getMany();
 
 			return await this.abuseUserReportEntityService.packMany(reports);
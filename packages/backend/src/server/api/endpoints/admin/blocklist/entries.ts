@@ -0,0 +1,70 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { Inject, Injectable } from '@nestjs/common';
+import { Endpoint } from '@/server/api/endpoint-base.js';
+import type { BlocklistEntriesRepository } from '@/models/_.js';
+import { QueryService } from '@/core/QueryService.js';
+import { BlocklistEntityService } from '@/core/entities/BlocklistEntityService.js';
+import { DI } from '@/di-symbols.js';
+import { sqlLikeEscape } from '@/misc/sql-like-escape.js';
+
+export const meta = {
+	tags: ['admin', 'federation'],
+
+	requireCredential: true,
+	requireAdmin: true,
+	secure: true,
+	kind: 'read:admin:meta',
+
+	res: {
+		type: 'array',
+		optional: false, nullable: false,
+		items: {
+			type: 'object',
+			optional: false, nullable: false,
+			ref: 'BlocklistEntry',
+		},
+	},
+} as const;
+
+export const paramDef = {
+	type: 'object',
+	properties: {
+		host: { type: 'string', nullable: true },
+		subscriptionId: { type: 'string', format: 'misskey:id', nullable: true },
+		limit: { type: 'integer', minimum: 1, maximum: 100, default: 10 },
+		sinceId: { type: 'string', format: 'misskey:id' },
+		untilId: { type: 'string', format: 'misskey:id' },
+	},
+	required: [],
+} as const;
+
+@Injectable()
+export default class extends Endpoint<typeof meta, typeof paramDef> { // eslint-disable-line import/no-default-export
+	constructor(
+		@Inject(DI.blocklistEntriesRepository)
+		private blocklistEntriesRepository: BlocklistEntriesRepository,
+
+		private blocklistEntityService: BlocklistEntityService,
+		private queryService: QueryService,
+	) {
+		super(meta, paramDef, async (ps) => {
+			const query = this.queryService.makePaginationQuery(this.blocklistEntriesRepository.createQueryBuilder('entry'), ps.sinceId, ps.untilId);
+
+			if (ps.host) {
+				query.andWhere('entry.host LIKE :host', { host: '%' + sqlLikeEscape(ps.host.toLowerCase()) + '%' });
+			}
+
+			if (ps.subscriptionId) {
+				query.andWhere('entry.subscriptionId = :subscriptionId', { subscriptionId: ps.subscriptionId });
+			}
+
+			const entries = await query.limit(ps.limit).getMany();
+
+			return this.blocklistEntityService.packEntryMany(entries);
+		});
+	}
+}
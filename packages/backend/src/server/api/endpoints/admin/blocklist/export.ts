@@ -0,0 +1,47 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { Injectable } from '@nestjs/common';
+import { Endpoint } from '@/server/api/endpoint-base.js';
+import { BlocklistService } from '@/core/BlocklistService.js';
+
+export const meta = {
+	tags: ['admin', 'federation'],
+
+	requireCredential: true,
+	requireAdmin: true,
+	secure: true,
+	kind: 'read:admin:meta',
+
+	res: {
+		type: 'object',
+		optional: false, nullable: false,
+		properties: {
+			csv: {
+				type: 'string',
+				optional: false, nullable: false,
+			},
+		},
+	},
+} as const;
+
+export const paramDef = {
+	type: 'object',
+	properties: {},
+	required: [],
+} as const;
+
+@Injectable()
+export default class extends Endpoint<typeof meta, typeof paramDef> { // eslint-disable-line import/no-default-export
+	constructor(
+		private blocklistService: BlocklistService,
+	) {
+		super(meta, paramDef, async () => {
+			return {
+				csv: await this.blocklistService.exportCsv(),
+			};
+		});
+	}
+}
@@ -0,0 +1,91 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { Inject, Injectable } from '@nestjs/common';
+import { Endpoint } from '@/server/api/endpoint-base.js';
+import type { DriveFilesRepository } from '@/models/_.js';
+import { DI } from '@/di-symbols.js';
+import { BlocklistService } from '@/core/BlocklistService.js';
+import { DownloadService } from '@/core/DownloadService.js';
+import { parseBlocklistCsv } from '@/misc/blocklist-csv.js';
+import { ApiError } from '@/server/api/error.js';
+
+export const meta = {
+	tags: ['admin', 'federation'],
+
+	requireCredential: true,
+	requireAdmin: true,
+	secure: true,
+	kind: 'write:admin:meta',
+
+	description: 'Import a domain blocklist in Mastodon CSV format. With `dryRun`, only returns the changes that would be made.',
+
+	res: {
+		type: 'array',
+		optional: false, nullable: false,
+		items: {
+			type: 'object',
+			optional: false, nullable: false,
+			ref: 'BlocklistChange',
+		},
+	},
+
+	errors: {
+		noSuchFile: {
+			message: 'No such file.',
+			code: 'NO_SUCH_FILE',
+			id: '7044d916-22db-466c-a3f1-aa967ae61869',
+		},
+
+		tooBigFile: {
+			message: 'That file is too big.',
+			code: 'TOO_BIG_FILE',
+			id: 'aca1b7d4-f934-4613-94d2-1306e20f1a74',
+		},
+
+		emptyFile: {
+			message: 'That file is empty.',
+			code: 'EMPTY_FILE',
+			id: 'f19d950e-72ff-4785-a422-6a4df9132c35',
+		},
+	},
+} as const;
+
+export const paramDef = {
+	type: 'object',
+	properties: {
+		fileId: { type: 'string', format: 'misskey:id' },
+		dryRun: { type: 'boolean', default: false },
+	},
+	required: ['fileId'],
+} as const;
+
+@Injectable()
+export default class extends Endpoint<typeof meta, typeof paramDef> { // eslint-disable-line import/no-default-export
+	constructor(
+		@Inject(DI.driveFilesRepository)
+		private driveFilesRepository: DriveFilesRepository,
+
+		private blocklistService: BlocklistService,
+		private downloadService: DownloadService,
+	) {
+		super(meta, paramDef, async (ps, me) => {
+			const file = await this.driveFilesRepository.findOneBy({ id: ps.fileId });
+
+			if (file == null) throw new ApiError(meta.errors.noSuchFile);
+			if (file.size === 0) throw new ApiError(meta.errors.emptyFile);
+			if (file.size > 10 * 1024 * 1024) throw new ApiError(meta.errors.tooBigFile);
+
+			const records = parseBlocklistCsv(await this.downloadService.downloadTextFile(file.url));
+			const changes = await this.blocklistService.computeChanges(records, null);
+
+			if (!ps.dryRun) {
+				await this.blocklistService.applyChanges(changes, { source: file.name, subscriptionId: null }, me);
+			}
+
+			return changes;
+		});
+	}
+}
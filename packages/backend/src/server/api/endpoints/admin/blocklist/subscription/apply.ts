@@ -0,0 +1,89 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { Inject, Injectable } from '@nestjs/common';
+import { Endpoint } from '@/server/api/endpoint-base.js';
+import type { BlocklistSubscriptionsRepository } from '@/models/_.js';
+import { BlocklistService } from '@/core/BlocklistService.js';
+import { DI } from '@/di-symbols.js';
+import { ApiError } from '@/server/api/error.js';
+
+export const meta = {
+	tags: ['admin', 'federation'],
+
+	requireCredential: true,
+	requireAdmin: true,
+	secure: true,
+	kind: 'write:admin:meta',
+
+	description: 'Applies the last fetched list to the blocked, silenced and media silenced hosts. Fails if the list has changed since `admin/blocklist/subscription/preview` returned `recordsHash`.',
+
+	res: {
+		type: 'array',
+		optional: false, nullable: false,
+		items: {
+			type: 'object',
+			optional: false, nullable: false,
+			ref: 'BlocklistChange',
+		},
+	},
+
+	errors: {
+		noSuchSubscription: {
+			message: 'No such subscription.',
+			code: 'NO_SUCH_SUBSCRIPTION',
+			id: 'aa7a0df5-0f55-4f9a-a154-66f591d5d108',
+		},
+
+		recordsChanged: {
+			message: 'The list has been updated since the preview. Preview it again.',
+			code: 'RECORDS_CHANGED',
+			id: '80aafaf4-984c-4710-b2d4-c73b5541118e',
+		},
+
+		emptyList: {
+			message: 'The list is empty.',
+			code: 'EMPTY_LIST',
+			id: '6c00379f-faf7-4bec-a65c-8ba5269e281c',
+		},
+	},
+} as const;
+
+export const paramDef = {
+	type: 'object',
+	properties: {
+		id: { type: 'string', format: 'misskey:id' },
+		recordsHash: { type: 'string' },
+	},
+	required: ['id', 'recordsHash'],
+} as const;
+
+@Injectable()
+export default class extends Endpoint<typeof meta, typeof paramDef> { // eslint-disable-line import/no-default-export
+	constructor(
+		@Inject(DI.blocklistSubscriptionsRepository)
+		private blocklistSubscriptionsRepository: BlocklistSubscriptionsRepository,
+
+		private blocklistService: BlocklistService,
+	) {
+		super(meta, paramDef, async (ps, me) => {
+			const subscription = await this.blocklistSubscriptionsRepository.findOneBy({ id: ps.id });
+			if (subscription == null) throw new ApiError(meta.errors.noSuchSubscription);
+
+			// プレビュー後に定期取得でリストが差し替わっていたら、確認していない内容を適用することになる
+			if (this.blocklistService.getRecordsHash(subscription.records) !== ps.recordsHash) {
+				throw new ApiError(meta.errors.recordsChanged);
+			}
+
+			// 取得先の不具合で空のリストが返ってきた場合に、この購読で適用した制限がすべて解除されるのを防ぐ
+			if (subscription.records.length === 0) throw new ApiError(meta.errors.emptyList);
+
+			const changes = await this.blocklistService.computeChanges(subscription.records, subscription);
+			await this.blocklistService.applyChanges(changes, { source: subscription.url, subscriptionId: subscription.id }, me);
+
+			return changes;
+		});
+	}
+}
@@ -0,0 +1,52 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { Injectable } from '@nestjs/common';
+import { Endpoint } from '@/server/api/endpoint-base.js';
+import { BlocklistService } from '@/core/BlocklistService.js';
+import { BlocklistEntityService } from '@/core/entities/BlocklistEntityService.js';
+
+export const meta = {
+	tags: ['admin', 'federation'],
+
+	requireCredential: true,
+	requireAdmin: true,
+	secure: true,
+	kind: 'write:admin:meta',
+
+	description: 'Subscribe to a domain blocklist URL. The list is fetched immediately, but is not applied until `admin/blocklist/subscription/apply` is called.',
+
+	res: {
+		type: 'object',
+		optional: false, nullable: false,
+		ref: 'BlocklistSubscription',
+	},
+} as const;
+
+export const paramDef = {
+	type: 'object',
+	properties: {
+		url: { type: 'string', minLength: 1, maxLength: 1024 },
+		isActive: { type: 'boolean', default: true },
+	},
+	required: ['url'],
+} as const;
+
+@Injectable()
+export default class extends Endpoint<typeof meta, typeof paramDef> { // eslint-disable-line import/no-default-export
+	constructor(
+		private blocklistService: BlocklistService,
+		private blocklistEntityService: BlocklistEntityService,
+	) {
+		super(meta, paramDef, async (ps, me) => {
+			const subscription = await this.blocklistService.createSubscription({
+				url: ps.url,
+				isActive: ps.isActive,
+			}, me);
+
+			return this.blocklistEntityService.packSubscription(subscription);
+		});
+	}
+}
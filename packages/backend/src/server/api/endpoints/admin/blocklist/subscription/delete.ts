@@ -0,0 +1,53 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { Inject, Injectable } from '@nestjs/common';
+import { Endpoint } from '@/server/api/endpoint-base.js';
+import type { BlocklistSubscriptionsRepository } from '@/models/_.js';
+import { BlocklistService } from '@/core/BlocklistService.js';
+import { DI } from '@/di-symbols.js';
+import { ApiError } from '@/server/api/error.js';
+
+export const meta = {
+	tags: ['admin', 'federation'],
+
+	requireCredential: true,
+	requireAdmin: true,
+	secure: true,
+	kind: 'write:admin:meta',
+
+	errors: {
+		noSuchSubscription: {
+			message: 'No such subscription.',
+			code: 'NO_SUCH_SUBSCRIPTION',
+			id: '659b0046-0512-45f6-ba96-5991abf12ce3',
+		},
+	},
+} as const;
+
+export const paramDef = {
+	type: 'object',
+	properties: {
+		id: { type: 'string', format: 'misskey:id' },
+	},
+	required: ['id'],
+} as const;
+
+@Injectable()
+export default class extends Endpoint<typeof meta, typeof paramDef> { // eslint-disable-line import/no-default-export
+	constructor(
+		@Inject(DI.blocklistSubscriptionsRepository)
+		private blocklistSubscriptionsRepository: BlocklistSubscriptionsRepository,
+
+		private blocklistService: BlocklistService,
+	) {
+		super(meta, paramDef, async (ps, me) => {
+			const subscription = await this.blocklistSubscriptionsRepository.findOneBy({ id: ps.id });
+			if (subscription == null) throw new ApiError(meta.errors.noSuchSubscription);
+
+			await this.blocklistService.deleteSubscription(subscription.id, me);
+		});
+	}
+}
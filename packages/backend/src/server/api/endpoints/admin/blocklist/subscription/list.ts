@@ -0,0 +1,53 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { Inject, Injectable } from '@nestjs/common';
+import { Endpoint } from '@/server/api/endpoint-base.js';
+import type { BlocklistSubscriptionsRepository } from '@/models/_.js';
+import { BlocklistEntityService } from '@/core/entities/BlocklistEntityService.js';
+import { DI } from '@/di-symbols.js';
+
+export const meta = {
+	tags: ['admin', 'federation'],
+
+	requireCredential: true,
+	requireAdmin: true,
+	secure: true,
+	kind: 'read:admin:meta',
+
+	res: {
+		type: 'array',
+		optional: false, nullable: false,
+		items: {
+			type: 'object',
+			optional: false, nullable: false,
+			ref: 'BlocklistSubscription',
+		},
+	},
+} as const;
+
+export const paramDef = {
+	type: 'object',
+	properties: {},
+	required: [],
+} as const;
+
+@Injectable()
+export default class extends Endpoint<typeof meta, typeof paramDef> { // eslint-disable-line import/no-default-export
+	constructor(
+		@Inject(DI.blocklistSubscriptionsRepository)
+		private blocklistSubscriptionsRepository: BlocklistSubscriptionsRepository,
+
+		private blocklistEntityService: BlocklistEntityService,
+	) {
+		super(meta, paramDef, async () => {
+			const subscriptions = await this.blocklistSubscriptionsRepository.find({
+				order: { id: 'ASC' },
+			});
+
+			return this.blocklistEntityService.packSubscriptionMany(subscriptions);
+		});
+	}
+}
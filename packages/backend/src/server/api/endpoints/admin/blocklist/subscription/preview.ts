@@ -0,0 +1,78 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { Inject, Injectable } from '@nestjs/common';
+import { Endpoint } from '@/server/api/endpoint-base.js';
+import type { BlocklistSubscriptionsRepository } from '@/models/_.js';
+import { BlocklistService } from '@/core/BlocklistService.js';
+import { DI } from '@/di-symbols.js';
+import { ApiError } from '@/server/api/error.js';
+
+export const meta = {
+	tags: ['admin', 'federation'],
+
+	requireCredential: true,
+	requireAdmin: true,
+	secure: true,
+	kind: 'read:admin:meta',
+
+	description: 'Returns the changes that applying the last fetched list would make, and the hash of that list to pass to `admin/blocklist/subscription/apply`.',
+
+	res: {
+		type: 'object',
+		optional: false, nullable: false,
+		properties: {
+			recordsHash: {
+				type: 'string',
+				optional: false, nullable: false,
+			},
+			changes: {
+				type: 'array',
+				optional: false, nullable: false,
+				items: {
+					type: 'object',
+					optional: false, nullable: false,
+					ref: 'BlocklistChange',
+				},
+			},
+		},
+	},
+
+	errors: {
+		noSuchSubscription: {
+			message: 'No such subscription.',
+			code: 'NO_SUCH_SUBSCRIPTION',
+			id: '45e04346-f3da-4afd-a9d7-59ae3e413d42',
+		},
+	},
+} as const;
+
+export const paramDef = {
+	type: 'object',
+	properties: {
+		id: { type: 'string', format: 'misskey:id' },
+	},
+	required: ['id'],
+} as const;
+
+@Injectable()
+export default class extends Endpoint<typeof meta, typeof paramDef> { // eslint-disable-line import/no-default-export
+	constructor(
+		@Inject(DI.blocklistSubscriptionsRepository)
+		private blocklistSubscriptionsRepository: BlocklistSubscriptionsRepository,
+
+		private blocklistService: BlocklistService,
+	) {
+		super(meta, paramDef, async (ps) => {
+			const subscription = await this.blocklistSubscriptionsRepository.findOneBy({ id: ps.id });
+			if (subscription == null) throw new ApiError(meta.errors.noSuchSubscription);
+
+			return {
+				recordsHash: this.blocklistService.getRecordsHash(subscription.records),
+				changes: await this.blocklistService.computeChanges(subscription.records, subscription),
+			};
+		});
+	}
+}
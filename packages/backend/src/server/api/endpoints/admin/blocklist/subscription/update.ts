@@ -0,0 +1,69 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { Inject, Injectable } from '@nestjs/common';
+import { Endpoint } from '@/server/api/endpoint-base.js';
+import type { BlocklistSubscriptionsRepository } from '@/models/_.js';
+import { BlocklistService } from '@/core/BlocklistService.js';
+import { BlocklistEntityService } from '@/core/entities/BlocklistEntityService.js';
+import { DI } from '@/di-symbols.js';
+import { ApiError } from '@/server/api/error.js';
+
+export const meta = {
+	tags: ['admin', 'federation'],
+
+	requireCredential: true,
+	requireAdmin: true,
+	secure: true,
+	kind: 'write:admin:meta',
+
+	res: {
+		type: 'object',
+		optional: false, nullable: false,
+		ref: 'BlocklistSubscription',
+	},
+
+	errors: {
+		noSuchSubscription: {
+			message: 'No such subscription.',
+			code: 'NO_SUCH_SUBSCRIPTION',
+			id: '29e2bc28-393b-4f46-82e4-10b0ece88836',
+		},
+	},
+} as const;
+
+export const paramDef = {
+	type: 'object',
+	properties: {
+		id: { type: 'string', format: 'misskey:id' },
+		url: { type: 'string', minLength: 1, maxLength: 1024 },
+		isActive: { type: 'boolean' },
+	},
+	required: ['id'],
+} as const;
+
+@Injectable()
+export default class extends Endpoint<typeof meta, typeof paramDef> { // eslint-disable-line import/no-default-export
+	constructor(
+		@Inject(DI.blocklistSubscriptionsRepository)
+		private blocklistSubscriptionsRepository: BlocklistSubscriptionsRepository,
+
+		private blocklistService: BlocklistService,
+		private blocklistEntityService: BlocklistEntityService,
+	) {
+		super(meta, paramDef, async (ps, me) => {
+			const subscription = await this.blocklistSubscriptionsRepository.findOneBy({ id: ps.id });
+			if (subscription == null) throw new ApiError(meta.errors.noSuchSubscription);
+
+			const updated = await this.blocklistService.updateSubscription({
+				id: subscription.id,
+				url: ps.url,
+				isActive: ps.isActive,
+			}, me);
+
+			return this.blocklistEntityService.packSubscription(updated);
+		});
+	}
+}
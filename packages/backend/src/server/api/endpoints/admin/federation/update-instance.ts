@@ -10,6 +10,8 @@ import { UtilityService } from '@/core/UtilityService.js';
 import { DI } from '@/di-symbols.js';
 import { FederatedInstanceService } from '@/core/FederatedInstanceService.js';
 import { ModerationLogService } from '@/core/ModerationLogService.js';
+import { instancePolicies } from '@/models/Instance.js';
+import type { InstancePolicy } from '@/models/Instance.js';
 
 export const meta = {
 	tags: ['admin'],
@@ -25,10 +27,22 @@ export const paramDef = {
 		host: { type: 'string' },
 		isSuspended: { type: 'boolean' },
 		moderationNote: { type: 'string' },
+		policies: {
+			type: 'array',
+			uniqueItems: true,
+			items: {
+				type: 'string',
+				enum: instancePolicies,
+			},
+		},
 	},
 	required: ['host'],
 } as const;
 
+function isSamePolicies(a: InstancePolicy[], b: InstancePolicy[]): boolean {
+	return a.length === b.length && a.every(x => b.includes(x));
+}
+
 @Injectable()
 export default class extends Endpoint<typeof meta, typeof paramDef> { // eslint-disable-line import/no-default-export
 	constructor(
@@ -56,6 +70,7 @@ export default class extends Endpoint<typeof meta, typeof paramDef> { // eslint-
 			await this.federatedInstanceService.update(instance.id, {
 				suspensionState,
 				moderationNote: ps.moderationNote,
+				policies: ps.policies,
 			});
 
 			if (ps.isSuspended != null && isSuspendedBefore !== ps.isSuspended) {
@@ -80,6 +95,15 @@ export default class extends Endpoint<typeof meta, typeof paramDef> { // eslint-
 					after: ps.moderationNote,
 				});
 			}
+
+			if (ps.policies != null && !isSamePolicies(instance.policies, ps.policies)) {
+				this.moderationLogService.log(me, 'updateRemoteInstancePolicies', {
+					id: instance.id,
+					host: instance.host,
+					before: instance.policies,
+					after: ps.policies,
+				});
+			}
 		});
 	}
 }
@@ -523,6 +523,18 @@ export const meta = {
 					optional: false, nullable: false,
 				},
 			},
+			enableAuthorizedFetch: {
+				type: 'boolean',
+				optional: false, nullable: false,
+			},
+			remoteUserBackfillNotesLimit: {
+				type: 'number',
+				optional: false, nullable: false,
+			},
+			remoteUserBackfillPerHostLimit: {
+				type: 'number',
+				optional: false, nullable: false,
+			},
 		},
 	},
 } as const;
@@ -663,6 +675,9 @@ export default class extends Endpoint<typeof meta, typeof paramDef> { // eslint-
 				urlPreviewSummaryProxyUrl: instance.urlPreviewSummaryProxyUrl,
 				federation: instance.federation,
 				federationHosts: instance.federationHosts,
+				enableAuthorizedFetch: instance.enableAuthorizedFetch,
+				remoteUserBackfillNotesLimit: instance.remoteUserBackfillNotesLimit,
+				remoteUserBackfillPerHostLimit: instance.remoteUserBackfillPerHostLimit,
 			};
 		});
 	}
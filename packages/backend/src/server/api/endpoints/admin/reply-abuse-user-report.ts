@@ -0,0 +1,98 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { Inject, Injectable } from '@nestjs/common';
+import { Endpoint } from '@/server/api/endpoint-base.js';
+import type { AbuseUserReportsRepository } from '@/models/_.js';
+import { DI } from '@/di-symbols.js';
+import { ApiError } from '@/server/api/error.js';
+import { AbuseReportService } from '@/core/AbuseReportService.js';
+import { IdentifiableError } from '@/misc/identifiable-error.js';
+
+export const meta = {
+	tags: ['admin'],
+
+	requireCredential: true,
+	requireModerator: true,
+	kind: 'write:admin:resolve-abuse-user-report',
+
+	description: 'Send a direct note from the moderator to the account that sent a report from a remote server. If the report was sent by the instance actor of the server, the note is sent to the contact account of the server instead.',
+
+	res: {
+		type: 'object',
+		optional: false, nullable: false,
+		properties: {
+			noteId: {
+				type: 'string',
+				optional: false, nullable: false,
+				format: 'id',
+			},
+		},
+	},
+
+	errors: {
+		noSuchAbuseReport: {
+			message: 'No such abuse report.',
+			code: 'NO_SUCH_ABUSE_REPORT',
+			id: 'b1162567-2ee5-4064-90a0-ef2b161ded21',
+			kind: 'server',
+			httpStatusCode: 404,
+		},
+
+		notRemoteReport: {
+			message: 'The report is not from a remote server.',
+			code: 'NOT_REMOTE_REPORT',
+			id: 'a4758a68-6136-41d7-9877-a0e828c6895b',
+		},
+
+		noContactAccount: {
+			message: 'The server that sent the report has no contact account.',
+			code: 'NO_CONTACT_ACCOUNT',
+			id: 'c2d7f1a8-3b5e-4f9c-a6d0-8e4b1f7c3a92',
+		},
+	},
+} as const;
+
+export const paramDef = {
+	type: 'object',
+	properties: {
+		reportId: { type: 'string', format: 'misskey:id' },
+		text: { type: 'string', minLength: 1, maxLength: 3000 },
+	},
+	required: ['reportId', 'text'],
+} as const;
+
+@Injectable()
+export default class extends Endpoint<typeof meta, typeof paramDef> { // eslint-disable-line import/no-default-export
+	constructor(
+		@Inject(DI.abuseUserReportsRepository)
+		private abuseUserReportsRepository: AbuseUserReportsRepository,
+		private abuseReportService: AbuseReportService,
+	) {
+		super(meta, paramDef, async (ps, me) => {
+			const report = await this.abuseUserReportsRepository.findOneBy({ id: ps.reportId });
+			if (!report) {
+				throw new ApiError(meta.errors.noSuchAbuseReport);
+			}
+
+			if (report.reporterHost == null) {
+				throw new ApiError(meta.errors.notRemoteReport);
+			}
+
+			try {
+				const note = await this.abuseReportService.replyToOrigin(report.id, ps.text, me);
+
+				return {
+					noteId: note.id,
+				};
+			} catch (err) {
+				if (err instanceof IdentifiableError) {
+					if (err.id === '0b9e3c4f-6e1a-4d2b-8f5c-7a3d9e1b2c4f') throw new ApiError(meta.errors.noContactAccount);
+				}
+				throw err;
+			}
+		});
+	}
+}
@@ -33,6 +33,8 @@ export const paramDef = {
 	properties: {
 		reportId: { type: 'string', format: 'misskey:id' },
 		resolvedAs: { type: 'string', enum: ['accept', 'reject', null], nullable: true },
+		notifyReporter: { type: 'boolean', default: false, description: 'Notify the local reporter that the report has been resolved.' },
+		message: { type: 'string', nullable: true, maxLength: 2048, description: 'The message to the reporter, such as a canned response.' },
 	},
 	required: ['reportId'],
 } as const;
@@ -50,7 +52,12 @@ export default class extends Endpoint<typeof meta, typeof paramDef> { // eslint-
 				throw new ApiError(meta.errors.noSuchAbuseReport);
 			}
 
-			await this.abuseReportService.resolve([{ reportId: report.id, resolvedAs: ps.resolvedAs ?? null }], me);
+			await this.abuseReportService.resolve([{
+				reportId: report.id,
+				resolvedAs: ps.resolvedAs ?? null,
+				notifyReporter: ps.notifyReporter,
+				message: ps.message,
+			}], me);
 		});
 	}
 }
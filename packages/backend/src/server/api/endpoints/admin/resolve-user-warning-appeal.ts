@@ -0,0 +1,73 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { Inject, Injectable } from '@nestjs/common';
+import { Endpoint } from '@/server/api/endpoint-base.js';
+import { ApiError } from '@/server/api/error.js';
+import type { UserWarningsRepository, UsersRepository } from '@/models/_.js';
+import { DI } from '@/di-symbols.js';
+import { UserWarningService } from '@/core/UserWarningService.js';
+
+export const meta = {
+	tags: ['admin'],
+
+	requireCredential: true,
+	requireModerator: true,
+	kind: 'write:admin:account',
+
+	description: 'Accept or reject an appeal against a warning. Accepting the appeal revokes the warning.',
+
+	errors: {
+		noSuchWarning: {
+			message: 'No such warning.',
+			code: 'NO_SUCH_WARNING',
+			id: 'bff2e2a4-0947-4562-8c21-563e76ee0234',
+			httpStatusCode: 404,
+		},
+
+		noPendingAppeal: {
+			message: 'The warning does not have a pending appeal.',
+			code: 'NO_PENDING_APPEAL',
+			id: 'bc50cd08-0976-4d7a-8c90-bd5dfd301dfe',
+		},
+	},
+} as const;
+
+export const paramDef = {
+	type: 'object',
+	properties: {
+		warningId: { type: 'string', format: 'misskey:id' },
+		accept: { type: 'boolean' },
+	},
+	required: ['warningId', 'accept'],
+} as const;
+
+@Injectable()
+export default class extends Endpoint<typeof meta, typeof paramDef> { // eslint-disable-line import/no-default-export
+	constructor(
+		@Inject(DI.userWarningsRepository)
+		private userWarningsRepository: UserWarningsRepository,
+
+		@Inject(DI.usersRepository)
+		private usersRepository: UsersRepository,
+
+		private userWarningService: UserWarningService,
+	) {
+		super(meta, paramDef, async (ps, me) => {
+			const warning = await this.userWarningsRepository.findOneBy({ id: ps.warningId });
+			if (warning == null) {
+				throw new ApiError(meta.errors.noSuchWarning);
+			}
+
+			if (warning.appealStatus !== 'pending') {
+				throw new ApiError(meta.errors.noPendingAppeal);
+			}
+
+			const user = await this.usersRepository.findOneByOrFail({ id: warning.userId });
+
+			await this.userWarningService.resolveAppeal(warning, user, ps.accept, me);
+		});
+	}
+}
@@ -0,0 +1,62 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { Inject, Injectable } from '@nestjs/common';
+import { Endpoint } from '@/server/api/endpoint-base.js';
+import { ApiError } from '@/server/api/error.js';
+import type { UserWarningsRepository, UsersRepository } from '@/models/_.js';
+import { DI } from '@/di-symbols.js';
+import { UserWarningService } from '@/core/UserWarningService.js';
+
+export const meta = {
+	tags: ['admin'],
+
+	requireCredential: true,
+	requireModerator: true,
+	kind: 'write:admin:account',
+
+	description: 'Revoke a warning. The role assigned along with the warning is also unassigned.',
+
+	errors: {
+		noSuchWarning: {
+			message: 'No such warning.',
+			code: 'NO_SUCH_WARNING',
+			id: 'a8e3be3b-79db-4fa1-944b-262d0733d3fd',
+			httpStatusCode: 404,
+		},
+	},
+} as const;
+
+export const paramDef = {
+	type: 'object',
+	properties: {
+		warningId: { type: 'string', format: 'misskey:id' },
+	},
+	required: ['warningId'],
+} as const;
+
+@Injectable()
+export default class extends Endpoint<typeof meta, typeof paramDef> { // eslint-disable-line import/no-default-export
+	constructor(
+		@Inject(DI.userWarningsRepository)
+		private userWarningsRepository: UserWarningsRepository,
+
+		@Inject(DI.usersRepository)
+		private usersRepository: UsersRepository,
+
+		private userWarningService: UserWarningService,
+	) {
+		super(meta, paramDef, async (ps, me) => {
+			const warning = await this.userWarningsRepository.findOneBy({ id: ps.warningId });
+			if (warning == null) {
+				throw new ApiError(meta.errors.noSuchWarning);
+			}
+
+			const user = await this.usersRepository.findOneByOrFail({ id: warning.userId });
+
+			await this.userWarningService.revoke(warning, user, me);
+		});
+	}
+}
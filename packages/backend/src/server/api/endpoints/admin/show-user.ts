@@ -123,6 +123,10 @@ export const meta = {
 				type: 'boolean',
 				optional: false, nullable: false,
 			},
+			suspendedUntil: {
+				type: 'string',
+				optional: false, nullable: true,
+			},
 			isHibernated: {
 				type: 'boolean',
 				optional: false, nullable: false,
@@ -245,6 +249,7 @@ export default class extends Endpoint<typeof meta, typeof paramDef> { // eslint-
 				isModerator: isModerator,
 				isSilenced: isSilenced,
 				isSuspended: user.isSuspended,
+				suspendedUntil: user.suspendedUntil ? user.suspendedUntil.toISOString() : null,
 				isHibernated: user.isHibernated,
 				lastActiveDate: user.lastActiveDate ? user.lastActiveDate.toISOString() : null,
 				moderationNote: profile.moderationNote ?? '',
@@ -5,6 +5,7 @@
 
 import { Inject, Injectable } from '@nestjs/common';
 import { Endpoint } from '@/server/api/endpoint-base.js';
+import { ApiError } from '@/server/api/error.js';
 import type { UsersRepository } from '@/models/_.js';
 import { UserSuspendService } from '@/core/UserSuspendService.js';
 import { DI } from '@/di-symbols.js';
@@ -16,12 +17,21 @@ export const meta = {
 	requireCredential: true,
 	requireModerator: true,
 	kind: 'write:admin:suspend-user',
+
+	errors: {
+		expiresAtIsPast: {
+			message: 'expiresAt must be a future time.',
+			code: 'EXPIRES_AT_IS_PAST',
+			id: '7652fe7b-eb68-48d6-8d6b-f0390ecb01e6',
+		},
+	},
 } as const;
 
 export const paramDef = {
 	type: 'object',
 	properties: {
 		userId: { type: 'string', format: 'misskey:id' },
+		expiresAt: { type: 'integer', nullable: true, description: 'Lift the suspension at this time. The user is suspended indefinitely if null.' },
 	},
 	required: ['userId'],
 } as const;
@@ -46,7 +56,11 @@ export default class extends Endpoint<typeof meta, typeof paramDef> { // eslint-
 				throw new Error('cannot suspend moderator account');
 			}
 
-			await this.userSuspendService.suspend(user, me);
+			if (ps.expiresAt && ps.expiresAt <= Date.now()) {
+				throw new ApiError(meta.errors.expiresAtIsPast);
+			}
+
+			await this.userSuspendService.suspend(user, me, ps.expiresAt ? new Date(ps.expiresAt) : null);
 		});
 	}
 }
@@ -0,0 +1,79 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { Inject, Injectable } from '@nestjs/common';
+import { Endpoint } from '@/server/api/endpoint-base.js';
+import type { WebhookDeliveryLogsRepository } from '@/models/_.js';
+import { QueryService } from '@/core/QueryService.js';
+import { SystemWebhookService } from '@/core/SystemWebhookService.js';
+import { WebhookDeliveryLogEntityService } from '@/core/entities/WebhookDeliveryLogEntityService.js';
+import { DI } from '@/di-symbols.js';
+import { ApiError } from '@/server/api/error.js';
+
+export const meta = {
+	tags: ['admin', 'system-webhook'],
+
+	requireCredential: true,
+	requireModerator: true,
+	secure: true,
+	kind: 'read:admin:system-webhook',
+
+	res: {
+		type: 'array',
+		optional: false, nullable: false,
+		items: {
+			type: 'object',
+			optional: false, nullable: false,
+			ref: 'WebhookDeliveryLog',
+		},
+	},
+
+	errors: {
+		noSuchSystemWebhook: {
+			message: 'No such SystemWebhook.',
+			code: 'NO_SUCH_SYSTEM_WEBHOOK',
+			id: 'e3d66505-6010-429c-92b1-7af6edb53289',
+			kind: 'server',
+			httpStatusCode: 404,
+		},
+	},
+} as const;
+
+export const paramDef = {
+	type: 'object',
+	properties: {
+		webhookId: { type: 'string', format: 'misskey:id' },
+		limit: { type: 'integer', minimum: 1, maximum: 100, default: 10 },
+		sinceId: { type: 'string', format: 'misskey:id' },
+		untilId: { type: 'string', format: 'misskey:id' },
+	},
+	required: ['webhookId'],
+} as const;
+
+@Injectable()
+export default class extends Endpoint<typeof meta, typeof paramDef> { // eslint-disable-line import/no-default-export
+	constructor(
+		@Inject(DI.webhookDeliveryLogsRepository)
+		private webhookDeliveryLogsRepository: WebhookDeliveryLogsRepository,
+
+		private systemWebhookService: SystemWebhookService,
+		private webhookDeliveryLogEntityService: WebhookDeliveryLogEntityService,
+		private queryService: QueryService,
+	) {
+		super(meta, paramDef, async (ps) => {
+			const webhooks = await this.systemWebhookService.fetchSystemWebhooks({ ids: [ps.webhookId] });
+			if (webhooks.length === 0) {
+				throw new ApiError(meta.errors.noSuchSystemWebhook);
+			}
+
+			const logs = await this.queryService.makePaginationQuery(this.webhookDeliveryLogsRepository.createQueryBuilder('log'), ps.sinceId, ps.untilId)
+				.andWhere('log.systemWebhookId = :webhookId', { webhookId: webhooks[0].id })
+				.limit(ps.limit)
+				.getMany();
+
+			return this.webhookDeliveryLogEntityService.packMany(logs);
+		});
+	}
+}
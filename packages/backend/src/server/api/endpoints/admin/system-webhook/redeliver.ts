@@ -0,0 +1,75 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { Inject, Injectable } from '@nestjs/common';
+import { Endpoint } from '@/server/api/endpoint-base.js';
+import type { WebhookDeliveryLogsRepository } from '@/models/_.js';
+import { SystemWebhookService } from '@/core/SystemWebhookService.js';
+import { DI } from '@/di-symbols.js';
+import { ApiError } from '@/server/api/error.js';
+
+export const meta = {
+	tags: ['admin', 'system-webhook'],
+
+	requireCredential: true,
+	requireModerator: true,
+	secure: true,
+	kind: 'write:admin:system-webhook',
+
+	errors: {
+		noSuchSystemWebhook: {
+			message: 'No such SystemWebhook.',
+			code: 'NO_SUCH_SYSTEM_WEBHOOK',
+			id: '43214a52-8493-4ac6-afe8-071d9a96bd51',
+			kind: 'server',
+			httpStatusCode: 404,
+		},
+
+		noSuchLog: {
+			message: 'No such delivery log.',
+			code: 'NO_SUCH_LOG',
+			id: '366c82e1-a986-42a4-b4c3-acac51874f9f',
+			kind: 'server',
+			httpStatusCode: 404,
+		},
+	},
+} as const;
+
+export const paramDef = {
+	type: 'object',
+	properties: {
+		webhookId: { type: 'string', format: 'misskey:id' },
+		logId: { type: 'string', format: 'misskey:id' },
+	},
+	required: ['webhookId', 'logId'],
+} as const;
+
+@Injectable()
+export default class extends Endpoint<typeof meta, typeof paramDef> { // eslint-disable-line import/no-default-export
+	constructor(
+		@Inject(DI.webhookDeliveryLogsRepository)
+		private webhookDeliveryLogsRepository: WebhookDeliveryLogsRepository,
+
+		private systemWebhookService: SystemWebhookService,
+	) {
+		super(meta, paramDef, async (ps) => {
+			const webhooks = await this.systemWebhookService.fetchSystemWebhooks({ ids: [ps.webhookId] });
+			if (webhooks.length === 0) {
+				throw new ApiError(meta.errors.noSuchSystemWebhook);
+			}
+
+			const log = await this.webhookDeliveryLogsRepository.findOneBy({
+				id: ps.logId,
+				systemWebhookId: webhooks[0].id,
+			});
+
+			if (log == null) {
+				throw new ApiError(meta.errors.noSuchLog);
+			}
+
+			await this.systemWebhookService.redeliver(webhooks[0], log);
+		});
+	}
+}
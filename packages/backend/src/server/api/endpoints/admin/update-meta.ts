@@ -185,6 +185,9 @@ export const paramDef = {
 				type: 'string',
 			},
 		},
+		enableAuthorizedFetch: { type: 'boolean' },
+		remoteUserBackfillNotesLimit: { type: 'integer', minimum: 0, maximum: 100 },
+		remoteUserBackfillPerHostLimit: { type: 'integer', minimum: 1 },
 	},
 	required: [],
 } as const;
@@ -673,6 +676,18 @@ export default class extends Endpoint<typeof meta, typeof paramDef> { // eslint-
 				set.federationHosts = ps.federationHosts.filter(Boolean).map(x => x.toLowerCase());
 			}
 
+			if (ps.enableAuthorizedFetch !== undefined) {
+				set.enableAuthorizedFetch = ps.enableAuthorizedFetch;
+			}
+
+			if (ps.remoteUserBackfillNotesLimit !== undefined) {
+				set.remoteUserBackfillNotesLimit = ps.remoteUserBackfillNotesLimit;
+			}
+
+			if (ps.remoteUserBackfillPerHostLimit !== undefined) {
+				set.remoteUserBackfillPerHostLimit = ps.remoteUserBackfillPerHostLimit;
+			}
+
 			const before = await this.metaService.fetch(true);
 
 			await this.metaService.update(set);
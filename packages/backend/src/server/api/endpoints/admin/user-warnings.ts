@@ -0,0 +1,69 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { Inject, Injectable } from '@nestjs/common';
+import { Endpoint } from '@/server/api/endpoint-base.js';
+import type { UserWarningsRepository } from '@/models/_.js';
+import { QueryService } from '@/core/QueryService.js';
+import { DI } from '@/di-symbols.js';
+import { UserWarningEntityService } from '@/core/entities/UserWarningEntityService.js';
+import { userWarningAppealStatuses } from '@/models/UserWarning.js';
+
+export const meta = {
+	tags: ['admin'],
+
+	requireCredential: true,
+	requireModerator: true,
+	kind: 'read:admin:account',
+
+	res: {
+		type: 'array',
+		optional: false, nullable: false,
+		items: {
+			type: 'object',
+			optional: false, nullable: false,
+			ref: 'UserWarning',
+		},
+	},
+} as const;
+
+export const paramDef = {
+	type: 'object',
+	properties: {
+		limit: { type: 'integer', minimum: 1, maximum: 100, default: 10 },
+		sinceId: { type: 'string', format: 'misskey:id' },
+		untilId: { type: 'string', format: 'misskey:id' },
+		userId: { type: 'string', format: 'misskey:id', nullable: true },
+		appealStatus: { type: 'string', enum: userWarningAppealStatuses, nullable: true },
+	},
+	required: [],
+} as const;
+
+@Injectable()
+export default class extends Endpoint<typeof meta, typeof paramDef> { // eslint-disable-line import/no-default-export
+	constructor(
+		@Inject(DI.userWarningsRepository)
+		private userWarningsRepository: UserWarningsRepository,
+
+		private userWarningEntityService: UserWarningEntityService,
+		private queryService: QueryService,
+	) {
+		super(meta, paramDef, async (ps, me) => {
+			const query = this.queryService.makePaginationQuery(this.userWarningsRepository.createQueryBuilder('warning'), ps.sinceId, ps.untilId);
+
+			if (ps.userId) {
+				query.andWhere('warning.userId = :userId', { userId: ps.userId });
+			}
+
+			if (ps.appealStatus) {
+				query.andWhere('warning.appealStatus = :appealStatus', { appealStatus: ps.appealStatus });
+			}
+
+			const warnings = await query.limit(ps.limit).getMany();
+
+			return await this.userWarningEntityService.packMany(warnings, me, { detail: true });
+		});
+	}
+}
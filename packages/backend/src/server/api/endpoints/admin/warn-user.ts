@@ -0,0 +1,160 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { Inject, Injectable } from '@nestjs/common';
+import { Endpoint } from '@/server/api/endpoint-base.js';
+import { ApiError } from '@/server/api/error.js';
+import type { AbuseUserReportsRepository, NotesRepository, RolesRepository, UsersRepository } from '@/models/_.js';
+import { DI } from '@/di-symbols.js';
+import { UserWarningService } from '@/core/UserWarningService.js';
+import { UserWarningEntityService } from '@/core/entities/UserWarningEntityService.js';
+import { RoleService } from '@/core/RoleService.js';
+
+export const meta = {
+	tags: ['admin'],
+
+	requireCredential: true,
+	requireModerator: true,
+	kind: 'write:admin:account',
+
+	description: 'Warn a local user. If a role is specified, it is assigned to the user until the specified time.',
+
+	res: {
+		type: 'object',
+		optional: false, nullable: false,
+		ref: 'UserWarning',
+	},
+
+	errors: {
+		noSuchUser: {
+			message: 'No such user.',
+			code: 'NO_SUCH_USER',
+			id: '208fdc8c-9d09-4aef-8c4f-97bfb187dd43',
+		},
+
+		cannotWarnRemoteUser: {
+			message: 'Cannot warn a remote user.',
+			code: 'CANNOT_WARN_REMOTE_USER',
+			id: 'acfbfc56-cff4-42b0-b920-92fd4e232ec1',
+		},
+
+		cannotWarnModerator: {
+			message: 'Cannot warn a moderator.',
+			code: 'CANNOT_WARN_MODERATOR',
+			id: 'ad351c18-b309-4a1f-988f-09d4b0e18a5c',
+		},
+
+		noSuchReport: {
+			message: 'No such report for the user.',
+			code: 'NO_SUCH_REPORT',
+			id: 'f5766287-355e-47ee-9ed5-1f9230d9b7f3',
+		},
+
+		noSuchNote: {
+			message: 'No such note of the user.',
+			code: 'NO_SUCH_NOTE',
+			id: 'c9d9afd3-b91b-4105-a431-2e4d0af75f91',
+		},
+
+		noSuchRole: {
+			message: 'No such role.',
+			code: 'NO_SUCH_ROLE',
+			id: 'ee825045-1e41-47d8-b13f-07ad2a04cdb5',
+		},
+
+		accessDenied: {
+			message: 'Only administrators can edit members of the role.',
+			code: 'ACCESS_DENIED',
+			id: '8c6d0e52-edac-46e1-8580-631cbae7bf02',
+		},
+	},
+} as const;
+
+export const paramDef = {
+	type: 'object',
+	properties: {
+		userId: { type: 'string', format: 'misskey:id' },
+		reason: { type: 'string', minLength: 1, maxLength: 2048 },
+		reportId: { type: 'string', format: 'misskey:id', nullable: true },
+		noteId: { type: 'string', format: 'misskey:id', nullable: true },
+		roleId: { type: 'string', format: 'misskey:id', nullable: true, description: 'The role to assign to the user along with the warning.' },
+		roleExpiresAt: { type: 'integer', nullable: true, description: 'Unassign the role at this time. The role is assigned indefinitely if null.' },
+	},
+	required: ['userId', 'reason'],
+} as const;
+
+@Injectable()
+export default class extends Endpoint<typeof meta, typeof paramDef> { // eslint-disable-line import/no-default-export
+	constructor(
+		@Inject(DI.usersRepository)
+		private usersRepository: UsersRepository,
+
+		@Inject(DI.abuseUserReportsRepository)
+		private abuseUserReportsRepository: AbuseUserReportsRepository,
+
+		@Inject(DI.notesRepository)
+		private notesRepository: NotesRepository,
+
+		@Inject(DI.rolesRepository)
+		private rolesRepository: RolesRepository,
+
+		private userWarningService: UserWarningService,
+		private userWarningEntityService: UserWarningEntityService,
+		private roleService: RoleService,
+	) {
+		super(meta, paramDef, async (ps, me) => {
+			const user = await this.usersRepository.findOneBy({ id: ps.userId });
+			if (user == null) {
+				throw new ApiError(meta.errors.noSuchUser);
+			}
+
+			if (user.host != null) {
+				throw new ApiError(meta.errors.cannotWarnRemoteUser);
+			}
+
+			if (await this.roleService.isModerator(user)) {
+				throw new ApiError(meta.errors.cannotWarnModerator);
+			}
+
+			if (ps.reportId != null) {
+				const exists = await this.abuseUserReportsRepository.existsBy({ id: ps.reportId, targetUserId: user.id });
+				if (!exists) {
+					throw new ApiError(meta.errors.noSuchReport);
+				}
+			}
+
+			if (ps.noteId != null) {
+				const exists = await this.notesRepository.existsBy({ id: ps.noteId, userId: user.id });
+				if (!exists) {
+					throw new ApiError(meta.errors.noSuchNote);
+				}
+			}
+
+			if (ps.roleId != null) {
+				const role = await this.rolesRepository.findOneBy({ id: ps.roleId });
+				if (role == null) {
+					throw new ApiError(meta.errors.noSuchRole);
+				}
+
+				if (!role.canEditMembersByModerator && !(await this.roleService.isAdministrator(me))) {
+					throw new ApiError(meta.errors.accessDenied);
+				}
+			}
+
+			const roleExpiresAt = ps.roleExpiresAt ? new Date(ps.roleExpiresAt) : null;
+
+			const warning = await this.userWarningService.warn(user, {
+				reason: ps.reason,
+				reportId: ps.reportId,
+				noteId: ps.noteId,
+				// 既に過ぎた期限が指定された場合はロールをアサインしない
+				roleId: roleExpiresAt == null || roleExpiresAt.getTime() > Date.now() ? ps.roleId : null,
+				roleExpiresAt,
+			}, me);
+
+			return await this.userWarningEntityService.pack(warning, me, { detail: true });
+		});
+	}
+}
@@ -0,0 +1,54 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { Injectable } from '@nestjs/common';
+import { Endpoint } from '@/server/api/endpoint-base.js';
+import { ChatService } from '@/core/ChatService.js';
+import { ChatEntityService } from '@/core/entities/ChatEntityService.js';
+
+export const meta = {
+	tags: ['chat'],
+
+	requireCredential: true,
+
+	requireRolePolicy: 'canChat',
+
+	kind: 'read:chat',
+
+	res: {
+		type: 'array',
+		optional: false, nullable: false,
+		items: {
+			type: 'object',
+			optional: false, nullable: false,
+			ref: 'ChatMessage',
+		},
+	},
+} as const;
+
+export const paramDef = {
+	type: 'object',
+	properties: {
+		limit: { type: 'integer', minimum: 1, maximum: 100, default: 10 },
+		room: { type: 'boolean', default: false },
+	},
+	required: [],
+} as const;
+
+@Injectable()
+export default class extends Endpoint<typeof meta, typeof paramDef> { // eslint-disable-line import/no-default-export
+	constructor(
+		private chatService: ChatService,
+		private chatEntityService: ChatEntityService,
+	) {
+		super(meta, paramDef, async (ps, me) => {
+			const messages = await this.chatService.history(me, ps.room ? 'room' : 'user', ps.limit);
+
+			return await this.chatEntityService.packMessages(messages, me, {
+				populateRoom: ps.room,
+			});
+		});
+	}
+}
@@ -0,0 +1,91 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { Injectable } from '@nestjs/common';
+import ms from 'ms';
+import { Endpoint } from '@/server/api/endpoint-base.js';
+import { ChatService } from '@/core/ChatService.js';
+import { ApiError } from '../../../error.js';
+
+export const meta = {
+	tags: ['chat'],
+
+	requireCredential: true,
+
+	prohibitMoved: true,
+
+	requireRolePolicy: 'canChat',
+
+	kind: 'write:chat',
+
+	limit: {
+		duration: ms('1minute'),
+		max: 30,
+	},
+
+	res: {
+		type: 'object',
+		optional: false, nullable: false,
+		ref: 'ChatMessage',
+	},
+
+	errors: {
+		noSuchRoom: {
+			message: 'No such room.',
+			code: 'NO_SUCH_ROOM',
+			id: 'ed78870b-9da1-4757-8fa4-c542492741f2',
+		},
+
+		noSuchFile: {
+			message: 'No such file.',
+			code: 'NO_SUCH_FILE',
+			id: 'ee0cb5ea-13be-4f88-baed-baf4231925c8',
+		},
+
+		contentRequired: {
+			message: 'Content required. You need to set text or fileId.',
+			code: 'CONTENT_REQUIRED',
+			id: 'aaed7871-65e2-4c04-a013-691a5c853d0c',
+		},
+	},
+} as const;
+
+export const paramDef = {
+	type: 'object',
+	properties: {
+		toRoomId: { type: 'string', format: 'misskey:id' },
+		text: { type: 'string', nullable: true, minLength: 1, maxLength: 2000 },
+		fileId: { type: 'string', format: 'misskey:id', nullable: true },
+	},
+	required: ['toRoomId'],
+} as const;
+
+@Injectable()
+export default class extends Endpoint<typeof meta, typeof paramDef> { // eslint-disable-line import/no-default-export
+	constructor(
+		private chatService: ChatService,
+	) {
+		super(meta, paramDef, async (ps, me) => {
+			if (ps.text == null && ps.fileId == null) {
+				throw new ApiError(meta.errors.contentRequired);
+			}
+
+			try {
+				return await this.chatService.createMessageToRoom(me, ps.toRoomId, {
+					text: ps.text ?? null,
+					fileId: ps.fileId ?? null,
+				});
+			} catch (e) {
+				if (e instanceof ChatService.NoSuchRoomError) {
+					throw new ApiError(meta.errors.noSuchRoom);
+				} else if (e instanceof ChatService.NoSuchFileError) {
+					throw new ApiError(meta.errors.noSuchFile);
+				} else {
+					throw e;
+				}
+			}
+		});
+	}
+}
@@ -0,0 +1,107 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { Injectable } from '@nestjs/common';
+import ms from 'ms';
+import { Endpoint } from '@/server/api/endpoint-base.js';
+import { ChatService } from '@/core/ChatService.js';
+import { ApiError } from '../../../error.js';
+
+export const meta = {
+	tags: ['chat'],
+
+	requireCredential: true,
+
+	prohibitMoved: true,
+
+	requireRolePolicy: 'canChat',
+
+	kind: 'write:chat',
+
+	limit: {
+		duration: ms('1minute'),
+		max: 30,
+	},
+
+	res: {
+		type: 'object',
+		optional: false, nullable: false,
+		ref: 'ChatMessage',
+	},
+
+	errors: {
+		noSuchUser: {
+			message: 'No such user.',
+			code: 'NO_SUCH_USER',
+			id: '072d718e-9940-44f3-a9a2-e76fcdf93aaf',
+		},
+
+		noSuchFile: {
+			message: 'No such file.',
+			code: 'NO_SUCH_FILE',
+			id: 'a57f343d-1a7f-4fda-bf39-51eb805d61d0',
+		},
+
+		contentRequired: {
+			message: 'Content required. You need to set text or fileId.',
+			code: 'CONTENT_REQUIRED',
+			id: '3f8baad4-5e59-435a-a357-395f500450a9',
+		},
+
+		blocked: {
+			message: 'You cannot send a message because of blocking.',
+			code: 'BLOCKED',
+			id: '6cf8c127-ec3c-45bd-9bf7-6cbad5058bf6',
+		},
+
+		recipientCannotChat: {
+			message: 'The recipient is not allowed to use chat.',
+			code: 'RECIPIENT_CANNOT_CHAT',
+			id: '29e0cd7c-8c2d-4c4f-95a0-c6af140caaa5',
+		},
+	},
+} as const;
+
+export const paramDef = {
+	type: 'object',
+	properties: {
+		toUserId: { type: 'string', format: 'misskey:id' },
+		text: { type: 'string', nullable: true, minLength: 1, maxLength: 2000 },
+		fileId: { type: 'string', format: 'misskey:id', nullable: true },
+	},
+	required: ['toUserId'],
+} as const;
+
+@Injectable()
+export default class extends Endpoint<typeof meta, typeof paramDef> { // eslint-disable-line import/no-default-export
+	constructor(
+		private chatService: ChatService,
+	) {
+		super(meta, paramDef, async (ps, me) => {
+			if (ps.text == null && ps.fileId == null) {
+				throw new ApiError(meta.errors.contentRequired);
+			}
+
+			try {
+				return await this.chatService.createMessageToUser(me, ps.toUserId, {
+					text: ps.text ?? null,
+					fileId: ps.fileId ?? null,
+				});
+			} catch (e) {
+				if (e instanceof ChatService.NoSuchUserError) {
+					throw new ApiError(meta.errors.noSuchUser);
+				} else if (e instanceof ChatService.NoSuchFileError) {
+					throw new ApiError(meta.errors.noSuchFile);
+				} else if (e instanceof ChatService.BlockedError) {
+					throw new ApiError(meta.errors.blocked);
+				} else if (e instanceof ChatService.RecipientCannotChatError) {
+					throw new ApiError(meta.errors.recipientCannotChat);
+				} else {
+					throw e;
+				}
+			}
+		});
+	}
+}
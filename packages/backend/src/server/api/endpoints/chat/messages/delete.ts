@@ -0,0 +1,54 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { Injectable } from '@nestjs/common';
+import { Endpoint } from '@/server/api/endpoint-base.js';
+import { ChatService } from '@/core/ChatService.js';
+import { ApiError } from '../../../error.js';
+
+export const meta = {
+	tags: ['chat'],
+
+	requireCredential: true,
+
+	requireRolePolicy: 'canChat',
+
+	kind: 'write:chat',
+
+	errors: {
+		noSuchMessage: {
+			message: 'No such message.',
+			code: 'NO_SUCH_MESSAGE',
+			id: '30ef8cf6-c668-485e-9441-7b97cfc03599',
+		},
+	},
+} as const;
+
+export const paramDef = {
+	type: 'object',
+	properties: {
+		messageId: { type: 'string', format: 'misskey:id' },
+	},
+	required: ['messageId'],
+} as const;
+
+@Injectable()
+export default class extends Endpoint<typeof meta, typeof paramDef> { // eslint-disable-line import/no-default-export
+	constructor(
+		private chatService: ChatService,
+	) {
+		super(meta, paramDef, async (ps, me) => {
+			try {
+				await this.chatService.deleteMessage(me, ps.messageId);
+			} catch (e) {
+				if (e instanceof ChatService.NoSuchMessageError) {
+					throw new ApiError(meta.errors.noSuchMessage);
+				} else {
+					throw e;
+				}
+			}
+		});
+	}
+}
@@ -0,0 +1,85 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { Inject, Injectable } from '@nestjs/common';
+import type { ChatMessagesRepository } from '@/models/_.js';
+import { Endpoint } from '@/server/api/endpoint-base.js';
+import { QueryService } from '@/core/QueryService.js';
+import { CacheService } from '@/core/CacheService.js';
+import { ChatService } from '@/core/ChatService.js';
+import { ChatEntityService } from '@/core/entities/ChatEntityService.js';
+import { DI } from '@/di-symbols.js';
+import { ApiError } from '../../../error.js';
+
+export const meta = {
+	tags: ['chat'],
+
+	requireCredential: true,
+
+	requireRolePolicy: 'canChat',
+
+	kind: 'read:chat',
+
+	res: {
+		type: 'array',
+		optional: false, nullable: false,
+		items: {
+			type: 'object',
+			optional: false, nullable: false,
+			ref: 'ChatMessage',
+		},
+	},
+
+	errors: {
+		noSuchRoom: {
+			message: 'No such room.',
+			code: 'NO_SUCH_ROOM',
+			id: 'ea2e1274-8dd5-49b1-995c-0ab1a878ce6f',
+		},
+	},
+} as const;
+
+export const paramDef = {
+	type: 'object',
+	properties: {
+		roomId: { type: 'string', format: 'misskey:id' },
+		limit: { type: 'integer', minimum: 1, maximum: 100, default: 10 },
+		sinceId: { type: 'string', format: 'misskey:id' },
+		untilId: { type: 'string', format: 'misskey:id' },
+	},
+	required: ['roomId'],
+} as const;
+
+@Injectable()
+export default class extends Endpoint<typeof meta, typeof paramDef> { // eslint-disable-line import/no-default-export
+	constructor(
+		@Inject(DI.chatMessagesRepository)
+		private chatMessagesRepository: ChatMessagesRepository,
+
+		private chatService: ChatService,
+		private chatEntityService: ChatEntityService,
+		private cacheService: CacheService,
+		private queryService: QueryService,
+	) {
+		super(meta, paramDef, async (ps, me) => {
+			if (!(await this.chatService.isRoomMember(me, ps.roomId))) {
+				throw new ApiError(meta.errors.noSuchRoom);
+			}
+
+			const query = this.queryService.makePaginationQuery(this.chatMessagesRepository.createQueryBuilder('message'), ps.sinceId, ps.untilId)
+				.andWhere('message.toRoomId = :roomId', { roomId: ps.roomId });
+
+			// ミュートしているユーザーのメッセージは含めない
+			const mutings = await this.cacheService.userMutingsCache.fetch(me.id);
+			if (mutings.size > 0) {
+				query.andWhere('message.fromUserId NOT IN (:...muteeIds)', { muteeIds: Array.from(mutings) });
+			}
+
+			const messages = await query.limit(ps.limit).getMany();
+
+			return await this.chatEntityService.packMessages(messages, me);
+		});
+	}
+}
@@ -0,0 +1,76 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { Inject, Injectable } from '@nestjs/common';
+import { Brackets } from 'typeorm';
+import type { ChatMessagesRepository } from '@/models/_.js';
+import { Endpoint } from '@/server/api/endpoint-base.js';
+import { QueryService } from '@/core/QueryService.js';
+import { ChatEntityService } from '@/core/entities/ChatEntityService.js';
+import { DI } from '@/di-symbols.js';
+
+export const meta = {
+	tags: ['chat'],
+
+	requireCredential: true,
+
+	requireRolePolicy: 'canChat',
+
+	kind: 'read:chat',
+
+	res: {
+		type: 'array',
+		optional: false, nullable: false,
+		items: {
+			type: 'object',
+			optional: false, nullable: false,
+			ref: 'ChatMessage',
+		},
+	},
+} as const;
+
+export const paramDef = {
+	type: 'object',
+	properties: {
+		userId: { type: 'string', format: 'misskey:id' },
+		limit: { type: 'integer', minimum: 1, maximum: 100, default: 10 },
+		sinceId: { type: 'string', format: 'misskey:id' },
+		untilId: { type: 'string', format: 'misskey:id' },
+	},
+	required: ['userId'],
+} as const;
+
+@Injectable()
+export default class extends Endpoint<typeof meta, typeof paramDef> { // eslint-disable-line import/no-default-export
+	constructor(
+		@Inject(DI.chatMessagesRepository)
+		private chatMessagesRepository: ChatMessagesRepository,
+
+		private chatEntityService: ChatEntityService,
+		private queryService: QueryService,
+	) {
+		super(meta, paramDef, async (ps, me) => {
+			const query = this.queryService.makePaginationQuery(this.chatMessagesRepository.createQueryBuilder('message'), ps.sinceId, ps.untilId)
+				.andWhere(new Brackets(qb => {
+					qb
+						.where(new Brackets(qb => {
+							qb
+								.where('message.fromUserId = :meId')
+								.andWhere('message.toUserId = :otherId');
+						}))
+						.orWhere(new Brackets(qb => {
+							qb
+								.where('message.fromUserId = :otherId')
+								.andWhere('message.toUserId = :meId');
+						}));
+				}))
+				.setParameters({ meId: me.id, otherId: ps.userId });
+
+			const messages = await query.limit(ps.limit).getMany();
+
+			return await this.chatEntityService.packMessages(messages, me);
+		});
+	}
+}
@@ -0,0 +1,54 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { Injectable } from '@nestjs/common';
+import { Endpoint } from '@/server/api/endpoint-base.js';
+import { ChatService } from '@/core/ChatService.js';
+import { ApiError } from '../../error.js';
+
+export const meta = {
+	tags: ['chat'],
+
+	requireCredential: true,
+
+	requireRolePolicy: 'canChat',
+
+	kind: 'write:chat',
+
+	errors: {
+		noSuchRoom: {
+			message: 'No such room.',
+			code: 'NO_SUCH_ROOM',
+			id: '6cf9cb64-41b9-441e-b7da-fc6ea86fe9cb',
+		},
+	},
+} as const;
+
+export const paramDef = {
+	type: 'object',
+	properties: {
+		roomId: { type: 'string', format: 'misskey:id' },
+	},
+	required: ['roomId'],
+} as const;
+
+@Injectable()
+export default class extends Endpoint<typeof meta, typeof paramDef> { // eslint-disable-line import/no-default-export
+	constructor(
+		private chatService: ChatService,
+	) {
+		super(meta, paramDef, async (ps, me) => {
+			try {
+				await this.chatService.readRoomMessages(me, ps.roomId);
+			} catch (e) {
+				if (e instanceof ChatService.NoSuchRoomError) {
+					throw new ApiError(meta.errors.noSuchRoom);
+				} else {
+					throw e;
+				}
+			}
+		});
+	}
+}
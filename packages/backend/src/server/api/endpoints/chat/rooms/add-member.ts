@@ -0,0 +1,113 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { Injectable } from '@nestjs/common';
+import ms from 'ms';
+import { Endpoint } from '@/server/api/endpoint-base.js';
+import { ChatService } from '@/core/ChatService.js';
+import { ChatEntityService } from '@/core/entities/ChatEntityService.js';
+import { ApiError } from '../../../error.js';
+
+export const meta = {
+	tags: ['chat'],
+
+	requireCredential: true,
+
+	prohibitMoved: true,
+
+	requireRolePolicy: 'canChat',
+
+	kind: 'write:chat',
+
+	limit: {
+		duration: ms('1hour'),
+		max: 60,
+	},
+
+	res: {
+		type: 'object',
+		optional: false, nullable: false,
+		ref: 'ChatRoomMembership',
+	},
+
+	errors: {
+		noSuchRoom: {
+			message: 'No such room.',
+			code: 'NO_SUCH_ROOM',
+			id: 'd2d98a4a-90f3-42be-8ef6-acc526096377',
+		},
+
+		noSuchUser: {
+			message: 'No such user.',
+			code: 'NO_SUCH_USER',
+			id: '18516fdf-2c88-4988-818d-1a3e2be71289',
+		},
+
+		alreadyJoined: {
+			message: 'That user has already joined the room.',
+			code: 'ALREADY_JOINED',
+			id: 'f8e3172e-ae60-47dd-9f22-ef8b67f8e64e',
+		},
+
+		blocked: {
+			message: 'You cannot add that user because of blocking.',
+			code: 'BLOCKED',
+			id: 'd91f3b65-d5a9-4a0f-a71a-5a998be458bc',
+		},
+
+		recipientCannotChat: {
+			message: 'That user is not allowed to use chat.',
+			code: 'RECIPIENT_CANNOT_CHAT',
+			id: 'f94e00ca-4cff-4347-bc06-0cd25c3de215',
+		},
+
+		tooManyMembers: {
+			message: 'You cannot add members to the room any more.',
+			code: 'TOO_MANY_MEMBERS',
+			id: 'fcd88e86-6af2-4a26-a74f-4a15af907932',
+		},
+	},
+} as const;
+
+export const paramDef = {
+	type: 'object',
+	properties: {
+		roomId: { type: 'string', format: 'misskey:id' },
+		userId: { type: 'string', format: 'misskey:id' },
+	},
+	required: ['roomId', 'userId'],
+} as const;
+
+@Injectable()
+export default class extends Endpoint<typeof meta, typeof paramDef> { // eslint-disable-line import/no-default-export
+	constructor(
+		private chatService: ChatService,
+		private chatEntityService: ChatEntityService,
+	) {
+		super(meta, paramDef, async (ps, me) => {
+			try {
+				const membership = await this.chatService.addRoomMember(me, ps.roomId, ps.userId);
+
+				return await this.chatEntityService.packRoomMembership(membership, me);
+			} catch (e) {
+				if (e instanceof ChatService.NoSuchRoomError) {
+					throw new ApiError(meta.errors.noSuchRoom);
+				} else if (e instanceof ChatService.NoSuchUserError) {
+					throw new ApiError(meta.errors.noSuchUser);
+				} else if (e instanceof ChatService.AlreadyJoinedError) {
+					throw new ApiError(meta.errors.alreadyJoined);
+				} else if (e instanceof ChatService.BlockedError) {
+					throw new ApiError(meta.errors.blocked);
+				} else if (e instanceof ChatService.RecipientCannotChatError) {
+					throw new ApiError(meta.errors.recipientCannotChat);
+				} else if (e instanceof ChatService.TooManyMembersError) {
+					throw new ApiError(meta.errors.tooManyMembers);
+				} else {
+					throw e;
+				}
+			}
+		});
+	}
+}
@@ -0,0 +1,76 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { Injectable } from '@nestjs/common';
+import ms from 'ms';
+import { Endpoint } from '@/server/api/endpoint-base.js';
+import { ChatService } from '@/core/ChatService.js';
+import { ChatEntityService } from '@/core/entities/ChatEntityService.js';
+import { ApiError } from '../../../error.js';
+
+export const meta = {
+	tags: ['chat'],
+
+	requireCredential: true,
+
+	prohibitMoved: true,
+
+	requireRolePolicy: 'canChat',
+
+	kind: 'write:chat',
+
+	limit: {
+		duration: ms('1hour'),
+		max: 10,
+	},
+
+	res: {
+		type: 'object',
+		optional: false, nullable: false,
+		ref: 'ChatRoom',
+	},
+
+	errors: {
+		tooManyRooms: {
+			message: 'You cannot create room any more.',
+			code: 'TOO_MANY_ROOMS',
+			id: '6011e059-a680-4887-88b0-9c02fdd75283',
+		},
+	},
+} as const;
+
+export const paramDef = {
+	type: 'object',
+	properties: {
+		name: { type: 'string', minLength: 1, maxLength: 256 },
+		description: { type: 'string', maxLength: 2048, default: '' },
+	},
+	required: ['name'],
+} as const;
+
+@Injectable()
+export default class extends Endpoint<typeof meta, typeof paramDef> { // eslint-disable-line import/no-default-export
+	constructor(
+		private chatService: ChatService,
+		private chatEntityService: ChatEntityService,
+	) {
+		super(meta, paramDef, async (ps, me) => {
+			try {
+				const room = await this.chatService.createRoom(me, {
+					name: ps.name,
+					description: ps.description,
+				});
+
+				return await this.chatEntityService.packRoom(room, me);
+			} catch (e) {
+				if (e instanceof ChatService.TooManyRoomsError) {
+					throw new ApiError(meta.errors.tooManyRooms);
+				} else {
+					throw e;
+				}
+			}
+		});
+	}
+}
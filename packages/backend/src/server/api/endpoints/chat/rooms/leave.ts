@@ -0,0 +1,60 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { Injectable } from '@nestjs/common';
+import { Endpoint } from '@/server/api/endpoint-base.js';
+import { ChatService } from '@/core/ChatService.js';
+import { ApiError } from '../../../error.js';
+
+export const meta = {
+	tags: ['chat'],
+
+	requireCredential: true,
+
+	kind: 'write:chat',
+
+	errors: {
+		noSuchRoom: {
+			message: 'No such room.',
+			code: 'NO_SUCH_ROOM',
+			id: 'e2af6709-ad54-4cb0-b8d6-f130573e6575',
+		},
+
+		ownerCannotLeave: {
+			message: 'The owner cannot leave the room. Delete the room instead.',
+			code: 'OWNER_CANNOT_LEAVE',
+			id: '5d8a34b9-6d8a-4541-95e2-aa782edc55ac',
+		},
+	},
+} as const;
+
+export const paramDef = {
+	type: 'object',
+	properties: {
+		roomId: { type: 'string', format: 'misskey:id' },
+	},
+	required: ['roomId'],
+} as const;
+
+@Injectable()
+export default class extends Endpoint<typeof meta, typeof paramDef> { // eslint-disable-line import/no-default-export
+	constructor(
+		private chatService: ChatService,
+	) {
+		super(meta, paramDef, async (ps, me) => {
+			try {
+				await this.chatService.leaveRoom(me, ps.roomId);
+			} catch (e) {
+				if (e instanceof ChatService.NoSuchRoomError) {
+					throw new ApiError(meta.errors.noSuchRoom);
+				} else if (e instanceof ChatService.OwnerCannotLeaveError) {
+					throw new ApiError(meta.errors.ownerCannotLeave);
+				} else {
+					throw e;
+				}
+			}
+		});
+	}
+}
@@ -0,0 +1,71 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { Injectable } from '@nestjs/common';
+import { Endpoint } from '@/server/api/endpoint-base.js';
+import { ChatService } from '@/core/ChatService.js';
+import { ApiError } from '../../../error.js';
+
+export const meta = {
+	tags: ['chat'],
+
+	requireCredential: true,
+
+	requireRolePolicy: 'canChat',
+
+	kind: 'write:chat',
+
+	errors: {
+		noSuchRoom: {
+			message: 'No such room.',
+			code: 'NO_SUCH_ROOM',
+			id: '459dc188-3e87-4d18-aa3e-b27b56bf42af',
+		},
+
+		notAMember: {
+			message: 'That user is not a member of the room.',
+			code: 'NOT_A_MEMBER',
+			id: 'bee52b72-4160-4c21-a3a8-1e858b32e478',
+		},
+
+		cannotRemoveOwner: {
+			message: 'You cannot remove the owner of the room.',
+			code: 'CANNOT_REMOVE_OWNER',
+			id: 'f1e6ce2a-b9c2-4845-9670-d8539545dd43',
+		},
+	},
+} as const;
+
+export const paramDef = {
+	type: 'object',
+	properties: {
+		roomId: { type: 'string', format: 'misskey:id' },
+		userId: { type: 'string', format: 'misskey:id' },
+	},
+	required: ['roomId', 'userId'],
+} as const;
+
+@Injectable()
+export default class extends Endpoint<typeof meta, typeof paramDef> { // eslint-disable-line import/no-default-export
+	constructor(
+		private chatService: ChatService,
+	) {
+		super(meta, paramDef, async (ps, me) => {
+			try {
+				await this.chatService.removeRoomMember(me, ps.roomId, ps.userId);
+			} catch (e) {
+				if (e instanceof ChatService.NoSuchRoomError) {
+					throw new ApiError(meta.errors.noSuchRoom);
+				} else if (e instanceof ChatService.NoSuchUserError) {
+					throw new ApiError(meta.errors.notAMember);
+				} else if (e instanceof ChatService.OwnerCannotLeaveError) {
+					throw new ApiError(meta.errors.cannotRemoveOwner);
+				} else {
+					throw e;
+				}
+			}
+		});
+	}
+}
@@ -0,0 +1,54 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { Inject, Injectable } from '@nestjs/common';
+import { Endpoint } from '@/server/api/endpoint-base.js';
+import { ApiError } from '@/server/api/error.js';
+import type { UserWarningsRepository } from '@/models/_.js';
+import { DI } from '@/di-symbols.js';
+import { UserWarningService } from '@/core/UserWarningService.js';
+
+export const meta = {
+	tags: ['account'],
+
+	requireCredential: true,
+
+	kind: 'write:account',
+
+	errors: {
+		noSuchWarning: {
+			message: 'No such warning.',
+			code: 'NO_SUCH_WARNING',
+			id: '1c25d1a2-4585-41a2-ba5b-0a8d98f2736b',
+		},
+	},
+} as const;
+
+export const paramDef = {
+	type: 'object',
+	properties: {
+		warningId: { type: 'string', format: 'misskey:id' },
+	},
+	required: ['warningId'],
+} as const;
+
+@Injectable()
+export default class extends Endpoint<typeof meta, typeof paramDef> { // eslint-disable-line import/no-default-export
+	constructor(
+		@Inject(DI.userWarningsRepository)
+		private userWarningsRepository: UserWarningsRepository,
+
+		private userWarningService: UserWarningService,
+	) {
+		super(meta, paramDef, async (ps, me) => {
+			const warning = await this.userWarningsRepository.findOneBy({ id: ps.warningId, userId: me.id });
+			if (warning == null) {
+				throw new ApiError(meta.errors.noSuchWarning);
+			}
+
+			await this.userWarningService.acknowledge(warning);
+		});
+	}
+}
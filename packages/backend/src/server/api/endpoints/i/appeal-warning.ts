@@ -0,0 +1,67 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { Inject, Injectable } from '@nestjs/common';
+import { Endpoint } from '@/server/api/endpoint-base.js';
+import { ApiError } from '@/server/api/error.js';
+import type { UserWarningsRepository } from '@/models/_.js';
+import { DI } from '@/di-symbols.js';
+import { UserWarningService } from '@/core/UserWarningService.js';
+
+export const meta = {
+	tags: ['account'],
+
+	requireCredential: true,
+
+	kind: 'write:account',
+
+	description: 'Appeal against a warning. Each warning can be appealed only once.',
+
+	errors: {
+		noSuchWarning: {
+			message: 'No such warning.',
+			code: 'NO_SUCH_WARNING',
+			id: '380943e2-d56e-4235-8919-8802b1c7fe98',
+		},
+
+		cannotAppeal: {
+			message: 'The warning has already been appealed or revoked.',
+			code: 'CANNOT_APPEAL',
+			id: 'a448902f-acb3-40e0-ae50-d34476356491',
+		},
+	},
+} as const;
+
+export const paramDef = {
+	type: 'object',
+	properties: {
+		warningId: { type: 'string', format: 'misskey:id' },
+		comment: { type: 'string', minLength: 1, maxLength: 2048 },
+	},
+	required: ['warningId', 'comment'],
+} as const;
+
+@Injectable()
+export default class extends Endpoint<typeof meta, typeof paramDef> { // eslint-disable-line import/no-default-export
+	constructor(
+		@Inject(DI.userWarningsRepository)
+		private userWarningsRepository: UserWarningsRepository,
+
+		private userWarningService: UserWarningService,
+	) {
+		super(meta, paramDef, async (ps, me) => {
+			const warning = await this.userWarningsRepository.findOneBy({ id: ps.warningId, userId: me.id });
+			if (warning == null) {
+				throw new ApiError(meta.errors.noSuchWarning);
+			}
+
+			if (warning.appealStatus != null || warning.revokedAt != null) {
+				throw new ApiError(meta.errors.cannotAppeal);
+			}
+
+			await this.userWarningService.appeal(warning, ps.comment);
+		});
+	}
+}
@@ -0,0 +1,65 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { Inject, Injectable } from '@nestjs/common';
+import ms from 'ms';
+import { Endpoint } from '@/server/api/endpoint-base.js';
+import { QueueService } from '@/core/QueueService.js';
+import type { DriveFilesRepository } from '@/models/_.js';
+import { DI } from '@/di-symbols.js';
+import { ApiError } from '../../error.js';
+
+export const meta = {
+	secure: true,
+	requireCredential: true,
+	requireRolePolicy: 'canImportNotes',
+	prohibitMoved: true,
+	limit: {
+		duration: ms('1hour'),
+		max: 1,
+	},
+
+	errors: {
+		noSuchFile: {
+			message: 'No such file.',
+			code: 'NO_SUCH_FILE',
+			id: 'bc86a3df-7367-448e-9588-1636a2d6c75f',
+		},
+
+		emptyFile: {
+			message: 'That file is empty.',
+			code: 'EMPTY_FILE',
+			id: 'cf9f1d05-97d6-4ef7-88db-8efba24c3df6',
+		},
+	},
+} as const;
+
+export const paramDef = {
+	type: 'object',
+	properties: {
+		fileId: { type: 'string', format: 'misskey:id' },
+		type: { type: 'string', enum: ['Misskey', 'Mastodon'] },
+	},
+	required: ['fileId', 'type'],
+} as const;
+
+@Injectable()
+export default class extends Endpoint<typeof meta, typeof paramDef> { // eslint-disable-line import/no-default-export
+	constructor(
+		@Inject(DI.driveFilesRepository)
+		private driveFilesRepository: DriveFilesRepository,
+
+		private queueService: QueueService,
+	) {
+		super(meta, paramDef, async (ps, me) => {
+			const file = await this.driveFilesRepository.findOneBy({ id: ps.fileId });
+
+			if (file == null) throw new ApiError(meta.errors.noSuchFile);
+			if (file.size === 0) throw new ApiError(meta.errors.emptyFile);
+
+			this.queueService.createImportNotesJob(me, file.id, ps.type);
+		});
+	}
+}
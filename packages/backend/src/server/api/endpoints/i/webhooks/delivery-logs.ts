@@ -0,0 +1,81 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { Inject, Injectable } from '@nestjs/common';
+import { Endpoint } from '@/server/api/endpoint-base.js';
+import type { WebhookDeliveryLogsRepository, WebhooksRepository } from '@/models/_.js';
+import { QueryService } from '@/core/QueryService.js';
+import { WebhookDeliveryLogEntityService } from '@/core/entities/WebhookDeliveryLogEntityService.js';
+import { DI } from '@/di-symbols.js';
+import { ApiError } from '@/server/api/error.js';
+
+export const meta = {
+	tags: ['webhooks'],
+
+	requireCredential: true,
+	secure: true,
+	kind: 'read:account',
+
+	res: {
+		type: 'array',
+		optional: false, nullable: false,
+		items: {
+			type: 'object',
+			optional: false, nullable: false,
+			ref: 'WebhookDeliveryLog',
+		},
+	},
+
+	errors: {
+		noSuchWebhook: {
+			message: 'No such webhook.',
+			code: 'NO_SUCH_WEBHOOK',
+			id: 'fb187b35-ab57-4489-ab78-31fd163e11e0',
+		},
+	},
+} as const;
+
+export const paramDef = {
+	type: 'object',
+	properties: {
+		webhookId: { type: 'string', format: 'misskey:id' },
+		limit: { type: 'integer', minimum: 1, maximum: 100, default: 10 },
+		sinceId: { type: 'string', format: 'misskey:id' },
+		untilId: { type: 'string', format: 'misskey:id' },
+	},
+	required: ['webhookId'],
+} as const;
+
+@Injectable()
+export default class extends Endpoint<typeof meta, typeof paramDef> { // eslint-disable-line import/no-default-export
+	constructor(
+		@Inject(DI.webhooksRepository)
+		private webhooksRepository: WebhooksRepository,
+
+		@Inject(DI.webhookDeliveryLogsRepository)
+		private webhookDeliveryLogsRepository: WebhookDeliveryLogsRepository,
+
+		private webhookDeliveryLogEntityService: WebhookDeliveryLogEntityService,
+		private queryService: QueryService,
+	) {
+		super(meta, paramDef, async (ps, me) => {
+			const webhook = await this.webhooksRepository.findOneBy({
+				id: ps.webhookId,
+				userId: me.id,
+			});
+
+			if (webhook == null) {
+				throw new ApiError(meta.errors.noSuchWebhook);
+			}
+
+			const logs = await this.queryService.makePaginationQuery(this.webhookDeliveryLogsRepository.createQueryBuilder('log'), ps.sinceId, ps.untilId)
+				.andWhere('log.webhookId = :webhookId', { webhookId: webhook.id })
+				.limit(ps.limit)
+				.getMany();
+
+			return this.webhookDeliveryLogEntityService.packMany(logs);
+		});
+	}
+}
@@ -0,0 +1,83 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { Inject, Injectable } from '@nestjs/common';
+import ms from 'ms';
+import { Endpoint } from '@/server/api/endpoint-base.js';
+import type { WebhookDeliveryLogsRepository, WebhooksRepository } from '@/models/_.js';
+import { UserWebhookService } from '@/core/UserWebhookService.js';
+import { DI } from '@/di-symbols.js';
+import { ApiError } from '@/server/api/error.js';
+
+export const meta = {
+	tags: ['webhooks'],
+
+	requireCredential: true,
+	secure: true,
+	kind: 'write:account',
+
+	limit: {
+		duration: ms('15min'),
+		max: 60,
+	},
+
+	errors: {
+		noSuchWebhook: {
+			message: 'No such webhook.',
+			code: 'NO_SUCH_WEBHOOK',
+			id: '985225e8-eba4-4ace-a3e8-e3e765181a57',
+		},
+
+		noSuchLog: {
+			message: 'No such delivery log.',
+			code: 'NO_SUCH_LOG',
+			id: '7f326990-dfc6-45d5-9d8a-c94e17a5d47c',
+		},
+	},
+} as const;
+
+export const paramDef = {
+	type: 'object',
+	properties: {
+		webhookId: { type: 'string', format: 'misskey:id' },
+		logId: { type: 'string', format: 'misskey:id' },
+	},
+	required: ['webhookId', 'logId'],
+} as const;
+
+@Injectable()
+export default class extends Endpoint<typeof meta, typeof paramDef> { // eslint-disable-line import/no-default-export
+	constructor(
+		@Inject(DI.webhooksRepository)
+		private webhooksRepository: WebhooksRepository,
+
+		@Inject(DI.webhookDeliveryLogsRepository)
+		private webhookDeliveryLogsRepository: WebhookDeliveryLogsRepository,
+
+		private userWebhookService: UserWebhookService,
+	) {
+		super(meta, paramDef, async (ps, me) => {
+			const webhook = await this.webhooksRepository.findOneBy({
+				id: ps.webhookId,
+				userId: me.id,
+			});
+
+			if (webhook == null) {
+				throw new ApiError(meta.errors.noSuchWebhook);
+			}
+
+			const log = await this.webhookDeliveryLogsRepository.findOneBy({
+				id: ps.logId,
+				webhookId: webhook.id,
+			});
+
+			if (log == null) {
+				throw new ApiError(meta.errors.noSuchLog);
+			}
+
+			await this.userWebhookService.redeliver(webhook, log);
+		});
+	}
+}
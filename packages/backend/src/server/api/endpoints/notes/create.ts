@@ -12,9 +12,11 @@ import type { MiDriveFile } from '@/models/DriveFile.js';
 import type { MiNote } from '@/models/Note.js';
 import type { MiChannel } from '@/models/Channel.js';
 import { MAX_NOTE_TEXT_LENGTH } from '@/const.js';
+import { noteQuotePolicies } from '@/types.js';
 import { Endpoint } from '@/server/api/endpoint-base.js';
 import { NoteEntityService } from '@/core/entities/NoteEntityService.js';
 import { NoteCreateService } from '@/core/NoteCreateService.js';
+import { NoteQuoteService } from '@/core/NoteQuoteService.js';
 import { DI } from '@/di-symbols.js';
 import { isQuote, isRenote } from '@/misc/is-renote.js';
 import { IdentifiableError } from '@/misc/identifiable-error.js';
@@ -130,6 +132,12 @@ export const meta = {
 			code: 'CONTAINS_TOO_MANY_MENTIONS',
 			id: '4de0363a-3046-481b-9b0f-feff3e211025',
 		},
+
+		cannotQuoteDueToQuotePolicy: {
+			message: 'You can not quote this note due to its quote policy.',
+			code: 'CANNOT_QUOTE_DUE_TO_QUOTE_POLICY',
+			id: 'f3c56eb4-61b5-4d0e-9a5e-21a4f6a0c9f7',
+		},
 	},
 } as const;
 
@@ -143,6 +151,7 @@ export const paramDef = {
 		cw: { type: 'string', nullable: true, minLength: 1, maxLength: 100 },
 		localOnly: { type: 'boolean', default: false },
 		reactionAcceptance: { type: 'string', nullable: true, enum: [null, 'likeOnly', 'likeOnlyForRemote', 'nonSensitiveOnly', 'nonSensitiveOnlyForLocalLikeOnlyForRemote'], default: null },
+		quotePolicy: { type: 'string', enum: noteQuotePolicies, default: 'public' },
 		noExtractMentions: { type: 'boolean', default: false },
 		noExtractHashtags: { type: 'boolean', default: false },
 		noExtractEmojis: { type: 'boolean', default: false },
@@ -240,6 +249,7 @@ export default class extends Endpoint<typeof meta, typeof paramDef> { // eslint-
 
 		private noteEntityService: NoteEntityService,
 		private noteCreateService: NoteCreateService,
+		private noteQuoteService: NoteQuoteService,
 	) {
 		super(meta, paramDef, async (ps, me) => {
 			let visibleUsers: MiUser[] = [];
@@ -310,6 +320,13 @@ export default class extends Endpoint<typeof meta, typeof paramDef> { // eslint-
 						throw new ApiError(meta.errors.cannotRenoteOutsideOfChannel);
 					}
 				}
+
+				// 引用の場合は引用元の引用ポリシーを確認
+				// NOTE: SYNC WITH misc/is-renote.ts isQuote
+				const isQuoting = ps.text != null || ps.cw != null || ps.replyId != null || ps.poll != null || files.length > 0;
+				if (isQuoting && !await this.noteQuoteService.canQuote(renote, me)) {
+					throw new ApiError(meta.errors.cannotQuoteDueToQuotePolicy);
+				}
 			}
 
 			let reply: MiNote | null = null;
@@ -376,6 +393,7 @@ export default class extends Endpoint<typeof meta, typeof paramDef> { // eslint-
 					cw: ps.cw,
 					localOnly: ps.localOnly,
 					reactionAcceptance: ps.reactionAcceptance,
+					quotePolicy: ps.quotePolicy,
 					visibility: ps.visibility,
 					visibleUsers,
 					channel,
@@ -0,0 +1,230 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import ms from 'ms';
+import { Injectable } from '@nestjs/common';
+import { MAX_NOTE_TEXT_LENGTH } from '@/const.js';
+import { noteQuotePolicies } from '@/types.js';
+import { Endpoint } from '@/server/api/endpoint-base.js';
+import { NoteDraftService } from '@/core/NoteDraftService.js';
+import { NoteDraftEntityService } from '@/core/entities/NoteDraftEntityService.js';
+import { IdentifiableError } from '@/misc/identifiable-error.js';
+import { ApiError } from '../../../error.js';
+
+export const meta = {
+	tags: ['notes'],
+
+	requireCredential: true,
+
+	prohibitMoved: true,
+
+	limit: {
+		duration: ms('1hour'),
+		max: 300,
+	},
+
+	kind: 'write:notes',
+
+	res: {
+		type: 'object',
+		optional: false, nullable: false,
+		ref: 'NoteDraft',
+	},
+
+	errors: {
+		noSuchRenoteTarget: {
+			message: 'No such renote target.',
+			code: 'NO_SUCH_RENOTE_TARGET',
+			id: '949ee989-261f-4255-9d7c-19753959f8d7',
+		},
+
+		cannotReRenote: {
+			message: 'You can not Renote a pure Renote.',
+			code: 'CANNOT_RENOTE_TO_A_PURE_RENOTE',
+			id: 'dd1f54ae-cd3a-4067-ab20-0b90ebb79154',
+		},
+
+		cannotRenoteDueToVisibility: {
+			message: 'You can not Renote due to target visibility.',
+			code: 'CANNOT_RENOTE_DUE_TO_VISIBILITY',
+			id: 'cc914e42-130c-4224-a1d2-013de7c4b667',
+		},
+
+		noSuchReplyTarget: {
+			message: 'No such reply target.',
+			code: 'NO_SUCH_REPLY_TARGET',
+			id: '60d31be3-d8b2-4844-be42-eecf98bcadde',
+		},
+
+		cannotReplyToInvisibleNote: {
+			message: 'You cannot reply to an invisible Note.',
+			code: 'CANNOT_REPLY_TO_AN_INVISIBLE_NOTE',
+			id: '7ad3d89d-4b6b-47c5-a254-81612c9e1d78',
+		},
+
+		cannotReplyToPureRenote: {
+			message: 'You can not reply to a pure Renote.',
+			code: 'CANNOT_REPLY_TO_A_PURE_RENOTE',
+			id: '57995690-c113-4ea8-8635-3cec86b5a192',
+		},
+
+		cannotReplyToSpecifiedVisibilityNoteWithExtendedVisibility: {
+			message: 'You cannot reply to a specified visibility note with extended visibility.',
+			code: 'CANNOT_REPLY_TO_SPECIFIED_VISIBILITY_NOTE_WITH_EXTENDED_VISIBILITY',
+			id: 'a3d436f1-856d-4857-ae2a-f5aefecb19a6',
+		},
+
+		cannotCreateAlreadyExpiredPoll: {
+			message: 'Poll is already expired.',
+			code: 'CANNOT_CREATE_ALREADY_EXPIRED_POLL',
+			id: '8eaf54f0-7b50-4a14-be55-34d52ceb19db',
+		},
+
+		noSuchChannel: {
+			message: 'No such channel.',
+			code: 'NO_SUCH_CHANNEL',
+			id: '96783c5c-669d-4b3f-9e6a-16f67a877e24',
+		},
+
+		youHaveBeenBlocked: {
+			message: 'You have been blocked by this user.',
+			code: 'YOU_HAVE_BEEN_BLOCKED',
+			id: 'ab472345-4c0c-4c56-9760-08eccb92b1b0',
+		},
+
+		noSuchFile: {
+			message: 'Some files are not found.',
+			code: 'NO_SUCH_FILE',
+			id: '0d3a2633-5961-45b5-b8f9-1e42f1c602f8',
+		},
+
+		cannotRenoteOutsideOfChannel: {
+			message: 'Cannot renote outside of channel.',
+			code: 'CANNOT_RENOTE_OUTSIDE_OF_CHANNEL',
+			id: '80cb79f9-f00c-4d65-a849-651dde98e451',
+		},
+
+		tooManyDrafts: {
+			message: 'You can not create any more drafts.',
+			code: 'TOO_MANY_DRAFTS',
+			id: 'b80939c1-56e2-473d-94cf-99326358c4ef',
+		},
+	},
+} as const;
+
+export const paramDef = {
+	type: 'object',
+	properties: {
+		visibility: { type: 'string', enum: ['public', 'home', 'followers', 'specified'], default: 'public' },
+		visibleUserIds: { type: 'array', uniqueItems: true, items: {
+			type: 'string', format: 'misskey:id',
+		} },
+		cw: { type: 'string', nullable: true, minLength: 1, maxLength: 100 },
+		localOnly: { type: 'boolean', default: false },
+		reactionAcceptance: { type: 'string', nullable: true, enum: [null, 'likeOnly', 'likeOnlyForRemote', 'nonSensitiveOnly', 'nonSensitiveOnlyForLocalLikeOnlyForRemote'], default: null },
+		quotePolicy: { type: 'string', enum: noteQuotePolicies, default: 'public' },
+		replyId: { type: 'string', format: 'misskey:id', nullable: true },
+		renoteId: { type: 'string', format: 'misskey:id', nullable: true },
+		channelId: { type: 'string', format: 'misskey:id', nullable: true },
+		text: {
+			type: 'string',
+			minLength: 1,
+			maxLength: MAX_NOTE_TEXT_LENGTH,
+			nullable: true,
+		},
+		fileIds: {
+			type: 'array',
+			uniqueItems: true,
+			minItems: 1,
+			maxItems: 16,
+			items: { type: 'string', format: 'misskey:id' },
+		},
+		poll: {
+			type: 'object',
+			nullable: true,
+			properties: {
+				choices: {
+					type: 'array',
+					uniqueItems: true,
+					minItems: 2,
+					maxItems: 10,
+					items: { type: 'string', minLength: 1, maxLength: 50 },
+				},
+				multiple: { type: 'boolean' },
+				expiresAt: { type: 'integer', nullable: true },
+				expiredAfter: { type: 'integer', nullable: true, minimum: 1 },
+			},
+			required: ['choices'],
+		},
+	},
+	required: [],
+} as const;
+
+@Injectable()
+export default class extends Endpoint<typeof meta, typeof paramDef> { // eslint-disable-line import/no-default-export
+	constructor(
+		private noteDraftService: NoteDraftService,
+		private noteDraftEntityService: NoteDraftEntityService,
+	) {
+		super(meta, paramDef, async (ps, me) => {
+			try {
+				const draft = await this.noteDraftService.create(me, {
+					text: ps.text ?? null,
+					cw: ps.cw ?? null,
+					fileIds: ps.fileIds ?? [],
+					poll: ps.poll ? {
+						choices: ps.poll.choices,
+						multiple: ps.poll.multiple ?? false,
+						expiresAt: ps.poll.expiresAt ? new Date(ps.poll.expiresAt).toISOString() : null,
+						expiredAfter: ps.poll.expiredAfter ?? null,
+					} : null,
+					visibility: ps.visibility,
+					visibleUserIds: ps.visibleUserIds ?? [],
+					localOnly: ps.localOnly,
+					reactionAcceptance: ps.reactionAcceptance,
+					quotePolicy: ps.quotePolicy,
+					replyId: ps.replyId ?? null,
+					renoteId: ps.renoteId ?? null,
+					channelId: ps.channelId ?? null,
+					scheduledAt: null,
+				});
+
+				return await this.noteDraftEntityService.pack(draft, me);
+			} catch (err) {
+				if (err instanceof IdentifiableError) {
+					switch (err.id) {
+						case '83fdd92c-371a-4291-9624-fa5d8b1a8e0b':
+							throw new ApiError(meta.errors.noSuchRenoteTarget);
+						case 'c5a33af0-1906-47b0-81f7-770ff091d6fb':
+							throw new ApiError(meta.errors.cannotReRenote);
+						case 'c02483eb-d9c9-4527-b538-ee510caecec0':
+							throw new ApiError(meta.errors.cannotRenoteDueToVisibility);
+						case '532c53c8-ccc9-4bc7-bb37-5b597d2e0677':
+							throw new ApiError(meta.errors.noSuchReplyTarget);
+						case '4c473193-0ed1-4600-bec7-583b56ef9522':
+							throw new ApiError(meta.errors.cannotReplyToInvisibleNote);
+						case '42d6337f-8a26-4963-8f73-b8a35a822858':
+							throw new ApiError(meta.errors.cannotReplyToPureRenote);
+						case '87a231d0-2ea4-46f0-abc7-14c08bfcf4c9':
+							throw new ApiError(meta.errors.cannotReplyToSpecifiedVisibilityNoteWithExtendedVisibility);
+						case 'fced1452-5189-4227-ad59-1a77e8569ba1':
+							throw new ApiError(meta.errors.cannotCreateAlreadyExpiredPoll);
+						case '272e27b7-611a-4f51-a28f-b1a3b2333156':
+							throw new ApiError(meta.errors.noSuchChannel);
+						case '0160d4ea-d2b6-4cef-94b1-b1fa945ccec2':
+							throw new ApiError(meta.errors.youHaveBeenBlocked);
+						case '521bb244-086b-4545-9909-04830afbd000':
+							throw new ApiError(meta.errors.noSuchFile);
+						case '68eda691-d32d-4299-a930-87fe191f503d':
+							throw new ApiError(meta.errors.cannotRenoteOutsideOfChannel);
+						case '34d5cd13-5e6a-487f-b1d0-60cb0f23b03a':
+							throw new ApiError(meta.errors.tooManyDrafts);
+					}
+				}
+				throw err;
+			}
+		});
+	}
+}
@@ -0,0 +1,66 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { IsNull } from 'typeorm';
+import { Inject, Injectable } from '@nestjs/common';
+import type { NoteDraftsRepository } from '@/models/_.js';
+import { Endpoint } from '@/server/api/endpoint-base.js';
+import { NoteDraftEntityService } from '@/core/entities/NoteDraftEntityService.js';
+import { DI } from '@/di-symbols.js';
+import { ApiError } from '../../../error.js';
+
+export const meta = {
+	tags: ['notes'],
+
+	requireCredential: true,
+
+	kind: 'read:account',
+
+	res: {
+		type: 'object',
+		optional: false, nullable: false,
+		ref: 'NoteDraft',
+	},
+
+	errors: {
+		noSuchDraft: {
+			message: 'No such draft.',
+			code: 'NO_SUCH_DRAFT',
+			id: '78b59c7e-1e8c-4890-a8a9-8da055bd6b78',
+		},
+	},
+} as const;
+
+export const paramDef = {
+	type: 'object',
+	properties: {
+		noteDraftId: { type: 'string', format: 'misskey:id' },
+	},
+	required: ['noteDraftId'],
+} as const;
+
+@Injectable()
+export default class extends Endpoint<typeof meta, typeof paramDef> { // eslint-disable-line import/no-default-export
+	constructor(
+		@Inject(DI.noteDraftsRepository)
+		private noteDraftsRepository: NoteDraftsRepository,
+
+		private noteDraftEntityService: NoteDraftEntityService,
+	) {
+		super(meta, paramDef, async (ps, me) => {
+			const draft = await this.noteDraftsRepository.findOneBy({
+				id: ps.noteDraftId,
+				userId: me.id,
+				scheduledAt: IsNull(),
+			});
+
+			if (draft == null) {
+				throw new ApiError(meta.errors.noSuchDraft);
+			}
+
+			return await this.noteDraftEntityService.pack(draft, me);
+		});
+	}
+}
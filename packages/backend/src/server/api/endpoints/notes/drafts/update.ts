@@ -0,0 +1,245 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import ms from 'ms';
+import { IsNull } from 'typeorm';
+import { Inject, Injectable } from '@nestjs/common';
+import type { NoteDraftsRepository } from '@/models/_.js';
+import { MAX_NOTE_TEXT_LENGTH } from '@/const.js';
+import { noteQuotePolicies } from '@/types.js';
+import { Endpoint } from '@/server/api/endpoint-base.js';
+import { NoteDraftService } from '@/core/NoteDraftService.js';
+import { NoteDraftEntityService } from '@/core/entities/NoteDraftEntityService.js';
+import { IdentifiableError } from '@/misc/identifiable-error.js';
+import { DI } from '@/di-symbols.js';
+import { ApiError } from '../../../error.js';
+
+export const meta = {
+	tags: ['notes'],
+
+	requireCredential: true,
+
+	prohibitMoved: true,
+
+	limit: {
+		duration: ms('1hour'),
+		max: 300,
+	},
+
+	kind: 'write:notes',
+
+	res: {
+		type: 'object',
+		optional: false, nullable: false,
+		ref: 'NoteDraft',
+	},
+
+	errors: {
+		noSuchDraft: {
+			message: 'No such draft.',
+			code: 'NO_SUCH_DRAFT',
+			id: '937406d0-b193-4e8c-800b-389ff41f98e5',
+		},
+
+		noSuchRenoteTarget: {
+			message: 'No such renote target.',
+			code: 'NO_SUCH_RENOTE_TARGET',
+			id: 'c605a849-c24e-43b5-aa60-596b55bc9ce7',
+		},
+
+		cannotReRenote: {
+			message: 'You can not Renote a pure Renote.',
+			code: 'CANNOT_RENOTE_TO_A_PURE_RENOTE',
+			id: '48c71d17-4c39-48d7-bc23-68107b5e25a5',
+		},
+
+		cannotRenoteDueToVisibility: {
+			message: 'You can not Renote due to target visibility.',
+			code: 'CANNOT_RENOTE_DUE_TO_VISIBILITY',
+			id: '12e322b6-1bec-4e3f-b7d2-3025fd8fdf13',
+		},
+
+		noSuchReplyTarget: {
+			message: 'No such reply target.',
+			code: 'NO_SUCH_REPLY_TARGET',
+			id: '96145970-580e-476f-80eb-d2a111b60503',
+		},
+
+		cannotReplyToInvisibleNote: {
+			message: 'You cannot reply to an invisible Note.',
+			code: 'CANNOT_REPLY_TO_AN_INVISIBLE_NOTE',
+			id: '5ec816cf-4432-40e7-8e46-b91f4c64cc08',
+		},
+
+		cannotReplyToPureRenote: {
+			message: 'You can not reply to a pure Renote.',
+			code: 'CANNOT_REPLY_TO_A_PURE_RENOTE',
+			id: '108515ed-9a5b-47a8-9cde-c3c7b06c960f',
+		},
+
+		cannotReplyToSpecifiedVisibilityNoteWithExtendedVisibility: {
+			message: 'You cannot reply to a specified visibility note with extended visibility.',
+			code: 'CANNOT_REPLY_TO_SPECIFIED_VISIBILITY_NOTE_WITH_EXTENDED_VISIBILITY',
+			id: 'ff6888db-6814-47a7-815f-ee505ff7f60f',
+		},
+
+		cannotCreateAlreadyExpiredPoll: {
+			message: 'Poll is already expired.',
+			code: 'CANNOT_CREATE_ALREADY_EXPIRED_POLL',
+			id: '0c4bb04c-aaae-44da-a9b0-5eb2fc61c7e5',
+		},
+
+		noSuchChannel: {
+			message: 'No such channel.',
+			code: 'NO_SUCH_CHANNEL',
+			id: 'e4479ed4-5fcc-4fc1-8b17-dab7e37b0165',
+		},
+
+		youHaveBeenBlocked: {
+			message: 'You have been blocked by this user.',
+			code: 'YOU_HAVE_BEEN_BLOCKED',
+			id: 'b16af524-12c5-4623-9b51-3c6cee2d76f0',
+		},
+
+		noSuchFile: {
+			message: 'Some files are not found.',
+			code: 'NO_SUCH_FILE',
+			id: '95e549f3-d32b-4d53-a35c-bbd149e91d01',
+		},
+
+		cannotRenoteOutsideOfChannel: {
+			message: 'Cannot renote outside of channel.',
+			code: 'CANNOT_RENOTE_OUTSIDE_OF_CHANNEL',
+			id: 'ac7dfe40-5495-4dfb-83a1-41c2406a44e2',
+		},
+	},
+} as const;
+
+export const paramDef = {
+	type: 'object',
+	properties: {
+		noteDraftId: { type: 'string', format: 'misskey:id' },
+		visibility: { type: 'string', enum: ['public', 'home', 'followers', 'specified'], default: 'public' },
+		visibleUserIds: { type: 'array', uniqueItems: true, items: {
+			type: 'string', format: 'misskey:id',
+		} },
+		cw: { type: 'string', nullable: true, minLength: 1, maxLength: 100 },
+		localOnly: { type: 'boolean', default: false },
+		reactionAcceptance: { type: 'string', nullable: true, enum: [null, 'likeOnly', 'likeOnlyForRemote', 'nonSensitiveOnly', 'nonSensitiveOnlyForLocalLikeOnlyForRemote'], default: null },
+		quotePolicy: { type: 'string', enum: noteQuotePolicies, default: 'public' },
+		replyId: { type: 'string', format: 'misskey:id', nullable: true },
+		renoteId: { type: 'string', format: 'misskey:id', nullable: true },
+		channelId: { type: 'string', format: 'misskey:id', nullable: true },
+		text: {
+			type: 'string',
+			minLength: 1,
+			maxLength: MAX_NOTE_TEXT_LENGTH,
+			nullable: true,
+		},
+		fileIds: {
+			type: 'array',
+			uniqueItems: true,
+			minItems: 1,
+			maxItems: 16,
+			items: { type: 'string', format: 'misskey:id' },
+		},
+		poll: {
+			type: 'object',
+			nullable: true,
+			properties: {
+				choices: {
+					type: 'array',
+					uniqueItems: true,
+					minItems: 2,
+					maxItems: 10,
+					items: { type: 'string', minLength: 1, maxLength: 50 },
+				},
+				multiple: { type: 'boolean' },
+				expiresAt: { type: 'integer', nullable: true },
+				expiredAfter: { type: 'integer', nullable: true, minimum: 1 },
+			},
+			required: ['choices'],
+		},
+	},
+	required: ['noteDraftId'],
+} as const;
+
+@Injectable()
+export default class extends Endpoint<typeof meta, typeof paramDef> { // eslint-disable-line import/no-default-export
+	constructor(
+		@Inject(DI.noteDraftsRepository)
+		private noteDraftsRepository: NoteDraftsRepository,
+
+		private noteDraftService: NoteDraftService,
+		private noteDraftEntityService: NoteDraftEntityService,
+	) {
+		super(meta, paramDef, async (ps, me) => {
+			const draft = await this.noteDraftsRepository.findOneBy({
+				id: ps.noteDraftId,
+				userId: me.id,
+				scheduledAt: IsNull(),
+			});
+
+			if (draft == null) {
+				throw new ApiError(meta.errors.noSuchDraft);
+			}
+
+			try {
+				const updated = await this.noteDraftService.update(me, draft, {
+					text: ps.text ?? null,
+					cw: ps.cw ?? null,
+					fileIds: ps.fileIds ?? [],
+					poll: ps.poll ? {
+						choices: ps.poll.choices,
+						multiple: ps.poll.multiple ?? false,
+						expiresAt: ps.poll.expiresAt ? new Date(ps.poll.expiresAt).toISOString() : null,
+						expiredAfter: ps.poll.expiredAfter ?? null,
+					} : null,
+					visibility: ps.visibility,
+					visibleUserIds: ps.visibleUserIds ?? [],
+					localOnly: ps.localOnly,
+					reactionAcceptance: ps.reactionAcceptance,
+					quotePolicy: ps.quotePolicy,
+					replyId: ps.replyId ?? null,
+					renoteId: ps.renoteId ?? null,
+					channelId: ps.channelId ?? null,
+					scheduledAt: null,
+				});
+
+				return await this.noteDraftEntityService.pack(updated, me);
+			} catch (err) {
+				if (err instanceof IdentifiableError) {
+					switch (err.id) {
+						case '83fdd92c-371a-4291-9624-fa5d8b1a8e0b':
+							throw new ApiError(meta.errors.noSuchRenoteTarget);
+						case 'c5a33af0-1906-47b0-81f7-770ff091d6fb':
+							throw new ApiError(meta.errors.cannotReRenote);
+						case 'c02483eb-d9c9-4527-b538-ee510caecec0':
+							throw new ApiError(meta.errors.cannotRenoteDueToVisibility);
+						case '532c53c8-ccc9-4bc7-bb37-5b597d2e0677':
+							throw new ApiError(meta.errors.noSuchReplyTarget);
+						case '4c473193-0ed1-4600-bec7-583b56ef9522':
+							throw new ApiError(meta.errors.cannotReplyToInvisibleNote);
+						case '42d6337f-8a26-4963-8f73-b8a35a822858':
+							throw new ApiError(meta.errors.cannotReplyToPureRenote);
+						case '87a231d0-2ea4-46f0-abc7-14c08bfcf4c9':
+							throw new ApiError(meta.errors.cannotReplyToSpecifiedVisibilityNoteWithExtendedVisibility);
+						case 'fced1452-5189-4227-ad59-1a77e8569ba1':
+							throw new ApiError(meta.errors.cannotCreateAlreadyExpiredPoll);
+						case '272e27b7-611a-4f51-a28f-b1a3b2333156':
+							throw new ApiError(meta.errors.noSuchChannel);
+						case '0160d4ea-d2b6-4cef-94b1-b1fa945ccec2':
+							throw new ApiError(meta.errors.youHaveBeenBlocked);
+						case '521bb244-086b-4545-9909-04830afbd000':
+							throw new ApiError(meta.errors.noSuchFile);
+						case '68eda691-d32d-4299-a930-87fe191f503d':
+							throw new ApiError(meta.errors.cannotRenoteOutsideOfChannel);
+					}
+				}
+				throw err;
+			}
+		});
+	}
+}
@@ -0,0 +1,77 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { Injectable } from '@nestjs/common';
+import ms from 'ms';
+import { Endpoint } from '@/server/api/endpoint-base.js';
+import { NoteEntityService } from '@/core/entities/NoteEntityService.js';
+import { ApBackfillService } from '@/core/activitypub/ApBackfillService.js';
+import { GetterService } from '@/server/api/GetterService.js';
+import { ApiError } from '../../error.js';
+
+export const meta = {
+	tags: ['notes', 'federation'],
+
+	requireCredential: true,
+	kind: 'read:account',
+
+	description: 'Queue a job that fetches replies to a remote note from its origin server and imports the ones this server does not have yet. Only replies on the same server as the note are imported. Returns whether a job was queued; it is not queued again within 10 minutes for the same note.',
+
+	limit: {
+		duration: ms('1minute'),
+		max: 10,
+	},
+
+	res: {
+		type: 'object',
+		optional: false, nullable: false,
+		properties: {
+			queued: {
+				type: 'boolean',
+				optional: false, nullable: false,
+			},
+		},
+	},
+
+	errors: {
+		noSuchNote: {
+			message: 'No such note.',
+			code: 'NO_SUCH_NOTE',
+			id: '829c18eb-98d0-4cbc-af66-1556df1f316b',
+		},
+	},
+} as const;
+
+export const paramDef = {
+	type: 'object',
+	properties: {
+		noteId: { type: 'string', format: 'misskey:id' },
+	},
+	required: ['noteId'],
+} as const;
+
+@Injectable()
+export default class extends Endpoint<typeof meta, typeof paramDef> { // eslint-disable-line import/no-default-export
+	constructor(
+		private noteEntityService: NoteEntityService,
+		private getterService: GetterService,
+		private apBackfillService: ApBackfillService,
+	) {
+		super(meta, paramDef, async (ps, me) => {
+			const note = await this.getterService.getNote(ps.noteId).catch(err => {
+				if (err.id === '9725d0ce-ba28-4dde-95a7-2cbb2c15de24') throw new ApiError(meta.errors.noSuchNote);
+				throw err;
+			});
+
+			if (!(await this.noteEntityService.isVisibleForMe(note, me.id))) {
+				throw new ApiError(meta.errors.noSuchNote);
+			}
+
+			const queued = await this.apBackfillService.scheduleRepliesBackfill(note);
+
+			return { queued };
+		});
+	}
+}
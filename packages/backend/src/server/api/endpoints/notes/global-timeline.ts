@@ -78,6 +78,17 @@ export default class extends Endpoint<typeof meta, typeof paramDef> { // eslint-
 				.leftJoinAndSelect('reply.user', 'replyUser')
 				.leftJoinAndSelect('renote.user', 'renoteUser');
 
+			// 連合ポリシーでグローバルタイムラインに表示しないことになっているサーバー(とそのサブドメイン)のノートは除外
+			query.andWhere(new Brackets(qb => {
+				qb
+					.where('note.userHost IS NULL')
+					.orWhere('NOT EXISTS (SELECT 1 FROM "instance" WHERE (note.userHost = "instance"."host" OR note.userHost LIKE \'%.\' || "instance"."host") AND \'hideFromGlobalTimeline\' = ANY("instance"."policies"))');
+			}));
+
+			// モデレーターによって非表示にされたり、公開タイムラインから除外されたノートは除外
+			query.andWhere('note.isHiddenByModerator = FALSE');
+			query.andWhere('note.isExcludedFromPublicTimelines = FALSE');
+
 			if (me) {
 				this.queryService.generateMutedUserQuery(query, me);
 				this.queryService.generateBlockedUserQuery(query, me);
@@ -163,6 +163,9 @@ export default class extends Endpoint<typeof meta, typeof paramDef> { // eslint-
 						if (!Object.hasOwn(followings, note.reply.userId) && note.reply.userId !== me.id) return false;
 					}
 
+					// モデレーターによって公開タイムラインから除外されたノートは、フォローしているユーザーのものだけ含める
+					if (note.isExcludedFromPublicTimelines && !Object.hasOwn(followings, note.userId)) return false;
+
 					return true;
 				},
 				dbFallback: async (untilId, sinceId, limit) => await this.getFromDb({
@@ -207,10 +210,10 @@ export default class extends Endpoint<typeof meta, typeof paramDef> { // eslint-
 				if (followees.length > 0) {
 					const meOrFolloweeIds = [me.id, ...followees.map(f => f.followeeId)];
 					qb.where('note.userId IN (:...meOrFolloweeIds)', { meOrFolloweeIds: meOrFolloweeIds });
-					qb.orWhere('(note.visibility = \'public\') AND (note.userHost IS NULL)');
+					qb.orWhere('(note.visibility = \'public\') AND (note.userHost IS NULL) AND (note.isExcludedFromPublicTimelines = FALSE)');
 				} else {
 					qb.where('note.userId = :meId', { meId: me.id });
-					qb.orWhere('(note.visibility = \'public\') AND (note.userHost IS NULL)');
+					qb.orWhere('(note.visibility = \'public\') AND (note.userHost IS NULL) AND (note.isExcludedFromPublicTimelines = FALSE)');
 				}
 			}))
 			.innerJoinAndSelect('note.user', 'user')
@@ -0,0 +1,272 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import ms from 'ms';
+import { Injectable } from '@nestjs/common';
+import { MAX_NOTE_TEXT_LENGTH } from '@/const.js';
+import { noteQuotePolicies } from '@/types.js';
+import { Endpoint } from '@/server/api/endpoint-base.js';
+import { NoteDraftService } from '@/core/NoteDraftService.js';
+import { NoteDraftEntityService } from '@/core/entities/NoteDraftEntityService.js';
+import { IdentifiableError } from '@/misc/identifiable-error.js';
+import { ApiError } from '../../../error.js';
+
+export const meta = {
+	tags: ['notes'],
+
+	requireCredential: true,
+
+	prohibitMoved: true,
+
+	limit: {
+		duration: ms('1hour'),
+		max: 300,
+	},
+
+	kind: 'write:notes',
+
+	res: {
+		type: 'object',
+		optional: false, nullable: false,
+		ref: 'NoteDraft',
+	},
+
+	errors: {
+		noSuchRenoteTarget: {
+			message: 'No such renote target.',
+			code: 'NO_SUCH_RENOTE_TARGET',
+			id: 'a225cb71-4f48-4d74-81aa-959cba0daff8',
+		},
+
+		cannotReRenote: {
+			message: 'You can not Renote a pure Renote.',
+			code: 'CANNOT_RENOTE_TO_A_PURE_RENOTE',
+			id: '0b5113f5-6531-471e-9888-57807ad467b3',
+		},
+
+		cannotRenoteDueToVisibility: {
+			message: 'You can not Renote due to target visibility.',
+			code: 'CANNOT_RENOTE_DUE_TO_VISIBILITY',
+			id: '6b53cf62-e567-485b-8cce-c77ecaca4143',
+		},
+
+		noSuchReplyTarget: {
+			message: 'No such reply target.',
+			code: 'NO_SUCH_REPLY_TARGET',
+			id: '3f336c8a-68eb-4a84-bbc7-3097e6a568d2',
+		},
+
+		cannotReplyToInvisibleNote: {
+			message: 'You cannot reply to an invisible Note.',
+			code: 'CANNOT_REPLY_TO_AN_INVISIBLE_NOTE',
+			id: 'e0249ae4-4e12-4883-b11e-9f6c867e891e',
+		},
+
+		cannotReplyToPureRenote: {
+			message: 'You can not reply to a pure Renote.',
+			code: 'CANNOT_REPLY_TO_A_PURE_RENOTE',
+			id: '677165ec-2d63-4f74-94f1-d17d3ef696b2',
+		},
+
+		cannotReplyToSpecifiedVisibilityNoteWithExtendedVisibility: {
+			message: 'You cannot reply to a specified visibility note with extended visibility.',
+			code: 'CANNOT_REPLY_TO_SPECIFIED_VISIBILITY_NOTE_WITH_EXTENDED_VISIBILITY',
+			id: '2841b8e7-7d6a-4624-afaf-d1a3c3285611',
+		},
+
+		cannotCreateAlreadyExpiredPoll: {
+			message: 'Poll is already expired.',
+			code: 'CANNOT_CREATE_ALREADY_EXPIRED_POLL',
+			id: 'a6fb28dc-5d93-40a5-8418-82ea205ba851',
+		},
+
+		noSuchChannel: {
+			message: 'No such channel.',
+			code: 'NO_SUCH_CHANNEL',
+			id: '29f33431-85bb-4595-b4d9-fc3aa1ce9559',
+		},
+
+		youHaveBeenBlocked: {
+			message: 'You have been blocked by this user.',
+			code: 'YOU_HAVE_BEEN_BLOCKED',
+			id: '59c1f76b-a532-42eb-8c48-799c244cbed0',
+		},
+
+		noSuchFile: {
+			message: 'Some files are not found.',
+			code: 'NO_SUCH_FILE',
+			id: 'b64cb014-d3b5-4622-811d-b14aeddf9943',
+		},
+
+		cannotRenoteOutsideOfChannel: {
+			message: 'Cannot renote outside of channel.',
+			code: 'CANNOT_RENOTE_OUTSIDE_OF_CHANNEL',
+			id: '74b582ba-a1a7-4dbf-bb3b-c7370149a5a2',
+		},
+
+		containsProhibitedWords: {
+			message: 'Cannot post because it contains prohibited words.',
+			code: 'CONTAINS_PROHIBITED_WORDS',
+			id: 'b69d2cd9-6b9e-4772-bcd8-834004426846',
+		},
+
+		scheduledAtMustBeInFuture: {
+			message: 'scheduledAt must be in the future.',
+			code: 'SCHEDULED_AT_MUST_BE_IN_FUTURE',
+			id: 'aa386320-4078-442d-bff2-bd6c9242c74b',
+		},
+
+		tooManyScheduledNotes: {
+			message: 'You can not schedule any more notes.',
+			code: 'TOO_MANY_SCHEDULED_NOTES',
+			id: '062e6e5c-88ee-41a2-8cd2-507f5ad3f578',
+		},
+	},
+} as const;
+
+export const paramDef = {
+	type: 'object',
+	properties: {
+		scheduledAt: { type: 'integer' },
+		visibility: { type: 'string', enum: ['public', 'home', 'followers', 'specified'], default: 'public' },
+		visibleUserIds: { type: 'array', uniqueItems: true, items: {
+			type: 'string', format: 'misskey:id',
+		} },
+		cw: { type: 'string', nullable: true, minLength: 1, maxLength: 100 },
+		localOnly: { type: 'boolean', default: false },
+		reactionAcceptance: { type: 'string', nullable: true, enum: [null, 'likeOnly', 'likeOnlyForRemote', 'nonSensitiveOnly', 'nonSensitiveOnlyForLocalLikeOnlyForRemote'], default: null },
+		quotePolicy: { type: 'string', enum: noteQuotePolicies, default: 'public' },
+		replyId: { type: 'string', format: 'misskey:id', nullable: true },
+		renoteId: { type: 'string', format: 'misskey:id', nullable: true },
+		channelId: { type: 'string', format: 'misskey:id', nullable: true },
+		text: {
+			type: 'string',
+			minLength: 1,
+			maxLength: MAX_NOTE_TEXT_LENGTH,
+			nullable: true,
+		},
+		fileIds: {
+			type: 'array',
+			uniqueItems: true,
+			minItems: 1,
+			maxItems: 16,
+			items: { type: 'string', format: 'misskey:id' },
+		},
+		poll: {
+			type: 'object',
+			nullable: true,
+			properties: {
+				choices: {
+					type: 'array',
+					uniqueItems: true,
+					minItems: 2,
+					maxItems: 10,
+					items: { type: 'string', minLength: 1, maxLength: 50 },
+				},
+				multiple: { type: 'boolean' },
+				expiresAt: { type: 'integer', nullable: true },
+				expiredAfter: { type: 'integer', nullable: true, minimum: 1 },
+			},
+			required: ['choices'],
+		},
+	},
+	// (re)note with text, files and poll are optional
+	if: {
+		properties: {
+			renoteId: {
+				type: 'null',
+			},
+			fileIds: {
+				type: 'null',
+			},
+			poll: {
+				type: 'null',
+			},
+		},
+	},
+	then: {
+		properties: {
+			text: {
+				type: 'string',
+				minLength: 1,
+				maxLength: MAX_NOTE_TEXT_LENGTH,
+				pattern: '[^\\s]+',
+			},
+		},
+		required: ['text'],
+	},
+	required: ['scheduledAt'],
+} as const;
+
+@Injectable()
+export default class extends Endpoint<typeof meta, typeof paramDef> { // eslint-disable-line import/no-default-export
+	constructor(
+		private noteDraftService: NoteDraftService,
+		private noteDraftEntityService: NoteDraftEntityService,
+	) {
+		super(meta, paramDef, async (ps, me) => {
+			try {
+				const draft = await this.noteDraftService.create(me, {
+					text: ps.text ?? null,
+					cw: ps.cw ?? null,
+					fileIds: ps.fileIds ?? [],
+					poll: ps.poll ? {
+						choices: ps.poll.choices,
+						multiple: ps.poll.multiple ?? false,
+						expiresAt: ps.poll.expiresAt ? new Date(ps.poll.expiresAt).toISOString() : null,
+						expiredAfter: ps.poll.expiredAfter ?? null,
+					} : null,
+					visibility: ps.visibility,
+					visibleUserIds: ps.visibleUserIds ?? [],
+					localOnly: ps.localOnly,
+					reactionAcceptance: ps.reactionAcceptance,
+					quotePolicy: ps.quotePolicy,
+					replyId: ps.replyId ?? null,
+					renoteId: ps.renoteId ?? null,
+					channelId: ps.channelId ?? null,
+					scheduledAt: new Date(ps.scheduledAt),
+				});
+
+				return await this.noteDraftEntityService.pack(draft, me);
+			} catch (err) {
+				if (err instanceof IdentifiableError) {
+					switch (err.id) {
+						case '83fdd92c-371a-4291-9624-fa5d8b1a8e0b':
+							throw new ApiError(meta.errors.noSuchRenoteTarget);
+						case 'c5a33af0-1906-47b0-81f7-770ff091d6fb':
+							throw new ApiError(meta.errors.cannotReRenote);
+						case 'c02483eb-d9c9-4527-b538-ee510caecec0':
+							throw new ApiError(meta.errors.cannotRenoteDueToVisibility);
+						case '532c53c8-ccc9-4bc7-bb37-5b597d2e0677':
+							throw new ApiError(meta.errors.noSuchReplyTarget);
+						case '4c473193-0ed1-4600-bec7-583b56ef9522':
+							throw new ApiError(meta.errors.cannotReplyToInvisibleNote);
+						case '42d6337f-8a26-4963-8f73-b8a35a822858':
+							throw new ApiError(meta.errors.cannotReplyToPureRenote);
+						case '87a231d0-2ea4-46f0-abc7-14c08bfcf4c9':
+							throw new ApiError(meta.errors.cannotReplyToSpecifiedVisibilityNoteWithExtendedVisibility);
+						case 'fced1452-5189-4227-ad59-1a77e8569ba1':
+							throw new ApiError(meta.errors.cannotCreateAlreadyExpiredPoll);
+						case '272e27b7-611a-4f51-a28f-b1a3b2333156':
+							throw new ApiError(meta.errors.noSuchChannel);
+						case '0160d4ea-d2b6-4cef-94b1-b1fa945ccec2':
+							throw new ApiError(meta.errors.youHaveBeenBlocked);
+						case '521bb244-086b-4545-9909-04830afbd000':
+							throw new ApiError(meta.errors.noSuchFile);
+						case '68eda691-d32d-4299-a930-87fe191f503d':
+							throw new ApiError(meta.errors.cannotRenoteOutsideOfChannel);
+						case '689ee33f-f97c-479a-ac49-1b9f8140af99':
+							throw new ApiError(meta.errors.containsProhibitedWords);
+						case '890843f4-c941-488a-98b8-fe4c002d7bcb':
+							throw new ApiError(meta.errors.scheduledAtMustBeInFuture);
+						case '22a8062c-11da-466c-974d-e30e8fa57f62':
+							throw new ApiError(meta.errors.tooManyScheduledNotes);
+					}
+				}
+				throw err;
+			}
+		});
+	}
+}
@@ -0,0 +1,60 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { IsNull, Not } from 'typeorm';
+import { Inject, Injectable } from '@nestjs/common';
+import type { NoteDraftsRepository } from '@/models/_.js';
+import { Endpoint } from '@/server/api/endpoint-base.js';
+import { NoteDraftService } from '@/core/NoteDraftService.js';
+import { DI } from '@/di-symbols.js';
+import { ApiError } from '../../../error.js';
+
+export const meta = {
+	tags: ['notes'],
+
+	requireCredential: true,
+
+	kind: 'write:notes',
+
+	errors: {
+		noSuchScheduledNote: {
+			message: 'No such scheduled note.',
+			code: 'NO_SUCH_SCHEDULED_NOTE',
+			id: '02d62af5-a59f-44f4-b49a-3ed99cbc7f7d',
+		},
+	},
+} as const;
+
+export const paramDef = {
+	type: 'object',
+	properties: {
+		noteDraftId: { type: 'string', format: 'misskey:id' },
+	},
+	required: ['noteDraftId'],
+} as const;
+
+@Injectable()
+export default class extends Endpoint<typeof meta, typeof paramDef> { // eslint-disable-line import/no-default-export
+	constructor(
+		@Inject(DI.noteDraftsRepository)
+		private noteDraftsRepository: NoteDraftsRepository,
+
+		private noteDraftService: NoteDraftService,
+	) {
+		super(meta, paramDef, async (ps, me) => {
+			const draft = await this.noteDraftsRepository.findOneBy({
+				id: ps.noteDraftId,
+				userId: me.id,
+				scheduledAt: Not(IsNull()),
+			});
+
+			if (draft == null) {
+				throw new ApiError(meta.errors.noSuchScheduledNote);
+			}
+
+			await this.noteDraftService.delete(me, draft);
+		});
+	}
+}
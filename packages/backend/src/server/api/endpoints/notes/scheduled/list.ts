@@ -0,0 +1,61 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { Inject, Injectable } from '@nestjs/common';
+import type { NoteDraftsRepository } from '@/models/_.js';
+import { Endpoint } from '@/server/api/endpoint-base.js';
+import { NoteDraftEntityService } from '@/core/entities/NoteDraftEntityService.js';
+import { DI } from '@/di-symbols.js';
+
+export const meta = {
+	tags: ['notes'],
+
+	requireCredential: true,
+
+	kind: 'read:account',
+
+	res: {
+		type: 'array',
+		optional: false, nullable: false,
+		items: {
+			type: 'object',
+			optional: false, nullable: false,
+			ref: 'NoteDraft',
+		},
+	},
+} as const;
+
+export const paramDef = {
+	type: 'object',
+	properties: {
+		limit: { type: 'integer', minimum: 1, maximum: 100, default: 10 },
+		offset: { type: 'integer', default: 0 },
+	},
+	required: [],
+} as const;
+
+@Injectable()
+export default class extends Endpoint<typeof meta, typeof paramDef> { // eslint-disable-line import/no-default-export
+	constructor(
+		@Inject(DI.noteDraftsRepository)
+		private noteDraftsRepository: NoteDraftsRepository,
+
+		private noteDraftEntityService: NoteDraftEntityService,
+	) {
+		super(meta, paramDef, async (ps, me) => {
+			// 投稿される順に並べる
+			const drafts = await this.noteDraftsRepository.createQueryBuilder('draft')
+				.where('draft.userId = :userId', { userId: me.id })
+				.andWhere('draft.scheduledAt IS NOT NULL')
+				.orderBy('draft.scheduledAt', 'ASC')
+				.addOrderBy('draft.id', 'ASC')
+				.offset(ps.offset)
+				.limit(ps.limit)
+				.getMany();
+
+			return await this.noteDraftEntityService.packMany(drafts, me);
+		});
+	}
+}
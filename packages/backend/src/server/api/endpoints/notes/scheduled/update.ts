@@ -0,0 +1,287 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import ms from 'ms';
+import { IsNull, Not } from 'typeorm';
+import { Inject, Injectable } from '@nestjs/common';
+import type { NoteDraftsRepository } from '@/models/_.js';
+import { MAX_NOTE_TEXT_LENGTH } from '@/const.js';
+import { noteQuotePolicies } from '@/types.js';
+import { Endpoint } from '@/server/api/endpoint-base.js';
+import { NoteDraftService } from '@/core/NoteDraftService.js';
+import { NoteDraftEntityService } from '@/core/entities/NoteDraftEntityService.js';
+import { IdentifiableError } from '@/misc/identifiable-error.js';
+import { DI } from '@/di-symbols.js';
+import { ApiError } from '../../../error.js';
+
+export const meta = {
+	tags: ['notes'],
+
+	requireCredential: true,
+
+	prohibitMoved: true,
+
+	limit: {
+		duration: ms('1hour'),
+		max: 300,
+	},
+
+	kind: 'write:notes',
+
+	res: {
+		type: 'object',
+		optional: false, nullable: false,
+		ref: 'NoteDraft',
+	},
+
+	errors: {
+		noSuchScheduledNote: {
+			message: 'No such scheduled note.',
+			code: 'NO_SUCH_SCHEDULED_NOTE',
+			id: 'bd151dea-8e36-4832-9007-0d07d78e6ca7',
+		},
+
+		noSuchRenoteTarget: {
+			message: 'No such renote target.',
+			code: 'NO_SUCH_RENOTE_TARGET',
+			id: 'a78c5c60-9883-44d5-9ee4-c3a101be73b1',
+		},
+
+		cannotReRenote: {
+			message: 'You can not Renote a pure Renote.',
+			code: 'CANNOT_RENOTE_TO_A_PURE_RENOTE',
+			id: '8145dd25-2ea4-4b3a-a609-82693100e118',
+		},
+
+		cannotRenoteDueToVisibility: {
+			message: 'You can not Renote due to target visibility.',
+			code: 'CANNOT_RENOTE_DUE_TO_VISIBILITY',
+			id: 'b4e93499-4a3a-4478-a4ce-609f8f199c43',
+		},
+
+		noSuchReplyTarget: {
+			message: 'No such reply target.',
+			code: 'NO_SUCH_REPLY_TARGET',
+			id: 'aca0c11f-2bc5-43fe-bfd4-e0118f8e4f61',
+		},
+
+		cannotReplyToInvisibleNote: {
+			message: 'You cannot reply to an invisible Note.',
+			code: 'CANNOT_REPLY_TO_AN_INVISIBLE_NOTE',
+			id: 'd4964563-93e8-4970-97bc-abecb9679f9b',
+		},
+
+		cannotReplyToPureRenote: {
+			message: 'You can not reply to a pure Renote.',
+			code: 'CANNOT_REPLY_TO_A_PURE_RENOTE',
+			id: '7d06f263-5615-4aad-97ba-40c8f9c91e42',
+		},
+
+		cannotReplyToSpecifiedVisibilityNoteWithExtendedVisibility: {
+			message: 'You cannot reply to a specified visibility note with extended visibility.',
+			code: 'CANNOT_REPLY_TO_SPECIFIED_VISIBILITY_NOTE_WITH_EXTENDED_VISIBILITY',
+			id: '6d0abca5-3796-4a82-8b9e-903017bf11e8',
+		},
+
+		cannotCreateAlreadyExpiredPoll: {
+			message: 'Poll is already expired.',
+			code: 'CANNOT_CREATE_ALREADY_EXPIRED_POLL',
+			id: 'a8ea7daa-c67a-4291-947b-fc8ff971fcc8',
+		},
+
+		noSuchChannel: {
+			message: 'No such channel.',
+			code: 'NO_SUCH_CHANNEL',
+			id: '2e6bcb0e-61c9-4642-9522-abcd0e23bf39',
+		},
+
+		youHaveBeenBlocked: {
+			message: 'You have been blocked by this user.',
+			code: 'YOU_HAVE_BEEN_BLOCKED',
+			id: 'd6b32576-d24c-4d30-9d43-dda2bd0013b9',
+		},
+
+		noSuchFile: {
+			message: 'Some files are not found.',
+			code: 'NO_SUCH_FILE',
+			id: '375e6f61-bc6d-45ca-8286-b09c0560fd43',
+		},
+
+		cannotRenoteOutsideOfChannel: {
+			message: 'Cannot renote outside of channel.',
+			code: 'CANNOT_RENOTE_OUTSIDE_OF_CHANNEL',
+			id: '81b59466-2d69-4999-95db-0fd317108455',
+		},
+
+		containsProhibitedWords: {
+			message: 'Cannot post because it contains prohibited words.',
+			code: 'CONTAINS_PROHIBITED_WORDS',
+			id: '8a2d38b1-84e8-4093-8f8b-c3336a293b04',
+		},
+
+		scheduledAtMustBeInFuture: {
+			message: 'scheduledAt must be in the future.',
+			code: 'SCHEDULED_AT_MUST_BE_IN_FUTURE',
+			id: '5eb4af96-87ec-4cc1-a263-821652c0f7e2',
+		},
+	},
+} as const;
+
+export const paramDef = {
+	type: 'object',
+	properties: {
+		noteDraftId: { type: 'string', format: 'misskey:id' },
+		scheduledAt: { type: 'integer' },
+		visibility: { type: 'string', enum: ['public', 'home', 'followers', 'specified'], default: 'public' },
+		visibleUserIds: { type: 'array', uniqueItems: true, items: {
+			type: 'string', format: 'misskey:id',
+		} },
+		cw: { type: 'string', nullable: true, minLength: 1, maxLength: 100 },
+		localOnly: { type: 'boolean', default: false },
+		reactionAcceptance: { type: 'string', nullable: true, enum: [null, 'likeOnly', 'likeOnlyForRemote', 'nonSensitiveOnly', 'nonSensitiveOnlyForLocalLikeOnlyForRemote'], default: null },
+		quotePolicy: { type: 'string', enum: noteQuotePolicies, default: 'public' },
+		replyId: { type: 'string', format: 'misskey:id', nullable: true },
+		renoteId: { type: 'string', format: 'misskey:id', nullable: true },
+		channelId: { type: 'string', format: 'misskey:id', nullable: true },
+		text: {
+			type: 'string',
+			minLength: 1,
+			maxLength: MAX_NOTE_TEXT_LENGTH,
+			nullable: true,
+		},
+		fileIds: {
+			type: 'array',
+			uniqueItems: true,
+			minItems: 1,
+			maxItems: 16,
+			items: { type: 'string', format: 'misskey:id' },
+		},
+		poll: {
+			type: 'object',
+			nullable: true,
+			properties: {
+				choices: {
+					type: 'array',
+					uniqueItems: true,
+					minItems: 2,
+					maxItems: 10,
+					items: { type: 'string', minLength: 1, maxLength: 50 },
+				},
+				multiple: { type: 'boolean' },
+				expiresAt: { type: 'integer', nullable: true },
+				expiredAfter: { type: 'integer', nullable: true, minimum: 1 },
+			},
+			required: ['choices'],
+		},
+	},
+	// (re)note with text, files and poll are optional
+	if: {
+		properties: {
+			renoteId: {
+				type: 'null',
+			},
+			fileIds: {
+				type: 'null',
+			},
+			poll: {
+				type: 'null',
+			},
+		},
+	},
+	then: {
+		properties: {
+			text: {
+				type: 'string',
+				minLength: 1,
+				maxLength: MAX_NOTE_TEXT_LENGTH,
+				pattern: '[^\\s]+',
+			},
+		},
+		required: ['text'],
+	},
+	required: ['noteDraftId', 'scheduledAt'],
+} as const;
+
+@Injectable()
+export default class extends Endpoint<typeof meta, typeof paramDef> { // eslint-disable-line import/no-default-export
+	constructor(
+		@Inject(DI.noteDraftsRepository)
+		private noteDraftsRepository: NoteDraftsRepository,
+
+		private noteDraftService: NoteDraftService,
+		private noteDraftEntityService: NoteDraftEntityService,
+	) {
+		super(meta, paramDef, async (ps, me) => {
+			const draft = await this.noteDraftsRepository.findOneBy({
+				id: ps.noteDraftId,
+				userId: me.id,
+				scheduledAt: Not(IsNull()),
+			});
+
+			if (draft == null) {
+				throw new ApiError(meta.errors.noSuchScheduledNote);
+			}
+
+			try {
+				const updated = await this.noteDraftService.update(me, draft, {
+					text: ps.text ?? null,
+					cw: ps.cw ?? null,
+					fileIds: ps.fileIds ?? [],
+					poll: ps.poll ? {
+						choices: ps.poll.choices,
+						multiple: ps.poll.multiple ?? false,
+						expiresAt: ps.poll.expiresAt ? new Date(ps.poll.expiresAt).toISOString() : null,
+						expiredAfter: ps.poll.expiredAfter ?? null,
+					} : null,
+					visibility: ps.visibility,
+					visibleUserIds: ps.visibleUserIds ?? [],
+					localOnly: ps.localOnly,
+					reactionAcceptance: ps.reactionAcceptance,
+					quotePolicy: ps.quotePolicy,
+					replyId: ps.replyId ?? null,
+					renoteId: ps.renoteId ?? null,
+					channelId: ps.channelId ?? null,
+					scheduledAt: new Date(ps.scheduledAt),
+				});
+
+				return await this.noteDraftEntityService.pack(updated, me);
+			} catch (err) {
+				if (err instanceof IdentifiableError) {
+					switch (err.id) {
+						case '83fdd92c-371a-4291-9624-fa5d8b1a8e0b':
+							throw new ApiError(meta.errors.noSuchRenoteTarget);
+						case 'c5a33af0-1906-47b0-81f7-770ff091d6fb':
+							throw new ApiError(meta.errors.cannotReRenote);
+						case 'c02483eb-d9c9-4527-b538-ee510caecec0':
+							throw new ApiError(meta.errors.cannotRenoteDueToVisibility);
+						case '532c53c8-ccc9-4bc7-bb37-5b597d2e0677':
+							throw new ApiError(meta.errors.noSuchReplyTarget);
+						case '4c473193-0ed1-4600-bec7-583b56ef9522':
+							throw new ApiError(meta.errors.cannotReplyToInvisibleNote);
+						case '42d6337f-8a26-4963-8f73-b8a35a822858':
+							throw new ApiError(meta.errors.cannotReplyToPureRenote);
+						case '87a231d0-2ea4-46f0-abc7-14c08bfcf4c9':
+							throw new ApiError(meta.errors.cannotReplyToSpecifiedVisibilityNoteWithExtendedVisibility);
+						case 'fced1452-5189-4227-ad59-1a77e8569ba1':
+							throw new ApiError(meta.errors.cannotCreateAlreadyExpiredPoll);
+						case '272e27b7-611a-4f51-a28f-b1a3b2333156':
+							throw new ApiError(meta.errors.noSuchChannel);
+						case '0160d4ea-d2b6-4cef-94b1-b1fa945ccec2':
+							throw new ApiError(meta.errors.youHaveBeenBlocked);
+						case '521bb244-086b-4545-9909-04830afbd000':
+							throw new ApiError(meta.errors.noSuchFile);
+						case '68eda691-d32d-4299-a930-87fe191f503d':
+							throw new ApiError(meta.errors.cannotRenoteOutsideOfChannel);
+						case '689ee33f-f97c-479a-ac49-1b9f8140af99':
+							throw new ApiError(meta.errors.containsProhibitedWords);
+						case '890843f4-c941-488a-98b8-fe4c002d7bcb':
+							throw new ApiError(meta.errors.scheduledAtMustBeInFuture);
+					}
+				}
+				throw err;
+			}
+		});
+	}
+}
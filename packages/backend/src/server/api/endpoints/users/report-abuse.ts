@@ -3,8 +3,12 @@
  * SPDX-License-Identifier: AGPL-3.0-only
  */
 
-import { Injectable } from '@nestjs/common';
+import { Inject, Injectable } from '@nestjs/common';
+import { In } from 'typeorm';
 import { Endpoint } from '@/server/api/endpoint-base.js';
+import type { NotesRepository } from '@/models/_.js';
+import { abuseReportCategories } from '@/models/AbuseUserReport.js';
+import { DI } from '@/di-symbols.js';
 import { GetterService } from '@/server/api/GetterService.js';
 import { RoleService } from '@/core/RoleService.js';
 import { AbuseReportService } from '@/core/AbuseReportService.js';
@@ -36,6 +40,12 @@ export const meta = {
 			code: 'CANNOT_REPORT_THE_ADMIN',
 			id: '35e166f5-05fb-4f87-a2d5-adb42676d48f',
 		},
+
+		noSuchNote: {
+			message: 'No such note of the user.',
+			code: 'NO_SUCH_NOTE',
+			id: '7a0e1c6d-3f2b-4b8e-9c45-2d6f8e1b0a93',
+		},
 	},
 } as const;
 
@@ -44,6 +54,14 @@ export const paramDef = {
 	properties: {
 		userId: { type: 'string', format: 'misskey:id' },
 		comment: { type: 'string', minLength: 1, maxLength: 2048 },
+		category: { type: 'string', enum: abuseReportCategories, default: 'other' },
+		noteIds: {
+			type: 'array',
+			uniqueItems: true,
+			maxItems: 16,
+			items: { type: 'string', format: 'misskey:id' },
+			description: 'Notes of the target user to attach to the report.',
+		},
 	},
 	required: ['userId', 'comment'],
 } as const;
@@ -51,6 +69,9 @@ export const paramDef = {
 @Injectable()
 export default class extends Endpoint<typeof meta, typeof paramDef> { // eslint-disable-line import/no-default-export
 	constructor(
+		@Inject(DI.notesRepository)
+		private notesRepository: NotesRepository,
+
 		private getterService: GetterService,
 		private roleService: RoleService,
 		private abuseReportService: AbuseReportService,
@@ -70,12 +91,25 @@ export default class extends Endpoint<typeof meta, typeof paramDef> { // eslint-
 				throw new ApiError(meta.errors.cannotReportAdmin);
 			}
 
+			const noteIds = ps.noteIds ?? [];
+			if (noteIds.length > 0) {
+				const count = await this.notesRepository.countBy({
+					id: In(noteIds),
+					userId: targetUser.id,
+				});
+				if (count !== noteIds.length) {
+					throw new ApiError(meta.errors.noSuchNote);
+				}
+			}
+
 			await this.abuseReportService.report([{
 				targetUserId: targetUser.id,
 				targetUserHost: targetUser.host,
 				reporterId: me.id,
 				reporterHost: null,
 				comment: ps.comment,
+				category: ps.category,
+				noteIds,
 			}]);
 		});
 	}
@@ -21,6 +21,8 @@ import { HashtagChannelService } from './channels/hashtag.js';
 import { RoleTimelineChannelService } from './channels/role-timeline.js';
 import { ReversiChannelService } from './channels/reversi.js';
 import { ReversiGameChannelService } from './channels/reversi-game.js';
+import { ChatUserChannelService } from './channels/chat-user.js';
+import { ChatRoomChannelService } from './channels/chat-room.js';
 import { type MiChannelService } from './channel.js';
 
 @Injectable()
@@ -42,6 +44,8 @@ export class ChannelsService {
 		private adminChannelService: AdminChannelService,
 		private reversiChannelService: ReversiChannelService,
 		private reversiGameChannelService: ReversiGameChannelService,
+		private chatUserChannelService: ChatUserChannelService,
+		private chatRoomChannelService: ChatRoomChannelService,
 	) {
 	}
 
@@ -64,6 +68,8 @@ export class ChannelsService {
 			case 'admin': return this.adminChannelService;
 			case 'reversi': return this.reversiChannelService;
 			case 'reversiGame': return this.reversiGameChannelService;
+			case 'chatUser': return this.chatUserChannelService;
+			case 'chatRoom': return this.chatRoomChannelService;
 
 			default:
 				throw new Error(`no such channel: ${name}`);
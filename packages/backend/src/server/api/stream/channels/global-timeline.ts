@@ -9,6 +9,7 @@ import { MetaService } from '@/core/MetaService.js';
 import { NoteEntityService } from '@/core/entities/NoteEntityService.js';
 import { bindThis } from '@/decorators.js';
 import { RoleService } from '@/core/RoleService.js';
+import { FederatedInstanceService } from '@/core/FederatedInstanceService.js';
 import { isRenotePacked, isQuotePacked } from '@/misc/is-renote.js';
 import type { JsonObject } from '@/misc/json-value.js';
 import Channel, { type MiChannelService } from '../channel.js';
@@ -24,6 +25,7 @@ class GlobalTimelineChannel extends Channel {
 		private metaService: MetaService,
 		private roleService: RoleService,
 		private noteEntityService: NoteEntityService,
+		private federatedInstanceService: FederatedInstanceService,
 
 		id: string,
 		connection: Channel['connection'],
@@ -55,6 +57,8 @@ class GlobalTimelineChannel extends Channel {
 
 		if (this.isNoteMutedOrBlocked(note)) return;
 
+		if (await this.federatedInstanceService.hasPolicy(note.user.host, 'hideFromGlobalTimeline')) return;
+
 		if (this.user && isRenotePacked(note) && !isQuotePacked(note)) {
 			if (note.renote && Object.keys(note.renote.reactions).length > 0) {
 				const myRenoteReaction = await this.noteEntityService.populateMyReaction(note.renote, this.user.id);
@@ -84,6 +88,7 @@ export class GlobalTimelineChannelService implements MiChannelService<false> {
 		private metaService: MetaService,
 		private roleService: RoleService,
 		private noteEntityService: NoteEntityService,
+		private federatedInstanceService: FederatedInstanceService,
 	) {
 	}
 
@@ -93,6 +98,7 @@ export class GlobalTimelineChannelService implements MiChannelService<false> {
 			this.metaService,
 			this.roleService,
 			this.noteEntityService,
+			this.federatedInstanceService,
 			id,
 			connection,
 		);
@@ -31,6 +31,7 @@ import type {
 	InboxQueue,
 	ObjectStorageQueue,
 	RelationshipQueue,
+	ScheduledNotePublishQueue,
 	SystemQueue,
 	UserWebhookDeliverQueue,
 	SystemWebhookDeliverQueue,
@@ -136,6 +137,7 @@ export class ClientServerService {
 
 		@Inject('queue:system') public systemQueue: SystemQueue,
 		@Inject('queue:endedPollNotification') public endedPollNotificationQueue: EndedPollNotificationQueue,
+		@Inject('queue:scheduledNotePublish') public scheduledNotePublishQueue: ScheduledNotePublishQueue,
 		@Inject('queue:deliver') public deliverQueue: DeliverQueue,
 		@Inject('queue:inbox') public inboxQueue: InboxQueue,
 		@Inject('queue:db') public dbQueue: DbQueue,
@@ -264,6 +266,7 @@ export class ClientServerService {
 			queues: [
 				this.systemQueue,
 				this.endedPollNotificationQueue,
+				this.scheduledNotePublishQueue,
 				this.deliverQueue,
 				this.inboxQueue,
 				this.dbQueue,
@@ -19,6 +19,9 @@
  * exportCompleted - エクスポートが完了
  * login - ログイン
  * createToken - トークン作成
+ * abuseReportResolved - 自分の通報が解決された
+ * userWarningAppealResolved - 警告への異議申し立てが処理された
+ * scheduledNotePostFailed - 予約投稿が投稿できなかった
  * app - アプリ通知
  * test - テスト通知（サーバー側）
  */
@@ -38,6 +41,9 @@ export const notificationTypes = [
 	'exportCompleted',
 	'login',
 	'createToken',
+	'abuseReportResolved',
+	'userWarningAppealResolved',
+	'scheduledNotePostFailed',
 	'app',
 	'test',
 ] as const;
@@ -52,6 +58,8 @@ export const obsoleteNotificationTypes = ['pollVote', 'groupInvited'] as const;
 
 export const noteVisibilities = ['public', 'home', 'followers', 'specified'] as const;
 
+export const noteQuotePolicies = ['public', 'followers', 'nobody'] as const;
+
 export const mutedNoteReasons = ['word', 'manual', 'spam', 'other'] as const;
 
 export const followingVisibilities = ['public', 'followers', 'private'] as const;
@@ -98,11 +106,14 @@ export const moderationLogTypes = [
 	'suspendRemoteInstance',
 	'unsuspendRemoteInstance',
 	'updateRemoteInstanceNote',
+	'updateRemoteInstancePolicies',
 	'markSensitiveDriveFile',
 	'unmarkSensitiveDriveFile',
 	'resolveAbuseReport',
 	'forwardAbuseReport',
+	'replyAbuseReport',
 	'updateAbuseReportNote',
+	'assignAbuseReport',
 	'createInvitation',
 	'createAd',
 	'updateAd',
@@ -118,10 +129,28 @@ export const moderationLogTypes = [
 	'createAbuseReportNotificationRecipient',
 	'updateAbuseReportNotificationRecipient',
 	'deleteAbuseReportNotificationRecipient',
+	'createAbuseReportResponseTemplate',
+	'updateAbuseReportResponseTemplate',
+	'deleteAbuseReportResponseTemplate',
 	'deleteAccount',
 	'deletePage',
 	'deleteFlash',
 	'deleteGalleryPost',
+	'rebuildSearchIndex',
+	'importBlocklist',
+	'createBlocklistSubscription',
+	'updateBlocklistSubscription',
+	'deleteBlocklistSubscription',
+	'hideNote',
+	'unhideNote',
+	'setNoteCw',
+	'markSensitiveNote',
+	'unmarkSensitiveNote',
+	'excludeNoteFromPublicTimelines',
+	'includeNoteInPublicTimelines',
+	'warnUser',
+	'revokeUserWarning',
+	'resolveUserWarningAppeal',
 ] as const;
 
 export type ModerationLogPayloads = {
@@ -133,6 +162,7 @@ export type ModerationLogPayloads = {
 		userId: string;
 		userUsername: string;
 		userHost: string | null;
+		expiresAt: string | null;
 	};
 	unsuspend: {
 		userId: string;
@@ -256,6 +286,12 @@ export type ModerationLogPayloads = {
 		before: string | null;
 		after: string | null;
 	};
+	updateRemoteInstancePolicies: {
+		id: string;
+		host: string;
+		before: string[];
+		after: string[];
+	};
 	markSensitiveDriveFile: {
 		fileId: string;
 		fileUserId: string | null;
@@ -278,12 +314,24 @@ export type ModerationLogPayloads = {
 		reportId: string;
 		report: any;
 	};
+	replyAbuseReport: {
+		reportId: string;
+		report: any;
+		noteId: string;
+		text: string;
+	};
 	updateAbuseReportNote: {
 		reportId: string;
 		report: any;
 		before: string;
 		after: string;
 	};
+	assignAbuseReport: {
+		reportId: string;
+		report: any;
+		before: string | null;
+		after: string | null;
+	};
 	createInvitation: {
 		invitations: any[];
 	};
@@ -351,6 +399,19 @@ export type ModerationLogPayloads = {
 		recipientId: string;
 		recipient: any;
 	};
+	createAbuseReportResponseTemplate: {
+		templateId: string;
+		template: any;
+	};
+	updateAbuseReportResponseTemplate: {
+		templateId: string;
+		before: any;
+		after: any;
+	};
+	deleteAbuseReportResponseTemplate: {
+		templateId: string;
+		template: any;
+	};
 	deleteAccount: {
 		userId: string;
 		userUsername: string;
@@ -374,6 +435,101 @@ export type ModerationLogPayloads = {
 		postUserUsername: string;
 		post: any;
 	};
+	rebuildSearchIndex: Record<string, never>;
+	importBlocklist: {
+		source: string;
+		subscriptionId: string | null;
+		changes: {
+			host: string;
+			before: { severity: string; rejectMedia: boolean; };
+			after: { severity: string; rejectMedia: boolean; };
+		}[];
+	};
+	createBlocklistSubscription: {
+		subscriptionId: string;
+		subscription: any;
+	};
+	updateBlocklistSubscription: {
+		subscriptionId: string;
+		before: any;
+		after: any;
+	};
+	deleteBlocklistSubscription: {
+		subscriptionId: string;
+		subscription: any;
+	};
+	hideNote: {
+		noteId: string;
+		noteUserId: string;
+		noteUserUsername: string;
+		noteUserHost: string | null;
+	};
+	unhideNote: {
+		noteId: string;
+		noteUserId: string;
+		noteUserUsername: string;
+		noteUserHost: string | null;
+	};
+	setNoteCw: {
+		noteId: string;
+		noteUserId: string;
+		noteUserUsername: string;
+		noteUserHost: string | null;
+		before: string | null;
+		after: string | null;
+	};
+	markSensitiveNote: {
+		noteId: string;
+		noteUserId: string;
+		noteUserUsername: string;
+		noteUserHost: string | null;
+	};
+	unmarkSensitiveNote: {
+		noteId: string;
+		noteUserId: string;
+		noteUserUsername: string;
+		noteUserHost: string | null;
+	};
+	excludeNoteFromPublicTimelines: {
+		noteId: string;
+		noteUserId: string;
+		noteUserUsername: string;
+		noteUserHost: string | null;
+	};
+	includeNoteInPublicTimelines: {
+		noteId: string;
+		noteUserId: string;
+		noteUserUsername: string;
+		noteUserHost: string | null;
+	};
+	warnUser: {
+		warningId: string;
+		userId: string;
+		userUsername: string;
+		userHost: string | null;
+		reason: string;
+		reportId: string | null;
+		noteId: string | null;
+		roleId: string | null;
+		roleName: string | null;
+		roleExpiresAt: string | null;
+	};
+	revokeUserWarning: {
+		warningId: string;
+		userId: string;
+		userUsername: string;
+		userHost: string | null;
+		reason: string;
+	};
+	resolveUserWarningAppeal: {
+		warningId: string;
+		userId: string;
+		userUsername: string;
+		userHost: string | null;
+		reason: string;
+		appealComment: string | null;
+		appealStatus: string;
+	};
 };
 
 export type Serialized<T> = {
@@ -0,0 +1,195 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+process.env.NODE_ENV = 'test';
+
+import * as assert from 'assert';
+import { api, castAsError, connectStream, signup } from '../utils.js';
+import type * as misskey from 'misskey-js';
+
+describe('Chat', () => {
+	let alice: misskey.entities.SignupResponse;
+	let bob: misskey.entities.SignupResponse;
+	let carol: misskey.entities.SignupResponse;
+	let dave: misskey.entities.SignupResponse;
+
+	beforeAll(async () => {
+		alice = await signup({ username: 'alice' });
+		bob = await signup({ username: 'bob' });
+		carol = await signup({ username: 'carol' });
+		dave = await signup({ username: 'dave' });
+
+		// dave blocks alice
+		await api('blocking/create', { userId: alice.id }, dave);
+	}, 1000 * 60 * 2);
+
+	describe('1:1', () => {
+		test('メッセージを送信できる', async () => {
+			const res = await api('chat/messages/create-to-user', { toUserId: bob.id, text: 'hi bob' }, alice);
+
+			assert.strictEqual(res.status, 200);
+			assert.strictEqual(res.body.fromUserId, alice.id);
+			assert.strictEqual(res.body.toUserId, bob.id);
+			assert.strictEqual(res.body.text, 'hi bob');
+			assert.deepStrictEqual(res.body.reads, []);
+		});
+
+		test('本文もファイルも無いメッセージは送信できない', async () => {
+			const res = await api('chat/messages/create-to-user', { toUserId: bob.id }, alice);
+
+			assert.strictEqual(res.status, 400);
+			assert.strictEqual(castAsError(res.body).error.code, 'CONTENT_REQUIRED');
+		});
+
+		test('ブロックしている・されている相手には送信できない', async () => {
+			const res1 = await api('chat/messages/create-to-user', { toUserId: dave.id, text: 'hi dave' }, alice);
+			assert.strictEqual(res1.status, 400);
+			assert.strictEqual(castAsError(res1.body).error.code, 'BLOCKED');
+
+			const res2 = await api('chat/messages/create-to-user', { toUserId: alice.id, text: 'hi alice' }, dave);
+			assert.strictEqual(res2.status, 400);
+			assert.strictEqual(castAsError(res2.body).error.code, 'BLOCKED');
+		});
+
+		test('相手とのメッセージを取得でき、既読にできる', async () => {
+			const timeline = await api('chat/messages/user-timeline', { userId: alice.id }, bob);
+			assert.strictEqual(timeline.status, 200);
+			assert.ok(timeline.body.some(m => m.text === 'hi bob'));
+
+			const read = await api('chat/read-user', { userId: alice.id }, bob);
+			assert.strictEqual(read.status, 204);
+
+			const after = await api('chat/messages/user-timeline', { userId: bob.id }, alice);
+			assert.ok(after.body.filter(m => m.fromUserId === alice.id).every(m => m.reads.includes(bob.id)));
+		});
+
+		test('第三者は会話を見られない', async () => {
+			const res = await api('chat/messages/user-timeline', { userId: alice.id }, carol);
+
+			assert.strictEqual(res.status, 200);
+			assert.strictEqual(res.body.length, 0);
+		});
+
+		test('履歴に会話ごとの最新のメッセージが含まれる', async () => {
+			await api('chat/messages/create-to-user', { toUserId: alice.id, text: 'hello alice' }, bob);
+
+			const res = await api('chat/history', {}, alice);
+
+			assert.strictEqual(res.status, 200);
+			assert.strictEqual(res.body.length, 1);
+			assert.strictEqual(res.body[0].text, 'hello alice');
+		});
+
+		test('自分のメッセージを削除できる', async () => {
+			const message = await api('chat/messages/create-to-user', { toUserId: bob.id, text: 'delete me' }, alice);
+
+			const res1 = await api('chat/messages/delete', { messageId: message.body.id }, bob);
+			assert.strictEqual(res1.status, 400);
+			assert.strictEqual(castAsError(res1.body as any).error.code, 'NO_SUCH_MESSAGE');
+
+			const res2 = await api('chat/messages/delete', { messageId: message.body.id }, alice);
+			assert.strictEqual(res2.status, 204);
+		});
+	});
+
+	describe('Room', () => {
+		let room: misskey.entities.ChatRoom;
+
+		beforeAll(async () => {
+			const res = await api('chat/rooms/create', { name: 'test room' }, alice);
+			room = res.body;
+		});
+
+		test('ルームを作成するとオーナーがメンバーになる', async () => {
+			const res = await api('chat/rooms/members', { roomId: room.id }, alice);
+
+			assert.strictEqual(res.status, 200);
+			assert.deepStrictEqual(res.body.map(x => x.userId), [alice.id]);
+		});
+
+		test('メンバーでなければメッセージを送信できない', async () => {
+			const res = await api('chat/messages/create-to-room', { toRoomId: room.id, text: 'hi' }, bob);
+
+			assert.strictEqual(res.status, 400);
+			assert.strictEqual(castAsError(res.body).error.code, 'NO_SUCH_ROOM');
+		});
+
+		test('メンバーを追加するとメッセージを送受信できる', async () => {
+			const add = await api('chat/rooms/add-member', { roomId: room.id, userId: bob.id }, alice);
+			assert.strictEqual(add.status, 200);
+
+			const message = await api('chat/messages/create-to-room', { toRoomId: room.id, text: 'hi room' }, bob);
+			assert.strictEqual(message.status, 200);
+			assert.strictEqual(message.body.toRoomId, room.id);
+
+			const timeline = await api('chat/messages/room-timeline', { roomId: room.id }, alice);
+			assert.strictEqual(timeline.status, 200);
+			assert.ok(timeline.body.some(m => m.text === 'hi room'));
+		});
+
+		test('ブロックしている・されているユーザーは追加できない', async () => {
+			const res = await api('chat/rooms/add-member', { roomId: room.id, userId: dave.id }, alice);
+
+			assert.strictEqual(res.status, 400);
+			assert.strictEqual(castAsError(res.body).error.code, 'BLOCKED');
+		});
+
+		test('オーナー以外はメンバーを追加できない', async () => {
+			const res = await api('chat/rooms/add-member', { roomId: room.id, userId: carol.id }, bob);
+
+			assert.strictEqual(res.status, 400);
+			assert.strictEqual(castAsError(res.body).error.code, 'NO_SUCH_ROOM');
+		});
+
+		test('オーナーはルームから退出できない', async () => {
+			const res = await api('chat/rooms/leave', { roomId: room.id }, alice);
+
+			assert.strictEqual(res.status, 400);
+			assert.strictEqual(castAsError(res.body as any).error.code, 'OWNER_CANNOT_LEAVE');
+		});
+
+		test('メンバーはルームから退出できる', async () => {
+			const res = await api('chat/rooms/leave', { roomId: room.id }, bob);
+			assert.strictEqual(res.status, 204);
+
+			const timeline = await api('chat/messages/room-timeline', { roomId: room.id }, bob);
+			assert.strictEqual(timeline.status, 400);
+		});
+
+		test('購読中にメンバーから外されると、以降のメッセージは流れない', async () => {
+			await api('chat/rooms/add-member', { roomId: room.id, userId: carol.id }, alice);
+
+			const received: string[] = [];
+			const ws = await connectStream(carol, 'chatRoom', ({ type, body }) => {
+				if (type === 'message') received.push(body.text);
+			}, { roomId: room.id });
+
+			await api('chat/rooms/remove-member', { roomId: room.id, userId: carol.id }, alice);
+			await api('chat/messages/create-to-room', { toRoomId: room.id, text: 'after kick' }, alice);
+
+			await new Promise(resolve => setTimeout(resolve, 1000));
+			ws.close();
+
+			assert.deepStrictEqual(received, []);
+		});
+
+		test('購読中にルームが削除されると、そのことが伝えられる', async () => {
+			const { body: tempRoom } = await api('chat/rooms/create', { name: 'temp room' }, alice);
+			await api('chat/rooms/add-member', { roomId: tempRoom.id, userId: carol.id }, alice);
+
+			const received: string[] = [];
+			const ws = await connectStream(carol, 'chatRoom', ({ type }) => {
+				received.push(type);
+			}, { roomId: tempRoom.id });
+
+			await api('chat/rooms/delete', { roomId: tempRoom.id }, alice);
+
+			await new Promise(resolve => setTimeout(resolve, 1000));
+			ws.close();
+
+			assert.deepStrictEqual(received, ['roomDeleted']);
+		});
+	});
+});
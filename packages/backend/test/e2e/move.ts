@@ -409,6 +409,7 @@ describe('Account Move', () => {
 			'i/import-blocking',
 			'i/import-following',
 			'i/import-muting',
+			'i/import-notes',
 			'i/import-user-lists',
 			'i/pin',
 			'mute/create',
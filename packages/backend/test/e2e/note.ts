@@ -158,6 +158,34 @@ describe('Note', () => {
 		assert.strictEqual(res.body.createdNote.text, null);
 	});
 
+	test('引用ポリシーが nobody のノートは、CWやリプライを付けても引用できない', async () => {
+		const bobPost = await post(bob, {
+			text: 'test',
+			quotePolicy: 'nobody',
+		});
+		const replyTarget = await post(alice, { text: 'test' });
+
+		const withCw = await api('notes/create', {
+			cw: 'cw',
+			renoteId: bobPost.id,
+		}, alice);
+		assert.strictEqual(withCw.status, 400);
+		assert.strictEqual(castAsError(withCw.body as any).error.code, 'CANNOT_QUOTE_DUE_TO_QUOTE_POLICY');
+
+		const withReply = await api('notes/create', {
+			replyId: replyTarget.id,
+			renoteId: bobPost.id,
+		}, alice);
+		assert.strictEqual(withReply.status, 400);
+		assert.strictEqual(castAsError(withReply.body as any).error.code, 'CANNOT_QUOTE_DUE_TO_QUOTE_POLICY');
+
+		// 引用でないリノートはできる
+		const renote = await api('notes/create', {
+			renoteId: bobPost.id,
+		}, alice);
+		assert.strictEqual(renote.status, 200);
+	});
+
 	test('visibility: followersでrenoteできる', async () => {
 		const createRes = await api('notes/create', {
 			text: 'test',
@@ -980,6 +1008,437 @@ describe('Note', () => {
 		});
 	});
 
+	describe('notes/update', () => {
+		test('自分のノートを編集できる', async () => {
+			const { body } = await api('notes/create', {
+				text: 'before',
+			}, alice);
+
+			const res = await api('notes/update', {
+				noteId: body.createdNote.id,
+				text: 'after',
+				cw: 'cw',
+			}, alice);
+
+			assert.strictEqual(res.status, 200);
+			assert.strictEqual(res.body.updatedNote.text, 'after');
+			assert.strictEqual(res.body.updatedNote.cw, 'cw');
+			assert.strictEqual(res.body.updatedNote.updatedAt != null, true);
+
+			const show = await api('notes/show', {
+				noteId: body.createdNote.id,
+			}, alice);
+			assert.strictEqual(show.body.text, 'after');
+		});
+
+		test('他人のノートは編集できない', async () => {
+			const { body } = await api('notes/create', {
+				text: 'alice note',
+			}, alice);
+
+			const res = await api('notes/update', {
+				noteId: body.createdNote.id,
+				text: 'hacked',
+			}, bob);
+
+			assert.strictEqual(res.status, 400);
+			assert.strictEqual(castAsError(res.body).error.code, 'ACCESS_DENIED');
+		});
+
+		test('リノートは編集できない', async () => {
+			const { body: target } = await api('notes/create', {
+				text: 'target',
+			}, bob);
+			const { body } = await api('notes/create', {
+				renoteId: target.createdNote.id,
+			}, alice);
+
+			const res = await api('notes/update', {
+				noteId: body.createdNote.id,
+				text: 'renote',
+			}, alice);
+
+			assert.strictEqual(res.status, 400);
+			assert.strictEqual(castAsError(res.body).error.code, 'CANNOT_EDIT_PURE_RENOTE');
+		});
+
+		test('内容を空にはできない', async () => {
+			const { body } = await api('notes/create', {
+				text: 'test',
+			}, alice);
+
+			const res = await api('notes/update', {
+				noteId: body.createdNote.id,
+				text: null,
+			}, alice);
+
+			assert.strictEqual(res.status, 400);
+		});
+
+		test('選択肢を変更すると投票がリセットされる', async () => {
+			const { body } = await api('notes/create', {
+				text: 'test',
+				poll: {
+					choices: ['sakura', 'izumi'],
+				},
+			}, alice);
+
+			await api('notes/polls/vote', {
+				noteId: body.createdNote.id,
+				choice: 0,
+			}, bob);
+
+			const res = await api('notes/update', {
+				noteId: body.createdNote.id,
+				text: 'test',
+				poll: {
+					choices: ['sakura', 'izumi', 'ako'],
+				},
+			}, alice);
+
+			assert.strictEqual(res.status, 200);
+			assert.deepStrictEqual(res.body.updatedNote.poll?.choices.map(c => c.votes), [0, 0, 0]);
+		});
+
+		test('編集で追加したメンションが保存される', async () => {
+			const { body } = await api('notes/create', {
+				text: 'before',
+			}, alice);
+
+			const res = await api('notes/update', {
+				noteId: body.createdNote.id,
+				text: `@${bob.username} after`,
+			}, alice);
+
+			assert.strictEqual(res.status, 200);
+			assert.deepStrictEqual(res.body.updatedNote.mentions, [bob.id]);
+
+			const note = await Notes.findOneByOrFail({ id: body.createdNote.id });
+			assert.deepStrictEqual(note.mentions, [bob.id]);
+		});
+	});
+
+	describe('notes/history', () => {
+		test('編集前の内容が新しい順に取得できる', async () => {
+			const { body } = await api('notes/create', {
+				text: 'v1',
+			}, alice);
+			await api('notes/update', {
+				noteId: body.createdNote.id,
+				text: 'v2',
+			}, alice);
+			await api('notes/update', {
+				noteId: body.createdNote.id,
+				text: 'v3',
+			}, alice);
+
+			const res = await api('notes/history', {
+				noteId: body.createdNote.id,
+			}, bob);
+
+			assert.strictEqual(res.status, 200);
+			assert.deepStrictEqual(res.body.map(h => h.text), ['v2', 'v1']);
+		});
+
+		test('内容に変更が無ければ履歴は増えない', async () => {
+			const { body } = await api('notes/create', {
+				text: 'same',
+			}, alice);
+			await api('notes/update', {
+				noteId: body.createdNote.id,
+				text: 'same',
+			}, alice);
+
+			const res = await api('notes/history', {
+				noteId: body.createdNote.id,
+			}, alice);
+
+			assert.strictEqual(res.status, 200);
+			assert.strictEqual(res.body.length, 0);
+		});
+
+		test('見えないノートの履歴は取得できない', async () => {
+			const { body } = await api('notes/create', {
+				text: 'secret',
+				visibility: 'specified',
+			}, alice);
+
+			const res = await api('notes/history', {
+				noteId: body.createdNote.id,
+			}, bob);
+
+			assert.strictEqual(res.status, 400);
+			assert.strictEqual(castAsError(res.body as any).error.code, 'NO_SUCH_NOTE');
+		});
+	});
+
+	describe('notes/scheduled', () => {
+		test('投稿を予約できる', async () => {
+			const scheduledAt = Date.now() + 1000 * 60 * 60;
+
+			const res = await api('notes/scheduled/create', {
+				text: 'scheduled',
+				scheduledAt,
+			}, alice);
+
+			assert.strictEqual(res.status, 200);
+			assert.strictEqual(res.body.text, 'scheduled');
+			assert.strictEqual(res.body.scheduledAt, new Date(scheduledAt).toISOString());
+
+			const list = await api('notes/scheduled/list', {}, alice);
+			assert.strictEqual(list.status, 200);
+			assert.strictEqual(list.body.some(d => d.id === res.body.id), true);
+
+			const others = await api('notes/scheduled/list', {}, bob);
+			assert.strictEqual(others.body.some(d => d.id === res.body.id), false);
+		});
+
+		test('引用の許可範囲が保存される', async () => {
+			const res = await api('notes/scheduled/create', {
+				text: 'scheduled',
+				scheduledAt: Date.now() + 1000 * 60 * 60,
+				quotePolicy: 'followers',
+			}, alice);
+
+			assert.strictEqual(res.status, 200);
+			assert.strictEqual(res.body.quotePolicy, 'followers');
+
+			const update = await api('notes/scheduled/update', {
+				noteDraftId: res.body.id,
+				text: 'scheduled',
+				scheduledAt: Date.now() + 1000 * 60 * 60,
+				quotePolicy: 'nobody',
+			}, alice);
+
+			assert.strictEqual(update.status, 200);
+			assert.strictEqual(update.body.quotePolicy, 'nobody');
+		});
+
+		test('過去の日時には予約できない', async () => {
+			const res = await api('notes/scheduled/create', {
+				text: 'scheduled',
+				scheduledAt: Date.now() - 1000,
+			}, alice);
+
+			assert.strictEqual(res.status, 400);
+			assert.strictEqual(castAsError(res.body).error.code, 'SCHEDULED_AT_MUST_BE_IN_FUTURE');
+		});
+
+		test('予約した投稿を編集できる', async () => {
+			const { body } = await api('notes/scheduled/create', {
+				text: 'before',
+				scheduledAt: Date.now() + 1000 * 60 * 60,
+			}, alice);
+
+			const scheduledAt = Date.now() + 1000 * 60 * 60 * 2;
+			const res = await api('notes/scheduled/update', {
+				noteDraftId: body.id,
+				text: 'after',
+				scheduledAt,
+			}, alice);
+
+			assert.strictEqual(res.status, 200);
+			assert.strictEqual(res.body.text, 'after');
+			assert.strictEqual(res.body.scheduledAt, new Date(scheduledAt).toISOString());
+		});
+
+		test('他人の予約投稿は編集・取り消しできない', async () => {
+			const { body } = await api('notes/scheduled/create', {
+				text: 'alice',
+				scheduledAt: Date.now() + 1000 * 60 * 60,
+			}, alice);
+
+			const update = await api('notes/scheduled/update', {
+				noteDraftId: body.id,
+				text: 'hacked',
+				scheduledAt: Date.now() + 1000 * 60 * 60,
+			}, bob);
+			assert.strictEqual(update.status, 400);
+			assert.strictEqual(castAsError(update.body).error.code, 'NO_SUCH_SCHEDULED_NOTE');
+
+			const del = await api('notes/scheduled/delete', {
+				noteDraftId: body.id,
+			}, bob);
+			assert.strictEqual(del.status, 400);
+			assert.strictEqual(castAsError(del.body as any).error.code, 'NO_SUCH_SCHEDULED_NOTE');
+		});
+
+		test('予約を取り消せる', async () => {
+			const { body } = await api('notes/scheduled/create', {
+				text: 'cancel',
+				scheduledAt: Date.now() + 1000 * 60 * 60,
+			}, alice);
+
+			const res = await api('notes/scheduled/delete', {
+				noteDraftId: body.id,
+			}, alice);
+			assert.strictEqual(res.status, 204);
+
+			const list = await api('notes/scheduled/list', {}, alice);
+			assert.strictEqual(list.body.some(d => d.id === body.id), false);
+		});
+	});
+
+	describe('notes/drafts', () => {
+		test('リプライ先や公開範囲を含めて下書きを保存できる', async () => {
+			const bobPost = await post(bob, {
+				text: 'foo',
+			});
+
+			const res = await api('notes/drafts/create', {
+				text: 'draft',
+				replyId: bobPost.id,
+				visibility: 'specified',
+				visibleUserIds: [bob.id],
+				poll: {
+					choices: ['a', 'b'],
+				},
+			}, alice);
+
+			assert.strictEqual(res.status, 200);
+			assert.strictEqual(res.body.text, 'draft');
+			assert.strictEqual(res.body.replyId, bobPost.id);
+			assert.strictEqual(res.body.reply?.id, bobPost.id);
+			assert.strictEqual(res.body.visibility, 'specified');
+			assert.deepStrictEqual(res.body.visibleUserIds, [bob.id]);
+			assert.deepStrictEqual(res.body.poll?.choices, ['a', 'b']);
+			assert.strictEqual(res.body.scheduledAt, null);
+
+			const show = await api('notes/drafts/show', {
+				noteDraftId: res.body.id,
+			}, alice);
+			assert.strictEqual(show.status, 200);
+			assert.strictEqual(show.body.text, 'draft');
+		});
+
+		test('本文が空でも下書きを保存できる', async () => {
+			const res = await api('notes/drafts/create', {}, alice);
+
+			assert.strictEqual(res.status, 200);
+			assert.strictEqual(res.body.text, null);
+		});
+
+		test('下書きを更新できる', async () => {
+			const { body } = await api('notes/drafts/create', {
+				text: 'before',
+			}, alice);
+
+			const res = await api('notes/drafts/update', {
+				noteDraftId: body.id,
+				text: 'after',
+				cw: 'cw',
+			}, alice);
+
+			assert.strictEqual(res.status, 200);
+			assert.strictEqual(res.body.text, 'after');
+			assert.strictEqual(res.body.cw, 'cw');
+		});
+
+		test('予約投稿は下書き一覧に含まれない', async () => {
+			const { body: draft } = await api('notes/drafts/create', {
+				text: 'draft',
+			}, alice);
+			const { body: scheduled } = await api('notes/scheduled/create', {
+				text: 'scheduled',
+				scheduledAt: Date.now() + 1000 * 60 * 60,
+			}, alice);
+
+			const res = await api('notes/drafts/list', {}, alice);
+
+			assert.strictEqual(res.status, 200);
+			assert.strictEqual(res.body.some(d => d.id === draft.id), true);
+			assert.strictEqual(res.body.some(d => d.id === scheduled.id), false);
+		});
+
+		test('他人の下書きは取得・削除できない', async () => {
+			const { body } = await api('notes/drafts/create', {
+				text: 'alice',
+			}, alice);
+
+			const show = await api('notes/drafts/show', {
+				noteDraftId: body.id,
+			}, bob);
+			assert.strictEqual(show.status, 400);
+			assert.strictEqual(castAsError(show.body).error.code, 'NO_SUCH_DRAFT');
+
+			const del = await api('notes/drafts/delete', {
+				noteDraftId: body.id,
+			}, bob);
+			assert.strictEqual(del.status, 400);
+			assert.strictEqual(castAsError(del.body as any).error.code, 'NO_SUCH_DRAFT');
+		});
+
+		test('下書きを削除できる', async () => {
+			const { body } = await api('notes/drafts/create', {
+				text: 'delete',
+			}, alice);
+
+			const res = await api('notes/drafts/delete', {
+				noteDraftId: body.id,
+			}, alice);
+			assert.strictEqual(res.status, 204);
+
+			const list = await api('notes/drafts/list', {}, alice);
+			assert.strictEqual(list.body.some(d => d.id === body.id), false);
+		});
+	});
+
+	describe('admin/notes', () => {
+		test('非表示にしたノートは投稿者以外から見えない', async () => {
+			const { body: { createdNote } } = await api('notes/create', { text: 'hidden' }, alice);
+
+			const hide = await api('admin/notes/hide', { noteId: createdNote.id }, root);
+			assert.strictEqual(hide.status, 204);
+
+			const byBob = await api('notes/show', { noteId: createdNote.id }, bob);
+			assert.strictEqual(byBob.status, 200);
+			assert.strictEqual(byBob.body.isHidden, true);
+			assert.strictEqual(byBob.body.text, null);
+
+			const byAlice = await api('notes/show', { noteId: createdNote.id }, alice);
+			assert.strictEqual(byAlice.status, 200);
+			assert.strictEqual(byAlice.body.text, 'hidden');
+			assert.strictEqual(byAlice.body.isHiddenByModerator, true);
+
+			const unhide = await api('admin/notes/unhide', { noteId: createdNote.id }, root);
+			assert.strictEqual(unhide.status, 204);
+
+			const byBobAgain = await api('notes/show', { noteId: createdNote.id }, bob);
+			assert.strictEqual(byBobAgain.body.text, 'hidden');
+		});
+
+		test('CWを付けたり外したりできる', async () => {
+			const { body: { createdNote } } = await api('notes/create', { text: 'cw', cw: 'original' }, alice);
+
+			await api('admin/notes/set-cw', { noteId: createdNote.id, cw: 'moderated' }, root);
+			const withCw = await api('notes/show', { noteId: createdNote.id }, bob);
+			assert.strictEqual(withCw.body.cw, 'moderated');
+
+			await api('admin/notes/set-cw', { noteId: createdNote.id, cw: null }, root);
+			const withoutCw = await api('notes/show', { noteId: createdNote.id }, bob);
+			assert.strictEqual(withoutCw.body.cw, 'original');
+		});
+
+		test('公開タイムラインから除外したノートはLTLに流れない', async () => {
+			const { body: { createdNote } } = await api('notes/create', { text: 'excluded' }, alice);
+
+			await api('admin/notes/exclude-from-public-timelines', { noteId: createdNote.id }, root);
+
+			const ltl = await api('notes/local-timeline', { limit: 100 }, bob);
+			assert.strictEqual(ltl.body.some(note => note.id === createdNote.id), false);
+
+			const userNotes = await api('users/notes', { userId: alice.id, limit: 100 }, bob);
+			assert.strictEqual(userNotes.body.some(note => note.id === createdNote.id), true);
+		});
+
+		test('モデレーター以外は使えない', async () => {
+			const { body: { createdNote } } = await api('notes/create', { text: 'test' }, alice);
+
+			const res = await api('admin/notes/hide', { noteId: createdNote.id }, bob);
+			assert.strictEqual(res.status, 403);
+		});
+	});
+
 	describe('notes/translate', () => {
 		describe('翻訳機能の利用が許可されていない場合', () => {
 			let cannotTranslateRole: misskey.entities.Role;
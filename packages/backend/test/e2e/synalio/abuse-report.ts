@@ -3,11 +3,14 @@
  * SPDX-License-Identifier: AGPL-3.0-only
  */
 
+import * as assert from 'assert';
 import { entities } from 'misskey-js';
 import { beforeEach, describe, test } from '@jest/globals';
 import {
 	api,
 	captureWebhook,
+	castAsError,
+	post,
 	randomString,
 	role,
 	signup,
@@ -351,4 +354,54 @@ describe('[シナリオ] ユーザ通報', () => {
 			expect(webhookBody2).toBe('timeout');
 		});
 	});
+
+	describe('対応フロー', () => {
+		test('通報にカテゴリーと対象ユーザーのノートを添付できる', async () => {
+			const note = await post(alice, { text: randomString() });
+
+			await createAbuseReport({ userId: alice.id, category: 'spam', noteIds: [note.id] }, bob);
+
+			const report = (await api('admin/abuse-user-reports', { category: 'spam' }, admin)).body[0];
+			expect(report.category).toBe('spam');
+			expect(report.priority).toBe('normal');
+			expect(report.noteIds).toEqual([note.id]);
+			expect(report.notes.map(n => n.id)).toEqual([note.id]);
+		});
+
+		test('対象ユーザー以外のノートは添付できない', async () => {
+			const note = await post(bob, { text: randomString() });
+
+			const res = await api('users/report-abuse', { userId: alice.id, comment: randomString(), noteIds: [note.id] }, bob);
+			assert.strictEqual(res.status, 400);
+			assert.strictEqual(castAsError(res.body as any).error.code, 'NO_SUCH_NOTE');
+		});
+
+		test('解決時に通報者へ通知できる', async () => {
+			await createAbuseReport({ userId: alice.id }, bob);
+			const reportId = (await api('admin/abuse-user-reports', {}, admin)).body[0].id;
+
+			const message = randomString();
+			await resolveAbuseReport({ reportId, resolvedAs: 'accept', notifyReporter: true, message }, admin);
+
+			const notifications = (await api('i/notifications', { includeTypes: ['abuseReportResolved'] }, bob)).body;
+			assert.strictEqual(notifications.length > 0, true);
+			const notification = notifications[0];
+			assert.strictEqual(notification.type, 'abuseReportResolved');
+			assert.strictEqual(notification.reportId, reportId);
+			assert.strictEqual(notification.resolvedAs, 'accept');
+			assert.strictEqual(notification.message, message);
+		});
+
+		test('同じユーザーへの通報が集まると優先度が上がる', async () => {
+			const target = await signup({ username: 'target' });
+			const reporters = await Promise.all(['reporter1', 'reporter2', 'reporter3'].map(username => signup({ username })));
+			for (const reporter of reporters) {
+				await createAbuseReport({ userId: target.id }, reporter);
+			}
+
+			const reports = (await api('admin/abuse-user-reports', { priority: 'high' }, admin)).body
+				.filter(report => report.targetUserId === target.id);
+			assert.strictEqual(reports.length, 3);
+		});
+	});
 });
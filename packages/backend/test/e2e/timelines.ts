@@ -9,8 +9,10 @@
 import * as assert from 'assert';
 import { setTimeout } from 'node:timers/promises';
 import { Redis } from 'ioredis';
-import { api, post, randomString, sendEnvUpdateRequest, signup, uploadUrl } from '../utils.js';
+import { api, initTestDb, post, randomString, sendEnvUpdateRequest, signup, uploadUrl } from '../utils.js';
 import { loadConfig } from '@/config.js';
+import { MiInstance } from '@/models/_.js';
+import { genAidx } from '@/misc/id/aidx.js';
 
 function genHost() {
 	return randomString() + '.example.com';
@@ -1453,6 +1455,32 @@ describe('Timelines', () => {
 		});
 	});
 
+	describe('Global TL', () => {
+		test.concurrent('グローバルタイムラインに表示しないサーバーとそのサブドメインのノートが含まれない', async () => {
+			const hiddenHost = genHost();
+			const [alice, bob, carol, dave] = await Promise.all([signup(), signup({ host: hiddenHost }), signup({ host: `sub.${hiddenHost}` }), signup({ host: genHost() })]);
+
+			const connection = await initTestDb(true);
+			await connection.getRepository(MiInstance).insert({
+				id: genAidx(Date.now()),
+				host: hiddenHost,
+				firstRetrievedAt: new Date(),
+				policies: ['hideFromGlobalTimeline'],
+			});
+			await connection.destroy();
+
+			const bobNote = await post(bob, { text: 'hi' });
+			const carolNote = await post(carol, { text: 'hi' });
+			const daveNote = await post(dave, { text: 'hi' });
+
+			const res = await api('notes/global-timeline', { limit: 100 }, alice);
+
+			assert.strictEqual(res.body.some(note => note.id === bobNote.id), false);
+			assert.strictEqual(res.body.some(note => note.id === carolNote.id), false);
+			assert.strictEqual(res.body.some(note => note.id === daveNote.id), true);
+		});
+	});
+
 	// TODO: リノートミュート済みユーザーのテスト
 	// TODO: ページネーションのテスト
 });
@@ -0,0 +1,98 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+process.env.NODE_ENV = 'test';
+
+import * as assert from 'assert';
+import { api, castAsError, post, role, signup } from '../utils.js';
+import type * as misskey from 'misskey-js';
+
+describe('User warning', () => {
+	let root: misskey.entities.SignupResponse;
+	let alice: misskey.entities.SignupResponse;
+	let bob: misskey.entities.SignupResponse;
+
+	beforeAll(async () => {
+		root = await signup({ username: 'root' });
+		alice = await signup({ username: 'alice' });
+		bob = await signup({ username: 'bob' });
+	}, 1000 * 60 * 2);
+
+	test('警告すると未確認の警告として i に含まれ、確認すると含まれなくなる', async () => {
+		const note = await post(alice, { text: 'test' });
+
+		const res = await api('admin/warn-user', {
+			userId: alice.id,
+			reason: 'reason',
+			noteId: note.id,
+		}, root);
+		assert.strictEqual(res.status, 200);
+		assert.strictEqual(res.body.noteId, note.id);
+		assert.strictEqual(res.body.moderatorId, root.id);
+
+		const i = await api('i', {}, alice);
+		assert.deepStrictEqual(i.body.unacknowledgedWarnings.map(w => w.id), [res.body.id]);
+		// モデレーター向けの情報は含まれない
+		assert.strictEqual(i.body.unacknowledgedWarnings[0].moderatorId, undefined);
+
+		await api('i/acknowledge-warning', { warningId: res.body.id }, alice);
+
+		const i2 = await api('i', {}, alice);
+		assert.strictEqual(i2.body.unacknowledgedWarnings.length, 0);
+	});
+
+	test('他のユーザーのノートを指定して警告できない', async () => {
+		const note = await post(bob, { text: 'test' });
+
+		const res = await api('admin/warn-user', {
+			userId: alice.id,
+			reason: 'reason',
+			noteId: note.id,
+		}, root);
+		assert.strictEqual(res.status, 400);
+		assert.strictEqual(castAsError(res.body as any).error.code, 'NO_SUCH_NOTE');
+	});
+
+	test('警告と同時にロールを期限付きでアサインし、異議を認めると外れる', async () => {
+		const silenceRole = await role(root, {}, { canPublicNote: { priority: 0, useDefault: false, value: false } });
+		const roleExpiresAt = Date.now() + 1000 * 60 * 60;
+
+		const warning = (await api('admin/warn-user', {
+			userId: bob.id,
+			reason: 'reason',
+			roleId: silenceRole.id,
+			roleExpiresAt,
+		}, root)).body;
+		assert.strictEqual(warning.roleId, silenceRole.id);
+
+		const assigned = (await api('admin/roles/users', { roleId: silenceRole.id }, root)).body;
+		assert.strictEqual(assigned.length, 1);
+		assert.strictEqual(new Date(assigned[0].expiresAt!).getTime(), roleExpiresAt);
+
+		const appeal = await api('i/appeal-warning', { warningId: warning.id, comment: 'comment' }, bob);
+		assert.strictEqual(appeal.status, 204);
+
+		// 異議申し立ては1回まで
+		const appeal2 = await api('i/appeal-warning', { warningId: warning.id, comment: 'comment' }, bob);
+		assert.strictEqual(appeal2.status, 400);
+		assert.strictEqual(castAsError(appeal2.body as any).error.code, 'CANNOT_APPEAL');
+
+		const pending = (await api('admin/user-warnings', { appealStatus: 'pending' }, root)).body;
+		assert.deepStrictEqual(pending.map(w => w.id), [warning.id]);
+
+		await api('admin/resolve-user-warning-appeal', { warningId: warning.id, accept: true }, root);
+
+		const warnings = (await api('i/warnings', {}, bob)).body;
+		assert.strictEqual(warnings[0].appealStatus, 'accepted');
+		assert.notStrictEqual(warnings[0].revokedAt, null);
+
+		const unassigned = (await api('admin/roles/users', { roleId: silenceRole.id }, root)).body;
+		assert.strictEqual(unassigned.length, 0);
+
+		const notifications = (await api('i/notifications', { includeTypes: ['userWarningAppealResolved'] }, bob)).body;
+		assert.strictEqual(notifications.length, 1);
+		assert.strictEqual(notifications[0].type, 'userWarningAppealResolved');
+	});
+});
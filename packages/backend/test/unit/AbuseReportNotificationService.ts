@@ -373,9 +373,16 @@ describe('AbuseReportNotificationService', () => {
 					assignee: null,
 					resolved: false,
 					forwarded: false,
+					forwardStatus: null,
+					forwardedAt: null,
+					forwardError: null,
+					originUri: null,
 					comment: 'test',
+					category: 'other',
+					noteIds: [],
 					moderationNote: '',
 					resolvedAs: null,
+					priority: 'normal',
 					targetUserHost: null,
 					reporterHost: null,
 				},
@@ -0,0 +1,248 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+process.env.NODE_ENV = 'test';
+
+import * as assert from 'assert';
+import { jest } from '@jest/globals';
+import { Test, TestingModule } from '@nestjs/testing';
+import Fastify, { FastifyInstance } from 'fastify';
+import { GlobalModule } from '@/GlobalModule.js';
+import { CoreModule } from '@/core/CoreModule.js';
+import { DI } from '@/di-symbols.js';
+import { ActivityPubServerService } from '@/server/ActivityPubServerService.js';
+import { ApDbResolverService } from '@/core/activitypub/ApDbResolverService.js';
+import { ApRequestCreator } from '@/core/activitypub/ApRequestService.js';
+import { FederatedInstanceService } from '@/core/FederatedInstanceService.js';
+import { IdService } from '@/core/IdService.js';
+import { genRsaKeyPair } from '@/misc/gen-key-pair.js';
+import type { Config } from '@/config.js';
+import type {
+	FollowingsRepository,
+	MiMeta,
+	MiNote,
+	MiUser,
+	MiUserPublickey,
+	NotesRepository,
+	UserKeypairsRepository,
+	UserProfilesRepository,
+	UsersRepository,
+} from '@/models/_.js';
+import type { MiRemoteUser } from '@/models/User.js';
+
+describe('ActivityPubServerService', () => {
+	let app: TestingModule;
+	let fastify: FastifyInstance;
+	let config: Config;
+	let idService: IdService;
+	let usersRepository: UsersRepository;
+	let userProfilesRepository: UserProfilesRepository;
+	let userKeypairsRepository: UserKeypairsRepository;
+	let notesRepository: NotesRepository;
+	let followingsRepository: FollowingsRepository;
+
+	let signerKeypair: { publicKey: string; privateKey: string; };
+	let alice: MiUser;
+	let signer: MiRemoteUser;
+
+	const signerHost = 'remote.test';
+	const keyId = `https://${signerHost}/users/signer#main-key`;
+
+	const meta = {
+		enableAuthorizedFetch: true,
+		federation: 'all',
+		federationHosts: [] as string[],
+		blockedHosts: [] as string[],
+	} as MiMeta;
+
+	async function createNote(data: Partial<MiNote> = {}): Promise<MiNote> {
+		const id = idService.gen();
+		await notesRepository.insert({
+			id,
+			userId: alice.id,
+			userHost: null,
+			text: 'test',
+			visibility: 'public',
+			localOnly: false,
+			...data,
+		});
+		return await notesRepository.findOneByOrFail({ id });
+	}
+
+	async function get(path: string, signed = true) {
+		const url = `${config.url}${path}`;
+		const headers = signed
+			? ApRequestCreator.createSignedGet({
+				key: { keyId, privateKeyPem: signerKeypair.privateKey },
+				url,
+				additionalHeaders: {},
+			}).request.headers
+			: { accept: 'application/activity+json', host: config.host };
+
+		return await fastify.inject({ method: 'GET', url: path, headers });
+	}
+
+	beforeAll(async () => {
+		app = await Test.createTestingModule({
+			imports: [GlobalModule, CoreModule],
+			providers: [ActivityPubServerService],
+		})
+			.overrideProvider(DI.meta).useFactory({ factory: () => meta })
+			.compile();
+
+		await app.init();
+		app.enableShutdownHooks();
+
+		config = app.get<Config>(DI.config);
+		idService = app.get<IdService>(IdService);
+		usersRepository = app.get<UsersRepository>(DI.usersRepository);
+		userProfilesRepository = app.get<UserProfilesRepository>(DI.userProfilesRepository);
+		userKeypairsRepository = app.get<UserKeypairsRepository>(DI.userKeypairsRepository);
+		notesRepository = app.get<NotesRepository>(DI.notesRepository);
+		followingsRepository = app.get<FollowingsRepository>(DI.followingsRepository);
+
+		const aliceKeypair = await genRsaKeyPair();
+		alice = await usersRepository.save({ id: idService.gen(), username: 'alice', usernameLower: 'alice', host: null });
+		await userProfilesRepository.insert({ userId: alice.id });
+		await userKeypairsRepository.insert({ userId: alice.id, ...aliceKeypair });
+
+		signerKeypair = await genRsaKeyPair();
+		signer = await usersRepository.save({
+			id: idService.gen(),
+			username: 'signer',
+			usernameLower: 'signer',
+			host: signerHost,
+			uri: `https://${signerHost}/users/signer`,
+			inbox: `https://${signerHost}/users/signer/inbox`,
+		}) as MiRemoteUser;
+
+		// 署名者の公開鍵はリモートから取得せず、常に同じものを返す
+		const apDbResolverService = app.get<ApDbResolverService>(ApDbResolverService);
+		jest.spyOn(apDbResolverService, 'getAuthUserFromKeyId').mockImplementation(async (id) => {
+			if (id !== keyId) return null;
+			const user = await usersRepository.findOneByOrFail({ id: signer.id }) as MiRemoteUser;
+			return { user, key: { keyId, keyPem: signerKeypair.publicKey } as MiUserPublickey };
+		});
+		jest.spyOn(apDbResolverService, 'getAuthUserFromApId').mockResolvedValue(null);
+
+		const federatedInstanceService = app.get<FederatedInstanceService>(FederatedInstanceService);
+		jest.spyOn(federatedInstanceService, 'fetch').mockResolvedValue(null);
+
+		fastify = Fastify();
+		await fastify.register(app.get<ActivityPubServerService>(ActivityPubServerService).createServer);
+		await fastify.ready();
+	});
+
+	afterEach(async () => {
+		meta.blockedHosts = [];
+		await usersRepository.update(signer.id, { isSuspended: false });
+		await followingsRepository.delete({});
+	});
+
+	afterAll(async () => {
+		await fastify.close();
+		await app.close();
+	});
+
+	describe('Authorized fetch', () => {
+		test('署名の無いリクエストは401', async () => {
+			const note = await createNote();
+
+			const res = await get(`/notes/${note.id}`, false);
+
+			assert.strictEqual(res.statusCode, 401);
+		});
+
+		test('署名が正しければ取得できる', async () => {
+			const note = await createNote();
+
+			const res = await get(`/notes/${note.id}`);
+
+			assert.strictEqual(res.statusCode, 200);
+			assert.strictEqual(res.json().id, `${config.url}/notes/${note.id}`);
+			assert.strictEqual(res.headers['cache-control'], 'private, max-age=180');
+		});
+
+		test('ブロックしているサーバーの署名は403', async () => {
+			const note = await createNote();
+			meta.blockedHosts = [signerHost];
+
+			const res = await get(`/notes/${note.id}`);
+
+			assert.strictEqual(res.statusCode, 403);
+		});
+
+		test('凍結されているユーザーの署名は403', async () => {
+			const note = await createNote();
+			await usersRepository.update(signer.id, { isSuspended: true });
+
+			const res = await get(`/notes/${note.id}`);
+
+			assert.strictEqual(res.statusCode, 403);
+		});
+
+		test('フォロワー限定の投稿はフォロワーの署名でのみ取得できる', async () => {
+			const note = await createNote({ visibility: 'followers' });
+
+			assert.strictEqual((await get(`/notes/${note.id}`)).statusCode, 404);
+
+			await followingsRepository.insert({
+				id: idService.gen(),
+				followerId: signer.id,
+				followeeId: alice.id,
+				followerHost: signerHost,
+			});
+
+			assert.strictEqual((await get(`/notes/${note.id}`)).statusCode, 200);
+		});
+
+		test('署名の無いActorの取得には公開鍵を含む最小限のActorを返す', async () => {
+			const res = await get(`/users/${alice.id}`, false);
+
+			assert.strictEqual(res.statusCode, 200);
+			const actor = res.json();
+			assert.strictEqual(actor.id, `${config.url}/users/${alice.id}`);
+			assert.strictEqual(actor.publicKey.id, `${config.url}/users/${alice.id}#main-key`);
+			assert.strictEqual(actor.outbox, undefined);
+			assert.strictEqual(actor.name, undefined);
+		});
+
+		test('署名付きのActorの取得には全体を返す', async () => {
+			const res = await get(`/users/${alice.id}`);
+
+			assert.strictEqual(res.statusCode, 200);
+			assert.strictEqual(res.json().outbox, `${config.url}/users/${alice.id}/outbox`);
+		});
+
+		test('不正な署名付きのActorの取得は401', async () => {
+			const headers = {
+				...ApRequestCreator.createSignedGet({
+					key: { keyId, privateKeyPem: (await genRsaKeyPair()).privateKey },
+					url: `${config.url}/users/${alice.id}`,
+					additionalHeaders: {},
+				}).request.headers,
+			};
+
+			const res = await fastify.inject({ method: 'GET', url: `/users/${alice.id}`, headers });
+
+			assert.strictEqual(res.statusCode, 401);
+		});
+
+		test('keyIdがURLでない署名は401', async () => {
+			const note = await createNote();
+			const headers = {
+				...ApRequestCreator.createSignedGet({
+					key: { keyId: 'main-key', privateKeyPem: signerKeypair.privateKey },
+					url: `${config.url}/notes/${note.id}`,
+					additionalHeaders: {},
+				}).request.headers,
+			};
+
+			const res = await fastify.inject({ method: 'GET', url: `/notes/${note.id}`, headers });
+
+			assert.strictEqual(res.statusCode, 401);
+		});
+	});
+});
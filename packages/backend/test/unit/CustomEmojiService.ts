@@ -34,8 +34,10 @@ describe('CustomEmojiService', () => {
 					UtilityService,
 					IdService,
 					EmojiEntityService,
-					ModerationLogService,
 					GlobalEventService,
+					{
+						provide: ModerationLogService, useFactory: () => ({ log: () => Promise.resolve() }),
+					},
 				],
 			})
 			.compile();
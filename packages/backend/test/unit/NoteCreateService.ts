@@ -30,13 +30,21 @@ describe('NoteCreateService', () => {
 			renoteId: null,
 			renote: null,
 			threadId: null,
+			contextUri: null,
+			moderatorCw: null,
+			isHiddenByModerator: false,
+			isSensitiveByModerator: false,
+			isExcludedFromPublicTimelines: false,
 			text: null,
 			name: null,
 			cw: null,
+			updatedAt: null,
 			userId: 'some-user-id',
 			user: null,
 			localOnly: false,
 			reactionAcceptance: null,
+			quotePolicy: 'public',
+			quoteAuthorizationUri: null,
 			renoteCount: 0,
 			repliesCount: 0,
 			clippedCount: 0,
@@ -53,6 +61,7 @@ describe('NoteCreateService', () => {
 			emojis: [],
 			tags: [],
 			hasPoll: false,
+			lang: null,
 			channelId: null,
 			channel: null,
 			userHost: null,
@@ -21,6 +21,7 @@ import {
 	MiUser,
 	RoleAssignmentsRepository,
 	RolesRepository,
+	UserProfilesRepository,
 	UsersRepository,
 } from '@/models/_.js';
 import { DI } from '@/di-symbols.js';
@@ -40,6 +41,7 @@ describe('RoleService', () => {
 	let app: TestingModule;
 	let roleService: RoleService;
 	let usersRepository: UsersRepository;
+	let userProfilesRepository: UserProfilesRepository;
 	let rolesRepository: RolesRepository;
 	let roleAssignmentsRepository: RoleAssignmentsRepository;
 	let meta: jest.Mocked<MiMeta>;
@@ -140,6 +142,7 @@ describe('RoleService', () => {
 
 		roleService = app.get<RoleService>(RoleService);
 		usersRepository = app.get<UsersRepository>(DI.usersRepository);
+		userProfilesRepository = app.get<UserProfilesRepository>(DI.userProfilesRepository);
 		rolesRepository = app.get<RolesRepository>(DI.rolesRepository);
 		roleAssignmentsRepository = app.get<RoleAssignmentsRepository>(DI.roleAssignmentsRepository);
 
@@ -154,6 +157,7 @@ describe('RoleService', () => {
 
 		await Promise.all([
 			app.get(DI.metasRepository).delete({}),
+			userProfilesRepository.delete({}),
 			usersRepository.delete({}),
 			rolesRepository.delete({}),
 			roleAssignmentsRepository.delete({}),
@@ -899,6 +903,131 @@ describe('RoleService', () => {
 			expect(actual2.some(r => r.id === role.id)).toBe(true);
 			expect(actual3.some(r => r.id === role.id)).toBe(true);
 		});
+
+		test('サーバーのホストが一致', async () => {
+			const [user1, user2, user3] = await Promise.all([
+				createUser({ host: null }),
+				createUser({ host: 'example.com' }),
+				createUser({ host: 'social.example.com' }),
+			]);
+			const role = await createConditionalRole({
+				id: aidx(),
+				type: 'hostMatches',
+				host: '*.example.com',
+			});
+
+			const actual1 = await roleService.getUserRoles(user1.id);
+			const actual2 = await roleService.getUserRoles(user2.id);
+			const actual3 = await roleService.getUserRoles(user3.id);
+			expect(actual1.some(r => r.id === role.id)).toBe(false);
+			expect(actual2.some(r => r.id === role.id)).toBe(false);
+			expect(actual3.some(r => r.id === role.id)).toBe(true);
+		});
+
+		test('確認済みのメールアドレスのドメインが一致', async () => {
+			const [user1, user2, user3] = await Promise.all([
+				createUser(),
+				createUser(),
+				createUser(),
+			]);
+			await userProfilesRepository.insert([
+				{ userId: user1.id, email: 'alice@example.com', emailVerified: true },
+				{ userId: user2.id, email: 'bob@example.com', emailVerified: false },
+				{ userId: user3.id, email: 'carol@example.net', emailVerified: true },
+			]);
+			const role = await createConditionalRole({
+				id: aidx(),
+				type: 'emailDomainMatches',
+				domain: 'example.com',
+			});
+
+			const actual1 = await roleService.getUserRoles(user1.id);
+			const actual2 = await roleService.getUserRoles(user2.id);
+			const actual3 = await roleService.getUserRoles(user3.id);
+			expect(actual1.some(r => r.id === role.id)).toBe(true);
+			expect(actual2.some(r => r.id === role.id)).toBe(false);
+			expect(actual3.some(r => r.id === role.id)).toBe(false);
+		});
+
+		test('連続ログイン日数が指定値以上', async () => {
+			const toKey = (daysAgo: number) => {
+				const date = new Date();
+				date.setDate(date.getDate() - daysAgo);
+				return `${date.getFullYear()}/${date.getMonth() + 1}/${date.getDate()}`;
+			};
+
+			const [user1, user2, user3] = await Promise.all([
+				createUser(),
+				createUser(),
+				createUser(),
+			]);
+			await userProfilesRepository.insert([
+				// 今日を含めて3日連続
+				{ userId: user1.id, loggedInDates: [toKey(2), toKey(1), toKey(0)] },
+				// 今日はまだログインしていないが、昨日まで3日連続
+				{ userId: user2.id, loggedInDates: [toKey(3), toKey(2), toKey(1)] },
+				// 途切れている
+				{ userId: user3.id, loggedInDates: [toKey(4), toKey(3), toKey(1), toKey(0)] },
+			]);
+			const role = await createConditionalRole({
+				id: aidx(),
+				type: 'loggedInStreakMoreThanOrEq',
+				value: 3,
+			});
+
+			const actual1 = await roleService.getUserRoles(user1.id);
+			const actual2 = await roleService.getUserRoles(user2.id);
+			const actual3 = await roleService.getUserRoles(user3.id);
+			expect(actual1.some(r => r.id === role.id)).toBe(true);
+			expect(actual2.some(r => r.id === role.id)).toBe(true);
+			expect(actual3.some(r => r.id === role.id)).toBe(false);
+		});
+
+		test('二段階認証が有効', async () => {
+			const [user1, user2] = await Promise.all([
+				createUser(),
+				createUser(),
+			]);
+			await userProfilesRepository.insert([
+				{ userId: user1.id, twoFactorEnabled: false },
+				{ userId: user2.id, twoFactorEnabled: true },
+			]);
+			const role = await createConditionalRole({
+				id: aidx(),
+				type: 'isTwoFactorEnabled',
+			});
+
+			const actual1 = await roleService.getUserRoles(user1.id);
+			const actual2 = await roleService.getUserRoles(user2.id);
+			expect(actual1.some(r => r.id === role.id)).toBe(false);
+			expect(actual2.some(r => r.id === role.id)).toBe(true);
+		});
+
+		test('最終アクティブから指定期間経過した', async () => {
+			const d1 = new Date();
+			const d2 = new Date();
+			d1.setMinutes(d1.getMinutes() - 1);
+			d2.setMinutes(d2.getMinutes() - 10);
+
+			const [user1, user2, user3] = await Promise.all([
+				createUser({ lastActiveDate: d1 }),
+				createUser({ lastActiveDate: d2 }),
+				createUser({ lastActiveDate: null }),
+			]);
+			const role = await createConditionalRole({
+				id: aidx(),
+				type: 'lastActiveMoreThan',
+				// 5 minutes
+				sec: 300,
+			});
+
+			const actual1 = await roleService.getUserRoles(user1.id);
+			const actual2 = await roleService.getUserRoles(user2.id);
+			const actual3 = await roleService.getUserRoles(user3.id);
+			expect(actual1.some(r => r.id === role.id)).toBe(false);
+			expect(actual2.some(r => r.id === role.id)).toBe(true);
+			expect(actual3.some(r => r.id === role.id)).toBe(true);
+		});
 	});
 
 	describe('assign', () => {
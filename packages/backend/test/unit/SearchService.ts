@@ -0,0 +1,176 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+process.env.NODE_ENV = 'test';
+
+import { jest } from '@jest/globals';
+import { Test } from '@nestjs/testing';
+import { DI } from '@/di-symbols.js';
+import type { Config, FulltextSearchProvider } from '@/config.js';
+import { SearchService } from '@/core/SearchService.js';
+import { LoggerService } from '@/core/LoggerService.js';
+import { UtilityService } from '@/core/UtilityService.js';
+import { SqlLikeNoteSearchProvider } from '@/core/search/SqlLikeNoteSearchProvider.js';
+import { SqlTsvectorNoteSearchProvider } from '@/core/search/SqlTsvectorNoteSearchProvider.js';
+import { MeilisearchNoteSearchProvider } from '@/core/search/MeilisearchNoteSearchProvider.js';
+import { OpenSearchNoteSearchProvider } from '@/core/search/OpenSearchNoteSearchProvider.js';
+import { expandLang, isInIndexScope } from '@/core/search/NoteSearchProvider.js';
+import type { MiNote } from '@/models/Note.js';
+import type { MiUser } from '@/models/User.js';
+
+function createProviderMock() {
+	return {
+		indexNote: jest.fn(async () => {}),
+		unindexNote: jest.fn(async () => {}),
+		searchNote: jest.fn(async () => [] as MiNote[]),
+		rebuildIndex: jest.fn(async () => {}),
+	};
+}
+
+describe('SearchService', () => {
+	async function createService(provider: FulltextSearchProvider | undefined) {
+		const providers = {
+			sqlLike: createProviderMock(),
+			sqlTsvector: createProviderMock(),
+			meilisearch: createProviderMock(),
+			opensearch: createProviderMock(),
+		};
+
+		const usersRepository = {
+			findOneBy: jest.fn(async () => null as MiUser | null),
+		};
+
+		const app = await Test.createTestingModule({
+			providers: [
+				SearchService,
+				{ provide: DI.config, useValue: { host: 'misskey.local', fulltextSearch: provider ? { provider } : undefined } as Partial<Config> },
+				{ provide: DI.usersRepository, useValue: usersRepository },
+				{ provide: UtilityService, useValue: { isSelfHost: (host: string) => host === 'misskey.local', toPuny: (host: string) => host } },
+				{ provide: LoggerService, useValue: { getLogger: () => ({ info: jest.fn() }) } },
+				{ provide: SqlLikeNoteSearchProvider, useValue: providers.sqlLike },
+				{ provide: SqlTsvectorNoteSearchProvider, useValue: providers.sqlTsvector },
+				{ provide: MeilisearchNoteSearchProvider, useValue: providers.meilisearch },
+				{ provide: OpenSearchNoteSearchProvider, useValue: providers.opensearch },
+			],
+		}).compile();
+
+		return { service: app.get(SearchService), providers, usersRepository };
+	}
+
+	const note = { id: 'a', text: 'hello', cw: null, visibility: 'public', userHost: null } as MiNote;
+
+	test('デフォルトではsqlLikeを使う', async () => {
+		const { service, providers } = await createService(undefined);
+
+		await service.searchNote('hello', null, {}, { limit: 10 });
+
+		expect(providers.sqlLike.searchNote).toHaveBeenCalledTimes(1);
+		expect(providers.sqlTsvector.searchNote).not.toHaveBeenCalled();
+	});
+
+	test('sqlPgroongaはsqlLikeと同じプロバイダを使う', async () => {
+		const { service, providers } = await createService('sqlPgroonga');
+
+		await service.searchNote('hello', null, {}, { limit: 10 });
+
+		expect(providers.sqlLike.searchNote).toHaveBeenCalledTimes(1);
+	});
+
+	test.each([
+		['sqlTsvector', 'sqlTsvector'],
+		['meilisearch', 'meilisearch'],
+		['opensearch', 'opensearch'],
+	] as const)('%s を選ぶと対応するプロバイダに委譲する', async (name, key) => {
+		const { service, providers } = await createService(name);
+
+		await service.indexNote(note);
+		await service.unindexNote(note);
+		await service.searchNote('hello', null, { host: '.' }, { limit: 10 });
+		await service.rebuildIndex();
+
+		expect(providers[key].indexNote).toHaveBeenCalledWith(note);
+		expect(providers[key].unindexNote).toHaveBeenCalledWith(note);
+		expect(providers[key].searchNote).toHaveBeenCalledWith({ words: ['hello'], phrases: [], excludedWords: [] }, null, { host: '.' }, { limit: 10 });
+		expect(providers[key].rebuildIndex).toHaveBeenCalledTimes(1);
+		expect(providers.sqlLike.searchNote).not.toHaveBeenCalled();
+	});
+
+	describe('検索構文', () => {
+		test('語とフレーズと除外する語をプロバイダに渡す', async () => {
+			const { service, providers } = await createService(undefined);
+
+			await service.searchNote('hello "exact phrase" -spam', null, {}, { limit: 10 });
+
+			expect(providers.sqlLike.searchNote).toHaveBeenCalledWith({
+				words: ['hello'],
+				phrases: ['exact phrase'],
+				excludedWords: ['spam'],
+			}, null, {}, { limit: 10 });
+		});
+
+		test('演算子を検索条件にする', async () => {
+			const { service, providers } = await createService(undefined);
+
+			await service.searchNote('has:media has:poll in:channel before:2025-01-01 after:2024-12-01 lang:ja reply:false hello', null, {}, { limit: 10 });
+
+			expect(providers.sqlLike.searchNote).toHaveBeenCalledWith({
+				words: ['hello'],
+				phrases: [],
+				excludedWords: [],
+			}, null, {
+				hasFile: true,
+				hasPoll: true,
+				inChannel: true,
+				untilDate: Date.UTC(2025, 0, 1),
+				sinceDate: Date.UTC(2024, 11, 2),
+				lang: 'ja',
+				reply: false,
+			}, { limit: 10 });
+		});
+
+		test('from: はユーザーを解決して絞り込む', async () => {
+			const { service, providers, usersRepository } = await createService(undefined);
+			usersRepository.findOneBy.mockResolvedValueOnce({ id: 'alice' } as MiUser);
+
+			await service.searchNote('from:@alice@misskey.local hello', null, {}, { limit: 10 });
+
+			expect(usersRepository.findOneBy).toHaveBeenCalledWith(expect.objectContaining({ usernameLower: 'alice' }));
+			expect(providers.sqlLike.searchNote).toHaveBeenCalledWith(expect.anything(), null, { userId: 'alice' }, { limit: 10 });
+		});
+
+		test('from: のユーザーが存在しなければ何も返さない', async () => {
+			const { service, providers } = await createService(undefined);
+
+			expect(await service.searchNote('from:@nobody@example.com hello', null, {}, { limit: 10 })).toEqual([]);
+			expect(providers.sqlLike.searchNote).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('expandLang', () => {
+		test('主言語タグを加える', () => {
+			expect(expandLang(null)).toEqual([]);
+			expect(expandLang('ja')).toEqual(['ja']);
+			expect(expandLang('zh-tw')).toEqual(['zh-tw', 'zh']);
+		});
+	});
+
+	describe('isInIndexScope', () => {
+		test('local', () => {
+			expect(isInIndexScope('local', null)).toBe(true);
+			expect(isInIndexScope('local', 'example.com')).toBe(false);
+		});
+
+		test('global', () => {
+			expect(isInIndexScope('global', null)).toBe(true);
+			expect(isInIndexScope('global', 'example.com')).toBe(true);
+		});
+
+		test('hosts', () => {
+			expect(isInIndexScope(['example.com'], null)).toBe(true);
+			expect(isInIndexScope(['example.com'], 'example.com')).toBe(true);
+			expect(isInIndexScope(['example.com'], 'example.net')).toBe(false);
+		});
+	});
+});
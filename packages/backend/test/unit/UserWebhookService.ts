@@ -328,5 +328,27 @@ describe('UserWebhookService', () => {
 				expect(queueService.userWebhookDeliver.mock.calls[0][0] as MiWebhook).toEqual(webhook1);
 			});
 		});
+
+		describe('hasActiveWebhook', () => {
+			test('有効かつ許可されたイベント種別のWebhookがあればtrue', async () => {
+				const webhook = await createWebhook({
+					active: true,
+					on: ['noteDeleted'],
+				});
+
+				expect(await service.hasActiveWebhook(webhook.userId, 'noteDeleted')).toBe(true);
+				expect(await service.hasActiveWebhook(webhook.userId, 'pollEnded')).toBe(false);
+				expect(await service.hasActiveWebhook(idService.gen(), 'noteDeleted')).toBe(false);
+			});
+
+			test('非アクティブなWebhookしかなければfalse', async () => {
+				const webhook = await createWebhook({
+					active: false,
+					on: ['noteDeleted'],
+				});
+
+				expect(await service.hasActiveWebhook(webhook.userId, 'noteDeleted')).toBe(false);
+			});
+		});
 	});
 });
@@ -13,14 +13,21 @@ import { ApImageService } from '@/core/activitypub/models/ApImageService.js';
 import { ApNoteService } from '@/core/activitypub/models/ApNoteService.js';
 import { ApPersonService } from '@/core/activitypub/models/ApPersonService.js';
 import { ApRendererService } from '@/core/activitypub/ApRendererService.js';
+import { ApResolverService } from '@/core/activitypub/ApResolverService.js';
+import { ApBackfillService } from '@/core/activitypub/ApBackfillService.js';
+import { ApInboxService } from '@/core/activitypub/ApInboxService.js';
 import { JsonLdService } from '@/core/activitypub/JsonLdService.js';
 import { CONTEXT } from '@/core/activitypub/misc/contexts.js';
 import { GlobalModule } from '@/GlobalModule.js';
 import { CoreModule } from '@/core/CoreModule.js';
 import { FederatedInstanceService } from '@/core/FederatedInstanceService.js';
 import { LoggerService } from '@/core/LoggerService.js';
-import type { IActor, IApDocument, ICollection, IObject, IPost } from '@/core/activitypub/type.js';
-import { MiMeta, MiNote, UserProfilesRepository } from '@/models/_.js';
+import { QueueService } from '@/core/QueueService.js';
+import { IdService } from '@/core/IdService.js';
+import type { IActor, IApDocument, ICollection, IFlag, IFollow, IObject, IPost } from '@/core/activitypub/type.js';
+import { AbuseUserReportsRepository, DriveFilesRepository, FollowingsRepository, MiMeta, MiNote, UserProfilesRepository, UsersRepository } from '@/models/_.js';
+import type { InstancePolicy } from '@/models/Instance.js';
+import type { Config } from '@/config.js';
 import { DI } from '@/di-symbols.js';
 import { secureRndstr } from '@/misc/secure-rndstr.js';
 import { DownloadService } from '@/core/DownloadService.js';
@@ -86,11 +93,22 @@ async function createRandomRemoteUser(
 }
 
 describe('ActivityPub', () => {
+	let config: Config;
 	let userProfilesRepository: UserProfilesRepository;
+	let usersRepository: UsersRepository;
+	let followingsRepository: FollowingsRepository;
+	let abuseUserReportsRepository: AbuseUserReportsRepository;
+	let driveFilesRepository: DriveFilesRepository;
+	let idService: IdService;
+	let federatedInstanceService: FederatedInstanceService;
+	let inboxService: ApInboxService;
+	let queueService: QueueService;
 	let imageService: ApImageService;
 	let noteService: ApNoteService;
 	let personService: ApPersonService;
 	let rendererService: ApRendererService;
+	let resolverService: ApResolverService;
+	let backfillService: ApBackfillService;
 	let jsonLdService: JsonLdService;
 	let resolver: MockResolver;
 
@@ -132,17 +150,27 @@ describe('ActivityPub', () => {
 		await app.init();
 		app.enableShutdownHooks();
 
+		config = app.get<Config>(DI.config);
 		userProfilesRepository = app.get(DI.userProfilesRepository);
+		usersRepository = app.get(DI.usersRepository);
+		followingsRepository = app.get(DI.followingsRepository);
+		abuseUserReportsRepository = app.get(DI.abuseUserReportsRepository);
+		driveFilesRepository = app.get(DI.driveFilesRepository);
+		idService = app.get<IdService>(IdService);
+		inboxService = app.get<ApInboxService>(ApInboxService);
+		queueService = app.get<QueueService>(QueueService);
 
 		noteService = app.get<ApNoteService>(ApNoteService);
 		personService = app.get<ApPersonService>(ApPersonService);
 		rendererService = app.get<ApRendererService>(ApRendererService);
+		resolverService = app.get<ApResolverService>(ApResolverService);
+		backfillService = app.get<ApBackfillService>(ApBackfillService);
 		imageService = app.get<ApImageService>(ApImageService);
 		jsonLdService = app.get<JsonLdService>(JsonLdService);
 		resolver = new MockResolver(await app.resolve<LoggerService>(LoggerService));
 
 		// Prevent ApPersonService from fetching instance, as it causes Jest import-after-test error
-		const federatedInstanceService = app.get<FederatedInstanceService>(FederatedInstanceService);
+		federatedInstanceService = app.get<FederatedInstanceService>(FederatedInstanceService);
 		jest.spyOn(federatedInstanceService, 'fetch').mockImplementation(() => new Promise(() => { }));
 	});
 
@@ -266,6 +294,28 @@ describe('ActivityPub', () => {
 				visibility: 'followers',
 			} as MiNote);
 		});
+
+		test('Render an edited note with updated', async () => {
+			const updatedAt = new Date();
+			const note = await rendererService.renderNote({
+				id: genAidx(Date.now()),
+				userId: genAidx(Date.now()),
+				visibility: 'public',
+				text: 'test',
+				cw: null,
+				moderatorCw: null,
+				mentions: [] as string[],
+				mentionedRemoteUsers: '[]',
+				tags: [] as string[],
+				emojis: [] as string[],
+				fileIds: [] as string[],
+				hasPoll: false,
+				quotePolicy: 'public',
+				updatedAt,
+			} as MiNote, false);
+
+			assert.strictEqual(note.updated, updatedAt.toISOString());
+		});
 	});
 
 	describe('Featured', () => {
@@ -341,6 +391,357 @@ describe('ActivityPub', () => {
 		});
 	});
 
+	describe('Quote', () => {
+		test('Parse a FEP-e232 Link tag as a quote', async () => {
+			const actor = createRandomActor();
+			const quoted = createRandomNote(actor);
+			const quoting = {
+				...createRandomNote(actor),
+				tag: [{
+					type: 'Link',
+					mediaType: 'application/ld+json; profile="https://www.w3.org/ns/activitystreams"',
+					href: quoted.id,
+				}],
+			};
+
+			resolver.register(actor.id, actor);
+			resolver.register(quoted.id, quoted);
+			resolver.register(quoting.id, quoting);
+
+			const quotedNote = await noteService.createNote(quoted.id, undefined, resolver, true);
+			const note = await noteService.createNote(quoting.id, undefined, resolver, true);
+
+			assert.ok(quotedNote);
+			assert.strictEqual(note?.renoteId, quotedNote.id);
+		});
+
+		test('Ignore a Link tag which is not an ActivityStreams object', async () => {
+			const actor = createRandomActor();
+			const post = {
+				...createRandomNote(actor),
+				tag: [{
+					type: 'Link',
+					mediaType: 'text/html',
+					href: 'https://example.com/',
+				}],
+			};
+
+			resolver.register(actor.id, actor);
+			resolver.register(post.id, post);
+
+			const note = await noteService.createNote(post.id, undefined, resolver, true);
+
+			assert.strictEqual(note?.renoteId, null);
+		});
+
+		test('Parse interactionPolicy.canQuote as the quote policy', async () => {
+			const actor = { ...createRandomActor(), followers: '' };
+			actor.followers = `${actor.id}/followers`;
+
+			const followersOnly = {
+				...createRandomNote(actor),
+				interactionPolicy: { canQuote: { automaticApproval: actor.followers } },
+			};
+			const nobody = {
+				...createRandomNote(actor),
+				interactionPolicy: { canQuote: { automaticApproval: actor.id } },
+			};
+			const everyone = createRandomNote(actor);
+
+			resolver.register(actor.id, actor);
+			for (const post of [followersOnly, nobody, everyone]) {
+				resolver.register(post.id, post);
+			}
+
+			assert.strictEqual((await noteService.createNote(followersOnly.id, undefined, resolver, true))?.quotePolicy, 'followers');
+			assert.strictEqual((await noteService.createNote(nobody.id, undefined, resolver, true))?.quotePolicy, 'nobody');
+			assert.strictEqual((await noteService.createNote(everyone.id, undefined, resolver, true))?.quotePolicy, 'public');
+		});
+	});
+
+	describe('Context', () => {
+		test('Group notes in the same context into a thread', async () => {
+			const actor = createRandomActor();
+			const context = `${actor.id}/contexts/${secureRndstr(8)}`;
+			const first = { ...createRandomNote(actor), context };
+			const second = { ...createRandomNote(actor), context };
+
+			resolver.register(actor.id, actor);
+			resolver.register(first.id, first);
+			resolver.register(second.id, second);
+
+			const firstNote = await noteService.createNote(first.id, undefined, resolver, true);
+			const secondNote = await noteService.createNote(second.id, undefined, resolver, true);
+
+			assert.ok(firstNote);
+			assert.ok(secondNote);
+			assert.strictEqual(firstNote.contextUri, context);
+			assert.strictEqual(firstNote.threadId, null);
+			assert.strictEqual(secondNote.contextUri, context);
+			assert.strictEqual(secondNote.threadId, firstNote.id);
+		});
+
+		test('Ignore context of another origin', async () => {
+			const actor = createRandomActor();
+			const other = createRandomActor({ actorHost: 'https://host2.test' });
+			const context = `${other.id}/contexts/${secureRndstr(8)}`;
+			const first = { ...createRandomNote(other), context };
+			const second = { ...createRandomNote(actor), context };
+
+			resolver.register(actor.id, actor);
+			resolver.register(other.id, other);
+			resolver.register(first.id, first);
+			resolver.register(second.id, second);
+
+			const firstNote = await noteService.createNote(first.id, undefined, resolver, true);
+			const secondNote = await noteService.createNote(second.id, undefined, resolver, true);
+
+			assert.ok(firstNote);
+			assert.ok(secondNote);
+			assert.strictEqual(firstNote.contextUri, context);
+			assert.strictEqual(secondNote.contextUri, null);
+			assert.strictEqual(secondNote.threadId, null);
+		});
+	});
+
+	describe('Collection', () => {
+		test('Iterate items following next pages', async () => {
+			const collectionId = `${host}/collections/${secureRndstr(8)}`;
+
+			resolver.register(collectionId, {
+				id: collectionId,
+				type: 'OrderedCollection',
+				totalItems: 3,
+				first: `${collectionId}?page=1`,
+			});
+			resolver.register(`${collectionId}?page=1`, {
+				id: `${collectionId}?page=1`,
+				type: 'OrderedCollectionPage',
+				orderedItems: [`${host}/notes/a`, `${host}/notes/b`],
+				next: `${collectionId}?page=2`,
+			});
+			resolver.register(`${collectionId}?page=2`, {
+				id: `${collectionId}?page=2`,
+				type: 'OrderedCollectionPage',
+				orderedItems: [`${host}/notes/c`],
+			});
+
+			const items = [];
+			for await (const item of resolver.iterateCollection(collectionId)) {
+				items.push(item);
+			}
+
+			assert.deepStrictEqual(items, [`${host}/notes/a`, `${host}/notes/b`, `${host}/notes/c`]);
+		});
+
+		test('Stop following pages at maxPages', async () => {
+			const collectionId = `${host}/collections/${secureRndstr(8)}`;
+
+			resolver.register(collectionId, {
+				id: collectionId,
+				type: 'Collection',
+				items: [`${host}/notes/a`],
+				first: `${collectionId}?page=1`,
+			});
+			resolver.register(`${collectionId}?page=1`, {
+				id: `${collectionId}?page=1`,
+				type: 'CollectionPage',
+				items: [`${host}/notes/b`],
+				next: `${collectionId}?page=2`,
+			});
+
+			const items = [];
+			for await (const item of resolver.iterateCollection(collectionId, 1)) {
+				items.push(item);
+			}
+
+			assert.deepStrictEqual(items, [`${host}/notes/a`, `${host}/notes/b`]);
+			assert.deepStrictEqual(resolver.remoteGetTrials(), [collectionId, `${collectionId}?page=1`]);
+		});
+	});
+
+	describe('Backfill replies', () => {
+		beforeAll(() => {
+			jest.spyOn(resolverService, 'createResolver').mockImplementation(() => resolver);
+		});
+
+		afterAll(() => {
+			jest.mocked(resolverService.createResolver).mockRestore();
+		});
+
+		test('Import replies on the same origin as the note only', async () => {
+			const actor = createRandomActor();
+			const other = createRandomActor({ actorHost: 'https://host2.test' });
+			const parent = createRandomNote(actor);
+			const repliesId = `${parent.id}/replies`;
+			const reply = { ...createRandomNote(actor), inReplyTo: parent.id };
+			const otherReply = { ...createRandomNote(other), inReplyTo: parent.id };
+
+			resolver.register(actor.id, actor);
+			resolver.register(other.id, other);
+			resolver.register(parent.id, { ...parent, replies: repliesId });
+			resolver.register(repliesId, {
+				id: repliesId,
+				type: 'Collection',
+				items: [reply.id, otherReply.id],
+			});
+			resolver.register(reply.id, reply);
+			resolver.register(otherReply.id, otherReply);
+
+			const parentNote = await noteService.createNote(parent.id, undefined, resolver, true);
+			assert.ok(parentNote);
+
+			const imported = await backfillService.backfillReplies(parentNote);
+
+			assert.strictEqual(imported, 1);
+			assert.strictEqual((await noteService.fetchNote(reply.id))?.replyId, parentNote.id);
+			assert.strictEqual(await noteService.fetchNote(otherReply.id), null);
+			assert.ok(!resolver.remoteGetTrials().includes(otherReply.id));
+		});
+
+		test('Skip replies which are already imported', async () => {
+			const actor = createRandomActor();
+			const parent = createRandomNote(actor);
+			const repliesId = `${parent.id}/replies`;
+			const reply = { ...createRandomNote(actor), inReplyTo: parent.id };
+
+			resolver.register(actor.id, actor);
+			resolver.register(parent.id, { ...parent, replies: repliesId });
+			resolver.register(repliesId, {
+				id: repliesId,
+				type: 'Collection',
+				items: [reply],
+			});
+			resolver.register(reply.id, reply);
+
+			const parentNote = await noteService.createNote(parent.id, undefined, resolver, true);
+			assert.ok(parentNote);
+			await noteService.createNote(reply.id, undefined, resolver, true);
+
+			assert.strictEqual(await backfillService.backfillReplies(parentNote), 0);
+		});
+	});
+
+	describe('Instance policies', () => {
+		const policyHost = 'host2.test';
+
+		async function setPolicies(instanceHost: string, policies: InstancePolicy[]) {
+			const instance = await federatedInstanceService.fetchOrRegister(instanceHost);
+			await federatedInstanceService.update(instance.id, { policies });
+		}
+
+		async function createLocalUser() {
+			const id = idService.gen();
+			return await usersRepository.save({ id, username: `local_${id}`, usernameLower: `local_${id}`, host: null });
+		}
+
+		async function createRemoteUser(actorHost: string) {
+			const actor = createRandomActor({ actorHost });
+			resolver.register(actor.id, actor);
+			return await personService.createPerson(actor.id, resolver);
+		}
+
+		function createNoteWithImage(actor: NonTransientIActor): NonTransientIPost {
+			return {
+				...createRandomNote(actor),
+				attachment: [{
+					type: 'Document',
+					mediaType: 'image/png',
+					url: `${new URL(actor.id).origin}/${secureRndstr(8)}.png`,
+					name: '',
+				}],
+			};
+		}
+
+		afterEach(async () => {
+			await setPolicies(policyHost, []);
+		});
+
+		test('rejectFollows', async () => {
+			await setPolicies(policyHost, ['rejectFollows']);
+			const deliver = jest.spyOn(queueService, 'deliver').mockReturnValue(null);
+			const followee = await createLocalUser();
+			const follower = await createRemoteUser(`https://${policyHost}`);
+
+			const follow: IFollow = {
+				id: `https://${policyHost}/follows/${secureRndstr(8)}`,
+				type: 'Follow',
+				actor: follower.uri,
+				object: `${config.url}/users/${followee.id}`,
+			};
+
+			const result = await inboxService.performOneActivity(follower, follow);
+
+			assert.strictEqual(result, 'skip: follows from this host are rejected');
+			assert.strictEqual(await followingsRepository.countBy({ followerId: follower.id }), 0);
+			assert.strictEqual((deliver.mock.calls[0][1] as IObject).type, 'Reject');
+			deliver.mockRestore();
+		});
+
+		test('rejectReports', async () => {
+			await setPolicies(policyHost, ['rejectReports']);
+			const target = await createLocalUser();
+			const reporter = await createRemoteUser(`https://${policyHost}`);
+
+			const flag: IFlag = {
+				id: `https://${policyHost}/flags/${secureRndstr(8)}`,
+				type: 'Flag',
+				actor: reporter.uri,
+				object: `${config.url}/users/${target.id}`,
+				content: 'spam',
+			};
+
+			const result = await inboxService.performOneActivity(reporter, flag);
+
+			assert.strictEqual(result, 'skip: reports from this host are rejected');
+			assert.strictEqual(await abuseUserReportsRepository.countBy({ targetUserId: target.id }), 0);
+		});
+
+		test('rejectMedia', async () => {
+			await setPolicies(policyHost, ['rejectMedia']);
+			const actor = createRandomActor({ actorHost: `https://${policyHost}` });
+			const post = createNoteWithImage(actor);
+			resolver.register(actor.id, actor);
+			resolver.register(post.id, post);
+
+			const note = await noteService.createNote(post.id, undefined, resolver, true);
+
+			assert.deepStrictEqual(note?.fileIds, []);
+		});
+
+		test('forceSensitive', async () => {
+			await setPolicies(policyHost, ['forceSensitive']);
+			const actor = createRandomActor({ actorHost: `https://${policyHost}` });
+			const post = createNoteWithImage(actor);
+			resolver.register(actor.id, actor);
+			resolver.register(post.id, post);
+
+			const note = await noteService.createNote(post.id, undefined, resolver, true);
+
+			assert.strictEqual(note?.fileIds.length, 1);
+			const file = await driveFilesRepository.findOneByOrFail({ id: note.fileIds[0] });
+			assert.strictEqual(file.isSensitive, true);
+		});
+
+		test('Policies of a parent domain apply to its subdomains', async () => {
+			await setPolicies(policyHost, ['rejectReports']);
+			const target = await createLocalUser();
+			const reporter = await createRemoteUser(`https://sub.${policyHost}`);
+
+			const flag: IFlag = {
+				id: `https://sub.${policyHost}/flags/${secureRndstr(8)}`,
+				type: 'Flag',
+				actor: reporter.uri,
+				object: `${config.url}/users/${target.id}`,
+				content: 'spam',
+			};
+
+			const result = await inboxService.performOneActivity(reporter, flag);
+
+			assert.strictEqual(result, 'skip: reports from this host are rejected');
+		});
+	});
+
 	describe('Images', () => {
 		test('Create images', async () => {
 			const imageObject: IApDocument = {
@@ -0,0 +1,113 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { parseApReaction } from '@/core/activitypub/misc/reaction.js';
+import type { IApEmoji, ILike } from '@/core/activitypub/type.js';
+
+const base = {
+	id: 'https://remote.example/activities/1',
+	actor: 'https://remote.example/users/alice',
+	object: 'https://local.example/notes/1',
+};
+
+function emojiTag(name: string, host = 'remote.example'): IApEmoji {
+	return {
+		id: `https://${host}/emojis/${name.replaceAll(':', '')}`,
+		type: 'Emoji',
+		name,
+		updated: '2025-01-01T00:00:00Z',
+		icon: {
+			type: 'Image',
+			mediaType: 'image/png',
+			url: `https://${host}/files/${name.replaceAll(':', '')}.png`,
+		},
+	};
+}
+
+describe(parseApReaction, () => {
+	describe('Mastodon', () => {
+		it('Like without content is a like', () => {
+			expect(parseApReaction({ ...base, type: 'Like' })).toEqual({ reaction: null, emoji: null });
+		});
+
+		it('Like with empty content is a like', () => {
+			expect(parseApReaction({ ...base, type: 'Like', content: '' })).toEqual({ reaction: null, emoji: null });
+		});
+	});
+
+	describe('Misskey', () => {
+		it('Like with unicode emoji', () => {
+			const activity: ILike = { ...base, type: 'Like', content: '🍮', _misskey_reaction: '🍮' };
+			expect(parseApReaction(activity)).toEqual({ reaction: '🍮', emoji: null });
+		});
+
+		it('Like with custom emoji', () => {
+			const tag = emojiTag(':pudding:');
+			const activity: ILike = { ...base, type: 'Like', content: ':pudding:', _misskey_reaction: ':pudding:', tag: [tag] };
+			expect(parseApReaction(activity)).toEqual({ reaction: ':pudding:', emoji: tag });
+		});
+
+		it('_misskey_reaction takes precedence over content', () => {
+			const activity: ILike = { ...base, type: 'Like', content: '👍', _misskey_reaction: '🍮' };
+			expect(parseApReaction(activity).reaction).toBe('🍮');
+		});
+	});
+
+	describe('Pleroma / Akkoma', () => {
+		it('EmojiReact with unicode emoji', () => {
+			const activity: ILike = { ...base, type: 'EmojiReact', content: '👍' };
+			expect(parseApReaction(activity)).toEqual({ reaction: '👍', emoji: null });
+		});
+
+		it('EmojiReact with custom emoji', () => {
+			const tag = emojiTag(':blobcat:');
+			const activity: ILike = { ...base, type: 'EmojiReact', content: ':blobcat:', tag: [tag] };
+			expect(parseApReaction(activity)).toEqual({ reaction: ':blobcat:', emoji: tag });
+		});
+
+		it('EmojiReact with a single tag object', () => {
+			const tag = emojiTag(':blobcat:');
+			const activity: ILike = { ...base, type: 'EmojiReact', content: ':blobcat:', tag };
+			expect(parseApReaction(activity).emoji).toEqual(tag);
+		});
+
+		it('EmojiReact with custom emoji of another server', () => {
+			const tag = emojiTag('blobcat@third.example', 'third.example');
+			const activity: ILike = { ...base, type: 'EmojiReact', content: ':blobcat@third.example:', tag: [tag] };
+			expect(parseApReaction(activity)).toEqual({
+				reaction: ':blobcat:',
+				emoji: { ...tag, name: ':blobcat:' },
+			});
+		});
+
+		it('EmojiReact with custom emoji but without tag', () => {
+			const activity: ILike = { ...base, type: 'EmojiReact', content: ':blobcat:' };
+			expect(parseApReaction(activity)).toEqual({ reaction: ':blobcat:', emoji: null });
+		});
+
+		it('Ignore tags which are not the reacted emoji', () => {
+			const activity: ILike = {
+				...base,
+				type: 'EmojiReact',
+				content: ':blobcat:',
+				tag: [emojiTag(':blobfox:'), { type: 'Hashtag', name: '#blobcat' }],
+			};
+			expect(parseApReaction(activity)).toEqual({ reaction: ':blobcat:', emoji: null });
+		});
+	});
+
+	describe('Fedibird', () => {
+		it('EmojiReaction with unicode emoji', () => {
+			const activity: ILike = { ...base, type: 'EmojiReaction', content: '⭐' };
+			expect(parseApReaction(activity)).toEqual({ reaction: '⭐', emoji: null });
+		});
+
+		it('EmojiReact with custom emoji', () => {
+			const tag = emojiTag(':fedibird:');
+			const activity: ILike = { ...base, type: 'EmojiReact', content: ':fedibird:', tag: [tag] };
+			expect(parseApReaction(activity)).toEqual({ reaction: ':fedibird:', emoji: tag });
+		});
+	});
+});
@@ -4,10 +4,23 @@
  */
 
 import * as assert from 'assert';
+import { jest } from '@jest/globals';
 import httpSignature from '@peertube/http-signature';
 
 import { genRsaKeyPair } from '@/misc/gen-key-pair.js';
-import { ApRequestCreator } from '@/core/activitypub/ApRequestService.js';
+import { ApRequestCreator, ApRequestService } from '@/core/activitypub/ApRequestService.js';
+import { StatusError } from '@/misc/status-error.js';
+import {
+	parseHttpMessageSignature,
+	verifyContentDigest,
+	verifyHttpMessageSignature,
+} from '@/core/activitypub/misc/http-message-signature.js';
+import type { Config } from '@/config.js';
+import type { HttpRequestService } from '@/core/HttpRequestService.js';
+import type { LoggerService } from '@/core/LoggerService.js';
+import type { UserKeypairService } from '@/core/UserKeypairService.js';
+import type { UtilityService } from '@/core/UtilityService.js';
+import type * as Redis from 'ioredis';
 
 export const buildParsedSignature = (signingString: string, signature: string, algorithm: string) => {
 	return {
@@ -58,4 +71,179 @@ describe('ap-request', () => {
 		const result = httpSignature.verifySignature(parsed, keypair.publicKey);
 		assert.deepStrictEqual(result, true);
 	});
+
+	describe('RFC 9421', () => {
+		test('createSignedPostRfc9421 with verify', async () => {
+			const keypair = await genRsaKeyPair();
+			const key = { keyId: 'https://example.com/users/a#main-key', 'privateKeyPem': keypair.privateKey };
+			const url = 'https://example.com/inbox';
+			const body = JSON.stringify({ a: 1 });
+
+			const req = ApRequestCreator.createSignedPostRfc9421({ key, url, body, additionalHeaders: { 'User-Agent': 'UA' } });
+
+			assert.ok(verifyContentDigest(req.request.headers['content-digest'], body));
+
+			const parsed = parseHttpMessageSignature({
+				method: 'POST',
+				url,
+				headers: req.request.headers,
+			}, { requireContentDigest: true });
+
+			assert.strictEqual(parsed.keyId, key.keyId);
+			assert.strictEqual(parsed.signatureBase, req.signingString);
+			assert.deepStrictEqual(verifyHttpMessageSignature(parsed, keypair.publicKey), true);
+		});
+
+		test('Content-Digest from Digest header', async () => {
+			const keypair = await genRsaKeyPair();
+			const key = { keyId: 'x', 'privateKeyPem': keypair.privateKey };
+			const body = JSON.stringify({ a: 1 });
+
+			const req = ApRequestCreator.createSignedPostRfc9421({ key, url: 'https://example.com/inbox', body, digest: ApRequestCreator.createDigest(body), additionalHeaders: {} });
+
+			assert.ok(verifyContentDigest(req.request.headers['content-digest'], body));
+			assert.ok(!verifyContentDigest(req.request.headers['content-digest'], body + ' '));
+		});
+
+		test('tampered request fails to verify', async () => {
+			const keypair = await genRsaKeyPair();
+			const key = { keyId: 'x', 'privateKeyPem': keypair.privateKey };
+			const url = 'https://example.com/inbox';
+
+			const req = ApRequestCreator.createSignedPostRfc9421({ key, url, body: '{}', additionalHeaders: {} });
+
+			const parsed = parseHttpMessageSignature({
+				method: 'POST',
+				url: 'https://example.com/inbox2',
+				headers: req.request.headers,
+			}, { requireContentDigest: true });
+
+			assert.deepStrictEqual(verifyHttpMessageSignature(parsed, keypair.publicKey), false);
+		});
+
+		test('signature without required components is rejected', () => {
+			assert.throws(() => parseHttpMessageSignature({
+				method: 'POST',
+				url: 'https://example.com/inbox',
+				headers: {
+					'signature-input': `sig1=("@method" "@target-uri");created=${Math.floor(Date.now() / 1000)};keyid="x"`,
+					'signature': 'sig1=:AAAA:',
+				},
+			}, { requireContentDigest: true }));
+		});
+
+		test('expired signature is rejected', () => {
+			assert.throws(() => parseHttpMessageSignature({
+				method: 'GET',
+				url: 'https://example.com/notes/1',
+				headers: {
+					'signature-input': 'sig1=("@method" "@target-uri");created=1618884473;keyid="x"',
+					'signature': 'sig1=:AAAA:',
+				},
+			}, { requireContentDigest: false }));
+		});
+
+		// RFC 9421 B.2.6. Signing a Request Using ed25519
+		test('RFC 9421 test vector (ed25519)', () => {
+			const publicKey = '-----BEGIN PUBLIC KEY-----\nMCowBQYDK2VwAyEAJrQLj5P/89iXES9+vFgrIy29clF9CC/oPPsw3c5D0bs=\n-----END PUBLIC KEY-----';
+			const created = 1618884473;
+			const now = jest.spyOn(Date, 'now').mockReturnValue(created * 1000);
+
+			try {
+				const parsed = parseHttpMessageSignature({
+					method: 'POST',
+					url: 'https://example.com/foo?param=Value&Pet=dog',
+					headers: {
+						'date': 'Tue, 20 Apr 2021 02:07:55 GMT',
+						'content-type': 'application/json',
+						'content-length': '18',
+						'signature-input': 'sig-b26=("date" "@method" "@path" "@authority" "content-type" "content-length");created=1618884473;keyid="test-key-ed25519"',
+						'signature': 'sig-b26=:wqcAqbmYJ2ji2glfAMaRy4gruYYnx2nEFN2HN6jrnDnQCK1u02Gb04v9EDgwUPiu4A0w6vuQv5lIp5WPpBKRCw==:',
+					},
+				}, { requireContentDigest: false });
+
+				assert.deepStrictEqual(verifyHttpMessageSignature(parsed, publicKey), true);
+			} finally {
+				now.mockRestore();
+			}
+		});
+	});
+	describe('signedPost', () => {
+		const url = 'https://remote.test/inbox';
+		const cacheKey = 'kvcache:apSignatureScheme:remote.test';
+
+		let redis: Map<string, string>;
+		let sentSchemes: string[];
+		let services: ApRequestService[] = [];
+
+		async function createService(accepts: string[]): Promise<ApRequestService> {
+			const keypair = await genRsaKeyPair();
+
+			const service = new ApRequestService(
+				{ url: 'https://local.test' } as Config,
+				{
+					get: async (key: string) => redis.get(key) ?? null,
+					set: async (key: string, value: string) => { redis.set(key, value); },
+					del: async (key: string) => { redis.delete(key); },
+				} as unknown as Redis.Redis,
+				{ getUserKeypair: async () => keypair } as unknown as UserKeypairService,
+				{
+					send: async (_url: string, args: { headers: Record<string, string> }) => {
+						const scheme = args.headers['signature-input'] != null ? 'rfc9421' : 'cavage';
+						sentSchemes.push(scheme);
+						if (!accepts.includes(scheme)) throw new StatusError('Unauthorized', 401);
+					},
+				} as unknown as HttpRequestService,
+				{ getLogger: () => ({ debug: () => {} }) } as unknown as LoggerService,
+				{ punyHost: (u: string) => new URL(u).host } as UtilityService,
+			);
+			services.push(service);
+			return service;
+		}
+
+		beforeEach(() => {
+			redis = new Map();
+			sentSchemes = [];
+		});
+
+		afterEach(() => {
+			for (const service of services) service.dispose();
+			services = [];
+		});
+
+		test('falls back to draft-cavage and remembers it', async () => {
+			const service = await createService(['cavage']);
+
+			await service.signedPost({ id: 'user' }, url, {});
+
+			assert.deepStrictEqual(sentSchemes, ['rfc9421', 'cavage']);
+			assert.strictEqual(redis.get(cacheKey), 'cavage');
+		});
+
+		test('uses the remembered scheme first', async () => {
+			redis.set(cacheKey, 'cavage');
+			const service = await createService(['cavage']);
+
+			await service.signedPost({ id: 'user' }, url, {});
+
+			assert.deepStrictEqual(sentSchemes, ['cavage']);
+		});
+
+		test('forgets the remembered scheme when it is rejected and knocks with the other', async () => {
+			redis.set(cacheKey, 'cavage');
+			const service = await createService(['rfc9421']);
+
+			await service.signedPost({ id: 'user' }, url, {});
+
+			assert.deepStrictEqual(sentSchemes, ['cavage', 'rfc9421']);
+			assert.strictEqual(redis.get(cacheKey), 'rfc9421');
+		});
+
+		test('throws when both schemes are rejected', async () => {
+			const service = await createService([]);
+
+			await assert.rejects(service.signedPost({ id: 'user' }, url, {}), StatusError);
+			assert.strictEqual(redis.has(cacheKey), false);
+		});
+	});
 });
@@ -0,0 +1,42 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { parseBlocklistCsv, serializeBlocklistCsv } from '@/misc/blocklist-csv.js';
+
+describe(parseBlocklistCsv, () => {
+	it('Mastodon export format', () => {
+		const csv = [
+			'#domain,#severity,#reject_media,#reject_reports,#public_comment,#obfuscate',
+			'spam.example,suspend,false,false,Spam,false',
+			'noisy.example,silence,true,true,"Noisy, but ""mostly"" harmless",false',
+			'media.example,noop,true,false,,false',
+		].join('\r\n');
+
+		expect(parseBlocklistCsv(csv)).toEqual([
+			{ host: 'spam.example', severity: 'suspend', rejectMedia: false, rejectReports: false, publicComment: 'Spam' },
+			{ host: 'noisy.example', severity: 'silence', rejectMedia: true, rejectReports: true, publicComment: 'Noisy, but "mostly" harmless' },
+			{ host: 'media.example', severity: 'noop', rejectMedia: true, rejectReports: false, publicComment: '' },
+		]);
+	});
+
+	it('without header', () => {
+		expect(parseBlocklistCsv('Spam.Example\nnoisy.example,silence\n')).toEqual([
+			{ host: 'spam.example', severity: 'suspend', rejectMedia: false, rejectReports: false, publicComment: '' },
+			{ host: 'noisy.example', severity: 'silence', rejectMedia: false, rejectReports: false, publicComment: '' },
+		]);
+	});
+
+	it('skips obfuscated domains and unknown severities', () => {
+		const csv = '#domain,#severity\nsp*m.example,suspend\nfoo.example,nuke\nbar.example,silence\n';
+		expect(parseBlocklistCsv(csv).map(x => x.host)).toEqual(['bar.example']);
+	});
+
+	it('round trip', () => {
+		const records = [
+			{ host: 'spam.example', severity: 'suspend' as const, rejectMedia: true, rejectReports: false, publicComment: 'a,b\n"c"' },
+		];
+		expect(parseBlocklistCsv(serializeBlocklistCsv(records))).toEqual(records);
+	});
+});
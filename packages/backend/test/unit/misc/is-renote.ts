@@ -13,13 +13,21 @@ const base: MiNote = {
 	renoteId: null,
 	renote: null,
 	threadId: null,
+	contextUri: null,
+	moderatorCw: null,
+	isHiddenByModerator: false,
+	isSensitiveByModerator: false,
+	isExcludedFromPublicTimelines: false,
 	text: null,
 	name: null,
 	cw: null,
+	updatedAt: null,
 	userId: 'some-user-id',
 	user: null,
 	localOnly: false,
 	reactionAcceptance: null,
+	quotePolicy: 'public',
+	quoteAuthorizationUri: null,
 	renoteCount: 0,
 	repliesCount: 0,
 	clippedCount: 0,
@@ -36,6 +44,7 @@ const base: MiNote = {
 	emojis: [],
 	tags: [],
 	hasPoll: false,
+	lang: null,
 	channelId: null,
 	channel: null,
 	userHost: null,
@@ -0,0 +1,106 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { parseExportedDate, parseMastodonOutbox, parseMisskeyExportedNotes } from '@/misc/note-export.js';
+
+const PUBLIC = 'https://www.w3.org/ns/activitystreams#Public';
+const actor = 'https://mastodon.example/users/alice';
+
+function create(id: string, published: string, to: string[], cc: string[] = []) {
+	return {
+		id: `${id}/activity`,
+		type: 'Create',
+		actor,
+		object: {
+			id,
+			type: 'Note',
+			attributedTo: actor,
+			content: '<p>hello</p>',
+			published,
+			to,
+			cc,
+		},
+	};
+}
+
+describe(parseMisskeyExportedNotes, () => {
+	it('keeps valid notes and drops direct notes', () => {
+		const notes = parseMisskeyExportedNotes([
+			{ id: 'a', text: 'public', createdAt: '2024-01-01T00:00:00.000Z', visibility: 'public', files: [{ url: 'https://misskey.example/files/a' }] },
+			{ id: 'b', text: 'direct', createdAt: '2024-01-02T00:00:00.000Z', visibility: 'specified' },
+			{ id: 'c', text: 'reply', createdAt: '2024-01-03T00:00:00.000Z', replyId: 'a' },
+		]);
+
+		expect(notes?.map(x => x.id)).toEqual(['a', 'c']);
+	});
+
+	it('drops malformed records', () => {
+		const notes = parseMisskeyExportedNotes([
+			{ text: 'no id', createdAt: '2024-01-01T00:00:00.000Z' },
+			{ id: 'a', text: 'bad visibility', createdAt: '2024-01-01T00:00:00.000Z', visibility: 'unknown' },
+			{ id: 'b', createdAt: '2024-01-01T00:00:00.000Z', files: [{ name: 'no url' }] },
+			'not an object',
+		]);
+
+		expect(notes).toEqual([]);
+	});
+
+	it('returns null unless an array', () => {
+		expect(parseMisskeyExportedNotes({ notes: [] })).toBeNull();
+	});
+});
+
+describe(parseMastodonOutbox, () => {
+	it('takes posts in chronological order with their visibility', () => {
+		const posts = parseMastodonOutbox({
+			type: 'OrderedCollection',
+			orderedItems: [
+				create('https://mastodon.example/statuses/3', '2024-01-03T00:00:00Z', [`${actor}/followers`]),
+				create('https://mastodon.example/statuses/1', '2024-01-01T00:00:00Z', [PUBLIC], [`${actor}/followers`]),
+				create('https://mastodon.example/statuses/2', '2024-01-02T00:00:00Z', [`${actor}/followers`], [PUBLIC]),
+			],
+		});
+
+		expect(posts.map(x => [x.post.id, x.visibility])).toEqual([
+			['https://mastodon.example/statuses/1', 'public'],
+			['https://mastodon.example/statuses/2', 'home'],
+			['https://mastodon.example/statuses/3', 'followers'],
+		]);
+	});
+
+	it('drops boosts, direct posts and posts without published', () => {
+		const noPublished = create('https://mastodon.example/statuses/4', '', [PUBLIC]);
+		delete (noPublished.object as Partial<typeof noPublished.object>).published;
+
+		const posts = parseMastodonOutbox({
+			orderedItems: [
+				{ id: 'https://mastodon.example/statuses/1/activity', type: 'Announce', actor, object: 'https://other.example/notes/1', to: [PUBLIC] },
+				create('https://mastodon.example/statuses/2', '2024-01-02T00:00:00Z', ['https://other.example/users/bob']),
+				create('https://mastodon.example/statuses/3', '2024-01-03T00:00:00Z', [PUBLIC]),
+				noPublished,
+			],
+		});
+
+		expect(posts.map(x => x.post.id)).toEqual(['https://mastodon.example/statuses/3']);
+	});
+
+	it('returns nothing unless an outbox', () => {
+		expect(parseMastodonOutbox(null)).toEqual([]);
+		expect(parseMastodonOutbox({ orderedItems: 'invalid' })).toEqual([]);
+	});
+});
+
+describe(parseExportedDate, () => {
+	const now = new Date('2024-06-01T00:00:00Z');
+
+	it('parses a past date', () => {
+		expect(parseExportedDate('2024-01-01T00:00:00Z', now)).toEqual(new Date('2024-01-01T00:00:00Z'));
+	});
+
+	it('treats invalid and future dates as now', () => {
+		expect(parseExportedDate('invalid', now)).toBe(now);
+		expect(parseExportedDate('2025-01-01T00:00:00Z', now)).toBe(now);
+	});
+});
@@ -0,0 +1,21 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { signWebhookPayload } from '@/misc/webhook-signature.js';
+
+describe(signWebhookPayload, () => {
+	it('HMAC-SHA256 of timestamp and body', () => {
+		expect(signWebhookPayload('secret', 1700000000, '{"type":"note"}'))
+			.toBe('fec2fed57bdf2bf3dfe1391d62affdc7dac55d9ac4c7479be6345e99f45ac33e');
+	});
+	it('depends on timestamp', () => {
+		expect(signWebhookPayload('secret', 1700000001, '{"type":"note"}'))
+			.not.toBe(signWebhookPayload('secret', 1700000000, '{"type":"note"}'));
+	});
+	it('depends on secret', () => {
+		expect(signWebhookPayload('other', 1700000000, '{"type":"note"}'))
+			.not.toBe(signWebhookPayload('secret', 1700000000, '{"type":"note"}'));
+	});
+});
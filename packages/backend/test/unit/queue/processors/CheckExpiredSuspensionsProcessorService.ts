@@ -0,0 +1,111 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { jest } from '@jest/globals';
+import { Test, TestingModule } from '@nestjs/testing';
+import { addHours, subHours } from 'date-fns';
+import { CheckExpiredSuspensionsProcessorService } from '@/queue/processors/CheckExpiredSuspensionsProcessorService.js';
+import { MiUser, UsersRepository } from '@/models/_.js';
+import { IdService } from '@/core/IdService.js';
+import { UserSuspendService } from '@/core/UserSuspendService.js';
+import { GlobalModule } from '@/GlobalModule.js';
+import { DI } from '@/di-symbols.js';
+import { QueueLoggerService } from '@/queue/QueueLoggerService.js';
+
+describe('CheckExpiredSuspensionsProcessorService', () => {
+	let app: TestingModule;
+	let service: CheckExpiredSuspensionsProcessorService;
+
+	// --------------------------------------------------------------------------------------
+
+	let usersRepository: UsersRepository;
+	let idService: IdService;
+	let userSuspendService: jest.Mocked<UserSuspendService>;
+
+	// --------------------------------------------------------------------------------------
+
+	async function createUser(data: Partial<MiUser> = {}): Promise<MiUser> {
+		const id = idService.gen();
+		return await usersRepository
+			.insert({
+				id: id,
+				username: `user_${id}`,
+				usernameLower: `user_${id}`.toLowerCase(),
+				...data,
+			})
+			.then(x => usersRepository.findOneByOrFail(x.identifiers[0]));
+	}
+
+	// --------------------------------------------------------------------------------------
+
+	beforeAll(async () => {
+		app = await Test
+			.createTestingModule({
+				imports: [
+					GlobalModule,
+				],
+				providers: [
+					CheckExpiredSuspensionsProcessorService,
+					IdService,
+					{
+						provide: UserSuspendService, useFactory: () => ({ unsuspendExpired: jest.fn() }),
+					},
+					{
+						provide: QueueLoggerService, useFactory: () => ({
+							logger: ({
+								createSubLogger: () => ({
+									info: jest.fn(),
+									warn: jest.fn(),
+									succ: jest.fn(),
+								}),
+							}),
+						}),
+					},
+				],
+			})
+			.compile();
+
+		usersRepository = app.get(DI.usersRepository);
+
+		service = app.get(CheckExpiredSuspensionsProcessorService);
+		idService = app.get(IdService);
+		userSuspendService = app.get(UserSuspendService) as jest.Mocked<UserSuspendService>;
+
+		app.enableShutdownHooks();
+	});
+
+	beforeEach(() => {
+		userSuspendService.unsuspendExpired.mockResolvedValue();
+	});
+
+	afterEach(async () => {
+		await usersRepository.delete({});
+		userSuspendService.unsuspendExpired.mockReset();
+	});
+
+	afterAll(async () => {
+		await app.close();
+	});
+
+	// --------------------------------------------------------------------------------------
+
+	test('期限が過ぎた凍結のみ解除される', async () => {
+		const now = new Date();
+		const [expired] = await Promise.all([
+			createUser({ isSuspended: true, suspendedUntil: subHours(now, 1) }),
+			// 期限がまだ来ていない
+			createUser({ isSuspended: true, suspendedUntil: addHours(now, 1) }),
+			// 無期限
+			createUser({ isSuspended: true, suspendedUntil: null }),
+			// 凍結されていない
+			createUser({ isSuspended: false, suspendedUntil: subHours(now, 1) }),
+		]);
+
+		await service.process();
+
+		expect(userSuspendService.unsuspendExpired).toHaveBeenCalledTimes(1);
+		expect(userSuspendService.unsuspendExpired.mock.calls[0][0].id).toBe(expired.id);
+	});
+});
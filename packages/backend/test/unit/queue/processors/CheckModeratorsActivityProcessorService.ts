@@ -69,6 +69,7 @@ describe('CheckModeratorsActivityProcessorService', () => {
 			updatedAt: new Date(),
 			latestSentAt: null,
 			latestStatus: null,
+			failureCount: 0,
 			name: 'test',
 			url: 'https://example.com',
 			secret: 'test',
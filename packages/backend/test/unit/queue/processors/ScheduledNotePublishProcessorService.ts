@@ -0,0 +1,157 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { jest } from '@jest/globals';
+import { Test, TestingModule } from '@nestjs/testing';
+import { addHours } from 'date-fns';
+import { ScheduledNotePublishProcessorService } from '@/queue/processors/ScheduledNotePublishProcessorService.js';
+import { MiNote, MiNoteDraft, MiUser, NoteDraftsRepository, UsersRepository } from '@/models/_.js';
+import { IdService } from '@/core/IdService.js';
+import { NoteDraftService } from '@/core/NoteDraftService.js';
+import { NotificationService } from '@/core/NotificationService.js';
+import { IdentifiableError } from '@/misc/identifiable-error.js';
+import { GlobalModule } from '@/GlobalModule.js';
+import { DI } from '@/di-symbols.js';
+import { QueueLoggerService } from '@/queue/QueueLoggerService.js';
+import type { ScheduledNotePublishJobData } from '@/queue/types.js';
+import type * as Bull from 'bullmq';
+
+describe('ScheduledNotePublishProcessorService', () => {
+	let app: TestingModule;
+	let service: ScheduledNotePublishProcessorService;
+
+	// --------------------------------------------------------------------------------------
+
+	let usersRepository: UsersRepository;
+	let noteDraftsRepository: NoteDraftsRepository;
+	let idService: IdService;
+	let noteDraftService: jest.Mocked<NoteDraftService>;
+	let notificationService: jest.Mocked<NotificationService>;
+
+	let alice: MiUser;
+
+	// --------------------------------------------------------------------------------------
+
+	async function createDraft(data: Partial<MiNoteDraft> = {}): Promise<MiNoteDraft> {
+		const id = idService.gen();
+		return await noteDraftsRepository
+			.insert({
+				id: id,
+				userId: alice.id,
+				text: 'scheduled',
+				visibility: 'public',
+				scheduledAt: addHours(new Date(), 1),
+				...data,
+			})
+			.then(x => noteDraftsRepository.findOneByOrFail(x.identifiers[0]));
+	}
+
+	function createJob(draft: MiNoteDraft, attemptsMade = 0): Bull.Job<ScheduledNotePublishJobData> {
+		return {
+			data: { noteDraftId: draft.id },
+			attemptsMade,
+			opts: { attempts: 3 },
+		} as Bull.Job<ScheduledNotePublishJobData>;
+	}
+
+	// --------------------------------------------------------------------------------------
+
+	beforeAll(async () => {
+		app = await Test
+			.createTestingModule({
+				imports: [
+					GlobalModule,
+				],
+				providers: [
+					ScheduledNotePublishProcessorService,
+					IdService,
+					{
+						provide: NoteDraftService, useFactory: () => ({ publish: jest.fn() }),
+					},
+					{
+						provide: NotificationService, useFactory: () => ({ createNotification: jest.fn() }),
+					},
+					{
+						provide: QueueLoggerService, useFactory: () => ({
+							logger: ({
+								createSubLogger: () => ({
+									info: jest.fn(),
+									warn: jest.fn(),
+									error: jest.fn(),
+									succ: jest.fn(),
+								}),
+							}),
+						}),
+					},
+				],
+			})
+			.compile();
+
+		usersRepository = app.get(DI.usersRepository);
+		noteDraftsRepository = app.get(DI.noteDraftsRepository);
+
+		service = app.get(ScheduledNotePublishProcessorService);
+		idService = app.get(IdService);
+		noteDraftService = app.get(NoteDraftService) as jest.Mocked<NoteDraftService>;
+		notificationService = app.get(NotificationService) as jest.Mocked<NotificationService>;
+
+		alice = await usersRepository.save({ id: idService.gen(), username: 'alice', usernameLower: 'alice', host: null });
+
+		app.enableShutdownHooks();
+	});
+
+	afterEach(async () => {
+		await noteDraftsRepository.delete({});
+		noteDraftService.publish.mockReset();
+		notificationService.createNotification.mockReset();
+	});
+
+	afterAll(async () => {
+		await usersRepository.delete({});
+		await app.close();
+	});
+
+	// --------------------------------------------------------------------------------------
+
+	test('投稿できれば通知しない', async () => {
+		const draft = await createDraft();
+		noteDraftService.publish.mockResolvedValue({ id: 'note' } as MiNote);
+
+		await service.process(createJob(draft));
+
+		expect(noteDraftService.publish).toHaveBeenCalledTimes(1);
+		expect(notificationService.createNotification).not.toHaveBeenCalled();
+	});
+
+	test('投稿できなくなっていたら下書きに戻して通知する', async () => {
+		const draft = await createDraft();
+		noteDraftService.publish.mockRejectedValue(new IdentifiableError('eabfba3b-09d7-4fda-b78d-22c9bdfb4f7a', 'The author can not post notes'));
+
+		await service.process(createJob(draft));
+
+		expect((await noteDraftsRepository.findOneByOrFail({ id: draft.id })).scheduledAt).toBeNull();
+		expect(notificationService.createNotification).toHaveBeenCalledWith(alice.id, 'scheduledNotePostFailed', { noteDraftId: draft.id });
+	});
+
+	test('再試行が残っていれば予約を解除しない', async () => {
+		const draft = await createDraft();
+		noteDraftService.publish.mockRejectedValue(new Error('connection lost'));
+
+		await expect(service.process(createJob(draft, 0))).rejects.toThrow('connection lost');
+
+		expect((await noteDraftsRepository.findOneByOrFail({ id: draft.id })).scheduledAt).not.toBeNull();
+		expect(notificationService.createNotification).not.toHaveBeenCalled();
+	});
+
+	test('最後の試行で失敗したら下書きに戻して通知する', async () => {
+		const draft = await createDraft();
+		noteDraftService.publish.mockRejectedValue(new Error('connection lost'));
+
+		await expect(service.process(createJob(draft, 2))).rejects.toThrow('connection lost');
+
+		expect((await noteDraftsRepository.findOneByOrFail({ id: draft.id })).scheduledAt).toBeNull();
+		expect(notificationService.createNotification).toHaveBeenCalledWith(alice.id, 'scheduledNotePostFailed', { noteDraftId: draft.id });
+	});
+});
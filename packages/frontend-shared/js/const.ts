@@ -70,6 +70,9 @@ export const notificationTypes = [
 	'exportCompleted',
 	'login',
 	'createToken',
+	'abuseReportResolved',
+	'userWarningAppealResolved',
+	'scheduledNotePostFailed',
 	'test',
 	'app',
 ] as const;
@@ -106,7 +109,11 @@ export const ROLE_POLICIES = [
 	'canImportBlocking',
 	'canImportFollowing',
 	'canImportMuting',
+	'canImportNotes',
 	'canImportUserLists',
+	'canChat',
+	'chatRoomLimit',
+	'chatRoomMemberLimit',
 ] as const;
 
 // なんか動かない
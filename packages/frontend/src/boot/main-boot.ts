@@ -167,6 +167,15 @@ export async function mainBoot() {
 
 		stream.on('announcementCreated', onAnnouncementCreated);
 
+		// モデレーターからの警告は確認するまで毎回表示する
+		for (const warning of $i.unacknowledgedWarnings ?? []) {
+			const { dispose } = popup(defineAsyncComponent(() => import('@/components/MkUserWarningDialog.vue')), {
+				warning,
+			}, {
+				closed: () => dispose(),
+			});
+		}
+
 		if ($i.isDeleted) {
 			alert({
 				type: 'warning',
@@ -398,6 +407,18 @@ export async function mainBoot() {
 		// 個人宛てお知らせが発行されたとき
 		main.on('announcementCreated', onAnnouncementCreated);
 
+		// モデレーターから警告されたとき
+		main.on('warningIssued', warning => {
+			updateAccountPartial({
+				unacknowledgedWarnings: [...($i?.unacknowledgedWarnings ?? []), warning],
+			});
+			const { dispose } = popup(defineAsyncComponent(() => import('@/components/MkUserWarningDialog.vue')), {
+				warning,
+			}, {
+				closed: () => dispose(),
+			});
+		});
+
 		// トークンが再生成されたとき
 		// このままではMisskeyが利用できないので強制的にサインアウトさせる
 		main.on('myTokenRegenerated', () => {
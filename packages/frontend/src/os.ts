@@ -30,6 +30,7 @@ import { pleaseLogin } from '@/scripts/please-login.js';
 import { showMovedDialog } from '@/scripts/show-moved-dialog.js';
 import { getHTMLElementOrNull } from '@/scripts/get-dom-node-or-null.js';
 import { focusParent } from '@/scripts/focus.js';
+import { formatDateTimeString } from '@/scripts/format-time-string.js';
 
 export const openingWindowsCount = ref(0);
 
@@ -455,6 +456,33 @@ export function inputDate(props: {
 	});
 }
 
+export function inputDateTime(props: {
+	title?: string;
+	text?: string;
+	default?: Date | null;
+}): Promise<{
+	canceled: true; result: undefined;
+} | {
+	canceled: false; result: Date;
+}> {
+	return new Promise(resolve => {
+		const { dispose } = popup(MkDialog, {
+			title: props.title,
+			text: props.text,
+			input: {
+				type: 'datetime-local',
+				// datetime-local はローカル時刻を YYYY-MM-DDTHH:mm 形式で扱う
+				default: props.default ? formatDateTimeString(props.default, 'yyyy-MM-ddTHH:mm') : null,
+			},
+		}, {
+			done: result => {
+				resolve(result && result.result ? { result: new Date(result.result), canceled: false } : { result: undefined, canceled: true });
+			},
+			closed: () => dispose(),
+		});
+	});
+}
+
 export function authenticateDialog(): Promise<{
 	canceled: true; result: undefined;
 } | {
@@ -432,6 +432,10 @@ const routes: RouteDef[] = [{
 		path: '/abuses',
 		name: 'abuses',
 		component: page(() => import('@/pages/admin/abuses.vue')),
+	}, {
+		path: '/user-warnings',
+		name: 'user-warnings',
+		component: page(() => import('@/pages/admin/user-warnings.vue')),
 	}, {
 		path: '/modlog',
 		name: 'modlog',
@@ -484,6 +488,10 @@ const routes: RouteDef[] = [{
 		path: '/abuse-report-notification-recipient',
 		name: 'abuse-report-notification-recipient',
 		component: page(() => import('@/pages/admin/abuse-report/notification-recipient.vue')),
+	}, {
+		path: '/abuse-report-response-templates',
+		name: 'abuse-report-response-templates',
+		component: page(() => import('@/pages/admin/abuse-report/response-templates.vue')),
 	}, {
 		path: '/system-webhook',
 		name: 'system-webhook',
@@ -504,6 +512,10 @@ const routes: RouteDef[] = [{
 	path: '/my/achievements',
 	component: page(() => import('@/pages/achievements.vue')),
 	loginRequired: true,
+}, {
+	path: '/my/warnings',
+	component: page(() => import('@/pages/warnings.vue')),
+	loginRequired: true,
 }, {
 	path: '/my/drive/folder/:folder',
 	component: page(() => import('@/pages/drive.vue')),
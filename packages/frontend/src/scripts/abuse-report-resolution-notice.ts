@@ -0,0 +1,58 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { i18n } from '@/i18n.js';
+import * as os from '@/os.js';
+import { misskeyApi } from '@/scripts/misskey-api.js';
+
+/**
+ * 通報を解決するときに、通報者へ通知するかどうかと添えるメッセージを尋ねる.
+ * 定型文を選ぶと、その本文を編集してから送れる
+ */
+export async function askResolutionNotice(): Promise<{
+	canceled: true;
+} | {
+	canceled: false;
+	notifyReporter: boolean;
+	message: string | null;
+}> {
+	const templates = await misskeyApi('admin/abuse-report/response-template/list');
+
+	const { canceled, result: templateId } = await os.select<string | null>({
+		title: i18n.ts._abuseUserReport.notifyReporter,
+		default: null,
+		items: [{
+			value: null,
+			text: i18n.ts._abuseUserReport.doNotNotifyReporter,
+		}, {
+			value: '',
+			text: i18n.ts._abuseUserReport.notifyReporterWithoutTemplate,
+		}, templates.length > 0 ? {
+			sectionTitle: i18n.ts._abuseUserReport.responseTemplates,
+			items: templates.map(template => ({
+				value: template.id,
+				text: template.name,
+			})),
+		} : undefined],
+	});
+	if (canceled) return { canceled: true };
+	if (templateId == null) return { canceled: false, notifyReporter: false, message: null };
+
+	const form = await os.form(i18n.ts._abuseUserReport.notifyReporter, {
+		message: {
+			type: 'string',
+			multiline: true,
+			label: i18n.ts._abuseUserReport.messageToReporter,
+			default: templates.find(template => template.id === templateId)?.text ?? '',
+		},
+	});
+	if (form.canceled) return { canceled: true };
+
+	return {
+		canceled: false,
+		notifyReporter: true,
+		message: form.result.message ? form.result.message : null,
+	};
+}
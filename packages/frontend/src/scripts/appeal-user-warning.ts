@@ -0,0 +1,32 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import * as Misskey from 'misskey-js';
+import { i18n } from '@/i18n.js';
+import * as os from '@/os.js';
+
+/**
+ * 警告への異議申し立ての理由を尋ねて送信する. 送信した場合はtrueを返す
+ */
+export async function appealUserWarning(warning: Misskey.entities.UserWarning): Promise<boolean> {
+	const { canceled, result } = await os.form(i18n.ts._userWarning.appeal, {
+		comment: {
+			type: 'string',
+			required: true,
+			multiline: true,
+			label: i18n.ts._userWarning.appealComment,
+			description: i18n.ts._userWarning.appealDescription,
+			default: '',
+		},
+	});
+	if (canceled || !result.comment) return false;
+
+	await os.apiWithDialog('i/appeal-warning', {
+		warningId: warning.id,
+		comment: result.comment,
+	});
+
+	return true;
+}
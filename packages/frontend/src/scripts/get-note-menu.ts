@@ -23,6 +23,7 @@ import MkRippleEffect from '@/components/MkRippleEffect.vue';
 import { isSupportShare } from '@/scripts/navigator.js';
 import { getAppearNote } from '@/scripts/get-appear-note.js';
 import { genEmbedCode } from '@/scripts/get-embed-code.js';
+import { warnUser } from '@/scripts/warn-user.js';
 
 export async function getNoteClipMenu(props: {
 	note: Misskey.entities.Note;
@@ -135,13 +136,9 @@ export function getAbuseNoteMenu(note: Misskey.entities.Note, text: string): Men
 		icon: 'ti ti-exclamation-circle',
 		text,
 		action: (): void => {
-			const localUrl = `${url}/notes/${note.id}`;
-			let noteInfo = '';
-			if (note.url ?? note.uri != null) noteInfo = `Note: ${note.url ?? note.uri}\n`;
-			noteInfo += `Local Note: ${localUrl}\n`;
 			const { dispose } = os.popup(defineAsyncComponent(() => import('@/components/MkAbuseReportWindow.vue')), {
 				user: note.user,
-				initialComment: `${noteInfo}-----\n`,
+				initialNotes: [note],
 			}, {
 				closed: () => dispose(),
 			});
@@ -149,6 +146,49 @@ export function getAbuseNoteMenu(note: Misskey.entities.Note, text: string): Men
 	};
 }
 
+export function getModerationNoteMenu(note: Misskey.entities.Note): MenuItem {
+	return {
+		type: 'parent',
+		icon: 'ti ti-shield',
+		text: i18n.ts._noteModeration.title,
+		children: () => [{
+			icon: note.isHiddenByModerator ? 'ti ti-eye' : 'ti ti-eye-off',
+			text: note.isHiddenByModerator ? i18n.ts._noteModeration.unhide : i18n.ts._noteModeration.hide,
+			action: () => os.apiWithDialog(note.isHiddenByModerator ? 'admin/notes/unhide' : 'admin/notes/hide', { noteId: note.id }),
+		}, {
+			icon: 'ti ti-alert-triangle',
+			text: i18n.ts._noteModeration.setCw,
+			action: async () => {
+				const { canceled, result } = await os.inputText({
+					title: i18n.ts._noteModeration.setCw,
+					text: i18n.ts._noteModeration.setCwDescription,
+					default: note.moderatorCw ?? '',
+					maxLength: 100,
+				});
+				if (canceled) return;
+				os.apiWithDialog('admin/notes/set-cw', { noteId: note.id, cw: result === '' ? null : result });
+			},
+		}, {
+			icon: note.isSensitiveByModerator ? 'ti ti-eye' : 'ti ti-eye-exclamation',
+			text: note.isSensitiveByModerator ? i18n.ts._noteModeration.unmarkSensitive : i18n.ts._noteModeration.markSensitive,
+			action: () => os.apiWithDialog(note.isSensitiveByModerator ? 'admin/notes/unmark-sensitive' : 'admin/notes/mark-sensitive', { noteId: note.id }),
+		}, {
+			icon: note.isExcludedFromPublicTimelines ? 'ti ti-world' : 'ti ti-world-off',
+			text: note.isExcludedFromPublicTimelines ? i18n.ts._noteModeration.includeInPublicTimelines : i18n.ts._noteModeration.excludeFromPublicTimelines,
+			action: () => os.apiWithDialog(note.isExcludedFromPublicTimelines ? 'admin/notes/include-in-public-timelines' : 'admin/notes/exclude-from-public-timelines', { noteId: note.id }),
+		}, ...(note.user.host == null ? [{
+			type: 'divider',
+		}, {
+			icon: 'ti ti-alert-octagon',
+			text: i18n.ts._userWarning.warnUser,
+			danger: true,
+			action: () => {
+				warnUser(note.user, { noteId: note.id });
+			},
+		}] satisfies MenuItem[] : [])],
+	};
+}
+
 export function getCopyNoteLinkMenu(note: Misskey.entities.Note, text: string): MenuItem {
 	return {
 		icon: 'ti ti-link',
@@ -220,6 +260,18 @@ export function getNoteMenu(props: {
 		});
 	}
 
+	function edit(): void {
+		os.post({ initialNote: appearNote, editId: appearNote.id, renote: appearNote.renote, reply: appearNote.reply, channel: appearNote.channel });
+	}
+
+	function showEditHistory(): void {
+		const { dispose } = os.popup(defineAsyncComponent(() => import('@/components/MkNoteHistoryDialog.vue')), {
+			note: appearNote,
+		}, {
+			closed: () => dispose(),
+		});
+	}
+
 	function toggleFavorite(favorite: boolean): void {
 		claimAchievement('noteFavorited1');
 		os.apiWithDialog(favorite ? 'notes/favorites/create' : 'notes/favorites/delete', {
@@ -316,6 +368,14 @@ export function getNoteMenu(props: {
 			action: copyContent,
 		}, getCopyNoteLinkMenu(appearNote, i18n.ts.copyLink));
 
+		if (appearNote.updatedAt) {
+			menuItems.push({
+				icon: 'ti ti-history',
+				text: i18n.ts.editHistory,
+				action: showEditHistory,
+			});
+		}
+
 		if (appearNote.url || appearNote.uri) {
 			menuItems.push({
 				icon: 'ti ti-link',
@@ -450,7 +510,15 @@ export function getNoteMenu(props: {
 
 		if (appearNote.userId === $i.id || $i.isModerator || $i.isAdmin) {
 			menuItems.push({ type: 'divider' });
+			if ($i.isModerator || $i.isAdmin) {
+				menuItems.push(getModerationNoteMenu(appearNote));
+			}
 			if (appearNote.userId === $i.id) {
+				menuItems.push({
+					icon: 'ti ti-pencil',
+					text: i18n.ts.edit,
+					action: edit,
+				});
 				menuItems.push({
 					icon: 'ti ti-edit',
 					text: i18n.ts.deleteAndEdit,
@@ -475,6 +543,14 @@ export function getNoteMenu(props: {
 			action: copyContent,
 		}, getCopyNoteLinkMenu(appearNote, i18n.ts.copyLink));
 
+		if (appearNote.updatedAt) {
+			menuItems.push({
+				icon: 'ti ti-history',
+				text: i18n.ts.editHistory,
+				action: showEditHistory,
+			});
+		}
+
 		if (appearNote.url || appearNote.uri) {
 			menuItems.push({
 				icon: 'ti ti-link',
@@ -624,7 +700,7 @@ export function getRenoteMenu(props: {
 					});
 				}
 			},
-		}, (props.mock) ? undefined : {
+		}, (props.mock || (appearNote.quotePolicy === 'nobody' && appearNote.userId !== $i?.id)) ? undefined : {
 			text: i18n.ts.quote,
 			icon: 'ti ti-quote',
 			action: () => {
@@ -18,6 +18,7 @@ import type { IRouter } from '@/nirax.js';
 import { antennasCache, rolesCache, userListsCache } from '@/cache.js';
 import { mainRouter } from '@/router/main.js';
 import { genEmbedCode } from '@/scripts/get-embed-code.js';
+import { warnUser } from '@/scripts/warn-user.js';
 import type { MenuItem } from '@/types/menu.js';
 
 export function getUserMenu(user: Misskey.entities.UserDetailed, router: IRouter = mainRouter) {
@@ -334,6 +335,17 @@ export function getUserMenu(user: Misskey.entities.UserDetailed, router: IRouter
 					}));
 				},
 			});
+
+			if (user.host == null) {
+				menuItems.push({
+					icon: 'ti ti-alert-octagon',
+					text: i18n.ts._userWarning.warnUser,
+					danger: true,
+					action: () => {
+						warnUser(user);
+					},
+				});
+			}
 		}
 
 		// フォローしたとしても user.isFollowing はリアルタイム更新されないので不便なため
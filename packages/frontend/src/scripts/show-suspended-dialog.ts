@@ -6,10 +6,15 @@
 import * as os from '@/os.js';
 import { i18n } from '@/i18n.js';
 
-export function showSuspendedDialog() {
+/**
+ * @param suspendedUntil 凍結が解除される日時. 無期限の場合はnull
+ */
+export function showSuspendedDialog(suspendedUntil?: string | null) {
 	return os.alert({
 		type: 'error',
 		title: i18n.ts.yourAccountSuspendedTitle,
-		text: i18n.ts.yourAccountSuspendedDescription,
+		text: suspendedUntil != null
+			? i18n.tsx.yourAccountSuspendedUntilDescription({ date: new Date(suspendedUntil).toLocaleString() })
+			: i18n.ts.yourAccountSuspendedDescription,
 	});
 }
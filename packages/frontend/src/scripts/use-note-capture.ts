@@ -7,6 +7,7 @@ import { onUnmounted } from 'vue';
 import type { Ref, ShallowRef } from 'vue';
 import * as Misskey from 'misskey-js';
 import { useStream } from '@/stream.js';
+import { misskeyApi } from '@/scripts/misskey-api.js';
 import { $i } from '@/account.js';
 
 export function useNoteCapture(props: {
@@ -80,6 +81,26 @@ export function useNoteCapture(props: {
 				props.isDeletedRef.value = true;
 				break;
 			}
+
+			case 'updated': {
+				// 内容はストリームに流れないので取り直す
+				misskeyApi('notes/show', { noteId: id }).then(updated => {
+					if (id !== note.value.id) return;
+					note.value.text = updated.text;
+					note.value.cw = updated.cw;
+					note.value.fileIds = updated.fileIds;
+					note.value.files = updated.files;
+					note.value.poll = updated.poll;
+					note.value.emojis = updated.emojis;
+					note.value.tags = updated.tags;
+					note.value.updatedAt = updated.updatedAt;
+					note.value.moderatorCw = updated.moderatorCw;
+					note.value.isHiddenByModerator = updated.isHiddenByModerator;
+					note.value.isSensitiveByModerator = updated.isSensitiveByModerator;
+					note.value.isExcludedFromPublicTimelines = updated.isExcludedFromPublicTimelines;
+				});
+				break;
+			}
 		}
 	}
 
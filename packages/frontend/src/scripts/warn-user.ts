@@ -0,0 +1,76 @@
+/*
+ * SPDX-FileCopyrightText: syuilo and misskey-project
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import * as Misskey from 'misskey-js';
+import { i18n } from '@/i18n.js';
+import * as os from '@/os.js';
+import { misskeyApi } from '@/scripts/misskey-api.js';
+
+const periods = {
+	oneHour: 1000 * 60 * 60,
+	oneDay: 1000 * 60 * 60 * 24,
+	oneWeek: 1000 * 60 * 60 * 24 * 7,
+	oneMonth: 1000 * 60 * 60 * 24 * 30,
+} as const;
+
+/**
+ * モデレーターとしてユーザーに警告する. 警告と同時に期限付きでロールをアサインできる
+ */
+export async function warnUser(user: Misskey.entities.UserLite, opts?: {
+	reportId?: string;
+	noteId?: string;
+}): Promise<Misskey.entities.UserWarning | null> {
+	const roles = await misskeyApi('admin/roles/list').then(it => it.filter(r => r.target === 'manual'));
+
+	const { canceled, result } = await os.form(i18n.ts._userWarning.warn + ': @' + user.username, {
+		reason: {
+			type: 'string',
+			required: true,
+			multiline: true,
+			label: i18n.ts._userWarning.reason,
+			description: i18n.ts._userWarning.reasonDescription,
+			default: '',
+		},
+		roleId: {
+			type: 'enum',
+			label: i18n.ts._userWarning.restrictWithRole,
+			default: '',
+			enum: [{
+				label: i18n.ts.none,
+				value: '',
+			}, ...roles.map(r => ({
+				label: r.name,
+				value: r.id,
+			}))],
+		},
+		period: {
+			type: 'enum',
+			label: i18n.ts.period,
+			default: 'oneDay',
+			hidden: v => v.roleId === '',
+			enum: [{
+				label: i18n.ts.indefinitely,
+				value: 'indefinitely',
+			}, ...Object.keys(periods).map(period => ({
+				label: i18n.ts[period as keyof typeof periods],
+				value: period,
+			}))],
+		},
+	});
+	if (canceled || !result.reason) return null;
+
+	const roleExpiresAt = result.roleId !== '' && result.period in periods
+		? Date.now() + periods[result.period as keyof typeof periods]
+		: null;
+
+	return await os.apiWithDialog('admin/warn-user', {
+		userId: user.id,
+		reason: result.reason,
+		reportId: opts?.reportId ?? null,
+		noteId: opts?.noteId ?? null,
+		roleId: result.roleId !== '' ? result.roleId : null,
+		roleExpiresAt,
+	});
+}
@@ -137,6 +137,10 @@ export const defaultStore = markRaw(new Storage('base', {
 		where: 'account',
 		default: 'nonSensitiveOnly' as 'likeOnly' | 'likeOnlyForRemote' | 'nonSensitiveOnly' | 'nonSensitiveOnlyForLocalLikeOnlyForRemote' | null,
 	},
+	quotePolicy: {
+		where: 'account',
+		default: 'public' as Misskey.entities.Note['quotePolicy'],
+	},
 	mutedAds: {
 		where: 'account',
 		default: [] as string[],
@@ -18,5 +18,7 @@ export interface PostFormProps {
 	initialLocalOnly?: boolean;
 	initialVisibleUsers?: Misskey.entities.UserDetailed[];
 	initialNote?: Misskey.entities.Note;
+	editId?: Misskey.entities.Note['id'];
+	noteDraft?: Misskey.entities.NoteDraft;
 	instant?: boolean;
 };
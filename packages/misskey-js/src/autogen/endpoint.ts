@@ -1,6 +1,8 @@
 import type {
 	EmptyRequest,
 	EmptyResponse,
+	AdminAbuseReportAssignRequest,
+	AdminAbuseReportBulkResolveRequest,
 	AdminAbuseReportNotificationRecipientCreateRequest,
 	AdminAbuseReportNotificationRecipientCreateResponse,
 	AdminAbuseReportNotificationRecipientDeleteRequest,
@@ -10,6 +12,12 @@ import type {
 	AdminAbuseReportNotificationRecipientShowResponse,
 	AdminAbuseReportNotificationRecipientUpdateRequest,
 	AdminAbuseReportNotificationRecipientUpdateResponse,
+	AdminAbuseReportResponseTemplateCreateRequest,
+	AdminAbuseReportResponseTemplateCreateResponse,
+	AdminAbuseReportResponseTemplateDeleteRequest,
+	AdminAbuseReportResponseTemplateListResponse,
+	AdminAbuseReportResponseTemplateUpdateRequest,
+	AdminAbuseReportResponseTemplateUpdateResponse,
 	AdminAbuseUserReportsRequest,
 	AdminAbuseUserReportsResponse,
 	AdminAccountsCreateRequest,
@@ -35,6 +43,23 @@ import type {
 	AdminAvatarDecorationsListRequest,
 	AdminAvatarDecorationsListResponse,
 	AdminAvatarDecorationsUpdateRequest,
+	AdminBlocklistEntriesRequest,
+	AdminBlocklistEntriesResponse,
+	AdminBlocklistExportResponse,
+	AdminBlocklistImportRequest,
+	AdminBlocklistImportResponse,
+	AdminBlocklistSubscriptionApplyRequest,
+	AdminBlocklistSubscriptionApplyResponse,
+	AdminBlocklistSubscriptionCreateRequest,
+	AdminBlocklistSubscriptionCreateResponse,
+	AdminBlocklistSubscriptionDeleteRequest,
+	AdminBlocklistSubscriptionListResponse,
+	AdminBlocklistSubscriptionPreviewRequest,
+	AdminBlocklistSubscriptionPreviewResponse,
+	AdminBlocklistSubscriptionRefreshRequest,
+	AdminBlocklistSubscriptionRefreshResponse,
+	AdminBlocklistSubscriptionUpdateRequest,
+	AdminBlocklistSubscriptionUpdateResponse,
 	AdminCaptchaCurrentResponse,
 	AdminCaptchaSaveRequest,
 	AdminDeleteAccountRequest,
@@ -74,6 +99,13 @@ import type {
 	AdminInviteListRequest,
 	AdminInviteListResponse,
 	AdminMetaResponse,
+	AdminNotesExcludeFromPublicTimelinesRequest,
+	AdminNotesHideRequest,
+	AdminNotesIncludeInPublicTimelinesRequest,
+	AdminNotesMarkSensitiveRequest,
+	AdminNotesSetCwRequest,
+	AdminNotesUnhideRequest,
+	AdminNotesUnmarkSensitiveRequest,
 	AdminPromoCreateRequest,
 	AdminQueueDeliverDelayedResponse,
 	AdminQueueInboxDelayedResponse,
@@ -83,9 +115,13 @@ import type {
 	AdminRelaysAddResponse,
 	AdminRelaysListResponse,
 	AdminRelaysRemoveRequest,
+	AdminReplyAbuseUserReportRequest,
+	AdminReplyAbuseUserReportResponse,
 	AdminResetPasswordRequest,
 	AdminResetPasswordResponse,
 	AdminResolveAbuseUserReportRequest,
+	AdminResolveUserWarningAppealRequest,
+	AdminRevokeUserWarningRequest,
 	AdminRolesAssignRequest,
 	AdminRolesCreateRequest,
 	AdminRolesCreateResponse,
@@ -110,8 +146,11 @@ import type {
 	AdminSystemWebhookCreateRequest,
 	AdminSystemWebhookCreateResponse,
 	AdminSystemWebhookDeleteRequest,
+	AdminSystemWebhookDeliveryLogsRequest,
+	AdminSystemWebhookDeliveryLogsResponse,
 	AdminSystemWebhookListRequest,
 	AdminSystemWebhookListResponse,
+	AdminSystemWebhookRedeliverRequest,
 	AdminSystemWebhookShowRequest,
 	AdminSystemWebhookShowResponse,
 	AdminSystemWebhookTestRequest,
@@ -123,6 +162,10 @@ import type {
 	AdminUpdateAbuseUserReportRequest,
 	AdminUpdateMetaRequest,
 	AdminUpdateUserNoteRequest,
+	AdminUserWarningsRequest,
+	AdminUserWarningsResponse,
+	AdminWarnUserRequest,
+	AdminWarnUserResponse,
 	AnnouncementsRequest,
 	AnnouncementsResponse,
 	AnnouncementsShowRequest,
@@ -205,6 +248,36 @@ import type {
 	ChartsUserReactionsResponse,
 	ChartsUsersRequest,
 	ChartsUsersResponse,
+	ChatHistoryRequest,
+	ChatHistoryResponse,
+	ChatMessagesCreateToRoomRequest,
+	ChatMessagesCreateToRoomResponse,
+	ChatMessagesCreateToUserRequest,
+	ChatMessagesCreateToUserResponse,
+	ChatMessagesDeleteRequest,
+	ChatMessagesRoomTimelineRequest,
+	ChatMessagesRoomTimelineResponse,
+	ChatMessagesUserTimelineRequest,
+	ChatMessagesUserTimelineResponse,
+	ChatReadRoomRequest,
+	ChatReadUserRequest,
+	ChatRoomsAddMemberRequest,
+	ChatRoomsAddMemberResponse,
+	ChatRoomsCreateRequest,
+	ChatRoomsCreateResponse,
+	ChatRoomsDeleteRequest,
+	ChatRoomsJoiningRequest,
+	ChatRoomsJoiningResponse,
+	ChatRoomsLeaveRequest,
+	ChatRoomsMembersRequest,
+	ChatRoomsMembersResponse,
+	ChatRoomsOwnedRequest,
+	ChatRoomsOwnedResponse,
+	ChatRoomsRemoveMemberRequest,
+	ChatRoomsShowRequest,
+	ChatRoomsShowResponse,
+	ChatRoomsUpdateRequest,
+	ChatRoomsUpdateResponse,
 	ClipsAddNoteRequest,
 	ClipsCreateRequest,
 	ClipsCreateResponse,
@@ -346,6 +419,8 @@ import type {
 	I2faRemoveKeyRequest,
 	I2faUnregisterRequest,
 	I2faUpdateKeyRequest,
+	IAcknowledgeWarningRequest,
+	IAppealWarningRequest,
 	IAppsRequest,
 	IAppsResponse,
 	IAuthorizedAppsRequest,
@@ -364,6 +439,7 @@ import type {
 	IImportBlockingRequest,
 	IImportFollowingRequest,
 	IImportMutingRequest,
+	IImportNotesRequest,
 	IImportUserListsRequest,
 	IMoveRequest,
 	IMoveResponse,
@@ -401,10 +477,15 @@ import type {
 	IUpdateResponse,
 	IUpdateEmailRequest,
 	IUpdateEmailResponse,
+	IWarningsRequest,
+	IWarningsResponse,
 	IWebhooksCreateRequest,
 	IWebhooksCreateResponse,
 	IWebhooksDeleteRequest,
+	IWebhooksDeliveryLogsRequest,
+	IWebhooksDeliveryLogsResponse,
 	IWebhooksListResponse,
+	IWebhooksRedeliverRequest,
 	IWebhooksShowRequest,
 	IWebhooksShowResponse,
 	IWebhooksTestRequest,
@@ -435,12 +516,25 @@ import type {
 	NotesCreateRequest,
 	NotesCreateResponse,
 	NotesDeleteRequest,
+	NotesDraftsCreateRequest,
+	NotesDraftsCreateResponse,
+	NotesDraftsDeleteRequest,
+	NotesDraftsListRequest,
+	NotesDraftsListResponse,
+	NotesDraftsShowRequest,
+	NotesDraftsShowResponse,
+	NotesDraftsUpdateRequest,
+	NotesDraftsUpdateResponse,
 	NotesFavoritesCreateRequest,
 	NotesFavoritesDeleteRequest,
 	NotesFeaturedRequest,
 	NotesFeaturedResponse,
+	NotesFetchRepliesRequest,
+	NotesFetchRepliesResponse,
 	NotesGlobalTimelineRequest,
 	NotesGlobalTimelineResponse,
+	NotesHistoryRequest,
+	NotesHistoryResponse,
 	NotesHybridTimelineRequest,
 	NotesHybridTimelineResponse,
 	NotesLocalTimelineRequest,
@@ -458,6 +552,13 @@ import type {
 	NotesRenotesResponse,
 	NotesRepliesRequest,
 	NotesRepliesResponse,
+	NotesScheduledCreateRequest,
+	NotesScheduledCreateResponse,
+	NotesScheduledDeleteRequest,
+	NotesScheduledListRequest,
+	NotesScheduledListResponse,
+	NotesScheduledUpdateRequest,
+	NotesScheduledUpdateResponse,
 	NotesSearchRequest,
 	NotesSearchResponse,
 	NotesSearchByTagRequest,
@@ -473,6 +574,8 @@ import type {
 	NotesTranslateRequest,
 	NotesTranslateResponse,
 	NotesUnrenoteRequest,
+	NotesUpdateRequest,
+	NotesUpdateResponse,
 	NotesUserListTimelineRequest,
 	NotesUserListTimelineResponse,
 	NotificationsCreateRequest,
@@ -586,11 +689,17 @@ import type {
 } from './entities.js';
 
 export type Endpoints = {
+	'admin/abuse-report/assign': { req: AdminAbuseReportAssignRequest; res: EmptyResponse };
+	'admin/abuse-report/bulk-resolve': { req: AdminAbuseReportBulkResolveRequest; res: EmptyResponse };
 	'admin/abuse-report/notification-recipient/create': { req: AdminAbuseReportNotificationRecipientCreateRequest; res: AdminAbuseReportNotificationRecipientCreateResponse };
 	'admin/abuse-report/notification-recipient/delete': { req: AdminAbuseReportNotificationRecipientDeleteRequest; res: EmptyResponse };
 	'admin/abuse-report/notification-recipient/list': { req: AdminAbuseReportNotificationRecipientListRequest; res: AdminAbuseReportNotificationRecipientListResponse };
 	'admin/abuse-report/notification-recipient/show': { req: AdminAbuseReportNotificationRecipientShowRequest; res: AdminAbuseReportNotificationRecipientShowResponse };
 	'admin/abuse-report/notification-recipient/update': { req: AdminAbuseReportNotificationRecipientUpdateRequest; res: AdminAbuseReportNotificationRecipientUpdateResponse };
+	'admin/abuse-report/response-template/create': { req: AdminAbuseReportResponseTemplateCreateRequest; res: AdminAbuseReportResponseTemplateCreateResponse };
+	'admin/abuse-report/response-template/delete': { req: AdminAbuseReportResponseTemplateDeleteRequest; res: EmptyResponse };
+	'admin/abuse-report/response-template/list': { req: EmptyRequest; res: AdminAbuseReportResponseTemplateListResponse };
+	'admin/abuse-report/response-template/update': { req: AdminAbuseReportResponseTemplateUpdateRequest; res: AdminAbuseReportResponseTemplateUpdateResponse };
 	'admin/abuse-user-reports': { req: AdminAbuseUserReportsRequest; res: AdminAbuseUserReportsResponse };
 	'admin/accounts/create': { req: AdminAccountsCreateRequest; res: AdminAccountsCreateResponse };
 	'admin/accounts/delete': { req: AdminAccountsDeleteRequest; res: EmptyResponse };
@@ -607,6 +716,16 @@ export type Endpoints = {
 	'admin/avatar-decorations/delete': { req: AdminAvatarDecorationsDeleteRequest; res: EmptyResponse };
 	'admin/avatar-decorations/list': { req: AdminAvatarDecorationsListRequest; res: AdminAvatarDecorationsListResponse };
 	'admin/avatar-decorations/update': { req: AdminAvatarDecorationsUpdateRequest; res: EmptyResponse };
+	'admin/blocklist/entries': { req: AdminBlocklistEntriesRequest; res: AdminBlocklistEntriesResponse };
+	'admin/blocklist/export': { req: EmptyRequest; res: AdminBlocklistExportResponse };
+	'admin/blocklist/import': { req: AdminBlocklistImportRequest; res: AdminBlocklistImportResponse };
+	'admin/blocklist/subscription/apply': { req: AdminBlocklistSubscriptionApplyRequest; res: AdminBlocklistSubscriptionApplyResponse };
+	'admin/blocklist/subscription/create': { req: AdminBlocklistSubscriptionCreateRequest; res: AdminBlocklistSubscriptionCreateResponse };
+	'admin/blocklist/subscription/delete': { req: AdminBlocklistSubscriptionDeleteRequest; res: EmptyResponse };
+	'admin/blocklist/subscription/list': { req: EmptyRequest; res: AdminBlocklistSubscriptionListResponse };
+	'admin/blocklist/subscription/preview': { req: AdminBlocklistSubscriptionPreviewRequest; res: AdminBlocklistSubscriptionPreviewResponse };
+	'admin/blocklist/subscription/refresh': { req: AdminBlocklistSubscriptionRefreshRequest; res: AdminBlocklistSubscriptionRefreshResponse };
+	'admin/blocklist/subscription/update': { req: AdminBlocklistSubscriptionUpdateRequest; res: AdminBlocklistSubscriptionUpdateResponse };
 	'admin/captcha/current': { req: EmptyRequest; res: AdminCaptchaCurrentResponse };
 	'admin/captcha/save': { req: AdminCaptchaSaveRequest; res: EmptyResponse };
 	'admin/delete-account': { req: AdminDeleteAccountRequest; res: EmptyResponse };
@@ -639,6 +758,13 @@ export type Endpoints = {
 	'admin/invite/create': { req: AdminInviteCreateRequest; res: AdminInviteCreateResponse };
 	'admin/invite/list': { req: AdminInviteListRequest; res: AdminInviteListResponse };
 	'admin/meta': { req: EmptyRequest; res: AdminMetaResponse };
+	'admin/notes/exclude-from-public-timelines': { req: AdminNotesExcludeFromPublicTimelinesRequest; res: EmptyResponse };
+	'admin/notes/hide': { req: AdminNotesHideRequest; res: EmptyResponse };
+	'admin/notes/include-in-public-timelines': { req: AdminNotesIncludeInPublicTimelinesRequest; res: EmptyResponse };
+	'admin/notes/mark-sensitive': { req: AdminNotesMarkSensitiveRequest; res: EmptyResponse };
+	'admin/notes/set-cw': { req: AdminNotesSetCwRequest; res: EmptyResponse };
+	'admin/notes/unhide': { req: AdminNotesUnhideRequest; res: EmptyResponse };
+	'admin/notes/unmark-sensitive': { req: AdminNotesUnmarkSensitiveRequest; res: EmptyResponse };
 	'admin/promo/create': { req: AdminPromoCreateRequest; res: EmptyResponse };
 	'admin/queue/clear': { req: EmptyRequest; res: EmptyResponse };
 	'admin/queue/deliver-delayed': { req: EmptyRequest; res: AdminQueueDeliverDelayedResponse };
@@ -648,8 +774,11 @@ export type Endpoints = {
 	'admin/relays/add': { req: AdminRelaysAddRequest; res: AdminRelaysAddResponse };
 	'admin/relays/list': { req: EmptyRequest; res: AdminRelaysListResponse };
 	'admin/relays/remove': { req: AdminRelaysRemoveRequest; res: EmptyResponse };
+	'admin/reply-abuse-user-report': { req: AdminReplyAbuseUserReportRequest; res: AdminReplyAbuseUserReportResponse };
 	'admin/reset-password': { req: AdminResetPasswordRequest; res: AdminResetPasswordResponse };
 	'admin/resolve-abuse-user-report': { req: AdminResolveAbuseUserReportRequest; res: EmptyResponse };
+	'admin/resolve-user-warning-appeal': { req: AdminResolveUserWarningAppealRequest; res: EmptyResponse };
+	'admin/revoke-user-warning': { req: AdminRevokeUserWarningRequest; res: EmptyResponse };
 	'admin/roles/assign': { req: AdminRolesAssignRequest; res: EmptyResponse };
 	'admin/roles/create': { req: AdminRolesCreateRequest; res: AdminRolesCreateResponse };
 	'admin/roles/delete': { req: AdminRolesDeleteRequest; res: EmptyResponse };
@@ -659,6 +788,7 @@ export type Endpoints = {
 	'admin/roles/update': { req: AdminRolesUpdateRequest; res: EmptyResponse };
 	'admin/roles/update-default-policies': { req: AdminRolesUpdateDefaultPoliciesRequest; res: EmptyResponse };
 	'admin/roles/users': { req: AdminRolesUsersRequest; res: AdminRolesUsersResponse };
+	'admin/search/rebuild-index': { req: EmptyRequest; res: EmptyResponse };
 	'admin/send-email': { req: AdminSendEmailRequest; res: EmptyResponse };
 	'admin/server-info': { req: EmptyRequest; res: AdminServerInfoResponse };
 	'admin/show-moderation-logs': { req: AdminShowModerationLogsRequest; res: AdminShowModerationLogsResponse };
@@ -667,7 +797,9 @@ export type Endpoints = {
 	'admin/suspend-user': { req: AdminSuspendUserRequest; res: EmptyResponse };
 	'admin/system-webhook/create': { req: AdminSystemWebhookCreateRequest; res: AdminSystemWebhookCreateResponse };
 	'admin/system-webhook/delete': { req: AdminSystemWebhookDeleteRequest; res: EmptyResponse };
+	'admin/system-webhook/delivery-logs': { req: AdminSystemWebhookDeliveryLogsRequest; res: AdminSystemWebhookDeliveryLogsResponse };
 	'admin/system-webhook/list': { req: AdminSystemWebhookListRequest; res: AdminSystemWebhookListResponse };
+	'admin/system-webhook/redeliver': { req: AdminSystemWebhookRedeliverRequest; res: EmptyResponse };
 	'admin/system-webhook/show': { req: AdminSystemWebhookShowRequest; res: AdminSystemWebhookShowResponse };
 	'admin/system-webhook/test': { req: AdminSystemWebhookTestRequest; res: EmptyResponse };
 	'admin/system-webhook/update': { req: AdminSystemWebhookUpdateRequest; res: AdminSystemWebhookUpdateResponse };
@@ -677,6 +809,8 @@ export type Endpoints = {
 	'admin/update-abuse-user-report': { req: AdminUpdateAbuseUserReportRequest; res: EmptyResponse };
 	'admin/update-meta': { req: AdminUpdateMetaRequest; res: EmptyResponse };
 	'admin/update-user-note': { req: AdminUpdateUserNoteRequest; res: EmptyResponse };
+	'admin/user-warnings': { req: AdminUserWarningsRequest; res: AdminUserWarningsResponse };
+	'admin/warn-user': { req: AdminWarnUserRequest; res: AdminWarnUserResponse };
 	'announcements': { req: AnnouncementsRequest; res: AnnouncementsResponse };
 	'announcements/show': { req: AnnouncementsShowRequest; res: AnnouncementsShowResponse };
 	'antennas/create': { req: AntennasCreateRequest; res: AntennasCreateResponse };
@@ -723,6 +857,24 @@ export type Endpoints = {
 	'charts/user/pv': { req: ChartsUserPvRequest; res: ChartsUserPvResponse };
 	'charts/user/reactions': { req: ChartsUserReactionsRequest; res: ChartsUserReactionsResponse };
 	'charts/users': { req: ChartsUsersRequest; res: ChartsUsersResponse };
+	'chat/history': { req: ChatHistoryRequest; res: ChatHistoryResponse };
+	'chat/messages/create-to-room': { req: ChatMessagesCreateToRoomRequest; res: ChatMessagesCreateToRoomResponse };
+	'chat/messages/create-to-user': { req: ChatMessagesCreateToUserRequest; res: ChatMessagesCreateToUserResponse };
+	'chat/messages/delete': { req: ChatMessagesDeleteRequest; res: EmptyResponse };
+	'chat/messages/room-timeline': { req: ChatMessagesRoomTimelineRequest; res: ChatMessagesRoomTimelineResponse };
+	'chat/messages/user-timeline': { req: ChatMessagesUserTimelineRequest; res: ChatMessagesUserTimelineResponse };
+	'chat/read-room': { req: ChatReadRoomRequest; res: EmptyResponse };
+	'chat/read-user': { req: ChatReadUserRequest; res: EmptyResponse };
+	'chat/rooms/add-member': { req: ChatRoomsAddMemberRequest; res: ChatRoomsAddMemberResponse };
+	'chat/rooms/create': { req: ChatRoomsCreateRequest; res: ChatRoomsCreateResponse };
+	'chat/rooms/delete': { req: ChatRoomsDeleteRequest; res: EmptyResponse };
+	'chat/rooms/joining': { req: ChatRoomsJoiningRequest; res: ChatRoomsJoiningResponse };
+	'chat/rooms/leave': { req: ChatRoomsLeaveRequest; res: EmptyResponse };
+	'chat/rooms/members': { req: ChatRoomsMembersRequest; res: ChatRoomsMembersResponse };
+	'chat/rooms/owned': { req: ChatRoomsOwnedRequest; res: ChatRoomsOwnedResponse };
+	'chat/rooms/remove-member': { req: ChatRoomsRemoveMemberRequest; res: EmptyResponse };
+	'chat/rooms/show': { req: ChatRoomsShowRequest; res: ChatRoomsShowResponse };
+	'chat/rooms/update': { req: ChatRoomsUpdateRequest; res: ChatRoomsUpdateResponse };
 	'clips/add-note': { req: ClipsAddNoteRequest; res: EmptyResponse };
 	'clips/create': { req: ClipsCreateRequest; res: ClipsCreateResponse };
 	'clips/delete': { req: ClipsDeleteRequest; res: EmptyResponse };
@@ -811,6 +963,8 @@ export type Endpoints = {
 	'i/2fa/remove-key': { req: I2faRemoveKeyRequest; res: EmptyResponse };
 	'i/2fa/unregister': { req: I2faUnregisterRequest; res: EmptyResponse };
 	'i/2fa/update-key': { req: I2faUpdateKeyRequest; res: EmptyResponse };
+	'i/acknowledge-warning': { req: IAcknowledgeWarningRequest; res: EmptyResponse };
+	'i/appeal-warning': { req: IAppealWarningRequest; res: EmptyResponse };
 	'i/apps': { req: IAppsRequest; res: IAppsResponse };
 	'i/authorized-apps': { req: IAuthorizedAppsRequest; res: IAuthorizedAppsResponse };
 	'i/change-password': { req: IChangePasswordRequest; res: EmptyResponse };
@@ -831,6 +985,7 @@ export type Endpoints = {
 	'i/import-blocking': { req: IImportBlockingRequest; res: EmptyResponse };
 	'i/import-following': { req: IImportFollowingRequest; res: EmptyResponse };
 	'i/import-muting': { req: IImportMutingRequest; res: EmptyResponse };
+	'i/import-notes': { req: IImportNotesRequest; res: EmptyResponse };
 	'i/import-user-lists': { req: IImportUserListsRequest; res: EmptyResponse };
 	'i/move': { req: IMoveRequest; res: IMoveResponse };
 	'i/notifications': { req: INotificationsRequest; res: INotificationsResponse };
@@ -854,9 +1009,12 @@ export type Endpoints = {
 	'i/unpin': { req: IUnpinRequest; res: IUnpinResponse };
 	'i/update': { req: IUpdateRequest; res: IUpdateResponse };
 	'i/update-email': { req: IUpdateEmailRequest; res: IUpdateEmailResponse };
+	'i/warnings': { req: IWarningsRequest; res: IWarningsResponse };
 	'i/webhooks/create': { req: IWebhooksCreateRequest; res: IWebhooksCreateResponse };
 	'i/webhooks/delete': { req: IWebhooksDeleteRequest; res: EmptyResponse };
+	'i/webhooks/delivery-logs': { req: IWebhooksDeliveryLogsRequest; res: IWebhooksDeliveryLogsResponse };
 	'i/webhooks/list': { req: EmptyRequest; res: IWebhooksListResponse };
+	'i/webhooks/redeliver': { req: IWebhooksRedeliverRequest; res: EmptyResponse };
 	'i/webhooks/show': { req: IWebhooksShowRequest; res: IWebhooksShowResponse };
 	'i/webhooks/test': { req: IWebhooksTestRequest; res: EmptyResponse };
 	'i/webhooks/update': { req: IWebhooksUpdateRequest; res: EmptyResponse };
@@ -876,10 +1034,17 @@ export type Endpoints = {
 	'notes/conversation': { req: NotesConversationRequest; res: NotesConversationResponse };
 	'notes/create': { req: NotesCreateRequest; res: NotesCreateResponse };
 	'notes/delete': { req: NotesDeleteRequest; res: EmptyResponse };
+	'notes/drafts/create': { req: NotesDraftsCreateRequest; res: NotesDraftsCreateResponse };
+	'notes/drafts/delete': { req: NotesDraftsDeleteRequest; res: EmptyResponse };
+	'notes/drafts/list': { req: NotesDraftsListRequest; res: NotesDraftsListResponse };
+	'notes/drafts/show': { req: NotesDraftsShowRequest; res: NotesDraftsShowResponse };
+	'notes/drafts/update': { req: NotesDraftsUpdateRequest; res: NotesDraftsUpdateResponse };
 	'notes/favorites/create': { req: NotesFavoritesCreateRequest; res: EmptyResponse };
 	'notes/favorites/delete': { req: NotesFavoritesDeleteRequest; res: EmptyResponse };
 	'notes/featured': { req: NotesFeaturedRequest; res: NotesFeaturedResponse };
+	'notes/fetch-replies': { req: NotesFetchRepliesRequest; res: NotesFetchRepliesResponse };
 	'notes/global-timeline': { req: NotesGlobalTimelineRequest; res: NotesGlobalTimelineResponse };
+	'notes/history': { req: NotesHistoryRequest; res: NotesHistoryResponse };
 	'notes/hybrid-timeline': { req: NotesHybridTimelineRequest; res: NotesHybridTimelineResponse };
 	'notes/local-timeline': { req: NotesLocalTimelineRequest; res: NotesLocalTimelineResponse };
 	'notes/mentions': { req: NotesMentionsRequest; res: NotesMentionsResponse };
@@ -890,6 +1055,10 @@ export type Endpoints = {
 	'notes/reactions/delete': { req: NotesReactionsDeleteRequest; res: EmptyResponse };
 	'notes/renotes': { req: NotesRenotesRequest; res: NotesRenotesResponse };
 	'notes/replies': { req: NotesRepliesRequest; res: NotesRepliesResponse };
+	'notes/scheduled/create': { req: NotesScheduledCreateRequest; res: NotesScheduledCreateResponse };
+	'notes/scheduled/delete': { req: NotesScheduledDeleteRequest; res: EmptyResponse };
+	'notes/scheduled/list': { req: NotesScheduledListRequest; res: NotesScheduledListResponse };
+	'notes/scheduled/update': { req: NotesScheduledUpdateRequest; res: NotesScheduledUpdateResponse };
 	'notes/search': { req: NotesSearchRequest; res: NotesSearchResponse };
 	'notes/search-by-tag': { req: NotesSearchByTagRequest; res: NotesSearchByTagResponse };
 	'notes/show': { req: NotesShowRequest; res: NotesShowResponse };
@@ -899,6 +1068,7 @@ export type Endpoints = {
 	'notes/timeline': { req: NotesTimelineRequest; res: NotesTimelineResponse };
 	'notes/translate': { req: NotesTranslateRequest; res: NotesTranslateResponse };
 	'notes/unrenote': { req: NotesUnrenoteRequest; res: EmptyResponse };
+	'notes/update': { req: NotesUpdateRequest; res: NotesUpdateResponse };
 	'notes/user-list-timeline': { req: NotesUserListTimelineRequest; res: NotesUserListTimelineResponse };
 	'notifications/create': { req: NotificationsCreateRequest; res: EmptyResponse };
 	'notifications/flush': { req: EmptyRequest; res: EmptyResponse };
@@ -4,6 +4,8 @@ import { operations } from './types.js';
 export type EmptyRequest = Record<string, unknown> | undefined;
 export type EmptyResponse = Record<string, unknown> | undefined;
 
+export type AdminAbuseReportAssignRequest = operations['admin___abuse-report___assign']['requestBody']['content']['application/json'];
+export type AdminAbuseReportBulkResolveRequest = operations['admin___abuse-report___bulk-resolve']['requestBody']['content']['application/json'];
 export type AdminAbuseReportNotificationRecipientCreateRequest = operations['admin___abuse-report___notification-recipient___create']['requestBody']['content']['application/json'];
 export type AdminAbuseReportNotificationRecipientCreateResponse = operations['admin___abuse-report___notification-recipient___create']['responses']['200']['content']['application/json'];
 export type AdminAbuseReportNotificationRecipientDeleteRequest = operations['admin___abuse-report___notification-recipient___delete']['requestBody']['content']['application/json'];
@@ -13,6 +15,12 @@ export type AdminAbuseReportNotificationRecipientShowRequest = operations['admin
 export type AdminAbuseReportNotificationRecipientShowResponse = operations['admin___abuse-report___notification-recipient___show']['responses']['200']['content']['application/json'];
 export type AdminAbuseReportNotificationRecipientUpdateRequest = operations['admin___abuse-report___notification-recipient___update']['requestBody']['content']['application/json'];
 export type AdminAbuseReportNotificationRecipientUpdateResponse = operations['admin___abuse-report___notification-recipient___update']['responses']['200']['content']['application/json'];
+export type AdminAbuseReportResponseTemplateCreateRequest = operations['admin___abuse-report___response-template___create']['requestBody']['content']['application/json'];
+export type AdminAbuseReportResponseTemplateCreateResponse = operations['admin___abuse-report___response-template___create']['responses']['200']['content']['application/json'];
+export type AdminAbuseReportResponseTemplateDeleteRequest = operations['admin___abuse-report___response-template___delete']['requestBody']['content']['application/json'];
+export type AdminAbuseReportResponseTemplateListResponse = operations['admin___abuse-report___response-template___list']['responses']['200']['content']['application/json'];
+export type AdminAbuseReportResponseTemplateUpdateRequest = operations['admin___abuse-report___response-template___update']['requestBody']['content']['application/json'];
+export type AdminAbuseReportResponseTemplateUpdateResponse = operations['admin___abuse-report___response-template___update']['responses']['200']['content']['application/json'];
 export type AdminAbuseUserReportsRequest = operations['admin___abuse-user-reports']['requestBody']['content']['application/json'];
 export type AdminAbuseUserReportsResponse = operations['admin___abuse-user-reports']['responses']['200']['content']['application/json'];
 export type AdminAccountsCreateRequest = operations['admin___accounts___create']['requestBody']['content']['application/json'];
@@ -38,6 +46,23 @@ export type AdminAvatarDecorationsDeleteRequest = operations['admin___avatar-dec
 export type AdminAvatarDecorationsListRequest = operations['admin___avatar-decorations___list']['requestBody']['content']['application/json'];
 export type AdminAvatarDecorationsListResponse = operations['admin___avatar-decorations___list']['responses']['200']['content']['application/json'];
 export type AdminAvatarDecorationsUpdateRequest = operations['admin___avatar-decorations___update']['requestBody']['content']['application/json'];
+export type AdminBlocklistEntriesRequest = operations['admin___blocklist___entries']['requestBody']['content']['application/json'];
+export type AdminBlocklistEntriesResponse = operations['admin___blocklist___entries']['responses']['200']['content']['application/json'];
+export type AdminBlocklistExportResponse = operations['admin___blocklist___export']['responses']['200']['content']['application/json'];
+export type AdminBlocklistImportRequest = operations['admin___blocklist___import']['requestBody']['content']['application/json'];
+export type AdminBlocklistImportResponse = operations['admin___blocklist___import']['responses']['200']['content']['application/json'];
+export type AdminBlocklistSubscriptionApplyRequest = operations['admin___blocklist___subscription___apply']['requestBody']['content']['application/json'];
+export type AdminBlocklistSubscriptionApplyResponse = operations['admin___blocklist___subscription___apply']['responses']['200']['content']['application/json'];
+export type AdminBlocklistSubscriptionCreateRequest = operations['admin___blocklist___subscription___create']['requestBody']['content']['application/json'];
+export type AdminBlocklistSubscriptionCreateResponse = operations['admin___blocklist___subscription___create']['responses']['200']['content']['application/json'];
+export type AdminBlocklistSubscriptionDeleteRequest = operations['admin___blocklist___subscription___delete']['requestBody']['content']['application/json'];
+export type AdminBlocklistSubscriptionListResponse = operations['admin___blocklist___subscription___list']['responses']['200']['content']['application/json'];
+export type AdminBlocklistSubscriptionPreviewRequest = operations['admin___blocklist___subscription___preview']['requestBody']['content']['application/json'];
+export type AdminBlocklistSubscriptionPreviewResponse = operations['admin___blocklist___subscription___preview']['responses']['200']['content']['application/json'];
+export type AdminBlocklistSubscriptionRefreshRequest = operations['admin___blocklist___subscription___refresh']['requestBody']['content']['application/json'];
+export type AdminBlocklistSubscriptionRefreshResponse = operations['admin___blocklist___subscription___refresh']['responses']['200']['content']['application/json'];
+export type AdminBlocklistSubscriptionUpdateRequest = operations['admin___blocklist___subscription___update']['requestBody']['content']['application/json'];
+export type AdminBlocklistSubscriptionUpdateResponse = operations['admin___blocklist___subscription___update']['responses']['200']['content']['application/json'];
 export type AdminCaptchaCurrentResponse = operations['admin___captcha___current']['responses']['200']['content']['application/json'];
 export type AdminCaptchaSaveRequest = operations['admin___captcha___save']['requestBody']['content']['application/json'];
 export type AdminDeleteAccountRequest = operations['admin___delete-account']['requestBody']['content']['application/json'];
@@ -77,6 +102,13 @@ export type AdminInviteCreateResponse = operations['admin___invite___create']['r
 export type AdminInviteListRequest = operations['admin___invite___list']['requestBody']['content']['application/json'];
 export type AdminInviteListResponse = operations['admin___invite___list']['responses']['200']['content']['application/json'];
 export type AdminMetaResponse = operations['admin___meta']['responses']['200']['content']['application/json'];
+export type AdminNotesExcludeFromPublicTimelinesRequest = operations['admin___notes___exclude-from-public-timelines']['requestBody']['content']['application/json'];
+export type AdminNotesHideRequest = operations['admin___notes___hide']['requestBody']['content']['application/json'];
+export type AdminNotesIncludeInPublicTimelinesRequest = operations['admin___notes___include-in-public-timelines']['requestBody']['content']['application/json'];
+export type AdminNotesMarkSensitiveRequest = operations['admin___notes___mark-sensitive']['requestBody']['content']['application/json'];
+export type AdminNotesSetCwRequest = operations['admin___notes___set-cw']['requestBody']['content']['application/json'];
+export type AdminNotesUnhideRequest = operations['admin___notes___unhide']['requestBody']['content']['application/json'];
+export type AdminNotesUnmarkSensitiveRequest = operations['admin___notes___unmark-sensitive']['requestBody']['content']['application/json'];
 export type AdminPromoCreateRequest = operations['admin___promo___create']['requestBody']['content']['application/json'];
 export type AdminQueueDeliverDelayedResponse = operations['admin___queue___deliver-delayed']['responses']['200']['content']['application/json'];
 export type AdminQueueInboxDelayedResponse = operations['admin___queue___inbox-delayed']['responses']['200']['content']['application/json'];
@@ -86,9 +118,13 @@ export type AdminRelaysAddRequest = operations['admin___relays___add']['requestB
 export type AdminRelaysAddResponse = operations['admin___relays___add']['responses']['200']['content']['application/json'];
 export type AdminRelaysListResponse = operations['admin___relays___list']['responses']['200']['content']['application/json'];
 export type AdminRelaysRemoveRequest = operations['admin___relays___remove']['requestBody']['content']['application/json'];
+export type AdminReplyAbuseUserReportRequest = operations['admin___reply-abuse-user-report']['requestBody']['content']['application/json'];
+export type AdminReplyAbuseUserReportResponse = operations['admin___reply-abuse-user-report']['responses']['200']['content']['application/json'];
 export type AdminResetPasswordRequest = operations['admin___reset-password']['requestBody']['content']['application/json'];
 export type AdminResetPasswordResponse = operations['admin___reset-password']['responses']['200']['content']['application/json'];
 export type AdminResolveAbuseUserReportRequest = operations['admin___resolve-abuse-user-report']['requestBody']['content']['application/json'];
+export type AdminResolveUserWarningAppealRequest = operations['admin___resolve-user-warning-appeal']['requestBody']['content']['application/json'];
+export type AdminRevokeUserWarningRequest = operations['admin___revoke-user-warning']['requestBody']['content']['application/json'];
 export type AdminRolesAssignRequest = operations['admin___roles___assign']['requestBody']['content']['application/json'];
 export type AdminRolesCreateRequest = operations['admin___roles___create']['requestBody']['content']['application/json'];
 export type AdminRolesCreateResponse = operations['admin___roles___create']['responses']['200']['content']['application/json'];
@@ -113,8 +149,11 @@ export type AdminSuspendUserRequest = operations['admin___suspend-user']['reques
 export type AdminSystemWebhookCreateRequest = operations['admin___system-webhook___create']['requestBody']['content']['application/json'];
 export type AdminSystemWebhookCreateResponse = operations['admin___system-webhook___create']['responses']['200']['content']['application/json'];
 export type AdminSystemWebhookDeleteRequest = operations['admin___system-webhook___delete']['requestBody']['content']['application/json'];
+export type AdminSystemWebhookDeliveryLogsRequest = operations['admin___system-webhook___delivery-logs']['requestBody']['content']['application/json'];
+export type AdminSystemWebhookDeliveryLogsResponse = operations['admin___system-webhook___delivery-logs']['responses']['200']['content']['application/json'];
 export type AdminSystemWebhookListRequest = operations['admin___system-webhook___list']['requestBody']['content']['application/json'];
 export type AdminSystemWebhookListResponse = operations['admin___system-webhook___list']['responses']['200']['content']['application/json'];
+export type AdminSystemWebhookRedeliverRequest = operations['admin___system-webhook___redeliver']['requestBody']['content']['application/json'];
 export type AdminSystemWebhookShowRequest = operations['admin___system-webhook___show']['requestBody']['content']['application/json'];
 export type AdminSystemWebhookShowResponse = operations['admin___system-webhook___show']['responses']['200']['content']['application/json'];
 export type AdminSystemWebhookTestRequest = operations['admin___system-webhook___test']['requestBody']['content']['application/json'];
@@ -126,6 +165,10 @@ export type AdminUnsuspendUserRequest = operations['admin___unsuspend-user']['re
 export type AdminUpdateAbuseUserReportRequest = operations['admin___update-abuse-user-report']['requestBody']['content']['application/json'];
 export type AdminUpdateMetaRequest = operations['admin___update-meta']['requestBody']['content']['application/json'];
 export type AdminUpdateUserNoteRequest = operations['admin___update-user-note']['requestBody']['content']['application/json'];
+export type AdminUserWarningsRequest = operations['admin___user-warnings']['requestBody']['content']['application/json'];
+export type AdminUserWarningsResponse = operations['admin___user-warnings']['responses']['200']['content']['application/json'];
+export type AdminWarnUserRequest = operations['admin___warn-user']['requestBody']['content']['application/json'];
+export type AdminWarnUserResponse = operations['admin___warn-user']['responses']['200']['content']['application/json'];
 export type AnnouncementsRequest = operations['announcements']['requestBody']['content']['application/json'];
 export type AnnouncementsResponse = operations['announcements']['responses']['200']['content']['application/json'];
 export type AnnouncementsShowRequest = operations['announcements___show']['requestBody']['content']['application/json'];
@@ -208,6 +251,36 @@ export type ChartsUserReactionsRequest = operations['charts___user___reactions']
 export type ChartsUserReactionsResponse = operations['charts___user___reactions']['responses']['200']['content']['application/json'];
 export type ChartsUsersRequest = operations['charts___users']['requestBody']['content']['application/json'];
 export type ChartsUsersResponse = operations['charts___users']['responses']['200']['content']['application/json'];
+export type ChatHistoryRequest = operations['chat___history']['requestBody']['content']['application/json'];
+export type ChatHistoryResponse = operations['chat___history']['responses']['200']['content']['application/json'];
+export type ChatMessagesCreateToRoomRequest = operations['chat___messages___create-to-room']['requestBody']['content']['application/json'];
+export type ChatMessagesCreateToRoomResponse = operations['chat___messages___create-to-room']['responses']['200']['content']['application/json'];
+export type ChatMessagesCreateToUserRequest = operations['chat___messages___create-to-user']['requestBody']['content']['application/json'];
+export type ChatMessagesCreateToUserResponse = operations['chat___messages___create-to-user']['responses']['200']['content']['application/json'];
+export type ChatMessagesDeleteRequest = operations['chat___messages___delete']['requestBody']['content']['application/json'];
+export type ChatMessagesRoomTimelineRequest = operations['chat___messages___room-timeline']['requestBody']['content']['application/json'];
+export type ChatMessagesRoomTimelineResponse = operations['chat___messages___room-timeline']['responses']['200']['content']['application/json'];
+export type ChatMessagesUserTimelineRequest = operations['chat___messages___user-timeline']['requestBody']['content']['application/json'];
+export type ChatMessagesUserTimelineResponse = operations['chat___messages___user-timeline']['responses']['200']['content']['application/json'];
+export type ChatReadRoomRequest = operations['chat___read-room']['requestBody']['content']['application/json'];
+export type ChatReadUserRequest = operations['chat___read-user']['requestBody']['content']['application/json'];
+export type ChatRoomsAddMemberRequest = operations['chat___rooms___add-member']['requestBody']['content']['application/json'];
+export type ChatRoomsAddMemberResponse = operations['chat___rooms___add-member']['responses']['200']['content']['application/json'];
+export type ChatRoomsCreateRequest = operations['chat___rooms___create']['requestBody']['content']['application/json'];
+export type ChatRoomsCreateResponse = operations['chat___rooms___create']['responses']['200']['content']['application/json'];
+export type ChatRoomsDeleteRequest = operations['chat___rooms___delete']['requestBody']['content']['application/json'];
+export type ChatRoomsJoiningRequest = operations['chat___rooms___joining']['requestBody']['content']['application/json'];
+export type ChatRoomsJoiningResponse = operations['chat___rooms___joining']['responses']['200']['content']['application/json'];
+export type ChatRoomsLeaveRequest = operations['chat___rooms___leave']['requestBody']['content']['application/json'];
+export type ChatRoomsMembersRequest = operations['chat___rooms___members']['requestBody']['content']['application/json'];
+export type ChatRoomsMembersResponse = operations['chat___rooms___members']['responses']['200']['content']['application/json'];
+export type ChatRoomsOwnedRequest = operations['chat___rooms___owned']['requestBody']['content']['application/json'];
+export type ChatRoomsOwnedResponse = operations['chat___rooms___owned']['responses']['200']['content']['application/json'];
+export type ChatRoomsRemoveMemberRequest = operations['chat___rooms___remove-member']['requestBody']['content']['application/json'];
+export type ChatRoomsShowRequest = operations['chat___rooms___show']['requestBody']['content']['application/json'];
+export type ChatRoomsShowResponse = operations['chat___rooms___show']['responses']['200']['content']['application/json'];
+export type ChatRoomsUpdateRequest = operations['chat___rooms___update']['requestBody']['content']['application/json'];
+export type ChatRoomsUpdateResponse = operations['chat___rooms___update']['responses']['200']['content']['application/json'];
 export type ClipsAddNoteRequest = operations['clips___add-note']['requestBody']['content']['application/json'];
 export type ClipsCreateRequest = operations['clips___create']['requestBody']['content']['application/json'];
 export type ClipsCreateResponse = operations['clips___create']['responses']['200']['content']['application/json'];
@@ -349,6 +422,8 @@ export type I2faRegisterKeyResponse = operations['i___2fa___register-key']['resp
 export type I2faRemoveKeyRequest = operations['i___2fa___remove-key']['requestBody']['content']['application/json'];
 export type I2faUnregisterRequest = operations['i___2fa___unregister']['requestBody']['content']['application/json'];
 export type I2faUpdateKeyRequest = operations['i___2fa___update-key']['requestBody']['content']['application/json'];
+export type IAcknowledgeWarningRequest = operations['i___acknowledge-warning']['requestBody']['content']['application/json'];
+export type IAppealWarningRequest = operations['i___appeal-warning']['requestBody']['content']['application/json'];
 export type IAppsRequest = operations['i___apps']['requestBody']['content']['application/json'];
 export type IAppsResponse = operations['i___apps']['responses']['200']['content']['application/json'];
 export type IAuthorizedAppsRequest = operations['i___authorized-apps']['requestBody']['content']['application/json'];
@@ -367,6 +442,7 @@ export type IImportAntennasRequest = operations['i___import-antennas']['requestB
 export type IImportBlockingRequest = operations['i___import-blocking']['requestBody']['content']['application/json'];
 export type IImportFollowingRequest = operations['i___import-following']['requestBody']['content']['application/json'];
 export type IImportMutingRequest = operations['i___import-muting']['requestBody']['content']['application/json'];
+export type IImportNotesRequest = operations['i___import-notes']['requestBody']['content']['application/json'];
 export type IImportUserListsRequest = operations['i___import-user-lists']['requestBody']['content']['application/json'];
 export type IMoveRequest = operations['i___move']['requestBody']['content']['application/json'];
 export type IMoveResponse = operations['i___move']['responses']['200']['content']['application/json'];
@@ -404,10 +480,15 @@ export type IUpdateRequest = operations['i___update']['requestBody']['content'][
 export type IUpdateResponse = operations['i___update']['responses']['200']['content']['application/json'];
 export type IUpdateEmailRequest = operations['i___update-email']['requestBody']['content']['application/json'];
 export type IUpdateEmailResponse = operations['i___update-email']['responses']['200']['content']['application/json'];
+export type IWarningsRequest = operations['i___warnings']['requestBody']['content']['application/json'];
+export type IWarningsResponse = operations['i___warnings']['responses']['200']['content']['application/json'];
 export type IWebhooksCreateRequest = operations['i___webhooks___create']['requestBody']['content']['application/json'];
 export type IWebhooksCreateResponse = operations['i___webhooks___create']['responses']['200']['content']['application/json'];
 export type IWebhooksDeleteRequest = operations['i___webhooks___delete']['requestBody']['content']['application/json'];
+export type IWebhooksDeliveryLogsRequest = operations['i___webhooks___delivery-logs']['requestBody']['content']['application/json'];
+export type IWebhooksDeliveryLogsResponse = operations['i___webhooks___delivery-logs']['responses']['200']['content']['application/json'];
 export type IWebhooksListResponse = operations['i___webhooks___list']['responses']['200']['content']['application/json'];
+export type IWebhooksRedeliverRequest = operations['i___webhooks___redeliver']['requestBody']['content']['application/json'];
 export type IWebhooksShowRequest = operations['i___webhooks___show']['requestBody']['content']['application/json'];
 export type IWebhooksShowResponse = operations['i___webhooks___show']['responses']['200']['content']['application/json'];
 export type IWebhooksTestRequest = operations['i___webhooks___test']['requestBody']['content']['application/json'];
@@ -438,12 +519,25 @@ export type NotesConversationResponse = operations['notes___conversation']['resp
 export type NotesCreateRequest = operations['notes___create']['requestBody']['content']['application/json'];
 export type NotesCreateResponse = operations['notes___create']['responses']['200']['content']['application/json'];
 export type NotesDeleteRequest = operations['notes___delete']['requestBody']['content']['application/json'];
+export type NotesDraftsCreateRequest = operations['notes___drafts___create']['requestBody']['content']['application/json'];
+export type NotesDraftsCreateResponse = operations['notes___drafts___create']['responses']['200']['content']['application/json'];
+export type NotesDraftsDeleteRequest = operations['notes___drafts___delete']['requestBody']['content']['application/json'];
+export type NotesDraftsListRequest = operations['notes___drafts___list']['requestBody']['content']['application/json'];
+export type NotesDraftsListResponse = operations['notes___drafts___list']['responses']['200']['content']['application/json'];
+export type NotesDraftsShowRequest = operations['notes___drafts___show']['requestBody']['content']['application/json'];
+export type NotesDraftsShowResponse = operations['notes___drafts___show']['responses']['200']['content']['application/json'];
+export type NotesDraftsUpdateRequest = operations['notes___drafts___update']['requestBody']['content']['application/json'];
+export type NotesDraftsUpdateResponse = operations['notes___drafts___update']['responses']['200']['content']['application/json'];
 export type NotesFavoritesCreateRequest = operations['notes___favorites___create']['requestBody']['content']['application/json'];
 export type NotesFavoritesDeleteRequest = operations['notes___favorites___delete']['requestBody']['content']['application/json'];
 export type NotesFeaturedRequest = operations['notes___featured']['requestBody']['content']['application/json'];
 export type NotesFeaturedResponse = operations['notes___featured']['responses']['200']['content']['application/json'];
+export type NotesFetchRepliesRequest = operations['notes___fetch-replies']['requestBody']['content']['application/json'];
+export type NotesFetchRepliesResponse = operations['notes___fetch-replies']['responses']['200']['content']['application/json'];
 export type NotesGlobalTimelineRequest = operations['notes___global-timeline']['requestBody']['content']['application/json'];
 export type NotesGlobalTimelineResponse = operations['notes___global-timeline']['responses']['200']['content']['application/json'];
+export type NotesHistoryRequest = operations['notes___history']['requestBody']['content']['application/json'];
+export type NotesHistoryResponse = operations['notes___history']['responses']['200']['content']['application/json'];
 export type NotesHybridTimelineRequest = operations['notes___hybrid-timeline']['requestBody']['content']['application/json'];
 export type NotesHybridTimelineResponse = operations['notes___hybrid-timeline']['responses']['200']['content']['application/json'];
 export type NotesLocalTimelineRequest = operations['notes___local-timeline']['requestBody']['content']['application/json'];
@@ -461,6 +555,13 @@ export type NotesRenotesRequest = operations['notes___renotes']['requestBody']['
 export type NotesRenotesResponse = operations['notes___renotes']['responses']['200']['content']['application/json'];
 export type NotesRepliesRequest = operations['notes___replies']['requestBody']['content']['application/json'];
 export type NotesRepliesResponse = operations['notes___replies']['responses']['200']['content']['application/json'];
+export type NotesScheduledCreateRequest = operations['notes___scheduled___create']['requestBody']['content']['application/json'];
+export type NotesScheduledCreateResponse = operations['notes___scheduled___create']['responses']['200']['content']['application/json'];
+export type NotesScheduledDeleteRequest = operations['notes___scheduled___delete']['requestBody']['content']['application/json'];
+export type NotesScheduledListRequest = operations['notes___scheduled___list']['requestBody']['content']['application/json'];
+export type NotesScheduledListResponse = operations['notes___scheduled___list']['responses']['200']['content']['application/json'];
+export type NotesScheduledUpdateRequest = operations['notes___scheduled___update']['requestBody']['content']['application/json'];
+export type NotesScheduledUpdateResponse = operations['notes___scheduled___update']['responses']['200']['content']['application/json'];
 export type NotesSearchRequest = operations['notes___search']['requestBody']['content']['application/json'];
 export type NotesSearchResponse = operations['notes___search']['responses']['200']['content']['application/json'];
 export type NotesSearchByTagRequest = operations['notes___search-by-tag']['requestBody']['content']['application/json'];
@@ -476,6 +577,8 @@ export type NotesTimelineResponse = operations['notes___timeline']['responses'][
 export type NotesTranslateRequest = operations['notes___translate']['requestBody']['content']['application/json'];
 export type NotesTranslateResponse = operations['notes___translate']['responses']['200']['content']['application/json'];
 export type NotesUnrenoteRequest = operations['notes___unrenote']['requestBody']['content']['application/json'];
+export type NotesUpdateRequest = operations['notes___update']['requestBody']['content']['application/json'];
+export type NotesUpdateResponse = operations['notes___update']['responses']['200']['content']['application/json'];
 export type NotesUserListTimelineRequest = operations['notes___user-list-timeline']['requestBody']['content']['application/json'];
 export type NotesUserListTimelineResponse = operations['notes___user-list-timeline']['responses']['200']['content']['application/json'];
 export type NotificationsCreateRequest = operations['notifications___create']['requestBody']['content']['application/json'];
@@ -14,6 +14,8 @@ export type App = components['schemas']['App'];
 export type Note = components['schemas']['Note'];
 export type NoteReaction = components['schemas']['NoteReaction'];
 export type NoteFavorite = components['schemas']['NoteFavorite'];
+export type NoteHistory = components['schemas']['NoteHistory'];
+export type NoteDraft = components['schemas']['NoteDraft'];
 export type Notification = components['schemas']['Notification'];
 export type DriveFile = components['schemas']['DriveFile'];
 export type DriveFolder = components['schemas']['DriveFolder'];
@@ -43,14 +45,26 @@ export type RoleCondFormulaValueUserSettingBooleanSchema = components['schemas']
 export type RoleCondFormulaValueAssignedRole = components['schemas']['RoleCondFormulaValueAssignedRole'];
 export type RoleCondFormulaValueCreated = components['schemas']['RoleCondFormulaValueCreated'];
 export type RoleCondFormulaFollowersOrFollowingOrNotes = components['schemas']['RoleCondFormulaFollowersOrFollowingOrNotes'];
+export type RoleCondFormulaValueHost = components['schemas']['RoleCondFormulaValueHost'];
+export type RoleCondFormulaValueEmailDomain = components['schemas']['RoleCondFormulaValueEmailDomain'];
+export type RoleCondFormulaValueAchievement = components['schemas']['RoleCondFormulaValueAchievement'];
 export type RoleCondFormulaValue = components['schemas']['RoleCondFormulaValue'];
 export type RoleLite = components['schemas']['RoleLite'];
 export type Role = components['schemas']['Role'];
 export type RolePolicies = components['schemas']['RolePolicies'];
 export type ReversiGameLite = components['schemas']['ReversiGameLite'];
 export type ReversiGameDetailed = components['schemas']['ReversiGameDetailed'];
+export type ChatMessage = components['schemas']['ChatMessage'];
+export type ChatRoom = components['schemas']['ChatRoom'];
+export type ChatRoomMembership = components['schemas']['ChatRoomMembership'];
 export type MetaLite = components['schemas']['MetaLite'];
 export type MetaDetailedOnly = components['schemas']['MetaDetailedOnly'];
 export type MetaDetailed = components['schemas']['MetaDetailed'];
 export type SystemWebhook = components['schemas']['SystemWebhook'];
+export type WebhookDeliveryLog = components['schemas']['WebhookDeliveryLog'];
 export type AbuseReportNotificationRecipient = components['schemas']['AbuseReportNotificationRecipient'];
+export type AbuseReportResponseTemplate = components['schemas']['AbuseReportResponseTemplate'];
+export type UserWarning = components['schemas']['UserWarning'];
+export type BlocklistSubscription = components['schemas']['BlocklistSubscription'];
+export type BlocklistEntry = components['schemas']['BlocklistEntry'];
+export type BlocklistChange = components['schemas']['BlocklistChange'];
@@ -12,6 +12,24 @@ type XOR<T, U> = (T | U) extends object ? (Without<T, U> & U) | (Without<U, T> &
 type OneOf<T extends any[]> = T extends [infer Only] ? Only : T extends [infer A, infer B, ...infer Rest] ? OneOf<[XOR<A, B>, ...Rest]> : never;
 
 export type paths = {
+  '/admin/abuse-report/assign': {
+    /**
+     * admin/abuse-report/assign
+     * @description Assign abuse reports to a moderator. Reports that do not exist are ignored.
+     *
+     * **Credential required**: *Yes* / **Permission**: *write:admin:resolve-abuse-user-report*
+     */
+    post: operations['admin___abuse-report___assign'];
+  };
+  '/admin/abuse-report/bulk-resolve': {
+    /**
+     * admin/abuse-report/bulk-resolve
+     * @description Resolve multiple abuse reports at once. Reports that do not exist are ignored.
+     *
+     * **Credential required**: *Yes* / **Permission**: *write:admin:resolve-abuse-user-report*
+     */
+    post: operations['admin___abuse-report___bulk-resolve'];
+  };
   '/admin/abuse-report/notification-recipient/create': {
     /**
      * admin/abuse-report/notification-recipient/create
@@ -62,6 +80,42 @@ export type paths = {
      */
     post: operations['admin___abuse-report___notification-recipient___update'];
   };
+  '/admin/abuse-report/response-template/create': {
+    /**
+     * admin/abuse-report/response-template/create
+     * @description No description provided.
+     *
+     * **Credential required**: *Yes* / **Permission**: *write:admin:resolve-abuse-user-report*
+     */
+    post: operations['admin___abuse-report___response-template___create'];
+  };
+  '/admin/abuse-report/response-template/delete': {
+    /**
+     * admin/abuse-report/response-template/delete
+     * @description No description provided.
+     *
+     * **Credential required**: *Yes* / **Permission**: *write:admin:resolve-abuse-user-report*
+     */
+    post: operations['admin___abuse-report___response-template___delete'];
+  };
+  '/admin/abuse-report/response-template/list': {
+    /**
+     * admin/abuse-report/response-template/list
+     * @description No description provided.
+     *
+     * **Credential required**: *Yes* / **Permission**: *read:admin:abuse-user-reports*
+     */
+    post: operations['admin___abuse-report___response-template___list'];
+  };
+  '/admin/abuse-report/response-template/update': {
+    /**
+     * admin/abuse-report/response-template/update
+     * @description No description provided.
+     *
+     * **Credential required**: *Yes* / **Permission**: *write:admin:resolve-abuse-user-report*
+     */
+    post: operations['admin___abuse-report___response-template___update'];
+  };
   '/admin/abuse-user-reports': {
     /**
      * admin/abuse-user-reports
@@ -206,6 +260,106 @@ export type paths = {
      */
     post: operations['admin___avatar-decorations___update'];
   };
+  '/admin/blocklist/entries': {
+    /**
+     * admin/blocklist/entries
+     * @description No description provided.
+     *
+     * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
+     * **Credential required**: *Yes* / **Permission**: *read:admin:meta*
+     */
+    post: operations['admin___blocklist___entries'];
+  };
+  '/admin/blocklist/export': {
+    /**
+     * admin/blocklist/export
+     * @description No description provided.
+     *
+     * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
+     * **Credential required**: *Yes* / **Permission**: *read:admin:meta*
+     */
+    post: operations['admin___blocklist___export'];
+  };
+  '/admin/blocklist/import': {
+    /**
+     * admin/blocklist/import
+     * @description Import a domain blocklist in Mastodon CSV format. With `dryRun`, only returns the changes that would be made.
+     *
+     * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
+     * **Credential required**: *Yes* / **Permission**: *write:admin:meta*
+     */
+    post: operations['admin___blocklist___import'];
+  };
+  '/admin/blocklist/subscription/apply': {
+    /**
+     * admin/blocklist/subscription/apply
+     * @description Applies the last fetched list to the blocked, silenced and media silenced hosts. Fails if the list has changed since `admin/blocklist/subscription/preview` returned `recordsHash`.
+     *
+     * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
+     * **Credential required**: *Yes* / **Permission**: *write:admin:meta*
+     */
+    post: operations['admin___blocklist___subscription___apply'];
+  };
+  '/admin/blocklist/subscription/create': {
+    /**
+     * admin/blocklist/subscription/create
+     * @description Subscribe to a domain blocklist URL. The list is fetched immediately, but is not applied until `admin/blocklist/subscription/apply` is called.
+     *
+     * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
+     * **Credential required**: *Yes* / **Permission**: *write:admin:meta*
+     */
+    post: operations['admin___blocklist___subscription___create'];
+  };
+  '/admin/blocklist/subscription/delete': {
+    /**
+     * admin/blocklist/subscription/delete
+     * @description No description provided.
+     *
+     * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
+     * **Credential required**: *Yes* / **Permission**: *write:admin:meta*
+     */
+    post: operations['admin___blocklist___subscription___delete'];
+  };
+  '/admin/blocklist/subscription/list': {
+    /**
+     * admin/blocklist/subscription/list
+     * @description No description provided.
+     *
+     * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
+     * **Credential required**: *Yes* / **Permission**: *read:admin:meta*
+     */
+    post: operations['admin___blocklist___subscription___list'];
+  };
+  '/admin/blocklist/subscription/preview': {
+    /**
+     * admin/blocklist/subscription/preview
+     * @description Returns the changes that applying the last fetched list would make, and the hash of that list to pass to `admin/blocklist/subscription/apply`.
+     *
+     * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
+     * **Credential required**: *Yes* / **Permission**: *read:admin:meta*
+     */
+    post: operations['admin___blocklist___subscription___preview'];
+  };
+  '/admin/blocklist/subscription/refresh': {
+    /**
+     * admin/blocklist/subscription/refresh
+     * @description No description provided.
+     *
+     * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
+     * **Credential required**: *Yes* / **Permission**: *write:admin:meta*
+     */
+    post: operations['admin___blocklist___subscription___refresh'];
+  };
+  '/admin/blocklist/subscription/update': {
+    /**
+     * admin/blocklist/subscription/update
+     * @description No description provided.
+     *
+     * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
+     * **Credential required**: *Yes* / **Permission**: *write:admin:meta*
+     */
+    post: operations['admin___blocklist___subscription___update'];
+  };
   '/admin/captcha/current': {
     /**
      * admin/captcha/current
@@ -495,6 +649,69 @@ export type paths = {
      */
     post: operations['admin___meta'];
   };
+  '/admin/notes/exclude-from-public-timelines': {
+    /**
+     * admin/notes/exclude-from-public-timelines
+     * @description No description provided.
+     *
+     * **Credential required**: *Yes* / **Permission**: *write:admin:notes*
+     */
+    post: operations['admin___notes___exclude-from-public-timelines'];
+  };
+  '/admin/notes/hide': {
+    /**
+     * admin/notes/hide
+     * @description No description provided.
+     *
+     * **Credential required**: *Yes* / **Permission**: *write:admin:notes*
+     */
+    post: operations['admin___notes___hide'];
+  };
+  '/admin/notes/include-in-public-timelines': {
+    /**
+     * admin/notes/include-in-public-timelines
+     * @description No description provided.
+     *
+     * **Credential required**: *Yes* / **Permission**: *write:admin:notes*
+     */
+    post: operations['admin___notes___include-in-public-timelines'];
+  };
+  '/admin/notes/mark-sensitive': {
+    /**
+     * admin/notes/mark-sensitive
+     * @description No description provided.
+     *
+     * **Credential required**: *Yes* / **Permission**: *write:admin:notes*
+     */
+    post: operations['admin___notes___mark-sensitive'];
+  };
+  '/admin/notes/set-cw': {
+    /**
+     * admin/notes/set-cw
+     * @description No description provided.
+     *
+     * **Credential required**: *Yes* / **Permission**: *write:admin:notes*
+     */
+    post: operations['admin___notes___set-cw'];
+  };
+  '/admin/notes/unhide': {
+    /**
+     * admin/notes/unhide
+     * @description No description provided.
+     *
+     * **Credential required**: *Yes* / **Permission**: *write:admin:notes*
+     */
+    post: operations['admin___notes___unhide'];
+  };
+  '/admin/notes/unmark-sensitive': {
+    /**
+     * admin/notes/unmark-sensitive
+     * @description No description provided.
+     *
+     * **Credential required**: *Yes* / **Permission**: *write:admin:notes*
+     */
+    post: operations['admin___notes___unmark-sensitive'];
+  };
   '/admin/promo/create': {
     /**
      * admin/promo/create
@@ -576,6 +793,15 @@ export type paths = {
      */
     post: operations['admin___relays___remove'];
   };
+  '/admin/reply-abuse-user-report': {
+    /**
+     * admin/reply-abuse-user-report
+     * @description Send a direct note from the moderator to the account that sent a report from a remote server. If the report was sent by the instance actor of the server, the note is sent to the contact account of the server instead.
+     *
+     * **Credential required**: *Yes* / **Permission**: *write:admin:resolve-abuse-user-report*
+     */
+    post: operations['admin___reply-abuse-user-report'];
+  };
   '/admin/reset-password': {
     /**
      * admin/reset-password
@@ -594,6 +820,24 @@ export type paths = {
      */
     post: operations['admin___resolve-abuse-user-report'];
   };
+  '/admin/resolve-user-warning-appeal': {
+    /**
+     * admin/resolve-user-warning-appeal
+     * @description Accept or reject an appeal against a warning. Accepting the appeal revokes the warning.
+     *
+     * **Credential required**: *Yes* / **Permission**: *write:admin:account*
+     */
+    post: operations['admin___resolve-user-warning-appeal'];
+  };
+  '/admin/revoke-user-warning': {
+    /**
+     * admin/revoke-user-warning
+     * @description Revoke a warning. The role assigned along with the warning is also unassigned.
+     *
+     * **Credential required**: *Yes* / **Permission**: *write:admin:account*
+     */
+    post: operations['admin___revoke-user-warning'];
+  };
   '/admin/roles/assign': {
     /**
      * admin/roles/assign
@@ -675,6 +919,15 @@ export type paths = {
      */
     post: operations['admin___roles___users'];
   };
+  '/admin/search/rebuild-index': {
+    /**
+     * admin/search/rebuild-index
+     * @description No description provided.
+     *
+     * **Credential required**: *Yes* / **Permission**: *write:admin:meta*
+     */
+    post: operations['admin___search___rebuild-index'];
+  };
   '/admin/send-email': {
     /**
      * admin/send-email
@@ -749,6 +1002,16 @@ export type paths = {
      */
     post: operations['admin___system-webhook___delete'];
   };
+  '/admin/system-webhook/delivery-logs': {
+    /**
+     * admin/system-webhook/delivery-logs
+     * @description No description provided.
+     *
+     * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
+     * **Credential required**: *Yes* / **Permission**: *read:admin:system-webhook*
+     */
+    post: operations['admin___system-webhook___delivery-logs'];
+  };
   '/admin/system-webhook/list': {
     /**
      * admin/system-webhook/list
@@ -759,6 +1022,16 @@ export type paths = {
      */
     post: operations['admin___system-webhook___list'];
   };
+  '/admin/system-webhook/redeliver': {
+    /**
+     * admin/system-webhook/redeliver
+     * @description No description provided.
+     *
+     * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
+     * **Credential required**: *Yes* / **Permission**: *write:admin:system-webhook*
+     */
+    post: operations['admin___system-webhook___redeliver'];
+  };
   '/admin/system-webhook/show': {
     /**
      * admin/system-webhook/show
@@ -843,6 +1116,24 @@ export type paths = {
      */
     post: operations['admin___update-user-note'];
   };
+  '/admin/user-warnings': {
+    /**
+     * admin/user-warnings
+     * @description No description provided.
+     *
+     * **Credential required**: *Yes* / **Permission**: *read:admin:account*
+     */
+    post: operations['admin___user-warnings'];
+  };
+  '/admin/warn-user': {
+    /**
+     * admin/warn-user
+     * @description Warn a local user. If a role is specified, it is assigned to the user until the specified time.
+     *
+     * **Credential required**: *Yes* / **Permission**: *write:admin:account*
+     */
+    post: operations['admin___warn-user'];
+  };
   '/announcements': {
     /**
      * announcements
@@ -1349,156 +1640,318 @@ export type paths = {
      */
     post: operations['charts___users'];
   };
-  '/clips/add-note': {
+  '/chat/history': {
     /**
-     * clips/add-note
+     * chat/history
      * @description No description provided.
      *
-     * **Credential required**: *Yes* / **Permission**: *write:account*
+     * **Credential required**: *Yes* / **Permission**: *read:chat*
      */
-    post: operations['clips___add-note'];
+    post: operations['chat___history'];
   };
-  '/clips/create': {
+  '/chat/messages/create-to-room': {
     /**
-     * clips/create
+     * chat/messages/create-to-room
      * @description No description provided.
      *
-     * **Credential required**: *Yes* / **Permission**: *write:account*
+     * **Credential required**: *Yes* / **Permission**: *write:chat*
      */
-    post: operations['clips___create'];
+    post: operations['chat___messages___create-to-room'];
   };
-  '/clips/delete': {
+  '/chat/messages/create-to-user': {
     /**
-     * clips/delete
+     * chat/messages/create-to-user
      * @description No description provided.
      *
-     * **Credential required**: *Yes* / **Permission**: *write:account*
+     * **Credential required**: *Yes* / **Permission**: *write:chat*
      */
-    post: operations['clips___delete'];
+    post: operations['chat___messages___create-to-user'];
   };
-  '/clips/favorite': {
+  '/chat/messages/delete': {
     /**
-     * clips/favorite
+     * chat/messages/delete
      * @description No description provided.
      *
-     * **Credential required**: *Yes* / **Permission**: *write:clip-favorite*
+     * **Credential required**: *Yes* / **Permission**: *write:chat*
      */
-    post: operations['clips___favorite'];
+    post: operations['chat___messages___delete'];
   };
-  '/clips/list': {
+  '/chat/messages/room-timeline': {
     /**
-     * clips/list
+     * chat/messages/room-timeline
      * @description No description provided.
      *
-     * **Credential required**: *Yes* / **Permission**: *read:account*
+     * **Credential required**: *Yes* / **Permission**: *read:chat*
      */
-    post: operations['clips___list'];
+    post: operations['chat___messages___room-timeline'];
   };
-  '/clips/my-favorites': {
+  '/chat/messages/user-timeline': {
     /**
-     * clips/my-favorites
+     * chat/messages/user-timeline
      * @description No description provided.
      *
-     * **Credential required**: *Yes* / **Permission**: *read:clip-favorite*
+     * **Credential required**: *Yes* / **Permission**: *read:chat*
      */
-    post: operations['clips___my-favorites'];
+    post: operations['chat___messages___user-timeline'];
   };
-  '/clips/notes': {
+  '/chat/read-room': {
     /**
-     * clips/notes
+     * chat/read-room
      * @description No description provided.
      *
-     * **Credential required**: *No* / **Permission**: *read:account*
+     * **Credential required**: *Yes* / **Permission**: *write:chat*
      */
-    post: operations['clips___notes'];
+    post: operations['chat___read-room'];
   };
-  '/clips/remove-note': {
+  '/chat/read-user': {
     /**
-     * clips/remove-note
+     * chat/read-user
      * @description No description provided.
      *
-     * **Credential required**: *Yes* / **Permission**: *write:account*
+     * **Credential required**: *Yes* / **Permission**: *write:chat*
      */
-    post: operations['clips___remove-note'];
+    post: operations['chat___read-user'];
   };
-  '/clips/show': {
+  '/chat/rooms/add-member': {
     /**
-     * clips/show
+     * chat/rooms/add-member
      * @description No description provided.
      *
-     * **Credential required**: *No* / **Permission**: *read:account*
+     * **Credential required**: *Yes* / **Permission**: *write:chat*
      */
-    post: operations['clips___show'];
+    post: operations['chat___rooms___add-member'];
   };
-  '/clips/unfavorite': {
+  '/chat/rooms/create': {
     /**
-     * clips/unfavorite
+     * chat/rooms/create
      * @description No description provided.
      *
-     * **Credential required**: *Yes* / **Permission**: *write:clip-favorite*
+     * **Credential required**: *Yes* / **Permission**: *write:chat*
      */
-    post: operations['clips___unfavorite'];
+    post: operations['chat___rooms___create'];
   };
-  '/clips/update': {
+  '/chat/rooms/delete': {
     /**
-     * clips/update
+     * chat/rooms/delete
      * @description No description provided.
      *
-     * **Credential required**: *Yes* / **Permission**: *write:account*
+     * **Credential required**: *Yes* / **Permission**: *write:chat*
      */
-    post: operations['clips___update'];
+    post: operations['chat___rooms___delete'];
   };
-  '/drive': {
+  '/chat/rooms/joining': {
     /**
-     * drive
+     * chat/rooms/joining
      * @description No description provided.
      *
-     * **Credential required**: *Yes* / **Permission**: *read:drive*
+     * **Credential required**: *Yes* / **Permission**: *read:chat*
      */
-    post: operations['drive'];
+    post: operations['chat___rooms___joining'];
   };
-  '/drive/files': {
+  '/chat/rooms/leave': {
     /**
-     * drive/files
+     * chat/rooms/leave
      * @description No description provided.
      *
-     * **Credential required**: *Yes* / **Permission**: *read:drive*
+     * **Credential required**: *Yes* / **Permission**: *write:chat*
      */
-    post: operations['drive___files'];
+    post: operations['chat___rooms___leave'];
   };
-  '/drive/files/attached-notes': {
+  '/chat/rooms/members': {
     /**
-     * drive/files/attached-notes
-     * @description Find the notes to which the given file is attached.
+     * chat/rooms/members
+     * @description No description provided.
      *
-     * **Credential required**: *Yes* / **Permission**: *read:drive*
+     * **Credential required**: *Yes* / **Permission**: *read:chat*
      */
-    post: operations['drive___files___attached-notes'];
+    post: operations['chat___rooms___members'];
   };
-  '/drive/files/check-existence': {
+  '/chat/rooms/owned': {
     /**
-     * drive/files/check-existence
-     * @description Check if a given file exists.
+     * chat/rooms/owned
+     * @description No description provided.
      *
-     * **Credential required**: *Yes* / **Permission**: *read:drive*
+     * **Credential required**: *Yes* / **Permission**: *read:chat*
      */
-    post: operations['drive___files___check-existence'];
+    post: operations['chat___rooms___owned'];
   };
-  '/drive/files/create': {
+  '/chat/rooms/remove-member': {
     /**
-     * drive/files/create
-     * @description Upload a new drive file.
+     * chat/rooms/remove-member
+     * @description No description provided.
      *
-     * **Credential required**: *Yes* / **Permission**: *write:drive*
+     * **Credential required**: *Yes* / **Permission**: *write:chat*
      */
-    post: operations['drive___files___create'];
+    post: operations['chat___rooms___remove-member'];
   };
-  '/drive/files/delete': {
+  '/chat/rooms/show': {
     /**
-     * drive/files/delete
-     * @description Delete an existing drive file.
+     * chat/rooms/show
+     * @description No description provided.
      *
-     * **Credential required**: *Yes* / **Permission**: *write:drive*
+     * **Credential required**: *Yes* / **Permission**: *read:chat*
+     */
+    post: operations['chat___rooms___show'];
+  };
+  '/chat/rooms/update': {
+    /**
+     * chat/rooms/update
+     * @description No description provided.
+     *
+     * **Credential required**: *Yes* / **Permission**: *write:chat*
+     */
+    post: operations['chat___rooms___update'];
+  };
+  '/clips/add-note': {
+    /**
+     * clips/add-note
+     * @description No description provided.
+     *
+     * **Credential required**: *Yes* / **Permission**: *write:account*
+     */
+    post: operations['clips___add-note'];
+  };
+  '/clips/create': {
+    /**
+     * clips/create
+     * @description No description provided.
+     *
+     * **Credential required**: *Yes* / **Permission**: *write:account*
+     */
+    post: operations['clips___create'];
+  };
+  '/clips/delete': {
+    /**
+     * clips/delete
+     * @description No description provided.
+     *
+     * **Credential required**: *Yes* / **Permission**: *write:account*
+     */
+    post: operations['clips___delete'];
+  };
+  '/clips/favorite': {
+    /**
+     * clips/favorite
+     * @description No description provided.
+     *
+     * **Credential required**: *Yes* / **Permission**: *write:clip-favorite*
+     */
+    post: operations['clips___favorite'];
+  };
+  '/clips/list': {
+    /**
+     * clips/list
+     * @description No description provided.
+     *
+     * **Credential required**: *Yes* / **Permission**: *read:account*
+     */
+    post: operations['clips___list'];
+  };
+  '/clips/my-favorites': {
+    /**
+     * clips/my-favorites
+     * @description No description provided.
+     *
+     * **Credential required**: *Yes* / **Permission**: *read:clip-favorite*
+     */
+    post: operations['clips___my-favorites'];
+  };
+  '/clips/notes': {
+    /**
+     * clips/notes
+     * @description No description provided.
+     *
+     * **Credential required**: *No* / **Permission**: *read:account*
+     */
+    post: operations['clips___notes'];
+  };
+  '/clips/remove-note': {
+    /**
+     * clips/remove-note
+     * @description No description provided.
+     *
+     * **Credential required**: *Yes* / **Permission**: *write:account*
+     */
+    post: operations['clips___remove-note'];
+  };
+  '/clips/show': {
+    /**
+     * clips/show
+     * @description No description provided.
+     *
+     * **Credential required**: *No* / **Permission**: *read:account*
+     */
+    post: operations['clips___show'];
+  };
+  '/clips/unfavorite': {
+    /**
+     * clips/unfavorite
+     * @description No description provided.
+     *
+     * **Credential required**: *Yes* / **Permission**: *write:clip-favorite*
+     */
+    post: operations['clips___unfavorite'];
+  };
+  '/clips/update': {
+    /**
+     * clips/update
+     * @description No description provided.
+     *
+     * **Credential required**: *Yes* / **Permission**: *write:account*
+     */
+    post: operations['clips___update'];
+  };
+  '/drive': {
+    /**
+     * drive
+     * @description No description provided.
+     *
+     * **Credential required**: *Yes* / **Permission**: *read:drive*
+     */
+    post: operations['drive'];
+  };
+  '/drive/files': {
+    /**
+     * drive/files
+     * @description No description provided.
+     *
+     * **Credential required**: *Yes* / **Permission**: *read:drive*
+     */
+    post: operations['drive___files'];
+  };
+  '/drive/files/attached-notes': {
+    /**
+     * drive/files/attached-notes
+     * @description Find the notes to which the given file is attached.
+     *
+     * **Credential required**: *Yes* / **Permission**: *read:drive*
+     */
+    post: operations['drive___files___attached-notes'];
+  };
+  '/drive/files/check-existence': {
+    /**
+     * drive/files/check-existence
+     * @description Check if a given file exists.
+     *
+     * **Credential required**: *Yes* / **Permission**: *read:drive*
+     */
+    post: operations['drive___files___check-existence'];
+  };
+  '/drive/files/create': {
+    /**
+     * drive/files/create
+     * @description Upload a new drive file.
+     *
+     * **Credential required**: *Yes* / **Permission**: *write:drive*
+     */
+    post: operations['drive___files___create'];
+  };
+  '/drive/files/delete': {
+    /**
+     * drive/files/delete
+     * @description Delete an existing drive file.
+     *
+     * **Credential required**: *Yes* / **Permission**: *write:drive*
      */
     post: operations['drive___files___delete'];
   };
@@ -2200,6 +2653,24 @@ export type paths = {
      */
     post: operations['i___2fa___update-key'];
   };
+  '/i/acknowledge-warning': {
+    /**
+     * i/acknowledge-warning
+     * @description No description provided.
+     *
+     * **Credential required**: *Yes* / **Permission**: *write:account*
+     */
+    post: operations['i___acknowledge-warning'];
+  };
+  '/i/appeal-warning': {
+    /**
+     * i/appeal-warning
+     * @description Appeal against a warning. Each warning can be appealed only once.
+     *
+     * **Credential required**: *Yes* / **Permission**: *write:account*
+     */
+    post: operations['i___appeal-warning'];
+  };
   '/i/apps': {
     /**
      * i/apps
@@ -2396,6 +2867,16 @@ export type paths = {
      */
     post: operations['i___import-muting'];
   };
+  '/i/import-notes': {
+    /**
+     * i/import-notes
+     * @description No description provided.
+     *
+     * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
+     * **Credential required**: *Yes*
+     */
+    post: operations['i___import-notes'];
+  };
   '/i/import-user-lists': {
     /**
      * i/import-user-lists
@@ -2610,6 +3091,15 @@ export type paths = {
      */
     post: operations['i___update-email'];
   };
+  '/i/warnings': {
+    /**
+     * i/warnings
+     * @description No description provided.
+     *
+     * **Credential required**: *Yes* / **Permission**: *read:account*
+     */
+    post: operations['i___warnings'];
+  };
   '/i/webhooks/create': {
     /**
      * i/webhooks/create
@@ -2628,6 +3118,16 @@ export type paths = {
      */
     post: operations['i___webhooks___delete'];
   };
+  '/i/webhooks/delivery-logs': {
+    /**
+     * i/webhooks/delivery-logs
+     * @description No description provided.
+     *
+     * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
+     * **Credential required**: *Yes* / **Permission**: *read:account*
+     */
+    post: operations['i___webhooks___delivery-logs'];
+  };
   '/i/webhooks/list': {
     /**
      * i/webhooks/list
@@ -2637,6 +3137,16 @@ export type paths = {
      */
     post: operations['i___webhooks___list'];
   };
+  '/i/webhooks/redeliver': {
+    /**
+     * i/webhooks/redeliver
+     * @description No description provided.
+     *
+     * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
+     * **Credential required**: *Yes* / **Permission**: *write:account*
+     */
+    post: operations['i___webhooks___redeliver'];
+  };
   '/i/webhooks/show': {
     /**
      * i/webhooks/show
@@ -2810,6 +3320,51 @@ export type paths = {
      */
     post: operations['notes___delete'];
   };
+  '/notes/drafts/create': {
+    /**
+     * notes/drafts/create
+     * @description No description provided.
+     *
+     * **Credential required**: *Yes* / **Permission**: *write:notes*
+     */
+    post: operations['notes___drafts___create'];
+  };
+  '/notes/drafts/delete': {
+    /**
+     * notes/drafts/delete
+     * @description No description provided.
+     *
+     * **Credential required**: *Yes* / **Permission**: *write:notes*
+     */
+    post: operations['notes___drafts___delete'];
+  };
+  '/notes/drafts/list': {
+    /**
+     * notes/drafts/list
+     * @description No description provided.
+     *
+     * **Credential required**: *Yes* / **Permission**: *read:account*
+     */
+    post: operations['notes___drafts___list'];
+  };
+  '/notes/drafts/show': {
+    /**
+     * notes/drafts/show
+     * @description No description provided.
+     *
+     * **Credential required**: *Yes* / **Permission**: *read:account*
+     */
+    post: operations['notes___drafts___show'];
+  };
+  '/notes/drafts/update': {
+    /**
+     * notes/drafts/update
+     * @description No description provided.
+     *
+     * **Credential required**: *Yes* / **Permission**: *write:notes*
+     */
+    post: operations['notes___drafts___update'];
+  };
   '/notes/favorites/create': {
     /**
      * notes/favorites/create
@@ -2844,6 +3399,15 @@ export type paths = {
      */
     post: operations['notes___featured'];
   };
+  '/notes/fetch-replies': {
+    /**
+     * notes/fetch-replies
+     * @description Queue a job that fetches replies to a remote note from its origin server and imports the ones this server does not have yet. Only replies on the same server as the note are imported. Returns whether a job was queued; it is not queued again within 10 minutes for the same note.
+     *
+     * **Credential required**: *Yes* / **Permission**: *read:account*
+     */
+    post: operations['notes___fetch-replies'];
+  };
   '/notes/global-timeline': {
     /**
      * notes/global-timeline
@@ -2853,6 +3417,22 @@ export type paths = {
      */
     post: operations['notes___global-timeline'];
   };
+  '/notes/history': {
+    /**
+     * notes/history
+     * @description No description provided.
+     *
+     * **Credential required**: *No*
+     */
+    get: operations['notes___history'];
+    /**
+     * notes/history
+     * @description No description provided.
+     *
+     * **Credential required**: *No*
+     */
+    post: operations['notes___history'];
+  };
   '/notes/hybrid-timeline': {
     /**
      * notes/hybrid-timeline
@@ -2950,32 +3530,68 @@ export type paths = {
      */
     post: operations['notes___replies'];
   };
-  '/notes/search': {
+  '/notes/scheduled/create': {
     /**
-     * notes/search
+     * notes/scheduled/create
      * @description No description provided.
      *
-     * **Credential required**: *No*
+     * **Credential required**: *Yes* / **Permission**: *write:notes*
      */
-    post: operations['notes___search'];
+    post: operations['notes___scheduled___create'];
   };
-  '/notes/search-by-tag': {
+  '/notes/scheduled/delete': {
     /**
-     * notes/search-by-tag
+     * notes/scheduled/delete
      * @description No description provided.
      *
-     * **Credential required**: *No*
+     * **Credential required**: *Yes* / **Permission**: *write:notes*
      */
-    post: operations['notes___search-by-tag'];
+    post: operations['notes___scheduled___delete'];
   };
-  '/notes/show': {
+  '/notes/scheduled/list': {
     /**
-     * notes/show
+     * notes/scheduled/list
      * @description No description provided.
      *
-     * **Credential required**: *No*
+     * **Credential required**: *Yes* / **Permission**: *read:account*
      */
-    post: operations['notes___show'];
+    post: operations['notes___scheduled___list'];
+  };
+  '/notes/scheduled/update': {
+    /**
+     * notes/scheduled/update
+     * @description No description provided.
+     *
+     * **Credential required**: *Yes* / **Permission**: *write:notes*
+     */
+    post: operations['notes___scheduled___update'];
+  };
+  '/notes/search': {
+    /**
+     * notes/search
+     * @description No description provided.
+     *
+     * **Credential required**: *No*
+     */
+    post: operations['notes___search'];
+  };
+  '/notes/search-by-tag': {
+    /**
+     * notes/search-by-tag
+     * @description No description provided.
+     *
+     * **Credential required**: *No*
+     */
+    post: operations['notes___search-by-tag'];
+  };
+  '/notes/show': {
+    /**
+     * notes/show
+     * @description No description provided.
+     *
+     * **Credential required**: *No*
+     */
+    post: operations['notes___show'];
   };
   '/notes/state': {
     /**
@@ -3031,6 +3647,15 @@ export type paths = {
      */
     post: operations['notes___unrenote'];
   };
+  '/notes/update': {
+    /**
+     * notes/update
+     * @description No description provided.
+     *
+     * **Credential required**: *Yes* / **Permission**: *write:notes*
+     */
+    post: operations['notes___update'];
+  };
   '/notes/user-list-timeline': {
     /**
      * notes/user-list-timeline
@@ -3883,6 +4508,7 @@ export type components = {
       hasUnreadMentions: boolean;
       hasUnreadAnnouncement: boolean;
       unreadAnnouncements: components['schemas']['Announcement'][];
+      unacknowledgedWarnings: components['schemas']['UserWarning'][];
       hasUnreadAntenna: boolean;
       hasUnreadChannel: boolean;
       hasUnreadNotification: boolean;
@@ -4119,6 +4745,8 @@ export type components = {
       createdAt: string;
       /** Format: date-time */
       deletedAt?: string | null;
+      /** Format: date-time */
+      updatedAt?: string | null;
       text: string | null;
       cw?: string | null;
       /** Format: id */
@@ -4173,6 +4801,8 @@ export type components = {
       localOnly?: boolean;
       /** @enum {string|null} */
       reactionAcceptance: 'likeOnly' | 'likeOnlyForRemote' | 'nonSensitiveOnly' | 'nonSensitiveOnlyForLocalLikeOnlyForRemote' | null;
+      /** @enum {string} */
+      quotePolicy: 'public' | 'followers' | 'nobody';
       reactionEmojis: {
         [key: string]: string;
       };
@@ -4184,6 +4814,10 @@ export type components = {
       repliesCount: number;
       uri?: string;
       url?: string;
+      moderatorCw?: string;
+      isHiddenByModerator?: boolean;
+      isSensitiveByModerator?: boolean;
+      isExcludedFromPublicTimelines?: boolean;
       reactionAndUserPairCache?: string[];
       clippedCount?: number;
       myReaction?: string | null;
@@ -4211,6 +4845,69 @@ export type components = {
       /** Format: id */
       noteId: string;
     };
+    NoteHistory: {
+      /**
+       * Format: id
+       * @example xxxxxxxxxx
+       */
+      id: string;
+      /** Format: date-time */
+      createdAt: string;
+      /** Format: id */
+      noteId: string;
+      text: string | null;
+      cw: string | null;
+      fileIds: string[];
+      files: components['schemas']['DriveFile'][];
+      poll: ({
+        /** Format: date-time */
+        expiresAt: string | null;
+        multiple: boolean;
+        choices: string[];
+      }) | null;
+    };
+    NoteDraft: {
+      /**
+       * Format: id
+       * @example xxxxxxxxxx
+       */
+      id: string;
+      /** Format: date-time */
+      createdAt: string;
+      /** Format: date-time */
+      scheduledAt: string | null;
+      text: string | null;
+      cw: string | null;
+      fileIds: string[];
+      files: components['schemas']['DriveFile'][];
+      poll: ({
+        /** Format: date-time */
+        expiresAt: string | null;
+        expiredAfter: number | null;
+        multiple: boolean;
+        choices: string[];
+      }) | null;
+      /** @enum {string} */
+      visibility: 'public' | 'home' | 'followers' | 'specified';
+      visibleUserIds: string[];
+      localOnly: boolean;
+      /** @enum {string|null} */
+      reactionAcceptance: 'likeOnly' | 'likeOnlyForRemote' | 'nonSensitiveOnly' | 'nonSensitiveOnlyForLocalLikeOnlyForRemote' | null;
+      /** @enum {string} */
+      quotePolicy: 'public' | 'followers' | 'nobody';
+      /** Format: id */
+      replyId: string | null;
+      reply?: components['schemas']['Note'] | null;
+      /** Format: id */
+      renoteId: string | null;
+      renote?: components['schemas']['Note'] | null;
+      /** Format: id */
+      channelId: string | null;
+      channel?: {
+        id: string;
+        name: string;
+      } | null;
+    };
     Notification: {
       /** Format: id */
       id: string;
@@ -4362,6 +5059,38 @@ export type components = {
       createdAt: string;
       /** @enum {string} */
       type: 'createToken';
+    } | ({
+      /** Format: id */
+      id: string;
+      /** Format: date-time */
+      createdAt: string;
+      /** @enum {string} */
+      type: 'abuseReportResolved';
+      /** Format: id */
+      reportId: string;
+      /** @enum {string|null} */
+      resolvedAs: 'accept' | 'reject' | null;
+      message: string | null;
+    }) | ({
+      /** Format: id */
+      id: string;
+      /** Format: date-time */
+      createdAt: string;
+      /** @enum {string} */
+      type: 'userWarningAppealResolved';
+      /** Format: id */
+      userWarningId: string;
+      /** @enum {string} */
+      appealStatus: 'accepted' | 'rejected';
+    }) | {
+      /** Format: id */
+      id: string;
+      /** Format: date-time */
+      createdAt: string;
+      /** @enum {string} */
+      type: 'scheduledNotePostFailed';
+      /** Format: id */
+      noteDraftId: string;
     } | ({
       /** Format: id */
       id: string;
@@ -4719,6 +5448,7 @@ export type components = {
       /** Format: date-time */
       latestRequestReceivedAt: string | null;
       moderationNote?: string | null;
+      policies?: (('rejectReports' | 'rejectMedia' | 'forceSensitive' | 'hideFromGlobalTimeline' | 'rejectFollows')[]) | null;
     };
     GalleryPost: {
       /**
@@ -4832,12 +5562,12 @@ export type components = {
     RoleCondFormulaValueIsLocalOrRemote: {
       id: string;
       /** @enum {string} */
-      type: 'isLocal' | 'isRemote';
+      type: 'isLocal' | 'isRemote' | 'isFromNotRespondingInstance';
     };
     RoleCondFormulaValueUserSettingBooleanSchema: {
       id: string;
       /** @enum {string} */
-      type: 'isSuspended' | 'isLocked' | 'isBot' | 'isCat' | 'isExplorable';
+      type: 'isSuspended' | 'isLocked' | 'isBot' | 'isCat' | 'isExplorable' | 'isTwoFactorEnabled';
     };
     RoleCondFormulaValueAssignedRole: {
       id: string;
@@ -4852,16 +5582,36 @@ export type components = {
     RoleCondFormulaValueCreated: {
       id: string;
       /** @enum {string} */
-      type: 'createdLessThan' | 'createdMoreThan';
+      type: 'createdLessThan' | 'createdMoreThan' | 'lastActiveLessThan' | 'lastActiveMoreThan';
       sec: number;
     };
     RoleCondFormulaFollowersOrFollowingOrNotes: {
       id: string;
       /** @enum {string} */
-      type: 'followersLessThanOrEq' | 'followersMoreThanOrEq' | 'followingLessThanOrEq' | 'followingMoreThanOrEq' | 'notesLessThanOrEq' | 'notesMoreThanOrEq';
+      type: 'followersLessThanOrEq' | 'followersMoreThanOrEq' | 'followingLessThanOrEq' | 'followingMoreThanOrEq' | 'notesLessThanOrEq' | 'notesMoreThanOrEq' | 'loggedInStreakMoreThanOrEq';
       value: number;
     };
-    RoleCondFormulaValue: components['schemas']['RoleCondFormulaLogics'] | components['schemas']['RoleCondFormulaValueNot'] | components['schemas']['RoleCondFormulaValueIsLocalOrRemote'] | components['schemas']['RoleCondFormulaValueUserSettingBooleanSchema'] | components['schemas']['RoleCondFormulaValueAssignedRole'] | components['schemas']['RoleCondFormulaValueCreated'] | components['schemas']['RoleCondFormulaFollowersOrFollowingOrNotes'];
+    RoleCondFormulaValueHost: {
+      id: string;
+      /** @enum {string} */
+      type: 'hostMatches';
+      /** @example *.example.com */
+      host: string;
+    };
+    RoleCondFormulaValueEmailDomain: {
+      id: string;
+      /** @enum {string} */
+      type: 'emailDomainMatches';
+      /** @example example.com */
+      domain: string;
+    };
+    RoleCondFormulaValueAchievement: {
+      id: string;
+      /** @enum {string} */
+      type: 'hasAchievement';
+      achievement: string;
+    };
+    RoleCondFormulaValue: components['schemas']['RoleCondFormulaLogics'] | components['schemas']['RoleCondFormulaValueNot'] | components['schemas']['RoleCondFormulaValueIsLocalOrRemote'] | components['schemas']['RoleCondFormulaValueUserSettingBooleanSchema'] | components['schemas']['RoleCondFormulaValueAssignedRole'] | components['schemas']['RoleCondFormulaValueCreated'] | components['schemas']['RoleCondFormulaFollowersOrFollowingOrNotes'] | components['schemas']['RoleCondFormulaValueHost'] | components['schemas']['RoleCondFormulaValueEmailDomain'] | components['schemas']['RoleCondFormulaValueAchievement'];
     RoleLite: {
       /**
        * Format: id
@@ -4937,7 +5687,11 @@ export type components = {
       canImportBlocking: boolean;
       canImportFollowing: boolean;
       canImportMuting: boolean;
+      canImportNotes: boolean;
       canImportUserLists: boolean;
+      canChat: boolean;
+      chatRoomLimit: number;
+      chatRoomMemberLimit: number;
     };
     ReversiGameLite: {
       /** Format: id */
@@ -5009,6 +5763,58 @@ export type components = {
       logs: number[][];
       map: string[];
     };
+    ChatMessage: {
+      /**
+       * Format: id
+       * @example xxxxxxxxxx
+       */
+      id: string;
+      /** Format: date-time */
+      createdAt: string;
+      /** Format: id */
+      fromUserId: string;
+      fromUser: components['schemas']['UserLite'];
+      /** Format: id */
+      toUserId: string | null;
+      toUser?: components['schemas']['UserLite'] | null;
+      /** Format: id */
+      toRoomId: string | null;
+      toRoom?: components['schemas']['ChatRoom'] | null;
+      text: string | null;
+      /** Format: id */
+      fileId: string | null;
+      file: components['schemas']['DriveFile'] | null;
+      reads: string[];
+    };
+    ChatRoom: {
+      /**
+       * Format: id
+       * @example xxxxxxxxxx
+       */
+      id: string;
+      /** Format: date-time */
+      createdAt: string;
+      /** Format: id */
+      ownerId: string;
+      owner: components['schemas']['UserLite'];
+      name: string;
+      description: string;
+      isJoined?: boolean;
+    };
+    ChatRoomMembership: {
+      /**
+       * Format: id
+       * @example xxxxxxxxxx
+       */
+      id: string;
+      /** Format: date-time */
+      createdAt: string;
+      /** Format: id */
+      userId: string;
+      user: components['schemas']['UserLite'];
+      /** Format: id */
+      roomId: string;
+    };
     MetaLite: {
       maintainerName: string | null;
       maintainerEmail: string | null;
@@ -5119,10 +5925,25 @@ export type components = {
       latestSentAt: string | null;
       latestStatus: number | null;
       name: string;
-      on: ('abuseReport' | 'abuseReportResolved' | 'userCreated' | 'inactiveModeratorsWarning' | 'inactiveModeratorsInvitationOnlyChanged')[];
+      on: ('abuseReport' | 'abuseReportResolved' | 'userCreated' | 'inactiveModeratorsWarning' | 'inactiveModeratorsInvitationOnlyChanged' | 'instanceNotResponding' | 'instanceSuspensionStateChanged' | 'updateServerSettings' | 'suspend' | 'unsuspend' | 'updateUserNote' | 'addCustomEmoji' | 'updateCustomEmoji' | 'deleteCustomEmoji' | 'assignRole' | 'unassignRole' | 'createRole' | 'updateRole' | 'deleteRole' | 'clearQueue' | 'promoteQueue' | 'deleteDriveFile' | 'deleteNote' | 'createGlobalAnnouncement' | 'createUserAnnouncement' | 'updateGlobalAnnouncement' | 'updateUserAnnouncement' | 'deleteGlobalAnnouncement' | 'deleteUserAnnouncement' | 'resetPassword' | 'suspendRemoteInstance' | 'unsuspendRemoteInstance' | 'updateRemoteInstanceNote' | 'updateRemoteInstancePolicies' | 'markSensitiveDriveFile' | 'unmarkSensitiveDriveFile' | 'resolveAbuseReport' | 'forwardAbuseReport' | 'replyAbuseReport' | 'updateAbuseReportNote' | 'assignAbuseReport' | 'createInvitation' | 'createAd' | 'updateAd' | 'deleteAd' | 'createAvatarDecoration' | 'updateAvatarDecoration' | 'deleteAvatarDecoration' | 'unsetUserAvatar' | 'unsetUserBanner' | 'createSystemWebhook' | 'updateSystemWebhook' | 'deleteSystemWebhook' | 'createAbuseReportNotificationRecipient' | 'updateAbuseReportNotificationRecipient' | 'deleteAbuseReportNotificationRecipient' | 'createAbuseReportResponseTemplate' | 'updateAbuseReportResponseTemplate' | 'deleteAbuseReportResponseTemplate' | 'deleteAccount' | 'deletePage' | 'deleteFlash' | 'deleteGalleryPost' | 'rebuildSearchIndex' | 'importBlocklist' | 'createBlocklistSubscription' | 'updateBlocklistSubscription' | 'deleteBlocklistSubscription' | 'hideNote' | 'unhideNote' | 'setNoteCw' | 'markSensitiveNote' | 'unmarkSensitiveNote' | 'excludeNoteFromPublicTimelines' | 'includeNoteInPublicTimelines' | 'warnUser' | 'revokeUserWarning' | 'resolveUserWarningAppeal')[];
       url: string;
       secret: string;
     };
+    WebhookDeliveryLog: {
+      /** Format: id */
+      id: string;
+      /** Format: date-time */
+      createdAt: string;
+      eventId: string;
+      type: string;
+      url: string;
+      requestBody: Record<string, never>;
+      statusCode: number | null;
+      latency: number;
+      error: string | null;
+      attempt: number;
+      success: boolean;
+    };
     AbuseReportNotificationRecipient: {
       id: string;
       isActive: boolean;
@@ -5136,6 +5957,88 @@ export type components = {
       systemWebhookId?: string;
       systemWebhook?: components['schemas']['SystemWebhook'];
     };
+    AbuseReportResponseTemplate: {
+      /** Format: id */
+      id: string;
+      /** Format: date-time */
+      updatedAt: string;
+      name: string;
+      text: string;
+    };
+    UserWarning: {
+      /** Format: id */
+      id: string;
+      /** Format: date-time */
+      createdAt: string;
+      /** Format: id */
+      userId: string;
+      reason: string;
+      /** Format: id */
+      noteId: string | null;
+      note?: components['schemas']['Note'] | null;
+      /** Format: date-time */
+      roleExpiresAt: string | null;
+      /** Format: date-time */
+      acknowledgedAt: string | null;
+      /** Format: date-time */
+      revokedAt: string | null;
+      appealComment: string | null;
+      /** Format: date-time */
+      appealedAt: string | null;
+      /** @enum {string|null} */
+      appealStatus: 'pending' | 'accepted' | 'rejected' | null;
+      user?: components['schemas']['UserLite'];
+      /** Format: id */
+      moderatorId?: string | null;
+      moderator?: components['schemas']['UserLite'] | null;
+      /** Format: id */
+      reportId?: string | null;
+      /** Format: id */
+      roleId?: string | null;
+      role?: components['schemas']['RoleLite'] | null;
+    };
+    BlocklistSubscription: {
+      /** Format: id */
+      id: string;
+      /** Format: date-time */
+      createdAt: string;
+      url: string;
+      isActive: boolean;
+      recordsCount: number;
+      /** Format: date-time */
+      lastFetchedAt: string | null;
+      lastError: string | null;
+      /** Format: date-time */
+      lastAppliedAt: string | null;
+    };
+    BlocklistEntry: {
+      /** Format: id */
+      id: string;
+      /** Format: date-time */
+      createdAt: string;
+      host: string;
+      /** @enum {string} */
+      severity: 'suspend' | 'silence' | 'noop';
+      rejectMedia: boolean;
+      publicComment: string;
+      source: string;
+      /** Format: id */
+      subscriptionId: string | null;
+    };
+    BlocklistChange: {
+      host: string;
+      before: {
+        /** @enum {string} */
+        severity: 'suspend' | 'silence' | 'noop';
+        rejectMedia: boolean;
+      };
+      after: {
+        /** @enum {string} */
+        severity: 'suspend' | 'silence' | 'noop';
+        rejectMedia: boolean;
+      };
+      publicComment: string;
+    };
   };
   responses: never;
   parameters: never;
@@ -5151,33 +6054,28 @@ export type external = Record<string, never>;
 export type operations = {
 
   /**
-   * admin/abuse-report/notification-recipient/create
-   * @description No description provided.
+   * admin/abuse-report/assign
+   * @description Assign abuse reports to a moderator. Reports that do not exist are ignored.
    *
-   * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
-   * **Credential required**: *Yes* / **Permission**: *write:admin:abuse-report:notification-recipient*
+   * **Credential required**: *Yes* / **Permission**: *write:admin:resolve-abuse-user-report*
    */
-  'admin___abuse-report___notification-recipient___create': {
+  'admin___abuse-report___assign': {
     requestBody: {
       content: {
         'application/json': {
-          isActive: boolean;
-          name: string;
-          /** @enum {string} */
-          method: 'email' | 'webhook';
-          /** Format: misskey:id */
-          userId?: string;
-          /** Format: misskey:id */
-          systemWebhookId?: string;
+          reportIds: string[];
+          /**
+           * Format: misskey:id
+           * @description Unassign the reports if null.
+           */
+          assigneeId: string | null;
         };
       };
     };
     responses: {
-      /** @description OK (with results) */
-      200: {
-        content: {
-          'application/json': components['schemas']['AbuseReportNotificationRecipient'];
-        };
+      /** @description OK (without any results) */
+      204: {
+        content: never;
       };
       /** @description Client error */
       400: {
@@ -5212,18 +6110,25 @@ export type operations = {
     };
   };
   /**
-   * admin/abuse-report/notification-recipient/delete
-   * @description No description provided.
+   * admin/abuse-report/bulk-resolve
+   * @description Resolve multiple abuse reports at once. Reports that do not exist are ignored.
    *
-   * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
-   * **Credential required**: *Yes* / **Permission**: *write:admin:abuse-report:notification-recipient*
+   * **Credential required**: *Yes* / **Permission**: *write:admin:resolve-abuse-user-report*
    */
-  'admin___abuse-report___notification-recipient___delete': {
+  'admin___abuse-report___bulk-resolve': {
     requestBody: {
       content: {
         'application/json': {
-          /** Format: misskey:id */
-          id: string;
+          reportIds: string[];
+          /** @enum {string|null} */
+          resolvedAs?: 'accept' | 'reject' | null;
+          /**
+           * @description Notify the local reporters that the reports have been resolved.
+           * @default false
+           */
+          notifyReporter?: boolean;
+          /** @description The message to the reporters, such as a canned response. */
+          message?: string | null;
         };
       };
     };
@@ -5265,25 +6170,32 @@ export type operations = {
     };
   };
   /**
-   * admin/abuse-report/notification-recipient/list
+   * admin/abuse-report/notification-recipient/create
    * @description No description provided.
    *
    * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
-   * **Credential required**: *Yes* / **Permission**: *read:admin:abuse-report:notification-recipient*
+   * **Credential required**: *Yes* / **Permission**: *write:admin:abuse-report:notification-recipient*
    */
-  'admin___abuse-report___notification-recipient___list': {
+  'admin___abuse-report___notification-recipient___create': {
     requestBody: {
       content: {
         'application/json': {
-          method?: ('email' | 'webhook')[];
-        };
-      };
-    };
-    responses: {
-      /** @description OK (with results) */
+          isActive: boolean;
+          name: string;
+          /** @enum {string} */
+          method: 'email' | 'webhook';
+          /** Format: misskey:id */
+          userId?: string;
+          /** Format: misskey:id */
+          systemWebhookId?: string;
+        };
+      };
+    };
+    responses: {
+      /** @description OK (with results) */
       200: {
         content: {
-          'application/json': components['schemas']['AbuseReportNotificationRecipient'][];
+          'application/json': components['schemas']['AbuseReportNotificationRecipient'];
         };
       };
       /** @description Client error */
@@ -5319,13 +6231,13 @@ export type operations = {
     };
   };
   /**
-   * admin/abuse-report/notification-recipient/show
+   * admin/abuse-report/notification-recipient/delete
    * @description No description provided.
    *
    * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
-   * **Credential required**: *Yes* / **Permission**: *read:admin:abuse-report:notification-recipient*
+   * **Credential required**: *Yes* / **Permission**: *write:admin:abuse-report:notification-recipient*
    */
-  'admin___abuse-report___notification-recipient___show': {
+  'admin___abuse-report___notification-recipient___delete': {
     requestBody: {
       content: {
         'application/json': {
@@ -5335,11 +6247,9 @@ export type operations = {
       };
     };
     responses: {
-      /** @description OK (with results) */
-      200: {
-        content: {
-          'application/json': components['schemas']['AbuseReportNotificationRecipient'];
-        };
+      /** @description OK (without any results) */
+      204: {
+        content: never;
       };
       /** @description Client error */
       400: {
@@ -5374,26 +6284,17 @@ export type operations = {
     };
   };
   /**
-   * admin/abuse-report/notification-recipient/update
+   * admin/abuse-report/notification-recipient/list
    * @description No description provided.
    *
    * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
-   * **Credential required**: *Yes* / **Permission**: *write:admin:abuse-report:notification-recipient*
+   * **Credential required**: *Yes* / **Permission**: *read:admin:abuse-report:notification-recipient*
    */
-  'admin___abuse-report___notification-recipient___update': {
+  'admin___abuse-report___notification-recipient___list': {
     requestBody: {
       content: {
         'application/json': {
-          /** Format: misskey:id */
-          id: string;
-          isActive: boolean;
-          name: string;
-          /** @enum {string} */
-          method: 'email' | 'webhook';
-          /** Format: misskey:id */
-          userId?: string;
-          /** Format: misskey:id */
-          systemWebhookId?: string;
+          method?: ('email' | 'webhook')[];
         };
       };
     };
@@ -5401,7 +6302,7 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': components['schemas']['AbuseReportNotificationRecipient'];
+          'application/json': components['schemas']['AbuseReportNotificationRecipient'][];
         };
       };
       /** @description Client error */
@@ -5437,33 +6338,18 @@ export type operations = {
     };
   };
   /**
-   * admin/abuse-user-reports
+   * admin/abuse-report/notification-recipient/show
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *read:admin:abuse-user-reports*
+   * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
+   * **Credential required**: *Yes* / **Permission**: *read:admin:abuse-report:notification-recipient*
    */
-  'admin___abuse-user-reports': {
+  'admin___abuse-report___notification-recipient___show': {
     requestBody: {
       content: {
         'application/json': {
-          /** @default 10 */
-          limit?: number;
-          /** Format: misskey:id */
-          sinceId?: string;
           /** Format: misskey:id */
-          untilId?: string;
-          /** @default null */
-          state?: string | null;
-          /**
-           * @default combined
-           * @enum {string}
-           */
-          reporterOrigin?: 'combined' | 'local' | 'remote';
-          /**
-           * @default combined
-           * @enum {string}
-           */
-          targetUserOrigin?: 'combined' | 'local' | 'remote';
+          id: string;
         };
       };
     };
@@ -5471,31 +6357,7 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': ({
-              /**
-               * Format: id
-               * @example xxxxxxxxxx
-               */
-              id: string;
-              /** Format: date-time */
-              createdAt: string;
-              comment: string;
-              /** @example false */
-              resolved: boolean;
-              /** Format: id */
-              reporterId: string;
-              /** Format: id */
-              targetUserId: string;
-              /** Format: id */
-              assigneeId: string | null;
-              reporter: components['schemas']['UserDetailedNotMe'];
-              targetUser: components['schemas']['UserDetailedNotMe'];
-              assignee: components['schemas']['UserDetailedNotMe'] | null;
-              forwarded: boolean;
-              /** @enum {string|null} */
-              resolvedAs: 'accept' | 'reject' | null;
-              moderationNote: string;
-            })[];
+          'application/json': components['schemas']['AbuseReportNotificationRecipient'];
         };
       };
       /** @description Client error */
@@ -5531,18 +6393,26 @@ export type operations = {
     };
   };
   /**
-   * admin/accounts/create
+   * admin/abuse-report/notification-recipient/update
    * @description No description provided.
    *
-   * **Credential required**: *No*
+   * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
+   * **Credential required**: *Yes* / **Permission**: *write:admin:abuse-report:notification-recipient*
    */
-  admin___accounts___create: {
+  'admin___abuse-report___notification-recipient___update': {
     requestBody: {
       content: {
         'application/json': {
-          username: string;
-          password: string;
-          setupPassword?: string | null;
+          /** Format: misskey:id */
+          id: string;
+          isActive: boolean;
+          name: string;
+          /** @enum {string} */
+          method: 'email' | 'webhook';
+          /** Format: misskey:id */
+          userId?: string;
+          /** Format: misskey:id */
+          systemWebhookId?: string;
         };
       };
     };
@@ -5550,7 +6420,7 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': components['schemas']['MeDetailed'];
+          'application/json': components['schemas']['AbuseReportNotificationRecipient'];
         };
       };
       /** @description Client error */
@@ -5586,24 +6456,26 @@ export type operations = {
     };
   };
   /**
-   * admin/accounts/delete
+   * admin/abuse-report/response-template/create
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:admin:account*
+   * **Credential required**: *Yes* / **Permission**: *write:admin:resolve-abuse-user-report*
    */
-  admin___accounts___delete: {
+  'admin___abuse-report___response-template___create': {
     requestBody: {
       content: {
         'application/json': {
-          /** Format: misskey:id */
-          userId: string;
+          name: string;
+          text: string;
         };
       };
     };
     responses: {
-      /** @description OK (without any results) */
-      204: {
-        content: never;
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': components['schemas']['AbuseReportResponseTemplate'];
+        };
       };
       /** @description Client error */
       400: {
@@ -5638,25 +6510,24 @@ export type operations = {
     };
   };
   /**
-   * admin/accounts/find-by-email
+   * admin/abuse-report/response-template/delete
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *read:admin:account*
+   * **Credential required**: *Yes* / **Permission**: *write:admin:resolve-abuse-user-report*
    */
-  'admin___accounts___find-by-email': {
+  'admin___abuse-report___response-template___delete': {
     requestBody: {
       content: {
         'application/json': {
-          email: string;
+          /** Format: misskey:id */
+          id: string;
         };
       };
     };
     responses: {
-      /** @description OK (with results) */
-      200: {
-        content: {
-          'application/json': components['schemas']['UserDetailedNotMe'];
-        };
+      /** @description OK (without any results) */
+      204: {
+        content: never;
       };
       /** @description Client error */
       400: {
@@ -5691,32 +6562,17 @@ export type operations = {
     };
   };
   /**
-   * admin/ad/create
+   * admin/abuse-report/response-template/list
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:admin:ad*
+   * **Credential required**: *Yes* / **Permission**: *read:admin:abuse-user-reports*
    */
-  admin___ad___create: {
-    requestBody: {
-      content: {
-        'application/json': {
-          url: string;
-          memo: string;
-          place: string;
-          priority: string;
-          ratio: number;
-          expiresAt: number;
-          startsAt: number;
-          imageUrl: string;
-          dayOfWeek: number;
-        };
-      };
-    };
+  'admin___abuse-report___response-template___list': {
     responses: {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': components['schemas']['Ad'];
+          'application/json': components['schemas']['AbuseReportResponseTemplate'][];
         };
       };
       /** @description Client error */
@@ -5752,24 +6608,28 @@ export type operations = {
     };
   };
   /**
-   * admin/ad/delete
+   * admin/abuse-report/response-template/update
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:admin:ad*
+   * **Credential required**: *Yes* / **Permission**: *write:admin:resolve-abuse-user-report*
    */
-  admin___ad___delete: {
+  'admin___abuse-report___response-template___update': {
     requestBody: {
       content: {
         'application/json': {
           /** Format: misskey:id */
           id: string;
+          name?: string;
+          text?: string;
         };
       };
     };
     responses: {
-      /** @description OK (without any results) */
-      204: {
-        content: never;
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': components['schemas']['AbuseReportResponseTemplate'];
+        };
       };
       /** @description Client error */
       400: {
@@ -5804,12 +6664,12 @@ export type operations = {
     };
   };
   /**
-   * admin/ad/list
+   * admin/abuse-user-reports
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *read:admin:ad*
+   * **Credential required**: *Yes* / **Permission**: *read:admin:abuse-user-reports*
    */
-  admin___ad___list: {
+  'admin___abuse-user-reports': {
     requestBody: {
       content: {
         'application/json': {
@@ -5820,7 +6680,28 @@ export type operations = {
           /** Format: misskey:id */
           untilId?: string;
           /** @default null */
-          publishing?: boolean | null;
+          state?: string | null;
+          /**
+           * @default combined
+           * @enum {string}
+           */
+          reporterOrigin?: 'combined' | 'local' | 'remote';
+          /**
+           * @default combined
+           * @enum {string}
+           */
+          targetUserOrigin?: 'combined' | 'local' | 'remote';
+          /** @description Filter reports received from the specified remote server. */
+          reporterHost?: string | null;
+          /** @enum {string|null} */
+          category?: 'spam' | 'harassment' | 'sensitive' | 'illegal' | 'impersonation' | 'other';
+          /** @enum {string|null} */
+          priority?: 'normal' | 'high' | 'critical';
+          /**
+           * Format: misskey:id
+           * @description Filter reports assigned to the specified moderator.
+           */
+          assigneeId?: string | null;
         };
       };
     };
@@ -5828,7 +6709,43 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': components['schemas']['Ad'][];
+          'application/json': ({
+              /**
+               * Format: id
+               * @example xxxxxxxxxx
+               */
+              id: string;
+              /** Format: date-time */
+              createdAt: string;
+              comment: string;
+              /** @enum {string} */
+              category: 'spam' | 'harassment' | 'sensitive' | 'illegal' | 'impersonation' | 'other';
+              /** @enum {string} */
+              priority: 'normal' | 'high' | 'critical';
+              noteIds: string[];
+              notes: components['schemas']['Note'][];
+              /** @example false */
+              resolved: boolean;
+              /** Format: id */
+              reporterId: string;
+              /** Format: id */
+              targetUserId: string;
+              /** Format: id */
+              assigneeId: string | null;
+              reporter: components['schemas']['UserDetailedNotMe'];
+              targetUser: components['schemas']['UserDetailedNotMe'];
+              assignee: components['schemas']['UserDetailedNotMe'] | null;
+              forwarded: boolean;
+              /** @enum {string|null} */
+              forwardStatus: 'pending' | 'delivered' | 'failed';
+              /** Format: date-time */
+              forwardedAt: string | null;
+              forwardError: string | null;
+              originUri: string | null;
+              /** @enum {string|null} */
+              resolvedAs: 'accept' | 'reject' | null;
+              moderationNote: string;
+            })[];
         };
       };
       /** @description Client error */
@@ -5864,33 +6781,27 @@ export type operations = {
     };
   };
   /**
-   * admin/ad/update
+   * admin/accounts/create
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:admin:ad*
+   * **Credential required**: *No*
    */
-  admin___ad___update: {
+  admin___accounts___create: {
     requestBody: {
       content: {
         'application/json': {
-          /** Format: misskey:id */
-          id: string;
-          memo?: string;
-          url?: string;
-          imageUrl?: string;
-          place?: string;
-          priority?: string;
-          ratio?: number;
-          expiresAt?: number;
-          startsAt?: number;
-          dayOfWeek?: number;
-        };
-      };
+          username: string;
+          password: string;
+          setupPassword?: string | null;
+        };
+      };
     };
     responses: {
-      /** @description OK (without any results) */
-      204: {
-        content: never;
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': components['schemas']['MeDetailed'];
+        };
       };
       /** @description Client error */
       400: {
@@ -5925,61 +6836,24 @@ export type operations = {
     };
   };
   /**
-   * admin/announcements/create
+   * admin/accounts/delete
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:admin:announcements*
+   * **Credential required**: *Yes* / **Permission**: *write:admin:account*
    */
-  admin___announcements___create: {
+  admin___accounts___delete: {
     requestBody: {
       content: {
         'application/json': {
-          title: string;
-          text: string;
-          imageUrl: string | null;
-          /**
-           * @default info
-           * @enum {string}
-           */
-          icon?: 'info' | 'warning' | 'error' | 'success';
-          /**
-           * @default normal
-           * @enum {string}
-           */
-          display?: 'normal' | 'banner' | 'dialog';
-          /** @default false */
-          forExistingUsers?: boolean;
-          /** @default false */
-          silence?: boolean;
-          /** @default false */
-          needConfirmationToRead?: boolean;
-          /**
-           * Format: misskey:id
-           * @default null
-           */
-          userId?: string | null;
+          /** Format: misskey:id */
+          userId: string;
         };
       };
     };
     responses: {
-      /** @description OK (with results) */
-      200: {
-        content: {
-          'application/json': {
-            /**
-             * Format: id
-             * @example xxxxxxxxxx
-             */
-            id: string;
-            /** Format: date-time */
-            createdAt: string;
-            /** Format: date-time */
-            updatedAt: string | null;
-            title: string;
-            text: string;
-            imageUrl: string | null;
-          };
-        };
+      /** @description OK (without any results) */
+      204: {
+        content: never;
       };
       /** @description Client error */
       400: {
@@ -6014,24 +6888,25 @@ export type operations = {
     };
   };
   /**
-   * admin/announcements/delete
+   * admin/accounts/find-by-email
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:admin:announcements*
+   * **Credential required**: *Yes* / **Permission**: *read:admin:account*
    */
-  admin___announcements___delete: {
+  'admin___accounts___find-by-email': {
     requestBody: {
       content: {
         'application/json': {
-          /** Format: misskey:id */
-          id: string;
+          email: string;
         };
       };
     };
     responses: {
-      /** @description OK (without any results) */
-      204: {
-        content: never;
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': components['schemas']['UserDetailedNotMe'];
+        };
       };
       /** @description Client error */
       400: {
@@ -6066,28 +6941,24 @@ export type operations = {
     };
   };
   /**
-   * admin/announcements/list
+   * admin/ad/create
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *read:admin:announcements*
+   * **Credential required**: *Yes* / **Permission**: *write:admin:ad*
    */
-  admin___announcements___list: {
+  admin___ad___create: {
     requestBody: {
       content: {
         'application/json': {
-          /** @default 10 */
-          limit?: number;
-          /** Format: misskey:id */
-          sinceId?: string;
-          /** Format: misskey:id */
-          untilId?: string;
-          /** Format: misskey:id */
-          userId?: string | null;
-          /**
-           * @default active
-           * @enum {string}
-           */
-          status?: 'all' | 'active' | 'archived';
+          url: string;
+          memo: string;
+          place: string;
+          priority: string;
+          ratio: number;
+          expiresAt: number;
+          startsAt: number;
+          imageUrl: string;
+          dayOfWeek: number;
         };
       };
     };
@@ -6095,21 +6966,7 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': ({
-              /**
-               * Format: id
-               * @example xxxxxxxxxx
-               */
-              id: string;
-              /** Format: date-time */
-              createdAt: string;
-              /** Format: date-time */
-              updatedAt: string | null;
-              text: string;
-              title: string;
-              imageUrl: string | null;
-              reads: number;
-            })[];
+          'application/json': components['schemas']['Ad'];
         };
       };
       /** @description Client error */
@@ -6145,28 +7002,17 @@ export type operations = {
     };
   };
   /**
-   * admin/announcements/update
+   * admin/ad/delete
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:admin:announcements*
+   * **Credential required**: *Yes* / **Permission**: *write:admin:ad*
    */
-  admin___announcements___update: {
+  admin___ad___delete: {
     requestBody: {
       content: {
         'application/json': {
           /** Format: misskey:id */
           id: string;
-          title?: string;
-          text?: string;
-          imageUrl?: string | null;
-          /** @enum {string} */
-          icon?: 'info' | 'warning' | 'error' | 'success';
-          /** @enum {string} */
-          display?: 'normal' | 'banner' | 'dialog';
-          forExistingUsers?: boolean;
-          silence?: boolean;
-          needConfirmationToRead?: boolean;
-          isActive?: boolean;
         };
       };
     };
@@ -6208,19 +7054,23 @@ export type operations = {
     };
   };
   /**
-   * admin/avatar-decorations/create
+   * admin/ad/list
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:admin:avatar-decorations*
+   * **Credential required**: *Yes* / **Permission**: *read:admin:ad*
    */
-  'admin___avatar-decorations___create': {
+  admin___ad___list: {
     requestBody: {
       content: {
         'application/json': {
-          name: string;
-          description: string;
-          url: string;
-          roleIdsThatCanBeUsedThisDecoration?: string[];
+          /** @default 10 */
+          limit?: number;
+          /** Format: misskey:id */
+          sinceId?: string;
+          /** Format: misskey:id */
+          untilId?: string;
+          /** @default null */
+          publishing?: boolean | null;
         };
       };
     };
@@ -6228,18 +7078,7 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': {
-            /** Format: id */
-            id: string;
-            /** Format: date-time */
-            createdAt: string;
-            /** Format: date-time */
-            updatedAt: string | null;
-            name: string;
-            description: string;
-            url: string;
-            roleIdsThatCanBeUsedThisDecoration: string[];
-          };
+          'application/json': components['schemas']['Ad'][];
         };
       };
       /** @description Client error */
@@ -6275,17 +7114,26 @@ export type operations = {
     };
   };
   /**
-   * admin/avatar-decorations/delete
+   * admin/ad/update
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:admin:avatar-decorations*
+   * **Credential required**: *Yes* / **Permission**: *write:admin:ad*
    */
-  'admin___avatar-decorations___delete': {
+  admin___ad___update: {
     requestBody: {
       content: {
         'application/json': {
           /** Format: misskey:id */
           id: string;
+          memo?: string;
+          url?: string;
+          imageUrl?: string;
+          place?: string;
+          priority?: string;
+          ratio?: number;
+          expiresAt?: number;
+          startsAt?: number;
+          dayOfWeek?: number;
         };
       };
     };
@@ -6327,22 +7175,38 @@ export type operations = {
     };
   };
   /**
-   * admin/avatar-decorations/list
+   * admin/announcements/create
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *read:admin:avatar-decorations*
+   * **Credential required**: *Yes* / **Permission**: *write:admin:announcements*
    */
-  'admin___avatar-decorations___list': {
+  admin___announcements___create: {
     requestBody: {
       content: {
         'application/json': {
-          /** @default 10 */
-          limit?: number;
-          /** Format: misskey:id */
-          sinceId?: string;
-          /** Format: misskey:id */
-          untilId?: string;
-          /** Format: misskey:id */
+          title: string;
+          text: string;
+          imageUrl: string | null;
+          /**
+           * @default info
+           * @enum {string}
+           */
+          icon?: 'info' | 'warning' | 'error' | 'success';
+          /**
+           * @default normal
+           * @enum {string}
+           */
+          display?: 'normal' | 'banner' | 'dialog';
+          /** @default false */
+          forExistingUsers?: boolean;
+          /** @default false */
+          silence?: boolean;
+          /** @default false */
+          needConfirmationToRead?: boolean;
+          /**
+           * Format: misskey:id
+           * @default null
+           */
           userId?: string | null;
         };
       };
@@ -6351,21 +7215,20 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': ({
-              /**
-               * Format: id
-               * @example xxxxxxxxxx
-               */
-              id: string;
-              /** Format: date-time */
-              createdAt: string;
-              /** Format: date-time */
-              updatedAt: string | null;
-              name: string;
-              description: string;
-              url: string;
-              roleIdsThatCanBeUsedThisDecoration: string[];
-            })[];
+          'application/json': {
+            /**
+             * Format: id
+             * @example xxxxxxxxxx
+             */
+            id: string;
+            /** Format: date-time */
+            createdAt: string;
+            /** Format: date-time */
+            updatedAt: string | null;
+            title: string;
+            text: string;
+            imageUrl: string | null;
+          };
         };
       };
       /** @description Client error */
@@ -6401,21 +7264,17 @@ export type operations = {
     };
   };
   /**
-   * admin/avatar-decorations/update
+   * admin/announcements/delete
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:admin:avatar-decorations*
+   * **Credential required**: *Yes* / **Permission**: *write:admin:announcements*
    */
-  'admin___avatar-decorations___update': {
+  admin___announcements___delete: {
     requestBody: {
       content: {
         'application/json': {
           /** Format: misskey:id */
           id: string;
-          name?: string;
-          description?: string;
-          url?: string;
-          roleIdsThatCanBeUsedThisDecoration?: string[];
         };
       };
     };
@@ -6457,37 +7316,50 @@ export type operations = {
     };
   };
   /**
-   * admin/captcha/current
+   * admin/announcements/list
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *read:admin:meta*
+   * **Credential required**: *Yes* / **Permission**: *read:admin:announcements*
    */
-  admin___captcha___current: {
+  admin___announcements___list: {
+    requestBody: {
+      content: {
+        'application/json': {
+          /** @default 10 */
+          limit?: number;
+          /** Format: misskey:id */
+          sinceId?: string;
+          /** Format: misskey:id */
+          untilId?: string;
+          /** Format: misskey:id */
+          userId?: string | null;
+          /**
+           * @default active
+           * @enum {string}
+           */
+          status?: 'all' | 'active' | 'archived';
+        };
+      };
+    };
     responses: {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': {
-            /** @enum {string} */
-            provider: 'none' | 'hcaptcha' | 'mcaptcha' | 'recaptcha' | 'turnstile' | 'testcaptcha';
-            hcaptcha: {
-              siteKey: string | null;
-              secretKey: string | null;
-            };
-            mcaptcha: {
-              siteKey: string | null;
-              secretKey: string | null;
-              instanceUrl: string | null;
-            };
-            recaptcha: {
-              siteKey: string | null;
-              secretKey: string | null;
-            };
-            turnstile: {
-              siteKey: string | null;
-              secretKey: string | null;
-            };
-          };
+          'application/json': ({
+              /**
+               * Format: id
+               * @example xxxxxxxxxx
+               */
+              id: string;
+              /** Format: date-time */
+              createdAt: string;
+              /** Format: date-time */
+              updatedAt: string | null;
+              text: string;
+              title: string;
+              imageUrl: string | null;
+              reads: number;
+            })[];
         };
       };
       /** @description Client error */
@@ -6523,21 +7395,28 @@ export type operations = {
     };
   };
   /**
-   * admin/captcha/save
+   * admin/announcements/update
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:admin:meta*
+   * **Credential required**: *Yes* / **Permission**: *write:admin:announcements*
    */
-  admin___captcha___save: {
+  admin___announcements___update: {
     requestBody: {
       content: {
         'application/json': {
+          /** Format: misskey:id */
+          id: string;
+          title?: string;
+          text?: string;
+          imageUrl?: string | null;
           /** @enum {string} */
-          provider: 'none' | 'hcaptcha' | 'mcaptcha' | 'recaptcha' | 'turnstile' | 'testcaptcha';
-          captchaResult?: string | null;
-          sitekey?: string | null;
-          secret?: string | null;
-          instanceUrl?: string | null;
+          icon?: 'info' | 'warning' | 'error' | 'success';
+          /** @enum {string} */
+          display?: 'normal' | 'banner' | 'dialog';
+          forExistingUsers?: boolean;
+          silence?: boolean;
+          needConfirmationToRead?: boolean;
+          isActive?: boolean;
         };
       };
     };
@@ -6579,24 +7458,39 @@ export type operations = {
     };
   };
   /**
-   * admin/delete-account
+   * admin/avatar-decorations/create
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:admin:delete-account*
+   * **Credential required**: *Yes* / **Permission**: *write:admin:avatar-decorations*
    */
-  'admin___delete-account': {
+  'admin___avatar-decorations___create': {
     requestBody: {
       content: {
         'application/json': {
-          /** Format: misskey:id */
-          userId: string;
+          name: string;
+          description: string;
+          url: string;
+          roleIdsThatCanBeUsedThisDecoration?: string[];
         };
       };
     };
     responses: {
-      /** @description OK (without any results) */
-      204: {
-        content: never;
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': {
+            /** Format: id */
+            id: string;
+            /** Format: date-time */
+            createdAt: string;
+            /** Format: date-time */
+            updatedAt: string | null;
+            name: string;
+            description: string;
+            url: string;
+            roleIdsThatCanBeUsedThisDecoration: string[];
+          };
+        };
       };
       /** @description Client error */
       400: {
@@ -6631,17 +7525,17 @@ export type operations = {
     };
   };
   /**
-   * admin/delete-all-files-of-a-user
+   * admin/avatar-decorations/delete
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:admin:delete-all-files-of-a-user*
+   * **Credential required**: *Yes* / **Permission**: *write:admin:avatar-decorations*
    */
-  'admin___delete-all-files-of-a-user': {
+  'admin___avatar-decorations___delete': {
     requestBody: {
       content: {
         'application/json': {
           /** Format: misskey:id */
-          userId: string;
+          id: string;
         };
       };
     };
@@ -6683,16 +7577,46 @@ export type operations = {
     };
   };
   /**
-   * admin/drive/clean-remote-files
+   * admin/avatar-decorations/list
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:admin:drive*
+   * **Credential required**: *Yes* / **Permission**: *read:admin:avatar-decorations*
    */
-  'admin___drive___clean-remote-files': {
+  'admin___avatar-decorations___list': {
+    requestBody: {
+      content: {
+        'application/json': {
+          /** @default 10 */
+          limit?: number;
+          /** Format: misskey:id */
+          sinceId?: string;
+          /** Format: misskey:id */
+          untilId?: string;
+          /** Format: misskey:id */
+          userId?: string | null;
+        };
+      };
+    };
     responses: {
-      /** @description OK (without any results) */
-      204: {
-        content: never;
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': ({
+              /**
+               * Format: id
+               * @example xxxxxxxxxx
+               */
+              id: string;
+              /** Format: date-time */
+              createdAt: string;
+              /** Format: date-time */
+              updatedAt: string | null;
+              name: string;
+              description: string;
+              url: string;
+              roleIdsThatCanBeUsedThisDecoration: string[];
+            })[];
+        };
       };
       /** @description Client error */
       400: {
@@ -6727,12 +7651,24 @@ export type operations = {
     };
   };
   /**
-   * admin/drive/cleanup
+   * admin/avatar-decorations/update
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:admin:drive*
+   * **Credential required**: *Yes* / **Permission**: *write:admin:avatar-decorations*
    */
-  admin___drive___cleanup: {
+  'admin___avatar-decorations___update': {
+    requestBody: {
+      content: {
+        'application/json': {
+          /** Format: misskey:id */
+          id: string;
+          name?: string;
+          description?: string;
+          url?: string;
+          roleIdsThatCanBeUsedThisDecoration?: string[];
+        };
+      };
+    };
     responses: {
       /** @description OK (without any results) */
       204: {
@@ -6771,34 +7707,25 @@ export type operations = {
     };
   };
   /**
-   * admin/drive/files
+   * admin/blocklist/entries
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *read:admin:drive*
+   * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
+   * **Credential required**: *Yes* / **Permission**: *read:admin:meta*
    */
-  admin___drive___files: {
+  admin___blocklist___entries: {
     requestBody: {
       content: {
         'application/json': {
+          host?: string | null;
+          /** Format: misskey:id */
+          subscriptionId?: string | null;
           /** @default 10 */
           limit?: number;
           /** Format: misskey:id */
           sinceId?: string;
           /** Format: misskey:id */
           untilId?: string;
-          /** Format: misskey:id */
-          userId?: string | null;
-          type?: string | null;
-          /**
-           * @default local
-           * @enum {string}
-           */
-          origin?: 'combined' | 'local' | 'remote';
-          /**
-           * @description The local host is represented with `null`.
-           * @default null
-           */
-          hostname?: string | null;
         };
       };
     };
@@ -6806,7 +7733,7 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': components['schemas']['DriveFile'][];
+          'application/json': components['schemas']['BlocklistEntry'][];
         };
       };
       /** @description Client error */
@@ -6842,79 +7769,19 @@ export type operations = {
     };
   };
   /**
-   * admin/drive/show-file
+   * admin/blocklist/export
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *read:admin:drive*
+   * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
+   * **Credential required**: *Yes* / **Permission**: *read:admin:meta*
    */
-  'admin___drive___show-file': {
-    requestBody: {
-      content: {
-        'application/json': {
-          /** Format: misskey:id */
-          fileId?: string;
-          url?: string;
-        };
-      };
-    };
+  admin___blocklist___export: {
     responses: {
       /** @description OK (with results) */
       200: {
         content: {
           'application/json': {
-            /**
-             * Format: id
-             * @example xxxxxxxxxx
-             */
-            id: string;
-            /** Format: date-time */
-            createdAt: string;
-            /**
-             * Format: id
-             * @example xxxxxxxxxx
-             */
-            userId: string | null;
-            /** @description The local host is represented with `null`. */
-            userHost: string | null;
-            /**
-             * Format: md5
-             * @example 15eca7fba0480996e2245f5185bf39f2
-             */
-            md5: string;
-            /** @example 192.jpg */
-            name: string;
-            /** @example image/jpeg */
-            type: string;
-            /** @example 51469 */
-            size: number;
-            comment: string | null;
-            blurhash: string | null;
-            properties: {
-              width?: number;
-              height?: number;
-              orientation?: number;
-              avgColor?: string;
-            };
-            /** @example true */
-            storedInternal: boolean | null;
-            /** Format: url */
-            url: string | null;
-            /** Format: url */
-            thumbnailUrl: string | null;
-            /** Format: url */
-            webpublicUrl: string | null;
-            accessKey: string | null;
-            thumbnailAccessKey: string | null;
-            webpublicAccessKey: string | null;
-            uri: string | null;
-            src: string | null;
-            /**
-             * Format: id
-             * @example xxxxxxxxxx
-             */
-            folderId: string | null;
-            isSensitive: boolean;
-            isLink: boolean;
+            csv: string;
           };
         };
       };
@@ -6951,25 +7818,20 @@ export type operations = {
     };
   };
   /**
-   * admin/emoji/add
-   * @description No description provided.
+   * admin/blocklist/import
+   * @description Import a domain blocklist in Mastodon CSV format. With `dryRun`, only returns the changes that would be made.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:admin:emoji*
+   * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
+   * **Credential required**: *Yes* / **Permission**: *write:admin:meta*
    */
-  admin___emoji___add: {
+  admin___blocklist___import: {
     requestBody: {
       content: {
         'application/json': {
-          name: string;
           /** Format: misskey:id */
           fileId: string;
-          /** @description Use `null` to reset the category. */
-          category?: string | null;
-          aliases?: string[];
-          license?: string | null;
-          isSensitive?: boolean;
-          localOnly?: boolean;
-          roleIdsThatCanBeUsedThisEmojiAsReaction?: string[];
+          /** @default false */
+          dryRun?: boolean;
         };
       };
     };
@@ -6977,7 +7839,7 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': components['schemas']['EmojiDetailed'];
+          'application/json': components['schemas']['BlocklistChange'][];
         };
       };
       /** @description Client error */
@@ -7013,24 +7875,28 @@ export type operations = {
     };
   };
   /**
-   * admin/emoji/add-aliases-bulk
-   * @description No description provided.
+   * admin/blocklist/subscription/apply
+   * @description Applies the last fetched list to the blocked, silenced and media silenced hosts. Fails if the list has changed since `admin/blocklist/subscription/preview` returned `recordsHash`.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:admin:emoji*
+   * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
+   * **Credential required**: *Yes* / **Permission**: *write:admin:meta*
    */
-  'admin___emoji___add-aliases-bulk': {
+  admin___blocklist___subscription___apply: {
     requestBody: {
       content: {
         'application/json': {
-          ids: string[];
-          aliases: string[];
+          /** Format: misskey:id */
+          id: string;
+          recordsHash: string;
         };
       };
     };
     responses: {
-      /** @description OK (without any results) */
-      204: {
-        content: never;
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': components['schemas']['BlocklistChange'][];
+        };
       };
       /** @description Client error */
       400: {
@@ -7065,17 +7931,19 @@ export type operations = {
     };
   };
   /**
-   * admin/emoji/copy
-   * @description No description provided.
+   * admin/blocklist/subscription/create
+   * @description Subscribe to a domain blocklist URL. The list is fetched immediately, but is not applied until `admin/blocklist/subscription/apply` is called.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:admin:emoji*
+   * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
+   * **Credential required**: *Yes* / **Permission**: *write:admin:meta*
    */
-  admin___emoji___copy: {
+  admin___blocklist___subscription___create: {
     requestBody: {
       content: {
         'application/json': {
-          /** Format: misskey:id */
-          emojiId: string;
+          url: string;
+          /** @default true */
+          isActive?: boolean;
         };
       };
     };
@@ -7083,10 +7951,7 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': {
-            /** Format: id */
-            id: string;
-          };
+          'application/json': components['schemas']['BlocklistSubscription'];
         };
       };
       /** @description Client error */
@@ -7122,12 +7987,13 @@ export type operations = {
     };
   };
   /**
-   * admin/emoji/delete
+   * admin/blocklist/subscription/delete
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:admin:emoji*
+   * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
+   * **Credential required**: *Yes* / **Permission**: *write:admin:meta*
    */
-  admin___emoji___delete: {
+  admin___blocklist___subscription___delete: {
     requestBody: {
       content: {
         'application/json': {
@@ -7174,23 +8040,19 @@ export type operations = {
     };
   };
   /**
-   * admin/emoji/delete-bulk
+   * admin/blocklist/subscription/list
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:admin:emoji*
+   * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
+   * **Credential required**: *Yes* / **Permission**: *read:admin:meta*
    */
-  'admin___emoji___delete-bulk': {
-    requestBody: {
-      content: {
-        'application/json': {
-          ids: string[];
-        };
-      };
-    };
+  admin___blocklist___subscription___list: {
     responses: {
-      /** @description OK (without any results) */
-      204: {
-        content: never;
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': components['schemas']['BlocklistSubscription'][];
+        };
       };
       /** @description Client error */
       400: {
@@ -7225,25 +8087,30 @@ export type operations = {
     };
   };
   /**
-   * admin/emoji/import-zip
-   * @description No description provided.
+   * admin/blocklist/subscription/preview
+   * @description Returns the changes that applying the last fetched list would make, and the hash of that list to pass to `admin/blocklist/subscription/apply`.
    *
    * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
-   * **Credential required**: *Yes*
+   * **Credential required**: *Yes* / **Permission**: *read:admin:meta*
    */
-  'admin___emoji___import-zip': {
+  admin___blocklist___subscription___preview: {
     requestBody: {
       content: {
         'application/json': {
           /** Format: misskey:id */
-          fileId: string;
+          id: string;
         };
       };
     };
     responses: {
-      /** @description OK (without any results) */
-      204: {
-        content: never;
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': {
+            recordsHash: string;
+            changes: components['schemas']['BlocklistChange'][];
+          };
+        };
       };
       /** @description Client error */
       400: {
@@ -7278,23 +8145,18 @@ export type operations = {
     };
   };
   /**
-   * admin/emoji/list
+   * admin/blocklist/subscription/refresh
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *read:admin:emoji*
+   * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
+   * **Credential required**: *Yes* / **Permission**: *write:admin:meta*
    */
-  admin___emoji___list: {
+  admin___blocklist___subscription___refresh: {
     requestBody: {
       content: {
         'application/json': {
-          /** @default null */
-          query?: string | null;
-          /** @default 10 */
-          limit?: number;
-          /** Format: misskey:id */
-          sinceId?: string;
           /** Format: misskey:id */
-          untilId?: string;
+          id: string;
         };
       };
     };
@@ -7302,16 +8164,7 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': ({
-              /** Format: id */
-              id: string;
-              aliases: string[];
-              name: string;
-              category: string | null;
-              /** @description The local host is represented with `null`. The field exists for compatibility with other API endpoints that return files. */
-              host: string | null;
-              url: string;
-            })[];
+          'application/json': components['schemas']['BlocklistSubscription'];
         };
       };
       /** @description Client error */
@@ -7347,28 +8200,20 @@ export type operations = {
     };
   };
   /**
-   * admin/emoji/list-remote
+   * admin/blocklist/subscription/update
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *read:admin:emoji*
+   * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
+   * **Credential required**: *Yes* / **Permission**: *write:admin:meta*
    */
-  'admin___emoji___list-remote': {
+  admin___blocklist___subscription___update: {
     requestBody: {
       content: {
         'application/json': {
-          /** @default null */
-          query?: string | null;
-          /**
-           * @description Use `null` to represent the local host.
-           * @default null
-           */
-          host?: string | null;
-          /** @default 10 */
-          limit?: number;
-          /** Format: misskey:id */
-          sinceId?: string;
           /** Format: misskey:id */
-          untilId?: string;
+          id: string;
+          url?: string;
+          isActive?: boolean;
         };
       };
     };
@@ -7376,16 +8221,7 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': ({
-              /** Format: id */
-              id: string;
-              aliases: string[];
-              name: string;
-              category: string | null;
-              /** @description The local host is represented with `null`. */
-              host: string | null;
-              url: string;
-            })[];
+          'application/json': components['schemas']['BlocklistSubscription'];
         };
       };
       /** @description Client error */
@@ -7421,24 +8257,38 @@ export type operations = {
     };
   };
   /**
-   * admin/emoji/remove-aliases-bulk
+   * admin/captcha/current
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:admin:emoji*
+   * **Credential required**: *Yes* / **Permission**: *read:admin:meta*
    */
-  'admin___emoji___remove-aliases-bulk': {
-    requestBody: {
-      content: {
-        'application/json': {
-          ids: string[];
-          aliases: string[];
-        };
-      };
-    };
+  admin___captcha___current: {
     responses: {
-      /** @description OK (without any results) */
-      204: {
-        content: never;
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': {
+            /** @enum {string} */
+            provider: 'none' | 'hcaptcha' | 'mcaptcha' | 'recaptcha' | 'turnstile' | 'testcaptcha';
+            hcaptcha: {
+              siteKey: string | null;
+              secretKey: string | null;
+            };
+            mcaptcha: {
+              siteKey: string | null;
+              secretKey: string | null;
+              instanceUrl: string | null;
+            };
+            recaptcha: {
+              siteKey: string | null;
+              secretKey: string | null;
+            };
+            turnstile: {
+              siteKey: string | null;
+              secretKey: string | null;
+            };
+          };
+        };
       };
       /** @description Client error */
       400: {
@@ -7473,17 +8323,21 @@ export type operations = {
     };
   };
   /**
-   * admin/emoji/set-aliases-bulk
+   * admin/captcha/save
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:admin:emoji*
+   * **Credential required**: *Yes* / **Permission**: *write:admin:meta*
    */
-  'admin___emoji___set-aliases-bulk': {
+  admin___captcha___save: {
     requestBody: {
       content: {
         'application/json': {
-          ids: string[];
-          aliases: string[];
+          /** @enum {string} */
+          provider: 'none' | 'hcaptcha' | 'mcaptcha' | 'recaptcha' | 'turnstile' | 'testcaptcha';
+          captchaResult?: string | null;
+          sitekey?: string | null;
+          secret?: string | null;
+          instanceUrl?: string | null;
         };
       };
     };
@@ -7525,18 +8379,17 @@ export type operations = {
     };
   };
   /**
-   * admin/emoji/set-category-bulk
+   * admin/delete-account
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:admin:emoji*
+   * **Credential required**: *Yes* / **Permission**: *write:admin:delete-account*
    */
-  'admin___emoji___set-category-bulk': {
+  'admin___delete-account': {
     requestBody: {
       content: {
         'application/json': {
-          ids: string[];
-          /** @description Use `null` to reset the category. */
-          category?: string | null;
+          /** Format: misskey:id */
+          userId: string;
         };
       };
     };
@@ -7578,18 +8431,17 @@ export type operations = {
     };
   };
   /**
-   * admin/emoji/set-license-bulk
+   * admin/delete-all-files-of-a-user
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:admin:emoji*
+   * **Credential required**: *Yes* / **Permission**: *write:admin:delete-all-files-of-a-user*
    */
-  'admin___emoji___set-license-bulk': {
+  'admin___delete-all-files-of-a-user': {
     requestBody: {
       content: {
         'application/json': {
-          ids: string[];
-          /** @description Use `null` to reset the license. */
-          license?: string | null;
+          /** Format: misskey:id */
+          userId: string;
         };
       };
     };
@@ -7631,30 +8483,12 @@ export type operations = {
     };
   };
   /**
-   * admin/emoji/update
+   * admin/drive/clean-remote-files
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:admin:emoji*
+   * **Credential required**: *Yes* / **Permission**: *write:admin:drive*
    */
-  admin___emoji___update: {
-    requestBody: {
-      content: {
-        'application/json': {
-          /** Format: misskey:id */
-          id?: string;
-          name?: string;
-          /** Format: misskey:id */
-          fileId?: string;
-          /** @description Use `null` to reset the category. */
-          category?: string | null;
-          aliases?: string[];
-          license?: string | null;
-          isSensitive?: boolean;
-          localOnly?: boolean;
-          roleIdsThatCanBeUsedThisEmojiAsReaction?: string[];
-        };
-      };
-    };
+  'admin___drive___clean-remote-files': {
     responses: {
       /** @description OK (without any results) */
       204: {
@@ -7693,19 +8527,12 @@ export type operations = {
     };
   };
   /**
-   * admin/federation/delete-all-files
+   * admin/drive/cleanup
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:admin:federation*
+   * **Credential required**: *Yes* / **Permission**: *write:admin:drive*
    */
-  'admin___federation___delete-all-files': {
-    requestBody: {
-      content: {
-        'application/json': {
-          host: string;
-        };
-      };
-    };
+  admin___drive___cleanup: {
     responses: {
       /** @description OK (without any results) */
       204: {
@@ -7744,23 +8571,43 @@ export type operations = {
     };
   };
   /**
-   * admin/federation/refresh-remote-instance-metadata
+   * admin/drive/files
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:admin:federation*
+   * **Credential required**: *Yes* / **Permission**: *read:admin:drive*
    */
-  'admin___federation___refresh-remote-instance-metadata': {
+  admin___drive___files: {
     requestBody: {
       content: {
         'application/json': {
-          host: string;
+          /** @default 10 */
+          limit?: number;
+          /** Format: misskey:id */
+          sinceId?: string;
+          /** Format: misskey:id */
+          untilId?: string;
+          /** Format: misskey:id */
+          userId?: string | null;
+          type?: string | null;
+          /**
+           * @default local
+           * @enum {string}
+           */
+          origin?: 'combined' | 'local' | 'remote';
+          /**
+           * @description The local host is represented with `null`.
+           * @default null
+           */
+          hostname?: string | null;
         };
       };
     };
     responses: {
-      /** @description OK (without any results) */
-      204: {
-        content: never;
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': components['schemas']['DriveFile'][];
+        };
       };
       /** @description Client error */
       400: {
@@ -7795,23 +8642,81 @@ export type operations = {
     };
   };
   /**
-   * admin/federation/remove-all-following
+   * admin/drive/show-file
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:admin:federation*
+   * **Credential required**: *Yes* / **Permission**: *read:admin:drive*
    */
-  'admin___federation___remove-all-following': {
+  'admin___drive___show-file': {
     requestBody: {
       content: {
         'application/json': {
-          host: string;
+          /** Format: misskey:id */
+          fileId?: string;
+          url?: string;
         };
       };
     };
     responses: {
-      /** @description OK (without any results) */
-      204: {
-        content: never;
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': {
+            /**
+             * Format: id
+             * @example xxxxxxxxxx
+             */
+            id: string;
+            /** Format: date-time */
+            createdAt: string;
+            /**
+             * Format: id
+             * @example xxxxxxxxxx
+             */
+            userId: string | null;
+            /** @description The local host is represented with `null`. */
+            userHost: string | null;
+            /**
+             * Format: md5
+             * @example 15eca7fba0480996e2245f5185bf39f2
+             */
+            md5: string;
+            /** @example 192.jpg */
+            name: string;
+            /** @example image/jpeg */
+            type: string;
+            /** @example 51469 */
+            size: number;
+            comment: string | null;
+            blurhash: string | null;
+            properties: {
+              width?: number;
+              height?: number;
+              orientation?: number;
+              avgColor?: string;
+            };
+            /** @example true */
+            storedInternal: boolean | null;
+            /** Format: url */
+            url: string | null;
+            /** Format: url */
+            thumbnailUrl: string | null;
+            /** Format: url */
+            webpublicUrl: string | null;
+            accessKey: string | null;
+            thumbnailAccessKey: string | null;
+            webpublicAccessKey: string | null;
+            uri: string | null;
+            src: string | null;
+            /**
+             * Format: id
+             * @example xxxxxxxxxx
+             */
+            folderId: string | null;
+            isSensitive: boolean;
+            isLink: boolean;
+          };
+        };
       };
       /** @description Client error */
       400: {
@@ -7846,25 +8751,34 @@ export type operations = {
     };
   };
   /**
-   * admin/federation/update-instance
+   * admin/emoji/add
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:admin:federation*
+   * **Credential required**: *Yes* / **Permission**: *write:admin:emoji*
    */
-  'admin___federation___update-instance': {
+  admin___emoji___add: {
     requestBody: {
       content: {
         'application/json': {
-          host: string;
-          isSuspended?: boolean;
-          moderationNote?: string;
+          name: string;
+          /** Format: misskey:id */
+          fileId: string;
+          /** @description Use `null` to reset the category. */
+          category?: string | null;
+          aliases?: string[];
+          license?: string | null;
+          isSensitive?: boolean;
+          localOnly?: boolean;
+          roleIdsThatCanBeUsedThisEmojiAsReaction?: string[];
         };
       };
     };
     responses: {
-      /** @description OK (without any results) */
-      204: {
-        content: never;
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': components['schemas']['EmojiDetailed'];
+        };
       };
       /** @description Client error */
       400: {
@@ -7899,17 +8813,17 @@ export type operations = {
     };
   };
   /**
-   * admin/forward-abuse-user-report
+   * admin/emoji/add-aliases-bulk
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:admin:resolve-abuse-user-report*
+   * **Credential required**: *Yes* / **Permission**: *write:admin:emoji*
    */
-  'admin___forward-abuse-user-report': {
+  'admin___emoji___add-aliases-bulk': {
     requestBody: {
       content: {
         'application/json': {
-          /** Format: misskey:id */
-          reportId: string;
+          ids: string[];
+          aliases: string[];
         };
       };
     };
@@ -7951,20 +8865,28 @@ export type operations = {
     };
   };
   /**
-   * admin/get-index-stats
+   * admin/emoji/copy
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *read:admin:index-stats*
+   * **Credential required**: *Yes* / **Permission**: *write:admin:emoji*
    */
-  'admin___get-index-stats': {
+  admin___emoji___copy: {
+    requestBody: {
+      content: {
+        'application/json': {
+          /** Format: misskey:id */
+          emojiId: string;
+        };
+      };
+    };
     responses: {
       /** @description OK (with results) */
       200: {
         content: {
           'application/json': {
-              tablename: string;
-              indexname: string;
-            }[];
+            /** Format: id */
+            id: string;
+          };
         };
       };
       /** @description Client error */
@@ -8000,24 +8922,25 @@ export type operations = {
     };
   };
   /**
-   * admin/get-table-stats
+   * admin/emoji/delete
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *read:admin:table-stats*
+   * **Credential required**: *Yes* / **Permission**: *write:admin:emoji*
    */
-  'admin___get-table-stats': {
-    responses: {
-      /** @description OK (with results) */
-      200: {
-        content: {
-          'application/json': {
-            [key: string]: {
-              count: number;
-              size: number;
-            };
-          };
+  admin___emoji___delete: {
+    requestBody: {
+      content: {
+        'application/json': {
+          /** Format: misskey:id */
+          id: string;
         };
       };
+    };
+    responses: {
+      /** @description OK (without any results) */
+      204: {
+        content: never;
+      };
       /** @description Client error */
       400: {
         content: {
@@ -8051,30 +8974,23 @@ export type operations = {
     };
   };
   /**
-   * admin/get-user-ips
+   * admin/emoji/delete-bulk
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *read:admin:user-ips*
+   * **Credential required**: *Yes* / **Permission**: *write:admin:emoji*
    */
-  'admin___get-user-ips': {
+  'admin___emoji___delete-bulk': {
     requestBody: {
       content: {
         'application/json': {
-          /** Format: misskey:id */
-          userId: string;
+          ids: string[];
         };
       };
     };
     responses: {
-      /** @description OK (with results) */
-      200: {
-        content: {
-          'application/json': {
-              ip: string;
-              /** Format: date-time */
-              createdAt: string;
-            }[];
-        };
+      /** @description OK (without any results) */
+      204: {
+        content: never;
       };
       /** @description Client error */
       400: {
@@ -8109,27 +9025,25 @@ export type operations = {
     };
   };
   /**
-   * admin/invite/create
+   * admin/emoji/import-zip
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:admin:invite-codes*
+   * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
+   * **Credential required**: *Yes*
    */
-  admin___invite___create: {
+  'admin___emoji___import-zip': {
     requestBody: {
       content: {
         'application/json': {
-          /** @default 1 */
-          count?: number;
-          expiresAt?: string | null;
+          /** Format: misskey:id */
+          fileId: string;
         };
       };
     };
     responses: {
-      /** @description OK (with results) */
-      200: {
-        content: {
-          'application/json': components['schemas']['InviteCode'][];
-        };
+      /** @description OK (without any results) */
+      204: {
+        content: never;
       };
       /** @description Client error */
       400: {
@@ -8164,26 +9078,23 @@ export type operations = {
     };
   };
   /**
-   * admin/invite/list
+   * admin/emoji/list
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *read:admin:invite-codes*
+   * **Credential required**: *Yes* / **Permission**: *read:admin:emoji*
    */
-  admin___invite___list: {
+  admin___emoji___list: {
     requestBody: {
       content: {
         'application/json': {
-          /** @default 30 */
+          /** @default null */
+          query?: string | null;
+          /** @default 10 */
           limit?: number;
-          /** @default 0 */
-          offset?: number;
-          /**
-           * @default all
-           * @enum {string}
-           */
-          type?: 'unused' | 'used' | 'expired' | 'all';
-          /** @enum {string} */
-          sort?: '+createdAt' | '-createdAt' | '+usedAt' | '-usedAt';
+          /** Format: misskey:id */
+          sinceId?: string;
+          /** Format: misskey:id */
+          untilId?: string;
         };
       };
     };
@@ -8191,7 +9102,16 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': components['schemas']['InviteCode'][];
+          'application/json': ({
+              /** Format: id */
+              id: string;
+              aliases: string[];
+              name: string;
+              category: string | null;
+              /** @description The local host is represented with `null`. The field exists for compatibility with other API endpoints that return files. */
+              host: string | null;
+              url: string;
+            })[];
         };
       };
       /** @description Client error */
@@ -8227,139 +9147,45 @@ export type operations = {
     };
   };
   /**
-   * admin/meta
+   * admin/emoji/list-remote
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *read:admin:meta*
+   * **Credential required**: *Yes* / **Permission**: *read:admin:emoji*
    */
-  admin___meta: {
+  'admin___emoji___list-remote': {
+    requestBody: {
+      content: {
+        'application/json': {
+          /** @default null */
+          query?: string | null;
+          /**
+           * @description Use `null` to represent the local host.
+           * @default null
+           */
+          host?: string | null;
+          /** @default 10 */
+          limit?: number;
+          /** Format: misskey:id */
+          sinceId?: string;
+          /** Format: misskey:id */
+          untilId?: string;
+        };
+      };
+    };
     responses: {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': {
-            cacheRemoteFiles: boolean;
-            cacheRemoteSensitiveFiles: boolean;
-            emailRequiredForSignup: boolean;
-            enableHcaptcha: boolean;
-            hcaptchaSiteKey: string | null;
-            enableMcaptcha: boolean;
-            mcaptchaSiteKey: string | null;
-            mcaptchaInstanceUrl: string | null;
-            enableRecaptcha: boolean;
-            recaptchaSiteKey: string | null;
-            enableTurnstile: boolean;
-            turnstileSiteKey: string | null;
-            enableTestcaptcha: boolean;
-            swPublickey: string | null;
-            /** @default /assets/ai.png */
-            mascotImageUrl: string | null;
-            bannerUrl: string | null;
-            serverErrorImageUrl: string | null;
-            infoImageUrl: string | null;
-            notFoundImageUrl: string | null;
-            iconUrl: string | null;
-            app192IconUrl: string | null;
-            app512IconUrl: string | null;
-            enableEmail: boolean;
-            enableServiceWorker: boolean;
-            translatorAvailable: boolean;
-            silencedHosts?: string[];
-            mediaSilencedHosts: string[];
-            pinnedUsers: string[];
-            hiddenTags: string[];
-            blockedHosts: string[];
-            sensitiveWords: string[];
-            prohibitedWords: string[];
-            prohibitedWordsForNameOfUser: string[];
-            bannedEmailDomains?: string[];
-            preservedUsernames: string[];
-            hcaptchaSecretKey: string | null;
-            mcaptchaSecretKey: string | null;
-            recaptchaSecretKey: string | null;
-            turnstileSecretKey: string | null;
-            sensitiveMediaDetection: string;
-            sensitiveMediaDetectionSensitivity: string;
-            setSensitiveFlagAutomatically: boolean;
-            enableSensitiveMediaDetectionForVideos: boolean;
-            /** Format: id */
-            proxyAccountId: string | null;
-            email: string | null;
-            smtpSecure: boolean;
-            smtpHost: string | null;
-            smtpPort: number | null;
-            smtpUser: string | null;
-            smtpPass: string | null;
-            swPrivateKey: string | null;
-            useObjectStorage: boolean;
-            objectStorageBaseUrl: string | null;
-            objectStorageBucket: string | null;
-            objectStoragePrefix: string | null;
-            objectStorageEndpoint: string | null;
-            objectStorageRegion: string | null;
-            objectStoragePort: number | null;
-            objectStorageAccessKey: string | null;
-            objectStorageSecretKey: string | null;
-            objectStorageUseSSL: boolean;
-            objectStorageUseProxy: boolean;
-            objectStorageSetPublicRead: boolean;
-            enableIpLogging: boolean;
-            enableActiveEmailValidation: boolean;
-            enableVerifymailApi: boolean;
-            verifymailAuthKey: string | null;
-            enableTruemailApi: boolean;
-            truemailInstance: string | null;
-            truemailAuthKey: string | null;
-            enableChartsForRemoteUser: boolean;
-            enableChartsForFederatedInstances: boolean;
-            enableStatsForFederatedInstances: boolean;
-            enableServerMachineStats: boolean;
-            enableIdenticonGeneration: boolean;
-            manifestJsonOverride: string;
-            policies: Record<string, never>;
-            enableFanoutTimeline: boolean;
-            enableFanoutTimelineDbFallback: boolean;
-            perLocalUserUserTimelineCacheMax: number;
-            perRemoteUserUserTimelineCacheMax: number;
-            perUserHomeTimelineCacheMax: number;
-            perUserListTimelineCacheMax: number;
-            enableReactionsBuffering: boolean;
-            notesPerOneAd: number;
-            backgroundImageUrl: string | null;
-            deeplAuthKey: string | null;
-            deeplIsPro: boolean;
-            defaultDarkTheme: string | null;
-            defaultLightTheme: string | null;
-            description: string | null;
-            disableRegistration: boolean;
-            impressumUrl: string | null;
-            maintainerEmail: string | null;
-            maintainerName: string | null;
-            name: string | null;
-            shortName: string | null;
-            objectStorageS3ForcePathStyle: boolean;
-            privacyPolicyUrl: string | null;
-            inquiryUrl: string | null;
-            repositoryUrl: string | null;
-            /**
-             * @deprecated
-             * @description [Deprecated] Use "urlPreviewSummaryProxyUrl" instead.
-             */
-            summalyProxy: string | null;
-            themeColor: string | null;
-            tosUrl: string | null;
-            uri: string;
-            version: string;
-            urlPreviewEnabled: boolean;
-            urlPreviewTimeout: number;
-            urlPreviewMaximumContentLength: number;
-            urlPreviewRequireContentLength: boolean;
-            urlPreviewUserAgent: string | null;
-            urlPreviewSummaryProxyUrl: string | null;
-            /** @enum {string} */
-            federation: 'all' | 'specified' | 'none';
-            federationHosts: string[];
-          };
+          'application/json': ({
+              /** Format: id */
+              id: string;
+              aliases: string[];
+              name: string;
+              category: string | null;
+              /** @description The local host is represented with `null`. */
+              host: string | null;
+              url: string;
+            })[];
         };
       };
       /** @description Client error */
@@ -8395,18 +9221,17 @@ export type operations = {
     };
   };
   /**
-   * admin/promo/create
+   * admin/emoji/remove-aliases-bulk
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:admin:promo*
+   * **Credential required**: *Yes* / **Permission**: *write:admin:emoji*
    */
-  admin___promo___create: {
+  'admin___emoji___remove-aliases-bulk': {
     requestBody: {
       content: {
         'application/json': {
-          /** Format: misskey:id */
-          noteId: string;
-          expiresAt: number;
+          ids: string[];
+          aliases: string[];
         };
       };
     };
@@ -8448,12 +9273,20 @@ export type operations = {
     };
   };
   /**
-   * admin/queue/clear
+   * admin/emoji/set-aliases-bulk
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:admin:queue*
+   * **Credential required**: *Yes* / **Permission**: *write:admin:emoji*
    */
-  admin___queue___clear: {
+  'admin___emoji___set-aliases-bulk': {
+    requestBody: {
+      content: {
+        'application/json': {
+          ids: string[];
+          aliases: string[];
+        };
+      };
+    };
     responses: {
       /** @description OK (without any results) */
       204: {
@@ -8492,19 +9325,26 @@ export type operations = {
     };
   };
   /**
-   * admin/queue/deliver-delayed
+   * admin/emoji/set-category-bulk
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *read:admin:queue*
+   * **Credential required**: *Yes* / **Permission**: *write:admin:emoji*
    */
-  'admin___queue___deliver-delayed': {
-    responses: {
-      /** @description OK (with results) */
-      200: {
-        content: {
-          'application/json': [string, number][];
+  'admin___emoji___set-category-bulk': {
+    requestBody: {
+      content: {
+        'application/json': {
+          ids: string[];
+          /** @description Use `null` to reset the category. */
+          category?: string | null;
         };
       };
+    };
+    responses: {
+      /** @description OK (without any results) */
+      204: {
+        content: never;
+      };
       /** @description Client error */
       400: {
         content: {
@@ -8538,19 +9378,26 @@ export type operations = {
     };
   };
   /**
-   * admin/queue/inbox-delayed
+   * admin/emoji/set-license-bulk
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *read:admin:queue*
+   * **Credential required**: *Yes* / **Permission**: *write:admin:emoji*
    */
-  'admin___queue___inbox-delayed': {
-    responses: {
-      /** @description OK (with results) */
-      200: {
-        content: {
-          'application/json': [string, number][];
+  'admin___emoji___set-license-bulk': {
+    requestBody: {
+      content: {
+        'application/json': {
+          ids: string[];
+          /** @description Use `null` to reset the license. */
+          license?: string | null;
         };
       };
+    };
+    responses: {
+      /** @description OK (without any results) */
+      204: {
+        content: never;
+      };
       /** @description Client error */
       400: {
         content: {
@@ -8584,17 +9431,27 @@ export type operations = {
     };
   };
   /**
-   * admin/queue/promote
+   * admin/emoji/update
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:admin:queue*
+   * **Credential required**: *Yes* / **Permission**: *write:admin:emoji*
    */
-  admin___queue___promote: {
+  admin___emoji___update: {
     requestBody: {
       content: {
         'application/json': {
-          /** @enum {string} */
-          type: 'deliver' | 'inbox';
+          /** Format: misskey:id */
+          id?: string;
+          name?: string;
+          /** Format: misskey:id */
+          fileId?: string;
+          /** @description Use `null` to reset the category. */
+          category?: string | null;
+          aliases?: string[];
+          license?: string | null;
+          isSensitive?: boolean;
+          localOnly?: boolean;
+          roleIdsThatCanBeUsedThisEmojiAsReaction?: string[];
         };
       };
     };
@@ -8636,24 +9493,24 @@ export type operations = {
     };
   };
   /**
-   * admin/queue/stats
+   * admin/federation/delete-all-files
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *read:admin:emoji*
+   * **Credential required**: *Yes* / **Permission**: *write:admin:federation*
    */
-  admin___queue___stats: {
-    responses: {
-      /** @description OK (with results) */
-      200: {
-        content: {
-          'application/json': {
-            deliver: components['schemas']['QueueCount'];
-            inbox: components['schemas']['QueueCount'];
-            db: components['schemas']['QueueCount'];
-            objectStorage: components['schemas']['QueueCount'];
-          };
+  'admin___federation___delete-all-files': {
+    requestBody: {
+      content: {
+        'application/json': {
+          host: string;
         };
       };
+    };
+    responses: {
+      /** @description OK (without any results) */
+      204: {
+        content: never;
+      };
       /** @description Client error */
       400: {
         content: {
@@ -8687,35 +9544,23 @@ export type operations = {
     };
   };
   /**
-   * admin/relays/add
+   * admin/federation/refresh-remote-instance-metadata
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:admin:relays*
+   * **Credential required**: *Yes* / **Permission**: *write:admin:federation*
    */
-  admin___relays___add: {
+  'admin___federation___refresh-remote-instance-metadata': {
     requestBody: {
       content: {
         'application/json': {
-          inbox: string;
+          host: string;
         };
       };
     };
     responses: {
-      /** @description OK (with results) */
-      200: {
-        content: {
-          'application/json': {
-            /** Format: id */
-            id: string;
-            /** Format: url */
-            inbox: string;
-            /**
-             * @default requesting
-             * @enum {string}
-             */
-            status: 'requesting' | 'accepted' | 'rejected';
-          };
-        };
+      /** @description OK (without any results) */
+      204: {
+        content: never;
       };
       /** @description Client error */
       400: {
@@ -8750,29 +9595,24 @@ export type operations = {
     };
   };
   /**
-   * admin/relays/list
+   * admin/federation/remove-all-following
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *read:admin:relays*
+   * **Credential required**: *Yes* / **Permission**: *write:admin:federation*
    */
-  admin___relays___list: {
-    responses: {
-      /** @description OK (with results) */
-      200: {
-        content: {
-          'application/json': ({
-              /** Format: id */
-              id: string;
-              /** Format: url */
-              inbox: string;
-              /**
-               * @default requesting
-               * @enum {string}
-               */
-              status: 'requesting' | 'accepted' | 'rejected';
-            })[];
+  'admin___federation___remove-all-following': {
+    requestBody: {
+      content: {
+        'application/json': {
+          host: string;
         };
       };
+    };
+    responses: {
+      /** @description OK (without any results) */
+      204: {
+        content: never;
+      };
       /** @description Client error */
       400: {
         content: {
@@ -8806,16 +9646,19 @@ export type operations = {
     };
   };
   /**
-   * admin/relays/remove
+   * admin/federation/update-instance
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:admin:relays*
+   * **Credential required**: *Yes* / **Permission**: *write:admin:federation*
    */
-  admin___relays___remove: {
+  'admin___federation___update-instance': {
     requestBody: {
       content: {
         'application/json': {
-          inbox: string;
+          host: string;
+          isSuspended?: boolean;
+          moderationNote?: string;
+          policies?: ('rejectReports' | 'rejectMedia' | 'forceSensitive' | 'hideFromGlobalTimeline' | 'rejectFollows')[];
         };
       };
     };
@@ -8857,28 +9700,24 @@ export type operations = {
     };
   };
   /**
-   * admin/reset-password
+   * admin/forward-abuse-user-report
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:admin:reset-password*
+   * **Credential required**: *Yes* / **Permission**: *write:admin:resolve-abuse-user-report*
    */
-  'admin___reset-password': {
+  'admin___forward-abuse-user-report': {
     requestBody: {
       content: {
         'application/json': {
           /** Format: misskey:id */
-          userId: string;
+          reportId: string;
         };
       };
     };
     responses: {
-      /** @description OK (with results) */
-      200: {
-        content: {
-          'application/json': {
-            password: string;
-          };
-        };
+      /** @description OK (without any results) */
+      204: {
+        content: never;
       };
       /** @description Client error */
       400: {
@@ -8913,26 +9752,21 @@ export type operations = {
     };
   };
   /**
-   * admin/resolve-abuse-user-report
+   * admin/get-index-stats
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:admin:resolve-abuse-user-report*
+   * **Credential required**: *Yes* / **Permission**: *read:admin:index-stats*
    */
-  'admin___resolve-abuse-user-report': {
-    requestBody: {
-      content: {
-        'application/json': {
-          /** Format: misskey:id */
-          reportId: string;
-          /** @enum {string|null} */
-          resolvedAs?: 'accept' | 'reject' | null;
-        };
-      };
-    };
+  'admin___get-index-stats': {
     responses: {
-      /** @description OK (without any results) */
-      204: {
-        content: never;
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': {
+              tablename: string;
+              indexname: string;
+            }[];
+        };
       };
       /** @description Client error */
       400: {
@@ -8967,27 +9801,23 @@ export type operations = {
     };
   };
   /**
-   * admin/roles/assign
+   * admin/get-table-stats
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:admin:roles*
+   * **Credential required**: *Yes* / **Permission**: *read:admin:table-stats*
    */
-  admin___roles___assign: {
-    requestBody: {
-      content: {
-        'application/json': {
-          /** Format: misskey:id */
-          roleId: string;
-          /** Format: misskey:id */
-          userId: string;
-          expiresAt?: number | null;
-        };
-      };
-    };
+  'admin___get-table-stats': {
     responses: {
-      /** @description OK (without any results) */
-      204: {
-        content: never;
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': {
+            [key: string]: {
+              count: number;
+              size: number;
+            };
+          };
+        };
       };
       /** @description Client error */
       400: {
@@ -9022,31 +9852,17 @@ export type operations = {
     };
   };
   /**
-   * admin/roles/create
+   * admin/get-user-ips
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:admin:roles*
+   * **Credential required**: *Yes* / **Permission**: *read:admin:user-ips*
    */
-  admin___roles___create: {
+  'admin___get-user-ips': {
     requestBody: {
       content: {
         'application/json': {
-          name: string;
-          description: string;
-          color: string | null;
-          iconUrl: string | null;
-          /** @enum {string} */
-          target: 'manual' | 'conditional';
-          condFormula: Record<string, never>;
-          isPublic: boolean;
-          isModerator: boolean;
-          isAdministrator: boolean;
-          /** @default false */
-          isExplorable?: boolean;
-          asBadge: boolean;
-          canEditMembersByModerator: boolean;
-          displayOrder: number;
-          policies: Record<string, never>;
+          /** Format: misskey:id */
+          userId: string;
         };
       };
     };
@@ -9054,7 +9870,11 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': components['schemas']['Role'];
+          'application/json': {
+              ip: string;
+              /** Format: date-time */
+              createdAt: string;
+            }[];
         };
       };
       /** @description Client error */
@@ -9090,24 +9910,27 @@ export type operations = {
     };
   };
   /**
-   * admin/roles/delete
+   * admin/invite/create
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:admin:roles*
+   * **Credential required**: *Yes* / **Permission**: *write:admin:invite-codes*
    */
-  admin___roles___delete: {
+  admin___invite___create: {
     requestBody: {
       content: {
         'application/json': {
-          /** Format: misskey:id */
-          roleId: string;
+          /** @default 1 */
+          count?: number;
+          expiresAt?: string | null;
         };
       };
     };
     responses: {
-      /** @description OK (without any results) */
-      204: {
-        content: never;
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': components['schemas']['InviteCode'][];
+        };
       };
       /** @description Client error */
       400: {
@@ -9142,20 +9965,37 @@ export type operations = {
     };
   };
   /**
-   * admin/roles/list
+   * admin/invite/list
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *read:admin:roles*
+   * **Credential required**: *Yes* / **Permission**: *read:admin:invite-codes*
    */
-  admin___roles___list: {
-    responses: {
-      /** @description OK (with results) */
-      200: {
-        content: {
-          'application/json': components['schemas']['Role'][];
-        };
-      };
-      /** @description Client error */
+  admin___invite___list: {
+    requestBody: {
+      content: {
+        'application/json': {
+          /** @default 30 */
+          limit?: number;
+          /** @default 0 */
+          offset?: number;
+          /**
+           * @default all
+           * @enum {string}
+           */
+          type?: 'unused' | 'used' | 'expired' | 'all';
+          /** @enum {string} */
+          sort?: '+createdAt' | '-createdAt' | '+usedAt' | '-usedAt';
+        };
+      };
+    };
+    responses: {
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': components['schemas']['InviteCode'][];
+        };
+      };
+      /** @description Client error */
       400: {
         content: {
           'application/json': components['schemas']['Error'];
@@ -9188,25 +10028,142 @@ export type operations = {
     };
   };
   /**
-   * admin/roles/show
+   * admin/meta
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *read:admin:roles*
+   * **Credential required**: *Yes* / **Permission**: *read:admin:meta*
    */
-  admin___roles___show: {
-    requestBody: {
-      content: {
-        'application/json': {
-          /** Format: misskey:id */
-          roleId: string;
-        };
-      };
-    };
+  admin___meta: {
     responses: {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': components['schemas']['Role'];
+          'application/json': {
+            cacheRemoteFiles: boolean;
+            cacheRemoteSensitiveFiles: boolean;
+            emailRequiredForSignup: boolean;
+            enableHcaptcha: boolean;
+            hcaptchaSiteKey: string | null;
+            enableMcaptcha: boolean;
+            mcaptchaSiteKey: string | null;
+            mcaptchaInstanceUrl: string | null;
+            enableRecaptcha: boolean;
+            recaptchaSiteKey: string | null;
+            enableTurnstile: boolean;
+            turnstileSiteKey: string | null;
+            enableTestcaptcha: boolean;
+            swPublickey: string | null;
+            /** @default /assets/ai.png */
+            mascotImageUrl: string | null;
+            bannerUrl: string | null;
+            serverErrorImageUrl: string | null;
+            infoImageUrl: string | null;
+            notFoundImageUrl: string | null;
+            iconUrl: string | null;
+            app192IconUrl: string | null;
+            app512IconUrl: string | null;
+            enableEmail: boolean;
+            enableServiceWorker: boolean;
+            translatorAvailable: boolean;
+            silencedHosts?: string[];
+            mediaSilencedHosts: string[];
+            pinnedUsers: string[];
+            hiddenTags: string[];
+            blockedHosts: string[];
+            sensitiveWords: string[];
+            prohibitedWords: string[];
+            prohibitedWordsForNameOfUser: string[];
+            bannedEmailDomains?: string[];
+            preservedUsernames: string[];
+            hcaptchaSecretKey: string | null;
+            mcaptchaSecretKey: string | null;
+            recaptchaSecretKey: string | null;
+            turnstileSecretKey: string | null;
+            sensitiveMediaDetection: string;
+            sensitiveMediaDetectionSensitivity: string;
+            setSensitiveFlagAutomatically: boolean;
+            enableSensitiveMediaDetectionForVideos: boolean;
+            /** Format: id */
+            proxyAccountId: string | null;
+            email: string | null;
+            smtpSecure: boolean;
+            smtpHost: string | null;
+            smtpPort: number | null;
+            smtpUser: string | null;
+            smtpPass: string | null;
+            swPrivateKey: string | null;
+            useObjectStorage: boolean;
+            objectStorageBaseUrl: string | null;
+            objectStorageBucket: string | null;
+            objectStoragePrefix: string | null;
+            objectStorageEndpoint: string | null;
+            objectStorageRegion: string | null;
+            objectStoragePort: number | null;
+            objectStorageAccessKey: string | null;
+            objectStorageSecretKey: string | null;
+            objectStorageUseSSL: boolean;
+            objectStorageUseProxy: boolean;
+            objectStorageSetPublicRead: boolean;
+            enableIpLogging: boolean;
+            enableActiveEmailValidation: boolean;
+            enableVerifymailApi: boolean;
+            verifymailAuthKey: string | null;
+            enableTruemailApi: boolean;
+            truemailInstance: string | null;
+            truemailAuthKey: string | null;
+            enableChartsForRemoteUser: boolean;
+            enableChartsForFederatedInstances: boolean;
+            enableStatsForFederatedInstances: boolean;
+            enableServerMachineStats: boolean;
+            enableIdenticonGeneration: boolean;
+            manifestJsonOverride: string;
+            policies: Record<string, never>;
+            enableFanoutTimeline: boolean;
+            enableFanoutTimelineDbFallback: boolean;
+            perLocalUserUserTimelineCacheMax: number;
+            perRemoteUserUserTimelineCacheMax: number;
+            perUserHomeTimelineCacheMax: number;
+            perUserListTimelineCacheMax: number;
+            enableReactionsBuffering: boolean;
+            notesPerOneAd: number;
+            backgroundImageUrl: string | null;
+            deeplAuthKey: string | null;
+            deeplIsPro: boolean;
+            defaultDarkTheme: string | null;
+            defaultLightTheme: string | null;
+            description: string | null;
+            disableRegistration: boolean;
+            impressumUrl: string | null;
+            maintainerEmail: string | null;
+            maintainerName: string | null;
+            name: string | null;
+            shortName: string | null;
+            objectStorageS3ForcePathStyle: boolean;
+            privacyPolicyUrl: string | null;
+            inquiryUrl: string | null;
+            repositoryUrl: string | null;
+            /**
+             * @deprecated
+             * @description [Deprecated] Use "urlPreviewSummaryProxyUrl" instead.
+             */
+            summalyProxy: string | null;
+            themeColor: string | null;
+            tosUrl: string | null;
+            uri: string;
+            version: string;
+            urlPreviewEnabled: boolean;
+            urlPreviewTimeout: number;
+            urlPreviewMaximumContentLength: number;
+            urlPreviewRequireContentLength: boolean;
+            urlPreviewUserAgent: string | null;
+            urlPreviewSummaryProxyUrl: string | null;
+            /** @enum {string} */
+            federation: 'all' | 'specified' | 'none';
+            federationHosts: string[];
+            enableAuthorizedFetch: boolean;
+            remoteUserBackfillNotesLimit: number;
+            remoteUserBackfillPerHostLimit: number;
+          };
         };
       };
       /** @description Client error */
@@ -9242,19 +10199,17 @@ export type operations = {
     };
   };
   /**
-   * admin/roles/unassign
+   * admin/notes/exclude-from-public-timelines
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:admin:roles*
+   * **Credential required**: *Yes* / **Permission**: *write:admin:notes*
    */
-  admin___roles___unassign: {
+  'admin___notes___exclude-from-public-timelines': {
     requestBody: {
       content: {
         'application/json': {
           /** Format: misskey:id */
-          roleId: string;
-          /** Format: misskey:id */
-          userId: string;
+          noteId: string;
         };
       };
     };
@@ -9296,32 +10251,17 @@ export type operations = {
     };
   };
   /**
-   * admin/roles/update
+   * admin/notes/hide
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:admin:roles*
+   * **Credential required**: *Yes* / **Permission**: *write:admin:notes*
    */
-  admin___roles___update: {
+  admin___notes___hide: {
     requestBody: {
       content: {
         'application/json': {
           /** Format: misskey:id */
-          roleId: string;
-          name?: string;
-          description?: string;
-          color?: string | null;
-          iconUrl?: string | null;
-          /** @enum {string} */
-          target?: 'manual' | 'conditional';
-          condFormula?: Record<string, never>;
-          isPublic?: boolean;
-          isModerator?: boolean;
-          isAdministrator?: boolean;
-          isExplorable?: boolean;
-          asBadge?: boolean;
-          canEditMembersByModerator?: boolean;
-          displayOrder?: number;
-          policies?: Record<string, never>;
+          noteId: string;
         };
       };
     };
@@ -9363,16 +10303,17 @@ export type operations = {
     };
   };
   /**
-   * admin/roles/update-default-policies
+   * admin/notes/include-in-public-timelines
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:admin:roles*
+   * **Credential required**: *Yes* / **Permission**: *write:admin:notes*
    */
-  'admin___roles___update-default-policies': {
+  'admin___notes___include-in-public-timelines': {
     requestBody: {
       content: {
         'application/json': {
-          policies: Record<string, never>;
+          /** Format: misskey:id */
+          noteId: string;
         };
       };
     };
@@ -9414,40 +10355,24 @@ export type operations = {
     };
   };
   /**
-   * admin/roles/users
+   * admin/notes/mark-sensitive
    * @description No description provided.
    *
-   * **Credential required**: *No* / **Permission**: *read:admin:roles*
+   * **Credential required**: *Yes* / **Permission**: *write:admin:notes*
    */
-  admin___roles___users: {
+  'admin___notes___mark-sensitive': {
     requestBody: {
       content: {
         'application/json': {
           /** Format: misskey:id */
-          roleId: string;
-          /** Format: misskey:id */
-          sinceId?: string;
-          /** Format: misskey:id */
-          untilId?: string;
-          /** @default 10 */
-          limit?: number;
+          noteId: string;
         };
       };
     };
     responses: {
-      /** @description OK (with results) */
-      200: {
-        content: {
-          'application/json': ({
-              /** Format: misskey:id */
-              id: string;
-              /** Format: date-time */
-              createdAt: string;
-              user: components['schemas']['UserDetailed'];
-              /** Format: date-time */
-              expiresAt: string | null;
-            })[];
-        };
+      /** @description OK (without any results) */
+      204: {
+        content: never;
       };
       /** @description Client error */
       400: {
@@ -9482,18 +10407,18 @@ export type operations = {
     };
   };
   /**
-   * admin/send-email
+   * admin/notes/set-cw
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:admin:send-email*
+   * **Credential required**: *Yes* / **Permission**: *write:admin:notes*
    */
-  'admin___send-email': {
+  'admin___notes___set-cw': {
     requestBody: {
       content: {
         'application/json': {
-          to: string;
-          subject: string;
-          text: string;
+          /** Format: misskey:id */
+          noteId: string;
+          cw: string | null;
         };
       };
     };
@@ -9535,21 +10460,1479 @@ export type operations = {
     };
   };
   /**
-   * admin/server-info
+   * admin/notes/unhide
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *read:admin:server-info*
+   * **Credential required**: *Yes* / **Permission**: *write:admin:notes*
    */
-  'admin___server-info': {
+  admin___notes___unhide: {
+    requestBody: {
+      content: {
+        'application/json': {
+          /** Format: misskey:id */
+          noteId: string;
+        };
+      };
+    };
     responses: {
-      /** @description OK (with results) */
-      200: {
+      /** @description OK (without any results) */
+      204: {
+        content: never;
+      };
+      /** @description Client error */
+      400: {
         content: {
-          'application/json': {
-            machine: string;
-            /** @example linux */
-            os: string;
-            node: string;
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Authentication error */
+      401: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Forbidden error */
+      403: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description I'm Ai */
+      418: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Internal server error */
+      500: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+    };
+  };
+  /**
+   * admin/notes/unmark-sensitive
+   * @description No description provided.
+   *
+   * **Credential required**: *Yes* / **Permission**: *write:admin:notes*
+   */
+  'admin___notes___unmark-sensitive': {
+    requestBody: {
+      content: {
+        'application/json': {
+          /** Format: misskey:id */
+          noteId: string;
+        };
+      };
+    };
+    responses: {
+      /** @description OK (without any results) */
+      204: {
+        content: never;
+      };
+      /** @description Client error */
+      400: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Authentication error */
+      401: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Forbidden error */
+      403: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description I'm Ai */
+      418: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Internal server error */
+      500: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+    };
+  };
+  /**
+   * admin/promo/create
+   * @description No description provided.
+   *
+   * **Credential required**: *Yes* / **Permission**: *write:admin:promo*
+   */
+  admin___promo___create: {
+    requestBody: {
+      content: {
+        'application/json': {
+          /** Format: misskey:id */
+          noteId: string;
+          expiresAt: number;
+        };
+      };
+    };
+    responses: {
+      /** @description OK (without any results) */
+      204: {
+        content: never;
+      };
+      /** @description Client error */
+      400: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Authentication error */
+      401: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Forbidden error */
+      403: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description I'm Ai */
+      418: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Internal server error */
+      500: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+    };
+  };
+  /**
+   * admin/queue/clear
+   * @description No description provided.
+   *
+   * **Credential required**: *Yes* / **Permission**: *write:admin:queue*
+   */
+  admin___queue___clear: {
+    responses: {
+      /** @description OK (without any results) */
+      204: {
+        content: never;
+      };
+      /** @description Client error */
+      400: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Authentication error */
+      401: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Forbidden error */
+      403: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description I'm Ai */
+      418: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Internal server error */
+      500: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+    };
+  };
+  /**
+   * admin/queue/deliver-delayed
+   * @description No description provided.
+   *
+   * **Credential required**: *Yes* / **Permission**: *read:admin:queue*
+   */
+  'admin___queue___deliver-delayed': {
+    responses: {
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': [string, number][];
+        };
+      };
+      /** @description Client error */
+      400: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Authentication error */
+      401: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Forbidden error */
+      403: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description I'm Ai */
+      418: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Internal server error */
+      500: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+    };
+  };
+  /**
+   * admin/queue/inbox-delayed
+   * @description No description provided.
+   *
+   * **Credential required**: *Yes* / **Permission**: *read:admin:queue*
+   */
+  'admin___queue___inbox-delayed': {
+    responses: {
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': [string, number][];
+        };
+      };
+      /** @description Client error */
+      400: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Authentication error */
+      401: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Forbidden error */
+      403: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description I'm Ai */
+      418: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Internal server error */
+      500: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+    };
+  };
+  /**
+   * admin/queue/promote
+   * @description No description provided.
+   *
+   * **Credential required**: *Yes* / **Permission**: *write:admin:queue*
+   */
+  admin___queue___promote: {
+    requestBody: {
+      content: {
+        'application/json': {
+          /** @enum {string} */
+          type: 'deliver' | 'inbox';
+        };
+      };
+    };
+    responses: {
+      /** @description OK (without any results) */
+      204: {
+        content: never;
+      };
+      /** @description Client error */
+      400: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Authentication error */
+      401: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Forbidden error */
+      403: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description I'm Ai */
+      418: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Internal server error */
+      500: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+    };
+  };
+  /**
+   * admin/queue/stats
+   * @description No description provided.
+   *
+   * **Credential required**: *Yes* / **Permission**: *read:admin:emoji*
+   */
+  admin___queue___stats: {
+    responses: {
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': {
+            deliver: components['schemas']['QueueCount'];
+            inbox: components['schemas']['QueueCount'];
+            db: components['schemas']['QueueCount'];
+            objectStorage: components['schemas']['QueueCount'];
+          };
+        };
+      };
+      /** @description Client error */
+      400: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Authentication error */
+      401: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Forbidden error */
+      403: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description I'm Ai */
+      418: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Internal server error */
+      500: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+    };
+  };
+  /**
+   * admin/relays/add
+   * @description No description provided.
+   *
+   * **Credential required**: *Yes* / **Permission**: *write:admin:relays*
+   */
+  admin___relays___add: {
+    requestBody: {
+      content: {
+        'application/json': {
+          inbox: string;
+        };
+      };
+    };
+    responses: {
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': {
+            /** Format: id */
+            id: string;
+            /** Format: url */
+            inbox: string;
+            /**
+             * @default requesting
+             * @enum {string}
+             */
+            status: 'requesting' | 'accepted' | 'rejected';
+          };
+        };
+      };
+      /** @description Client error */
+      400: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Authentication error */
+      401: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Forbidden error */
+      403: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description I'm Ai */
+      418: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Internal server error */
+      500: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+    };
+  };
+  /**
+   * admin/relays/list
+   * @description No description provided.
+   *
+   * **Credential required**: *Yes* / **Permission**: *read:admin:relays*
+   */
+  admin___relays___list: {
+    responses: {
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': ({
+              /** Format: id */
+              id: string;
+              /** Format: url */
+              inbox: string;
+              /**
+               * @default requesting
+               * @enum {string}
+               */
+              status: 'requesting' | 'accepted' | 'rejected';
+            })[];
+        };
+      };
+      /** @description Client error */
+      400: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Authentication error */
+      401: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Forbidden error */
+      403: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description I'm Ai */
+      418: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Internal server error */
+      500: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+    };
+  };
+  /**
+   * admin/relays/remove
+   * @description No description provided.
+   *
+   * **Credential required**: *Yes* / **Permission**: *write:admin:relays*
+   */
+  admin___relays___remove: {
+    requestBody: {
+      content: {
+        'application/json': {
+          inbox: string;
+        };
+      };
+    };
+    responses: {
+      /** @description OK (without any results) */
+      204: {
+        content: never;
+      };
+      /** @description Client error */
+      400: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Authentication error */
+      401: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Forbidden error */
+      403: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description I'm Ai */
+      418: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Internal server error */
+      500: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+    };
+  };
+  /**
+   * admin/reply-abuse-user-report
+   * @description Send a direct note from the moderator to the account that sent a report from a remote server. If the report was sent by the instance actor of the server, the note is sent to the contact account of the server instead.
+   *
+   * **Credential required**: *Yes* / **Permission**: *write:admin:resolve-abuse-user-report*
+   */
+  'admin___reply-abuse-user-report': {
+    requestBody: {
+      content: {
+        'application/json': {
+          /** Format: misskey:id */
+          reportId: string;
+          text: string;
+        };
+      };
+    };
+    responses: {
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': {
+            /** Format: id */
+            noteId: string;
+          };
+        };
+      };
+      /** @description Client error */
+      400: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Authentication error */
+      401: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Forbidden error */
+      403: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description I'm Ai */
+      418: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Internal server error */
+      500: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+    };
+  };
+  /**
+   * admin/reset-password
+   * @description No description provided.
+   *
+   * **Credential required**: *Yes* / **Permission**: *write:admin:reset-password*
+   */
+  'admin___reset-password': {
+    requestBody: {
+      content: {
+        'application/json': {
+          /** Format: misskey:id */
+          userId: string;
+        };
+      };
+    };
+    responses: {
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': {
+            password: string;
+          };
+        };
+      };
+      /** @description Client error */
+      400: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Authentication error */
+      401: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Forbidden error */
+      403: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description I'm Ai */
+      418: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Internal server error */
+      500: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+    };
+  };
+  /**
+   * admin/resolve-abuse-user-report
+   * @description No description provided.
+   *
+   * **Credential required**: *Yes* / **Permission**: *write:admin:resolve-abuse-user-report*
+   */
+  'admin___resolve-abuse-user-report': {
+    requestBody: {
+      content: {
+        'application/json': {
+          /** Format: misskey:id */
+          reportId: string;
+          /** @enum {string|null} */
+          resolvedAs?: 'accept' | 'reject' | null;
+          /**
+           * @description Notify the local reporter that the report has been resolved.
+           * @default false
+           */
+          notifyReporter?: boolean;
+          /** @description The message to the reporter, such as a canned response. */
+          message?: string | null;
+        };
+      };
+    };
+    responses: {
+      /** @description OK (without any results) */
+      204: {
+        content: never;
+      };
+      /** @description Client error */
+      400: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Authentication error */
+      401: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Forbidden error */
+      403: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description I'm Ai */
+      418: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Internal server error */
+      500: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+    };
+  };
+  /**
+   * admin/resolve-user-warning-appeal
+   * @description Accept or reject an appeal against a warning. Accepting the appeal revokes the warning.
+   *
+   * **Credential required**: *Yes* / **Permission**: *write:admin:account*
+   */
+  'admin___resolve-user-warning-appeal': {
+    requestBody: {
+      content: {
+        'application/json': {
+          /** Format: misskey:id */
+          warningId: string;
+          accept: boolean;
+        };
+      };
+    };
+    responses: {
+      /** @description OK (without any results) */
+      204: {
+        content: never;
+      };
+      /** @description Client error */
+      400: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Authentication error */
+      401: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Forbidden error */
+      403: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description I'm Ai */
+      418: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Internal server error */
+      500: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+    };
+  };
+  /**
+   * admin/revoke-user-warning
+   * @description Revoke a warning. The role assigned along with the warning is also unassigned.
+   *
+   * **Credential required**: *Yes* / **Permission**: *write:admin:account*
+   */
+  'admin___revoke-user-warning': {
+    requestBody: {
+      content: {
+        'application/json': {
+          /** Format: misskey:id */
+          warningId: string;
+        };
+      };
+    };
+    responses: {
+      /** @description OK (without any results) */
+      204: {
+        content: never;
+      };
+      /** @description Client error */
+      400: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Authentication error */
+      401: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Forbidden error */
+      403: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description I'm Ai */
+      418: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Internal server error */
+      500: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+    };
+  };
+  /**
+   * admin/roles/assign
+   * @description No description provided.
+   *
+   * **Credential required**: *Yes* / **Permission**: *write:admin:roles*
+   */
+  admin___roles___assign: {
+    requestBody: {
+      content: {
+        'application/json': {
+          /** Format: misskey:id */
+          roleId: string;
+          /** Format: misskey:id */
+          userId: string;
+          expiresAt?: number | null;
+        };
+      };
+    };
+    responses: {
+      /** @description OK (without any results) */
+      204: {
+        content: never;
+      };
+      /** @description Client error */
+      400: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Authentication error */
+      401: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Forbidden error */
+      403: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description I'm Ai */
+      418: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Internal server error */
+      500: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+    };
+  };
+  /**
+   * admin/roles/create
+   * @description No description provided.
+   *
+   * **Credential required**: *Yes* / **Permission**: *write:admin:roles*
+   */
+  admin___roles___create: {
+    requestBody: {
+      content: {
+        'application/json': {
+          name: string;
+          description: string;
+          color: string | null;
+          iconUrl: string | null;
+          /** @enum {string} */
+          target: 'manual' | 'conditional';
+          condFormula: Record<string, never>;
+          isPublic: boolean;
+          isModerator: boolean;
+          isAdministrator: boolean;
+          /** @default false */
+          isExplorable?: boolean;
+          asBadge: boolean;
+          canEditMembersByModerator: boolean;
+          displayOrder: number;
+          policies: Record<string, never>;
+        };
+      };
+    };
+    responses: {
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': components['schemas']['Role'];
+        };
+      };
+      /** @description Client error */
+      400: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Authentication error */
+      401: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Forbidden error */
+      403: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description I'm Ai */
+      418: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Internal server error */
+      500: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+    };
+  };
+  /**
+   * admin/roles/delete
+   * @description No description provided.
+   *
+   * **Credential required**: *Yes* / **Permission**: *write:admin:roles*
+   */
+  admin___roles___delete: {
+    requestBody: {
+      content: {
+        'application/json': {
+          /** Format: misskey:id */
+          roleId: string;
+        };
+      };
+    };
+    responses: {
+      /** @description OK (without any results) */
+      204: {
+        content: never;
+      };
+      /** @description Client error */
+      400: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Authentication error */
+      401: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Forbidden error */
+      403: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description I'm Ai */
+      418: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Internal server error */
+      500: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+    };
+  };
+  /**
+   * admin/roles/list
+   * @description No description provided.
+   *
+   * **Credential required**: *Yes* / **Permission**: *read:admin:roles*
+   */
+  admin___roles___list: {
+    responses: {
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': components['schemas']['Role'][];
+        };
+      };
+      /** @description Client error */
+      400: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Authentication error */
+      401: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Forbidden error */
+      403: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description I'm Ai */
+      418: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Internal server error */
+      500: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+    };
+  };
+  /**
+   * admin/roles/show
+   * @description No description provided.
+   *
+   * **Credential required**: *Yes* / **Permission**: *read:admin:roles*
+   */
+  admin___roles___show: {
+    requestBody: {
+      content: {
+        'application/json': {
+          /** Format: misskey:id */
+          roleId: string;
+        };
+      };
+    };
+    responses: {
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': components['schemas']['Role'];
+        };
+      };
+      /** @description Client error */
+      400: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Authentication error */
+      401: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Forbidden error */
+      403: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description I'm Ai */
+      418: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Internal server error */
+      500: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+    };
+  };
+  /**
+   * admin/roles/unassign
+   * @description No description provided.
+   *
+   * **Credential required**: *Yes* / **Permission**: *write:admin:roles*
+   */
+  admin___roles___unassign: {
+    requestBody: {
+      content: {
+        'application/json': {
+          /** Format: misskey:id */
+          roleId: string;
+          /** Format: misskey:id */
+          userId: string;
+        };
+      };
+    };
+    responses: {
+      /** @description OK (without any results) */
+      204: {
+        content: never;
+      };
+      /** @description Client error */
+      400: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Authentication error */
+      401: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Forbidden error */
+      403: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description I'm Ai */
+      418: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Internal server error */
+      500: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+    };
+  };
+  /**
+   * admin/roles/update
+   * @description No description provided.
+   *
+   * **Credential required**: *Yes* / **Permission**: *write:admin:roles*
+   */
+  admin___roles___update: {
+    requestBody: {
+      content: {
+        'application/json': {
+          /** Format: misskey:id */
+          roleId: string;
+          name?: string;
+          description?: string;
+          color?: string | null;
+          iconUrl?: string | null;
+          /** @enum {string} */
+          target?: 'manual' | 'conditional';
+          condFormula?: Record<string, never>;
+          isPublic?: boolean;
+          isModerator?: boolean;
+          isAdministrator?: boolean;
+          isExplorable?: boolean;
+          asBadge?: boolean;
+          canEditMembersByModerator?: boolean;
+          displayOrder?: number;
+          policies?: Record<string, never>;
+        };
+      };
+    };
+    responses: {
+      /** @description OK (without any results) */
+      204: {
+        content: never;
+      };
+      /** @description Client error */
+      400: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Authentication error */
+      401: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Forbidden error */
+      403: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description I'm Ai */
+      418: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Internal server error */
+      500: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+    };
+  };
+  /**
+   * admin/roles/update-default-policies
+   * @description No description provided.
+   *
+   * **Credential required**: *Yes* / **Permission**: *write:admin:roles*
+   */
+  'admin___roles___update-default-policies': {
+    requestBody: {
+      content: {
+        'application/json': {
+          policies: Record<string, never>;
+        };
+      };
+    };
+    responses: {
+      /** @description OK (without any results) */
+      204: {
+        content: never;
+      };
+      /** @description Client error */
+      400: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Authentication error */
+      401: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Forbidden error */
+      403: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description I'm Ai */
+      418: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Internal server error */
+      500: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+    };
+  };
+  /**
+   * admin/roles/users
+   * @description No description provided.
+   *
+   * **Credential required**: *No* / **Permission**: *read:admin:roles*
+   */
+  admin___roles___users: {
+    requestBody: {
+      content: {
+        'application/json': {
+          /** Format: misskey:id */
+          roleId: string;
+          /** Format: misskey:id */
+          sinceId?: string;
+          /** Format: misskey:id */
+          untilId?: string;
+          /** @default 10 */
+          limit?: number;
+        };
+      };
+    };
+    responses: {
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': ({
+              /** Format: misskey:id */
+              id: string;
+              /** Format: date-time */
+              createdAt: string;
+              user: components['schemas']['UserDetailed'];
+              /** Format: date-time */
+              expiresAt: string | null;
+            })[];
+        };
+      };
+      /** @description Client error */
+      400: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Authentication error */
+      401: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Forbidden error */
+      403: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description I'm Ai */
+      418: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Internal server error */
+      500: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+    };
+  };
+  /**
+   * admin/search/rebuild-index
+   * @description No description provided.
+   *
+   * **Credential required**: *Yes* / **Permission**: *write:admin:meta*
+   */
+  'admin___search___rebuild-index': {
+    responses: {
+      /** @description OK (without any results) */
+      204: {
+        content: never;
+      };
+      /** @description Client error */
+      400: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Authentication error */
+      401: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Forbidden error */
+      403: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description I'm Ai */
+      418: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Internal server error */
+      500: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+    };
+  };
+  /**
+   * admin/send-email
+   * @description No description provided.
+   *
+   * **Credential required**: *Yes* / **Permission**: *write:admin:send-email*
+   */
+  'admin___send-email': {
+    requestBody: {
+      content: {
+        'application/json': {
+          to: string;
+          subject: string;
+          text: string;
+        };
+      };
+    };
+    responses: {
+      /** @description OK (without any results) */
+      204: {
+        content: never;
+      };
+      /** @description Client error */
+      400: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Authentication error */
+      401: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Forbidden error */
+      403: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description I'm Ai */
+      418: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Internal server error */
+      500: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+    };
+  };
+  /**
+   * admin/server-info
+   * @description No description provided.
+   *
+   * **Credential required**: *Yes* / **Permission**: *read:admin:server-info*
+   */
+  'admin___server-info': {
+    responses: {
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': {
+            machine: string;
+            /** @example linux */
+            os: string;
+            node: string;
             psql: string;
             cpu: {
               model: string;
@@ -9605,24 +11988,2315 @@ export type operations = {
     };
   };
   /**
-   * admin/show-moderation-logs
+   * admin/show-moderation-logs
+   * @description No description provided.
+   *
+   * **Credential required**: *Yes* / **Permission**: *read:admin:show-moderation-log*
+   */
+  'admin___show-moderation-logs': {
+    requestBody: {
+      content: {
+        'application/json': {
+          /** @default 10 */
+          limit?: number;
+          /** Format: misskey:id */
+          sinceId?: string;
+          /** Format: misskey:id */
+          untilId?: string;
+          type?: string | null;
+          /** Format: misskey:id */
+          userId?: string | null;
+        };
+      };
+    };
+    responses: {
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': {
+              /** Format: id */
+              id: string;
+              /** Format: date-time */
+              createdAt: string;
+              type: string;
+              info: Record<string, never>;
+              /** Format: id */
+              userId: string;
+              user: components['schemas']['UserDetailedNotMe'];
+            }[];
+        };
+      };
+      /** @description Client error */
+      400: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Authentication error */
+      401: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Forbidden error */
+      403: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description I'm Ai */
+      418: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Internal server error */
+      500: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+    };
+  };
+  /**
+   * admin/show-user
+   * @description No description provided.
+   *
+   * **Credential required**: *Yes* / **Permission**: *read:admin:show-user*
+   */
+  'admin___show-user': {
+    requestBody: {
+      content: {
+        'application/json': {
+          /** Format: misskey:id */
+          userId: string;
+        };
+      };
+    };
+    responses: {
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': {
+            email: string | null;
+            emailVerified: boolean;
+            followedMessage: string | null;
+            autoAcceptFollowed: boolean;
+            noCrawle: boolean;
+            preventAiLearning: boolean;
+            alwaysMarkNsfw: boolean;
+            autoSensitive: boolean;
+            carefulBot: boolean;
+            injectFeaturedNote: boolean;
+            receiveAnnouncementEmail: boolean;
+            mutedWords: (string | string[])[];
+            mutedInstances: string[];
+            notificationRecieveConfig: {
+              note?: OneOf<[{
+                /** @enum {string} */
+                type: 'all' | 'following' | 'follower' | 'mutualFollow' | 'followingOrFollower' | 'never';
+              }, {
+                /** @enum {string} */
+                type: 'list';
+                /** Format: misskey:id */
+                userListId: string;
+              }]>;
+              follow?: OneOf<[{
+                /** @enum {string} */
+                type: 'all' | 'following' | 'follower' | 'mutualFollow' | 'followingOrFollower' | 'never';
+              }, {
+                /** @enum {string} */
+                type: 'list';
+                /** Format: misskey:id */
+                userListId: string;
+              }]>;
+              mention?: OneOf<[{
+                /** @enum {string} */
+                type: 'all' | 'following' | 'follower' | 'mutualFollow' | 'followingOrFollower' | 'never';
+              }, {
+                /** @enum {string} */
+                type: 'list';
+                /** Format: misskey:id */
+                userListId: string;
+              }]>;
+              reply?: OneOf<[{
+                /** @enum {string} */
+                type: 'all' | 'following' | 'follower' | 'mutualFollow' | 'followingOrFollower' | 'never';
+              }, {
+                /** @enum {string} */
+                type: 'list';
+                /** Format: misskey:id */
+                userListId: string;
+              }]>;
+              renote?: OneOf<[{
+                /** @enum {string} */
+                type: 'all' | 'following' | 'follower' | 'mutualFollow' | 'followingOrFollower' | 'never';
+              }, {
+                /** @enum {string} */
+                type: 'list';
+                /** Format: misskey:id */
+                userListId: string;
+              }]>;
+              quote?: OneOf<[{
+                /** @enum {string} */
+                type: 'all' | 'following' | 'follower' | 'mutualFollow' | 'followingOrFollower' | 'never';
+              }, {
+                /** @enum {string} */
+                type: 'list';
+                /** Format: misskey:id */
+                userListId: string;
+              }]>;
+              reaction?: OneOf<[{
+                /** @enum {string} */
+                type: 'all' | 'following' | 'follower' | 'mutualFollow' | 'followingOrFollower' | 'never';
+              }, {
+                /** @enum {string} */
+                type: 'list';
+                /** Format: misskey:id */
+                userListId: string;
+              }]>;
+              pollEnded?: OneOf<[{
+                /** @enum {string} */
+                type: 'all' | 'following' | 'follower' | 'mutualFollow' | 'followingOrFollower' | 'never';
+              }, {
+                /** @enum {string} */
+                type: 'list';
+                /** Format: misskey:id */
+                userListId: string;
+              }]>;
+              receiveFollowRequest?: OneOf<[{
+                /** @enum {string} */
+                type: 'all' | 'following' | 'follower' | 'mutualFollow' | 'followingOrFollower' | 'never';
+              }, {
+                /** @enum {string} */
+                type: 'list';
+                /** Format: misskey:id */
+                userListId: string;
+              }]>;
+              followRequestAccepted?: OneOf<[{
+                /** @enum {string} */
+                type: 'all' | 'following' | 'follower' | 'mutualFollow' | 'followingOrFollower' | 'never';
+              }, {
+                /** @enum {string} */
+                type: 'list';
+                /** Format: misskey:id */
+                userListId: string;
+              }]>;
+              roleAssigned?: OneOf<[{
+                /** @enum {string} */
+                type: 'all' | 'following' | 'follower' | 'mutualFollow' | 'followingOrFollower' | 'never';
+              }, {
+                /** @enum {string} */
+                type: 'list';
+                /** Format: misskey:id */
+                userListId: string;
+              }]>;
+              achievementEarned?: OneOf<[{
+                /** @enum {string} */
+                type: 'all' | 'following' | 'follower' | 'mutualFollow' | 'followingOrFollower' | 'never';
+              }, {
+                /** @enum {string} */
+                type: 'list';
+                /** Format: misskey:id */
+                userListId: string;
+              }]>;
+              app?: OneOf<[{
+                /** @enum {string} */
+                type: 'all' | 'following' | 'follower' | 'mutualFollow' | 'followingOrFollower' | 'never';
+              }, {
+                /** @enum {string} */
+                type: 'list';
+                /** Format: misskey:id */
+                userListId: string;
+              }]>;
+              test?: OneOf<[{
+                /** @enum {string} */
+                type: 'all' | 'following' | 'follower' | 'mutualFollow' | 'followingOrFollower' | 'never';
+              }, {
+                /** @enum {string} */
+                type: 'list';
+                /** Format: misskey:id */
+                userListId: string;
+              }]>;
+            };
+            isModerator: boolean;
+            isSilenced: boolean;
+            isSuspended: boolean;
+            suspendedUntil: string | null;
+            isHibernated: boolean;
+            lastActiveDate: string | null;
+            moderationNote: string;
+            signins: components['schemas']['Signin'][];
+            policies: components['schemas']['RolePolicies'];
+            roles: components['schemas']['Role'][];
+            roleAssigns: ({
+                createdAt: string;
+                expiresAt: string | null;
+                roleId: string;
+              })[];
+          };
+        };
+      };
+      /** @description Client error */
+      400: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Authentication error */
+      401: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Forbidden error */
+      403: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description I'm Ai */
+      418: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Internal server error */
+      500: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+    };
+  };
+  /**
+   * admin/show-users
+   * @description No description provided.
+   *
+   * **Credential required**: *Yes* / **Permission**: *read:admin:show-user*
+   */
+  'admin___show-users': {
+    requestBody: {
+      content: {
+        'application/json': {
+          /** @default 10 */
+          limit?: number;
+          /** @default 0 */
+          offset?: number;
+          /** @enum {string} */
+          sort?: '+follower' | '-follower' | '+createdAt' | '-createdAt' | '+updatedAt' | '-updatedAt' | '+lastActiveDate' | '-lastActiveDate';
+          /**
+           * @default all
+           * @enum {string}
+           */
+          state?: 'all' | 'alive' | 'available' | 'admin' | 'moderator' | 'adminOrModerator' | 'suspended';
+          /**
+           * @default combined
+           * @enum {string}
+           */
+          origin?: 'combined' | 'local' | 'remote';
+          /** @default null */
+          username?: string | null;
+          /**
+           * @description The local host is represented with `null`.
+           * @default null
+           */
+          hostname?: string | null;
+        };
+      };
+    };
+    responses: {
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': components['schemas']['UserDetailed'][];
+        };
+      };
+      /** @description Client error */
+      400: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Authentication error */
+      401: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Forbidden error */
+      403: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description I'm Ai */
+      418: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Internal server error */
+      500: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+    };
+  };
+  /**
+   * admin/suspend-user
+   * @description No description provided.
+   *
+   * **Credential required**: *Yes* / **Permission**: *write:admin:suspend-user*
+   */
+  'admin___suspend-user': {
+    requestBody: {
+      content: {
+        'application/json': {
+          /** Format: misskey:id */
+          userId: string;
+          /** @description Lift the suspension at this time. The user is suspended indefinitely if null. */
+          expiresAt?: number | null;
+        };
+      };
+    };
+    responses: {
+      /** @description OK (without any results) */
+      204: {
+        content: never;
+      };
+      /** @description Client error */
+      400: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Authentication error */
+      401: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Forbidden error */
+      403: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description I'm Ai */
+      418: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Internal server error */
+      500: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+    };
+  };
+  /**
+   * admin/system-webhook/create
+   * @description No description provided.
+   *
+   * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
+   * **Credential required**: *Yes* / **Permission**: *write:admin:system-webhook*
+   */
+  'admin___system-webhook___create': {
+    requestBody: {
+      content: {
+        'application/json': {
+          isActive: boolean;
+          name: string;
+          on: ('abuseReport' | 'abuseReportResolved' | 'userCreated' | 'inactiveModeratorsWarning' | 'inactiveModeratorsInvitationOnlyChanged' | 'instanceNotResponding' | 'instanceSuspensionStateChanged' | 'updateServerSettings' | 'suspend' | 'unsuspend' | 'updateUserNote' | 'addCustomEmoji' | 'updateCustomEmoji' | 'deleteCustomEmoji' | 'assignRole' | 'unassignRole' | 'createRole' | 'updateRole' | 'deleteRole' | 'clearQueue' | 'promoteQueue' | 'deleteDriveFile' | 'deleteNote' | 'createGlobalAnnouncement' | 'createUserAnnouncement' | 'updateGlobalAnnouncement' | 'updateUserAnnouncement' | 'deleteGlobalAnnouncement' | 'deleteUserAnnouncement' | 'resetPassword' | 'suspendRemoteInstance' | 'unsuspendRemoteInstance' | 'updateRemoteInstanceNote' | 'updateRemoteInstancePolicies' | 'markSensitiveDriveFile' | 'unmarkSensitiveDriveFile' | 'resolveAbuseReport' | 'forwardAbuseReport' | 'replyAbuseReport' | 'updateAbuseReportNote' | 'assignAbuseReport' | 'createInvitation' | 'createAd' | 'updateAd' | 'deleteAd' | 'createAvatarDecoration' | 'updateAvatarDecoration' | 'deleteAvatarDecoration' | 'unsetUserAvatar' | 'unsetUserBanner' | 'createSystemWebhook' | 'updateSystemWebhook' | 'deleteSystemWebhook' | 'createAbuseReportNotificationRecipient' | 'updateAbuseReportNotificationRecipient' | 'deleteAbuseReportNotificationRecipient' | 'createAbuseReportResponseTemplate' | 'updateAbuseReportResponseTemplate' | 'deleteAbuseReportResponseTemplate' | 'deleteAccount' | 'deletePage' | 'deleteFlash' | 'deleteGalleryPost' | 'rebuildSearchIndex' | 'importBlocklist' | 'createBlocklistSubscription' | 'updateBlocklistSubscription' | 'deleteBlocklistSubscription' | 'hideNote' | 'unhideNote' | 'setNoteCw' | 'markSensitiveNote' | 'unmarkSensitiveNote' | 'excludeNoteFromPublicTimelines' | 'includeNoteInPublicTimelines' | 'warnUser' | 'revokeUserWarning' | 'resolveUserWarningAppeal')[];
+          url: string;
+          secret: string;
+        };
+      };
+    };
+    responses: {
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': components['schemas']['SystemWebhook'];
+        };
+      };
+      /** @description Client error */
+      400: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Authentication error */
+      401: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Forbidden error */
+      403: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description I'm Ai */
+      418: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Internal server error */
+      500: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+    };
+  };
+  /**
+   * admin/system-webhook/delete
+   * @description No description provided.
+   *
+   * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
+   * **Credential required**: *Yes* / **Permission**: *write:admin:system-webhook*
+   */
+  'admin___system-webhook___delete': {
+    requestBody: {
+      content: {
+        'application/json': {
+          /** Format: misskey:id */
+          id: string;
+        };
+      };
+    };
+    responses: {
+      /** @description OK (without any results) */
+      204: {
+        content: never;
+      };
+      /** @description Client error */
+      400: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Authentication error */
+      401: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Forbidden error */
+      403: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description I'm Ai */
+      418: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Internal server error */
+      500: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+    };
+  };
+  /**
+   * admin/system-webhook/delivery-logs
+   * @description No description provided.
+   *
+   * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
+   * **Credential required**: *Yes* / **Permission**: *read:admin:system-webhook*
+   */
+  'admin___system-webhook___delivery-logs': {
+    requestBody: {
+      content: {
+        'application/json': {
+          /** Format: misskey:id */
+          webhookId: string;
+          /** @default 10 */
+          limit?: number;
+          /** Format: misskey:id */
+          sinceId?: string;
+          /** Format: misskey:id */
+          untilId?: string;
+        };
+      };
+    };
+    responses: {
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': components['schemas']['WebhookDeliveryLog'][];
+        };
+      };
+      /** @description Client error */
+      400: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Authentication error */
+      401: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Forbidden error */
+      403: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description I'm Ai */
+      418: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Internal server error */
+      500: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+    };
+  };
+  /**
+   * admin/system-webhook/list
+   * @description No description provided.
+   *
+   * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
+   * **Credential required**: *Yes* / **Permission**: *write:admin:system-webhook*
+   */
+  'admin___system-webhook___list': {
+    requestBody: {
+      content: {
+        'application/json': {
+          isActive?: boolean;
+          on?: ('abuseReport' | 'abuseReportResolved' | 'userCreated' | 'inactiveModeratorsWarning' | 'inactiveModeratorsInvitationOnlyChanged' | 'instanceNotResponding' | 'instanceSuspensionStateChanged' | 'updateServerSettings' | 'suspend' | 'unsuspend' | 'updateUserNote' | 'addCustomEmoji' | 'updateCustomEmoji' | 'deleteCustomEmoji' | 'assignRole' | 'unassignRole' | 'createRole' | 'updateRole' | 'deleteRole' | 'clearQueue' | 'promoteQueue' | 'deleteDriveFile' | 'deleteNote' | 'createGlobalAnnouncement' | 'createUserAnnouncement' | 'updateGlobalAnnouncement' | 'updateUserAnnouncement' | 'deleteGlobalAnnouncement' | 'deleteUserAnnouncement' | 'resetPassword' | 'suspendRemoteInstance' | 'unsuspendRemoteInstance' | 'updateRemoteInstanceNote' | 'updateRemoteInstancePolicies' | 'markSensitiveDriveFile' | 'unmarkSensitiveDriveFile' | 'resolveAbuseReport' | 'forwardAbuseReport' | 'replyAbuseReport' | 'updateAbuseReportNote' | 'assignAbuseReport' | 'createInvitation' | 'createAd' | 'updateAd' | 'deleteAd' | 'createAvatarDecoration' | 'updateAvatarDecoration' | 'deleteAvatarDecoration' | 'unsetUserAvatar' | 'unsetUserBanner' | 'createSystemWebhook' | 'updateSystemWebhook' | 'deleteSystemWebhook' | 'createAbuseReportNotificationRecipient' | 'updateAbuseReportNotificationRecipient' | 'deleteAbuseReportNotificationRecipient' | 'createAbuseReportResponseTemplate' | 'updateAbuseReportResponseTemplate' | 'deleteAbuseReportResponseTemplate' | 'deleteAccount' | 'deletePage' | 'deleteFlash' | 'deleteGalleryPost' | 'rebuildSearchIndex' | 'importBlocklist' | 'createBlocklistSubscription' | 'updateBlocklistSubscription' | 'deleteBlocklistSubscription' | 'hideNote' | 'unhideNote' | 'setNoteCw' | 'markSensitiveNote' | 'unmarkSensitiveNote' | 'excludeNoteFromPublicTimelines' | 'includeNoteInPublicTimelines' | 'warnUser' | 'revokeUserWarning' | 'resolveUserWarningAppeal')[];
+        };
+      };
+    };
+    responses: {
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': components['schemas']['SystemWebhook'][];
+        };
+      };
+      /** @description Client error */
+      400: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Authentication error */
+      401: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Forbidden error */
+      403: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description I'm Ai */
+      418: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Internal server error */
+      500: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+    };
+  };
+  /**
+   * admin/system-webhook/redeliver
+   * @description No description provided.
+   *
+   * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
+   * **Credential required**: *Yes* / **Permission**: *write:admin:system-webhook*
+   */
+  'admin___system-webhook___redeliver': {
+    requestBody: {
+      content: {
+        'application/json': {
+          /** Format: misskey:id */
+          webhookId: string;
+          /** Format: misskey:id */
+          logId: string;
+        };
+      };
+    };
+    responses: {
+      /** @description OK (without any results) */
+      204: {
+        content: never;
+      };
+      /** @description Client error */
+      400: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Authentication error */
+      401: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Forbidden error */
+      403: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description I'm Ai */
+      418: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Internal server error */
+      500: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+    };
+  };
+  /**
+   * admin/system-webhook/show
+   * @description No description provided.
+   *
+   * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
+   * **Credential required**: *Yes* / **Permission**: *write:admin:system-webhook*
+   */
+  'admin___system-webhook___show': {
+    requestBody: {
+      content: {
+        'application/json': {
+          /** Format: misskey:id */
+          id: string;
+        };
+      };
+    };
+    responses: {
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': components['schemas']['SystemWebhook'];
+        };
+      };
+      /** @description Client error */
+      400: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Authentication error */
+      401: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Forbidden error */
+      403: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description I'm Ai */
+      418: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Internal server error */
+      500: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+    };
+  };
+  /**
+   * admin/system-webhook/test
+   * @description No description provided.
+   *
+   * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
+   * **Credential required**: *Yes* / **Permission**: *read:admin:system-webhook*
+   */
+  'admin___system-webhook___test': {
+    requestBody: {
+      content: {
+        'application/json': {
+          /** Format: misskey:id */
+          webhookId: string;
+          /** @enum {string} */
+          type: 'abuseReport' | 'abuseReportResolved' | 'userCreated' | 'inactiveModeratorsWarning' | 'inactiveModeratorsInvitationOnlyChanged' | 'instanceNotResponding' | 'instanceSuspensionStateChanged' | 'updateServerSettings' | 'suspend' | 'unsuspend' | 'updateUserNote' | 'addCustomEmoji' | 'updateCustomEmoji' | 'deleteCustomEmoji' | 'assignRole' | 'unassignRole' | 'createRole' | 'updateRole' | 'deleteRole' | 'clearQueue' | 'promoteQueue' | 'deleteDriveFile' | 'deleteNote' | 'createGlobalAnnouncement' | 'createUserAnnouncement' | 'updateGlobalAnnouncement' | 'updateUserAnnouncement' | 'deleteGlobalAnnouncement' | 'deleteUserAnnouncement' | 'resetPassword' | 'suspendRemoteInstance' | 'unsuspendRemoteInstance' | 'updateRemoteInstanceNote' | 'updateRemoteInstancePolicies' | 'markSensitiveDriveFile' | 'unmarkSensitiveDriveFile' | 'resolveAbuseReport' | 'forwardAbuseReport' | 'replyAbuseReport' | 'updateAbuseReportNote' | 'assignAbuseReport' | 'createInvitation' | 'createAd' | 'updateAd' | 'deleteAd' | 'createAvatarDecoration' | 'updateAvatarDecoration' | 'deleteAvatarDecoration' | 'unsetUserAvatar' | 'unsetUserBanner' | 'createSystemWebhook' | 'updateSystemWebhook' | 'deleteSystemWebhook' | 'createAbuseReportNotificationRecipient' | 'updateAbuseReportNotificationRecipient' | 'deleteAbuseReportNotificationRecipient' | 'createAbuseReportResponseTemplate' | 'updateAbuseReportResponseTemplate' | 'deleteAbuseReportResponseTemplate' | 'deleteAccount' | 'deletePage' | 'deleteFlash' | 'deleteGalleryPost' | 'rebuildSearchIndex' | 'importBlocklist' | 'createBlocklistSubscription' | 'updateBlocklistSubscription' | 'deleteBlocklistSubscription' | 'hideNote' | 'unhideNote' | 'setNoteCw' | 'markSensitiveNote' | 'unmarkSensitiveNote' | 'excludeNoteFromPublicTimelines' | 'includeNoteInPublicTimelines' | 'warnUser' | 'revokeUserWarning' | 'resolveUserWarningAppeal';
+          override?: {
+            url?: string;
+            secret?: string;
+          };
+        };
+      };
+    };
+    responses: {
+      /** @description OK (without any results) */
+      204: {
+        content: never;
+      };
+      /** @description Client error */
+      400: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Authentication error */
+      401: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Forbidden error */
+      403: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description I'm Ai */
+      418: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Too many requests */
+      429: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Internal server error */
+      500: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+    };
+  };
+  /**
+   * admin/system-webhook/update
+   * @description No description provided.
+   *
+   * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
+   * **Credential required**: *Yes* / **Permission**: *write:admin:system-webhook*
+   */
+  'admin___system-webhook___update': {
+    requestBody: {
+      content: {
+        'application/json': {
+          /** Format: misskey:id */
+          id: string;
+          isActive: boolean;
+          name: string;
+          on: ('abuseReport' | 'abuseReportResolved' | 'userCreated' | 'inactiveModeratorsWarning' | 'inactiveModeratorsInvitationOnlyChanged' | 'instanceNotResponding' | 'instanceSuspensionStateChanged' | 'updateServerSettings' | 'suspend' | 'unsuspend' | 'updateUserNote' | 'addCustomEmoji' | 'updateCustomEmoji' | 'deleteCustomEmoji' | 'assignRole' | 'unassignRole' | 'createRole' | 'updateRole' | 'deleteRole' | 'clearQueue' | 'promoteQueue' | 'deleteDriveFile' | 'deleteNote' | 'createGlobalAnnouncement' | 'createUserAnnouncement' | 'updateGlobalAnnouncement' | 'updateUserAnnouncement' | 'deleteGlobalAnnouncement' | 'deleteUserAnnouncement' | 'resetPassword' | 'suspendRemoteInstance' | 'unsuspendRemoteInstance' | 'updateRemoteInstanceNote' | 'updateRemoteInstancePolicies' | 'markSensitiveDriveFile' | 'unmarkSensitiveDriveFile' | 'resolveAbuseReport' | 'forwardAbuseReport' | 'replyAbuseReport' | 'updateAbuseReportNote' | 'assignAbuseReport' | 'createInvitation' | 'createAd' | 'updateAd' | 'deleteAd' | 'createAvatarDecoration' | 'updateAvatarDecoration' | 'deleteAvatarDecoration' | 'unsetUserAvatar' | 'unsetUserBanner' | 'createSystemWebhook' | 'updateSystemWebhook' | 'deleteSystemWebhook' | 'createAbuseReportNotificationRecipient' | 'updateAbuseReportNotificationRecipient' | 'deleteAbuseReportNotificationRecipient' | 'createAbuseReportResponseTemplate' | 'updateAbuseReportResponseTemplate' | 'deleteAbuseReportResponseTemplate' | 'deleteAccount' | 'deletePage' | 'deleteFlash' | 'deleteGalleryPost' | 'rebuildSearchIndex' | 'importBlocklist' | 'createBlocklistSubscription' | 'updateBlocklistSubscription' | 'deleteBlocklistSubscription' | 'hideNote' | 'unhideNote' | 'setNoteCw' | 'markSensitiveNote' | 'unmarkSensitiveNote' | 'excludeNoteFromPublicTimelines' | 'includeNoteInPublicTimelines' | 'warnUser' | 'revokeUserWarning' | 'resolveUserWarningAppeal')[];
+          url: string;
+          secret: string;
+        };
+      };
+    };
+    responses: {
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': components['schemas']['SystemWebhook'];
+        };
+      };
+      /** @description Client error */
+      400: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Authentication error */
+      401: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Forbidden error */
+      403: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description I'm Ai */
+      418: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Internal server error */
+      500: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+    };
+  };
+  /**
+   * admin/unset-user-avatar
+   * @description No description provided.
+   *
+   * **Credential required**: *Yes* / **Permission**: *write:admin:unset-user-avatar*
+   */
+  'admin___unset-user-avatar': {
+    requestBody: {
+      content: {
+        'application/json': {
+          /** Format: misskey:id */
+          userId: string;
+        };
+      };
+    };
+    responses: {
+      /** @description OK (without any results) */
+      204: {
+        content: never;
+      };
+      /** @description Client error */
+      400: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Authentication error */
+      401: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Forbidden error */
+      403: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description I'm Ai */
+      418: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Internal server error */
+      500: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+    };
+  };
+  /**
+   * admin/unset-user-banner
+   * @description No description provided.
+   *
+   * **Credential required**: *Yes* / **Permission**: *write:admin:unset-user-banner*
+   */
+  'admin___unset-user-banner': {
+    requestBody: {
+      content: {
+        'application/json': {
+          /** Format: misskey:id */
+          userId: string;
+        };
+      };
+    };
+    responses: {
+      /** @description OK (without any results) */
+      204: {
+        content: never;
+      };
+      /** @description Client error */
+      400: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Authentication error */
+      401: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Forbidden error */
+      403: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description I'm Ai */
+      418: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Internal server error */
+      500: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+    };
+  };
+  /**
+   * admin/unsuspend-user
+   * @description No description provided.
+   *
+   * **Credential required**: *Yes* / **Permission**: *write:admin:unsuspend-user*
+   */
+  'admin___unsuspend-user': {
+    requestBody: {
+      content: {
+        'application/json': {
+          /** Format: misskey:id */
+          userId: string;
+        };
+      };
+    };
+    responses: {
+      /** @description OK (without any results) */
+      204: {
+        content: never;
+      };
+      /** @description Client error */
+      400: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Authentication error */
+      401: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Forbidden error */
+      403: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description I'm Ai */
+      418: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Internal server error */
+      500: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+    };
+  };
+  /**
+   * admin/update-abuse-user-report
+   * @description No description provided.
+   *
+   * **Credential required**: *Yes* / **Permission**: *write:admin:resolve-abuse-user-report*
+   */
+  'admin___update-abuse-user-report': {
+    requestBody: {
+      content: {
+        'application/json': {
+          /** Format: misskey:id */
+          reportId: string;
+          moderationNote?: string;
+        };
+      };
+    };
+    responses: {
+      /** @description OK (without any results) */
+      204: {
+        content: never;
+      };
+      /** @description Client error */
+      400: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Authentication error */
+      401: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Forbidden error */
+      403: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description I'm Ai */
+      418: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Internal server error */
+      500: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+    };
+  };
+  /**
+   * admin/update-meta
+   * @description No description provided.
+   *
+   * **Credential required**: *Yes* / **Permission**: *write:admin:meta*
+   */
+  'admin___update-meta': {
+    requestBody: {
+      content: {
+        'application/json': {
+          disableRegistration?: boolean | null;
+          pinnedUsers?: string[] | null;
+          hiddenTags?: string[] | null;
+          blockedHosts?: string[] | null;
+          sensitiveWords?: string[] | null;
+          prohibitedWords?: string[] | null;
+          prohibitedWordsForNameOfUser?: string[] | null;
+          themeColor?: string | null;
+          mascotImageUrl?: string | null;
+          bannerUrl?: string | null;
+          serverErrorImageUrl?: string | null;
+          infoImageUrl?: string | null;
+          notFoundImageUrl?: string | null;
+          iconUrl?: string | null;
+          app192IconUrl?: string | null;
+          app512IconUrl?: string | null;
+          backgroundImageUrl?: string | null;
+          logoImageUrl?: string | null;
+          name?: string | null;
+          shortName?: string | null;
+          description?: string | null;
+          defaultLightTheme?: string | null;
+          defaultDarkTheme?: string | null;
+          cacheRemoteFiles?: boolean;
+          cacheRemoteSensitiveFiles?: boolean;
+          emailRequiredForSignup?: boolean;
+          enableHcaptcha?: boolean;
+          hcaptchaSiteKey?: string | null;
+          hcaptchaSecretKey?: string | null;
+          enableMcaptcha?: boolean;
+          mcaptchaSiteKey?: string | null;
+          mcaptchaInstanceUrl?: string | null;
+          mcaptchaSecretKey?: string | null;
+          enableRecaptcha?: boolean;
+          recaptchaSiteKey?: string | null;
+          recaptchaSecretKey?: string | null;
+          enableTurnstile?: boolean;
+          turnstileSiteKey?: string | null;
+          turnstileSecretKey?: string | null;
+          enableTestcaptcha?: boolean;
+          /** @enum {string} */
+          sensitiveMediaDetection?: 'none' | 'all' | 'local' | 'remote';
+          /** @enum {string} */
+          sensitiveMediaDetectionSensitivity?: 'medium' | 'low' | 'high' | 'veryLow' | 'veryHigh';
+          setSensitiveFlagAutomatically?: boolean;
+          enableSensitiveMediaDetectionForVideos?: boolean;
+          /** Format: misskey:id */
+          proxyAccountId?: string | null;
+          maintainerName?: string | null;
+          maintainerEmail?: string | null;
+          langs?: string[];
+          deeplAuthKey?: string | null;
+          deeplIsPro?: boolean;
+          enableEmail?: boolean;
+          email?: string | null;
+          smtpSecure?: boolean;
+          smtpHost?: string | null;
+          smtpPort?: number | null;
+          smtpUser?: string | null;
+          smtpPass?: string | null;
+          enableServiceWorker?: boolean;
+          swPublicKey?: string | null;
+          swPrivateKey?: string | null;
+          tosUrl?: string | null;
+          repositoryUrl?: string | null;
+          feedbackUrl?: string | null;
+          impressumUrl?: string | null;
+          privacyPolicyUrl?: string | null;
+          inquiryUrl?: string | null;
+          useObjectStorage?: boolean;
+          objectStorageBaseUrl?: string | null;
+          objectStorageBucket?: string | null;
+          objectStoragePrefix?: string | null;
+          objectStorageEndpoint?: string | null;
+          objectStorageRegion?: string | null;
+          objectStoragePort?: number | null;
+          objectStorageAccessKey?: string | null;
+          objectStorageSecretKey?: string | null;
+          objectStorageUseSSL?: boolean;
+          objectStorageUseProxy?: boolean;
+          objectStorageSetPublicRead?: boolean;
+          objectStorageS3ForcePathStyle?: boolean;
+          enableIpLogging?: boolean;
+          enableActiveEmailValidation?: boolean;
+          enableVerifymailApi?: boolean;
+          verifymailAuthKey?: string | null;
+          enableTruemailApi?: boolean;
+          truemailInstance?: string | null;
+          truemailAuthKey?: string | null;
+          enableChartsForRemoteUser?: boolean;
+          enableChartsForFederatedInstances?: boolean;
+          enableStatsForFederatedInstances?: boolean;
+          enableServerMachineStats?: boolean;
+          enableIdenticonGeneration?: boolean;
+          serverRules?: string[];
+          bannedEmailDomains?: string[];
+          preservedUsernames?: string[];
+          manifestJsonOverride?: string;
+          enableFanoutTimeline?: boolean;
+          enableFanoutTimelineDbFallback?: boolean;
+          perLocalUserUserTimelineCacheMax?: number;
+          perRemoteUserUserTimelineCacheMax?: number;
+          perUserHomeTimelineCacheMax?: number;
+          perUserListTimelineCacheMax?: number;
+          enableReactionsBuffering?: boolean;
+          notesPerOneAd?: number;
+          silencedHosts?: string[] | null;
+          mediaSilencedHosts?: string[] | null;
+          /** @description [Deprecated] Use "urlPreviewSummaryProxyUrl" instead. */
+          summalyProxy?: string | null;
+          urlPreviewEnabled?: boolean;
+          urlPreviewTimeout?: number;
+          urlPreviewMaximumContentLength?: number;
+          urlPreviewRequireContentLength?: boolean;
+          urlPreviewUserAgent?: string | null;
+          urlPreviewSummaryProxyUrl?: string | null;
+          /** @enum {string} */
+          federation?: 'all' | 'none' | 'specified';
+          federationHosts?: string[];
+          enableAuthorizedFetch?: boolean;
+          remoteUserBackfillNotesLimit?: number;
+          remoteUserBackfillPerHostLimit?: number;
+        };
+      };
+    };
+    responses: {
+      /** @description OK (without any results) */
+      204: {
+        content: never;
+      };
+      /** @description Client error */
+      400: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Authentication error */
+      401: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Forbidden error */
+      403: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description I'm Ai */
+      418: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Internal server error */
+      500: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+    };
+  };
+  /**
+   * admin/update-user-note
+   * @description No description provided.
+   *
+   * **Credential required**: *Yes* / **Permission**: *write:admin:user-note*
+   */
+  'admin___update-user-note': {
+    requestBody: {
+      content: {
+        'application/json': {
+          /** Format: misskey:id */
+          userId: string;
+          text: string;
+        };
+      };
+    };
+    responses: {
+      /** @description OK (without any results) */
+      204: {
+        content: never;
+      };
+      /** @description Client error */
+      400: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Authentication error */
+      401: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Forbidden error */
+      403: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description I'm Ai */
+      418: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Internal server error */
+      500: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+    };
+  };
+  /**
+   * admin/user-warnings
+   * @description No description provided.
+   *
+   * **Credential required**: *Yes* / **Permission**: *read:admin:account*
+   */
+  'admin___user-warnings': {
+    requestBody: {
+      content: {
+        'application/json': {
+          /** @default 10 */
+          limit?: number;
+          /** Format: misskey:id */
+          sinceId?: string;
+          /** Format: misskey:id */
+          untilId?: string;
+          /** Format: misskey:id */
+          userId?: string | null;
+          /** @enum {string|null} */
+          appealStatus?: 'pending' | 'accepted' | 'rejected';
+        };
+      };
+    };
+    responses: {
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': components['schemas']['UserWarning'][];
+        };
+      };
+      /** @description Client error */
+      400: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Authentication error */
+      401: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Forbidden error */
+      403: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description I'm Ai */
+      418: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Internal server error */
+      500: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+    };
+  };
+  /**
+   * admin/warn-user
+   * @description Warn a local user. If a role is specified, it is assigned to the user until the specified time.
+   *
+   * **Credential required**: *Yes* / **Permission**: *write:admin:account*
+   */
+  'admin___warn-user': {
+    requestBody: {
+      content: {
+        'application/json': {
+          /** Format: misskey:id */
+          userId: string;
+          reason: string;
+          /** Format: misskey:id */
+          reportId?: string | null;
+          /** Format: misskey:id */
+          noteId?: string | null;
+          /**
+           * Format: misskey:id
+           * @description The role to assign to the user along with the warning.
+           */
+          roleId?: string | null;
+          /** @description Unassign the role at this time. The role is assigned indefinitely if null. */
+          roleExpiresAt?: number | null;
+        };
+      };
+    };
+    responses: {
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': components['schemas']['UserWarning'];
+        };
+      };
+      /** @description Client error */
+      400: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Authentication error */
+      401: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Forbidden error */
+      403: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description I'm Ai */
+      418: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Internal server error */
+      500: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+    };
+  };
+  /**
+   * announcements
+   * @description No description provided.
+   *
+   * **Credential required**: *No*
+   */
+  announcements: {
+    requestBody: {
+      content: {
+        'application/json': {
+          /** @default 10 */
+          limit?: number;
+          /** Format: misskey:id */
+          sinceId?: string;
+          /** Format: misskey:id */
+          untilId?: string;
+          /** @default true */
+          isActive?: boolean;
+        };
+      };
+    };
+    responses: {
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': components['schemas']['Announcement'][];
+        };
+      };
+      /** @description Client error */
+      400: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Authentication error */
+      401: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Forbidden error */
+      403: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description I'm Ai */
+      418: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Internal server error */
+      500: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+    };
+  };
+  /**
+   * announcements/show
+   * @description No description provided.
+   *
+   * **Credential required**: *No*
+   */
+  announcements___show: {
+    requestBody: {
+      content: {
+        'application/json': {
+          /** Format: misskey:id */
+          announcementId: string;
+        };
+      };
+    };
+    responses: {
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': components['schemas']['Announcement'];
+        };
+      };
+      /** @description Client error */
+      400: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Authentication error */
+      401: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Forbidden error */
+      403: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description I'm Ai */
+      418: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Internal server error */
+      500: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+    };
+  };
+  /**
+   * antennas/create
+   * @description No description provided.
+   *
+   * **Credential required**: *Yes* / **Permission**: *write:account*
+   */
+  antennas___create: {
+    requestBody: {
+      content: {
+        'application/json': {
+          name: string;
+          /** @enum {string} */
+          src: 'home' | 'all' | 'users' | 'list' | 'users_blacklist';
+          /** Format: misskey:id */
+          userListId?: string | null;
+          keywords: string[][];
+          excludeKeywords: string[][];
+          users: string[];
+          caseSensitive: boolean;
+          localOnly?: boolean;
+          excludeBots?: boolean;
+          withReplies: boolean;
+          withFile: boolean;
+        };
+      };
+    };
+    responses: {
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': components['schemas']['Antenna'];
+        };
+      };
+      /** @description Client error */
+      400: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Authentication error */
+      401: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Forbidden error */
+      403: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description I'm Ai */
+      418: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Internal server error */
+      500: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+    };
+  };
+  /**
+   * antennas/delete
+   * @description No description provided.
+   *
+   * **Credential required**: *Yes* / **Permission**: *write:account*
+   */
+  antennas___delete: {
+    requestBody: {
+      content: {
+        'application/json': {
+          /** Format: misskey:id */
+          antennaId: string;
+        };
+      };
+    };
+    responses: {
+      /** @description OK (without any results) */
+      204: {
+        content: never;
+      };
+      /** @description Client error */
+      400: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Authentication error */
+      401: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Forbidden error */
+      403: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description I'm Ai */
+      418: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Internal server error */
+      500: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+    };
+  };
+  /**
+   * antennas/list
+   * @description No description provided.
+   *
+   * **Credential required**: *Yes* / **Permission**: *read:account*
+   */
+  antennas___list: {
+    responses: {
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': components['schemas']['Antenna'][];
+        };
+      };
+      /** @description Client error */
+      400: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Authentication error */
+      401: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Forbidden error */
+      403: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description I'm Ai */
+      418: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Internal server error */
+      500: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+    };
+  };
+  /**
+   * antennas/notes
+   * @description No description provided.
+   *
+   * **Credential required**: *Yes* / **Permission**: *read:account*
+   */
+  antennas___notes: {
+    requestBody: {
+      content: {
+        'application/json': {
+          /** Format: misskey:id */
+          antennaId: string;
+          /** @default 10 */
+          limit?: number;
+          /** Format: misskey:id */
+          sinceId?: string;
+          /** Format: misskey:id */
+          untilId?: string;
+          sinceDate?: number;
+          untilDate?: number;
+        };
+      };
+    };
+    responses: {
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': components['schemas']['Note'][];
+        };
+      };
+      /** @description Client error */
+      400: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Authentication error */
+      401: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Forbidden error */
+      403: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description I'm Ai */
+      418: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Internal server error */
+      500: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+    };
+  };
+  /**
+   * antennas/show
+   * @description No description provided.
+   *
+   * **Credential required**: *Yes* / **Permission**: *read:account*
+   */
+  antennas___show: {
+    requestBody: {
+      content: {
+        'application/json': {
+          /** Format: misskey:id */
+          antennaId: string;
+        };
+      };
+    };
+    responses: {
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': components['schemas']['Antenna'];
+        };
+      };
+      /** @description Client error */
+      400: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Authentication error */
+      401: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Forbidden error */
+      403: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description I'm Ai */
+      418: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Internal server error */
+      500: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+    };
+  };
+  /**
+   * antennas/update
+   * @description No description provided.
+   *
+   * **Credential required**: *Yes* / **Permission**: *write:account*
+   */
+  antennas___update: {
+    requestBody: {
+      content: {
+        'application/json': {
+          /** Format: misskey:id */
+          antennaId: string;
+          name?: string;
+          /** @enum {string} */
+          src?: 'home' | 'all' | 'users' | 'list' | 'users_blacklist';
+          /** Format: misskey:id */
+          userListId?: string | null;
+          keywords?: string[][];
+          excludeKeywords?: string[][];
+          users?: string[];
+          caseSensitive?: boolean;
+          localOnly?: boolean;
+          excludeBots?: boolean;
+          withReplies?: boolean;
+          withFile?: boolean;
+        };
+      };
+    };
+    responses: {
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': components['schemas']['Antenna'];
+        };
+      };
+      /** @description Client error */
+      400: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Authentication error */
+      401: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Forbidden error */
+      403: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description I'm Ai */
+      418: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Internal server error */
+      500: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+    };
+  };
+  /**
+   * ap/get
+   * @description No description provided.
+   *
+   * **Credential required**: *Yes* / **Permission**: *read:federation*
+   */
+  ap___get: {
+    requestBody: {
+      content: {
+        'application/json': {
+          uri: string;
+        };
+      };
+    };
+    responses: {
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': Record<string, never>;
+        };
+      };
+      /** @description Client error */
+      400: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Authentication error */
+      401: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Forbidden error */
+      403: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description I'm Ai */
+      418: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Too many requests */
+      429: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Internal server error */
+      500: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+    };
+  };
+  /**
+   * ap/show
+   * @description No description provided.
+   *
+   * **Credential required**: *Yes* / **Permission**: *read:account*
+   */
+  ap___show: {
+    requestBody: {
+      content: {
+        'application/json': {
+          uri: string;
+        };
+      };
+    };
+    responses: {
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': OneOf<[{
+            /** @enum {string} */
+            type: 'User';
+            object: components['schemas']['UserDetailedNotMe'];
+          }, {
+            /** @enum {string} */
+            type: 'Note';
+            object: components['schemas']['Note'];
+          }]>;
+        };
+      };
+      /** @description Client error */
+      400: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Authentication error */
+      401: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Forbidden error */
+      403: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description I'm Ai */
+      418: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Too many requests */
+      429: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Internal server error */
+      500: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+    };
+  };
+  /**
+   * app/create
+   * @description No description provided.
+   *
+   * **Credential required**: *No*
+   */
+  app___create: {
+    requestBody: {
+      content: {
+        'application/json': {
+          name: string;
+          description: string;
+          permission: string[];
+          callbackUrl?: string | null;
+        };
+      };
+    };
+    responses: {
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': components['schemas']['App'];
+        };
+      };
+      /** @description Client error */
+      400: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Authentication error */
+      401: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Forbidden error */
+      403: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description I'm Ai */
+      418: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Internal server error */
+      500: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+    };
+  };
+  /**
+   * app/show
+   * @description No description provided.
+   *
+   * **Credential required**: *No*
+   */
+  app___show: {
+    requestBody: {
+      content: {
+        'application/json': {
+          /** Format: misskey:id */
+          appId: string;
+        };
+      };
+    };
+    responses: {
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': components['schemas']['App'];
+        };
+      };
+      /** @description Client error */
+      400: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Authentication error */
+      401: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Forbidden error */
+      403: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description I'm Ai */
+      418: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Internal server error */
+      500: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+    };
+  };
+  /**
+   * auth/accept
+   * @description No description provided.
+   *
+   * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
+   * **Credential required**: *Yes*
+   */
+  auth___accept: {
+    requestBody: {
+      content: {
+        'application/json': {
+          token: string;
+        };
+      };
+    };
+    responses: {
+      /** @description OK (without any results) */
+      204: {
+        content: never;
+      };
+      /** @description Client error */
+      400: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Authentication error */
+      401: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Forbidden error */
+      403: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description I'm Ai */
+      418: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Internal server error */
+      500: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+    };
+  };
+  /**
+   * auth/session/generate
+   * @description No description provided.
+   *
+   * **Credential required**: *No*
+   */
+  auth___session___generate: {
+    requestBody: {
+      content: {
+        'application/json': {
+          appSecret: string;
+        };
+      };
+    };
+    responses: {
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': {
+            token: string;
+            /** Format: url */
+            url: string;
+          };
+        };
+      };
+      /** @description Client error */
+      400: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Authentication error */
+      401: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Forbidden error */
+      403: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description I'm Ai */
+      418: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Internal server error */
+      500: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+    };
+  };
+  /**
+   * auth/session/show
+   * @description No description provided.
+   *
+   * **Credential required**: *No*
+   */
+  auth___session___show: {
+    requestBody: {
+      content: {
+        'application/json': {
+          token: string;
+        };
+      };
+    };
+    responses: {
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': {
+            /** Format: id */
+            id: string;
+            app: components['schemas']['App'];
+            token: string;
+          };
+        };
+      };
+      /** @description Client error */
+      400: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Authentication error */
+      401: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Forbidden error */
+      403: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description I'm Ai */
+      418: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Internal server error */
+      500: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+    };
+  };
+  /**
+   * auth/session/userkey
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *read:admin:show-moderation-log*
+   * **Credential required**: *No*
    */
-  'admin___show-moderation-logs': {
+  auth___session___userkey: {
     requestBody: {
       content: {
         'application/json': {
-          /** @default 10 */
-          limit?: number;
-          /** Format: misskey:id */
-          sinceId?: string;
-          /** Format: misskey:id */
-          untilId?: string;
-          type?: string | null;
-          /** Format: misskey:id */
-          userId?: string | null;
+          appSecret: string;
+          token: string;
         };
       };
     };
@@ -9631,16 +14305,9 @@ export type operations = {
       200: {
         content: {
           'application/json': {
-              /** Format: id */
-              id: string;
-              /** Format: date-time */
-              createdAt: string;
-              type: string;
-              info: Record<string, never>;
-              /** Format: id */
-              userId: string;
-              user: components['schemas']['UserDetailedNotMe'];
-            }[];
+            accessToken: string;
+            user: components['schemas']['UserDetailedNotMe'];
+          };
         };
       };
       /** @description Client error */
@@ -9676,12 +14343,12 @@ export type operations = {
     };
   };
   /**
-   * admin/show-user
+   * blocking/create
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *read:admin:show-user*
+   * **Credential required**: *Yes* / **Permission**: *write:blocks*
    */
-  'admin___show-user': {
+  blocking___create: {
     requestBody: {
       content: {
         'application/json': {
@@ -9694,163 +14361,67 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': {
-            email: string | null;
-            emailVerified: boolean;
-            followedMessage: string | null;
-            autoAcceptFollowed: boolean;
-            noCrawle: boolean;
-            preventAiLearning: boolean;
-            alwaysMarkNsfw: boolean;
-            autoSensitive: boolean;
-            carefulBot: boolean;
-            injectFeaturedNote: boolean;
-            receiveAnnouncementEmail: boolean;
-            mutedWords: (string | string[])[];
-            mutedInstances: string[];
-            notificationRecieveConfig: {
-              note?: OneOf<[{
-                /** @enum {string} */
-                type: 'all' | 'following' | 'follower' | 'mutualFollow' | 'followingOrFollower' | 'never';
-              }, {
-                /** @enum {string} */
-                type: 'list';
-                /** Format: misskey:id */
-                userListId: string;
-              }]>;
-              follow?: OneOf<[{
-                /** @enum {string} */
-                type: 'all' | 'following' | 'follower' | 'mutualFollow' | 'followingOrFollower' | 'never';
-              }, {
-                /** @enum {string} */
-                type: 'list';
-                /** Format: misskey:id */
-                userListId: string;
-              }]>;
-              mention?: OneOf<[{
-                /** @enum {string} */
-                type: 'all' | 'following' | 'follower' | 'mutualFollow' | 'followingOrFollower' | 'never';
-              }, {
-                /** @enum {string} */
-                type: 'list';
-                /** Format: misskey:id */
-                userListId: string;
-              }]>;
-              reply?: OneOf<[{
-                /** @enum {string} */
-                type: 'all' | 'following' | 'follower' | 'mutualFollow' | 'followingOrFollower' | 'never';
-              }, {
-                /** @enum {string} */
-                type: 'list';
-                /** Format: misskey:id */
-                userListId: string;
-              }]>;
-              renote?: OneOf<[{
-                /** @enum {string} */
-                type: 'all' | 'following' | 'follower' | 'mutualFollow' | 'followingOrFollower' | 'never';
-              }, {
-                /** @enum {string} */
-                type: 'list';
-                /** Format: misskey:id */
-                userListId: string;
-              }]>;
-              quote?: OneOf<[{
-                /** @enum {string} */
-                type: 'all' | 'following' | 'follower' | 'mutualFollow' | 'followingOrFollower' | 'never';
-              }, {
-                /** @enum {string} */
-                type: 'list';
-                /** Format: misskey:id */
-                userListId: string;
-              }]>;
-              reaction?: OneOf<[{
-                /** @enum {string} */
-                type: 'all' | 'following' | 'follower' | 'mutualFollow' | 'followingOrFollower' | 'never';
-              }, {
-                /** @enum {string} */
-                type: 'list';
-                /** Format: misskey:id */
-                userListId: string;
-              }]>;
-              pollEnded?: OneOf<[{
-                /** @enum {string} */
-                type: 'all' | 'following' | 'follower' | 'mutualFollow' | 'followingOrFollower' | 'never';
-              }, {
-                /** @enum {string} */
-                type: 'list';
-                /** Format: misskey:id */
-                userListId: string;
-              }]>;
-              receiveFollowRequest?: OneOf<[{
-                /** @enum {string} */
-                type: 'all' | 'following' | 'follower' | 'mutualFollow' | 'followingOrFollower' | 'never';
-              }, {
-                /** @enum {string} */
-                type: 'list';
-                /** Format: misskey:id */
-                userListId: string;
-              }]>;
-              followRequestAccepted?: OneOf<[{
-                /** @enum {string} */
-                type: 'all' | 'following' | 'follower' | 'mutualFollow' | 'followingOrFollower' | 'never';
-              }, {
-                /** @enum {string} */
-                type: 'list';
-                /** Format: misskey:id */
-                userListId: string;
-              }]>;
-              roleAssigned?: OneOf<[{
-                /** @enum {string} */
-                type: 'all' | 'following' | 'follower' | 'mutualFollow' | 'followingOrFollower' | 'never';
-              }, {
-                /** @enum {string} */
-                type: 'list';
-                /** Format: misskey:id */
-                userListId: string;
-              }]>;
-              achievementEarned?: OneOf<[{
-                /** @enum {string} */
-                type: 'all' | 'following' | 'follower' | 'mutualFollow' | 'followingOrFollower' | 'never';
-              }, {
-                /** @enum {string} */
-                type: 'list';
-                /** Format: misskey:id */
-                userListId: string;
-              }]>;
-              app?: OneOf<[{
-                /** @enum {string} */
-                type: 'all' | 'following' | 'follower' | 'mutualFollow' | 'followingOrFollower' | 'never';
-              }, {
-                /** @enum {string} */
-                type: 'list';
-                /** Format: misskey:id */
-                userListId: string;
-              }]>;
-              test?: OneOf<[{
-                /** @enum {string} */
-                type: 'all' | 'following' | 'follower' | 'mutualFollow' | 'followingOrFollower' | 'never';
-              }, {
-                /** @enum {string} */
-                type: 'list';
-                /** Format: misskey:id */
-                userListId: string;
-              }]>;
-            };
-            isModerator: boolean;
-            isSilenced: boolean;
-            isSuspended: boolean;
-            isHibernated: boolean;
-            lastActiveDate: string | null;
-            moderationNote: string;
-            signins: components['schemas']['Signin'][];
-            policies: components['schemas']['RolePolicies'];
-            roles: components['schemas']['Role'][];
-            roleAssigns: ({
-                createdAt: string;
-                expiresAt: string | null;
-                roleId: string;
-              })[];
-          };
+          'application/json': components['schemas']['UserDetailedNotMe'];
+        };
+      };
+      /** @description Client error */
+      400: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Authentication error */
+      401: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Forbidden error */
+      403: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description I'm Ai */
+      418: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Too many requests */
+      429: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Internal server error */
+      500: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+    };
+  };
+  /**
+   * blocking/delete
+   * @description No description provided.
+   *
+   * **Credential required**: *Yes* / **Permission**: *write:blocks*
+   */
+  blocking___delete: {
+    requestBody: {
+      content: {
+        'application/json': {
+          /** Format: misskey:id */
+          userId: string;
+        };
+      };
+    };
+    responses: {
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': components['schemas']['UserDetailedNotMe'];
         };
       };
       /** @description Client error */
@@ -9877,6 +14448,12 @@ export type operations = {
           'application/json': components['schemas']['Error'];
         };
       };
+      /** @description Too many requests */
+      429: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
       /** @description Internal server error */
       500: {
         content: {
@@ -9886,38 +14463,21 @@ export type operations = {
     };
   };
   /**
-   * admin/show-users
+   * blocking/list
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *read:admin:show-user*
+   * **Credential required**: *Yes* / **Permission**: *read:blocks*
    */
-  'admin___show-users': {
+  blocking___list: {
     requestBody: {
       content: {
         'application/json': {
-          /** @default 10 */
+          /** @default 30 */
           limit?: number;
-          /** @default 0 */
-          offset?: number;
-          /** @enum {string} */
-          sort?: '+follower' | '-follower' | '+createdAt' | '-createdAt' | '+updatedAt' | '-updatedAt' | '+lastActiveDate' | '-lastActiveDate';
-          /**
-           * @default all
-           * @enum {string}
-           */
-          state?: 'all' | 'alive' | 'available' | 'admin' | 'moderator' | 'adminOrModerator' | 'suspended';
-          /**
-           * @default combined
-           * @enum {string}
-           */
-          origin?: 'combined' | 'local' | 'remote';
-          /** @default null */
-          username?: string | null;
-          /**
-           * @description The local host is represented with `null`.
-           * @default null
-           */
-          hostname?: string | null;
+          /** Format: misskey:id */
+          sinceId?: string;
+          /** Format: misskey:id */
+          untilId?: string;
         };
       };
     };
@@ -9925,7 +14485,7 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': components['schemas']['UserDetailed'][];
+          'application/json': components['schemas']['Blocking'][];
         };
       };
       /** @description Client error */
@@ -9961,24 +14521,30 @@ export type operations = {
     };
   };
   /**
-   * admin/suspend-user
+   * bubble-game/ranking
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:admin:suspend-user*
+   * **Credential required**: *No*
    */
-  'admin___suspend-user': {
+  'bubble-game___ranking': {
     requestBody: {
       content: {
         'application/json': {
-          /** Format: misskey:id */
-          userId: string;
+          gameMode: string;
         };
       };
     };
     responses: {
-      /** @description OK (without any results) */
-      204: {
-        content: never;
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': {
+              /** Format: misskey:id */
+              id: string;
+              score: number;
+              user?: components['schemas']['UserLite'];
+            }[];
+        };
       };
       /** @description Client error */
       400: {
@@ -10013,30 +14579,27 @@ export type operations = {
     };
   };
   /**
-   * admin/system-webhook/create
+   * bubble-game/register
    * @description No description provided.
    *
-   * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
-   * **Credential required**: *Yes* / **Permission**: *write:admin:system-webhook*
+   * **Credential required**: *Yes* / **Permission**: *write:account*
    */
-  'admin___system-webhook___create': {
+  'bubble-game___register': {
     requestBody: {
       content: {
         'application/json': {
-          isActive: boolean;
-          name: string;
-          on: ('abuseReport' | 'abuseReportResolved' | 'userCreated' | 'inactiveModeratorsWarning' | 'inactiveModeratorsInvitationOnlyChanged')[];
-          url: string;
-          secret: string;
+          score: number;
+          seed: string;
+          logs: number[][];
+          gameMode: string;
+          gameVersion: number;
         };
       };
     };
     responses: {
-      /** @description OK (with results) */
-      200: {
-        content: {
-          'application/json': components['schemas']['SystemWebhook'];
-        };
+      /** @description OK (without any results) */
+      204: {
+        content: never;
       };
       /** @description Client error */
       400: {
@@ -10062,6 +14625,12 @@ export type operations = {
           'application/json': components['schemas']['Error'];
         };
       };
+      /** @description Too many requests */
+      429: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
       /** @description Internal server error */
       500: {
         content: {
@@ -10071,25 +14640,31 @@ export type operations = {
     };
   };
   /**
-   * admin/system-webhook/delete
+   * channels/create
    * @description No description provided.
    *
-   * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
-   * **Credential required**: *Yes* / **Permission**: *write:admin:system-webhook*
+   * **Credential required**: *Yes* / **Permission**: *write:channels*
    */
-  'admin___system-webhook___delete': {
+  channels___create: {
     requestBody: {
       content: {
         'application/json': {
+          name: string;
+          description?: string | null;
           /** Format: misskey:id */
-          id: string;
+          bannerId?: string | null;
+          color?: string;
+          isSensitive?: boolean | null;
+          allowRenoteToExternal?: boolean | null;
         };
       };
     };
     responses: {
-      /** @description OK (without any results) */
-      204: {
-        content: never;
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': components['schemas']['Channel'];
+        };
       };
       /** @description Client error */
       400: {
@@ -10115,6 +14690,12 @@ export type operations = {
           'application/json': components['schemas']['Error'];
         };
       };
+      /** @description Too many requests */
+      429: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
       /** @description Internal server error */
       500: {
         content: {
@@ -10124,27 +14705,24 @@ export type operations = {
     };
   };
   /**
-   * admin/system-webhook/list
+   * channels/favorite
    * @description No description provided.
    *
-   * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
-   * **Credential required**: *Yes* / **Permission**: *write:admin:system-webhook*
+   * **Credential required**: *Yes* / **Permission**: *write:channels*
    */
-  'admin___system-webhook___list': {
+  channels___favorite: {
     requestBody: {
       content: {
         'application/json': {
-          isActive?: boolean;
-          on?: ('abuseReport' | 'abuseReportResolved' | 'userCreated' | 'inactiveModeratorsWarning' | 'inactiveModeratorsInvitationOnlyChanged')[];
+          /** Format: misskey:id */
+          channelId: string;
         };
       };
     };
     responses: {
-      /** @description OK (with results) */
-      200: {
-        content: {
-          'application/json': components['schemas']['SystemWebhook'][];
-        };
+      /** @description OK (without any results) */
+      204: {
+        content: never;
       };
       /** @description Client error */
       400: {
@@ -10179,26 +14757,17 @@ export type operations = {
     };
   };
   /**
-   * admin/system-webhook/show
+   * channels/featured
    * @description No description provided.
    *
-   * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
-   * **Credential required**: *Yes* / **Permission**: *write:admin:system-webhook*
+   * **Credential required**: *No*
    */
-  'admin___system-webhook___show': {
-    requestBody: {
-      content: {
-        'application/json': {
-          /** Format: misskey:id */
-          id: string;
-        };
-      };
-    };
+  channels___featured: {
     responses: {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': components['schemas']['SystemWebhook'];
+          'application/json': components['schemas']['Channel'][];
         };
       };
       /** @description Client error */
@@ -10234,24 +14803,17 @@ export type operations = {
     };
   };
   /**
-   * admin/system-webhook/test
+   * channels/follow
    * @description No description provided.
    *
-   * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
-   * **Credential required**: *Yes* / **Permission**: *read:admin:system-webhook*
+   * **Credential required**: *Yes* / **Permission**: *write:channels*
    */
-  'admin___system-webhook___test': {
+  channels___follow: {
     requestBody: {
       content: {
         'application/json': {
           /** Format: misskey:id */
-          webhookId: string;
-          /** @enum {string} */
-          type: 'abuseReport' | 'abuseReportResolved' | 'userCreated' | 'inactiveModeratorsWarning' | 'inactiveModeratorsInvitationOnlyChanged';
-          override?: {
-            url?: string;
-            secret?: string;
-          };
+          channelId: string;
         };
       };
     };
@@ -10284,12 +14846,6 @@ export type operations = {
           'application/json': components['schemas']['Error'];
         };
       };
-      /** @description Too many requests */
-      429: {
-        content: {
-          'application/json': components['schemas']['Error'];
-        };
-      };
       /** @description Internal server error */
       500: {
         content: {
@@ -10299,23 +14855,21 @@ export type operations = {
     };
   };
   /**
-   * admin/system-webhook/update
+   * channels/followed
    * @description No description provided.
    *
-   * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
-   * **Credential required**: *Yes* / **Permission**: *write:admin:system-webhook*
+   * **Credential required**: *Yes* / **Permission**: *read:channels*
    */
-  'admin___system-webhook___update': {
+  channels___followed: {
     requestBody: {
       content: {
         'application/json': {
           /** Format: misskey:id */
-          id: string;
-          isActive: boolean;
-          name: string;
-          on: ('abuseReport' | 'abuseReportResolved' | 'userCreated' | 'inactiveModeratorsWarning' | 'inactiveModeratorsInvitationOnlyChanged')[];
-          url: string;
-          secret: string;
+          sinceId?: string;
+          /** Format: misskey:id */
+          untilId?: string;
+          /** @default 5 */
+          limit?: number;
         };
       };
     };
@@ -10323,7 +14877,7 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': components['schemas']['SystemWebhook'];
+          'application/json': components['schemas']['Channel'][];
         };
       };
       /** @description Client error */
@@ -10359,24 +14913,18 @@ export type operations = {
     };
   };
   /**
-   * admin/unset-user-avatar
+   * channels/my-favorites
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:admin:unset-user-avatar*
+   * **Credential required**: *Yes* / **Permission**: *read:channels*
    */
-  'admin___unset-user-avatar': {
-    requestBody: {
-      content: {
-        'application/json': {
-          /** Format: misskey:id */
-          userId: string;
-        };
-      };
-    };
+  'channels___my-favorites': {
     responses: {
-      /** @description OK (without any results) */
-      204: {
-        content: never;
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': components['schemas']['Channel'][];
+        };
       };
       /** @description Client error */
       400: {
@@ -10411,24 +14959,30 @@ export type operations = {
     };
   };
   /**
-   * admin/unset-user-banner
+   * channels/owned
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:admin:unset-user-banner*
+   * **Credential required**: *Yes* / **Permission**: *read:channels*
    */
-  'admin___unset-user-banner': {
+  channels___owned: {
     requestBody: {
       content: {
         'application/json': {
           /** Format: misskey:id */
-          userId: string;
+          sinceId?: string;
+          /** Format: misskey:id */
+          untilId?: string;
+          /** @default 5 */
+          limit?: number;
         };
       };
     };
     responses: {
-      /** @description OK (without any results) */
-      204: {
-        content: never;
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': components['schemas']['Channel'][];
+        };
       };
       /** @description Client error */
       400: {
@@ -10463,24 +15017,36 @@ export type operations = {
     };
   };
   /**
-   * admin/unsuspend-user
+   * channels/search
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:admin:unsuspend-user*
+   * **Credential required**: *No*
    */
-  'admin___unsuspend-user': {
+  channels___search: {
     requestBody: {
       content: {
         'application/json': {
+          query: string;
+          /**
+           * @default nameAndDescription
+           * @enum {string}
+           */
+          type?: 'nameAndDescription' | 'nameOnly';
           /** Format: misskey:id */
-          userId: string;
+          sinceId?: string;
+          /** Format: misskey:id */
+          untilId?: string;
+          /** @default 5 */
+          limit?: number;
         };
       };
     };
     responses: {
-      /** @description OK (without any results) */
-      204: {
-        content: never;
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': components['schemas']['Channel'][];
+        };
       };
       /** @description Client error */
       400: {
@@ -10515,25 +15081,26 @@ export type operations = {
     };
   };
   /**
-   * admin/update-abuse-user-report
+   * channels/show
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:admin:resolve-abuse-user-report*
+   * **Credential required**: *No*
    */
-  'admin___update-abuse-user-report': {
+  channels___show: {
     requestBody: {
       content: {
         'application/json': {
           /** Format: misskey:id */
-          reportId: string;
-          moderationNote?: string;
+          channelId: string;
         };
       };
     };
     responses: {
-      /** @description OK (without any results) */
-      204: {
-        content: never;
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': components['schemas']['Channel'];
+        };
       };
       /** @description Client error */
       400: {
@@ -10568,141 +15135,36 @@ export type operations = {
     };
   };
   /**
-   * admin/update-meta
+   * channels/timeline
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:admin:meta*
+   * **Credential required**: *No*
    */
-  'admin___update-meta': {
+  channels___timeline: {
     requestBody: {
       content: {
         'application/json': {
-          disableRegistration?: boolean | null;
-          pinnedUsers?: string[] | null;
-          hiddenTags?: string[] | null;
-          blockedHosts?: string[] | null;
-          sensitiveWords?: string[] | null;
-          prohibitedWords?: string[] | null;
-          prohibitedWordsForNameOfUser?: string[] | null;
-          themeColor?: string | null;
-          mascotImageUrl?: string | null;
-          bannerUrl?: string | null;
-          serverErrorImageUrl?: string | null;
-          infoImageUrl?: string | null;
-          notFoundImageUrl?: string | null;
-          iconUrl?: string | null;
-          app192IconUrl?: string | null;
-          app512IconUrl?: string | null;
-          backgroundImageUrl?: string | null;
-          logoImageUrl?: string | null;
-          name?: string | null;
-          shortName?: string | null;
-          description?: string | null;
-          defaultLightTheme?: string | null;
-          defaultDarkTheme?: string | null;
-          cacheRemoteFiles?: boolean;
-          cacheRemoteSensitiveFiles?: boolean;
-          emailRequiredForSignup?: boolean;
-          enableHcaptcha?: boolean;
-          hcaptchaSiteKey?: string | null;
-          hcaptchaSecretKey?: string | null;
-          enableMcaptcha?: boolean;
-          mcaptchaSiteKey?: string | null;
-          mcaptchaInstanceUrl?: string | null;
-          mcaptchaSecretKey?: string | null;
-          enableRecaptcha?: boolean;
-          recaptchaSiteKey?: string | null;
-          recaptchaSecretKey?: string | null;
-          enableTurnstile?: boolean;
-          turnstileSiteKey?: string | null;
-          turnstileSecretKey?: string | null;
-          enableTestcaptcha?: boolean;
-          /** @enum {string} */
-          sensitiveMediaDetection?: 'none' | 'all' | 'local' | 'remote';
-          /** @enum {string} */
-          sensitiveMediaDetectionSensitivity?: 'medium' | 'low' | 'high' | 'veryLow' | 'veryHigh';
-          setSensitiveFlagAutomatically?: boolean;
-          enableSensitiveMediaDetectionForVideos?: boolean;
           /** Format: misskey:id */
-          proxyAccountId?: string | null;
-          maintainerName?: string | null;
-          maintainerEmail?: string | null;
-          langs?: string[];
-          deeplAuthKey?: string | null;
-          deeplIsPro?: boolean;
-          enableEmail?: boolean;
-          email?: string | null;
-          smtpSecure?: boolean;
-          smtpHost?: string | null;
-          smtpPort?: number | null;
-          smtpUser?: string | null;
-          smtpPass?: string | null;
-          enableServiceWorker?: boolean;
-          swPublicKey?: string | null;
-          swPrivateKey?: string | null;
-          tosUrl?: string | null;
-          repositoryUrl?: string | null;
-          feedbackUrl?: string | null;
-          impressumUrl?: string | null;
-          privacyPolicyUrl?: string | null;
-          inquiryUrl?: string | null;
-          useObjectStorage?: boolean;
-          objectStorageBaseUrl?: string | null;
-          objectStorageBucket?: string | null;
-          objectStoragePrefix?: string | null;
-          objectStorageEndpoint?: string | null;
-          objectStorageRegion?: string | null;
-          objectStoragePort?: number | null;
-          objectStorageAccessKey?: string | null;
-          objectStorageSecretKey?: string | null;
-          objectStorageUseSSL?: boolean;
-          objectStorageUseProxy?: boolean;
-          objectStorageSetPublicRead?: boolean;
-          objectStorageS3ForcePathStyle?: boolean;
-          enableIpLogging?: boolean;
-          enableActiveEmailValidation?: boolean;
-          enableVerifymailApi?: boolean;
-          verifymailAuthKey?: string | null;
-          enableTruemailApi?: boolean;
-          truemailInstance?: string | null;
-          truemailAuthKey?: string | null;
-          enableChartsForRemoteUser?: boolean;
-          enableChartsForFederatedInstances?: boolean;
-          enableStatsForFederatedInstances?: boolean;
-          enableServerMachineStats?: boolean;
-          enableIdenticonGeneration?: boolean;
-          serverRules?: string[];
-          bannedEmailDomains?: string[];
-          preservedUsernames?: string[];
-          manifestJsonOverride?: string;
-          enableFanoutTimeline?: boolean;
-          enableFanoutTimelineDbFallback?: boolean;
-          perLocalUserUserTimelineCacheMax?: number;
-          perRemoteUserUserTimelineCacheMax?: number;
-          perUserHomeTimelineCacheMax?: number;
-          perUserListTimelineCacheMax?: number;
-          enableReactionsBuffering?: boolean;
-          notesPerOneAd?: number;
-          silencedHosts?: string[] | null;
-          mediaSilencedHosts?: string[] | null;
-          /** @description [Deprecated] Use "urlPreviewSummaryProxyUrl" instead. */
-          summalyProxy?: string | null;
-          urlPreviewEnabled?: boolean;
-          urlPreviewTimeout?: number;
-          urlPreviewMaximumContentLength?: number;
-          urlPreviewRequireContentLength?: boolean;
-          urlPreviewUserAgent?: string | null;
-          urlPreviewSummaryProxyUrl?: string | null;
-          /** @enum {string} */
-          federation?: 'all' | 'none' | 'specified';
-          federationHosts?: string[];
+          channelId: string;
+          /** @default 10 */
+          limit?: number;
+          /** Format: misskey:id */
+          sinceId?: string;
+          /** Format: misskey:id */
+          untilId?: string;
+          sinceDate?: number;
+          untilDate?: number;
+          /** @default false */
+          allowPartial?: boolean;
         };
       };
     };
     responses: {
-      /** @description OK (without any results) */
-      204: {
-        content: never;
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': components['schemas']['Note'][];
+        };
       };
       /** @description Client error */
       400: {
@@ -10737,18 +15199,17 @@ export type operations = {
     };
   };
   /**
-   * admin/update-user-note
+   * channels/unfavorite
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:admin:user-note*
+   * **Credential required**: *Yes* / **Permission**: *write:channels*
    */
-  'admin___update-user-note': {
+  channels___unfavorite: {
     requestBody: {
       content: {
         'application/json': {
           /** Format: misskey:id */
-          userId: string;
-          text: string;
+          channelId: string;
         };
       };
     };
@@ -10790,32 +15251,24 @@ export type operations = {
     };
   };
   /**
-   * announcements
+   * channels/unfollow
    * @description No description provided.
    *
-   * **Credential required**: *No*
+   * **Credential required**: *Yes* / **Permission**: *write:channels*
    */
-  announcements: {
+  channels___unfollow: {
     requestBody: {
       content: {
         'application/json': {
-          /** @default 10 */
-          limit?: number;
           /** Format: misskey:id */
-          sinceId?: string;
-          /** Format: misskey:id */
-          untilId?: string;
-          /** @default true */
-          isActive?: boolean;
+          channelId: string;
         };
       };
     };
     responses: {
-      /** @description OK (with results) */
-      200: {
-        content: {
-          'application/json': components['schemas']['Announcement'][];
-        };
+      /** @description OK (without any results) */
+      204: {
+        content: never;
       };
       /** @description Client error */
       400: {
@@ -10850,17 +15303,26 @@ export type operations = {
     };
   };
   /**
-   * announcements/show
+   * channels/update
    * @description No description provided.
    *
-   * **Credential required**: *No*
+   * **Credential required**: *Yes* / **Permission**: *write:channels*
    */
-  announcements___show: {
+  channels___update: {
     requestBody: {
       content: {
         'application/json': {
           /** Format: misskey:id */
-          announcementId: string;
+          channelId: string;
+          name?: string;
+          description?: string | null;
+          /** Format: misskey:id */
+          bannerId?: string | null;
+          isArchived?: boolean | null;
+          pinnedNoteIds?: string[];
+          color?: string;
+          isSensitive?: boolean | null;
+          allowRenoteToExternal?: boolean | null;
         };
       };
     };
@@ -10868,7 +15330,7 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': components['schemas']['Announcement'];
+          'application/json': components['schemas']['Channel'];
         };
       };
       /** @description Client error */
@@ -10904,28 +15366,21 @@ export type operations = {
     };
   };
   /**
-   * antennas/create
+   * charts/active-users
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:account*
+   * **Credential required**: *No*
    */
-  antennas___create: {
+  'charts___active-users': {
     requestBody: {
       content: {
         'application/json': {
-          name: string;
           /** @enum {string} */
-          src: 'home' | 'all' | 'users' | 'list' | 'users_blacklist';
-          /** Format: misskey:id */
-          userListId?: string | null;
-          keywords: string[][];
-          excludeKeywords: string[][];
-          users: string[];
-          caseSensitive: boolean;
-          localOnly?: boolean;
-          excludeBots?: boolean;
-          withReplies: boolean;
-          withFile: boolean;
+          span: 'day' | 'hour';
+          /** @default 30 */
+          limit?: number;
+          /** @default null */
+          offset?: number | null;
         };
       };
     };
@@ -10933,7 +15388,17 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': components['schemas']['Antenna'];
+          'application/json': {
+            readWrite: number[];
+            read: number[];
+            write: number[];
+            registeredWithinWeek: number[];
+            registeredWithinMonth: number[];
+            registeredWithinYear: number[];
+            registeredOutsideWeek: number[];
+            registeredOutsideMonth: number[];
+            registeredOutsideYear: number[];
+          };
         };
       };
       /** @description Client error */
@@ -10969,24 +15434,34 @@ export type operations = {
     };
   };
   /**
-   * antennas/delete
+   * charts/ap-request
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:account*
+   * **Credential required**: *No*
    */
-  antennas___delete: {
+  'charts___ap-request': {
     requestBody: {
       content: {
         'application/json': {
-          /** Format: misskey:id */
-          antennaId: string;
+          /** @enum {string} */
+          span: 'day' | 'hour';
+          /** @default 30 */
+          limit?: number;
+          /** @default null */
+          offset?: number | null;
         };
       };
     };
     responses: {
-      /** @description OK (without any results) */
-      204: {
-        content: never;
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': {
+            deliverFailed: number[];
+            deliverSucceeded: number[];
+            inboxReceived: number[];
+          };
+        };
       };
       /** @description Client error */
       400: {
@@ -11021,17 +15496,42 @@ export type operations = {
     };
   };
   /**
-   * antennas/list
+   * charts/drive
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *read:account*
+   * **Credential required**: *No*
    */
-  antennas___list: {
+  charts___drive: {
+    requestBody: {
+      content: {
+        'application/json': {
+          /** @enum {string} */
+          span: 'day' | 'hour';
+          /** @default 30 */
+          limit?: number;
+          /** @default null */
+          offset?: number | null;
+        };
+      };
+    };
     responses: {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': components['schemas']['Antenna'][];
+          'application/json': {
+            local: {
+              incCount: number[];
+              incSize: number[];
+              decCount: number[];
+              decSize: number[];
+            };
+            remote: {
+              incCount: number[];
+              incSize: number[];
+              decCount: number[];
+              decSize: number[];
+            };
+          };
         };
       };
       /** @description Client error */
@@ -11067,25 +15567,21 @@ export type operations = {
     };
   };
   /**
-   * antennas/notes
+   * charts/federation
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *read:account*
+   * **Credential required**: *No*
    */
-  antennas___notes: {
+  charts___federation: {
     requestBody: {
       content: {
         'application/json': {
-          /** Format: misskey:id */
-          antennaId: string;
-          /** @default 10 */
+          /** @enum {string} */
+          span: 'day' | 'hour';
+          /** @default 30 */
           limit?: number;
-          /** Format: misskey:id */
-          sinceId?: string;
-          /** Format: misskey:id */
-          untilId?: string;
-          sinceDate?: number;
-          untilDate?: number;
+          /** @default null */
+          offset?: number | null;
         };
       };
     };
@@ -11093,7 +15589,16 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': components['schemas']['Note'][];
+          'application/json': {
+            deliveredInstances: number[];
+            inboxInstances: number[];
+            stalled: number[];
+            sub: number[];
+            pub: number[];
+            pubsub: number[];
+            subActive: number[];
+            pubActive: number[];
+          };
         };
       };
       /** @description Client error */
@@ -11129,17 +15634,22 @@ export type operations = {
     };
   };
   /**
-   * antennas/show
+   * charts/instance
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *read:account*
+   * **Credential required**: *No*
    */
-  antennas___show: {
+  charts___instance: {
     requestBody: {
       content: {
         'application/json': {
-          /** Format: misskey:id */
-          antennaId: string;
+          /** @enum {string} */
+          span: 'day' | 'hour';
+          /** @default 30 */
+          limit?: number;
+          /** @default null */
+          offset?: number | null;
+          host: string;
         };
       };
     };
@@ -11147,7 +15657,46 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': components['schemas']['Antenna'];
+          'application/json': {
+            requests: {
+              failed: number[];
+              succeeded: number[];
+              received: number[];
+            };
+            notes: {
+              total: number[];
+              inc: number[];
+              dec: number[];
+              diffs: {
+                normal: number[];
+                reply: number[];
+                renote: number[];
+                withFile: number[];
+              };
+            };
+            users: {
+              total: number[];
+              inc: number[];
+              dec: number[];
+            };
+            following: {
+              total: number[];
+              inc: number[];
+              dec: number[];
+            };
+            followers: {
+              total: number[];
+              inc: number[];
+              dec: number[];
+            };
+            drive: {
+              totalFiles: number[];
+              incFiles: number[];
+              decFiles: number[];
+              incUsage: number[];
+              decUsage: number[];
+            };
+          };
         };
       };
       /** @description Client error */
@@ -11183,30 +15732,21 @@ export type operations = {
     };
   };
   /**
-   * antennas/update
+   * charts/notes
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:account*
+   * **Credential required**: *No*
    */
-  antennas___update: {
+  charts___notes: {
     requestBody: {
       content: {
         'application/json': {
-          /** Format: misskey:id */
-          antennaId: string;
-          name?: string;
           /** @enum {string} */
-          src?: 'home' | 'all' | 'users' | 'list' | 'users_blacklist';
-          /** Format: misskey:id */
-          userListId?: string | null;
-          keywords?: string[][];
-          excludeKeywords?: string[][];
-          users?: string[];
-          caseSensitive?: boolean;
-          localOnly?: boolean;
-          excludeBots?: boolean;
-          withReplies?: boolean;
-          withFile?: boolean;
+          span: 'day' | 'hour';
+          /** @default 30 */
+          limit?: number;
+          /** @default null */
+          offset?: number | null;
         };
       };
     };
@@ -11214,7 +15754,30 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': components['schemas']['Antenna'];
+          'application/json': {
+            local: {
+              total: number[];
+              inc: number[];
+              dec: number[];
+              diffs: {
+                normal: number[];
+                reply: number[];
+                renote: number[];
+                withFile: number[];
+              };
+            };
+            remote: {
+              total: number[];
+              inc: number[];
+              dec: number[];
+              diffs: {
+                normal: number[];
+                reply: number[];
+                renote: number[];
+                withFile: number[];
+              };
+            };
+          };
         };
       };
       /** @description Client error */
@@ -11250,16 +15813,23 @@ export type operations = {
     };
   };
   /**
-   * ap/get
+   * charts/user/drive
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *read:federation*
+   * **Credential required**: *No*
    */
-  ap___get: {
+  charts___user___drive: {
     requestBody: {
       content: {
         'application/json': {
-          uri: string;
+          /** @enum {string} */
+          span: 'day' | 'hour';
+          /** @default 30 */
+          limit?: number;
+          /** @default null */
+          offset?: number | null;
+          /** Format: misskey:id */
+          userId: string;
         };
       };
     };
@@ -11267,7 +15837,14 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': Record<string, never>;
+          'application/json': {
+            totalCount: number[];
+            totalSize: number[];
+            incCount: number[];
+            incSize: number[];
+            decCount: number[];
+            decSize: number[];
+          };
         };
       };
       /** @description Client error */
@@ -11294,12 +15871,6 @@ export type operations = {
           'application/json': components['schemas']['Error'];
         };
       };
-      /** @description Too many requests */
-      429: {
-        content: {
-          'application/json': components['schemas']['Error'];
-        };
-      };
       /** @description Internal server error */
       500: {
         content: {
@@ -11309,32 +15880,56 @@ export type operations = {
     };
   };
   /**
-   * ap/show
+   * charts/user/following
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *read:account*
+   * **Credential required**: *No*
    */
-  ap___show: {
+  charts___user___following: {
     requestBody: {
       content: {
         'application/json': {
-          uri: string;
+          /** @enum {string} */
+          span: 'day' | 'hour';
+          /** @default 30 */
+          limit?: number;
+          /** @default null */
+          offset?: number | null;
+          /** Format: misskey:id */
+          userId: string;
         };
-      };
-    };
-    responses: {
-      /** @description OK (with results) */
-      200: {
-        content: {
-          'application/json': OneOf<[{
-            /** @enum {string} */
-            type: 'User';
-            object: components['schemas']['UserDetailedNotMe'];
-          }, {
-            /** @enum {string} */
-            type: 'Note';
-            object: components['schemas']['Note'];
-          }]>;
+      };
+    };
+    responses: {
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': {
+            local: {
+              followings: {
+                total: number[];
+                inc: number[];
+                dec: number[];
+              };
+              followers: {
+                total: number[];
+                inc: number[];
+                dec: number[];
+              };
+            };
+            remote: {
+              followings: {
+                total: number[];
+                inc: number[];
+                dec: number[];
+              };
+              followers: {
+                total: number[];
+                inc: number[];
+                dec: number[];
+              };
+            };
+          };
         };
       };
       /** @description Client error */
@@ -11361,12 +15956,6 @@ export type operations = {
           'application/json': components['schemas']['Error'];
         };
       };
-      /** @description Too many requests */
-      429: {
-        content: {
-          'application/json': components['schemas']['Error'];
-        };
-      };
       /** @description Internal server error */
       500: {
         content: {
@@ -11376,19 +15965,23 @@ export type operations = {
     };
   };
   /**
-   * app/create
+   * charts/user/notes
    * @description No description provided.
    *
    * **Credential required**: *No*
    */
-  app___create: {
+  charts___user___notes: {
     requestBody: {
       content: {
         'application/json': {
-          name: string;
-          description: string;
-          permission: string[];
-          callbackUrl?: string | null;
+          /** @enum {string} */
+          span: 'day' | 'hour';
+          /** @default 30 */
+          limit?: number;
+          /** @default null */
+          offset?: number | null;
+          /** Format: misskey:id */
+          userId: string;
         };
       };
     };
@@ -11396,7 +15989,17 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': components['schemas']['App'];
+          'application/json': {
+            total: number[];
+            inc: number[];
+            dec: number[];
+            diffs: {
+              normal: number[];
+              reply: number[];
+              renote: number[];
+              withFile: number[];
+            };
+          };
         };
       };
       /** @description Client error */
@@ -11432,17 +16035,23 @@ export type operations = {
     };
   };
   /**
-   * app/show
+   * charts/user/pv
    * @description No description provided.
    *
    * **Credential required**: *No*
    */
-  app___show: {
+  charts___user___pv: {
     requestBody: {
       content: {
         'application/json': {
+          /** @enum {string} */
+          span: 'day' | 'hour';
+          /** @default 30 */
+          limit?: number;
+          /** @default null */
+          offset?: number | null;
           /** Format: misskey:id */
-          appId: string;
+          userId: string;
         };
       };
     };
@@ -11450,7 +16059,16 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': components['schemas']['App'];
+          'application/json': {
+            upv: {
+              user: number[];
+              visitor: number[];
+            };
+            pv: {
+              user: number[];
+              visitor: number[];
+            };
+          };
         };
       };
       /** @description Client error */
@@ -11486,24 +16104,39 @@ export type operations = {
     };
   };
   /**
-   * auth/accept
+   * charts/user/reactions
    * @description No description provided.
    *
-   * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
-   * **Credential required**: *Yes*
+   * **Credential required**: *No*
    */
-  auth___accept: {
+  charts___user___reactions: {
     requestBody: {
       content: {
         'application/json': {
-          token: string;
+          /** @enum {string} */
+          span: 'day' | 'hour';
+          /** @default 30 */
+          limit?: number;
+          /** @default null */
+          offset?: number | null;
+          /** Format: misskey:id */
+          userId: string;
         };
       };
     };
     responses: {
-      /** @description OK (without any results) */
-      204: {
-        content: never;
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': {
+            local: {
+              count: number[];
+            };
+            remote: {
+              count: number[];
+            };
+          };
+        };
       };
       /** @description Client error */
       400: {
@@ -11538,16 +16171,21 @@ export type operations = {
     };
   };
   /**
-   * auth/session/generate
+   * charts/users
    * @description No description provided.
    *
    * **Credential required**: *No*
    */
-  auth___session___generate: {
+  charts___users: {
     requestBody: {
       content: {
         'application/json': {
-          appSecret: string;
+          /** @enum {string} */
+          span: 'day' | 'hour';
+          /** @default 30 */
+          limit?: number;
+          /** @default null */
+          offset?: number | null;
         };
       };
     };
@@ -11556,9 +16194,16 @@ export type operations = {
       200: {
         content: {
           'application/json': {
-            token: string;
-            /** Format: url */
-            url: string;
+            local: {
+              total: number[];
+              inc: number[];
+              dec: number[];
+            };
+            remote: {
+              total: number[];
+              inc: number[];
+              dec: number[];
+            };
           };
         };
       };
@@ -11595,16 +16240,19 @@ export type operations = {
     };
   };
   /**
-   * auth/session/show
+   * chat/history
    * @description No description provided.
    *
-   * **Credential required**: *No*
+   * **Credential required**: *Yes* / **Permission**: *read:chat*
    */
-  auth___session___show: {
+  chat___history: {
     requestBody: {
       content: {
         'application/json': {
-          token: string;
+          /** @default 10 */
+          limit?: number;
+          /** @default false */
+          room?: boolean;
         };
       };
     };
@@ -11612,12 +16260,7 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': {
-            /** Format: id */
-            id: string;
-            app: components['schemas']['App'];
-            token: string;
-          };
+          'application/json': components['schemas']['ChatMessage'][];
         };
       };
       /** @description Client error */
@@ -11653,17 +16296,20 @@ export type operations = {
     };
   };
   /**
-   * auth/session/userkey
+   * chat/messages/create-to-room
    * @description No description provided.
    *
-   * **Credential required**: *No*
+   * **Credential required**: *Yes* / **Permission**: *write:chat*
    */
-  auth___session___userkey: {
+  'chat___messages___create-to-room': {
     requestBody: {
       content: {
         'application/json': {
-          appSecret: string;
-          token: string;
+          /** Format: misskey:id */
+          toRoomId: string;
+          text?: string | null;
+          /** Format: misskey:id */
+          fileId?: string | null;
         };
       };
     };
@@ -11671,10 +16317,7 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': {
-            accessToken: string;
-            user: components['schemas']['UserDetailedNotMe'];
-          };
+          'application/json': components['schemas']['ChatMessage'];
         };
       };
       /** @description Client error */
@@ -11701,6 +16344,12 @@ export type operations = {
           'application/json': components['schemas']['Error'];
         };
       };
+      /** @description Too many requests */
+      429: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
       /** @description Internal server error */
       500: {
         content: {
@@ -11710,17 +16359,20 @@ export type operations = {
     };
   };
   /**
-   * blocking/create
+   * chat/messages/create-to-user
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:blocks*
+   * **Credential required**: *Yes* / **Permission**: *write:chat*
    */
-  blocking___create: {
+  'chat___messages___create-to-user': {
     requestBody: {
       content: {
         'application/json': {
           /** Format: misskey:id */
-          userId: string;
+          toUserId: string;
+          text?: string | null;
+          /** Format: misskey:id */
+          fileId?: string | null;
         };
       };
     };
@@ -11728,7 +16380,7 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': components['schemas']['UserDetailedNotMe'];
+          'application/json': components['schemas']['ChatMessage'];
         };
       };
       /** @description Client error */
@@ -11770,26 +16422,24 @@ export type operations = {
     };
   };
   /**
-   * blocking/delete
+   * chat/messages/delete
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:blocks*
+   * **Credential required**: *Yes* / **Permission**: *write:chat*
    */
-  blocking___delete: {
+  chat___messages___delete: {
     requestBody: {
       content: {
         'application/json': {
           /** Format: misskey:id */
-          userId: string;
+          messageId: string;
         };
       };
     };
     responses: {
-      /** @description OK (with results) */
-      200: {
-        content: {
-          'application/json': components['schemas']['UserDetailedNotMe'];
-        };
+      /** @description OK (without any results) */
+      204: {
+        content: never;
       };
       /** @description Client error */
       400: {
@@ -11815,12 +16465,6 @@ export type operations = {
           'application/json': components['schemas']['Error'];
         };
       };
-      /** @description Too many requests */
-      429: {
-        content: {
-          'application/json': components['schemas']['Error'];
-        };
-      };
       /** @description Internal server error */
       500: {
         content: {
@@ -11830,16 +16474,18 @@ export type operations = {
     };
   };
   /**
-   * blocking/list
+   * chat/messages/room-timeline
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *read:blocks*
+   * **Credential required**: *Yes* / **Permission**: *read:chat*
    */
-  blocking___list: {
+  'chat___messages___room-timeline': {
     requestBody: {
       content: {
         'application/json': {
-          /** @default 30 */
+          /** Format: misskey:id */
+          roomId: string;
+          /** @default 10 */
           limit?: number;
           /** Format: misskey:id */
           sinceId?: string;
@@ -11852,7 +16498,7 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': components['schemas']['Blocking'][];
+          'application/json': components['schemas']['ChatMessage'][];
         };
       };
       /** @description Client error */
@@ -11888,16 +16534,23 @@ export type operations = {
     };
   };
   /**
-   * bubble-game/ranking
+   * chat/messages/user-timeline
    * @description No description provided.
    *
-   * **Credential required**: *No*
+   * **Credential required**: *Yes* / **Permission**: *read:chat*
    */
-  'bubble-game___ranking': {
+  'chat___messages___user-timeline': {
     requestBody: {
       content: {
         'application/json': {
-          gameMode: string;
+          /** Format: misskey:id */
+          userId: string;
+          /** @default 10 */
+          limit?: number;
+          /** Format: misskey:id */
+          sinceId?: string;
+          /** Format: misskey:id */
+          untilId?: string;
         };
       };
     };
@@ -11905,12 +16558,7 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': {
-              /** Format: misskey:id */
-              id: string;
-              score: number;
-              user?: components['schemas']['UserLite'];
-            }[];
+          'application/json': components['schemas']['ChatMessage'][];
         };
       };
       /** @description Client error */
@@ -11946,20 +16594,17 @@ export type operations = {
     };
   };
   /**
-   * bubble-game/register
+   * chat/read-room
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:account*
+   * **Credential required**: *Yes* / **Permission**: *write:chat*
    */
-  'bubble-game___register': {
+  'chat___read-room': {
     requestBody: {
       content: {
         'application/json': {
-          score: number;
-          seed: string;
-          logs: number[][];
-          gameMode: string;
-          gameVersion: number;
+          /** Format: misskey:id */
+          roomId: string;
         };
       };
     };
@@ -11992,12 +16637,6 @@ export type operations = {
           'application/json': components['schemas']['Error'];
         };
       };
-      /** @description Too many requests */
-      429: {
-        content: {
-          'application/json': components['schemas']['Error'];
-        };
-      };
       /** @description Internal server error */
       500: {
         content: {
@@ -12007,31 +16646,24 @@ export type operations = {
     };
   };
   /**
-   * channels/create
+   * chat/read-user
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:channels*
+   * **Credential required**: *Yes* / **Permission**: *write:chat*
    */
-  channels___create: {
+  'chat___read-user': {
     requestBody: {
       content: {
         'application/json': {
-          name: string;
-          description?: string | null;
           /** Format: misskey:id */
-          bannerId?: string | null;
-          color?: string;
-          isSensitive?: boolean | null;
-          allowRenoteToExternal?: boolean | null;
+          userId: string;
         };
       };
     };
-    responses: {
-      /** @description OK (with results) */
-      200: {
-        content: {
-          'application/json': components['schemas']['Channel'];
-        };
+    responses: {
+      /** @description OK (without any results) */
+      204: {
+        content: never;
       };
       /** @description Client error */
       400: {
@@ -12057,12 +16689,6 @@ export type operations = {
           'application/json': components['schemas']['Error'];
         };
       };
-      /** @description Too many requests */
-      429: {
-        content: {
-          'application/json': components['schemas']['Error'];
-        };
-      };
       /** @description Internal server error */
       500: {
         content: {
@@ -12072,24 +16698,28 @@ export type operations = {
     };
   };
   /**
-   * channels/favorite
+   * chat/rooms/add-member
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:channels*
+   * **Credential required**: *Yes* / **Permission**: *write:chat*
    */
-  channels___favorite: {
+  'chat___rooms___add-member': {
     requestBody: {
       content: {
         'application/json': {
           /** Format: misskey:id */
-          channelId: string;
+          roomId: string;
+          /** Format: misskey:id */
+          userId: string;
         };
       };
     };
     responses: {
-      /** @description OK (without any results) */
-      204: {
-        content: never;
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': components['schemas']['ChatRoomMembership'];
+        };
       };
       /** @description Client error */
       400: {
@@ -12115,6 +16745,12 @@ export type operations = {
           'application/json': components['schemas']['Error'];
         };
       };
+      /** @description Too many requests */
+      429: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
       /** @description Internal server error */
       500: {
         content: {
@@ -12124,17 +16760,26 @@ export type operations = {
     };
   };
   /**
-   * channels/featured
+   * chat/rooms/create
    * @description No description provided.
    *
-   * **Credential required**: *No*
+   * **Credential required**: *Yes* / **Permission**: *write:chat*
    */
-  channels___featured: {
+  chat___rooms___create: {
+    requestBody: {
+      content: {
+        'application/json': {
+          name: string;
+          /** @default */
+          description?: string;
+        };
+      };
+    };
     responses: {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': components['schemas']['Channel'][];
+          'application/json': components['schemas']['ChatRoom'];
         };
       };
       /** @description Client error */
@@ -12161,6 +16806,12 @@ export type operations = {
           'application/json': components['schemas']['Error'];
         };
       };
+      /** @description Too many requests */
+      429: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
       /** @description Internal server error */
       500: {
         content: {
@@ -12170,17 +16821,17 @@ export type operations = {
     };
   };
   /**
-   * channels/follow
+   * chat/rooms/delete
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:channels*
+   * **Credential required**: *Yes* / **Permission**: *write:chat*
    */
-  channels___follow: {
+  chat___rooms___delete: {
     requestBody: {
       content: {
         'application/json': {
           /** Format: misskey:id */
-          channelId: string;
+          roomId: string;
         };
       };
     };
@@ -12222,21 +16873,21 @@ export type operations = {
     };
   };
   /**
-   * channels/followed
+   * chat/rooms/joining
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *read:channels*
+   * **Credential required**: *Yes* / **Permission**: *read:chat*
    */
-  channels___followed: {
+  chat___rooms___joining: {
     requestBody: {
       content: {
         'application/json': {
+          /** @default 30 */
+          limit?: number;
           /** Format: misskey:id */
           sinceId?: string;
           /** Format: misskey:id */
           untilId?: string;
-          /** @default 5 */
-          limit?: number;
         };
       };
     };
@@ -12244,7 +16895,7 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': components['schemas']['Channel'][];
+          'application/json': components['schemas']['ChatRoom'][];
         };
       };
       /** @description Client error */
@@ -12280,19 +16931,25 @@ export type operations = {
     };
   };
   /**
-   * channels/my-favorites
+   * chat/rooms/leave
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *read:channels*
+   * **Credential required**: *Yes* / **Permission**: *write:chat*
    */
-  'channels___my-favorites': {
-    responses: {
-      /** @description OK (with results) */
-      200: {
-        content: {
-          'application/json': components['schemas']['Channel'][];
+  chat___rooms___leave: {
+    requestBody: {
+      content: {
+        'application/json': {
+          /** Format: misskey:id */
+          roomId: string;
         };
       };
+    };
+    responses: {
+      /** @description OK (without any results) */
+      204: {
+        content: never;
+      };
       /** @description Client error */
       400: {
         content: {
@@ -12326,21 +16983,23 @@ export type operations = {
     };
   };
   /**
-   * channels/owned
+   * chat/rooms/members
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *read:channels*
+   * **Credential required**: *Yes* / **Permission**: *read:chat*
    */
-  channels___owned: {
+  chat___rooms___members: {
     requestBody: {
       content: {
         'application/json': {
+          /** Format: misskey:id */
+          roomId: string;
+          /** @default 30 */
+          limit?: number;
           /** Format: misskey:id */
           sinceId?: string;
           /** Format: misskey:id */
           untilId?: string;
-          /** @default 5 */
-          limit?: number;
         };
       };
     };
@@ -12348,7 +17007,7 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': components['schemas']['Channel'][];
+          'application/json': components['schemas']['ChatRoomMembership'][];
         };
       };
       /** @description Client error */
@@ -12384,27 +17043,21 @@ export type operations = {
     };
   };
   /**
-   * channels/search
+   * chat/rooms/owned
    * @description No description provided.
    *
-   * **Credential required**: *No*
+   * **Credential required**: *Yes* / **Permission**: *read:chat*
    */
-  channels___search: {
+  chat___rooms___owned: {
     requestBody: {
       content: {
         'application/json': {
-          query: string;
-          /**
-           * @default nameAndDescription
-           * @enum {string}
-           */
-          type?: 'nameAndDescription' | 'nameOnly';
+          /** @default 30 */
+          limit?: number;
           /** Format: misskey:id */
           sinceId?: string;
           /** Format: misskey:id */
           untilId?: string;
-          /** @default 5 */
-          limit?: number;
         };
       };
     };
@@ -12412,7 +17065,7 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': components['schemas']['Channel'][];
+          'application/json': components['schemas']['ChatRoom'][];
         };
       };
       /** @description Client error */
@@ -12448,26 +17101,26 @@ export type operations = {
     };
   };
   /**
-   * channels/show
+   * chat/rooms/remove-member
    * @description No description provided.
    *
-   * **Credential required**: *No*
+   * **Credential required**: *Yes* / **Permission**: *write:chat*
    */
-  channels___show: {
+  'chat___rooms___remove-member': {
     requestBody: {
       content: {
         'application/json': {
           /** Format: misskey:id */
-          channelId: string;
+          roomId: string;
+          /** Format: misskey:id */
+          userId: string;
         };
       };
     };
     responses: {
-      /** @description OK (with results) */
-      200: {
-        content: {
-          'application/json': components['schemas']['Channel'];
-        };
+      /** @description OK (without any results) */
+      204: {
+        content: never;
       };
       /** @description Client error */
       400: {
@@ -12502,27 +17155,17 @@ export type operations = {
     };
   };
   /**
-   * channels/timeline
+   * chat/rooms/show
    * @description No description provided.
    *
-   * **Credential required**: *No*
+   * **Credential required**: *Yes* / **Permission**: *read:chat*
    */
-  channels___timeline: {
+  chat___rooms___show: {
     requestBody: {
       content: {
         'application/json': {
           /** Format: misskey:id */
-          channelId: string;
-          /** @default 10 */
-          limit?: number;
-          /** Format: misskey:id */
-          sinceId?: string;
-          /** Format: misskey:id */
-          untilId?: string;
-          sinceDate?: number;
-          untilDate?: number;
-          /** @default false */
-          allowPartial?: boolean;
+          roomId: string;
         };
       };
     };
@@ -12530,7 +17173,7 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': components['schemas']['Note'][];
+          'application/json': components['schemas']['ChatRoom'];
         };
       };
       /** @description Client error */
@@ -12566,24 +17209,28 @@ export type operations = {
     };
   };
   /**
-   * channels/unfavorite
+   * chat/rooms/update
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:channels*
+   * **Credential required**: *Yes* / **Permission**: *write:chat*
    */
-  channels___unfavorite: {
+  chat___rooms___update: {
     requestBody: {
       content: {
         'application/json': {
           /** Format: misskey:id */
-          channelId: string;
+          roomId: string;
+          name?: string;
+          description?: string;
         };
       };
     };
     responses: {
-      /** @description OK (without any results) */
-      204: {
-        content: never;
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': components['schemas']['ChatRoom'];
+        };
       };
       /** @description Client error */
       400: {
@@ -12618,17 +17265,19 @@ export type operations = {
     };
   };
   /**
-   * channels/unfollow
+   * clips/add-note
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:channels*
+   * **Credential required**: *Yes* / **Permission**: *write:account*
    */
-  channels___unfollow: {
+  'clips___add-note': {
     requestBody: {
       content: {
         'application/json': {
           /** Format: misskey:id */
-          channelId: string;
+          clipId: string;
+          /** Format: misskey:id */
+          noteId: string;
         };
       };
     };
@@ -12661,6 +17310,12 @@ export type operations = {
           'application/json': components['schemas']['Error'];
         };
       };
+      /** @description Too many requests */
+      429: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
       /** @description Internal server error */
       500: {
         content: {
@@ -12670,26 +17325,19 @@ export type operations = {
     };
   };
   /**
-   * channels/update
+   * clips/create
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:channels*
+   * **Credential required**: *Yes* / **Permission**: *write:account*
    */
-  channels___update: {
+  clips___create: {
     requestBody: {
       content: {
         'application/json': {
-          /** Format: misskey:id */
-          channelId: string;
-          name?: string;
+          name: string;
+          /** @default false */
+          isPublic?: boolean;
           description?: string | null;
-          /** Format: misskey:id */
-          bannerId?: string | null;
-          isArchived?: boolean | null;
-          pinnedNoteIds?: string[];
-          color?: string;
-          isSensitive?: boolean | null;
-          allowRenoteToExternal?: boolean | null;
         };
       };
     };
@@ -12697,7 +17345,7 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': components['schemas']['Channel'];
+          'application/json': components['schemas']['Clip'];
         };
       };
       /** @description Client error */
@@ -12733,40 +17381,24 @@ export type operations = {
     };
   };
   /**
-   * charts/active-users
+   * clips/delete
    * @description No description provided.
    *
-   * **Credential required**: *No*
+   * **Credential required**: *Yes* / **Permission**: *write:account*
    */
-  'charts___active-users': {
+  clips___delete: {
     requestBody: {
       content: {
         'application/json': {
-          /** @enum {string} */
-          span: 'day' | 'hour';
-          /** @default 30 */
-          limit?: number;
-          /** @default null */
-          offset?: number | null;
+          /** Format: misskey:id */
+          clipId: string;
         };
       };
     };
     responses: {
-      /** @description OK (with results) */
-      200: {
-        content: {
-          'application/json': {
-            readWrite: number[];
-            read: number[];
-            write: number[];
-            registeredWithinWeek: number[];
-            registeredWithinMonth: number[];
-            registeredWithinYear: number[];
-            registeredOutsideWeek: number[];
-            registeredOutsideMonth: number[];
-            registeredOutsideYear: number[];
-          };
-        };
+      /** @description OK (without any results) */
+      204: {
+        content: never;
       };
       /** @description Client error */
       400: {
@@ -12801,34 +17433,24 @@ export type operations = {
     };
   };
   /**
-   * charts/ap-request
+   * clips/favorite
    * @description No description provided.
    *
-   * **Credential required**: *No*
+   * **Credential required**: *Yes* / **Permission**: *write:clip-favorite*
    */
-  'charts___ap-request': {
+  clips___favorite: {
     requestBody: {
       content: {
         'application/json': {
-          /** @enum {string} */
-          span: 'day' | 'hour';
-          /** @default 30 */
-          limit?: number;
-          /** @default null */
-          offset?: number | null;
+          /** Format: misskey:id */
+          clipId: string;
         };
       };
     };
     responses: {
-      /** @description OK (with results) */
-      200: {
-        content: {
-          'application/json': {
-            deliverFailed: number[];
-            deliverSucceeded: number[];
-            inboxReceived: number[];
-          };
-        };
+      /** @description OK (without any results) */
+      204: {
+        content: never;
       };
       /** @description Client error */
       400: {
@@ -12863,42 +17485,17 @@ export type operations = {
     };
   };
   /**
-   * charts/drive
+   * clips/list
    * @description No description provided.
    *
-   * **Credential required**: *No*
+   * **Credential required**: *Yes* / **Permission**: *read:account*
    */
-  charts___drive: {
-    requestBody: {
-      content: {
-        'application/json': {
-          /** @enum {string} */
-          span: 'day' | 'hour';
-          /** @default 30 */
-          limit?: number;
-          /** @default null */
-          offset?: number | null;
-        };
-      };
-    };
+  clips___list: {
     responses: {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': {
-            local: {
-              incCount: number[];
-              incSize: number[];
-              decCount: number[];
-              decSize: number[];
-            };
-            remote: {
-              incCount: number[];
-              incSize: number[];
-              decCount: number[];
-              decSize: number[];
-            };
-          };
+          'application/json': components['schemas']['Clip'][];
         };
       };
       /** @description Client error */
@@ -12934,38 +17531,17 @@ export type operations = {
     };
   };
   /**
-   * charts/federation
+   * clips/my-favorites
    * @description No description provided.
    *
-   * **Credential required**: *No*
+   * **Credential required**: *Yes* / **Permission**: *read:clip-favorite*
    */
-  charts___federation: {
-    requestBody: {
-      content: {
-        'application/json': {
-          /** @enum {string} */
-          span: 'day' | 'hour';
-          /** @default 30 */
-          limit?: number;
-          /** @default null */
-          offset?: number | null;
-        };
-      };
-    };
+  'clips___my-favorites': {
     responses: {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': {
-            deliveredInstances: number[];
-            inboxInstances: number[];
-            stalled: number[];
-            sub: number[];
-            pub: number[];
-            pubsub: number[];
-            subActive: number[];
-            pubActive: number[];
-          };
+          'application/json': components['schemas']['Clip'][];
         };
       };
       /** @description Client error */
@@ -13001,22 +17577,23 @@ export type operations = {
     };
   };
   /**
-   * charts/instance
+   * clips/notes
    * @description No description provided.
    *
-   * **Credential required**: *No*
+   * **Credential required**: *No* / **Permission**: *read:account*
    */
-  charts___instance: {
+  clips___notes: {
     requestBody: {
       content: {
         'application/json': {
-          /** @enum {string} */
-          span: 'day' | 'hour';
-          /** @default 30 */
+          /** Format: misskey:id */
+          clipId: string;
+          /** @default 10 */
           limit?: number;
-          /** @default null */
-          offset?: number | null;
-          host: string;
+          /** Format: misskey:id */
+          sinceId?: string;
+          /** Format: misskey:id */
+          untilId?: string;
         };
       };
     };
@@ -13024,46 +17601,7 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': {
-            requests: {
-              failed: number[];
-              succeeded: number[];
-              received: number[];
-            };
-            notes: {
-              total: number[];
-              inc: number[];
-              dec: number[];
-              diffs: {
-                normal: number[];
-                reply: number[];
-                renote: number[];
-                withFile: number[];
-              };
-            };
-            users: {
-              total: number[];
-              inc: number[];
-              dec: number[];
-            };
-            following: {
-              total: number[];
-              inc: number[];
-              dec: number[];
-            };
-            followers: {
-              total: number[];
-              inc: number[];
-              dec: number[];
-            };
-            drive: {
-              totalFiles: number[];
-              incFiles: number[];
-              decFiles: number[];
-              incUsage: number[];
-              decUsage: number[];
-            };
-          };
+          'application/json': components['schemas']['Note'][];
         };
       };
       /** @description Client error */
@@ -13099,53 +17637,26 @@ export type operations = {
     };
   };
   /**
-   * charts/notes
+   * clips/remove-note
    * @description No description provided.
    *
-   * **Credential required**: *No*
+   * **Credential required**: *Yes* / **Permission**: *write:account*
    */
-  charts___notes: {
+  'clips___remove-note': {
     requestBody: {
       content: {
         'application/json': {
-          /** @enum {string} */
-          span: 'day' | 'hour';
-          /** @default 30 */
-          limit?: number;
-          /** @default null */
-          offset?: number | null;
+          /** Format: misskey:id */
+          clipId: string;
+          /** Format: misskey:id */
+          noteId: string;
         };
       };
     };
     responses: {
-      /** @description OK (with results) */
-      200: {
-        content: {
-          'application/json': {
-            local: {
-              total: number[];
-              inc: number[];
-              dec: number[];
-              diffs: {
-                normal: number[];
-                reply: number[];
-                renote: number[];
-                withFile: number[];
-              };
-            };
-            remote: {
-              total: number[];
-              inc: number[];
-              dec: number[];
-              diffs: {
-                normal: number[];
-                reply: number[];
-                renote: number[];
-                withFile: number[];
-              };
-            };
-          };
-        };
+      /** @description OK (without any results) */
+      204: {
+        content: never;
       };
       /** @description Client error */
       400: {
@@ -13180,23 +17691,17 @@ export type operations = {
     };
   };
   /**
-   * charts/user/drive
+   * clips/show
    * @description No description provided.
    *
-   * **Credential required**: *No*
+   * **Credential required**: *No* / **Permission**: *read:account*
    */
-  charts___user___drive: {
+  clips___show: {
     requestBody: {
       content: {
         'application/json': {
-          /** @enum {string} */
-          span: 'day' | 'hour';
-          /** @default 30 */
-          limit?: number;
-          /** @default null */
-          offset?: number | null;
           /** Format: misskey:id */
-          userId: string;
+          clipId: string;
         };
       };
     };
@@ -13204,14 +17709,7 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': {
-            totalCount: number[];
-            totalSize: number[];
-            incCount: number[];
-            incSize: number[];
-            decCount: number[];
-            decSize: number[];
-          };
+          'application/json': components['schemas']['Clip'];
         };
       };
       /** @description Client error */
@@ -13247,57 +17745,24 @@ export type operations = {
     };
   };
   /**
-   * charts/user/following
+   * clips/unfavorite
    * @description No description provided.
    *
-   * **Credential required**: *No*
+   * **Credential required**: *Yes* / **Permission**: *write:clip-favorite*
    */
-  charts___user___following: {
+  clips___unfavorite: {
     requestBody: {
       content: {
         'application/json': {
-          /** @enum {string} */
-          span: 'day' | 'hour';
-          /** @default 30 */
-          limit?: number;
-          /** @default null */
-          offset?: number | null;
           /** Format: misskey:id */
-          userId: string;
+          clipId: string;
         };
       };
     };
     responses: {
-      /** @description OK (with results) */
-      200: {
-        content: {
-          'application/json': {
-            local: {
-              followings: {
-                total: number[];
-                inc: number[];
-                dec: number[];
-              };
-              followers: {
-                total: number[];
-                inc: number[];
-                dec: number[];
-              };
-            };
-            remote: {
-              followings: {
-                total: number[];
-                inc: number[];
-                dec: number[];
-              };
-              followers: {
-                total: number[];
-                inc: number[];
-                dec: number[];
-              };
-            };
-          };
-        };
+      /** @description OK (without any results) */
+      204: {
+        content: never;
       };
       /** @description Client error */
       400: {
@@ -13332,41 +17797,28 @@ export type operations = {
     };
   };
   /**
-   * charts/user/notes
+   * clips/update
    * @description No description provided.
    *
-   * **Credential required**: *No*
+   * **Credential required**: *Yes* / **Permission**: *write:account*
    */
-  charts___user___notes: {
+  clips___update: {
     requestBody: {
       content: {
         'application/json': {
-          /** @enum {string} */
-          span: 'day' | 'hour';
-          /** @default 30 */
-          limit?: number;
-          /** @default null */
-          offset?: number | null;
           /** Format: misskey:id */
-          userId: string;
-        };
-      };
-    };
-    responses: {
-      /** @description OK (with results) */
-      200: {
-        content: {
-          'application/json': {
-            total: number[];
-            inc: number[];
-            dec: number[];
-            diffs: {
-              normal: number[];
-              reply: number[];
-              renote: number[];
-              withFile: number[];
-            };
-          };
+          clipId: string;
+          name?: string;
+          isPublic?: boolean;
+          description?: string | null;
+        };
+      };
+    };
+    responses: {
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': components['schemas']['Clip'];
         };
       };
       /** @description Client error */
@@ -13402,39 +17854,19 @@ export type operations = {
     };
   };
   /**
-   * charts/user/pv
+   * drive
    * @description No description provided.
    *
-   * **Credential required**: *No*
+   * **Credential required**: *Yes* / **Permission**: *read:drive*
    */
-  charts___user___pv: {
-    requestBody: {
-      content: {
-        'application/json': {
-          /** @enum {string} */
-          span: 'day' | 'hour';
-          /** @default 30 */
-          limit?: number;
-          /** @default null */
-          offset?: number | null;
-          /** Format: misskey:id */
-          userId: string;
-        };
-      };
-    };
+  drive: {
     responses: {
       /** @description OK (with results) */
       200: {
         content: {
           'application/json': {
-            upv: {
-              user: number[];
-              visitor: number[];
-            };
-            pv: {
-              user: number[];
-              visitor: number[];
-            };
+            capacity: number;
+            usage: number;
           };
         };
       };
@@ -13471,23 +17903,29 @@ export type operations = {
     };
   };
   /**
-   * charts/user/reactions
+   * drive/files
    * @description No description provided.
    *
-   * **Credential required**: *No*
+   * **Credential required**: *Yes* / **Permission**: *read:drive*
    */
-  charts___user___reactions: {
+  drive___files: {
     requestBody: {
       content: {
         'application/json': {
-          /** @enum {string} */
-          span: 'day' | 'hour';
-          /** @default 30 */
+          /** @default 10 */
           limit?: number;
-          /** @default null */
-          offset?: number | null;
           /** Format: misskey:id */
-          userId: string;
+          sinceId?: string;
+          /** Format: misskey:id */
+          untilId?: string;
+          /**
+           * Format: misskey:id
+           * @default null
+           */
+          folderId?: string | null;
+          type?: string | null;
+          /** @enum {string|null} */
+          sort?: '+createdAt' | '-createdAt' | '+name' | '-name' | '+size' | '-size' | null;
         };
       };
     };
@@ -13495,14 +17933,7 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': {
-            local: {
-              count: number[];
-            };
-            remote: {
-              count: number[];
-            };
-          };
+          'application/json': components['schemas']['DriveFile'][];
         };
       };
       /** @description Client error */
@@ -13538,21 +17969,23 @@ export type operations = {
     };
   };
   /**
-   * charts/users
-   * @description No description provided.
+   * drive/files/attached-notes
+   * @description Find the notes to which the given file is attached.
    *
-   * **Credential required**: *No*
+   * **Credential required**: *Yes* / **Permission**: *read:drive*
    */
-  charts___users: {
+  'drive___files___attached-notes': {
     requestBody: {
       content: {
         'application/json': {
-          /** @enum {string} */
-          span: 'day' | 'hour';
-          /** @default 30 */
+          /** Format: misskey:id */
+          sinceId?: string;
+          /** Format: misskey:id */
+          untilId?: string;
+          /** @default 10 */
           limit?: number;
-          /** @default null */
-          offset?: number | null;
+          /** Format: misskey:id */
+          fileId: string;
         };
       };
     };
@@ -13560,18 +17993,7 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': {
-            local: {
-              total: number[];
-              inc: number[];
-              dec: number[];
-            };
-            remote: {
-              total: number[];
-              inc: number[];
-              dec: number[];
-            };
-          };
+          'application/json': components['schemas']['Note'][];
         };
       };
       /** @description Client error */
@@ -13607,26 +18029,25 @@ export type operations = {
     };
   };
   /**
-   * clips/add-note
-   * @description No description provided.
+   * drive/files/check-existence
+   * @description Check if a given file exists.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:account*
+   * **Credential required**: *Yes* / **Permission**: *read:drive*
    */
-  'clips___add-note': {
+  'drive___files___check-existence': {
     requestBody: {
       content: {
         'application/json': {
-          /** Format: misskey:id */
-          clipId: string;
-          /** Format: misskey:id */
-          noteId: string;
+          md5: string;
         };
       };
     };
     responses: {
-      /** @description OK (without any results) */
-      204: {
-        content: never;
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': boolean;
+        };
       };
       /** @description Client error */
       400: {
@@ -13652,12 +18073,6 @@ export type operations = {
           'application/json': components['schemas']['Error'];
         };
       };
-      /** @description Too many requests */
-      429: {
-        content: {
-          'application/json': components['schemas']['Error'];
-        };
-      };
       /** @description Internal server error */
       500: {
         content: {
@@ -13667,19 +18082,33 @@ export type operations = {
     };
   };
   /**
-   * clips/create
-   * @description No description provided.
+   * drive/files/create
+   * @description Upload a new drive file.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:account*
+   * **Credential required**: *Yes* / **Permission**: *write:drive*
    */
-  clips___create: {
+  drive___files___create: {
     requestBody: {
       content: {
-        'application/json': {
-          name: string;
+        'multipart/form-data': {
+          /**
+           * Format: misskey:id
+           * @default null
+           */
+          folderId?: string | null;
+          /** @default null */
+          name?: string | null;
+          /** @default null */
+          comment?: string | null;
           /** @default false */
-          isPublic?: boolean;
-          description?: string | null;
+          isSensitive?: boolean;
+          /** @default false */
+          force?: boolean;
+          /**
+           * Format: binary
+           * @description The file contents.
+           */
+          file: Blob;
         };
       };
     };
@@ -13687,7 +18116,7 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': components['schemas']['Clip'];
+          'application/json': components['schemas']['DriveFile'];
         };
       };
       /** @description Client error */
@@ -13714,6 +18143,12 @@ export type operations = {
           'application/json': components['schemas']['Error'];
         };
       };
+      /** @description Too many requests */
+      429: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
       /** @description Internal server error */
       500: {
         content: {
@@ -13723,17 +18158,17 @@ export type operations = {
     };
   };
   /**
-   * clips/delete
-   * @description No description provided.
+   * drive/files/delete
+   * @description Delete an existing drive file.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:account*
+   * **Credential required**: *Yes* / **Permission**: *write:drive*
    */
-  clips___delete: {
+  drive___files___delete: {
     requestBody: {
       content: {
         'application/json': {
           /** Format: misskey:id */
-          clipId: string;
+          fileId: string;
         };
       };
     };
@@ -13775,24 +18210,30 @@ export type operations = {
     };
   };
   /**
-   * clips/favorite
-   * @description No description provided.
+   * drive/files/find
+   * @description Search for a drive file by the given parameters.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:clip-favorite*
+   * **Credential required**: *Yes* / **Permission**: *read:drive*
    */
-  clips___favorite: {
+  drive___files___find: {
     requestBody: {
       content: {
         'application/json': {
-          /** Format: misskey:id */
-          clipId: string;
+          name: string;
+          /**
+           * Format: misskey:id
+           * @default null
+           */
+          folderId?: string | null;
         };
       };
     };
     responses: {
-      /** @description OK (without any results) */
-      204: {
-        content: never;
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': components['schemas']['DriveFile'][];
+        };
       };
       /** @description Client error */
       400: {
@@ -13827,17 +18268,24 @@ export type operations = {
     };
   };
   /**
-   * clips/list
-   * @description No description provided.
+   * drive/files/find-by-hash
+   * @description Search for a drive file by a hash of the contents.
    *
-   * **Credential required**: *Yes* / **Permission**: *read:account*
+   * **Credential required**: *Yes* / **Permission**: *read:drive*
    */
-  clips___list: {
+  'drive___files___find-by-hash': {
+    requestBody: {
+      content: {
+        'application/json': {
+          md5: string;
+        };
+      };
+    };
     responses: {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': components['schemas']['Clip'][];
+          'application/json': components['schemas']['DriveFile'][];
         };
       };
       /** @description Client error */
@@ -13873,17 +18321,26 @@ export type operations = {
     };
   };
   /**
-   * clips/my-favorites
-   * @description No description provided.
+   * drive/files/show
+   * @description Show the properties of a drive file.
    *
-   * **Credential required**: *Yes* / **Permission**: *read:clip-favorite*
+   * **Credential required**: *Yes* / **Permission**: *read:drive*
    */
-  'clips___my-favorites': {
+  drive___files___show: {
+    requestBody: {
+      content: {
+        'application/json': {
+          /** Format: misskey:id */
+          fileId?: string;
+          url?: string;
+        };
+      };
+    };
     responses: {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': components['schemas']['Clip'][];
+          'application/json': components['schemas']['DriveFile'];
         };
       };
       /** @description Client error */
@@ -13919,23 +18376,22 @@ export type operations = {
     };
   };
   /**
-   * clips/notes
-   * @description No description provided.
+   * drive/files/update
+   * @description Update the properties of a drive file.
    *
-   * **Credential required**: *No* / **Permission**: *read:account*
+   * **Credential required**: *Yes* / **Permission**: *write:drive*
    */
-  clips___notes: {
+  drive___files___update: {
     requestBody: {
       content: {
         'application/json': {
           /** Format: misskey:id */
-          clipId: string;
-          /** @default 10 */
-          limit?: number;
-          /** Format: misskey:id */
-          sinceId?: string;
+          fileId: string;
           /** Format: misskey:id */
-          untilId?: string;
+          folderId?: string | null;
+          name?: string;
+          isSensitive?: boolean;
+          comment?: string | null;
         };
       };
     };
@@ -13943,7 +18399,7 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': components['schemas']['Note'][];
+          'application/json': components['schemas']['DriveFile'];
         };
       };
       /** @description Client error */
@@ -13979,19 +18435,29 @@ export type operations = {
     };
   };
   /**
-   * clips/remove-note
-   * @description No description provided.
+   * drive/files/upload-from-url
+   * @description Request the server to download a new drive file from the specified URL.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:account*
+   * **Credential required**: *Yes* / **Permission**: *write:drive*
    */
-  'clips___remove-note': {
+  'drive___files___upload-from-url': {
     requestBody: {
       content: {
         'application/json': {
-          /** Format: misskey:id */
-          clipId: string;
-          /** Format: misskey:id */
-          noteId: string;
+          url: string;
+          /**
+           * Format: misskey:id
+           * @default null
+           */
+          folderId?: string | null;
+          /** @default false */
+          isSensitive?: boolean;
+          /** @default null */
+          comment?: string | null;
+          /** @default null */
+          marker?: string | null;
+          /** @default false */
+          force?: boolean;
         };
       };
     };
@@ -14024,6 +18490,12 @@ export type operations = {
           'application/json': components['schemas']['Error'];
         };
       };
+      /** @description Too many requests */
+      429: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
       /** @description Internal server error */
       500: {
         content: {
@@ -14033,17 +18505,26 @@ export type operations = {
     };
   };
   /**
-   * clips/show
+   * drive/folders
    * @description No description provided.
    *
-   * **Credential required**: *No* / **Permission**: *read:account*
+   * **Credential required**: *Yes* / **Permission**: *read:drive*
    */
-  clips___show: {
+  drive___folders: {
     requestBody: {
       content: {
         'application/json': {
+          /** @default 10 */
+          limit?: number;
           /** Format: misskey:id */
-          clipId: string;
+          sinceId?: string;
+          /** Format: misskey:id */
+          untilId?: string;
+          /**
+           * Format: misskey:id
+           * @default null
+           */
+          folderId?: string | null;
         };
       };
     };
@@ -14051,7 +18532,7 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': components['schemas']['Clip'];
+          'application/json': components['schemas']['DriveFolder'][];
         };
       };
       /** @description Client error */
@@ -14087,24 +18568,28 @@ export type operations = {
     };
   };
   /**
-   * clips/unfavorite
+   * drive/folders/create
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:clip-favorite*
+   * **Credential required**: *Yes* / **Permission**: *write:drive*
    */
-  clips___unfavorite: {
+  drive___folders___create: {
     requestBody: {
       content: {
         'application/json': {
+          /** @default Untitled */
+          name?: string;
           /** Format: misskey:id */
-          clipId: string;
+          parentId?: string | null;
         };
       };
     };
     responses: {
-      /** @description OK (without any results) */
-      204: {
-        content: never;
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': components['schemas']['DriveFolder'];
+        };
       };
       /** @description Client error */
       400: {
@@ -14130,6 +18615,12 @@ export type operations = {
           'application/json': components['schemas']['Error'];
         };
       };
+      /** @description Too many requests */
+      429: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
       /** @description Internal server error */
       500: {
         content: {
@@ -14139,29 +18630,24 @@ export type operations = {
     };
   };
   /**
-   * clips/update
+   * drive/folders/delete
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:account*
+   * **Credential required**: *Yes* / **Permission**: *write:drive*
    */
-  clips___update: {
+  drive___folders___delete: {
     requestBody: {
       content: {
         'application/json': {
           /** Format: misskey:id */
-          clipId: string;
-          name?: string;
-          isPublic?: boolean;
-          description?: string | null;
+          folderId: string;
         };
       };
     };
     responses: {
-      /** @description OK (with results) */
-      200: {
-        content: {
-          'application/json': components['schemas']['Clip'];
-        };
+      /** @description OK (without any results) */
+      204: {
+        content: never;
       };
       /** @description Client error */
       400: {
@@ -14196,20 +18682,29 @@ export type operations = {
     };
   };
   /**
-   * drive
+   * drive/folders/find
    * @description No description provided.
    *
    * **Credential required**: *Yes* / **Permission**: *read:drive*
    */
-  drive: {
+  drive___folders___find: {
+    requestBody: {
+      content: {
+        'application/json': {
+          name: string;
+          /**
+           * Format: misskey:id
+           * @default null
+           */
+          parentId?: string | null;
+        };
+      };
+    };
     responses: {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': {
-            capacity: number;
-            usage: number;
-          };
+          'application/json': components['schemas']['DriveFolder'][];
         };
       };
       /** @description Client error */
@@ -14245,29 +18740,17 @@ export type operations = {
     };
   };
   /**
-   * drive/files
+   * drive/folders/show
    * @description No description provided.
    *
    * **Credential required**: *Yes* / **Permission**: *read:drive*
    */
-  drive___files: {
+  drive___folders___show: {
     requestBody: {
       content: {
         'application/json': {
-          /** @default 10 */
-          limit?: number;
-          /** Format: misskey:id */
-          sinceId?: string;
           /** Format: misskey:id */
-          untilId?: string;
-          /**
-           * Format: misskey:id
-           * @default null
-           */
-          folderId?: string | null;
-          type?: string | null;
-          /** @enum {string|null} */
-          sort?: '+createdAt' | '-createdAt' | '+name' | '-name' | '+size' | '-size' | null;
+          folderId: string;
         };
       };
     };
@@ -14275,7 +18758,7 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': components['schemas']['DriveFile'][];
+          'application/json': components['schemas']['DriveFolder'];
         };
       };
       /** @description Client error */
@@ -14311,23 +18794,20 @@ export type operations = {
     };
   };
   /**
-   * drive/files/attached-notes
-   * @description Find the notes to which the given file is attached.
+   * drive/folders/update
+   * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *read:drive*
+   * **Credential required**: *Yes* / **Permission**: *write:drive*
    */
-  'drive___files___attached-notes': {
+  drive___folders___update: {
     requestBody: {
       content: {
         'application/json': {
           /** Format: misskey:id */
-          sinceId?: string;
-          /** Format: misskey:id */
-          untilId?: string;
-          /** @default 10 */
-          limit?: number;
+          folderId: string;
+          name?: string;
           /** Format: misskey:id */
-          fileId: string;
+          parentId?: string | null;
         };
       };
     };
@@ -14335,7 +18815,7 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': components['schemas']['Note'][];
+          'application/json': components['schemas']['DriveFolder'];
         };
       };
       /** @description Client error */
@@ -14371,16 +18851,22 @@ export type operations = {
     };
   };
   /**
-   * drive/files/check-existence
-   * @description Check if a given file exists.
+   * drive/stream
+   * @description No description provided.
    *
    * **Credential required**: *Yes* / **Permission**: *read:drive*
    */
-  'drive___files___check-existence': {
+  drive___stream: {
     requestBody: {
       content: {
         'application/json': {
-          md5: string;
+          /** @default 10 */
+          limit?: number;
+          /** Format: misskey:id */
+          sinceId?: string;
+          /** Format: misskey:id */
+          untilId?: string;
+          type?: string;
         };
       };
     };
@@ -14388,7 +18874,7 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': boolean;
+          'application/json': components['schemas']['DriveFile'][];
         };
       };
       /** @description Client error */
@@ -14424,33 +18910,16 @@ export type operations = {
     };
   };
   /**
-   * drive/files/create
-   * @description Upload a new drive file.
+   * email-address/available
+   * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:drive*
+   * **Credential required**: *No*
    */
-  drive___files___create: {
+  'email-address___available': {
     requestBody: {
       content: {
-        'multipart/form-data': {
-          /**
-           * Format: misskey:id
-           * @default null
-           */
-          folderId?: string | null;
-          /** @default null */
-          name?: string | null;
-          /** @default null */
-          comment?: string | null;
-          /** @default false */
-          isSensitive?: boolean;
-          /** @default false */
-          force?: boolean;
-          /**
-           * Format: binary
-           * @description The file contents.
-           */
-          file: Blob;
+        'application/json': {
+          emailAddress: string;
         };
       };
     };
@@ -14458,7 +18927,10 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': components['schemas']['DriveFile'];
+          'application/json': {
+            available: boolean;
+            reason: string | null;
+          };
         };
       };
       /** @description Client error */
@@ -14485,12 +18957,6 @@ export type operations = {
           'application/json': components['schemas']['Error'];
         };
       };
-      /** @description Too many requests */
-      429: {
-        content: {
-          'application/json': components['schemas']['Error'];
-        };
-      };
       /** @description Internal server error */
       500: {
         content: {
@@ -14500,24 +18966,25 @@ export type operations = {
     };
   };
   /**
-   * drive/files/delete
-   * @description Delete an existing drive file.
+   * emoji
+   * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:drive*
+   * **Credential required**: *No*
    */
-  drive___files___delete: {
+  emoji: {
     requestBody: {
       content: {
         'application/json': {
-          /** Format: misskey:id */
-          fileId: string;
+          name: string;
         };
       };
     };
     responses: {
-      /** @description OK (without any results) */
-      204: {
-        content: never;
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': components['schemas']['EmojiDetailed'];
+        };
       };
       /** @description Client error */
       400: {
@@ -14552,29 +19019,19 @@ export type operations = {
     };
   };
   /**
-   * drive/files/find
-   * @description Search for a drive file by the given parameters.
+   * emojis
+   * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *read:drive*
+   * **Credential required**: *No*
    */
-  drive___files___find: {
-    requestBody: {
-      content: {
-        'application/json': {
-          name: string;
-          /**
-           * Format: misskey:id
-           * @default null
-           */
-          folderId?: string | null;
-        };
-      };
-    };
+  emojis: {
     responses: {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': components['schemas']['DriveFile'][];
+          'application/json': {
+            emojis: components['schemas']['EmojiSimple'][];
+          };
         };
       };
       /** @description Client error */
@@ -14610,16 +19067,16 @@ export type operations = {
     };
   };
   /**
-   * drive/files/find-by-hash
-   * @description Search for a drive file by a hash of the contents.
+   * endpoint
+   * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *read:drive*
+   * **Credential required**: *No*
    */
-  'drive___files___find-by-hash': {
+  endpoint: {
     requestBody: {
       content: {
         'application/json': {
-          md5: string;
+          endpoint: string;
         };
       };
     };
@@ -14627,9 +19084,18 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': components['schemas']['DriveFile'][];
+          'application/json': {
+            params: {
+                name: string;
+                type: string;
+              }[];
+          } | null;
         };
       };
+      /** @description OK (without any results) */
+      204: {
+        content: never;
+      };
       /** @description Client error */
       400: {
         content: {
@@ -14663,26 +19129,17 @@ export type operations = {
     };
   };
   /**
-   * drive/files/show
-   * @description Show the properties of a drive file.
+   * endpoints
+   * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *read:drive*
+   * **Credential required**: *No*
    */
-  drive___files___show: {
-    requestBody: {
-      content: {
-        'application/json': {
-          /** Format: misskey:id */
-          fileId?: string;
-          url?: string;
-        };
-      };
-    };
+  endpoints: {
     responses: {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': components['schemas']['DriveFile'];
+          'application/json': string[];
         };
       };
       /** @description Client error */
@@ -14718,31 +19175,17 @@ export type operations = {
     };
   };
   /**
-   * drive/files/update
-   * @description Update the properties of a drive file.
+   * export-custom-emojis
+   * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:drive*
+   * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
+   * **Credential required**: *Yes*
    */
-  drive___files___update: {
-    requestBody: {
-      content: {
-        'application/json': {
-          /** Format: misskey:id */
-          fileId: string;
-          /** Format: misskey:id */
-          folderId?: string | null;
-          name?: string;
-          isSensitive?: boolean;
-          comment?: string | null;
-        };
-      };
-    };
+  'export-custom-emojis': {
     responses: {
-      /** @description OK (with results) */
-      200: {
-        content: {
-          'application/json': components['schemas']['DriveFile'];
-        };
+      /** @description OK (without any results) */
+      204: {
+        content: never;
       };
       /** @description Client error */
       400: {
@@ -14768,6 +19211,12 @@ export type operations = {
           'application/json': components['schemas']['Error'];
         };
       };
+      /** @description Too many requests */
+      429: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
       /** @description Internal server error */
       500: {
         content: {
@@ -14777,36 +19226,31 @@ export type operations = {
     };
   };
   /**
-   * drive/files/upload-from-url
-   * @description Request the server to download a new drive file from the specified URL.
+   * federation/followers
+   * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:drive*
+   * **Credential required**: *No*
    */
-  'drive___files___upload-from-url': {
+  federation___followers: {
     requestBody: {
       content: {
         'application/json': {
-          url: string;
-          /**
-           * Format: misskey:id
-           * @default null
-           */
-          folderId?: string | null;
-          /** @default false */
-          isSensitive?: boolean;
-          /** @default null */
-          comment?: string | null;
-          /** @default null */
-          marker?: string | null;
-          /** @default false */
-          force?: boolean;
+          host: string;
+          /** Format: misskey:id */
+          sinceId?: string;
+          /** Format: misskey:id */
+          untilId?: string;
+          /** @default 10 */
+          limit?: number;
         };
       };
     };
     responses: {
-      /** @description OK (without any results) */
-      204: {
-        content: never;
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': components['schemas']['Following'][];
+        };
       };
       /** @description Client error */
       400: {
@@ -14832,12 +19276,6 @@ export type operations = {
           'application/json': components['schemas']['Error'];
         };
       };
-      /** @description Too many requests */
-      429: {
-        content: {
-          'application/json': components['schemas']['Error'];
-        };
-      };
       /** @description Internal server error */
       500: {
         content: {
@@ -14847,26 +19285,22 @@ export type operations = {
     };
   };
   /**
-   * drive/folders
+   * federation/following
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *read:drive*
+   * **Credential required**: *No*
    */
-  drive___folders: {
+  federation___following: {
     requestBody: {
       content: {
         'application/json': {
-          /** @default 10 */
-          limit?: number;
+          host: string;
           /** Format: misskey:id */
           sinceId?: string;
           /** Format: misskey:id */
           untilId?: string;
-          /**
-           * Format: misskey:id
-           * @default null
-           */
-          folderId?: string | null;
+          /** @default 10 */
+          limit?: number;
         };
       };
     };
@@ -14874,7 +19308,7 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': components['schemas']['DriveFolder'][];
+          'application/json': components['schemas']['Following'][];
         };
       };
       /** @description Client error */
@@ -14910,19 +19344,30 @@ export type operations = {
     };
   };
   /**
-   * drive/folders/create
+   * federation/instances
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:drive*
+   * **Credential required**: *No*
    */
-  drive___folders___create: {
+  federation___instances: {
     requestBody: {
       content: {
         'application/json': {
-          /** @default Untitled */
-          name?: string;
-          /** Format: misskey:id */
-          parentId?: string | null;
+          /** @description Omit or use `null` to not filter by host. */
+          host?: string | null;
+          blocked?: boolean | null;
+          notResponding?: boolean | null;
+          suspended?: boolean | null;
+          silenced?: boolean | null;
+          federating?: boolean | null;
+          subscribing?: boolean | null;
+          publishing?: boolean | null;
+          /** @default 30 */
+          limit?: number;
+          /** @default 0 */
+          offset?: number;
+          /** @enum {string|null} */
+          sort?: '+pubSub' | '-pubSub' | '+notes' | '-notes' | '+users' | '-users' | '+following' | '-following' | '+followers' | '-followers' | '+firstRetrievedAt' | '-firstRetrievedAt' | '+latestRequestReceivedAt' | '-latestRequestReceivedAt' | null;
         };
       };
     };
@@ -14930,7 +19375,7 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': components['schemas']['DriveFolder'];
+          'application/json': components['schemas']['FederationInstance'][];
         };
       };
       /** @description Client error */
@@ -14957,12 +19402,6 @@ export type operations = {
           'application/json': components['schemas']['Error'];
         };
       };
-      /** @description Too many requests */
-      429: {
-        content: {
-          'application/json': components['schemas']['Error'];
-        };
-      };
       /** @description Internal server error */
       500: {
         content: {
@@ -14972,21 +19411,26 @@ export type operations = {
     };
   };
   /**
-   * drive/folders/delete
+   * federation/show-instance
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:drive*
+   * **Credential required**: *No*
    */
-  drive___folders___delete: {
+  'federation___show-instance': {
     requestBody: {
       content: {
         'application/json': {
-          /** Format: misskey:id */
-          folderId: string;
+          host: string;
         };
       };
     };
     responses: {
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': components['schemas']['FederationInstance'] | null;
+        };
+      };
       /** @description OK (without any results) */
       204: {
         content: never;
@@ -15024,21 +19468,17 @@ export type operations = {
     };
   };
   /**
-   * drive/folders/find
+   * federation/stats
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *read:drive*
+   * **Credential required**: *No*
    */
-  drive___folders___find: {
+  federation___stats: {
     requestBody: {
       content: {
         'application/json': {
-          name: string;
-          /**
-           * Format: misskey:id
-           * @default null
-           */
-          parentId?: string | null;
+          /** @default 10 */
+          limit?: number;
         };
       };
     };
@@ -15046,7 +19486,12 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': components['schemas']['DriveFolder'][];
+          'application/json': {
+            topSubInstances: components['schemas']['FederationInstance'][];
+            otherFollowersCount: number;
+            topPubInstances: components['schemas']['FederationInstance'][];
+            otherFollowingCount: number;
+          };
         };
       };
       /** @description Client error */
@@ -15082,26 +19527,24 @@ export type operations = {
     };
   };
   /**
-   * drive/folders/show
+   * federation/update-remote-user
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *read:drive*
+   * **Credential required**: *No*
    */
-  drive___folders___show: {
+  'federation___update-remote-user': {
     requestBody: {
       content: {
         'application/json': {
           /** Format: misskey:id */
-          folderId: string;
+          userId: string;
         };
       };
     };
     responses: {
-      /** @description OK (with results) */
-      200: {
-        content: {
-          'application/json': components['schemas']['DriveFolder'];
-        };
+      /** @description OK (without any results) */
+      204: {
+        content: never;
       };
       /** @description Client error */
       400: {
@@ -15136,20 +19579,22 @@ export type operations = {
     };
   };
   /**
-   * drive/folders/update
+   * federation/users
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:drive*
+   * **Credential required**: *No*
    */
-  drive___folders___update: {
+  federation___users: {
     requestBody: {
       content: {
         'application/json': {
+          host: string;
           /** Format: misskey:id */
-          folderId: string;
-          name?: string;
+          sinceId?: string;
           /** Format: misskey:id */
-          parentId?: string | null;
+          untilId?: string;
+          /** @default 10 */
+          limit?: number;
         };
       };
     };
@@ -15157,7 +19602,7 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': components['schemas']['DriveFolder'];
+          'application/json': components['schemas']['UserDetailedNotMe'][];
         };
       };
       /** @description Client error */
@@ -15193,22 +19638,18 @@ export type operations = {
     };
   };
   /**
-   * drive/stream
+   * fetch-external-resources
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *read:drive*
-   */
-  drive___stream: {
-    requestBody: {
-      content: {
-        'application/json': {
-          /** @default 10 */
-          limit?: number;
-          /** Format: misskey:id */
-          sinceId?: string;
-          /** Format: misskey:id */
-          untilId?: string;
-          type?: string;
+   * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
+   * **Credential required**: *Yes*
+   */
+  'fetch-external-resources': {
+    requestBody: {
+      content: {
+        'application/json': {
+          url: string;
+          hash: string;
         };
       };
     };
@@ -15216,7 +19657,10 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': components['schemas']['DriveFile'][];
+          'application/json': {
+            type: string;
+            data: string;
+          };
         };
       };
       /** @description Client error */
@@ -15243,6 +19687,12 @@ export type operations = {
           'application/json': components['schemas']['Error'];
         };
       };
+      /** @description Too many requests */
+      429: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
       /** @description Internal server error */
       500: {
         content: {
@@ -15252,16 +19702,16 @@ export type operations = {
     };
   };
   /**
-   * email-address/available
+   * fetch-rss
    * @description No description provided.
    *
    * **Credential required**: *No*
    */
-  'email-address___available': {
+  'fetch-rss': {
     requestBody: {
       content: {
         'application/json': {
-          emailAddress: string;
+          url: string;
         };
       };
     };
@@ -15270,8 +19720,52 @@ export type operations = {
       200: {
         content: {
           'application/json': {
-            available: boolean;
-            reason: string | null;
+            image?: {
+              link?: string;
+              url: string;
+              title?: string;
+            };
+            paginationLinks?: {
+              self?: string;
+              first?: string;
+              next?: string;
+              last?: string;
+              prev?: string;
+            };
+            link?: string;
+            title?: string;
+            items: {
+                link?: string;
+                guid?: string;
+                title?: string;
+                pubDate?: string;
+                creator?: string;
+                summary?: string;
+                content?: string;
+                isoDate?: string;
+                categories?: string[];
+                contentSnippet?: string;
+                enclosure?: {
+                  url: string;
+                  length?: number;
+                  type?: string;
+                };
+              }[];
+            feedUrl?: string;
+            description?: string;
+            itunes?: {
+              image?: string;
+              owner?: {
+                name?: string;
+                email?: string;
+              };
+              author?: string;
+              summary?: string;
+              explicit?: string;
+              categories?: string[];
+              keywords?: string[];
+              [key: string]: unknown;
+            };
           };
         };
       };
@@ -15308,16 +19802,24 @@ export type operations = {
     };
   };
   /**
-   * emoji
+   * flash/create
    * @description No description provided.
    *
-   * **Credential required**: *No*
+   * **Credential required**: *Yes* / **Permission**: *write:flash*
    */
-  emoji: {
+  flash___create: {
     requestBody: {
       content: {
         'application/json': {
-          name: string;
+          title: string;
+          summary: string;
+          script: string;
+          permissions: string[];
+          /**
+           * @default public
+           * @enum {string}
+           */
+          visibility?: 'public' | 'private';
         };
       };
     };
@@ -15325,7 +19827,7 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': components['schemas']['EmojiDetailed'];
+          'application/json': components['schemas']['Flash'];
         };
       };
       /** @description Client error */
@@ -15352,6 +19854,12 @@ export type operations = {
           'application/json': components['schemas']['Error'];
         };
       };
+      /** @description Too many requests */
+      429: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
       /** @description Internal server error */
       500: {
         content: {
@@ -15361,21 +19869,25 @@ export type operations = {
     };
   };
   /**
-   * emojis
+   * flash/delete
    * @description No description provided.
    *
-   * **Credential required**: *No*
+   * **Credential required**: *Yes* / **Permission**: *write:flash*
    */
-  emojis: {
-    responses: {
-      /** @description OK (with results) */
-      200: {
-        content: {
-          'application/json': {
-            emojis: components['schemas']['EmojiSimple'][];
-          };
+  flash___delete: {
+    requestBody: {
+      content: {
+        'application/json': {
+          /** Format: misskey:id */
+          flashId: string;
         };
       };
+    };
+    responses: {
+      /** @description OK (without any results) */
+      204: {
+        content: never;
+      };
       /** @description Client error */
       400: {
         content: {
@@ -15409,16 +19921,19 @@ export type operations = {
     };
   };
   /**
-   * endpoint
+   * flash/featured
    * @description No description provided.
    *
    * **Credential required**: *No*
    */
-  endpoint: {
+  flash___featured: {
     requestBody: {
       content: {
         'application/json': {
-          endpoint: string;
+          /** @default 0 */
+          offset?: number;
+          /** @default 10 */
+          limit?: number;
         };
       };
     };
@@ -15426,18 +19941,9 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': {
-            params: {
-                name: string;
-                type: string;
-              }[];
-          } | null;
+          'application/json': components['schemas']['Flash'][];
         };
       };
-      /** @description OK (without any results) */
-      204: {
-        content: never;
-      };
       /** @description Client error */
       400: {
         content: {
@@ -15471,19 +19977,25 @@ export type operations = {
     };
   };
   /**
-   * endpoints
+   * flash/like
    * @description No description provided.
    *
-   * **Credential required**: *No*
+   * **Credential required**: *Yes* / **Permission**: *write:flash-likes*
    */
-  endpoints: {
-    responses: {
-      /** @description OK (with results) */
-      200: {
-        content: {
-          'application/json': string[];
+  flash___like: {
+    requestBody: {
+      content: {
+        'application/json': {
+          /** Format: misskey:id */
+          flashId: string;
         };
       };
+    };
+    responses: {
+      /** @description OK (without any results) */
+      204: {
+        content: never;
+      };
       /** @description Client error */
       400: {
         content: {
@@ -15517,17 +20029,30 @@ export type operations = {
     };
   };
   /**
-   * export-custom-emojis
+   * flash/my
    * @description No description provided.
    *
-   * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
-   * **Credential required**: *Yes*
+   * **Credential required**: *Yes* / **Permission**: *read:flash*
    */
-  'export-custom-emojis': {
+  flash___my: {
+    requestBody: {
+      content: {
+        'application/json': {
+          /** @default 10 */
+          limit?: number;
+          /** Format: misskey:id */
+          sinceId?: string;
+          /** Format: misskey:id */
+          untilId?: string;
+        };
+      };
+    };
     responses: {
-      /** @description OK (without any results) */
-      204: {
-        content: never;
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': components['schemas']['Flash'][];
+        };
       };
       /** @description Client error */
       400: {
@@ -15553,12 +20078,6 @@ export type operations = {
           'application/json': components['schemas']['Error'];
         };
       };
-      /** @description Too many requests */
-      429: {
-        content: {
-          'application/json': components['schemas']['Error'];
-        };
-      };
       /** @description Internal server error */
       500: {
         content: {
@@ -15568,22 +20087,21 @@ export type operations = {
     };
   };
   /**
-   * federation/followers
+   * flash/my-likes
    * @description No description provided.
    *
-   * **Credential required**: *No*
+   * **Credential required**: *Yes* / **Permission**: *read:flash-likes*
    */
-  federation___followers: {
+  'flash___my-likes': {
     requestBody: {
       content: {
         'application/json': {
-          host: string;
+          /** @default 10 */
+          limit?: number;
           /** Format: misskey:id */
           sinceId?: string;
           /** Format: misskey:id */
           untilId?: string;
-          /** @default 10 */
-          limit?: number;
         };
       };
     };
@@ -15591,7 +20109,11 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': components['schemas']['Following'][];
+          'application/json': {
+              /** Format: id */
+              id: string;
+              flash: components['schemas']['Flash'];
+            }[];
         };
       };
       /** @description Client error */
@@ -15627,22 +20149,17 @@ export type operations = {
     };
   };
   /**
-   * federation/following
+   * flash/show
    * @description No description provided.
    *
    * **Credential required**: *No*
    */
-  federation___following: {
+  flash___show: {
     requestBody: {
       content: {
         'application/json': {
-          host: string;
-          /** Format: misskey:id */
-          sinceId?: string;
           /** Format: misskey:id */
-          untilId?: string;
-          /** @default 10 */
-          limit?: number;
+          flashId: string;
         };
       };
     };
@@ -15650,7 +20167,7 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': components['schemas']['Following'][];
+          'application/json': components['schemas']['Flash'];
         };
       };
       /** @description Client error */
@@ -15686,40 +20203,25 @@ export type operations = {
     };
   };
   /**
-   * federation/instances
+   * flash/unlike
    * @description No description provided.
    *
-   * **Credential required**: *No*
+   * **Credential required**: *Yes* / **Permission**: *write:flash-likes*
    */
-  federation___instances: {
+  flash___unlike: {
     requestBody: {
       content: {
         'application/json': {
-          /** @description Omit or use `null` to not filter by host. */
-          host?: string | null;
-          blocked?: boolean | null;
-          notResponding?: boolean | null;
-          suspended?: boolean | null;
-          silenced?: boolean | null;
-          federating?: boolean | null;
-          subscribing?: boolean | null;
-          publishing?: boolean | null;
-          /** @default 30 */
-          limit?: number;
-          /** @default 0 */
-          offset?: number;
-          /** @enum {string|null} */
-          sort?: '+pubSub' | '-pubSub' | '+notes' | '-notes' | '+users' | '-users' | '+following' | '-following' | '+followers' | '-followers' | '+firstRetrievedAt' | '-firstRetrievedAt' | '+latestRequestReceivedAt' | '-latestRequestReceivedAt' | null;
-        };
-      };
-    };
-    responses: {
-      /** @description OK (with results) */
-      200: {
-        content: {
-          'application/json': components['schemas']['FederationInstance'][];
+          /** Format: misskey:id */
+          flashId: string;
         };
       };
+    };
+    responses: {
+      /** @description OK (without any results) */
+      204: {
+        content: never;
+      };
       /** @description Client error */
       400: {
         content: {
@@ -15753,26 +20255,27 @@ export type operations = {
     };
   };
   /**
-   * federation/show-instance
+   * flash/update
    * @description No description provided.
    *
-   * **Credential required**: *No*
+   * **Credential required**: *Yes* / **Permission**: *write:flash*
    */
-  'federation___show-instance': {
+  flash___update: {
     requestBody: {
       content: {
         'application/json': {
-          host: string;
+          /** Format: misskey:id */
+          flashId: string;
+          title?: string;
+          summary?: string;
+          script?: string;
+          permissions?: string[];
+          /** @enum {string} */
+          visibility?: 'public' | 'private';
         };
       };
     };
     responses: {
-      /** @description OK (with results) */
-      200: {
-        content: {
-          'application/json': components['schemas']['FederationInstance'] | null;
-        };
-      };
       /** @description OK (without any results) */
       204: {
         content: never;
@@ -15801,6 +20304,12 @@ export type operations = {
           'application/json': components['schemas']['Error'];
         };
       };
+      /** @description Too many requests */
+      429: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
       /** @description Internal server error */
       500: {
         content: {
@@ -15810,17 +20319,18 @@ export type operations = {
     };
   };
   /**
-   * federation/stats
+   * following/create
    * @description No description provided.
    *
-   * **Credential required**: *No*
+   * **Credential required**: *Yes* / **Permission**: *write:following*
    */
-  federation___stats: {
+  following___create: {
     requestBody: {
       content: {
         'application/json': {
-          /** @default 10 */
-          limit?: number;
+          /** Format: misskey:id */
+          userId: string;
+          withReplies?: boolean;
         };
       };
     };
@@ -15828,12 +20338,7 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': {
-            topSubInstances: components['schemas']['FederationInstance'][];
-            otherFollowersCount: number;
-            topPubInstances: components['schemas']['FederationInstance'][];
-            otherFollowingCount: number;
-          };
+          'application/json': components['schemas']['UserLite'];
         };
       };
       /** @description Client error */
@@ -15860,6 +20365,12 @@ export type operations = {
           'application/json': components['schemas']['Error'];
         };
       };
+      /** @description Too many requests */
+      429: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
       /** @description Internal server error */
       500: {
         content: {
@@ -15869,12 +20380,12 @@ export type operations = {
     };
   };
   /**
-   * federation/update-remote-user
+   * following/delete
    * @description No description provided.
    *
-   * **Credential required**: *No*
+   * **Credential required**: *Yes* / **Permission**: *write:following*
    */
-  'federation___update-remote-user': {
+  following___delete: {
     requestBody: {
       content: {
         'application/json': {
@@ -15884,9 +20395,11 @@ export type operations = {
       };
     };
     responses: {
-      /** @description OK (without any results) */
-      204: {
-        content: never;
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': components['schemas']['UserLite'];
+        };
       };
       /** @description Client error */
       400: {
@@ -15912,6 +20425,12 @@ export type operations = {
           'application/json': components['schemas']['Error'];
         };
       };
+      /** @description Too many requests */
+      429: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
       /** @description Internal server error */
       500: {
         content: {
@@ -15921,22 +20440,17 @@ export type operations = {
     };
   };
   /**
-   * federation/users
+   * following/invalidate
    * @description No description provided.
    *
-   * **Credential required**: *No*
+   * **Credential required**: *Yes* / **Permission**: *write:following*
    */
-  federation___users: {
+  following___invalidate: {
     requestBody: {
       content: {
         'application/json': {
-          host: string;
           /** Format: misskey:id */
-          sinceId?: string;
-          /** Format: misskey:id */
-          untilId?: string;
-          /** @default 10 */
-          limit?: number;
+          userId: string;
         };
       };
     };
@@ -15944,7 +20458,7 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': components['schemas']['UserDetailedNotMe'][];
+          'application/json': components['schemas']['UserLite'];
         };
       };
       /** @description Client error */
@@ -15971,6 +20485,12 @@ export type operations = {
           'application/json': components['schemas']['Error'];
         };
       };
+      /** @description Too many requests */
+      429: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
       /** @description Internal server error */
       500: {
         content: {
@@ -15980,30 +20500,24 @@ export type operations = {
     };
   };
   /**
-   * fetch-external-resources
+   * following/requests/accept
    * @description No description provided.
    *
-   * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
-   * **Credential required**: *Yes*
+   * **Credential required**: *Yes* / **Permission**: *write:following*
    */
-  'fetch-external-resources': {
+  following___requests___accept: {
     requestBody: {
       content: {
         'application/json': {
-          url: string;
-          hash: string;
+          /** Format: misskey:id */
+          userId: string;
         };
       };
     };
     responses: {
-      /** @description OK (with results) */
-      200: {
-        content: {
-          'application/json': {
-            type: string;
-            data: string;
-          };
-        };
+      /** @description OK (without any results) */
+      204: {
+        content: never;
       };
       /** @description Client error */
       400: {
@@ -16029,12 +20543,6 @@ export type operations = {
           'application/json': components['schemas']['Error'];
         };
       };
-      /** @description Too many requests */
-      429: {
-        content: {
-          'application/json': components['schemas']['Error'];
-        };
-      };
       /** @description Internal server error */
       500: {
         content: {
@@ -16044,16 +20552,17 @@ export type operations = {
     };
   };
   /**
-   * fetch-rss
+   * following/requests/cancel
    * @description No description provided.
    *
-   * **Credential required**: *No*
+   * **Credential required**: *Yes* / **Permission**: *write:following*
    */
-  'fetch-rss': {
+  following___requests___cancel: {
     requestBody: {
       content: {
         'application/json': {
-          url: string;
+          /** Format: misskey:id */
+          userId: string;
         };
       };
     };
@@ -16061,54 +20570,7 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': {
-            image?: {
-              link?: string;
-              url: string;
-              title?: string;
-            };
-            paginationLinks?: {
-              self?: string;
-              first?: string;
-              next?: string;
-              last?: string;
-              prev?: string;
-            };
-            link?: string;
-            title?: string;
-            items: {
-                link?: string;
-                guid?: string;
-                title?: string;
-                pubDate?: string;
-                creator?: string;
-                summary?: string;
-                content?: string;
-                isoDate?: string;
-                categories?: string[];
-                contentSnippet?: string;
-                enclosure?: {
-                  url: string;
-                  length?: number;
-                  type?: string;
-                };
-              }[];
-            feedUrl?: string;
-            description?: string;
-            itunes?: {
-              image?: string;
-              owner?: {
-                name?: string;
-                email?: string;
-              };
-              author?: string;
-              summary?: string;
-              explicit?: string;
-              categories?: string[];
-              keywords?: string[];
-              [key: string]: unknown;
-            };
-          };
+          'application/json': components['schemas']['UserLite'];
         };
       };
       /** @description Client error */
@@ -16144,24 +20606,21 @@ export type operations = {
     };
   };
   /**
-   * flash/create
+   * following/requests/list
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:flash*
+   * **Credential required**: *Yes* / **Permission**: *read:following*
    */
-  flash___create: {
+  following___requests___list: {
     requestBody: {
       content: {
         'application/json': {
-          title: string;
-          summary: string;
-          script: string;
-          permissions: string[];
-          /**
-           * @default public
-           * @enum {string}
-           */
-          visibility?: 'public' | 'private';
+          /** Format: misskey:id */
+          sinceId?: string;
+          /** Format: misskey:id */
+          untilId?: string;
+          /** @default 10 */
+          limit?: number;
         };
       };
     };
@@ -16169,7 +20628,12 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': components['schemas']['Flash'];
+          'application/json': {
+              /** Format: id */
+              id: string;
+              follower: components['schemas']['UserLite'];
+              followee: components['schemas']['UserLite'];
+            }[];
         };
       };
       /** @description Client error */
@@ -16196,12 +20660,6 @@ export type operations = {
           'application/json': components['schemas']['Error'];
         };
       };
-      /** @description Too many requests */
-      429: {
-        content: {
-          'application/json': components['schemas']['Error'];
-        };
-      };
       /** @description Internal server error */
       500: {
         content: {
@@ -16211,17 +20669,17 @@ export type operations = {
     };
   };
   /**
-   * flash/delete
+   * following/requests/reject
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:flash*
+   * **Credential required**: *Yes* / **Permission**: *write:following*
    */
-  flash___delete: {
+  following___requests___reject: {
     requestBody: {
       content: {
         'application/json': {
           /** Format: misskey:id */
-          flashId: string;
+          userId: string;
         };
       };
     };
@@ -16263,17 +20721,19 @@ export type operations = {
     };
   };
   /**
-   * flash/featured
+   * following/requests/sent
    * @description No description provided.
    *
-   * **Credential required**: *No*
+   * **Credential required**: *Yes* / **Permission**: *read:following*
    */
-  flash___featured: {
+  following___requests___sent: {
     requestBody: {
       content: {
         'application/json': {
-          /** @default 0 */
-          offset?: number;
+          /** Format: misskey:id */
+          sinceId?: string;
+          /** Format: misskey:id */
+          untilId?: string;
           /** @default 10 */
           limit?: number;
         };
@@ -16283,7 +20743,12 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': components['schemas']['Flash'][];
+          'application/json': {
+              /** Format: id */
+              id: string;
+              follower: components['schemas']['UserLite'];
+              followee: components['schemas']['UserLite'];
+            }[];
         };
       };
       /** @description Client error */
@@ -16319,24 +20784,29 @@ export type operations = {
     };
   };
   /**
-   * flash/like
+   * following/update
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:flash-likes*
+   * **Credential required**: *Yes* / **Permission**: *write:following*
    */
-  flash___like: {
+  following___update: {
     requestBody: {
       content: {
         'application/json': {
           /** Format: misskey:id */
-          flashId: string;
+          userId: string;
+          /** @enum {string} */
+          notify?: 'normal' | 'none';
+          withReplies?: boolean;
         };
       };
     };
     responses: {
-      /** @description OK (without any results) */
-      204: {
-        content: never;
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': components['schemas']['UserLite'];
+        };
       };
       /** @description Client error */
       400: {
@@ -16362,6 +20832,12 @@ export type operations = {
           'application/json': components['schemas']['Error'];
         };
       };
+      /** @description Too many requests */
+      429: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
       /** @description Internal server error */
       500: {
         content: {
@@ -16371,30 +20847,25 @@ export type operations = {
     };
   };
   /**
-   * flash/my
+   * following/update-all
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *read:flash*
+   * **Credential required**: *Yes* / **Permission**: *write:following*
    */
-  flash___my: {
+  'following___update-all': {
     requestBody: {
       content: {
         'application/json': {
-          /** @default 10 */
-          limit?: number;
-          /** Format: misskey:id */
-          sinceId?: string;
-          /** Format: misskey:id */
-          untilId?: string;
+          /** @enum {string} */
+          notify?: 'normal' | 'none';
+          withReplies?: boolean;
         };
       };
     };
     responses: {
-      /** @description OK (with results) */
-      200: {
-        content: {
-          'application/json': components['schemas']['Flash'][];
-        };
+      /** @description OK (without any results) */
+      204: {
+        content: never;
       };
       /** @description Client error */
       400: {
@@ -16420,6 +20891,12 @@ export type operations = {
           'application/json': components['schemas']['Error'];
         };
       };
+      /** @description Too many requests */
+      429: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
       /** @description Internal server error */
       500: {
         content: {
@@ -16429,20 +20906,18 @@ export type operations = {
     };
   };
   /**
-   * flash/my-likes
+   * gallery/featured
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *read:flash-likes*
+   * **Credential required**: *No*
    */
-  'flash___my-likes': {
+  gallery___featured: {
     requestBody: {
       content: {
         'application/json': {
           /** @default 10 */
           limit?: number;
           /** Format: misskey:id */
-          sinceId?: string;
-          /** Format: misskey:id */
           untilId?: string;
         };
       };
@@ -16451,11 +20926,7 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': {
-              /** Format: id */
-              id: string;
-              flash: components['schemas']['Flash'];
-            }[];
+          'application/json': components['schemas']['GalleryPost'][];
         };
       };
       /** @description Client error */
@@ -16491,25 +20962,17 @@ export type operations = {
     };
   };
   /**
-   * flash/show
+   * gallery/popular
    * @description No description provided.
    *
    * **Credential required**: *No*
    */
-  flash___show: {
-    requestBody: {
-      content: {
-        'application/json': {
-          /** Format: misskey:id */
-          flashId: string;
-        };
-      };
-    };
+  gallery___popular: {
     responses: {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': components['schemas']['Flash'];
+          'application/json': components['schemas']['GalleryPost'][];
         };
       };
       /** @description Client error */
@@ -16545,24 +21008,30 @@ export type operations = {
     };
   };
   /**
-   * flash/unlike
+   * gallery/posts
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:flash-likes*
+   * **Credential required**: *No*
    */
-  flash___unlike: {
+  gallery___posts: {
     requestBody: {
       content: {
         'application/json': {
+          /** @default 10 */
+          limit?: number;
           /** Format: misskey:id */
-          flashId: string;
+          sinceId?: string;
+          /** Format: misskey:id */
+          untilId?: string;
         };
       };
     };
     responses: {
-      /** @description OK (without any results) */
-      204: {
-        content: never;
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': components['schemas']['GalleryPost'][];
+        };
       };
       /** @description Client error */
       400: {
@@ -16597,30 +21066,29 @@ export type operations = {
     };
   };
   /**
-   * flash/update
+   * gallery/posts/create
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:flash*
+   * **Credential required**: *Yes* / **Permission**: *write:gallery*
    */
-  flash___update: {
+  gallery___posts___create: {
     requestBody: {
       content: {
         'application/json': {
-          /** Format: misskey:id */
-          flashId: string;
-          title?: string;
-          summary?: string;
-          script?: string;
-          permissions?: string[];
-          /** @enum {string} */
-          visibility?: 'public' | 'private';
+          title: string;
+          description?: string | null;
+          fileIds: string[];
+          /** @default false */
+          isSensitive?: boolean;
         };
       };
     };
     responses: {
-      /** @description OK (without any results) */
-      204: {
-        content: never;
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': components['schemas']['GalleryPost'];
+        };
       };
       /** @description Client error */
       400: {
@@ -16661,27 +21129,24 @@ export type operations = {
     };
   };
   /**
-   * following/create
+   * gallery/posts/delete
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:following*
+   * **Credential required**: *Yes* / **Permission**: *write:gallery*
    */
-  following___create: {
+  gallery___posts___delete: {
     requestBody: {
       content: {
         'application/json': {
           /** Format: misskey:id */
-          userId: string;
-          withReplies?: boolean;
+          postId: string;
         };
       };
     };
     responses: {
-      /** @description OK (with results) */
-      200: {
-        content: {
-          'application/json': components['schemas']['UserLite'];
-        };
+      /** @description OK (without any results) */
+      204: {
+        content: never;
       };
       /** @description Client error */
       400: {
@@ -16707,12 +21172,6 @@ export type operations = {
           'application/json': components['schemas']['Error'];
         };
       };
-      /** @description Too many requests */
-      429: {
-        content: {
-          'application/json': components['schemas']['Error'];
-        };
-      };
       /** @description Internal server error */
       500: {
         content: {
@@ -16722,26 +21181,24 @@ export type operations = {
     };
   };
   /**
-   * following/delete
+   * gallery/posts/like
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:following*
+   * **Credential required**: *Yes* / **Permission**: *write:gallery-likes*
    */
-  following___delete: {
+  gallery___posts___like: {
     requestBody: {
       content: {
         'application/json': {
           /** Format: misskey:id */
-          userId: string;
+          postId: string;
         };
       };
     };
     responses: {
-      /** @description OK (with results) */
-      200: {
-        content: {
-          'application/json': components['schemas']['UserLite'];
-        };
+      /** @description OK (without any results) */
+      204: {
+        content: never;
       };
       /** @description Client error */
       400: {
@@ -16767,12 +21224,6 @@ export type operations = {
           'application/json': components['schemas']['Error'];
         };
       };
-      /** @description Too many requests */
-      429: {
-        content: {
-          'application/json': components['schemas']['Error'];
-        };
-      };
       /** @description Internal server error */
       500: {
         content: {
@@ -16782,17 +21233,17 @@ export type operations = {
     };
   };
   /**
-   * following/invalidate
+   * gallery/posts/show
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:following*
+   * **Credential required**: *No*
    */
-  following___invalidate: {
+  gallery___posts___show: {
     requestBody: {
       content: {
         'application/json': {
           /** Format: misskey:id */
-          userId: string;
+          postId: string;
         };
       };
     };
@@ -16800,7 +21251,7 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': components['schemas']['UserLite'];
+          'application/json': components['schemas']['GalleryPost'];
         };
       };
       /** @description Client error */
@@ -16827,12 +21278,6 @@ export type operations = {
           'application/json': components['schemas']['Error'];
         };
       };
-      /** @description Too many requests */
-      429: {
-        content: {
-          'application/json': components['schemas']['Error'];
-        };
-      };
       /** @description Internal server error */
       500: {
         content: {
@@ -16842,17 +21287,17 @@ export type operations = {
     };
   };
   /**
-   * following/requests/accept
+   * gallery/posts/unlike
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:following*
+   * **Credential required**: *Yes* / **Permission**: *write:gallery-likes*
    */
-  following___requests___accept: {
+  gallery___posts___unlike: {
     requestBody: {
       content: {
         'application/json': {
           /** Format: misskey:id */
-          userId: string;
+          postId: string;
         };
       };
     };
@@ -16894,17 +21339,22 @@ export type operations = {
     };
   };
   /**
-   * following/requests/cancel
+   * gallery/posts/update
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:following*
+   * **Credential required**: *Yes* / **Permission**: *write:gallery*
    */
-  following___requests___cancel: {
+  gallery___posts___update: {
     requestBody: {
       content: {
         'application/json': {
           /** Format: misskey:id */
-          userId: string;
+          postId: string;
+          title?: string;
+          description?: string | null;
+          fileIds?: string[];
+          /** @default false */
+          isSensitive?: boolean;
         };
       };
     };
@@ -16912,7 +21362,7 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': components['schemas']['UserLite'];
+          'application/json': components['schemas']['GalleryPost'];
         };
       };
       /** @description Client error */
@@ -16939,6 +21389,12 @@ export type operations = {
           'application/json': components['schemas']['Error'];
         };
       };
+      /** @description Too many requests */
+      429: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
       /** @description Internal server error */
       500: {
         content: {
@@ -16948,33 +21404,26 @@ export type operations = {
     };
   };
   /**
-   * following/requests/list
+   * get-avatar-decorations
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *read:following*
+   * **Credential required**: *No*
    */
-  following___requests___list: {
-    requestBody: {
-      content: {
-        'application/json': {
-          /** Format: misskey:id */
-          sinceId?: string;
-          /** Format: misskey:id */
-          untilId?: string;
-          /** @default 10 */
-          limit?: number;
-        };
-      };
-    };
+  'get-avatar-decorations': {
     responses: {
       /** @description OK (with results) */
       200: {
         content: {
           'application/json': {
-              /** Format: id */
+              /**
+               * Format: id
+               * @example xxxxxxxxxx
+               */
               id: string;
-              follower: components['schemas']['UserLite'];
-              followee: components['schemas']['UserLite'];
+              name: string;
+              description: string;
+              url: string;
+              roleIdsThatCanBeUsedThisDecoration: string[];
             }[];
         };
       };
@@ -17011,24 +21460,20 @@ export type operations = {
     };
   };
   /**
-   * following/requests/reject
+   * get-online-users-count
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:following*
+   * **Credential required**: *No*
    */
-  following___requests___reject: {
-    requestBody: {
-      content: {
-        'application/json': {
-          /** Format: misskey:id */
-          userId: string;
-        };
-      };
-    };
+  'get-online-users-count': {
     responses: {
-      /** @description OK (without any results) */
-      204: {
-        content: never;
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': {
+            count: number;
+          };
+        };
       };
       /** @description Client error */
       400: {
@@ -17063,21 +21508,25 @@ export type operations = {
     };
   };
   /**
-   * following/requests/sent
+   * hashtags/list
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *read:following*
+   * **Credential required**: *No*
    */
-  following___requests___sent: {
+  hashtags___list: {
     requestBody: {
       content: {
         'application/json': {
-          /** Format: misskey:id */
-          sinceId?: string;
-          /** Format: misskey:id */
-          untilId?: string;
           /** @default 10 */
           limit?: number;
+          /** @default false */
+          attachedToUserOnly?: boolean;
+          /** @default false */
+          attachedToLocalUserOnly?: boolean;
+          /** @default false */
+          attachedToRemoteUserOnly?: boolean;
+          /** @enum {string} */
+          sort: '+mentionedUsers' | '-mentionedUsers' | '+mentionedLocalUsers' | '-mentionedLocalUsers' | '+mentionedRemoteUsers' | '-mentionedRemoteUsers' | '+attachedUsers' | '-attachedUsers' | '+attachedLocalUsers' | '-attachedLocalUsers' | '+attachedRemoteUsers' | '-attachedRemoteUsers';
         };
       };
     };
@@ -17085,12 +21534,7 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': {
-              /** Format: id */
-              id: string;
-              follower: components['schemas']['UserLite'];
-              followee: components['schemas']['UserLite'];
-            }[];
+          'application/json': components['schemas']['Hashtag'][];
         };
       };
       /** @description Client error */
@@ -17126,20 +21570,20 @@ export type operations = {
     };
   };
   /**
-   * following/update
+   * hashtags/search
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:following*
+   * **Credential required**: *No*
    */
-  following___update: {
+  hashtags___search: {
     requestBody: {
       content: {
         'application/json': {
-          /** Format: misskey:id */
-          userId: string;
-          /** @enum {string} */
-          notify?: 'normal' | 'none';
-          withReplies?: boolean;
+          /** @default 10 */
+          limit?: number;
+          query: string;
+          /** @default 0 */
+          offset?: number;
         };
       };
     };
@@ -17147,7 +21591,7 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': components['schemas']['UserLite'];
+          'application/json': string[];
         };
       };
       /** @description Client error */
@@ -17174,12 +21618,6 @@ export type operations = {
           'application/json': components['schemas']['Error'];
         };
       };
-      /** @description Too many requests */
-      429: {
-        content: {
-          'application/json': components['schemas']['Error'];
-        };
-      };
       /** @description Internal server error */
       500: {
         content: {
@@ -17189,25 +21627,25 @@ export type operations = {
     };
   };
   /**
-   * following/update-all
+   * hashtags/show
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:following*
+   * **Credential required**: *No*
    */
-  'following___update-all': {
+  hashtags___show: {
     requestBody: {
       content: {
         'application/json': {
-          /** @enum {string} */
-          notify?: 'normal' | 'none';
-          withReplies?: boolean;
+          tag: string;
         };
       };
     };
     responses: {
-      /** @description OK (without any results) */
-      204: {
-        content: never;
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': components['schemas']['Hashtag'];
+        };
       };
       /** @description Client error */
       400: {
@@ -17233,12 +21671,6 @@ export type operations = {
           'application/json': components['schemas']['Error'];
         };
       };
-      /** @description Too many requests */
-      429: {
-        content: {
-          'application/json': components['schemas']['Error'];
-        };
-      };
       /** @description Internal server error */
       500: {
         content: {
@@ -17248,27 +21680,21 @@ export type operations = {
     };
   };
   /**
-   * gallery/featured
+   * hashtags/trend
    * @description No description provided.
    *
    * **Credential required**: *No*
    */
-  gallery___featured: {
-    requestBody: {
-      content: {
-        'application/json': {
-          /** @default 10 */
-          limit?: number;
-          /** Format: misskey:id */
-          untilId?: string;
-        };
-      };
-    };
+  hashtags___trend: {
     responses: {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': components['schemas']['GalleryPost'][];
+          'application/json': {
+              tag: string;
+              chart: number[];
+              usersCount: number;
+            }[];
         };
       };
       /** @description Client error */
@@ -17304,17 +21730,38 @@ export type operations = {
     };
   };
   /**
-   * gallery/popular
+   * hashtags/users
    * @description No description provided.
    *
    * **Credential required**: *No*
    */
-  gallery___popular: {
+  hashtags___users: {
+    requestBody: {
+      content: {
+        'application/json': {
+          tag: string;
+          /** @default 10 */
+          limit?: number;
+          /** @enum {string} */
+          sort: '+follower' | '-follower' | '+createdAt' | '-createdAt' | '+updatedAt' | '-updatedAt';
+          /**
+           * @default all
+           * @enum {string}
+           */
+          state?: 'all' | 'alive';
+          /**
+           * @default local
+           * @enum {string}
+           */
+          origin?: 'combined' | 'local' | 'remote';
+        };
+      };
+    };
     responses: {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': components['schemas']['GalleryPost'][];
+          'application/json': components['schemas']['UserDetailed'][];
         };
       };
       /** @description Client error */
@@ -17350,29 +21797,17 @@ export type operations = {
     };
   };
   /**
-   * gallery/posts
+   * i
    * @description No description provided.
    *
-   * **Credential required**: *No*
+   * **Credential required**: *Yes* / **Permission**: *read:account*
    */
-  gallery___posts: {
-    requestBody: {
-      content: {
-        'application/json': {
-          /** @default 10 */
-          limit?: number;
-          /** Format: misskey:id */
-          sinceId?: string;
-          /** Format: misskey:id */
-          untilId?: string;
-        };
-      };
-    };
+  i: {
     responses: {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': components['schemas']['GalleryPost'][];
+          'application/json': components['schemas']['MeDetailed'];
         };
       };
       /** @description Client error */
@@ -17408,20 +21843,17 @@ export type operations = {
     };
   };
   /**
-   * gallery/posts/create
+   * i/2fa/done
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:gallery*
+   * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
+   * **Credential required**: *Yes*
    */
-  gallery___posts___create: {
+  i___2fa___done: {
     requestBody: {
       content: {
         'application/json': {
-          title: string;
-          description?: string | null;
-          fileIds: string[];
-          /** @default false */
-          isSensitive?: boolean;
+          token: string;
         };
       };
     };
@@ -17429,7 +21861,9 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': components['schemas']['GalleryPost'];
+          'application/json': {
+            backupCodes: string[];
+          };
         };
       };
       /** @description Client error */
@@ -17456,12 +21890,6 @@ export type operations = {
           'application/json': components['schemas']['Error'];
         };
       };
-      /** @description Too many requests */
-      429: {
-        content: {
-          'application/json': components['schemas']['Error'];
-        };
-      };
       /** @description Internal server error */
       500: {
         content: {
@@ -17471,24 +21899,32 @@ export type operations = {
     };
   };
   /**
-   * gallery/posts/delete
+   * i/2fa/key-done
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:gallery*
+   * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
+   * **Credential required**: *Yes*
    */
-  gallery___posts___delete: {
+  'i___2fa___key-done': {
     requestBody: {
       content: {
         'application/json': {
-          /** Format: misskey:id */
-          postId: string;
+          password: string;
+          token?: string | null;
+          name: string;
+          credential: Record<string, never>;
         };
       };
     };
     responses: {
-      /** @description OK (without any results) */
-      204: {
-        content: never;
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': {
+            id: string;
+            name: string;
+          };
+        };
       };
       /** @description Client error */
       400: {
@@ -17523,17 +21959,17 @@ export type operations = {
     };
   };
   /**
-   * gallery/posts/like
+   * i/2fa/password-less
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:gallery-likes*
+   * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
+   * **Credential required**: *Yes*
    */
-  gallery___posts___like: {
+  'i___2fa___password-less': {
     requestBody: {
       content: {
         'application/json': {
-          /** Format: misskey:id */
-          postId: string;
+          value: boolean;
         };
       };
     };
@@ -17575,17 +22011,18 @@ export type operations = {
     };
   };
   /**
-   * gallery/posts/show
+   * i/2fa/register
    * @description No description provided.
    *
-   * **Credential required**: *No*
+   * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
+   * **Credential required**: *Yes*
    */
-  gallery___posts___show: {
+  i___2fa___register: {
     requestBody: {
       content: {
         'application/json': {
-          /** Format: misskey:id */
-          postId: string;
+          password: string;
+          token?: string | null;
         };
       };
     };
@@ -17593,7 +22030,13 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': components['schemas']['GalleryPost'];
+          'application/json': {
+            qr: string;
+            url: string;
+            secret: string;
+            label: string;
+            issuer: string;
+          };
         };
       };
       /** @description Client error */
@@ -17629,25 +22072,62 @@ export type operations = {
     };
   };
   /**
-   * gallery/posts/unlike
+   * i/2fa/register-key
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:gallery-likes*
+   * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
+   * **Credential required**: *Yes*
    */
-  gallery___posts___unlike: {
+  'i___2fa___register-key': {
     requestBody: {
       content: {
         'application/json': {
-          /** Format: misskey:id */
-          postId: string;
+          password: string;
+          token?: string | null;
+        };
+      };
+    };
+    responses: {
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': {
+            rp: {
+              id?: string;
+            };
+            user: {
+              id: string;
+              name: string;
+              displayName: string;
+            };
+            challenge: string;
+            pubKeyCredParams: {
+                type: string;
+                alg: number;
+              }[];
+            timeout: number | null;
+            excludeCredentials: (({
+                id: string;
+                type: string;
+                transports: ('ble' | 'cable' | 'hybrid' | 'internal' | 'nfc' | 'smart-card' | 'usb')[];
+              })[]) | null;
+            authenticatorSelection: ({
+              /** @enum {string} */
+              authenticatorAttachment: 'cross-platform' | 'platform';
+              requireResidentKey: boolean;
+              /** @enum {string} */
+              userVerification: 'discouraged' | 'preferred' | 'required';
+            }) | null;
+            /** @enum {string|null} */
+            attestation: 'direct' | 'enterprise' | 'indirect' | 'none' | null;
+            extensions: ({
+              appid: string | null;
+              credProps: boolean | null;
+              hmacCreateSecret: boolean | null;
+            }) | null;
+          };
         };
       };
-    };
-    responses: {
-      /** @description OK (without any results) */
-      204: {
-        content: never;
-      };
       /** @description Client error */
       400: {
         content: {
@@ -17681,31 +22161,26 @@ export type operations = {
     };
   };
   /**
-   * gallery/posts/update
+   * i/2fa/remove-key
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:gallery*
+   * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
+   * **Credential required**: *Yes*
    */
-  gallery___posts___update: {
+  'i___2fa___remove-key': {
     requestBody: {
       content: {
         'application/json': {
-          /** Format: misskey:id */
-          postId: string;
-          title?: string;
-          description?: string | null;
-          fileIds?: string[];
-          /** @default false */
-          isSensitive?: boolean;
+          password: string;
+          token?: string | null;
+          credentialId: string;
         };
       };
     };
     responses: {
-      /** @description OK (with results) */
-      200: {
-        content: {
-          'application/json': components['schemas']['GalleryPost'];
-        };
+      /** @description OK (without any results) */
+      204: {
+        content: never;
       };
       /** @description Client error */
       400: {
@@ -17731,12 +22206,6 @@ export type operations = {
           'application/json': components['schemas']['Error'];
         };
       };
-      /** @description Too many requests */
-      429: {
-        content: {
-          'application/json': components['schemas']['Error'];
-        };
-      };
       /** @description Internal server error */
       500: {
         content: {
@@ -17746,29 +22215,26 @@ export type operations = {
     };
   };
   /**
-   * get-avatar-decorations
+   * i/2fa/unregister
    * @description No description provided.
    *
-   * **Credential required**: *No*
+   * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
+   * **Credential required**: *Yes*
    */
-  'get-avatar-decorations': {
-    responses: {
-      /** @description OK (with results) */
-      200: {
-        content: {
-          'application/json': {
-              /**
-               * Format: id
-               * @example xxxxxxxxxx
-               */
-              id: string;
-              name: string;
-              description: string;
-              url: string;
-              roleIdsThatCanBeUsedThisDecoration: string[];
-            }[];
+  i___2fa___unregister: {
+    requestBody: {
+      content: {
+        'application/json': {
+          password: string;
+          token?: string | null;
         };
       };
+    };
+    responses: {
+      /** @description OK (without any results) */
+      204: {
+        content: never;
+      };
       /** @description Client error */
       400: {
         content: {
@@ -17802,21 +22268,26 @@ export type operations = {
     };
   };
   /**
-   * get-online-users-count
+   * i/2fa/update-key
    * @description No description provided.
    *
-   * **Credential required**: *No*
+   * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
+   * **Credential required**: *Yes*
    */
-  'get-online-users-count': {
-    responses: {
-      /** @description OK (with results) */
-      200: {
-        content: {
-          'application/json': {
-            count: number;
-          };
+  'i___2fa___update-key': {
+    requestBody: {
+      content: {
+        'application/json': {
+          name: string;
+          credentialId: string;
         };
       };
+    };
+    responses: {
+      /** @description OK (without any results) */
+      204: {
+        content: never;
+      };
       /** @description Client error */
       400: {
         content: {
@@ -17850,34 +22321,24 @@ export type operations = {
     };
   };
   /**
-   * hashtags/list
+   * i/acknowledge-warning
    * @description No description provided.
    *
-   * **Credential required**: *No*
+   * **Credential required**: *Yes* / **Permission**: *write:account*
    */
-  hashtags___list: {
+  'i___acknowledge-warning': {
     requestBody: {
       content: {
         'application/json': {
-          /** @default 10 */
-          limit?: number;
-          /** @default false */
-          attachedToUserOnly?: boolean;
-          /** @default false */
-          attachedToLocalUserOnly?: boolean;
-          /** @default false */
-          attachedToRemoteUserOnly?: boolean;
-          /** @enum {string} */
-          sort: '+mentionedUsers' | '-mentionedUsers' | '+mentionedLocalUsers' | '-mentionedLocalUsers' | '+mentionedRemoteUsers' | '-mentionedRemoteUsers' | '+attachedUsers' | '-attachedUsers' | '+attachedLocalUsers' | '-attachedLocalUsers' | '+attachedRemoteUsers' | '-attachedRemoteUsers';
+          /** Format: misskey:id */
+          warningId: string;
         };
       };
     };
     responses: {
-      /** @description OK (with results) */
-      200: {
-        content: {
-          'application/json': components['schemas']['Hashtag'][];
-        };
+      /** @description OK (without any results) */
+      204: {
+        content: never;
       };
       /** @description Client error */
       400: {
@@ -17912,29 +22373,25 @@ export type operations = {
     };
   };
   /**
-   * hashtags/search
-   * @description No description provided.
+   * i/appeal-warning
+   * @description Appeal against a warning. Each warning can be appealed only once.
    *
-   * **Credential required**: *No*
+   * **Credential required**: *Yes* / **Permission**: *write:account*
    */
-  hashtags___search: {
+  'i___appeal-warning': {
     requestBody: {
       content: {
         'application/json': {
-          /** @default 10 */
-          limit?: number;
-          query: string;
-          /** @default 0 */
-          offset?: number;
+          /** Format: misskey:id */
+          warningId: string;
+          comment: string;
         };
       };
     };
     responses: {
-      /** @description OK (with results) */
-      200: {
-        content: {
-          'application/json': string[];
-        };
+      /** @description OK (without any results) */
+      204: {
+        content: never;
       };
       /** @description Client error */
       400: {
@@ -17969,16 +22426,18 @@ export type operations = {
     };
   };
   /**
-   * hashtags/show
+   * i/apps
    * @description No description provided.
    *
-   * **Credential required**: *No*
+   * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
+   * **Credential required**: *Yes*
    */
-  hashtags___show: {
+  i___apps: {
     requestBody: {
       content: {
         'application/json': {
-          tag: string;
+          /** @enum {string} */
+          sort?: '+createdAt' | '-createdAt' | '+lastUsedAt' | '-lastUsedAt';
         };
       };
     };
@@ -17986,7 +22445,16 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': components['schemas']['Hashtag'];
+          'application/json': {
+              /** Format: misskey:id */
+              id: string;
+              name?: string;
+              /** Format: date-time */
+              createdAt: string;
+              /** Format: date-time */
+              lastUsedAt?: string;
+              permission: string[];
+            }[];
         };
       };
       /** @description Client error */
@@ -18022,21 +22490,40 @@ export type operations = {
     };
   };
   /**
-   * hashtags/trend
+   * i/authorized-apps
    * @description No description provided.
    *
-   * **Credential required**: *No*
+   * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
+   * **Credential required**: *Yes*
    */
-  hashtags___trend: {
+  'i___authorized-apps': {
+    requestBody: {
+      content: {
+        'application/json': {
+          /** @default 10 */
+          limit?: number;
+          /** @default 0 */
+          offset?: number;
+          /**
+           * @default desc
+           * @enum {string}
+           */
+          sort?: 'desc' | 'asc';
+        };
+      };
+    };
     responses: {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': {
-              tag: string;
-              chart: number[];
-              usersCount: number;
-            }[];
+          'application/json': ({
+              /** Format: misskey:id */
+              id: string;
+              name: string;
+              callbackUrl: string | null;
+              permission: string[];
+              isAuthorized?: boolean;
+            })[];
         };
       };
       /** @description Client error */
@@ -18072,39 +22559,26 @@ export type operations = {
     };
   };
   /**
-   * hashtags/users
+   * i/change-password
    * @description No description provided.
    *
-   * **Credential required**: *No*
+   * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
+   * **Credential required**: *Yes*
    */
-  hashtags___users: {
+  'i___change-password': {
     requestBody: {
       content: {
         'application/json': {
-          tag: string;
-          /** @default 10 */
-          limit?: number;
-          /** @enum {string} */
-          sort: '+follower' | '-follower' | '+createdAt' | '-createdAt' | '+updatedAt' | '-updatedAt';
-          /**
-           * @default all
-           * @enum {string}
-           */
-          state?: 'all' | 'alive';
-          /**
-           * @default local
-           * @enum {string}
-           */
-          origin?: 'combined' | 'local' | 'remote';
+          currentPassword: string;
+          newPassword: string;
+          token?: string | null;
         };
       };
     };
     responses: {
-      /** @description OK (with results) */
-      200: {
-        content: {
-          'application/json': components['schemas']['UserDetailed'][];
-        };
+      /** @description OK (without any results) */
+      204: {
+        content: never;
       };
       /** @description Client error */
       400: {
@@ -18139,19 +22613,25 @@ export type operations = {
     };
   };
   /**
-   * i
+   * i/claim-achievement
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *read:account*
-   */
-  i: {
-    responses: {
-      /** @description OK (with results) */
-      200: {
-        content: {
-          'application/json': components['schemas']['MeDetailed'];
+   * **Credential required**: *Yes* / **Permission**: *write:account*
+   */
+  'i___claim-achievement': {
+    requestBody: {
+      content: {
+        'application/json': {
+          /** @enum {string} */
+          name: 'notes1' | 'notes10' | 'notes100' | 'notes500' | 'notes1000' | 'notes5000' | 'notes10000' | 'notes20000' | 'notes30000' | 'notes40000' | 'notes50000' | 'notes60000' | 'notes70000' | 'notes80000' | 'notes90000' | 'notes100000' | 'login3' | 'login7' | 'login15' | 'login30' | 'login60' | 'login100' | 'login200' | 'login300' | 'login400' | 'login500' | 'login600' | 'login700' | 'login800' | 'login900' | 'login1000' | 'passedSinceAccountCreated1' | 'passedSinceAccountCreated2' | 'passedSinceAccountCreated3' | 'loggedInOnBirthday' | 'loggedInOnNewYearsDay' | 'noteClipped1' | 'noteFavorited1' | 'myNoteFavorited1' | 'profileFilled' | 'markedAsCat' | 'following1' | 'following10' | 'following50' | 'following100' | 'following300' | 'followers1' | 'followers10' | 'followers50' | 'followers100' | 'followers300' | 'followers500' | 'followers1000' | 'collectAchievements30' | 'viewAchievements3min' | 'iLoveMisskey' | 'foundTreasure' | 'client30min' | 'client60min' | 'noteDeletedWithin1min' | 'postedAtLateNight' | 'postedAt0min0sec' | 'selfQuote' | 'htl20npm' | 'viewInstanceChart' | 'outputHelloWorldOnScratchpad' | 'open3windows' | 'driveFolderCircularReference' | 'reactWithoutRead' | 'clickedClickHere' | 'justPlainLucky' | 'setNameToSyuilo' | 'cookieClicked' | 'brainDiver' | 'smashTestNotificationButton' | 'tutorialCompleted' | 'bubbleGameExplodingHead' | 'bubbleGameDoubleExplodingHead';
         };
       };
+    };
+    responses: {
+      /** @description OK (without any results) */
+      204: {
+        content: never;
+      };
       /** @description Client error */
       400: {
         content: {
@@ -18185,28 +22665,25 @@ export type operations = {
     };
   };
   /**
-   * i/2fa/done
+   * i/delete-account
    * @description No description provided.
    *
    * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
    * **Credential required**: *Yes*
    */
-  i___2fa___done: {
+  'i___delete-account': {
     requestBody: {
       content: {
         'application/json': {
-          token: string;
+          password: string;
+          token?: string | null;
         };
       };
     };
     responses: {
-      /** @description OK (with results) */
-      200: {
-        content: {
-          'application/json': {
-            backupCodes: string[];
-          };
-        };
+      /** @description OK (without any results) */
+      204: {
+        content: never;
       };
       /** @description Client error */
       400: {
@@ -18241,32 +22718,17 @@ export type operations = {
     };
   };
   /**
-   * i/2fa/key-done
+   * i/export-antennas
    * @description No description provided.
    *
    * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
    * **Credential required**: *Yes*
    */
-  'i___2fa___key-done': {
-    requestBody: {
-      content: {
-        'application/json': {
-          password: string;
-          token?: string | null;
-          name: string;
-          credential: Record<string, never>;
-        };
-      };
-    };
+  'i___export-antennas': {
     responses: {
-      /** @description OK (with results) */
-      200: {
-        content: {
-          'application/json': {
-            id: string;
-            name: string;
-          };
-        };
+      /** @description OK (without any results) */
+      204: {
+        content: never;
       };
       /** @description Client error */
       400: {
@@ -18292,6 +22754,12 @@ export type operations = {
           'application/json': components['schemas']['Error'];
         };
       };
+      /** @description Too many requests */
+      429: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
       /** @description Internal server error */
       500: {
         content: {
@@ -18301,20 +22769,13 @@ export type operations = {
     };
   };
   /**
-   * i/2fa/password-less
+   * i/export-blocking
    * @description No description provided.
    *
    * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
    * **Credential required**: *Yes*
    */
-  'i___2fa___password-less': {
-    requestBody: {
-      content: {
-        'application/json': {
-          value: boolean;
-        };
-      };
-    };
+  'i___export-blocking': {
     responses: {
       /** @description OK (without any results) */
       204: {
@@ -18344,6 +22805,12 @@ export type operations = {
           'application/json': components['schemas']['Error'];
         };
       };
+      /** @description Too many requests */
+      429: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
       /** @description Internal server error */
       500: {
         content: {
@@ -18353,33 +22820,17 @@ export type operations = {
     };
   };
   /**
-   * i/2fa/register
+   * i/export-clips
    * @description No description provided.
    *
    * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
    * **Credential required**: *Yes*
    */
-  i___2fa___register: {
-    requestBody: {
-      content: {
-        'application/json': {
-          password: string;
-          token?: string | null;
-        };
-      };
-    };
+  'i___export-clips': {
     responses: {
-      /** @description OK (with results) */
-      200: {
-        content: {
-          'application/json': {
-            qr: string;
-            url: string;
-            secret: string;
-            label: string;
-            issuer: string;
-          };
-        };
+      /** @description OK (without any results) */
+      204: {
+        content: never;
       };
       /** @description Client error */
       400: {
@@ -18405,6 +22856,12 @@ export type operations = {
           'application/json': components['schemas']['Error'];
         };
       };
+      /** @description Too many requests */
+      429: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
       /** @description Internal server error */
       500: {
         content: {
@@ -18414,61 +22871,17 @@ export type operations = {
     };
   };
   /**
-   * i/2fa/register-key
+   * i/export-favorites
    * @description No description provided.
    *
    * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
    * **Credential required**: *Yes*
    */
-  'i___2fa___register-key': {
-    requestBody: {
-      content: {
-        'application/json': {
-          password: string;
-          token?: string | null;
-        };
-      };
-    };
+  'i___export-favorites': {
     responses: {
-      /** @description OK (with results) */
-      200: {
-        content: {
-          'application/json': {
-            rp: {
-              id?: string;
-            };
-            user: {
-              id: string;
-              name: string;
-              displayName: string;
-            };
-            challenge: string;
-            pubKeyCredParams: {
-                type: string;
-                alg: number;
-              }[];
-            timeout: number | null;
-            excludeCredentials: (({
-                id: string;
-                type: string;
-                transports: ('ble' | 'cable' | 'hybrid' | 'internal' | 'nfc' | 'smart-card' | 'usb')[];
-              })[]) | null;
-            authenticatorSelection: ({
-              /** @enum {string} */
-              authenticatorAttachment: 'cross-platform' | 'platform';
-              requireResidentKey: boolean;
-              /** @enum {string} */
-              userVerification: 'discouraged' | 'preferred' | 'required';
-            }) | null;
-            /** @enum {string|null} */
-            attestation: 'direct' | 'enterprise' | 'indirect' | 'none' | null;
-            extensions: ({
-              appid: string | null;
-              credProps: boolean | null;
-              hmacCreateSecret: boolean | null;
-            }) | null;
-          };
-        };
+      /** @description OK (without any results) */
+      204: {
+        content: never;
       };
       /** @description Client error */
       400: {
@@ -18494,6 +22907,12 @@ export type operations = {
           'application/json': components['schemas']['Error'];
         };
       };
+      /** @description Too many requests */
+      429: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
       /** @description Internal server error */
       500: {
         content: {
@@ -18503,19 +22922,20 @@ export type operations = {
     };
   };
   /**
-   * i/2fa/remove-key
+   * i/export-following
    * @description No description provided.
    *
    * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
    * **Credential required**: *Yes*
    */
-  'i___2fa___remove-key': {
+  'i___export-following': {
     requestBody: {
       content: {
         'application/json': {
-          password: string;
-          token?: string | null;
-          credentialId: string;
+          /** @default false */
+          excludeMuting?: boolean;
+          /** @default false */
+          excludeInactive?: boolean;
         };
       };
     };
@@ -18548,6 +22968,12 @@ export type operations = {
           'application/json': components['schemas']['Error'];
         };
       };
+      /** @description Too many requests */
+      429: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
       /** @description Internal server error */
       500: {
         content: {
@@ -18557,21 +22983,13 @@ export type operations = {
     };
   };
   /**
-   * i/2fa/unregister
+   * i/export-mute
    * @description No description provided.
    *
    * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
    * **Credential required**: *Yes*
    */
-  i___2fa___unregister: {
-    requestBody: {
-      content: {
-        'application/json': {
-          password: string;
-          token?: string | null;
-        };
-      };
-    };
+  'i___export-mute': {
     responses: {
       /** @description OK (without any results) */
       204: {
@@ -18601,6 +23019,12 @@ export type operations = {
           'application/json': components['schemas']['Error'];
         };
       };
+      /** @description Too many requests */
+      429: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
       /** @description Internal server error */
       500: {
         content: {
@@ -18610,21 +23034,13 @@ export type operations = {
     };
   };
   /**
-   * i/2fa/update-key
+   * i/export-notes
    * @description No description provided.
    *
    * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
    * **Credential required**: *Yes*
    */
-  'i___2fa___update-key': {
-    requestBody: {
-      content: {
-        'application/json': {
-          name: string;
-          credentialId: string;
-        };
-      };
-    };
+  'i___export-notes': {
     responses: {
       /** @description OK (without any results) */
       204: {
@@ -18654,46 +23070,33 @@ export type operations = {
           'application/json': components['schemas']['Error'];
         };
       };
-      /** @description Internal server error */
-      500: {
+      /** @description Too many requests */
+      429: {
         content: {
           'application/json': components['schemas']['Error'];
         };
       };
-    };
-  };
-  /**
-   * i/apps
-   * @description No description provided.
-   *
-   * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
-   * **Credential required**: *Yes*
-   */
-  i___apps: {
-    requestBody: {
-      content: {
-        'application/json': {
-          /** @enum {string} */
-          sort?: '+createdAt' | '-createdAt' | '+lastUsedAt' | '-lastUsedAt';
-        };
-      };
-    };
-    responses: {
-      /** @description OK (with results) */
-      200: {
+      /** @description Internal server error */
+      500: {
         content: {
-          'application/json': {
-              /** Format: misskey:id */
-              id: string;
-              name?: string;
-              /** Format: date-time */
-              createdAt: string;
-              /** Format: date-time */
-              lastUsedAt?: string;
-              permission: string[];
-            }[];
+          'application/json': components['schemas']['Error'];
         };
       };
+    };
+  };
+  /**
+   * i/export-user-lists
+   * @description No description provided.
+   *
+   * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
+   * **Credential required**: *Yes*
+   */
+  'i___export-user-lists': {
+    responses: {
+      /** @description OK (without any results) */
+      204: {
+        content: never;
+      };
       /** @description Client error */
       400: {
         content: {
@@ -18718,6 +23121,12 @@ export type operations = {
           'application/json': components['schemas']['Error'];
         };
       };
+      /** @description Too many requests */
+      429: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
       /** @description Internal server error */
       500: {
         content: {
@@ -18727,25 +23136,21 @@ export type operations = {
     };
   };
   /**
-   * i/authorized-apps
+   * i/favorites
    * @description No description provided.
    *
-   * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
-   * **Credential required**: *Yes*
+   * **Credential required**: *Yes* / **Permission**: *read:favorites*
    */
-  'i___authorized-apps': {
+  i___favorites: {
     requestBody: {
       content: {
         'application/json': {
           /** @default 10 */
           limit?: number;
-          /** @default 0 */
-          offset?: number;
-          /**
-           * @default desc
-           * @enum {string}
-           */
-          sort?: 'desc' | 'asc';
+          /** Format: misskey:id */
+          sinceId?: string;
+          /** Format: misskey:id */
+          untilId?: string;
         };
       };
     };
@@ -18753,14 +23158,7 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': ({
-              /** Format: misskey:id */
-              id: string;
-              name: string;
-              callbackUrl: string | null;
-              permission: string[];
-              isAuthorized?: boolean;
-            })[];
+          'application/json': components['schemas']['NoteFavorite'][];
         };
       };
       /** @description Client error */
@@ -18796,26 +23194,34 @@ export type operations = {
     };
   };
   /**
-   * i/change-password
+   * i/gallery/likes
    * @description No description provided.
    *
-   * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
-   * **Credential required**: *Yes*
+   * **Credential required**: *Yes* / **Permission**: *read:gallery-likes*
    */
-  'i___change-password': {
+  i___gallery___likes: {
     requestBody: {
       content: {
         'application/json': {
-          currentPassword: string;
-          newPassword: string;
-          token?: string | null;
+          /** @default 10 */
+          limit?: number;
+          /** Format: misskey:id */
+          sinceId?: string;
+          /** Format: misskey:id */
+          untilId?: string;
         };
       };
     };
     responses: {
-      /** @description OK (without any results) */
-      204: {
-        content: never;
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': {
+              /** Format: id */
+              id: string;
+              post: components['schemas']['GalleryPost'];
+            }[];
+        };
       };
       /** @description Client error */
       400: {
@@ -18850,24 +23256,30 @@ export type operations = {
     };
   };
   /**
-   * i/claim-achievement
+   * i/gallery/posts
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:account*
+   * **Credential required**: *Yes* / **Permission**: *read:gallery*
    */
-  'i___claim-achievement': {
+  i___gallery___posts: {
     requestBody: {
       content: {
         'application/json': {
-          /** @enum {string} */
-          name: 'notes1' | 'notes10' | 'notes100' | 'notes500' | 'notes1000' | 'notes5000' | 'notes10000' | 'notes20000' | 'notes30000' | 'notes40000' | 'notes50000' | 'notes60000' | 'notes70000' | 'notes80000' | 'notes90000' | 'notes100000' | 'login3' | 'login7' | 'login15' | 'login30' | 'login60' | 'login100' | 'login200' | 'login300' | 'login400' | 'login500' | 'login600' | 'login700' | 'login800' | 'login900' | 'login1000' | 'passedSinceAccountCreated1' | 'passedSinceAccountCreated2' | 'passedSinceAccountCreated3' | 'loggedInOnBirthday' | 'loggedInOnNewYearsDay' | 'noteClipped1' | 'noteFavorited1' | 'myNoteFavorited1' | 'profileFilled' | 'markedAsCat' | 'following1' | 'following10' | 'following50' | 'following100' | 'following300' | 'followers1' | 'followers10' | 'followers50' | 'followers100' | 'followers300' | 'followers500' | 'followers1000' | 'collectAchievements30' | 'viewAchievements3min' | 'iLoveMisskey' | 'foundTreasure' | 'client30min' | 'client60min' | 'noteDeletedWithin1min' | 'postedAtLateNight' | 'postedAt0min0sec' | 'selfQuote' | 'htl20npm' | 'viewInstanceChart' | 'outputHelloWorldOnScratchpad' | 'open3windows' | 'driveFolderCircularReference' | 'reactWithoutRead' | 'clickedClickHere' | 'justPlainLucky' | 'setNameToSyuilo' | 'cookieClicked' | 'brainDiver' | 'smashTestNotificationButton' | 'tutorialCompleted' | 'bubbleGameExplodingHead' | 'bubbleGameDoubleExplodingHead';
+          /** @default 10 */
+          limit?: number;
+          /** Format: misskey:id */
+          sinceId?: string;
+          /** Format: misskey:id */
+          untilId?: string;
         };
       };
     };
     responses: {
-      /** @description OK (without any results) */
-      204: {
-        content: never;
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': components['schemas']['GalleryPost'][];
+        };
       };
       /** @description Client error */
       400: {
@@ -18902,18 +23314,18 @@ export type operations = {
     };
   };
   /**
-   * i/delete-account
+   * i/import-antennas
    * @description No description provided.
    *
    * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
    * **Credential required**: *Yes*
    */
-  'i___delete-account': {
+  'i___import-antennas': {
     requestBody: {
       content: {
         'application/json': {
-          password: string;
-          token?: string | null;
+          /** Format: misskey:id */
+          fileId: string;
         };
       };
     };
@@ -18946,6 +23358,12 @@ export type operations = {
           'application/json': components['schemas']['Error'];
         };
       };
+      /** @description Too many requests */
+      429: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
       /** @description Internal server error */
       500: {
         content: {
@@ -18955,13 +23373,21 @@ export type operations = {
     };
   };
   /**
-   * i/export-antennas
+   * i/import-blocking
    * @description No description provided.
    *
    * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
    * **Credential required**: *Yes*
    */
-  'i___export-antennas': {
+  'i___import-blocking': {
+    requestBody: {
+      content: {
+        'application/json': {
+          /** Format: misskey:id */
+          fileId: string;
+        };
+      };
+    };
     responses: {
       /** @description OK (without any results) */
       204: {
@@ -19006,13 +23432,22 @@ export type operations = {
     };
   };
   /**
-   * i/export-blocking
+   * i/import-following
    * @description No description provided.
    *
    * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
    * **Credential required**: *Yes*
    */
-  'i___export-blocking': {
+  'i___import-following': {
+    requestBody: {
+      content: {
+        'application/json': {
+          /** Format: misskey:id */
+          fileId: string;
+          withReplies?: boolean;
+        };
+      };
+    };
     responses: {
       /** @description OK (without any results) */
       204: {
@@ -19057,13 +23492,21 @@ export type operations = {
     };
   };
   /**
-   * i/export-clips
+   * i/import-muting
    * @description No description provided.
    *
    * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
    * **Credential required**: *Yes*
    */
-  'i___export-clips': {
+  'i___import-muting': {
+    requestBody: {
+      content: {
+        'application/json': {
+          /** Format: misskey:id */
+          fileId: string;
+        };
+      };
+    };
     responses: {
       /** @description OK (without any results) */
       204: {
@@ -19108,13 +23551,23 @@ export type operations = {
     };
   };
   /**
-   * i/export-favorites
+   * i/import-notes
    * @description No description provided.
    *
    * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
    * **Credential required**: *Yes*
    */
-  'i___export-favorites': {
+  'i___import-notes': {
+    requestBody: {
+      content: {
+        'application/json': {
+          /** Format: misskey:id */
+          fileId: string;
+          /** @enum {string} */
+          type: 'Misskey' | 'Mastodon';
+        };
+      };
+    };
     responses: {
       /** @description OK (without any results) */
       204: {
@@ -19159,20 +23612,18 @@ export type operations = {
     };
   };
   /**
-   * i/export-following
+   * i/import-user-lists
    * @description No description provided.
    *
    * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
    * **Credential required**: *Yes*
    */
-  'i___export-following': {
+  'i___import-user-lists': {
     requestBody: {
       content: {
         'application/json': {
-          /** @default false */
-          excludeMuting?: boolean;
-          /** @default false */
-          excludeInactive?: boolean;
+          /** Format: misskey:id */
+          fileId: string;
         };
       };
     };
@@ -19220,17 +23671,26 @@ export type operations = {
     };
   };
   /**
-   * i/export-mute
+   * i/move
    * @description No description provided.
    *
    * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
    * **Credential required**: *Yes*
    */
-  'i___export-mute': {
+  i___move: {
+    requestBody: {
+      content: {
+        'application/json': {
+          moveToAccount: string;
+        };
+      };
+    };
     responses: {
-      /** @description OK (without any results) */
-      204: {
-        content: never;
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': Record<string, never>;
+        };
       };
       /** @description Client error */
       400: {
@@ -19271,17 +23731,34 @@ export type operations = {
     };
   };
   /**
-   * i/export-notes
+   * i/notifications
    * @description No description provided.
    *
-   * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
-   * **Credential required**: *Yes*
+   * **Credential required**: *Yes* / **Permission**: *read:notifications*
    */
-  'i___export-notes': {
+  i___notifications: {
+    requestBody: {
+      content: {
+        'application/json': {
+          /** @default 10 */
+          limit?: number;
+          /** Format: misskey:id */
+          sinceId?: string;
+          /** Format: misskey:id */
+          untilId?: string;
+          /** @default true */
+          markAsRead?: boolean;
+          includeTypes?: ('note' | 'follow' | 'mention' | 'reply' | 'renote' | 'quote' | 'reaction' | 'pollEnded' | 'receiveFollowRequest' | 'followRequestAccepted' | 'roleAssigned' | 'achievementEarned' | 'exportCompleted' | 'login' | 'createToken' | 'abuseReportResolved' | 'userWarningAppealResolved' | 'scheduledNotePostFailed' | 'app' | 'test' | 'pollVote' | 'groupInvited')[];
+          excludeTypes?: ('note' | 'follow' | 'mention' | 'reply' | 'renote' | 'quote' | 'reaction' | 'pollEnded' | 'receiveFollowRequest' | 'followRequestAccepted' | 'roleAssigned' | 'achievementEarned' | 'exportCompleted' | 'login' | 'createToken' | 'abuseReportResolved' | 'userWarningAppealResolved' | 'scheduledNotePostFailed' | 'app' | 'test' | 'pollVote' | 'groupInvited')[];
+        };
+      };
+    };
     responses: {
-      /** @description OK (without any results) */
-      204: {
-        content: never;
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': components['schemas']['Notification'][];
+        };
       };
       /** @description Client error */
       400: {
@@ -19322,17 +23799,34 @@ export type operations = {
     };
   };
   /**
-   * i/export-user-lists
+   * i/notifications-grouped
    * @description No description provided.
    *
-   * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
-   * **Credential required**: *Yes*
+   * **Credential required**: *Yes* / **Permission**: *read:notifications*
    */
-  'i___export-user-lists': {
+  'i___notifications-grouped': {
+    requestBody: {
+      content: {
+        'application/json': {
+          /** @default 10 */
+          limit?: number;
+          /** Format: misskey:id */
+          sinceId?: string;
+          /** Format: misskey:id */
+          untilId?: string;
+          /** @default true */
+          markAsRead?: boolean;
+          includeTypes?: ('note' | 'follow' | 'mention' | 'reply' | 'renote' | 'quote' | 'reaction' | 'pollEnded' | 'receiveFollowRequest' | 'followRequestAccepted' | 'roleAssigned' | 'achievementEarned' | 'exportCompleted' | 'login' | 'createToken' | 'abuseReportResolved' | 'userWarningAppealResolved' | 'scheduledNotePostFailed' | 'app' | 'test' | 'reaction:grouped' | 'renote:grouped' | 'pollVote' | 'groupInvited')[];
+          excludeTypes?: ('note' | 'follow' | 'mention' | 'reply' | 'renote' | 'quote' | 'reaction' | 'pollEnded' | 'receiveFollowRequest' | 'followRequestAccepted' | 'roleAssigned' | 'achievementEarned' | 'exportCompleted' | 'login' | 'createToken' | 'abuseReportResolved' | 'userWarningAppealResolved' | 'scheduledNotePostFailed' | 'app' | 'test' | 'reaction:grouped' | 'renote:grouped' | 'pollVote' | 'groupInvited')[];
+        };
+      };
+    };
     responses: {
-      /** @description OK (without any results) */
-      204: {
-        content: never;
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': components['schemas']['Notification'][];
+        };
       };
       /** @description Client error */
       400: {
@@ -19373,12 +23867,12 @@ export type operations = {
     };
   };
   /**
-   * i/favorites
+   * i/page-likes
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *read:favorites*
+   * **Credential required**: *Yes* / **Permission**: *read:page-likes*
    */
-  i___favorites: {
+  'i___page-likes': {
     requestBody: {
       content: {
         'application/json': {
@@ -19395,7 +23889,11 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': components['schemas']['NoteFavorite'][];
+          'application/json': {
+              /** Format: id */
+              id: string;
+              page: components['schemas']['Page'];
+            }[];
         };
       };
       /** @description Client error */
@@ -19431,12 +23929,12 @@ export type operations = {
     };
   };
   /**
-   * i/gallery/likes
+   * i/pages
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *read:gallery-likes*
+   * **Credential required**: *Yes* / **Permission**: *read:pages*
    */
-  i___gallery___likes: {
+  i___pages: {
     requestBody: {
       content: {
         'application/json': {
@@ -19453,11 +23951,7 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': {
-              /** Format: id */
-              id: string;
-              post: components['schemas']['GalleryPost'];
-            }[];
+          'application/json': components['schemas']['Page'][];
         };
       };
       /** @description Client error */
@@ -19493,21 +23987,17 @@ export type operations = {
     };
   };
   /**
-   * i/gallery/posts
+   * i/pin
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *read:gallery*
+   * **Credential required**: *Yes* / **Permission**: *write:account*
    */
-  i___gallery___posts: {
+  i___pin: {
     requestBody: {
       content: {
         'application/json': {
-          /** @default 10 */
-          limit?: number;
-          /** Format: misskey:id */
-          sinceId?: string;
           /** Format: misskey:id */
-          untilId?: string;
+          noteId: string;
         };
       };
     };
@@ -19515,7 +24005,7 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': components['schemas']['GalleryPost'][];
+          'application/json': components['schemas']['MeDetailed'];
         };
       };
       /** @description Client error */
@@ -19551,21 +24041,12 @@ export type operations = {
     };
   };
   /**
-   * i/import-antennas
+   * i/read-all-unread-notes
    * @description No description provided.
    *
-   * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
-   * **Credential required**: *Yes*
+   * **Credential required**: *Yes* / **Permission**: *write:account*
    */
-  'i___import-antennas': {
-    requestBody: {
-      content: {
-        'application/json': {
-          /** Format: misskey:id */
-          fileId: string;
-        };
-      };
-    };
+  'i___read-all-unread-notes': {
     responses: {
       /** @description OK (without any results) */
       204: {
@@ -19595,12 +24076,6 @@ export type operations = {
           'application/json': components['schemas']['Error'];
         };
       };
-      /** @description Too many requests */
-      429: {
-        content: {
-          'application/json': components['schemas']['Error'];
-        };
-      };
       /** @description Internal server error */
       500: {
         content: {
@@ -19610,18 +24085,17 @@ export type operations = {
     };
   };
   /**
-   * i/import-blocking
+   * i/read-announcement
    * @description No description provided.
    *
-   * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
-   * **Credential required**: *Yes*
+   * **Credential required**: *Yes* / **Permission**: *write:account*
    */
-  'i___import-blocking': {
+  'i___read-announcement': {
     requestBody: {
       content: {
         'application/json': {
           /** Format: misskey:id */
-          fileId: string;
+          announcementId: string;
         };
       };
     };
@@ -19654,12 +24128,6 @@ export type operations = {
           'application/json': components['schemas']['Error'];
         };
       };
-      /** @description Too many requests */
-      429: {
-        content: {
-          'application/json': components['schemas']['Error'];
-        };
-      };
       /** @description Internal server error */
       500: {
         content: {
@@ -19669,19 +24137,17 @@ export type operations = {
     };
   };
   /**
-   * i/import-following
+   * i/regenerate-token
    * @description No description provided.
    *
    * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
    * **Credential required**: *Yes*
    */
-  'i___import-following': {
+  'i___regenerate-token': {
     requestBody: {
       content: {
         'application/json': {
-          /** Format: misskey:id */
-          fileId: string;
-          withReplies?: boolean;
+          password: string;
         };
       };
     };
@@ -19714,12 +24180,6 @@ export type operations = {
           'application/json': components['schemas']['Error'];
         };
       };
-      /** @description Too many requests */
-      429: {
-        content: {
-          'application/json': components['schemas']['Error'];
-        };
-      };
       /** @description Internal server error */
       500: {
         content: {
@@ -19729,25 +24189,28 @@ export type operations = {
     };
   };
   /**
-   * i/import-muting
+   * i/registry/get
    * @description No description provided.
    *
-   * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
-   * **Credential required**: *Yes*
+   * **Credential required**: *Yes* / **Permission**: *read:account*
    */
-  'i___import-muting': {
+  i___registry___get: {
     requestBody: {
       content: {
         'application/json': {
-          /** Format: misskey:id */
-          fileId: string;
+          key: string;
+          /** @default [] */
+          scope: string[];
+          domain?: string | null;
         };
       };
     };
     responses: {
-      /** @description OK (without any results) */
-      204: {
-        content: never;
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': Record<string, never>;
+        };
       };
       /** @description Client error */
       400: {
@@ -19773,12 +24236,6 @@ export type operations = {
           'application/json': components['schemas']['Error'];
         };
       };
-      /** @description Too many requests */
-      429: {
-        content: {
-          'application/json': components['schemas']['Error'];
-        };
-      };
       /** @description Internal server error */
       500: {
         content: {
@@ -19788,25 +24245,27 @@ export type operations = {
     };
   };
   /**
-   * i/import-user-lists
+   * i/registry/get-all
    * @description No description provided.
    *
-   * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
-   * **Credential required**: *Yes*
+   * **Credential required**: *Yes* / **Permission**: *read:account*
    */
-  'i___import-user-lists': {
+  'i___registry___get-all': {
     requestBody: {
       content: {
         'application/json': {
-          /** Format: misskey:id */
-          fileId: string;
+          /** @default [] */
+          scope: string[];
+          domain?: string | null;
         };
       };
     };
     responses: {
-      /** @description OK (without any results) */
-      204: {
-        content: never;
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': Record<string, never>;
+        };
       };
       /** @description Client error */
       400: {
@@ -19832,12 +24291,6 @@ export type operations = {
           'application/json': components['schemas']['Error'];
         };
       };
-      /** @description Too many requests */
-      429: {
-        content: {
-          'application/json': components['schemas']['Error'];
-        };
-      };
       /** @description Internal server error */
       500: {
         content: {
@@ -19847,17 +24300,19 @@ export type operations = {
     };
   };
   /**
-   * i/move
+   * i/registry/get-detail
    * @description No description provided.
    *
-   * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
-   * **Credential required**: *Yes*
+   * **Credential required**: *Yes* / **Permission**: *read:account*
    */
-  i___move: {
+  'i___registry___get-detail': {
     requestBody: {
       content: {
         'application/json': {
-          moveToAccount: string;
+          key: string;
+          /** @default [] */
+          scope: string[];
+          domain?: string | null;
         };
       };
     };
@@ -19865,7 +24320,10 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': Record<string, never>;
+          'application/json': {
+            updatedAt: string;
+            value: unknown;
+          };
         };
       };
       /** @description Client error */
@@ -19892,12 +24350,6 @@ export type operations = {
           'application/json': components['schemas']['Error'];
         };
       };
-      /** @description Too many requests */
-      429: {
-        content: {
-          'application/json': components['schemas']['Error'];
-        };
-      };
       /** @description Internal server error */
       500: {
         content: {
@@ -19907,25 +24359,18 @@ export type operations = {
     };
   };
   /**
-   * i/notifications
+   * i/registry/keys
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *read:notifications*
+   * **Credential required**: *Yes* / **Permission**: *read:account*
    */
-  i___notifications: {
+  i___registry___keys: {
     requestBody: {
       content: {
         'application/json': {
-          /** @default 10 */
-          limit?: number;
-          /** Format: misskey:id */
-          sinceId?: string;
-          /** Format: misskey:id */
-          untilId?: string;
-          /** @default true */
-          markAsRead?: boolean;
-          includeTypes?: ('note' | 'follow' | 'mention' | 'reply' | 'renote' | 'quote' | 'reaction' | 'pollEnded' | 'receiveFollowRequest' | 'followRequestAccepted' | 'roleAssigned' | 'achievementEarned' | 'exportCompleted' | 'login' | 'createToken' | 'app' | 'test' | 'pollVote' | 'groupInvited')[];
-          excludeTypes?: ('note' | 'follow' | 'mention' | 'reply' | 'renote' | 'quote' | 'reaction' | 'pollEnded' | 'receiveFollowRequest' | 'followRequestAccepted' | 'roleAssigned' | 'achievementEarned' | 'exportCompleted' | 'login' | 'createToken' | 'app' | 'test' | 'pollVote' | 'groupInvited')[];
+          /** @default [] */
+          scope: string[];
+          domain?: string | null;
         };
       };
     };
@@ -19933,7 +24378,7 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': components['schemas']['Notification'][];
+          'application/json': string[];
         };
       };
       /** @description Client error */
@@ -19960,12 +24405,6 @@ export type operations = {
           'application/json': components['schemas']['Error'];
         };
       };
-      /** @description Too many requests */
-      429: {
-        content: {
-          'application/json': components['schemas']['Error'];
-        };
-      };
       /** @description Internal server error */
       500: {
         content: {
@@ -19975,25 +24414,18 @@ export type operations = {
     };
   };
   /**
-   * i/notifications-grouped
+   * i/registry/keys-with-type
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *read:notifications*
+   * **Credential required**: *Yes* / **Permission**: *read:account*
    */
-  'i___notifications-grouped': {
+  'i___registry___keys-with-type': {
     requestBody: {
       content: {
         'application/json': {
-          /** @default 10 */
-          limit?: number;
-          /** Format: misskey:id */
-          sinceId?: string;
-          /** Format: misskey:id */
-          untilId?: string;
-          /** @default true */
-          markAsRead?: boolean;
-          includeTypes?: ('note' | 'follow' | 'mention' | 'reply' | 'renote' | 'quote' | 'reaction' | 'pollEnded' | 'receiveFollowRequest' | 'followRequestAccepted' | 'roleAssigned' | 'achievementEarned' | 'exportCompleted' | 'login' | 'createToken' | 'app' | 'test' | 'reaction:grouped' | 'renote:grouped' | 'pollVote' | 'groupInvited')[];
-          excludeTypes?: ('note' | 'follow' | 'mention' | 'reply' | 'renote' | 'quote' | 'reaction' | 'pollEnded' | 'receiveFollowRequest' | 'followRequestAccepted' | 'roleAssigned' | 'achievementEarned' | 'exportCompleted' | 'login' | 'createToken' | 'app' | 'test' | 'reaction:grouped' | 'renote:grouped' | 'pollVote' | 'groupInvited')[];
+          /** @default [] */
+          scope: string[];
+          domain?: string | null;
         };
       };
     };
@@ -20001,7 +24433,9 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': components['schemas']['Notification'][];
+          'application/json': {
+            [key: string]: string;
+          };
         };
       };
       /** @description Client error */
@@ -20028,12 +24462,6 @@ export type operations = {
           'application/json': components['schemas']['Error'];
         };
       };
-      /** @description Too many requests */
-      429: {
-        content: {
-          'application/json': components['schemas']['Error'];
-        };
-      };
       /** @description Internal server error */
       500: {
         content: {
@@ -20043,34 +24471,26 @@ export type operations = {
     };
   };
   /**
-   * i/page-likes
+   * i/registry/remove
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *read:page-likes*
+   * **Credential required**: *Yes* / **Permission**: *write:account*
    */
-  'i___page-likes': {
+  i___registry___remove: {
     requestBody: {
       content: {
         'application/json': {
-          /** @default 10 */
-          limit?: number;
-          /** Format: misskey:id */
-          sinceId?: string;
-          /** Format: misskey:id */
-          untilId?: string;
+          key: string;
+          /** @default [] */
+          scope: string[];
+          domain?: string | null;
         };
       };
     };
     responses: {
-      /** @description OK (with results) */
-      200: {
-        content: {
-          'application/json': {
-              /** Format: id */
-              id: string;
-              page: components['schemas']['Page'];
-            }[];
-        };
+      /** @description OK (without any results) */
+      204: {
+        content: never;
       };
       /** @description Client error */
       400: {
@@ -20098,36 +24518,28 @@ export type operations = {
       };
       /** @description Internal server error */
       500: {
-        content: {
-          'application/json': components['schemas']['Error'];
-        };
-      };
-    };
-  };
-  /**
-   * i/pages
-   * @description No description provided.
-   *
-   * **Credential required**: *Yes* / **Permission**: *read:pages*
-   */
-  i___pages: {
-    requestBody: {
-      content: {
-        'application/json': {
-          /** @default 10 */
-          limit?: number;
-          /** Format: misskey:id */
-          sinceId?: string;
-          /** Format: misskey:id */
-          untilId?: string;
+        content: {
+          'application/json': components['schemas']['Error'];
         };
       };
     };
+  };
+  /**
+   * i/registry/scopes-with-domain
+   * @description No description provided.
+   *
+   * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
+   * **Credential required**: *Yes*
+   */
+  'i___registry___scopes-with-domain': {
     responses: {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': components['schemas']['Page'][];
+          'application/json': ({
+              scopes: string[][];
+              domain: string | null;
+            })[];
         };
       };
       /** @description Client error */
@@ -20163,26 +24575,27 @@ export type operations = {
     };
   };
   /**
-   * i/pin
+   * i/registry/set
    * @description No description provided.
    *
    * **Credential required**: *Yes* / **Permission**: *write:account*
    */
-  i___pin: {
+  i___registry___set: {
     requestBody: {
       content: {
         'application/json': {
-          /** Format: misskey:id */
-          noteId: string;
+          key: string;
+          value: unknown;
+          /** @default [] */
+          scope: string[];
+          domain?: string | null;
         };
       };
     };
     responses: {
-      /** @description OK (with results) */
-      200: {
-        content: {
-          'application/json': components['schemas']['MeDetailed'];
-        };
+      /** @description OK (without any results) */
+      204: {
+        content: never;
       };
       /** @description Client error */
       400: {
@@ -20217,12 +24630,22 @@ export type operations = {
     };
   };
   /**
-   * i/read-all-unread-notes
+   * i/revoke-token
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:account*
+   * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
+   * **Credential required**: *Yes*
    */
-  'i___read-all-unread-notes': {
+  'i___revoke-token': {
+    requestBody: {
+      content: {
+        'application/json': {
+          /** Format: misskey:id */
+          tokenId?: string;
+          token?: string | null;
+        };
+      };
+    };
     responses: {
       /** @description OK (without any results) */
       204: {
@@ -20261,24 +24684,31 @@ export type operations = {
     };
   };
   /**
-   * i/read-announcement
+   * i/signin-history
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:account*
+   * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
+   * **Credential required**: *Yes*
    */
-  'i___read-announcement': {
+  'i___signin-history': {
     requestBody: {
       content: {
         'application/json': {
+          /** @default 10 */
+          limit?: number;
           /** Format: misskey:id */
-          announcementId: string;
+          sinceId?: string;
+          /** Format: misskey:id */
+          untilId?: string;
         };
       };
     };
     responses: {
-      /** @description OK (without any results) */
-      204: {
-        content: never;
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': components['schemas']['Signin'][];
+        };
       };
       /** @description Client error */
       400: {
@@ -20313,24 +24743,26 @@ export type operations = {
     };
   };
   /**
-   * i/regenerate-token
+   * i/unpin
    * @description No description provided.
    *
-   * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
-   * **Credential required**: *Yes*
+   * **Credential required**: *Yes* / **Permission**: *write:account*
    */
-  'i___regenerate-token': {
+  i___unpin: {
     requestBody: {
       content: {
         'application/json': {
-          password: string;
+          /** Format: misskey:id */
+          noteId: string;
         };
       };
     };
     responses: {
-      /** @description OK (without any results) */
-      204: {
-        content: never;
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': components['schemas']['MeDetailed'];
+        };
       };
       /** @description Client error */
       400: {
@@ -20365,19 +24797,194 @@ export type operations = {
     };
   };
   /**
-   * i/registry/get
+   * i/update
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *read:account*
+   * **Credential required**: *Yes* / **Permission**: *write:account*
    */
-  i___registry___get: {
+  i___update: {
     requestBody: {
       content: {
         'application/json': {
-          key: string;
-          /** @default [] */
-          scope: string[];
-          domain?: string | null;
+          name?: string | null;
+          description?: string | null;
+          followedMessage?: string | null;
+          location?: string | null;
+          birthday?: string | null;
+          /** @enum {string|null} */
+          lang?: null | 'ach' | 'ady' | 'af' | 'af-NA' | 'af-ZA' | 'ak' | 'ar' | 'ar-AR' | 'ar-MA' | 'ar-SA' | 'ay-BO' | 'az' | 'az-AZ' | 'be-BY' | 'bg' | 'bg-BG' | 'bn' | 'bn-IN' | 'bn-BD' | 'br' | 'bs-BA' | 'ca' | 'ca-ES' | 'cak' | 'ck-US' | 'cs' | 'cs-CZ' | 'cy' | 'cy-GB' | 'da' | 'da-DK' | 'de' | 'de-AT' | 'de-DE' | 'de-CH' | 'dsb' | 'el' | 'el-GR' | 'en' | 'en-GB' | 'en-AU' | 'en-CA' | 'en-IE' | 'en-IN' | 'en-PI' | 'en-SG' | 'en-UD' | 'en-US' | 'en-ZA' | 'en@pirate' | 'eo' | 'eo-EO' | 'es' | 'es-AR' | 'es-419' | 'es-CL' | 'es-CO' | 'es-EC' | 'es-ES' | 'es-LA' | 'es-NI' | 'es-MX' | 'es-US' | 'es-VE' | 'et' | 'et-EE' | 'eu' | 'eu-ES' | 'fa' | 'fa-IR' | 'fb-LT' | 'ff' | 'fi' | 'fi-FI' | 'fo' | 'fo-FO' | 'fr' | 'fr-CA' | 'fr-FR' | 'fr-BE' | 'fr-CH' | 'fy-NL' | 'ga' | 'ga-IE' | 'gd' | 'gl' | 'gl-ES' | 'gn-PY' | 'gu-IN' | 'gv' | 'gx-GR' | 'he' | 'he-IL' | 'hi' | 'hi-IN' | 'hr' | 'hr-HR' | 'hsb' | 'ht' | 'hu' | 'hu-HU' | 'hy' | 'hy-AM' | 'id' | 'id-ID' | 'is' | 'is-IS' | 'it' | 'it-IT' | 'ja' | 'ja-JP' | 'jv-ID' | 'ka-GE' | 'kk-KZ' | 'km' | 'kl' | 'km-KH' | 'kab' | 'kn' | 'kn-IN' | 'ko' | 'ko-KR' | 'ku-TR' | 'kw' | 'la' | 'la-VA' | 'lb' | 'li-NL' | 'lt' | 'lt-LT' | 'lv' | 'lv-LV' | 'mai' | 'mg-MG' | 'mk' | 'mk-MK' | 'ml' | 'ml-IN' | 'mn-MN' | 'mr' | 'mr-IN' | 'ms' | 'ms-MY' | 'mt' | 'mt-MT' | 'my' | 'no' | 'nb' | 'nb-NO' | 'ne' | 'ne-NP' | 'nl' | 'nl-BE' | 'nl-NL' | 'nn-NO' | 'oc' | 'or-IN' | 'pa' | 'pa-IN' | 'pl' | 'pl-PL' | 'ps-AF' | 'pt' | 'pt-BR' | 'pt-PT' | 'qu-PE' | 'rm-CH' | 'ro' | 'ro-RO' | 'ru' | 'ru-RU' | 'sa-IN' | 'se-NO' | 'sh' | 'si-LK' | 'sk' | 'sk-SK' | 'sl' | 'sl-SI' | 'so-SO' | 'sq' | 'sq-AL' | 'sr' | 'sr-RS' | 'su' | 'sv' | 'sv-SE' | 'sw' | 'sw-KE' | 'ta' | 'ta-IN' | 'te' | 'te-IN' | 'tg' | 'tg-TJ' | 'th' | 'th-TH' | 'fil' | 'tlh' | 'tr' | 'tr-TR' | 'tt-RU' | 'uk' | 'uk-UA' | 'ur' | 'ur-PK' | 'uz' | 'uz-UZ' | 'vi' | 'vi-VN' | 'xh-ZA' | 'yi' | 'yi-DE' | 'zh' | 'zh-Hans' | 'zh-Hant' | 'zh-CN' | 'zh-HK' | 'zh-SG' | 'zh-TW' | 'zu-ZA';
+          /** Format: misskey:id */
+          avatarId?: string | null;
+          avatarDecorations?: ({
+              /** Format: misskey:id */
+              id: string;
+              angle?: number | null;
+              flipH?: boolean | null;
+              offsetX?: number | null;
+              offsetY?: number | null;
+            })[];
+          /** Format: misskey:id */
+          bannerId?: string | null;
+          fields?: {
+              name: string;
+              value: string;
+            }[];
+          isLocked?: boolean;
+          isExplorable?: boolean;
+          hideOnlineStatus?: boolean;
+          publicReactions?: boolean;
+          carefulBot?: boolean;
+          autoAcceptFollowed?: boolean;
+          noCrawle?: boolean;
+          preventAiLearning?: boolean;
+          requireSigninToViewContents?: boolean;
+          makeNotesFollowersOnlyBefore?: number | null;
+          makeNotesHiddenBefore?: number | null;
+          isBot?: boolean;
+          isCat?: boolean;
+          injectFeaturedNote?: boolean;
+          receiveAnnouncementEmail?: boolean;
+          alwaysMarkNsfw?: boolean;
+          autoSensitive?: boolean;
+          /** @enum {string} */
+          followingVisibility?: 'public' | 'followers' | 'private';
+          /** @enum {string} */
+          followersVisibility?: 'public' | 'followers' | 'private';
+          /** Format: misskey:id */
+          pinnedPageId?: string | null;
+          mutedWords?: (string[] | string)[];
+          hardMutedWords?: (string[] | string)[];
+          mutedInstances?: string[];
+          notificationRecieveConfig?: {
+            note?: OneOf<[{
+              /** @enum {string} */
+              type: 'all' | 'following' | 'follower' | 'mutualFollow' | 'followingOrFollower' | 'never';
+            }, {
+              /** @enum {string} */
+              type: 'list';
+              /** Format: misskey:id */
+              userListId: string;
+            }]>;
+            follow?: OneOf<[{
+              /** @enum {string} */
+              type: 'all' | 'following' | 'follower' | 'mutualFollow' | 'followingOrFollower' | 'never';
+            }, {
+              /** @enum {string} */
+              type: 'list';
+              /** Format: misskey:id */
+              userListId: string;
+            }]>;
+            mention?: OneOf<[{
+              /** @enum {string} */
+              type: 'all' | 'following' | 'follower' | 'mutualFollow' | 'followingOrFollower' | 'never';
+            }, {
+              /** @enum {string} */
+              type: 'list';
+              /** Format: misskey:id */
+              userListId: string;
+            }]>;
+            reply?: OneOf<[{
+              /** @enum {string} */
+              type: 'all' | 'following' | 'follower' | 'mutualFollow' | 'followingOrFollower' | 'never';
+            }, {
+              /** @enum {string} */
+              type: 'list';
+              /** Format: misskey:id */
+              userListId: string;
+            }]>;
+            renote?: OneOf<[{
+              /** @enum {string} */
+              type: 'all' | 'following' | 'follower' | 'mutualFollow' | 'followingOrFollower' | 'never';
+            }, {
+              /** @enum {string} */
+              type: 'list';
+              /** Format: misskey:id */
+              userListId: string;
+            }]>;
+            quote?: OneOf<[{
+              /** @enum {string} */
+              type: 'all' | 'following' | 'follower' | 'mutualFollow' | 'followingOrFollower' | 'never';
+            }, {
+              /** @enum {string} */
+              type: 'list';
+              /** Format: misskey:id */
+              userListId: string;
+            }]>;
+            reaction?: OneOf<[{
+              /** @enum {string} */
+              type: 'all' | 'following' | 'follower' | 'mutualFollow' | 'followingOrFollower' | 'never';
+            }, {
+              /** @enum {string} */
+              type: 'list';
+              /** Format: misskey:id */
+              userListId: string;
+            }]>;
+            pollEnded?: OneOf<[{
+              /** @enum {string} */
+              type: 'all' | 'following' | 'follower' | 'mutualFollow' | 'followingOrFollower' | 'never';
+            }, {
+              /** @enum {string} */
+              type: 'list';
+              /** Format: misskey:id */
+              userListId: string;
+            }]>;
+            receiveFollowRequest?: OneOf<[{
+              /** @enum {string} */
+              type: 'all' | 'following' | 'follower' | 'mutualFollow' | 'followingOrFollower' | 'never';
+            }, {
+              /** @enum {string} */
+              type: 'list';
+              /** Format: misskey:id */
+              userListId: string;
+            }]>;
+            followRequestAccepted?: OneOf<[{
+              /** @enum {string} */
+              type: 'all' | 'following' | 'follower' | 'mutualFollow' | 'followingOrFollower' | 'never';
+            }, {
+              /** @enum {string} */
+              type: 'list';
+              /** Format: misskey:id */
+              userListId: string;
+            }]>;
+            roleAssigned?: OneOf<[{
+              /** @enum {string} */
+              type: 'all' | 'following' | 'follower' | 'mutualFollow' | 'followingOrFollower' | 'never';
+            }, {
+              /** @enum {string} */
+              type: 'list';
+              /** Format: misskey:id */
+              userListId: string;
+            }]>;
+            achievementEarned?: OneOf<[{
+              /** @enum {string} */
+              type: 'all' | 'following' | 'follower' | 'mutualFollow' | 'followingOrFollower' | 'never';
+            }, {
+              /** @enum {string} */
+              type: 'list';
+              /** Format: misskey:id */
+              userListId: string;
+            }]>;
+            app?: OneOf<[{
+              /** @enum {string} */
+              type: 'all' | 'following' | 'follower' | 'mutualFollow' | 'followingOrFollower' | 'never';
+            }, {
+              /** @enum {string} */
+              type: 'list';
+              /** Format: misskey:id */
+              userListId: string;
+            }]>;
+            test?: OneOf<[{
+              /** @enum {string} */
+              type: 'all' | 'following' | 'follower' | 'mutualFollow' | 'followingOrFollower' | 'never';
+            }, {
+              /** @enum {string} */
+              type: 'list';
+              /** Format: misskey:id */
+              userListId: string;
+            }]>;
+          };
+          emailNotificationTypes?: string[];
+          alsoKnownAs?: string[];
         };
       };
     };
@@ -20385,7 +24992,7 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': Record<string, never>;
+          'application/json': components['schemas']['MeDetailed'];
         };
       };
       /** @description Client error */
@@ -20412,57 +25019,8 @@ export type operations = {
           'application/json': components['schemas']['Error'];
         };
       };
-      /** @description Internal server error */
-      500: {
-        content: {
-          'application/json': components['schemas']['Error'];
-        };
-      };
-    };
-  };
-  /**
-   * i/registry/get-all
-   * @description No description provided.
-   *
-   * **Credential required**: *Yes* / **Permission**: *read:account*
-   */
-  'i___registry___get-all': {
-    requestBody: {
-      content: {
-        'application/json': {
-          /** @default [] */
-          scope: string[];
-          domain?: string | null;
-        };
-      };
-    };
-    responses: {
-      /** @description OK (with results) */
-      200: {
-        content: {
-          'application/json': Record<string, never>;
-        };
-      };
-      /** @description Client error */
-      400: {
-        content: {
-          'application/json': components['schemas']['Error'];
-        };
-      };
-      /** @description Authentication error */
-      401: {
-        content: {
-          'application/json': components['schemas']['Error'];
-        };
-      };
-      /** @description Forbidden error */
-      403: {
-        content: {
-          'application/json': components['schemas']['Error'];
-        };
-      };
-      /** @description I'm Ai */
-      418: {
+      /** @description Too many requests */
+      429: {
         content: {
           'application/json': components['schemas']['Error'];
         };
@@ -20476,19 +25034,19 @@ export type operations = {
     };
   };
   /**
-   * i/registry/get-detail
+   * i/update-email
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *read:account*
+   * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
+   * **Credential required**: *Yes*
    */
-  'i___registry___get-detail': {
+  'i___update-email': {
     requestBody: {
       content: {
         'application/json': {
-          key: string;
-          /** @default [] */
-          scope: string[];
-          domain?: string | null;
+          password: string;
+          email?: string | null;
+          token?: string | null;
         };
       };
     };
@@ -20496,10 +25054,7 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': {
-            updatedAt: string;
-            value: unknown;
-          };
+          'application/json': components['schemas']['MeDetailed'];
         };
       };
       /** @description Client error */
@@ -20526,6 +25081,12 @@ export type operations = {
           'application/json': components['schemas']['Error'];
         };
       };
+      /** @description Too many requests */
+      429: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
       /** @description Internal server error */
       500: {
         content: {
@@ -20535,18 +25096,21 @@ export type operations = {
     };
   };
   /**
-   * i/registry/keys
+   * i/warnings
    * @description No description provided.
    *
    * **Credential required**: *Yes* / **Permission**: *read:account*
    */
-  i___registry___keys: {
+  i___warnings: {
     requestBody: {
       content: {
         'application/json': {
-          /** @default [] */
-          scope: string[];
-          domain?: string | null;
+          /** @default 10 */
+          limit?: number;
+          /** Format: misskey:id */
+          sinceId?: string;
+          /** Format: misskey:id */
+          untilId?: string;
         };
       };
     };
@@ -20554,7 +25118,7 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': string[];
+          'application/json': components['schemas']['UserWarning'][];
         };
       };
       /** @description Client error */
@@ -20590,18 +25154,20 @@ export type operations = {
     };
   };
   /**
-   * i/registry/keys-with-type
+   * i/webhooks/create
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *read:account*
+   * **Credential required**: *Yes* / **Permission**: *write:account*
    */
-  'i___registry___keys-with-type': {
+  i___webhooks___create: {
     requestBody: {
       content: {
         'application/json': {
-          /** @default [] */
-          scope: string[];
-          domain?: string | null;
+          name: string;
+          url: string;
+          /** @default */
+          secret?: string;
+          on: ('mention' | 'unfollow' | 'follow' | 'followed' | 'note' | 'reply' | 'renote' | 'reaction' | 'noteDeleted' | 'followRequestReceived' | 'followRequestAccepted' | 'pollEnded' | 'antennaMatched' | 'achievementEarned' | 'notification')[];
         };
       };
     };
@@ -20610,7 +25176,18 @@ export type operations = {
       200: {
         content: {
           'application/json': {
-            [key: string]: string;
+            /** Format: misskey:id */
+            id: string;
+            /** Format: misskey:id */
+            userId: string;
+            name: string;
+            on: ('mention' | 'unfollow' | 'follow' | 'followed' | 'note' | 'reply' | 'renote' | 'reaction' | 'noteDeleted' | 'followRequestReceived' | 'followRequestAccepted' | 'pollEnded' | 'antennaMatched' | 'achievementEarned' | 'notification')[];
+            url: string;
+            secret: string;
+            active: boolean;
+            /** Format: date-time */
+            latestSentAt: string | null;
+            latestStatus: number | null;
           };
         };
       };
@@ -20647,19 +25224,17 @@ export type operations = {
     };
   };
   /**
-   * i/registry/remove
+   * i/webhooks/delete
    * @description No description provided.
    *
    * **Credential required**: *Yes* / **Permission**: *write:account*
    */
-  i___registry___remove: {
+  i___webhooks___delete: {
     requestBody: {
       content: {
         'application/json': {
-          key: string;
-          /** @default [] */
-          scope: string[];
-          domain?: string | null;
+          /** Format: misskey:id */
+          webhookId: string;
         };
       };
     };
@@ -20701,77 +25276,33 @@ export type operations = {
     };
   };
   /**
-   * i/registry/scopes-with-domain
+   * i/webhooks/delivery-logs
    * @description No description provided.
    *
    * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
-   * **Credential required**: *Yes*
-   */
-  'i___registry___scopes-with-domain': {
-    responses: {
-      /** @description OK (with results) */
-      200: {
-        content: {
-          'application/json': ({
-              scopes: string[][];
-              domain: string | null;
-            })[];
-        };
-      };
-      /** @description Client error */
-      400: {
-        content: {
-          'application/json': components['schemas']['Error'];
-        };
-      };
-      /** @description Authentication error */
-      401: {
-        content: {
-          'application/json': components['schemas']['Error'];
-        };
-      };
-      /** @description Forbidden error */
-      403: {
-        content: {
-          'application/json': components['schemas']['Error'];
-        };
-      };
-      /** @description I'm Ai */
-      418: {
-        content: {
-          'application/json': components['schemas']['Error'];
-        };
-      };
-      /** @description Internal server error */
-      500: {
-        content: {
-          'application/json': components['schemas']['Error'];
-        };
-      };
-    };
-  };
-  /**
-   * i/registry/set
-   * @description No description provided.
-   *
-   * **Credential required**: *Yes* / **Permission**: *write:account*
+   * **Credential required**: *Yes* / **Permission**: *read:account*
    */
-  i___registry___set: {
+  'i___webhooks___delivery-logs': {
     requestBody: {
       content: {
         'application/json': {
-          key: string;
-          value: unknown;
-          /** @default [] */
-          scope: string[];
-          domain?: string | null;
+          /** Format: misskey:id */
+          webhookId: string;
+          /** @default 10 */
+          limit?: number;
+          /** Format: misskey:id */
+          sinceId?: string;
+          /** Format: misskey:id */
+          untilId?: string;
         };
       };
     };
     responses: {
-      /** @description OK (without any results) */
-      204: {
-        content: never;
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': components['schemas']['WebhookDeliveryLog'][];
+        };
       };
       /** @description Client error */
       400: {
@@ -20806,26 +25337,31 @@ export type operations = {
     };
   };
   /**
-   * i/revoke-token
+   * i/webhooks/list
    * @description No description provided.
    *
-   * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
-   * **Credential required**: *Yes*
+   * **Credential required**: *Yes* / **Permission**: *read:account*
    */
-  'i___revoke-token': {
-    requestBody: {
-      content: {
-        'application/json': {
-          /** Format: misskey:id */
-          tokenId?: string;
-          token?: string | null;
-        };
-      };
-    };
+  i___webhooks___list: {
     responses: {
-      /** @description OK (without any results) */
-      204: {
-        content: never;
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': ({
+              /** Format: misskey:id */
+              id: string;
+              /** Format: misskey:id */
+              userId: string;
+              name: string;
+              on: ('mention' | 'unfollow' | 'follow' | 'followed' | 'note' | 'reply' | 'renote' | 'reaction' | 'noteDeleted' | 'followRequestReceived' | 'followRequestAccepted' | 'pollEnded' | 'antennaMatched' | 'achievementEarned' | 'notification')[];
+              url: string;
+              secret: string;
+              active: boolean;
+              /** Format: date-time */
+              latestSentAt: string | null;
+              latestStatus: number | null;
+            })[];
+        };
       };
       /** @description Client error */
       400: {
@@ -20860,31 +25396,27 @@ export type operations = {
     };
   };
   /**
-   * i/signin-history
+   * i/webhooks/redeliver
    * @description No description provided.
    *
    * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
-   * **Credential required**: *Yes*
+   * **Credential required**: *Yes* / **Permission**: *write:account*
    */
-  'i___signin-history': {
+  i___webhooks___redeliver: {
     requestBody: {
       content: {
         'application/json': {
-          /** @default 10 */
-          limit?: number;
           /** Format: misskey:id */
-          sinceId?: string;
+          webhookId: string;
           /** Format: misskey:id */
-          untilId?: string;
+          logId: string;
         };
       };
     };
     responses: {
-      /** @description OK (with results) */
-      200: {
-        content: {
-          'application/json': components['schemas']['Signin'][];
-        };
+      /** @description OK (without any results) */
+      204: {
+        content: never;
       };
       /** @description Client error */
       400: {
@@ -20910,6 +25442,12 @@ export type operations = {
           'application/json': components['schemas']['Error'];
         };
       };
+      /** @description Too many requests */
+      429: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
       /** @description Internal server error */
       500: {
         content: {
@@ -20919,17 +25457,17 @@ export type operations = {
     };
   };
   /**
-   * i/unpin
+   * i/webhooks/show
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:account*
+   * **Credential required**: *Yes* / **Permission**: *read:account*
    */
-  i___unpin: {
+  i___webhooks___show: {
     requestBody: {
       content: {
         'application/json': {
           /** Format: misskey:id */
-          noteId: string;
+          webhookId: string;
         };
       };
     };
@@ -20937,7 +25475,20 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': components['schemas']['MeDetailed'];
+          'application/json': {
+            /** Format: misskey:id */
+            id: string;
+            /** Format: misskey:id */
+            userId: string;
+            name: string;
+            on: ('mention' | 'unfollow' | 'follow' | 'followed' | 'note' | 'reply' | 'renote' | 'reaction' | 'noteDeleted' | 'followRequestReceived' | 'followRequestAccepted' | 'pollEnded' | 'antennaMatched' | 'achievementEarned' | 'notification')[];
+            url: string;
+            secret: string;
+            active: boolean;
+            /** Format: date-time */
+            latestSentAt: string | null;
+            latestStatus: number | null;
+          };
         };
       };
       /** @description Client error */
@@ -20973,204 +25524,95 @@ export type operations = {
     };
   };
   /**
-   * i/update
+   * i/webhooks/test
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:account*
+   * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
+   * **Credential required**: *Yes* / **Permission**: *read:account*
    */
-  i___update: {
+  i___webhooks___test: {
     requestBody: {
       content: {
         'application/json': {
-          name?: string | null;
-          description?: string | null;
-          followedMessage?: string | null;
-          location?: string | null;
-          birthday?: string | null;
-          /** @enum {string|null} */
-          lang?: null | 'ach' | 'ady' | 'af' | 'af-NA' | 'af-ZA' | 'ak' | 'ar' | 'ar-AR' | 'ar-MA' | 'ar-SA' | 'ay-BO' | 'az' | 'az-AZ' | 'be-BY' | 'bg' | 'bg-BG' | 'bn' | 'bn-IN' | 'bn-BD' | 'br' | 'bs-BA' | 'ca' | 'ca-ES' | 'cak' | 'ck-US' | 'cs' | 'cs-CZ' | 'cy' | 'cy-GB' | 'da' | 'da-DK' | 'de' | 'de-AT' | 'de-DE' | 'de-CH' | 'dsb' | 'el' | 'el-GR' | 'en' | 'en-GB' | 'en-AU' | 'en-CA' | 'en-IE' | 'en-IN' | 'en-PI' | 'en-SG' | 'en-UD' | 'en-US' | 'en-ZA' | 'en@pirate' | 'eo' | 'eo-EO' | 'es' | 'es-AR' | 'es-419' | 'es-CL' | 'es-CO' | 'es-EC' | 'es-ES' | 'es-LA' | 'es-NI' | 'es-MX' | 'es-US' | 'es-VE' | 'et' | 'et-EE' | 'eu' | 'eu-ES' | 'fa' | 'fa-IR' | 'fb-LT' | 'ff' | 'fi' | 'fi-FI' | 'fo' | 'fo-FO' | 'fr' | 'fr-CA' | 'fr-FR' | 'fr-BE' | 'fr-CH' | 'fy-NL' | 'ga' | 'ga-IE' | 'gd' | 'gl' | 'gl-ES' | 'gn-PY' | 'gu-IN' | 'gv' | 'gx-GR' | 'he' | 'he-IL' | 'hi' | 'hi-IN' | 'hr' | 'hr-HR' | 'hsb' | 'ht' | 'hu' | 'hu-HU' | 'hy' | 'hy-AM' | 'id' | 'id-ID' | 'is' | 'is-IS' | 'it' | 'it-IT' | 'ja' | 'ja-JP' | 'jv-ID' | 'ka-GE' | 'kk-KZ' | 'km' | 'kl' | 'km-KH' | 'kab' | 'kn' | 'kn-IN' | 'ko' | 'ko-KR' | 'ku-TR' | 'kw' | 'la' | 'la-VA' | 'lb' | 'li-NL' | 'lt' | 'lt-LT' | 'lv' | 'lv-LV' | 'mai' | 'mg-MG' | 'mk' | 'mk-MK' | 'ml' | 'ml-IN' | 'mn-MN' | 'mr' | 'mr-IN' | 'ms' | 'ms-MY' | 'mt' | 'mt-MT' | 'my' | 'no' | 'nb' | 'nb-NO' | 'ne' | 'ne-NP' | 'nl' | 'nl-BE' | 'nl-NL' | 'nn-NO' | 'oc' | 'or-IN' | 'pa' | 'pa-IN' | 'pl' | 'pl-PL' | 'ps-AF' | 'pt' | 'pt-BR' | 'pt-PT' | 'qu-PE' | 'rm-CH' | 'ro' | 'ro-RO' | 'ru' | 'ru-RU' | 'sa-IN' | 'se-NO' | 'sh' | 'si-LK' | 'sk' | 'sk-SK' | 'sl' | 'sl-SI' | 'so-SO' | 'sq' | 'sq-AL' | 'sr' | 'sr-RS' | 'su' | 'sv' | 'sv-SE' | 'sw' | 'sw-KE' | 'ta' | 'ta-IN' | 'te' | 'te-IN' | 'tg' | 'tg-TJ' | 'th' | 'th-TH' | 'fil' | 'tlh' | 'tr' | 'tr-TR' | 'tt-RU' | 'uk' | 'uk-UA' | 'ur' | 'ur-PK' | 'uz' | 'uz-UZ' | 'vi' | 'vi-VN' | 'xh-ZA' | 'yi' | 'yi-DE' | 'zh' | 'zh-Hans' | 'zh-Hant' | 'zh-CN' | 'zh-HK' | 'zh-SG' | 'zh-TW' | 'zu-ZA';
-          /** Format: misskey:id */
-          avatarId?: string | null;
-          avatarDecorations?: ({
-              /** Format: misskey:id */
-              id: string;
-              angle?: number | null;
-              flipH?: boolean | null;
-              offsetX?: number | null;
-              offsetY?: number | null;
-            })[];
           /** Format: misskey:id */
-          bannerId?: string | null;
-          fields?: {
-              name: string;
-              value: string;
-            }[];
-          isLocked?: boolean;
-          isExplorable?: boolean;
-          hideOnlineStatus?: boolean;
-          publicReactions?: boolean;
-          carefulBot?: boolean;
-          autoAcceptFollowed?: boolean;
-          noCrawle?: boolean;
-          preventAiLearning?: boolean;
-          requireSigninToViewContents?: boolean;
-          makeNotesFollowersOnlyBefore?: number | null;
-          makeNotesHiddenBefore?: number | null;
-          isBot?: boolean;
-          isCat?: boolean;
-          injectFeaturedNote?: boolean;
-          receiveAnnouncementEmail?: boolean;
-          alwaysMarkNsfw?: boolean;
-          autoSensitive?: boolean;
-          /** @enum {string} */
-          followingVisibility?: 'public' | 'followers' | 'private';
+          webhookId: string;
           /** @enum {string} */
-          followersVisibility?: 'public' | 'followers' | 'private';
-          /** Format: misskey:id */
-          pinnedPageId?: string | null;
-          mutedWords?: (string[] | string)[];
-          hardMutedWords?: (string[] | string)[];
-          mutedInstances?: string[];
-          notificationRecieveConfig?: {
-            note?: OneOf<[{
-              /** @enum {string} */
-              type: 'all' | 'following' | 'follower' | 'mutualFollow' | 'followingOrFollower' | 'never';
-            }, {
-              /** @enum {string} */
-              type: 'list';
-              /** Format: misskey:id */
-              userListId: string;
-            }]>;
-            follow?: OneOf<[{
-              /** @enum {string} */
-              type: 'all' | 'following' | 'follower' | 'mutualFollow' | 'followingOrFollower' | 'never';
-            }, {
-              /** @enum {string} */
-              type: 'list';
-              /** Format: misskey:id */
-              userListId: string;
-            }]>;
-            mention?: OneOf<[{
-              /** @enum {string} */
-              type: 'all' | 'following' | 'follower' | 'mutualFollow' | 'followingOrFollower' | 'never';
-            }, {
-              /** @enum {string} */
-              type: 'list';
-              /** Format: misskey:id */
-              userListId: string;
-            }]>;
-            reply?: OneOf<[{
-              /** @enum {string} */
-              type: 'all' | 'following' | 'follower' | 'mutualFollow' | 'followingOrFollower' | 'never';
-            }, {
-              /** @enum {string} */
-              type: 'list';
-              /** Format: misskey:id */
-              userListId: string;
-            }]>;
-            renote?: OneOf<[{
-              /** @enum {string} */
-              type: 'all' | 'following' | 'follower' | 'mutualFollow' | 'followingOrFollower' | 'never';
-            }, {
-              /** @enum {string} */
-              type: 'list';
-              /** Format: misskey:id */
-              userListId: string;
-            }]>;
-            quote?: OneOf<[{
-              /** @enum {string} */
-              type: 'all' | 'following' | 'follower' | 'mutualFollow' | 'followingOrFollower' | 'never';
-            }, {
-              /** @enum {string} */
-              type: 'list';
-              /** Format: misskey:id */
-              userListId: string;
-            }]>;
-            reaction?: OneOf<[{
-              /** @enum {string} */
-              type: 'all' | 'following' | 'follower' | 'mutualFollow' | 'followingOrFollower' | 'never';
-            }, {
-              /** @enum {string} */
-              type: 'list';
-              /** Format: misskey:id */
-              userListId: string;
-            }]>;
-            pollEnded?: OneOf<[{
-              /** @enum {string} */
-              type: 'all' | 'following' | 'follower' | 'mutualFollow' | 'followingOrFollower' | 'never';
-            }, {
-              /** @enum {string} */
-              type: 'list';
-              /** Format: misskey:id */
-              userListId: string;
-            }]>;
-            receiveFollowRequest?: OneOf<[{
-              /** @enum {string} */
-              type: 'all' | 'following' | 'follower' | 'mutualFollow' | 'followingOrFollower' | 'never';
-            }, {
-              /** @enum {string} */
-              type: 'list';
-              /** Format: misskey:id */
-              userListId: string;
-            }]>;
-            followRequestAccepted?: OneOf<[{
-              /** @enum {string} */
-              type: 'all' | 'following' | 'follower' | 'mutualFollow' | 'followingOrFollower' | 'never';
-            }, {
-              /** @enum {string} */
-              type: 'list';
-              /** Format: misskey:id */
-              userListId: string;
-            }]>;
-            roleAssigned?: OneOf<[{
-              /** @enum {string} */
-              type: 'all' | 'following' | 'follower' | 'mutualFollow' | 'followingOrFollower' | 'never';
-            }, {
-              /** @enum {string} */
-              type: 'list';
-              /** Format: misskey:id */
-              userListId: string;
-            }]>;
-            achievementEarned?: OneOf<[{
-              /** @enum {string} */
-              type: 'all' | 'following' | 'follower' | 'mutualFollow' | 'followingOrFollower' | 'never';
-            }, {
-              /** @enum {string} */
-              type: 'list';
-              /** Format: misskey:id */
-              userListId: string;
-            }]>;
-            app?: OneOf<[{
-              /** @enum {string} */
-              type: 'all' | 'following' | 'follower' | 'mutualFollow' | 'followingOrFollower' | 'never';
-            }, {
-              /** @enum {string} */
-              type: 'list';
-              /** Format: misskey:id */
-              userListId: string;
-            }]>;
-            test?: OneOf<[{
-              /** @enum {string} */
-              type: 'all' | 'following' | 'follower' | 'mutualFollow' | 'followingOrFollower' | 'never';
-            }, {
-              /** @enum {string} */
-              type: 'list';
-              /** Format: misskey:id */
-              userListId: string;
-            }]>;
+          type: 'mention' | 'unfollow' | 'follow' | 'followed' | 'note' | 'reply' | 'renote' | 'reaction' | 'noteDeleted' | 'followRequestReceived' | 'followRequestAccepted' | 'pollEnded' | 'antennaMatched' | 'achievementEarned' | 'notification';
+          override?: {
+            url?: string;
+            secret?: string;
           };
-          emailNotificationTypes?: string[];
-          alsoKnownAs?: string[];
         };
       };
-    };
-    responses: {
-      /** @description OK (with results) */
-      200: {
+    };
+    responses: {
+      /** @description OK (without any results) */
+      204: {
+        content: never;
+      };
+      /** @description Client error */
+      400: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Authentication error */
+      401: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Forbidden error */
+      403: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description I'm Ai */
+      418: {
         content: {
-          'application/json': components['schemas']['MeDetailed'];
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Too many requests */
+      429: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Internal server error */
+      500: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+    };
+  };
+  /**
+   * i/webhooks/update
+   * @description No description provided.
+   *
+   * **Credential required**: *Yes* / **Permission**: *write:account*
+   */
+  i___webhooks___update: {
+    requestBody: {
+      content: {
+        'application/json': {
+          /** Format: misskey:id */
+          webhookId: string;
+          name?: string;
+          url?: string;
+          secret?: string | null;
+          on?: ('mention' | 'unfollow' | 'follow' | 'followed' | 'note' | 'reply' | 'renote' | 'reaction' | 'noteDeleted' | 'followRequestReceived' | 'followRequestAccepted' | 'pollEnded' | 'antennaMatched' | 'achievementEarned' | 'notification')[];
+          active?: boolean;
         };
       };
+    };
+    responses: {
+      /** @description OK (without any results) */
+      204: {
+        content: never;
+      };
       /** @description Client error */
       400: {
         content: {
@@ -21195,8 +25637,48 @@ export type operations = {
           'application/json': components['schemas']['Error'];
         };
       };
-      /** @description Too many requests */
-      429: {
+      /** @description Internal server error */
+      500: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+    };
+  };
+  /**
+   * invite/create
+   * @description No description provided.
+   *
+   * **Credential required**: *Yes* / **Permission**: *write:invite-codes*
+   */
+  invite___create: {
+    responses: {
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': components['schemas']['InviteCode'];
+        };
+      };
+      /** @description Client error */
+      400: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Authentication error */
+      401: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Forbidden error */
+      403: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description I'm Ai */
+      418: {
         content: {
           'application/json': components['schemas']['Error'];
         };
@@ -21210,27 +25692,71 @@ export type operations = {
     };
   };
   /**
-   * i/update-email
+   * invite/delete
    * @description No description provided.
    *
-   * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
-   * **Credential required**: *Yes*
+   * **Credential required**: *Yes* / **Permission**: *write:invite-codes*
    */
-  'i___update-email': {
+  invite___delete: {
     requestBody: {
       content: {
         'application/json': {
-          password: string;
-          email?: string | null;
-          token?: string | null;
+          /** Format: misskey:id */
+          inviteId: string;
+        };
+      };
+    };
+    responses: {
+      /** @description OK (without any results) */
+      204: {
+        content: never;
+      };
+      /** @description Client error */
+      400: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Authentication error */
+      401: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Forbidden error */
+      403: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description I'm Ai */
+      418: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Internal server error */
+      500: {
+        content: {
+          'application/json': components['schemas']['Error'];
         };
       };
     };
+  };
+  /**
+   * invite/limit
+   * @description No description provided.
+   *
+   * **Credential required**: *Yes* / **Permission**: *read:invite-codes*
+   */
+  invite___limit: {
     responses: {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': components['schemas']['MeDetailed'];
+          'application/json': {
+            remaining: number | null;
+          };
         };
       };
       /** @description Client error */
@@ -21257,8 +25783,60 @@ export type operations = {
           'application/json': components['schemas']['Error'];
         };
       };
-      /** @description Too many requests */
-      429: {
+      /** @description Internal server error */
+      500: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+    };
+  };
+  /**
+   * invite/list
+   * @description No description provided.
+   *
+   * **Credential required**: *Yes* / **Permission**: *read:invite-codes*
+   */
+  invite___list: {
+    requestBody: {
+      content: {
+        'application/json': {
+          /** @default 30 */
+          limit?: number;
+          /** Format: misskey:id */
+          sinceId?: string;
+          /** Format: misskey:id */
+          untilId?: string;
+        };
+      };
+    };
+    responses: {
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': components['schemas']['InviteCode'][];
+        };
+      };
+      /** @description Client error */
+      400: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Authentication error */
+      401: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Forbidden error */
+      403: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description I'm Ai */
+      418: {
         content: {
           'application/json': components['schemas']['Error'];
         };
@@ -21272,20 +25850,17 @@ export type operations = {
     };
   };
   /**
-   * i/webhooks/create
+   * meta
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:account*
+   * **Credential required**: *No*
    */
-  i___webhooks___create: {
+  meta: {
     requestBody: {
       content: {
         'application/json': {
-          name: string;
-          url: string;
-          /** @default */
-          secret?: string;
-          on: ('mention' | 'unfollow' | 'follow' | 'followed' | 'note' | 'reply' | 'renote' | 'reaction')[];
+          /** @default true */
+          detail?: boolean;
         };
       };
     };
@@ -21293,20 +25868,7 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': {
-            /** Format: misskey:id */
-            id: string;
-            /** Format: misskey:id */
-            userId: string;
-            name: string;
-            on: ('mention' | 'unfollow' | 'follow' | 'followed' | 'note' | 'reply' | 'renote' | 'reaction')[];
-            url: string;
-            secret: string;
-            active: boolean;
-            /** Format: date-time */
-            latestSentAt: string | null;
-            latestStatus: number | null;
-          };
+          'application/json': components['schemas']['MetaLite'] | components['schemas']['MetaDetailed'];
         };
       };
       /** @description Client error */
@@ -21342,24 +25904,32 @@ export type operations = {
     };
   };
   /**
-   * i/webhooks/delete
+   * miauth/gen-token
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:account*
+   * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
+   * **Credential required**: *Yes*
    */
-  i___webhooks___delete: {
+  'miauth___gen-token': {
     requestBody: {
       content: {
         'application/json': {
-          /** Format: misskey:id */
-          webhookId: string;
+          session: string | null;
+          name?: string | null;
+          description?: string | null;
+          iconUrl?: string | null;
+          permission: string[];
         };
       };
     };
     responses: {
-      /** @description OK (without any results) */
-      204: {
-        content: never;
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': {
+            token: string;
+          };
+        };
       };
       /** @description Client error */
       400: {
@@ -21394,32 +25964,27 @@ export type operations = {
     };
   };
   /**
-   * i/webhooks/list
+   * mute/create
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *read:account*
+   * **Credential required**: *Yes* / **Permission**: *write:mutes*
    */
-  i___webhooks___list: {
-    responses: {
-      /** @description OK (with results) */
-      200: {
-        content: {
-          'application/json': ({
-              /** Format: misskey:id */
-              id: string;
-              /** Format: misskey:id */
-              userId: string;
-              name: string;
-              on: ('mention' | 'unfollow' | 'follow' | 'followed' | 'note' | 'reply' | 'renote' | 'reaction')[];
-              url: string;
-              secret: string;
-              active: boolean;
-              /** Format: date-time */
-              latestSentAt: string | null;
-              latestStatus: number | null;
-            })[];
+  mute___create: {
+    requestBody: {
+      content: {
+        'application/json': {
+          /** Format: misskey:id */
+          userId: string;
+          /** @description A Unix Epoch timestamp that must lie in the future. `null` means an indefinite mute. */
+          expiresAt?: number | null;
         };
       };
+    };
+    responses: {
+      /** @description OK (without any results) */
+      204: {
+        content: never;
+      };
       /** @description Client error */
       400: {
         content: {
@@ -21444,6 +26009,12 @@ export type operations = {
           'application/json': components['schemas']['Error'];
         };
       };
+      /** @description Too many requests */
+      429: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
       /** @description Internal server error */
       500: {
         content: {
@@ -21453,39 +26024,24 @@ export type operations = {
     };
   };
   /**
-   * i/webhooks/show
+   * mute/delete
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *read:account*
+   * **Credential required**: *Yes* / **Permission**: *write:mutes*
    */
-  i___webhooks___show: {
+  mute___delete: {
     requestBody: {
       content: {
         'application/json': {
           /** Format: misskey:id */
-          webhookId: string;
+          userId: string;
         };
       };
     };
     responses: {
-      /** @description OK (with results) */
-      200: {
-        content: {
-          'application/json': {
-            /** Format: misskey:id */
-            id: string;
-            /** Format: misskey:id */
-            userId: string;
-            name: string;
-            on: ('mention' | 'unfollow' | 'follow' | 'followed' | 'note' | 'reply' | 'renote' | 'reaction')[];
-            url: string;
-            secret: string;
-            active: boolean;
-            /** Format: date-time */
-            latestSentAt: string | null;
-            latestStatus: number | null;
-          };
-        };
+      /** @description OK (without any results) */
+      204: {
+        content: never;
       };
       /** @description Client error */
       400: {
@@ -21520,31 +26076,30 @@ export type operations = {
     };
   };
   /**
-   * i/webhooks/test
+   * mute/list
    * @description No description provided.
    *
-   * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
-   * **Credential required**: *Yes* / **Permission**: *read:account*
+   * **Credential required**: *Yes* / **Permission**: *read:mutes*
    */
-  i___webhooks___test: {
+  mute___list: {
     requestBody: {
       content: {
         'application/json': {
+          /** @default 30 */
+          limit?: number;
           /** Format: misskey:id */
-          webhookId: string;
-          /** @enum {string} */
-          type: 'mention' | 'unfollow' | 'follow' | 'followed' | 'note' | 'reply' | 'renote' | 'reaction';
-          override?: {
-            url?: string;
-            secret?: string;
-          };
+          sinceId?: string;
+          /** Format: misskey:id */
+          untilId?: string;
         };
       };
     };
     responses: {
-      /** @description OK (without any results) */
-      204: {
-        content: never;
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': components['schemas']['Muting'][];
+        };
       };
       /** @description Client error */
       400: {
@@ -21570,12 +26125,6 @@ export type operations = {
           'application/json': components['schemas']['Error'];
         };
       };
-      /** @description Too many requests */
-      429: {
-        content: {
-          'application/json': components['schemas']['Error'];
-        };
-      };
       /** @description Internal server error */
       500: {
         content: {
@@ -21585,29 +26134,28 @@ export type operations = {
     };
   };
   /**
-   * i/webhooks/update
+   * my/apps
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:account*
+   * **Credential required**: *Yes* / **Permission**: *read:account*
    */
-  i___webhooks___update: {
+  my___apps: {
     requestBody: {
       content: {
         'application/json': {
-          /** Format: misskey:id */
-          webhookId: string;
-          name?: string;
-          url?: string;
-          secret?: string | null;
-          on?: ('mention' | 'unfollow' | 'follow' | 'followed' | 'note' | 'reply' | 'renote' | 'reaction')[];
-          active?: boolean;
+          /** @default 10 */
+          limit?: number;
+          /** @default 0 */
+          offset?: number;
         };
       };
     };
     responses: {
-      /** @description OK (without any results) */
-      204: {
-        content: never;
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': components['schemas']['App'][];
+        };
       };
       /** @description Client error */
       400: {
@@ -21642,17 +26190,35 @@ export type operations = {
     };
   };
   /**
-   * invite/create
+   * notes
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:invite-codes*
+   * **Credential required**: *No*
    */
-  invite___create: {
+  notes: {
+    requestBody: {
+      content: {
+        'application/json': {
+          /** @default false */
+          local?: boolean;
+          reply?: boolean;
+          renote?: boolean;
+          withFiles?: boolean;
+          poll?: boolean;
+          /** @default 10 */
+          limit?: number;
+          /** Format: misskey:id */
+          sinceId?: string;
+          /** Format: misskey:id */
+          untilId?: string;
+        };
+      };
+    };
     responses: {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': components['schemas']['InviteCode'];
+          'application/json': components['schemas']['Note'][];
         };
       };
       /** @description Client error */
@@ -21688,24 +26254,32 @@ export type operations = {
     };
   };
   /**
-   * invite/delete
+   * notes/children
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:invite-codes*
+   * **Credential required**: *No*
    */
-  invite___delete: {
+  notes___children: {
     requestBody: {
       content: {
         'application/json': {
           /** Format: misskey:id */
-          inviteId: string;
+          noteId: string;
+          /** @default 10 */
+          limit?: number;
+          /** Format: misskey:id */
+          sinceId?: string;
+          /** Format: misskey:id */
+          untilId?: string;
         };
       };
     };
     responses: {
-      /** @description OK (without any results) */
-      204: {
-        content: never;
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': components['schemas']['Note'][];
+        };
       };
       /** @description Client error */
       400: {
@@ -21740,19 +26314,25 @@ export type operations = {
     };
   };
   /**
-   * invite/limit
+   * notes/clips
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *read:invite-codes*
+   * **Credential required**: *No*
    */
-  invite___limit: {
+  notes___clips: {
+    requestBody: {
+      content: {
+        'application/json': {
+          /** Format: misskey:id */
+          noteId: string;
+        };
+      };
+    };
     responses: {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': {
-            remaining: number | null;
-          };
+          'application/json': components['schemas']['Clip'][];
         };
       };
       /** @description Client error */
@@ -21788,21 +26368,21 @@ export type operations = {
     };
   };
   /**
-   * invite/list
+   * notes/conversation
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *read:invite-codes*
+   * **Credential required**: *No*
    */
-  invite___list: {
+  notes___conversation: {
     requestBody: {
       content: {
         'application/json': {
-          /** @default 30 */
-          limit?: number;
-          /** Format: misskey:id */
-          sinceId?: string;
           /** Format: misskey:id */
-          untilId?: string;
+          noteId: string;
+          /** @default 10 */
+          limit?: number;
+          /** @default 0 */
+          offset?: number;
         };
       };
     };
@@ -21810,7 +26390,7 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': components['schemas']['InviteCode'][];
+          'application/json': components['schemas']['Note'][];
         };
       };
       /** @description Client error */
@@ -21846,17 +26426,55 @@ export type operations = {
     };
   };
   /**
-   * meta
+   * notes/create
    * @description No description provided.
    *
-   * **Credential required**: *No*
+   * **Credential required**: *Yes* / **Permission**: *write:notes*
    */
-  meta: {
+  notes___create: {
     requestBody: {
       content: {
         'application/json': {
-          /** @default true */
-          detail?: boolean;
+          /**
+           * @default public
+           * @enum {string}
+           */
+          visibility?: 'public' | 'home' | 'followers' | 'specified';
+          visibleUserIds?: string[];
+          cw?: string | null;
+          /** @default false */
+          localOnly?: boolean;
+          /**
+           * @default null
+           * @enum {string|null}
+           */
+          reactionAcceptance?: null | 'likeOnly' | 'likeOnlyForRemote' | 'nonSensitiveOnly' | 'nonSensitiveOnlyForLocalLikeOnlyForRemote';
+          /**
+           * @default public
+           * @enum {string}
+           */
+          quotePolicy?: 'public' | 'followers' | 'nobody';
+          /** @default false */
+          noExtractMentions?: boolean;
+          /** @default false */
+          noExtractHashtags?: boolean;
+          /** @default false */
+          noExtractEmojis?: boolean;
+          /** Format: misskey:id */
+          replyId?: string | null;
+          /** Format: misskey:id */
+          renoteId?: string | null;
+          /** Format: misskey:id */
+          channelId?: string | null;
+          text?: string | null;
+          fileIds?: string[];
+          mediaIds?: string[];
+          poll?: ({
+            choices: string[];
+            multiple?: boolean;
+            expiresAt?: number | null;
+            expiredAfter?: number | null;
+          }) | null;
         };
       };
     };
@@ -21864,7 +26482,9 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': components['schemas']['MetaLite'] | components['schemas']['MetaDetailed'];
+          'application/json': {
+            createdNote: components['schemas']['Note'];
+          };
         };
       };
       /** @description Client error */
@@ -21891,6 +26511,12 @@ export type operations = {
           'application/json': components['schemas']['Error'];
         };
       };
+      /** @description Too many requests */
+      429: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
       /** @description Internal server error */
       500: {
         content: {
@@ -21900,32 +26526,24 @@ export type operations = {
     };
   };
   /**
-   * miauth/gen-token
+   * notes/delete
    * @description No description provided.
    *
-   * **Internal Endpoint**: This endpoint is an API for the misskey mainframe and is not intended for use by third parties.
-   * **Credential required**: *Yes*
+   * **Credential required**: *Yes* / **Permission**: *write:notes*
    */
-  'miauth___gen-token': {
+  notes___delete: {
     requestBody: {
       content: {
         'application/json': {
-          session: string | null;
-          name?: string | null;
-          description?: string | null;
-          iconUrl?: string | null;
-          permission: string[];
+          /** Format: misskey:id */
+          noteId: string;
         };
       };
     };
     responses: {
-      /** @description OK (with results) */
-      200: {
-        content: {
-          'application/json': {
-            token: string;
-          };
-        };
+      /** @description OK (without any results) */
+      204: {
+        content: never;
       };
       /** @description Client error */
       400: {
@@ -21951,6 +26569,12 @@ export type operations = {
           'application/json': components['schemas']['Error'];
         };
       };
+      /** @description Too many requests */
+      429: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
       /** @description Internal server error */
       500: {
         content: {
@@ -21960,26 +26584,57 @@ export type operations = {
     };
   };
   /**
-   * mute/create
+   * notes/drafts/create
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:mutes*
+   * **Credential required**: *Yes* / **Permission**: *write:notes*
    */
-  mute___create: {
+  notes___drafts___create: {
     requestBody: {
       content: {
         'application/json': {
+          /**
+           * @default public
+           * @enum {string}
+           */
+          visibility?: 'public' | 'home' | 'followers' | 'specified';
+          visibleUserIds?: string[];
+          cw?: string | null;
+          /** @default false */
+          localOnly?: boolean;
+          /**
+           * @default null
+           * @enum {string|null}
+           */
+          reactionAcceptance?: null | 'likeOnly' | 'likeOnlyForRemote' | 'nonSensitiveOnly' | 'nonSensitiveOnlyForLocalLikeOnlyForRemote';
+          /**
+           * @default public
+           * @enum {string}
+           */
+          quotePolicy?: 'public' | 'followers' | 'nobody';
           /** Format: misskey:id */
-          userId: string;
-          /** @description A Unix Epoch timestamp that must lie in the future. `null` means an indefinite mute. */
-          expiresAt?: number | null;
+          replyId?: string | null;
+          /** Format: misskey:id */
+          renoteId?: string | null;
+          /** Format: misskey:id */
+          channelId?: string | null;
+          text?: string | null;
+          fileIds?: string[];
+          poll?: ({
+            choices: string[];
+            multiple?: boolean;
+            expiresAt?: number | null;
+            expiredAfter?: number | null;
+          }) | null;
         };
       };
     };
     responses: {
-      /** @description OK (without any results) */
-      204: {
-        content: never;
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': components['schemas']['NoteDraft'];
+        };
       };
       /** @description Client error */
       400: {
@@ -22020,17 +26675,17 @@ export type operations = {
     };
   };
   /**
-   * mute/delete
+   * notes/drafts/delete
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:mutes*
+   * **Credential required**: *Yes* / **Permission**: *write:notes*
    */
-  mute___delete: {
+  notes___drafts___delete: {
     requestBody: {
       content: {
         'application/json': {
           /** Format: misskey:id */
-          userId: string;
+          noteDraftId: string;
         };
       };
     };
@@ -22072,16 +26727,16 @@ export type operations = {
     };
   };
   /**
-   * mute/list
+   * notes/drafts/list
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *read:mutes*
+   * **Credential required**: *Yes* / **Permission**: *read:account*
    */
-  mute___list: {
+  notes___drafts___list: {
     requestBody: {
       content: {
         'application/json': {
-          /** @default 30 */
+          /** @default 10 */
           limit?: number;
           /** Format: misskey:id */
           sinceId?: string;
@@ -22094,7 +26749,7 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': components['schemas']['Muting'][];
+          'application/json': components['schemas']['NoteDraft'][];
         };
       };
       /** @description Client error */
@@ -22130,19 +26785,17 @@ export type operations = {
     };
   };
   /**
-   * my/apps
+   * notes/drafts/show
    * @description No description provided.
    *
    * **Credential required**: *Yes* / **Permission**: *read:account*
    */
-  my___apps: {
+  notes___drafts___show: {
     requestBody: {
       content: {
         'application/json': {
-          /** @default 10 */
-          limit?: number;
-          /** @default 0 */
-          offset?: number;
+          /** Format: misskey:id */
+          noteDraftId: string;
         };
       };
     };
@@ -22150,7 +26803,7 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': components['schemas']['App'][];
+          'application/json': components['schemas']['NoteDraft'];
         };
       };
       /** @description Client error */
@@ -22186,27 +26839,50 @@ export type operations = {
     };
   };
   /**
-   * notes
+   * notes/drafts/update
    * @description No description provided.
    *
-   * **Credential required**: *No*
+   * **Credential required**: *Yes* / **Permission**: *write:notes*
    */
-  notes: {
+  notes___drafts___update: {
     requestBody: {
       content: {
         'application/json': {
+          /** Format: misskey:id */
+          noteDraftId: string;
+          /**
+           * @default public
+           * @enum {string}
+           */
+          visibility?: 'public' | 'home' | 'followers' | 'specified';
+          visibleUserIds?: string[];
+          cw?: string | null;
           /** @default false */
-          local?: boolean;
-          reply?: boolean;
-          renote?: boolean;
-          withFiles?: boolean;
-          poll?: boolean;
-          /** @default 10 */
-          limit?: number;
+          localOnly?: boolean;
+          /**
+           * @default null
+           * @enum {string|null}
+           */
+          reactionAcceptance?: null | 'likeOnly' | 'likeOnlyForRemote' | 'nonSensitiveOnly' | 'nonSensitiveOnlyForLocalLikeOnlyForRemote';
+          /**
+           * @default public
+           * @enum {string}
+           */
+          quotePolicy?: 'public' | 'followers' | 'nobody';
           /** Format: misskey:id */
-          sinceId?: string;
+          replyId?: string | null;
           /** Format: misskey:id */
-          untilId?: string;
+          renoteId?: string | null;
+          /** Format: misskey:id */
+          channelId?: string | null;
+          text?: string | null;
+          fileIds?: string[];
+          poll?: ({
+            choices: string[];
+            multiple?: boolean;
+            expiresAt?: number | null;
+            expiredAfter?: number | null;
+          }) | null;
         };
       };
     };
@@ -22214,7 +26890,7 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': components['schemas']['Note'][];
+          'application/json': components['schemas']['NoteDraft'];
         };
       };
       /** @description Client error */
@@ -22241,6 +26917,12 @@ export type operations = {
           'application/json': components['schemas']['Error'];
         };
       };
+      /** @description Too many requests */
+      429: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
       /** @description Internal server error */
       500: {
         content: {
@@ -22250,32 +26932,24 @@ export type operations = {
     };
   };
   /**
-   * notes/children
+   * notes/favorites/create
    * @description No description provided.
    *
-   * **Credential required**: *No*
+   * **Credential required**: *Yes* / **Permission**: *write:favorites*
    */
-  notes___children: {
+  notes___favorites___create: {
     requestBody: {
       content: {
         'application/json': {
           /** Format: misskey:id */
           noteId: string;
-          /** @default 10 */
-          limit?: number;
-          /** Format: misskey:id */
-          sinceId?: string;
-          /** Format: misskey:id */
-          untilId?: string;
         };
       };
     };
     responses: {
-      /** @description OK (with results) */
-      200: {
-        content: {
-          'application/json': components['schemas']['Note'][];
-        };
+      /** @description OK (without any results) */
+      204: {
+        content: never;
       };
       /** @description Client error */
       400: {
@@ -22301,6 +26975,12 @@ export type operations = {
           'application/json': components['schemas']['Error'];
         };
       };
+      /** @description Too many requests */
+      429: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
       /** @description Internal server error */
       500: {
         content: {
@@ -22310,12 +26990,12 @@ export type operations = {
     };
   };
   /**
-   * notes/clips
+   * notes/favorites/delete
    * @description No description provided.
    *
-   * **Credential required**: *No*
+   * **Credential required**: *Yes* / **Permission**: *write:favorites*
    */
-  notes___clips: {
+  notes___favorites___delete: {
     requestBody: {
       content: {
         'application/json': {
@@ -22325,11 +27005,9 @@ export type operations = {
       };
     };
     responses: {
-      /** @description OK (with results) */
-      200: {
-        content: {
-          'application/json': components['schemas']['Clip'][];
-        };
+      /** @description OK (without any results) */
+      204: {
+        content: never;
       };
       /** @description Client error */
       400: {
@@ -22364,21 +27042,21 @@ export type operations = {
     };
   };
   /**
-   * notes/conversation
+   * notes/featured
    * @description No description provided.
    *
    * **Credential required**: *No*
    */
-  notes___conversation: {
+  notes___featured: {
     requestBody: {
       content: {
         'application/json': {
-          /** Format: misskey:id */
-          noteId: string;
           /** @default 10 */
           limit?: number;
-          /** @default 0 */
-          offset?: number;
+          /** Format: misskey:id */
+          untilId?: string;
+          /** Format: misskey:id */
+          channelId?: string | null;
         };
       };
     };
@@ -22421,51 +27099,18 @@ export type operations = {
       };
     };
   };
-  /**
-   * notes/create
-   * @description No description provided.
-   *
-   * **Credential required**: *Yes* / **Permission**: *write:notes*
-   */
-  notes___create: {
-    requestBody: {
-      content: {
-        'application/json': {
-          /**
-           * @default public
-           * @enum {string}
-           */
-          visibility?: 'public' | 'home' | 'followers' | 'specified';
-          visibleUserIds?: string[];
-          cw?: string | null;
-          /** @default false */
-          localOnly?: boolean;
-          /**
-           * @default null
-           * @enum {string|null}
-           */
-          reactionAcceptance?: null | 'likeOnly' | 'likeOnlyForRemote' | 'nonSensitiveOnly' | 'nonSensitiveOnlyForLocalLikeOnlyForRemote';
-          /** @default false */
-          noExtractMentions?: boolean;
-          /** @default false */
-          noExtractHashtags?: boolean;
-          /** @default false */
-          noExtractEmojis?: boolean;
-          /** Format: misskey:id */
-          replyId?: string | null;
-          /** Format: misskey:id */
-          renoteId?: string | null;
-          /** Format: misskey:id */
-          channelId?: string | null;
-          text?: string | null;
-          fileIds?: string[];
-          mediaIds?: string[];
-          poll?: ({
-            choices: string[];
-            multiple?: boolean;
-            expiresAt?: number | null;
-            expiredAfter?: number | null;
-          }) | null;
+  /**
+   * notes/fetch-replies
+   * @description Queue a job that fetches replies to a remote note from its origin server and imports the ones this server does not have yet. Only replies on the same server as the note are imported. Returns whether a job was queued; it is not queued again within 10 minutes for the same note.
+   *
+   * **Credential required**: *Yes* / **Permission**: *read:account*
+   */
+  'notes___fetch-replies': {
+    requestBody: {
+      content: {
+        'application/json': {
+          /** Format: misskey:id */
+          noteId: string;
         };
       };
     };
@@ -22474,7 +27119,7 @@ export type operations = {
       200: {
         content: {
           'application/json': {
-            createdNote: components['schemas']['Note'];
+            queued: boolean;
           };
         };
       };
@@ -22517,24 +27162,36 @@ export type operations = {
     };
   };
   /**
-   * notes/delete
+   * notes/global-timeline
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:notes*
+   * **Credential required**: *No*
    */
-  notes___delete: {
+  'notes___global-timeline': {
     requestBody: {
       content: {
         'application/json': {
+          /** @default false */
+          withFiles?: boolean;
+          /** @default true */
+          withRenotes?: boolean;
+          /** @default 10 */
+          limit?: number;
           /** Format: misskey:id */
-          noteId: string;
+          sinceId?: string;
+          /** Format: misskey:id */
+          untilId?: string;
+          sinceDate?: number;
+          untilDate?: number;
         };
       };
     };
     responses: {
-      /** @description OK (without any results) */
-      204: {
-        content: never;
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': components['schemas']['Note'][];
+        };
       };
       /** @description Client error */
       400: {
@@ -22560,12 +27217,6 @@ export type operations = {
           'application/json': components['schemas']['Error'];
         };
       };
-      /** @description Too many requests */
-      429: {
-        content: {
-          'application/json': components['schemas']['Error'];
-        };
-      };
       /** @description Internal server error */
       500: {
         content: {
@@ -22575,24 +27226,32 @@ export type operations = {
     };
   };
   /**
-   * notes/favorites/create
+   * notes/history
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:favorites*
+   * **Credential required**: *No*
    */
-  notes___favorites___create: {
+  notes___history: {
     requestBody: {
       content: {
         'application/json': {
           /** Format: misskey:id */
           noteId: string;
+          /** @default 10 */
+          limit?: number;
+          /** Format: misskey:id */
+          sinceId?: string;
+          /** Format: misskey:id */
+          untilId?: string;
         };
       };
     };
     responses: {
-      /** @description OK (without any results) */
-      204: {
-        content: never;
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': components['schemas']['NoteHistory'][];
+        };
       };
       /** @description Client error */
       400: {
@@ -22618,12 +27277,6 @@ export type operations = {
           'application/json': components['schemas']['Error'];
         };
       };
-      /** @description Too many requests */
-      429: {
-        content: {
-          'application/json': components['schemas']['Error'];
-        };
-      };
       /** @description Internal server error */
       500: {
         content: {
@@ -22633,24 +27286,46 @@ export type operations = {
     };
   };
   /**
-   * notes/favorites/delete
+   * notes/hybrid-timeline
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:favorites*
+   * **Credential required**: *Yes* / **Permission**: *read:account*
    */
-  notes___favorites___delete: {
+  'notes___hybrid-timeline': {
     requestBody: {
       content: {
         'application/json': {
+          /** @default 10 */
+          limit?: number;
           /** Format: misskey:id */
-          noteId: string;
+          sinceId?: string;
+          /** Format: misskey:id */
+          untilId?: string;
+          sinceDate?: number;
+          untilDate?: number;
+          /** @default false */
+          allowPartial?: boolean;
+          /** @default true */
+          includeMyRenotes?: boolean;
+          /** @default true */
+          includeRenotedMyNotes?: boolean;
+          /** @default true */
+          includeLocalRenotes?: boolean;
+          /** @default false */
+          withFiles?: boolean;
+          /** @default true */
+          withRenotes?: boolean;
+          /** @default false */
+          withReplies?: boolean;
         };
       };
     };
     responses: {
-      /** @description OK (without any results) */
-      204: {
-        content: never;
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': components['schemas']['Note'][];
+        };
       };
       /** @description Client error */
       400: {
@@ -22685,21 +27360,31 @@ export type operations = {
     };
   };
   /**
-   * notes/featured
+   * notes/local-timeline
    * @description No description provided.
    *
    * **Credential required**: *No*
    */
-  notes___featured: {
+  'notes___local-timeline': {
     requestBody: {
       content: {
         'application/json': {
+          /** @default false */
+          withFiles?: boolean;
+          /** @default true */
+          withRenotes?: boolean;
+          /** @default false */
+          withReplies?: boolean;
           /** @default 10 */
           limit?: number;
           /** Format: misskey:id */
-          untilId?: string;
+          sinceId?: string;
           /** Format: misskey:id */
-          channelId?: string | null;
+          untilId?: string;
+          /** @default false */
+          allowPartial?: boolean;
+          sinceDate?: number;
+          untilDate?: number;
         };
       };
     };
@@ -22743,27 +27428,24 @@ export type operations = {
     };
   };
   /**
-   * notes/global-timeline
+   * notes/mentions
    * @description No description provided.
    *
-   * **Credential required**: *No*
+   * **Credential required**: *Yes* / **Permission**: *read:account*
    */
-  'notes___global-timeline': {
+  notes___mentions: {
     requestBody: {
       content: {
         'application/json': {
           /** @default false */
-          withFiles?: boolean;
-          /** @default true */
-          withRenotes?: boolean;
+          following?: boolean;
           /** @default 10 */
           limit?: number;
           /** Format: misskey:id */
           sinceId?: string;
           /** Format: misskey:id */
           untilId?: string;
-          sinceDate?: number;
-          untilDate?: number;
+          visibility?: string;
         };
       };
     };
@@ -22807,37 +27489,21 @@ export type operations = {
     };
   };
   /**
-   * notes/hybrid-timeline
+   * notes/polls/recommendation
    * @description No description provided.
    *
    * **Credential required**: *Yes* / **Permission**: *read:account*
    */
-  'notes___hybrid-timeline': {
+  notes___polls___recommendation: {
     requestBody: {
       content: {
         'application/json': {
           /** @default 10 */
           limit?: number;
-          /** Format: misskey:id */
-          sinceId?: string;
-          /** Format: misskey:id */
-          untilId?: string;
-          sinceDate?: number;
-          untilDate?: number;
-          /** @default false */
-          allowPartial?: boolean;
-          /** @default true */
-          includeMyRenotes?: boolean;
-          /** @default true */
-          includeRenotedMyNotes?: boolean;
-          /** @default true */
-          includeLocalRenotes?: boolean;
-          /** @default false */
-          withFiles?: boolean;
-          /** @default true */
-          withRenotes?: boolean;
+          /** @default 0 */
+          offset?: number;
           /** @default false */
-          withReplies?: boolean;
+          excludeChannels?: boolean;
         };
       };
     };
@@ -22881,31 +27547,77 @@ export type operations = {
     };
   };
   /**
-   * notes/local-timeline
+   * notes/polls/vote
+   * @description No description provided.
+   *
+   * **Credential required**: *Yes* / **Permission**: *write:votes*
+   */
+  notes___polls___vote: {
+    requestBody: {
+      content: {
+        'application/json': {
+          /** Format: misskey:id */
+          noteId: string;
+          choice: number;
+        };
+      };
+    };
+    responses: {
+      /** @description OK (without any results) */
+      204: {
+        content: never;
+      };
+      /** @description Client error */
+      400: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Authentication error */
+      401: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Forbidden error */
+      403: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description I'm Ai */
+      418: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Internal server error */
+      500: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+    };
+  };
+  /**
+   * notes/reactions
    * @description No description provided.
    *
    * **Credential required**: *No*
    */
-  'notes___local-timeline': {
+  notes___reactions: {
     requestBody: {
       content: {
         'application/json': {
-          /** @default false */
-          withFiles?: boolean;
-          /** @default true */
-          withRenotes?: boolean;
-          /** @default false */
-          withReplies?: boolean;
+          /** Format: misskey:id */
+          noteId: string;
+          type?: string | null;
           /** @default 10 */
           limit?: number;
           /** Format: misskey:id */
           sinceId?: string;
           /** Format: misskey:id */
           untilId?: string;
-          /** @default false */
-          allowPartial?: boolean;
-          sinceDate?: number;
-          untilDate?: number;
         };
       };
     };
@@ -22913,7 +27625,7 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': components['schemas']['Note'][];
+          'application/json': components['schemas']['NoteReaction'][];
         };
       };
       /** @description Client error */
@@ -22949,33 +27661,25 @@ export type operations = {
     };
   };
   /**
-   * notes/mentions
+   * notes/reactions/create
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *read:account*
+   * **Credential required**: *Yes* / **Permission**: *write:reactions*
    */
-  notes___mentions: {
+  notes___reactions___create: {
     requestBody: {
       content: {
         'application/json': {
-          /** @default false */
-          following?: boolean;
-          /** @default 10 */
-          limit?: number;
           /** Format: misskey:id */
-          sinceId?: string;
-          /** Format: misskey:id */
-          untilId?: string;
-          visibility?: string;
+          noteId: string;
+          reaction: string;
         };
       };
     };
     responses: {
-      /** @description OK (with results) */
-      200: {
-        content: {
-          'application/json': components['schemas']['Note'][];
-        };
+      /** @description OK (without any results) */
+      204: {
+        content: never;
       };
       /** @description Client error */
       400: {
@@ -23010,30 +27714,24 @@ export type operations = {
     };
   };
   /**
-   * notes/polls/recommendation
+   * notes/reactions/delete
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *read:account*
+   * **Credential required**: *Yes* / **Permission**: *write:reactions*
    */
-  notes___polls___recommendation: {
+  notes___reactions___delete: {
     requestBody: {
       content: {
         'application/json': {
-          /** @default 10 */
-          limit?: number;
-          /** @default 0 */
-          offset?: number;
-          /** @default false */
-          excludeChannels?: boolean;
+          /** Format: misskey:id */
+          noteId: string;
         };
       };
     };
     responses: {
-      /** @description OK (with results) */
-      200: {
-        content: {
-          'application/json': components['schemas']['Note'][];
-        };
+      /** @description OK (without any results) */
+      204: {
+        content: never;
       };
       /** @description Client error */
       400: {
@@ -23059,6 +27757,12 @@ export type operations = {
           'application/json': components['schemas']['Error'];
         };
       };
+      /** @description Too many requests */
+      429: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
       /** @description Internal server error */
       500: {
         content: {
@@ -23068,25 +27772,32 @@ export type operations = {
     };
   };
   /**
-   * notes/polls/vote
+   * notes/renotes
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:votes*
+   * **Credential required**: *No*
    */
-  notes___polls___vote: {
+  notes___renotes: {
     requestBody: {
       content: {
         'application/json': {
           /** Format: misskey:id */
           noteId: string;
-          choice: number;
+          /** @default 10 */
+          limit?: number;
+          /** Format: misskey:id */
+          sinceId?: string;
+          /** Format: misskey:id */
+          untilId?: string;
         };
       };
     };
     responses: {
-      /** @description OK (without any results) */
-      204: {
-        content: never;
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': components['schemas']['Note'][];
+        };
       };
       /** @description Client error */
       400: {
@@ -23121,24 +27832,23 @@ export type operations = {
     };
   };
   /**
-   * notes/reactions
+   * notes/replies
    * @description No description provided.
    *
    * **Credential required**: *No*
    */
-  notes___reactions: {
+  notes___replies: {
     requestBody: {
       content: {
         'application/json': {
           /** Format: misskey:id */
           noteId: string;
-          type?: string | null;
-          /** @default 10 */
-          limit?: number;
           /** Format: misskey:id */
           sinceId?: string;
           /** Format: misskey:id */
           untilId?: string;
+          /** @default 10 */
+          limit?: number;
         };
       };
     };
@@ -23146,7 +27856,7 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': components['schemas']['NoteReaction'][];
+          'application/json': components['schemas']['Note'][];
         };
       };
       /** @description Client error */
@@ -23182,25 +27892,58 @@ export type operations = {
     };
   };
   /**
-   * notes/reactions/create
+   * notes/scheduled/create
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:reactions*
+   * **Credential required**: *Yes* / **Permission**: *write:notes*
    */
-  notes___reactions___create: {
+  notes___scheduled___create: {
     requestBody: {
       content: {
         'application/json': {
+          scheduledAt: number;
+          /**
+           * @default public
+           * @enum {string}
+           */
+          visibility?: 'public' | 'home' | 'followers' | 'specified';
+          visibleUserIds?: string[];
+          cw?: string | null;
+          /** @default false */
+          localOnly?: boolean;
+          /**
+           * @default null
+           * @enum {string|null}
+           */
+          reactionAcceptance?: null | 'likeOnly' | 'likeOnlyForRemote' | 'nonSensitiveOnly' | 'nonSensitiveOnlyForLocalLikeOnlyForRemote';
+          /**
+           * @default public
+           * @enum {string}
+           */
+          quotePolicy?: 'public' | 'followers' | 'nobody';
           /** Format: misskey:id */
-          noteId: string;
-          reaction: string;
+          replyId?: string | null;
+          /** Format: misskey:id */
+          renoteId?: string | null;
+          /** Format: misskey:id */
+          channelId?: string | null;
+          text?: string | null;
+          fileIds?: string[];
+          poll?: ({
+            choices: string[];
+            multiple?: boolean;
+            expiresAt?: number | null;
+            expiredAfter?: number | null;
+          }) | null;
         };
       };
     };
     responses: {
-      /** @description OK (without any results) */
-      204: {
-        content: never;
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': components['schemas']['NoteDraft'];
+        };
       };
       /** @description Client error */
       400: {
@@ -23226,6 +27969,12 @@ export type operations = {
           'application/json': components['schemas']['Error'];
         };
       };
+      /** @description Too many requests */
+      429: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
       /** @description Internal server error */
       500: {
         content: {
@@ -23235,17 +27984,17 @@ export type operations = {
     };
   };
   /**
-   * notes/reactions/delete
+   * notes/scheduled/delete
    * @description No description provided.
    *
-   * **Credential required**: *Yes* / **Permission**: *write:reactions*
+   * **Credential required**: *Yes* / **Permission**: *write:notes*
    */
-  notes___reactions___delete: {
+  notes___scheduled___delete: {
     requestBody: {
       content: {
         'application/json': {
           /** Format: misskey:id */
-          noteId: string;
+          noteDraftId: string;
         };
       };
     };
@@ -23278,12 +28027,6 @@ export type operations = {
           'application/json': components['schemas']['Error'];
         };
       };
-      /** @description Too many requests */
-      429: {
-        content: {
-          'application/json': components['schemas']['Error'];
-        };
-      };
       /** @description Internal server error */
       500: {
         content: {
@@ -23293,23 +28036,19 @@ export type operations = {
     };
   };
   /**
-   * notes/renotes
+   * notes/scheduled/list
    * @description No description provided.
    *
-   * **Credential required**: *No*
+   * **Credential required**: *Yes* / **Permission**: *read:account*
    */
-  notes___renotes: {
+  notes___scheduled___list: {
     requestBody: {
       content: {
         'application/json': {
-          /** Format: misskey:id */
-          noteId: string;
           /** @default 10 */
           limit?: number;
-          /** Format: misskey:id */
-          sinceId?: string;
-          /** Format: misskey:id */
-          untilId?: string;
+          /** @default 0 */
+          offset?: number;
         };
       };
     };
@@ -23317,7 +28056,7 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': components['schemas']['Note'][];
+          'application/json': components['schemas']['NoteDraft'][];
         };
       };
       /** @description Client error */
@@ -23353,23 +28092,51 @@ export type operations = {
     };
   };
   /**
-   * notes/replies
+   * notes/scheduled/update
    * @description No description provided.
    *
-   * **Credential required**: *No*
+   * **Credential required**: *Yes* / **Permission**: *write:notes*
    */
-  notes___replies: {
+  notes___scheduled___update: {
     requestBody: {
       content: {
         'application/json': {
           /** Format: misskey:id */
-          noteId: string;
+          noteDraftId: string;
+          scheduledAt: number;
+          /**
+           * @default public
+           * @enum {string}
+           */
+          visibility?: 'public' | 'home' | 'followers' | 'specified';
+          visibleUserIds?: string[];
+          cw?: string | null;
+          /** @default false */
+          localOnly?: boolean;
+          /**
+           * @default null
+           * @enum {string|null}
+           */
+          reactionAcceptance?: null | 'likeOnly' | 'likeOnlyForRemote' | 'nonSensitiveOnly' | 'nonSensitiveOnlyForLocalLikeOnlyForRemote';
+          /**
+           * @default public
+           * @enum {string}
+           */
+          quotePolicy?: 'public' | 'followers' | 'nobody';
           /** Format: misskey:id */
-          sinceId?: string;
+          replyId?: string | null;
           /** Format: misskey:id */
-          untilId?: string;
-          /** @default 10 */
-          limit?: number;
+          renoteId?: string | null;
+          /** Format: misskey:id */
+          channelId?: string | null;
+          text?: string | null;
+          fileIds?: string[];
+          poll?: ({
+            choices: string[];
+            multiple?: boolean;
+            expiresAt?: number | null;
+            expiredAfter?: number | null;
+          }) | null;
         };
       };
     };
@@ -23377,7 +28144,7 @@ export type operations = {
       /** @description OK (with results) */
       200: {
         content: {
-          'application/json': components['schemas']['Note'][];
+          'application/json': components['schemas']['NoteDraft'];
         };
       };
       /** @description Client error */
@@ -23404,6 +28171,12 @@ export type operations = {
           'application/json': components['schemas']['Error'];
         };
       };
+      /** @description Too many requests */
+      429: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
       /** @description Internal server error */
       500: {
         content: {
@@ -23970,6 +28743,84 @@ export type operations = {
       };
     };
   };
+  /**
+   * notes/update
+   * @description No description provided.
+   *
+   * **Credential required**: *Yes* / **Permission**: *write:notes*
+   */
+  notes___update: {
+    requestBody: {
+      content: {
+        'application/json': {
+          /** Format: misskey:id */
+          noteId: string;
+          cw?: string | null;
+          /** @default false */
+          noExtractMentions?: boolean;
+          /** @default false */
+          noExtractHashtags?: boolean;
+          /** @default false */
+          noExtractEmojis?: boolean;
+          text?: string | null;
+          fileIds?: string[];
+          mediaIds?: string[];
+          poll?: ({
+            choices: string[];
+            multiple?: boolean;
+            expiresAt?: number | null;
+            expiredAfter?: number | null;
+          }) | null;
+        };
+      };
+    };
+    responses: {
+      /** @description OK (with results) */
+      200: {
+        content: {
+          'application/json': {
+            updatedNote: components['schemas']['Note'];
+          };
+        };
+      };
+      /** @description Client error */
+      400: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Authentication error */
+      401: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Forbidden error */
+      403: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description I'm Ai */
+      418: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Too many requests */
+      429: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Internal server error */
+      500: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+    };
+  };
   /**
    * notes/user-list-timeline
    * @description No description provided.
@@ -27876,6 +32727,13 @@ export type operations = {
           /** Format: misskey:id */
           userId: string;
           comment: string;
+          /**
+           * @default other
+           * @enum {string}
+           */
+          category?: 'spam' | 'harassment' | 'sensitive' | 'illegal' | 'impersonation' | 'other';
+          /** @description Notes of the target user to attach to the report. */
+          noteIds?: string[];
         };
       };
     };
@@ -1,6 +1,7 @@
 import type { operations } from './autogen/types.js';
 import type {
 	AbuseReportNotificationRecipient,
+	AbuseReportResponseTemplate,
 	Ad,
 	Announcement,
 	EmojiDetailed,
@@ -22,6 +23,10 @@ export const noteVisibilities = ['public', 'home', 'followers', 'specified'] as
 
 export const mutedNoteReasons = ['word', 'manual', 'spam', 'other'] as const;
 
+export const abuseReportCategories = ['spam', 'harassment', 'sensitive', 'illegal', 'impersonation', 'other'] as const;
+
+export const abuseReportPriorities = ['normal', 'high', 'critical'] as const;
+
 export const followingVisibilities = ['public', 'followers', 'private'] as const;
 
 export const followersVisibilities = ['public', 'followers', 'private'] as const;
@@ -102,6 +107,7 @@ export const permissions = [
 	'write:admin:promo',
 	'write:admin:drive',
 	'read:admin:drive',
+	'write:admin:notes',
 	'write:admin:ad',
 	'read:admin:ad',
 	'write:invite-codes',
@@ -110,6 +116,8 @@ export const permissions = [
 	'read:clip-favorite',
 	'read:federation',
 	'write:report-abuse',
+	'read:chat',
+	'write:chat',
 ] as const;
 
 export const moderationLogTypes = [
@@ -139,11 +147,14 @@ export const moderationLogTypes = [
 	'suspendRemoteInstance',
 	'unsuspendRemoteInstance',
 	'updateRemoteInstanceNote',
+	'updateRemoteInstancePolicies',
 	'markSensitiveDriveFile',
 	'unmarkSensitiveDriveFile',
 	'resolveAbuseReport',
 	'forwardAbuseReport',
+	'replyAbuseReport',
 	'updateAbuseReportNote',
+	'assignAbuseReport',
 	'createInvitation',
 	'createAd',
 	'updateAd',
@@ -159,10 +170,28 @@ export const moderationLogTypes = [
 	'createAbuseReportNotificationRecipient',
 	'updateAbuseReportNotificationRecipient',
 	'deleteAbuseReportNotificationRecipient',
+	'createAbuseReportResponseTemplate',
+	'updateAbuseReportResponseTemplate',
+	'deleteAbuseReportResponseTemplate',
 	'deleteAccount',
 	'deletePage',
 	'deleteFlash',
 	'deleteGalleryPost',
+	'rebuildSearchIndex',
+	'importBlocklist',
+	'createBlocklistSubscription',
+	'updateBlocklistSubscription',
+	'deleteBlocklistSubscription',
+	'hideNote',
+	'unhideNote',
+	'setNoteCw',
+	'markSensitiveNote',
+	'unmarkSensitiveNote',
+	'excludeNoteFromPublicTimelines',
+	'includeNoteInPublicTimelines',
+	'warnUser',
+	'revokeUserWarning',
+	'resolveUserWarningAppeal',
 ] as const;
 
 // See: packages/backend/src/core/ReversiService.ts@L410
@@ -194,6 +223,7 @@ export type ModerationLogPayloads = {
 		userId: string;
 		userUsername: string;
 		userHost: string | null;
+		expiresAt: string | null;
 	};
 	unsuspend: {
 		userId: string;
@@ -317,6 +347,12 @@ export type ModerationLogPayloads = {
 		before: string | null;
 		after: string | null;
 	};
+	updateRemoteInstancePolicies: {
+		id: string;
+		host: string;
+		before: string[];
+		after: string[];
+	};
 	markSensitiveDriveFile: {
 		fileId: string;
 		fileUserId: string | null;
@@ -339,12 +375,24 @@ export type ModerationLogPayloads = {
 		reportId: string;
 		report: ReceivedAbuseReport;
 	};
+	replyAbuseReport: {
+		reportId: string;
+		report: ReceivedAbuseReport;
+		noteId: string;
+		text: string;
+	};
 	updateAbuseReportNote: {
 		reportId: string;
 		report: ReceivedAbuseReport;
 		before: string;
 		after: string;
 	};
+	assignAbuseReport: {
+		reportId: string;
+		report: ReceivedAbuseReport;
+		before: string | null;
+		after: string | null;
+	};
 	createInvitation: {
 		invitations: InviteCode[];
 	};
@@ -412,6 +460,19 @@ export type ModerationLogPayloads = {
 		recipientId: string;
 		recipient: AbuseReportNotificationRecipient;
 	};
+	createAbuseReportResponseTemplate: {
+		templateId: string;
+		template: AbuseReportResponseTemplate;
+	};
+	updateAbuseReportResponseTemplate: {
+		templateId: string;
+		before: AbuseReportResponseTemplate;
+		after: AbuseReportResponseTemplate;
+	};
+	deleteAbuseReportResponseTemplate: {
+		templateId: string;
+		template: AbuseReportResponseTemplate;
+	};
 	deleteAccount: {
 		userId: string;
 		userUsername: string;
@@ -435,4 +496,99 @@ export type ModerationLogPayloads = {
 		postUserUsername: string;
 		post: GalleryPost;
 	};
+	rebuildSearchIndex: Record<string, never>;
+	importBlocklist: {
+		source: string;
+		subscriptionId: string | null;
+		changes: {
+			host: string;
+			before: { severity: string; rejectMedia: boolean; };
+			after: { severity: string; rejectMedia: boolean; };
+		}[];
+	};
+	createBlocklistSubscription: {
+		subscriptionId: string;
+		subscription: any;
+	};
+	updateBlocklistSubscription: {
+		subscriptionId: string;
+		before: any;
+		after: any;
+	};
+	deleteBlocklistSubscription: {
+		subscriptionId: string;
+		subscription: any;
+	};
+	hideNote: {
+		noteId: string;
+		noteUserId: string;
+		noteUserUsername: string;
+		noteUserHost: string | null;
+	};
+	unhideNote: {
+		noteId: string;
+		noteUserId: string;
+		noteUserUsername: string;
+		noteUserHost: string | null;
+	};
+	setNoteCw: {
+		noteId: string;
+		noteUserId: string;
+		noteUserUsername: string;
+		noteUserHost: string | null;
+		before: string | null;
+		after: string | null;
+	};
+	markSensitiveNote: {
+		noteId: string;
+		noteUserId: string;
+		noteUserUsername: string;
+		noteUserHost: string | null;
+	};
+	unmarkSensitiveNote: {
+		noteId: string;
+		noteUserId: string;
+		noteUserUsername: string;
+		noteUserHost: string | null;
+	};
+	excludeNoteFromPublicTimelines: {
+		noteId: string;
+		noteUserId: string;
+		noteUserUsername: string;
+		noteUserHost: string | null;
+	};
+	includeNoteInPublicTimelines: {
+		noteId: string;
+		noteUserId: string;
+		noteUserUsername: string;
+		noteUserHost: string | null;
+	};
+	warnUser: {
+		warningId: string;
+		userId: string;
+		userUsername: string;
+		userHost: string | null;
+		reason: string;
+		reportId: string | null;
+		noteId: string | null;
+		roleId: string | null;
+		roleName: string | null;
+		roleExpiresAt: string | null;
+	};
+	revokeUserWarning: {
+		warningId: string;
+		userId: string;
+		userUsername: string;
+		userHost: string | null;
+		reason: string;
+	};
+	resolveUserWarningAppeal: {
+		warningId: string;
+		userId: string;
+		userUsername: string;
+		userHost: string | null;
+		reason: string;
+		appealComment: string | null;
+		appealStatus: string;
+	};
 };
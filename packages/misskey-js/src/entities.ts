@@ -123,6 +123,9 @@ export type ModerationLog = {
 } | {
 	type: 'updateRemoteInstanceNote';
 	info: ModerationLogPayloads['updateRemoteInstanceNote'];
+} | {
+	type: 'updateRemoteInstancePolicies';
+	info: ModerationLogPayloads['updateRemoteInstancePolicies'];
 } | {
 	type: 'markSensitiveDriveFile';
 	info: ModerationLogPayloads['markSensitiveDriveFile'];
@@ -156,9 +159,15 @@ export type ModerationLog = {
 } | {
 	type: 'forwardAbuseReport';
 	info: ModerationLogPayloads['forwardAbuseReport'];
+} | {
+	type: 'replyAbuseReport';
+	info: ModerationLogPayloads['replyAbuseReport'];
 } | {
 	type: 'updateAbuseReportNote';
 	info: ModerationLogPayloads['updateAbuseReportNote'];
+} | {
+	type: 'assignAbuseReport';
+	info: ModerationLogPayloads['assignAbuseReport'];
 } | {
 	type: 'unsetUserAvatar';
 	info: ModerationLogPayloads['unsetUserAvatar'];
@@ -183,6 +192,15 @@ export type ModerationLog = {
 } | {
 	type: 'deleteAbuseReportNotificationRecipient';
 	info: ModerationLogPayloads['deleteAbuseReportNotificationRecipient'];
+} | {
+	type: 'createAbuseReportResponseTemplate';
+	info: ModerationLogPayloads['createAbuseReportResponseTemplate'];
+} | {
+	type: 'updateAbuseReportResponseTemplate';
+	info: ModerationLogPayloads['updateAbuseReportResponseTemplate'];
+} | {
+	type: 'deleteAbuseReportResponseTemplate';
+	info: ModerationLogPayloads['deleteAbuseReportResponseTemplate'];
 } | {
 	type: 'deleteAccount';
 	info: ModerationLogPayloads['deleteAccount'];
@@ -195,6 +213,51 @@ export type ModerationLog = {
 } | {
 	type: 'deleteGalleryPost';
 	info: ModerationLogPayloads['deleteGalleryPost'];
+} | {
+	type: 'rebuildSearchIndex';
+	info: ModerationLogPayloads['rebuildSearchIndex'];
+} | {
+	type: 'importBlocklist';
+	info: ModerationLogPayloads['importBlocklist'];
+} | {
+	type: 'createBlocklistSubscription';
+	info: ModerationLogPayloads['createBlocklistSubscription'];
+} | {
+	type: 'updateBlocklistSubscription';
+	info: ModerationLogPayloads['updateBlocklistSubscription'];
+} | {
+	type: 'deleteBlocklistSubscription';
+	info: ModerationLogPayloads['deleteBlocklistSubscription'];
+} | {
+	type: 'hideNote';
+	info: ModerationLogPayloads['hideNote'];
+} | {
+	type: 'unhideNote';
+	info: ModerationLogPayloads['unhideNote'];
+} | {
+	type: 'setNoteCw';
+	info: ModerationLogPayloads['setNoteCw'];
+} | {
+	type: 'markSensitiveNote';
+	info: ModerationLogPayloads['markSensitiveNote'];
+} | {
+	type: 'unmarkSensitiveNote';
+	info: ModerationLogPayloads['unmarkSensitiveNote'];
+} | {
+	type: 'excludeNoteFromPublicTimelines';
+	info: ModerationLogPayloads['excludeNoteFromPublicTimelines'];
+} | {
+	type: 'includeNoteInPublicTimelines';
+	info: ModerationLogPayloads['includeNoteInPublicTimelines'];
+} | {
+	type: 'warnUser';
+	info: ModerationLogPayloads['warnUser'];
+} | {
+	type: 'revokeUserWarning';
+	info: ModerationLogPayloads['revokeUserWarning'];
+} | {
+	type: 'resolveUserWarningAppeal';
+	info: ModerationLogPayloads['resolveUserWarningAppeal'];
 });
 
 export type ServerStats = {
@@ -10,6 +10,8 @@ export const permissions = consts.permissions;
 export const notificationTypes = consts.notificationTypes;
 export const noteVisibilities = consts.noteVisibilities;
 export const mutedNoteReasons = consts.mutedNoteReasons;
+export const abuseReportCategories = consts.abuseReportCategories;
+export const abuseReportPriorities = consts.abuseReportPriorities;
 export const followingVisibilities = consts.followingVisibilities;
 export const followersVisibilities = consts.followersVisibilities;
 export const moderationLogTypes = consts.moderationLogTypes;
@@ -22,19 +24,23 @@ import * as api from './api.js';
 import * as entities from './entities.js';
 import * as acct from './acct.js';
 import * as note from './note.js';
+import * as searchQuery from './searchQuery.js';
 import { nyaize } from './nyaize.js';
-export { api, entities, acct, note, nyaize };
+export { api, entities, acct, note, searchQuery, nyaize };
 
 //#region standalone types
 import type { Endpoints } from './api.types.js';
 import type { StreamEvents, IStream, IChannelConnection } from './streaming.js';
 import type { Channels } from './streaming.types.js';
 import type { Acct } from './acct.js';
+import type { SearchQuery, SearchQueryOperator } from './searchQuery.js';
 
 export type {
 	Endpoints,
 	Channels,
 	Acct,
+	SearchQuery,
+	SearchQueryOperator,
 	StreamEvents,
 	IStream,
 	IChannelConnection,
@@ -0,0 +1,97 @@
+import { parse as parseAcct } from './acct.js';
+import type { Acct } from './acct.js';
+
+export type SearchQueryOperator =
+	{ type: 'from'; acct: Acct; } |
+	{ type: 'has'; value: 'media' | 'poll'; } |
+	{ type: 'in'; value: 'channel'; } |
+	{ type: 'before'; date: string; } |
+	{ type: 'after'; date: string; } |
+	{ type: 'lang'; value: string; } |
+	{ type: 'reply'; value: boolean; };
+
+export type SearchQuery = {
+	/** 通常の検索語 */
+	words: string[];
+	/** `"..."` で囲まれた完全一致させるフレーズ */
+	phrases: string[];
+	/** `-` が付いた除外する語 */
+	excludedWords: string[];
+	/** 認識された演算子。raw は入力されたままの文字列 */
+	operators: (SearchQueryOperator & { raw: string; })[];
+};
+
+const tokenRegex = /(-?)"([^"]*)"?|(\S+)/g;
+const operatorRegex = /^([a-z]+):(.+)$/;
+const acctRegex = /^@?\w+(@[\w.-]+)?$/;
+const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
+const langRegex = /^[a-z]{2,3}(-[a-z0-9]{1,8})*$/;
+
+function parseOperator(key: string, value: string): SearchQueryOperator | null {
+	switch (key) {
+		case 'from': {
+			if (!acctRegex.test(value)) return null;
+			return { type: 'from', acct: parseAcct(value) };
+		}
+		case 'has': {
+			if (value !== 'media' && value !== 'poll') return null;
+			return { type: 'has', value };
+		}
+		case 'in': {
+			if (value !== 'channel') return null;
+			return { type: 'in', value };
+		}
+		case 'before':
+		case 'after': {
+			if (!dateRegex.test(value) || isNaN(Date.parse(value))) return null;
+			return { type: key, date: value };
+		}
+		case 'lang': {
+			const lang = value.toLowerCase();
+			if (!langRegex.test(lang)) return null;
+			return { type: 'lang', value: lang };
+		}
+		case 'reply': {
+			if (value !== 'true' && value !== 'false') return null;
+			return { type: 'reply', value: value === 'true' };
+		}
+		default: return null;
+	}
+}
+
+/**
+ * 検索クエリをパースする
+ * 認識できない演算子や不正な値の演算子は通常の検索語として扱う
+ */
+export function parse(query: string): SearchQuery {
+	const result: SearchQuery = {
+		words: [],
+		phrases: [],
+		excludedWords: [],
+		operators: [],
+	};
+
+	for (const [, negated, phrase, token] of query.matchAll(tokenRegex)) {
+		if (phrase !== undefined) {
+			const trimmed = phrase.trim();
+			if (trimmed === '') continue;
+			(negated ? result.excludedWords : result.phrases).push(trimmed);
+			continue;
+		}
+
+		if (token.startsWith('-') && token.length > 1) {
+			result.excludedWords.push(token.substring(1));
+			continue;
+		}
+
+		const match = operatorRegex.exec(token);
+		const operator = match ? parseOperator(match[1], match[2]) : null;
+		if (operator) {
+			result.operators.push({ ...operator, raw: token });
+		} else {
+			result.words.push(token);
+		}
+	}
+
+	return result;
+}
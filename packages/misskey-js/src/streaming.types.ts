@@ -1,5 +1,7 @@
 import {
 	Antenna,
+	ChatMessage,
+	ChatRoom,
 	DriveFile,
 	DriveFolder,
 	Note,
@@ -9,6 +11,7 @@ import {
 	UserDetailed,
 	UserDetailedNotMe,
 	UserLite,
+	UserWarning,
 } from './autogen/models.js';
 import {
 	AnnouncementCreated,
@@ -66,6 +69,8 @@ export type Channels = {
 			readAntenna: (payload: Antenna) => void;
 			receiveFollowRequest: (payload: User) => void;
 			announcementCreated: (payload: AnnouncementCreated) => void;
+			newChatMessage: (payload: ChatMessage) => void;
+			warningIssued: (payload: UserWarning) => void;
 		};
 		receives: null;
 	};
@@ -230,7 +235,35 @@ export type Channels = {
 			updateSettings: ReversiUpdateSettings<ReversiUpdateKey>;
 			claimTimeIsUp: null | Record<string, never>;
 		}
-	}
+	};
+	chatUser: {
+		params: {
+			otherId: User['id'];
+		};
+		events: {
+			message: (payload: ChatMessage) => void;
+			deleted: (payload: ChatMessage['id']) => void;
+			read: (payload: { userId: User['id']; }) => void;
+		};
+		receives: {
+			read: null | Record<string, never>;
+		};
+	};
+	chatRoom: {
+		params: {
+			roomId: ChatRoom['id'];
+		};
+		events: {
+			message: (payload: ChatMessage) => void;
+			deleted: (payload: ChatMessage['id']) => void;
+			read: (payload: { userId: User['id']; }) => void;
+			memberLeft: (payload: { userId: User['id']; }) => void;
+			roomDeleted: () => void;
+		};
+		receives: {
+			read: null | Record<string, never>;
+		};
+	};
 };
 
 export type NoteUpdatedEvent = { id: Note['id'] } & ({
@@ -257,6 +290,11 @@ export type NoteUpdatedEvent = { id: Note['id'] } & ({
 		choice: number;
 		userId: User['id'];
 	};
+} | {
+	type: 'updated';
+	body: {
+		updatedAt: string;
+	};
 });
 
 export type BroadcastEvents = {
@@ -0,0 +1,54 @@
+import { parse } from '../src/searchQuery.js';
+
+describe('searchQuery', () => {
+	test('plain words', () => {
+		expect(parse('hello  world')).toEqual({
+			words: ['hello', 'world'],
+			phrases: [],
+			excludedWords: [],
+			operators: [],
+		});
+	});
+
+	test('phrases and excluded words', () => {
+		const query = parse('"exact phrase" -spam -"bad phrase" misskey');
+		expect(query.words).toEqual(['misskey']);
+		expect(query.phrases).toEqual(['exact phrase']);
+		expect(query.excludedWords).toEqual(['spam', 'bad phrase']);
+	});
+
+	test('unterminated phrase', () => {
+		expect(parse('"open phrase').phrases).toEqual(['open phrase']);
+	});
+
+	test('operators', () => {
+		const query = parse('from:@alice@example.com has:media has:poll in:channel before:2025-01-01 after:2024-12-01 lang:JA reply:false text');
+		expect(query.words).toEqual(['text']);
+		expect(query.operators).toEqual([
+			{ type: 'from', acct: { username: 'alice', host: 'example.com' }, raw: 'from:@alice@example.com' },
+			{ type: 'has', value: 'media', raw: 'has:media' },
+			{ type: 'has', value: 'poll', raw: 'has:poll' },
+			{ type: 'in', value: 'channel', raw: 'in:channel' },
+			{ type: 'before', date: '2025-01-01', raw: 'before:2025-01-01' },
+			{ type: 'after', date: '2024-12-01', raw: 'after:2024-12-01' },
+			{ type: 'lang', value: 'ja', raw: 'lang:JA' },
+			{ type: 'reply', value: false, raw: 'reply:false' },
+		]);
+	});
+
+	test('local user', () => {
+		expect(parse('from:alice').operators).toEqual([
+			{ type: 'from', acct: { username: 'alice', host: null }, raw: 'from:alice' },
+		]);
+	});
+
+	test('unknown or invalid operators are treated as words', () => {
+		const query = parse('has:video before:yesterday reply:maybe https://example.com');
+		expect(query.operators).toEqual([]);
+		expect(query.words).toEqual(['has:video', 'before:yesterday', 'reply:maybe', 'https://example.com']);
+	});
+
+	test('a lone hyphen is a word', () => {
+		expect(parse('a - b').words).toEqual(['a', '-', 'b']);
+	});
+});
@@ -216,6 +216,27 @@ async function composeNotification(data: PushNotificationDataMap[keyof PushNotif
 						data,
 					}];
 
+				case 'abuseReportResolved':
+					return [i18n.ts._notification.abuseReportResolved, {
+						body: data.body.message ?? i18n.ts._notification.abuseReportResolvedDescription,
+						badge: iconUrl('circle-check'),
+						data,
+					}];
+
+				case 'userWarningAppealResolved':
+					return [i18n.ts._notification.userWarningAppealResolved, {
+						body: data.body.appealStatus === 'accepted' ? i18n.ts._notification.userWarningAppealAccepted : i18n.ts._notification.userWarningAppealRejected,
+						badge: iconUrl('circle-check'),
+						data,
+					}];
+
+				case 'scheduledNotePostFailed':
+					return [i18n.ts._notification.scheduledNotePostFailed, {
+						body: i18n.ts._notification.scheduledNotePostFailedDescription,
+						badge: iconUrl('bell'),
+						data,
+					}];
+
 				case 'exportCompleted': {
 					const entityName = {
 						antenna: i18n.ts.antennas,